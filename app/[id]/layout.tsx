@@ -136,7 +136,10 @@ export async function generateMetadata({ params }: GenerateMetadataProps): Promi
         creator: metadata.username || 'Anonymous',
         publisher: 'WeWrite',
         alternates: {
-          canonical: canonicalUrl
+          canonical: canonicalUrl,
+          ...(isIndexable && {
+            types: { 'application/rss+xml': `${baseUrl}/api/feeds/page/${id}` }
+          })
         },
         robots: {
           index: isIndexable,
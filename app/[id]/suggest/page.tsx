@@ -0,0 +1,156 @@
+"use client";
+
+import React, { useState, useEffect, use } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Button } from '../../components/ui/button';
+import { Textarea } from '../../components/ui/textarea';
+import { toast } from '../../components/ui/use-toast';
+import UnifiedLoader from '../../components/ui/unified-loader';
+import EditableContent from '../../components/content/EditableContent';
+import PageVersionsHeader from '../../components/pages/PageVersionsHeader';
+import { useAuth } from '../../providers/AuthProvider';
+import { getPageById, pageSuggestionsApi } from '../../utils/apiClient';
+import { MAX_SUGGESTION_NOTE_LENGTH } from '../../utils/pageSuggestions';
+
+interface SuggestEditPageProps {
+  params: Promise<{ id: string }> | { id: string };
+}
+
+/**
+ * Suggest an edit to a page you can't edit. The page opens in the editor as
+ * it is now; what you change is sent to the owner as a suggested edit
+ * against this version.
+ */
+export default function SuggestEditPage({ params }: SuggestEditPageProps) {
+  let unwrappedParams;
+  if (params && typeof (params as any).then === 'function') {
+    unwrappedParams = use(params as Promise<{ id: string }>);
+  } else {
+    unwrappedParams = params as { id: string };
+  }
+
+  const { id: pageId } = unwrappedParams;
+  const router = useRouter();
+  const { user, isLoading: authLoading } = useAuth();
+
+  const [page, setPage] = useState<any | null>(null);
+  const [content, setContent] = useState<any[] | null>(null);
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getPageById(pageId, user?.uid, { skipCache: true }).then(({ pageData }) => {
+      if (cancelled) return;
+      setPage(pageData);
+      let pageContent = pageData?.content;
+      if (typeof pageContent === 'string') {
+        try {
+          pageContent = JSON.parse(pageContent);
+        } catch {
+          pageContent = null;
+        }
+      }
+      setContent(Array.isArray(pageContent) ? pageContent : null);
+      setLoading(false);
+    });
+
+    return () => { cancelled = true; };
+  }, [pageId, user?.uid]);
+
+  const handleSubmit = async () => {
+    if (!content) return;
+    setIsSubmitting(true);
+    try {
+      const response = await pageSuggestionsApi.createSuggestion(pageId, {
+        content,
+        note: note.trim() || null,
+        baseVersionId: page?.currentVersion || null
+      });
+      if (!response.success) {
+        toast.error(response.error || 'Could not send your suggested edit');
+        return;
+      }
+      toast.success('Suggested edit sent for review');
+      router.push(`/${pageId}/suggestions`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const heading = `Suggest an edit to "${page?.title || 'Untitled'}"`;
+
+  if (loading || authLoading) {
+    return (
+      <div className="p-4 max-w-4xl mx-auto">
+        <PageVersionsHeader pageTitle="Loading..." isLoading={true} />
+        <UnifiedLoader isLoading={true} message="Loading page..." />
+      </div>
+    );
+  }
+
+  const canEdit = !!user?.uid && (user.uid === page?.userId || page?.isGroupMember === true);
+  const unavailable = !page
+    ? 'This page could not be found.'
+    : !user?.uid
+      ? 'Log in to suggest an edit to this page.'
+      : canEdit
+        ? 'You can edit this page directly.'
+        : page.encrypted || !content
+          ? 'Suggested edits aren\'t available on this page.'
+          : null;
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <PageVersionsHeader pageTitle={page?.title || 'Untitled'} heading={heading} />
+
+      <div className="p-2 space-y-4" style={{ paddingTop: '120px' }}>
+        {unavailable ? (
+          <div className="text-center p-8 border rounded-md space-y-3">
+            <p className="text-muted-foreground">{unavailable}</p>
+            {page && (
+              <Button asChild variant="secondary" size="sm">
+                <Link href={`/${pageId}`}>Back to the page</Link>
+              </Button>
+            )}
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Edit the page below. The author will see your changes as tracked changes and can accept or reject them.
+            </p>
+
+            <div className="wewrite-card p-4">
+              <EditableContent
+                content={content}
+                onChange={setContent}
+                pageId={pageId}
+                placeholder="Start writing..."
+              />
+            </div>
+
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Explain your edit (optional)"
+              maxLength={MAX_SUGGESTION_NOTE_LENGTH}
+              rows={3}
+            />
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => router.push(`/${pageId}`)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={isSubmitting}>
+                {isSubmitting ? 'Sending...' : 'Suggest edit'}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import React, { useState, useEffect, use } from 'react';
+import UnifiedLoader from '../../components/ui/unified-loader';
+import { InlineError } from '../../components/ui/InlineError';
+import PageVersionsHeader from '../../components/pages/PageVersionsHeader';
+import SuggestionReviewCard from '../../components/suggestions/SuggestionReviewCard';
+import { useAuth } from '../../providers/AuthProvider';
+import { getPageById, pageSuggestionsApi } from '../../utils/apiClient';
+import type { PageSuggestion } from '../../types/database';
+
+interface PageSuggestionsPageProps {
+  params: Promise<{ id: string }> | { id: string };
+}
+
+/**
+ * Suggested edits to a page. The page owner and group members review
+ * everyone's here; other readers follow their own.
+ */
+export default function PageSuggestionsPage({ params }: PageSuggestionsPageProps) {
+  let unwrappedParams;
+  if (params && typeof (params as any).then === 'function') {
+    unwrappedParams = use(params as Promise<{ id: string }>);
+  } else {
+    unwrappedParams = params as { id: string };
+  }
+
+  const { id: pageId } = unwrappedParams;
+  const { user } = useAuth();
+
+  const [pageTitle, setPageTitle] = useState('');
+  const [suggestions, setSuggestions] = useState<PageSuggestion[]>([]);
+  const [canReview, setCanReview] = useState(false);
+  const [showReviewed, setShowReviewed] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      setLoading(true);
+      const [{ pageData }, response] = await Promise.all([
+        getPageById(pageId, user?.uid),
+        pageSuggestionsApi.getSuggestions(pageId)
+      ]);
+      if (cancelled) return;
+
+      setPageTitle(pageData?.title || 'Untitled');
+      if (response.success) {
+        setSuggestions(response.data?.suggestions || []);
+        setCanReview(!!response.data?.canReview);
+        setError(null);
+      } else {
+        setError(response.error || 'Failed to load suggested edits');
+      }
+      setLoading(false);
+    })();
+
+    return () => { cancelled = true; };
+  }, [pageId, user?.uid]);
+
+  const handleChange = (id: string, updated: PageSuggestion | null) => {
+    setSuggestions(prev => updated
+      ? prev.map(suggestion => suggestion.id === id ? updated : suggestion)
+      : prev.filter(suggestion => suggestion.id !== id));
+  };
+
+  const heading = `Suggested edits to "${pageTitle}"`;
+
+  if (loading) {
+    return (
+      <div className="p-4 max-w-4xl mx-auto">
+        <PageVersionsHeader pageTitle="Loading..." isLoading={true} />
+        <UnifiedLoader isLoading={true} message="Loading suggested edits..." />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 max-w-4xl mx-auto">
+        <PageVersionsHeader pageTitle={pageTitle} heading={heading} />
+        <InlineError
+          message="Unable to load suggested edits. Please try again later."
+          variant="error"
+          size="lg"
+          title={error}
+          className="mt-20"
+        />
+      </div>
+    );
+  }
+
+  const pending = suggestions.filter(suggestion => suggestion.status === 'pending');
+  const reviewedCount = suggestions.length - pending.length;
+  const visible = showReviewed ? suggestions : pending;
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <PageVersionsHeader pageTitle={pageTitle} heading={heading} />
+
+      <div className="p-2 space-y-3" style={{ paddingTop: '120px' }}>
+        {visible.length === 0 ? (
+          <div className="text-center p-8 border rounded-md">
+            <p className="text-muted-foreground">
+              {canReview ? 'No suggested edits are waiting for review' : 'You have no suggested edits waiting for review'}
+            </p>
+          </div>
+        ) : (
+          visible.map(suggestion => (
+            <SuggestionReviewCard
+              key={suggestion.id}
+              suggestion={suggestion}
+              canReview={canReview}
+              isOwn={suggestion.userId === user?.uid}
+              onChange={(updated) => handleChange(suggestion.id, updated)}
+            />
+          ))
+        )}
+
+        {reviewedCount > 0 && (
+          <button
+            onClick={() => setShowReviewed(!showReviewed)}
+            className="text-xs text-muted-foreground hover:text-foreground"
+          >
+            {showReviewed ? 'Hide reviewed' : `Show ${reviewedCount} reviewed`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -12,6 +12,9 @@ import ViewableContent from '../../../components/content/ViewableContent';
 import { DiffStats } from '../../../components/activity/DiffPreview';
 import { PageProvider } from '../../../contexts/PageContext';
 import { useHasKeyboard } from '../../../hooks/useHasKeyboard';
+import VersionActions from '../../../components/pages/VersionActions';
+import { useContentDecryption } from '../../../hooks/useContentDecryption';
+import { parseEncryptedContent } from '../../../lib/crypto/contentEncryption';
 
 interface VersionSnapshotPageProps {
   params: Promise<{ id: string; versionId: string }> | { id: string; versionId: string };
@@ -36,6 +39,16 @@ interface VersionData {
     hasAdditions: boolean;
     hasRemovals: boolean;
   };
+  restoredFrom?: {
+    versionId: string;
+    createdAt: string | null;
+    username: string | null;
+  };
+  acceptedSuggestion?: {
+    suggestionId: string;
+    acceptedBy: string;
+    acceptedByUsername: string;
+  };
 }
 
 interface VersionNavInfo {
@@ -65,6 +78,11 @@ export default function VersionSnapshotPage({ params }: VersionSnapshotPageProps
   const [error, setError] = useState<string | null>(null);
   const [allVersions, setAllVersions] = useState<{ id: string; createdAt: string }[]>([]);
   const [currentVersionIndex, setCurrentVersionIndex] = useState<number>(-1);
+  // Encrypted-group snapshots are decrypted in the browser with the group key
+  const [pageGroupId, setPageGroupId] = useState<string | null>(null);
+  const [canEdit, setCanEdit] = useState(false);
+  const [decryptedContent, setDecryptedContent] = useState<unknown>(null);
+  const decrypt = useContentDecryption(pageGroupId);
 
   // Fetch version data
   const fetchVersionData = useCallback(async () => {
@@ -90,6 +108,7 @@ export default function VersionSnapshotPage({ params }: VersionSnapshotPageProps
         setPreviousVersion(data.data.previousVersion);
         setNextVersion(data.data.nextVersion);
         setPageTitle(data.data.pageTitle || 'Untitled');
+        setCanEdit(data.data.canEdit === true);
       } else {
         throw new Error(data.error || 'Failed to load version');
       }
@@ -103,6 +122,7 @@ export default function VersionSnapshotPage({ params }: VersionSnapshotPageProps
         const versionsData = await versionsResponse.json();
         const versions = versionsData.data?.versions || versionsData.versions || [];
         setAllVersions(versions.map((v: any) => ({ id: v.id, createdAt: v.createdAt })));
+        setPageGroupId(versionsData.data?.pageGroupId || null);
 
         // Find current version index
         const idx = versions.findIndex((v: any) => v.id === versionId);
@@ -121,6 +141,21 @@ export default function VersionSnapshotPage({ params }: VersionSnapshotPageProps
     fetchVersionData();
   }, [fetchVersionData]);
 
+  useEffect(() => {
+    if (!version || !parseEncryptedContent(version.content)) {
+      setDecryptedContent(null);
+      return;
+    }
+
+    let cancelled = false;
+    decrypt(version.content).then((content) => {
+      if (!cancelled) setDecryptedContent(content);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [version, decrypt]);
+
   // Keyboard navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -212,7 +247,8 @@ export default function VersionSnapshotPage({ params }: VersionSnapshotPageProps
     );
   }
 
-  const parsedContent = parseContent(version.content);
+  const isEncrypted = !!parseEncryptedContent(version.content);
+  const parsedContent = isEncrypted ? decryptedContent : parseContent(version.content);
   const isCurrentVersion = currentVersionIndex === 0;
   const isFirstVersion = !previousVersion;
 
@@ -322,6 +358,37 @@ export default function VersionSnapshotPage({ params }: VersionSnapshotPageProps
       {/* Main Content Area */}
       <div className="pt-32 pb-8 px-4">
         <div className="max-w-4xl mx-auto">
+          {/* Compare / restore / fork */}
+          <VersionActions
+            pageId={pageId}
+            versionId={version.id}
+            versionTitle={version.title || pageTitle}
+            versionContent={parsedContent}
+            currentVersionId={allVersions[0]?.id}
+            isCurrentVersion={isCurrentVersion}
+            isEncrypted={isEncrypted}
+            canEdit={canEdit}
+          />
+
+          {version.restoredFrom && (
+            <div className="mb-4 text-sm text-muted-foreground">
+              Restored from{' '}
+              <button
+                onClick={() => router.push(`/${pageId}/versions/${version.restoredFrom!.versionId}`)}
+                className="font-medium text-foreground hover:text-primary underline-offset-4 hover:underline"
+              >
+                {version.restoredFrom.createdAt ? `the version of ${format(new Date(version.restoredFrom.createdAt), 'PPp')}` : 'an earlier version'}
+              </button>
+              {version.restoredFrom.username && <> by {version.restoredFrom.username}</>}
+            </div>
+          )}
+
+          {version.acceptedSuggestion && (
+            <div className="mb-4 text-sm text-muted-foreground">
+              Suggested edit{version.username && <> by {version.username}</>}, accepted by {version.acceptedSuggestion.acceptedByUsername}
+            </div>
+          )}
+
           {/* Diff Stats Bar */}
           {version.diff && version.diff.hasChanges && (
             <div className="mb-4 p-3 rounded-lg bg-muted/50 flex items-center justify-between">
@@ -380,7 +447,9 @@ export default function VersionSnapshotPage({ params }: VersionSnapshotPageProps
               </PageProvider>
             ) : (
               <div className="text-muted-foreground italic">
-                No content available for this version
+                {isEncrypted
+                  ? 'This version is encrypted. Unlock your encryption keys to read it.'
+                  : 'No content available for this version'}
               </div>
             )}
           </div>
@@ -0,0 +1,177 @@
+"use client";
+
+import React, { useState, useEffect, use, useMemo } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { format } from 'date-fns';
+import UnifiedLoader from '../../../components/ui/unified-loader';
+import { InlineError } from '../../../components/ui/InlineError';
+import PageVersionsHeader from '../../../components/pages/PageVersionsHeader';
+import VersionCompareView, { ComparableVersion } from '../../../components/pages/VersionCompareView';
+import { useContentDecryption } from '../../../hooks/useContentDecryption';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../../components/ui/select';
+
+interface VersionComparePageProps {
+  params: Promise<{ id: string }> | { id: string };
+}
+
+const parseContent = (content: any) => {
+  if (typeof content !== 'string') return content;
+  try {
+    return JSON.parse(content);
+  } catch {
+    return content;
+  }
+};
+
+/**
+ * Compare any two versions of a page side by side.
+ * Versions are chosen with ?from=&to= (defaults: the two most recent versions).
+ */
+export default function VersionComparePage({ params }: VersionComparePageProps) {
+  let unwrappedParams;
+  if (params && typeof (params as any).then === 'function') {
+    unwrappedParams = use(params as Promise<{ id: string }>);
+  } else {
+    unwrappedParams = params as { id: string };
+  }
+
+  const { id: pageId } = unwrappedParams;
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const [versions, setVersions] = useState<ComparableVersion[]>([]);
+  const [pageTitle, setPageTitle] = useState('');
+  const [pageGroupId, setPageGroupId] = useState<string | null>(null);
+  const decrypt = useContentDecryption(pageGroupId);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchVersions() {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/pages/${pageId}/versions?limit=100`, {
+          credentials: 'include',
+        });
+        if (!response.ok) {
+          throw new Error('Failed to load versions');
+        }
+
+        const data = await response.json();
+        const list = data.data?.versions || data.versions || [];
+        setPageTitle(data.data?.pageTitle || 'Untitled');
+        setPageGroupId(data.data?.pageGroupId || null);
+        setVersions(list.map((v: any) => ({
+          id: v.id,
+          content: parseContent(v.content),
+          createdAt: v.createdAt,
+          userId: v.userId,
+          username: v.username,
+          title: v.title,
+        })));
+      } catch (err) {
+        console.error('Error fetching versions to compare:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load versions');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchVersions();
+  }, [pageId]);
+
+  // Versions arrive newest first
+  const fromId = searchParams.get('from') || versions[1]?.id || versions[0]?.id || '';
+  const toId = searchParams.get('to') || versions[0]?.id || '';
+
+  const [older, newer] = useMemo(() => {
+    const from = versions.find(v => v.id === fromId);
+    const to = versions.find(v => v.id === toId);
+    if (!from || !to) return [null, null];
+    return new Date(from.createdAt) <= new Date(to.createdAt) ? [from, to] : [to, from];
+  }, [versions, fromId, toId]);
+
+  const selectVersions = (nextFrom: string, nextTo: string) => {
+    router.replace(`/${pageId}/versions/compare?from=${nextFrom}&to=${nextTo}`);
+  };
+
+  const versionLabel = (version: ComparableVersion) =>
+    `${format(new Date(version.createdAt), 'MMM d, yyyy h:mm a')}${version.username ? ` · ${version.username}` : ''}`;
+
+  if (loading) {
+    return (
+      <div className="p-4 max-w-4xl mx-auto">
+        <PageVersionsHeader pageTitle="Loading..." isLoading={true} />
+        <UnifiedLoader isLoading={true} message="Loading versions..." />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 max-w-4xl mx-auto">
+        <PageVersionsHeader pageTitle={pageTitle || 'Unknown Page'} isLoading={false} />
+        <InlineError
+          message="Unable to load versions to compare. Please try again later."
+          variant="error"
+          size="lg"
+          title={error}
+          className="mt-20"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <PageVersionsHeader pageTitle={pageTitle} heading={`Compare versions of "${pageTitle}"`} />
+
+      <div className="p-2" style={{ paddingTop: '120px' }}>
+        {versions.length < 2 ? (
+          <div className="text-center p-8 border rounded-md">
+            <p className="text-muted-foreground">This page needs at least two versions to compare</p>
+          </div>
+        ) : (
+          <>
+            <div className="mb-4 grid grid-cols-1 gap-2 md:grid-cols-2">
+              <div>
+                <p className="text-sm text-muted-foreground mb-1">From</p>
+                <Select value={fromId} onValueChange={(value) => selectVersions(value, toId)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map(version => (
+                      <SelectItem key={version.id} value={version.id}>{versionLabel(version)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground mb-1">To</p>
+                <Select value={toId} onValueChange={(value) => selectVersions(fromId, value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map(version => (
+                      <SelectItem key={version.id} value={version.id}>{versionLabel(version)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {older && newer ? (
+              <VersionCompareView from={older} to={newer} decrypt={pageGroupId ? decrypt : undefined} />
+            ) : (
+              <div className="text-center p-8 border rounded-md">
+                <p className="text-muted-foreground">Choose two versions to compare</p>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
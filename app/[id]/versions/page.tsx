@@ -14,6 +14,9 @@ import DiffTimelineChart from '../../components/activity/DiffTimelineChart';
 import { getDiff } from '../../utils/diffService';
 import PageVersionsHeader from '../../components/pages/PageVersionsHeader';
 import { useAuth } from '../../providers/AuthProvider';
+import { useCrypto } from '../../contexts/CryptoContext';
+import { createContentDecryptor, useContentDecryption } from '../../hooks/useContentDecryption';
+import { parseEncryptedContent } from '../../lib/crypto/contentEncryption';
 
 interface PageVersion {
   id: string;
@@ -67,6 +70,10 @@ export default function PageVersionsPage({ params }: PageVersionsPageProps) {
   const [activities, setActivities] = useState<ActivityItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Encrypted groups: version content is decrypted and diffed in the browser
+  const [pageGroupId, setPageGroupId] = useState<string | null>(null);
+  const { decryptForGroup } = useCrypto();
+  const decrypt = useContentDecryption(pageGroupId);
   const router = useRouter();
 
   useEffect(() => {
@@ -111,11 +118,13 @@ export default function PageVersionsPage({ params }: PageVersionsPageProps) {
           },
         });
         let pageVersions = [];
+        let groupId: string | null = null;
 
 
         if (versionsResponse.ok) {
           const versionsData = await versionsResponse.json();
           pageVersions = versionsData.data?.versions || versionsData.versions || [];
+          groupId = versionsData.data?.pageGroupId || null;
         } else {
           console.error('Failed to fetch page versions:', versionsResponse.status, versionsResponse.statusText);
 
@@ -134,6 +143,9 @@ export default function PageVersionsPage({ params }: PageVersionsPageProps) {
 
         // Convert page versions to activity format for display
         let activityItems = [];
+        const decryptVersion = createContentDecryptor(decryptForGroup, groupId);
+        // Ciphertext must never be shown as a preview
+        const isEncryptedVersion = (version: { content?: unknown }) => !!parseEncryptedContent(version.content);
 
         if (pageVersions.length > 0) {
           // Use page versions data from the dedicated API
@@ -151,7 +163,7 @@ export default function PageVersionsPage({ params }: PageVersionsPageProps) {
               try {
                 // Import the diff service to calculate the diff
                 const { calculateDiff } = await import('../../utils/diffService');
-                const diffResult = await calculateDiff(version.content, previousContent);
+                const diffResult = await calculateDiff(version.content, previousContent, undefined, { decrypt: decryptVersion });
 
                 if (diffResult) {
                   diff = {
@@ -165,7 +177,7 @@ export default function PageVersionsPage({ params }: PageVersionsPageProps) {
               } catch (error) {
                 console.error('Error calculating diff for version:', version.id, error);
               }
-            } else if (version.content && !previousContent) {
+            } else if (version.content && !previousContent && !isEncryptedVersion(version)) {
               // This is the first version, everything is "added"
               diff = { added: version.content.length, removed: 0, hasChanges: true };
               diffPreview = {
@@ -244,6 +256,7 @@ export default function PageVersionsPage({ params }: PageVersionsPageProps) {
 
         if (process.env.NODE_ENV === 'development') {
         }
+        setPageGroupId(groupId);
         setActivities(activityItems);
         setVersions(pageVersions); // Set versions from the API
       } catch (err) {
@@ -255,7 +268,7 @@ export default function PageVersionsPage({ params }: PageVersionsPageProps) {
     }
 
     fetchData();
-  }, [id, authLoading, user?.uid]);
+  }, [id, authLoading, user?.uid, decryptForGroup]);
 
   const handleBackToPage = () => {
     router.push('/' + id);
@@ -310,6 +323,20 @@ export default function PageVersionsPage({ params }: PageVersionsPageProps) {
 
         {/* Clean spacing for fixed header */}
         <div className="p-2" style={{ paddingTop: '120px' }}>
+          {versions.length > 1 && (
+            <div className="mb-4 flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                onClick={() => router.push(`/${id}/versions/compare`)}
+              >
+                <Icon name="GitCompare" size={16} />
+                Compare versions
+              </Button>
+            </div>
+          )}
+
           {/* Diff Timeline Chart */}
           {activities.length > 1 && (
             <div className="mb-6 p-4 wewrite-card">
@@ -338,7 +365,7 @@ export default function PageVersionsPage({ params }: PageVersionsPageProps) {
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
               {activities.map((activity, index) => (
-                <VersionActivityCard key={index} activity={activity} />
+                <VersionActivityCard key={index} activity={activity} decrypt={decrypt} />
               ))}
             </div>
           )}
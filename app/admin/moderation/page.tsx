@@ -0,0 +1,250 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Icon } from '@/components/ui/Icon';
+import { useRouter } from "next/navigation";
+import { useAuth } from "../../providers/AuthProvider";
+import { useAdminData } from "../../providers/AdminDataProvider";
+import { Badge } from "../../components/ui/badge";
+import { Button } from "../../components/ui/button";
+import { Separator } from "../../components/ui/separator";
+import { Textarea } from "../../components/ui/textarea";
+import { toast } from "../../components/ui/use-toast";
+import {
+  MODERATION_ACTION_LABELS,
+  REPORT_CATEGORIES,
+  getModerationActions,
+  type ReportQueueItem,
+} from "../../utils/contentReports";
+import type { ModerationAction } from "../../types/database";
+
+interface AuditEntry {
+  id: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  note: string | null;
+  reportIds: string[];
+  performedBy: string | null;
+  timestamp: string | null;
+}
+
+const CATEGORY_LABELS = Object.fromEntries(REPORT_CATEGORIES.map(c => [c.value, c.label]));
+
+/** Actions that can't be undone from this page get a confirmation */
+const CONFIRM_ACTIONS: ModerationAction[] = ['delete_page', 'suspend_user'];
+
+function getTargetHref(item: ReportQueueItem): string {
+  return item.targetType === 'user' ? `/u/${item.targetId}` : `/${item.targetId}`;
+}
+
+export default function ModerationPage() {
+  const { user, isLoading } = useAuth();
+  const { adminFetch, isHydrated } = useAdminData();
+  const router = useRouter();
+  const [queue, setQueue] = useState<ReportQueueItem[] | null>(null);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [workingKey, setWorkingKey] = useState<string | null>(null);
+  const [csrfToken, setCsrfToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isLoading && isHydrated) {
+      if (!user) {
+        router.push("/auth/login?redirect=/admin/moderation");
+        return;
+      }
+      if (!user.isAdmin) {
+        router.push("/");
+        return;
+      }
+      void loadCsrfToken();
+      void loadQueue();
+    }
+  }, [isLoading, isHydrated, user, router]);
+
+  const loadCsrfToken = async () => {
+    try {
+      const res = await adminFetch("/api/auth/csrf-token", { credentials: "include" });
+      const data = await res.json();
+      if (res.ok && data?.token) {
+        setCsrfToken(data.token);
+      }
+    } catch (err) {
+      console.warn("[ModerationPage] Failed to load CSRF token", err);
+    }
+  };
+
+  const loadQueue = async () => {
+    try {
+      const res = await adminFetch("/api/admin/moderation", { credentials: "include" });
+      const data = await res.json();
+      if (res.ok && data?.data) {
+        setQueue(data.data.queue || []);
+        setAuditLog(data.data.auditLog || []);
+      } else {
+        setQueue([]);
+        toast.error(data?.error || "Failed to load moderation queue");
+      }
+    } catch (err) {
+      console.warn("[ModerationPage] Failed to load queue", err);
+      setQueue([]);
+    }
+  };
+
+  const applyAction = async (item: ReportQueueItem, action: ModerationAction) => {
+    if (CONFIRM_ACTIONS.includes(action) && !window.confirm(`${MODERATION_ACTION_LABELS[action]} for "${item.targetTitle}"?`)) {
+      return;
+    }
+
+    setWorkingKey(item.key);
+    try {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (csrfToken) {
+        headers["X-CSRF-Token"] = csrfToken;
+      }
+      const res = await adminFetch("/api/admin/moderation", {
+        method: "POST",
+        headers,
+        credentials: "include",
+        body: JSON.stringify({
+          targetType: item.targetType,
+          targetId: item.targetId,
+          action,
+          note: notes[item.key] || undefined
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to apply action");
+        return;
+      }
+      toast.success(`${MODERATION_ACTION_LABELS[action]}: ${data.data?.reportsResolved ?? 0} report(s) closed`);
+      await loadQueue();
+    } catch (err) {
+      console.error("[ModerationPage] Failed to apply action", err);
+      toast.error("Failed to apply action");
+    } finally {
+      setWorkingKey(null);
+    }
+  };
+
+  if (isLoading || !user) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="text-center">
+          <Icon name="Loader" className="text-primary mx-auto mb-4" />
+          <p className="text-muted-foreground">Loading…</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user.isAdmin) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-muted-foreground">Access denied.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h1 className="text-xl font-semibold">Moderation</h1>
+        <p className="text-sm text-muted-foreground">
+          Open reports, grouped by page or user. Acting on an item closes all of its reports and notifies each reporter.
+        </p>
+      </div>
+
+      {queue === null ? (
+        <div className="flex justify-center py-8">
+          <Icon name="Loader" className="text-muted-foreground" />
+        </div>
+      ) : queue.length === 0 ? (
+        <div className="wewrite-card text-sm text-muted-foreground">No open reports.</div>
+      ) : (
+        queue.map(item => (
+          <div key={item.key} className="wewrite-card space-y-3">
+            <div className="flex items-start justify-between gap-3">
+              <div className="flex-1 min-w-0">
+                <Link href={getTargetHref(item)} className="font-semibold hover:underline" target="_blank">
+                  {item.targetTitle}
+                </Link>
+                <p className="text-sm text-muted-foreground">
+                  {item.reports.length} report{item.reports.length === 1 ? '' : 's'} · first {new Date(item.firstReportedAt).toLocaleString()}
+                  {item.targetType !== 'user' && (
+                    <> · by <Link href={`/u/${item.targetUserId}`} className="hover:underline" target="_blank">author</Link></>
+                  )}
+                </p>
+              </div>
+              <Badge variant="outline" className="shrink-0 text-xs capitalize">{item.targetType}</Badge>
+            </div>
+
+            <div className="flex flex-wrap gap-1.5">
+              {Object.entries(item.categories).map(([category, count]) => (
+                <Badge key={category} variant="secondary" className="text-xs">
+                  {CATEGORY_LABELS[category] || category} × {count}
+                </Badge>
+              ))}
+            </div>
+
+            {item.reports.some(report => report.details) && (
+              <ul className="space-y-1 text-sm">
+                {item.reports.filter(report => report.details).map(report => (
+                  <li key={report.id} className="text-muted-foreground">
+                    <span className="font-medium text-foreground">{report.reporterUsername || 'Reader'}:</span> {report.details}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <Separator />
+
+            <Textarea
+              value={notes[item.key] || ''}
+              onChange={(e) => setNotes(prev => ({ ...prev, [item.key]: e.target.value }))}
+              placeholder="Note for the audit log (sent to the author with a warning)"
+              rows={2}
+              disabled={workingKey === item.key}
+            />
+
+            <div className="flex flex-wrap gap-2">
+              {getModerationActions(item.targetType).map(action => (
+                <Button
+                  key={action}
+                  size="sm"
+                  variant={action === 'dismiss' ? 'secondary' : CONFIRM_ACTIONS.includes(action) ? 'destructive' : 'outline'}
+                  disabled={workingKey !== null}
+                  onClick={() => applyAction(item, action)}
+                >
+                  {MODERATION_ACTION_LABELS[action]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+
+      {auditLog.length > 0 && (
+        <div className="wewrite-card space-y-3">
+          <h2 className="font-semibold">Audit log</h2>
+          <Separator />
+          <ul className="space-y-2 text-sm">
+            {auditLog.map(entry => (
+              <li key={entry.id} className="flex flex-wrap items-baseline gap-x-2">
+                <span className="font-mono text-xs">{entry.action}</span>
+                <span className="text-muted-foreground">
+                  {entry.targetType} {entry.targetId} · {entry.reportIds.length} report(s) · {entry.performedBy || 'unknown admin'}
+                  {entry.timestamp && ` · ${new Date(entry.timestamp).toLocaleString()}`}
+                </span>
+                {entry.note && <span className="w-full text-muted-foreground">“{entry.note}”</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
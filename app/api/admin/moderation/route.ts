@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAdminPermissions } from '../../admin-auth-helper';
+import { getUserIdFromRequest } from '../../auth-helper';
+import { withAdminContext } from '../../../utils/adminRequestContext';
+import { ModerationService, ModerationError } from '../../../services/moderationService';
+import { MODERATION_ACTION_LABELS, REPORT_TARGET_TYPES } from '../../../utils/contentReports';
+import type { ModerationAction, ReportTargetType } from '../../../types/database';
+
+/**
+ * Admin Moderation API
+ *
+ * GET /api/admin/moderation - Open reports grouped by target, and the moderation audit log
+ * POST /api/admin/moderation - Act on a reported page or user
+ *   Body: { targetType, targetId, action, note? }
+ */
+
+export async function GET(request: NextRequest) {
+  return withAdminContext(request, async () => {
+    try {
+      const adminCheck = await checkAdminPermissions(request);
+      if (!adminCheck.success) {
+        return NextResponse.json({ error: adminCheck.error || 'Admin access required' }, { status: 403 });
+      }
+
+      const [queue, auditLog] = await Promise.all([
+        ModerationService.getQueue(),
+        ModerationService.getAuditLog()
+      ]);
+
+      return NextResponse.json({ success: true, data: { queue, auditLog } });
+    } catch (error) {
+      console.error('[Moderation API] Error loading queue:', error);
+      return NextResponse.json({ error: 'Failed to load moderation queue' }, { status: 500 });
+    }
+  });
+}
+
+export async function POST(request: NextRequest) {
+  return withAdminContext(request, async () => {
+    try {
+      const adminCheck = await checkAdminPermissions(request);
+      if (!adminCheck.success) {
+        return NextResponse.json({ error: adminCheck.error || 'Admin access required' }, { status: 403 });
+      }
+
+      const adminUid = await getUserIdFromRequest(request);
+      if (!adminUid) {
+        return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+      }
+
+      const { targetType, targetId, action, note } = await request.json();
+      if (!REPORT_TARGET_TYPES.includes(targetType) || typeof targetId !== 'string' || !targetId) {
+        return NextResponse.json({ error: 'A reported page or user is required' }, { status: 400 });
+      }
+      if (!(action in MODERATION_ACTION_LABELS)) {
+        return NextResponse.json({ error: 'Unknown moderation action' }, { status: 400 });
+      }
+      if (note !== undefined && typeof note !== 'string') {
+        return NextResponse.json({ error: 'Note must be text' }, { status: 400 });
+      }
+
+      const result = await ModerationService.applyAction(
+        targetType as ReportTargetType,
+        targetId,
+        action as ModerationAction,
+        { uid: adminUid, email: adminCheck.userEmail },
+        note
+      );
+
+      return NextResponse.json({ success: true, data: result });
+    } catch (error) {
+      if (error instanceof ModerationError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      console.error('[Moderation API] Error applying action:', error);
+      return NextResponse.json({ error: 'Failed to apply moderation action' }, { status: 500 });
+    }
+  });
+}
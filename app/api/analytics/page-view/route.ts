@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getFirebaseAdmin } from '../../../firebase/firebaseAdmin';
 import { getCollectionName } from '../../../utils/environmentConfig';
+import { getUserIdFromRequest } from '../../auth-helper';
+import { recordReaderPageView } from '../../../services/pageViewService';
+import { CarryOverService } from '../../../services/carryOverService';
 
 /**
  * POST /api/analytics/page-view
@@ -14,6 +17,9 @@ import { getCollectionName } from '../../../utils/environmentConfig';
  *   - hours: Record<number, number> (hourly view counts, e.g., { 0: 5, 14: 10 })
  *   - totalViews: number (sum of all hourly views)
  *   - lastUpdated: Timestamp
+ *
+ * Signed-in readers with a carry-over rule also get the view counted in
+ * readerMonthlyViews, which decides where their unallocated funds go.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -92,6 +98,17 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Never let reader tracking fail the page view itself
+    try {
+      const readerId = await getUserIdFromRequest(request);
+      if (readerId && (await CarryOverService.getRule(readerId)) !== 'none') {
+        const pageDoc = await pageRef.get();
+        await recordReaderPageView(db, readerId, pageId, pageDoc.data()?.userId, admin.firestore.FieldValue);
+      }
+    } catch (readerError) {
+      console.warn('Failed to record reader page view:', readerError);
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error recording page view:', error);
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../../auth-helper';
+import { ApiTokenService } from '../../../services/apiTokenService';
+
+/**
+ * DELETE /api/api-tokens/[id]
+ * Revoke a token. It stops working straight away but stays in the list.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const token = await ApiTokenService.revokeToken(userId, id);
+    if (!token) {
+      return NextResponse.json({ error: 'API token not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ token });
+  } catch (error) {
+    console.error('Error revoking API token:', error);
+    return NextResponse.json({ error: 'Failed to revoke API token' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../auth-helper';
+import { ApiTokenError, ApiTokenService } from '../../services/apiTokenService';
+import { getApiTokenInputError } from '../../utils/apiTokens';
+
+/**
+ * GET /api/api-tokens
+ * List the user's personal API tokens, revoked ones included
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const tokens = await ApiTokenService.listTokens(userId);
+    return NextResponse.json({ tokens });
+  } catch (error) {
+    console.error('Error listing API tokens:', error);
+    return NextResponse.json({ error: 'Failed to list API tokens' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/api-tokens
+ * Create a token. The response is the only time the token itself is shown.
+ * Body: { name, scopes: string[], rateLimit?: number, expiresInDays?: number | null }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name, scopes, rateLimit, expiresInDays } = await request.json();
+    const inputError = getApiTokenInputError({ name, scopes, rateLimit, expiresInDays });
+    if (inputError) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const { token, secret } = await ApiTokenService.createToken(userId, { name, scopes, rateLimit, expiresInDays });
+    return NextResponse.json({ token, secret });
+  } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error creating API token:', error);
+    return NextResponse.json({ error: 'Failed to create API token' }, { status: 500 });
+  }
+}
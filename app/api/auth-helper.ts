@@ -4,6 +4,7 @@ import { DEV_TEST_USERS } from '../utils/testUsers';
 import { getCollectionName } from '../utils/environmentConfig';
 import { parseSignedCookieValue, type SessionCookieData } from '../utils/cookieUtils';
 import { verifyIdToken } from '../lib/firebase-rest';
+import { API_V1_PATH, isApiToken } from '../utils/apiTokens';
 
 // Type definitions
 interface ApiResponse<T = any> {
@@ -25,7 +26,7 @@ interface UserSession {
   [key: string]: any;
 }
 
-type ApiErrorType = 'UNAUTHORIZED' | 'FORBIDDEN' | 'NOT_FOUND' | 'BAD_REQUEST' | 'INTERNAL_ERROR' | 'FEATURE_DISABLED';
+type ApiErrorType = 'UNAUTHORIZED' | 'FORBIDDEN' | 'NOT_FOUND' | 'BAD_REQUEST' | 'CONFLICT' | 'INTERNAL_ERROR' | 'FEATURE_DISABLED';
 
 // Removed Firebase Admin initialization - using simple cookie-based auth
 
@@ -60,6 +61,7 @@ export const ApiErrors: Record<ApiErrorType, ApiError> = {
   FORBIDDEN: { message: 'Insufficient permissions', status: 403 },
   NOT_FOUND: { message: 'Resource not found', status: 404 },
   BAD_REQUEST: { message: 'Invalid request parameters', status: 400 },
+  CONFLICT: { message: 'Resource was modified by another request', status: 409 },
   INTERNAL_ERROR: { message: 'Internal server error', status: 500 },
   FEATURE_DISABLED: { message: 'Feature is currently disabled', status: 404 }
 };
@@ -193,7 +195,8 @@ async function trySimpleUserSessionCookie(request: NextRequest): Promise<string
 
 /**
  * Try to authenticate using Authorization Bearer token (mobile app / API clients)
- * Accepts Firebase ID tokens passed as: Authorization: Bearer <idToken>
+ * Accepts Firebase ID tokens passed as: Authorization: Bearer <idToken>,
+ * and personal API tokens (wwpat_...) on /api/v1 routes
  */
 async function tryBearerToken(request: NextRequest): Promise<string | null> {
   const authHeader = request.headers.get('authorization');
@@ -206,6 +209,19 @@ async function tryBearerToken(request: NextRequest): Promise<string | null> {
     return null;
   }
 
+  // Personal API tokens only work on /api/v1, where their scopes are checked
+  if (isApiToken(token)) {
+    if (!request.nextUrl.pathname.startsWith(API_V1_PATH)) {
+      return null;
+    }
+    try {
+      const { ApiTokenService } = await import('../services/apiTokenService');
+      return (await ApiTokenService.authenticate(token)).userId;
+    } catch {
+      return null;
+    }
+  }
+
   try {
     const result = await verifyIdToken(token);
     if (result.success && result.uid) {
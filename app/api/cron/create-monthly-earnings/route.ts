@@ -5,6 +5,13 @@
  * This is a safety net to ensure earnings records exist even if allocation rollover
  * fails to create them (e.g., if backfillCurrentMonthAllocations doesn't trigger).
  *
+ * Before that, it turns supporters' recurring pledges into allocations for the
+ * new month (see RecurringPledgeService), so they are counted below.
+ *
+ * It also applies supporters' carry-over rules for the month that just ended,
+ * sending their unallocated funds to the writers they read instead of letting
+ * them become platform revenue (see CarryOverService).
+ *
  * Schedule: 0 7 1 * * (7 AM UTC on the 1st of each month)
  * This runs BEFORE process-writer-earnings (8 AM) which promotes pending -> available.
  *
@@ -17,6 +24,8 @@ import { getFirebaseAdmin } from '../../../firebase/firebaseAdmin';
 import { getCollectionName, USD_COLLECTIONS } from '../../../utils/environmentConfig';
 import { getCurrentMonth } from '../../../utils/subscriptionTiers';
 import { UsdEarningsService } from '../../../services/usdEarningsService';
+import { CarryOverService, previousMonthOf } from '../../../services/carryOverService';
+import { RecurringPledgeService } from '../../../services/recurringPledgeService';
 import { centsToDollars } from '../../../utils/formatCurrency';
 
 interface AllocationRecord {
@@ -57,14 +66,17 @@ export async function GET(request: NextRequest) {
 
     console.log(`[CRON] Starting monthly earnings creation [${correlationId}]`);
 
-    const result = await processMonthlyEarnings(getCurrentMonth(), correlationId);
+    const currentMonth = getCurrentMonth();
+    const recurringPledges = await RecurringPledgeService.materializeCurrentMonth(correlationId);
+    const result = await processMonthlyEarnings(currentMonth, correlationId);
+    const carryOver = await CarryOverService.processCarryOver(previousMonthOf(currentMonth), correlationId);
 
     const duration = Date.now() - startTime;
-    console.log(`[CRON] Monthly earnings creation completed in ${duration}ms [${correlationId}]`, result);
+    console.log(`[CRON] Monthly earnings creation completed in ${duration}ms [${correlationId}]`, recurringPledges, result, carryOver);
 
     return NextResponse.json({
       success: true,
-      data: result,
+      data: { ...result, recurringPledges, carryOver },
       duration: `${duration}ms`,
       correlationId
     });
@@ -89,20 +101,26 @@ export async function POST(request: NextRequest) {
     // For POST, we accept admin auth via session
     // This is less strict than cron auth since admins need to trigger manually
     const body = await request.json().catch(() => ({}));
-    const { month, dryRun = false } = body;
+    const { month, carryOverMonth, dryRun = false } = body;
 
     const targetMonth = month || getCurrentMonth();
+    const targetCarryOverMonth = carryOverMonth || previousMonthOf(targetMonth);
 
-    console.log(`[CRON] Manual monthly earnings creation for ${targetMonth} (dryRun: ${dryRun}) [${correlationId}]`);
+    console.log(`[CRON] Manual monthly earnings creation for ${targetMonth}, carry-over for ${targetCarryOverMonth} (dryRun: ${dryRun}) [${correlationId}]`);
 
+    // Recurring pledges can only be materialized into the current month
+    const recurringPledges = targetMonth === getCurrentMonth()
+      ? await RecurringPledgeService.materializeCurrentMonth(correlationId, dryRun)
+      : null;
     const result = await processMonthlyEarnings(targetMonth, correlationId, dryRun);
+    const carryOver = await CarryOverService.processCarryOver(targetCarryOverMonth, correlationId, dryRun);
 
     const duration = Date.now() - startTime;
-    console.log(`[CRON] Manual monthly earnings creation completed in ${duration}ms [${correlationId}]`, result);
+    console.log(`[CRON] Manual monthly earnings creation completed in ${duration}ms [${correlationId}]`, recurringPledges, result, carryOver);
 
     return NextResponse.json({
       success: true,
-      data: { ...result, dryRun },
+      data: { ...result, recurringPledges, carryOver, dryRun },
       duration: `${duration}ms`,
       correlationId
     });
@@ -0,0 +1,62 @@
+/**
+ * Saved Searches Cron Job
+ *
+ * Re-runs every saved search over pages modified since its last run, sends a
+ * notification for new matches and queues them for the weekly digest.
+ * Run hourly via Vercel cron.
+ *
+ * Add to vercel.json:
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/saved-searches",
+ *     "schedule": "15 * * * *"
+ *   }]
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SavedSearchService } from '../../../services/savedSearchService';
+
+export const maxDuration = 300; // 5 minute timeout for running all saved searches
+
+/**
+ * GET handler for Vercel cron jobs
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    // Verify cron access - Vercel sends CRON_SECRET in Authorization header
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    // Check Authorization: Bearer <CRON_SECRET> header (Vercel's standard)
+    const isAuthorized = cronSecret && authHeader === `Bearer ${cronSecret}`;
+
+    if (!isAuthorized && process.env.NODE_ENV === 'production') {
+      console.warn('[SAVED SEARCHES] Unauthorized access attempt - check CRON_SECRET env var');
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.log('[SAVED SEARCHES] Starting saved search run');
+
+    const summary = await SavedSearchService.runSavedSearches();
+
+    const duration = Date.now() - startTime;
+    console.log(`[SAVED SEARCHES] Completed in ${duration}ms - Checked: ${summary.searchesChecked}, Matches: ${summary.matchesFound}, Notifications: ${summary.notificationsSent}, Errors: ${summary.errors}`);
+
+    return NextResponse.json({
+      success: true,
+      summary: {
+        ...summary,
+        durationMs: duration
+      }
+    });
+  } catch (error) {
+    console.error('[SAVED SEARCHES] Error:', error);
+    return NextResponse.json({
+      error: 'Failed to run saved searches',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Webhook Deliveries Cron Job
+ *
+ * Retries outgoing webhook deliveries that failed and are due another
+ * attempt, and deletes deliveries older than 30 days.
+ * Run every 5 minutes via Vercel cron.
+ *
+ * Add to vercel.json:
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/webhook-deliveries",
+ *     "schedule": "*\/5 * * * *"
+ *   }]
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { OutgoingWebhookService } from '../../../services/outgoingWebhookService';
+
+export const maxDuration = 300; // 5 minute timeout; each delivery may take up to 10 seconds
+
+/**
+ * GET handler for Vercel cron jobs
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    // Verify cron access - Vercel sends CRON_SECRET in Authorization header
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    // Check Authorization: Bearer <CRON_SECRET> header (Vercel's standard)
+    const isAuthorized = cronSecret && authHeader === `Bearer ${cronSecret}`;
+
+    if (!isAuthorized && process.env.NODE_ENV === 'production') {
+      console.warn('[WEBHOOK DELIVERIES] Unauthorized access attempt - check CRON_SECRET env var');
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const summary = await OutgoingWebhookService.retryDueDeliveries();
+
+    const duration = Date.now() - startTime;
+    console.log(`[WEBHOOK DELIVERIES] Completed in ${duration}ms - Retried: ${summary.retried}, Succeeded: ${summary.succeeded}, Failed: ${summary.failed}, Deleted: ${summary.deleted}`);
+
+    return NextResponse.json({
+      success: true,
+      summary: {
+        ...summary,
+        durationMs: duration
+      }
+    });
+  } catch (error) {
+    console.error('[WEBHOOK DELIVERIES] Error:', error);
+    return NextResponse.json({
+      error: 'Failed to retry webhook deliveries',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -17,6 +17,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getFirebaseAdmin } from '../../../firebase/firebaseAdmin';
 import { getCollectionName } from '../../../utils/environmentConfig';
 import { sendTemplatedEmail, EmailPriority } from '../../../services/emailService';
+import { SavedSearchService, type SavedSearchDigestEntry } from '../../../services/savedSearchService';
 import {
   calculateBatchSchedule,
   getScheduleDateForBatchIndex,
@@ -108,6 +109,7 @@ export async function GET(request: NextRequest) {
       email: string;
       username: string;
       stats: { pageViews: number; newFollowers: number; earningsThisWeek: number };
+      savedSearchMatches: SavedSearchDigestEntry[];
     }
     const eligibleUsers: EligibleUser[] = [];
 
@@ -132,8 +134,11 @@ export async function GET(request: NextRequest) {
         // Get user's weekly stats (optimized - uses pre-fetched balance)
         const stats = await getUserWeeklyStatsOptimized(db, userId, balancesMap.get(userId) || 0);
 
+        // New pages matching searches the user asked to see in their digest
+        const savedSearchMatches = await SavedSearchService.getDigestMatches(userId);
+
         // Skip users with no activity (don't spam inactive users)
-        if (stats.pageViews === 0 && stats.newFollowers === 0 && stats.earningsThisWeek === 0) {
+        if (stats.pageViews === 0 && stats.newFollowers === 0 && stats.earningsThisWeek === 0 && savedSearchMatches.length === 0) {
           skipped++;
           continue;
         }
@@ -143,6 +148,7 @@ export async function GET(request: NextRequest) {
           email: userData.email,
           username: userData.username || 'there',
           stats,
+          savedSearchMatches,
         });
 
       } catch (userError) {
@@ -172,7 +178,12 @@ export async function GET(request: NextRequest) {
             pageViews: user.stats.pageViews.toString(),
             newFollowers: user.stats.newFollowers.toString(),
             earningsThisWeek: `$${user.stats.earningsThisWeek.toFixed(2)}`,
-            trendingPages
+            trendingPages,
+            savedSearchMatches: user.savedSearchMatches.map(entry => ({
+              query: entry.query,
+              url: entry.url,
+              matches: entry.matches
+            }))
           },
           userId: user.userId,
           triggerSource: 'cron',
@@ -181,6 +192,9 @@ export async function GET(request: NextRequest) {
         });
 
         if (result.success) {
+          // Matches have been handed to the email, so don't repeat them next week
+          await SavedSearchService.clearDigestMatches(user.savedSearchMatches);
+
           if (result.wasScheduled) {
             scheduled++;
           } else {
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../../auth-helper';
+import { DailyNoteTemplateError, DailyNoteTemplateService } from '../../../services/dailyNoteTemplateService';
+import { DAILY_NOTE_TEMPLATE_KINDS } from '../../../utils/dailyNoteTemplates';
+import type { DailyNoteTemplateKind } from '../../../types/database';
+
+/**
+ * GET /api/daily-notes/render?kind=daily&date=2026-10-19&timezone=Europe/Paris
+ * The title and content a new daily note, or a weekly or monthly rollup of
+ * the period the date falls in, starts with: the user's template with its
+ * variables filled in
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = request.nextUrl;
+    const kind = searchParams.get('kind') || 'daily';
+    const date = searchParams.get('date');
+    const timezone = searchParams.get('timezone') || 'UTC';
+
+    if (!DAILY_NOTE_TEMPLATE_KINDS.includes(kind as DailyNoteTemplateKind)) {
+      return NextResponse.json({ error: 'kind must be daily, weekly or monthly' }, { status: 400 });
+    }
+    if (!date) {
+      return NextResponse.json({ error: 'date is required' }, { status: 400 });
+    }
+
+    const note = await DailyNoteTemplateService.renderNote(userId, kind as DailyNoteTemplateKind, date, timezone);
+    return NextResponse.json(note);
+  } catch (error) {
+    if (error instanceof DailyNoteTemplateError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error rendering daily note template:', error);
+    return NextResponse.json({ error: 'Failed to start the note' }, { status: 500 });
+  }
+}
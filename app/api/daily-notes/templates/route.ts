@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../../auth-helper';
+import { DailyNoteTemplateService } from '../../../services/dailyNoteTemplateService';
+import { getDailyNoteTemplatesInputError } from '../../../utils/dailyNoteTemplates';
+
+/**
+ * GET /api/daily-notes/templates
+ * The user's daily note and rollup templates, or the defaults
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const templates = await DailyNoteTemplateService.getTemplates(userId);
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error('Error loading daily note templates:', error);
+    return NextResponse.json({ error: 'Failed to load daily note templates' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/daily-notes/templates
+ * Save the user's templates
+ * Body: { daily: string, weekly: string, monthly: string }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const inputError = getDailyNoteTemplatesInputError(body || {});
+    if (inputError) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const templates = await DailyNoteTemplateService.saveTemplates(userId, {
+      daily: body.daily,
+      weekly: body.weekly,
+      monthly: body.monthly
+    });
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error('Error saving daily note templates:', error);
+    return NextResponse.json({ error: 'Failed to save daily note templates' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/daily-notes/templates
+ * Go back to the default templates
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const templates = await DailyNoteTemplateService.resetTemplates(userId);
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error('Error resetting daily note templates:', error);
+    return NextResponse.json({ error: 'Failed to reset daily note templates' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest, createErrorResponse } from '../../auth-helper';
+import { PageExportService } from '../../../services/pageExportService';
+import { parseExportFormat } from '../../../utils/markdownExport';
+
+/**
+ * GET /api/export/account?format=markdown|html - Download all of the
+ * signed-in user's pages, with version history, as a zip
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) return createErrorResponse('UNAUTHORIZED');
+
+    const format = parseExportFormat(request.nextUrl.searchParams.get('format'));
+    if (!format) {
+      return createErrorResponse('BAD_REQUEST', 'format must be markdown or html');
+    }
+
+    const file = await PageExportService.exportAccount(userId, format);
+    return new NextResponse(file.body, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error: any) {
+    console.error('[Export API] account export error:', error);
+    return createErrorResponse('INTERNAL_ERROR', 'Failed to export account');
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest, createErrorResponse } from '../../../auth-helper';
+import { isGroupsEnabled, groupsDisabledResponse } from '../../../groups/featureFlagCheck';
+import { PageExportService, PageExportError } from '../../../../services/pageExportService';
+import { parseExportFormat } from '../../../../utils/markdownExport';
+
+/**
+ * GET /api/export/group/[id]?format=markdown|html - Download a group's pages as a zip
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: groupId } = await params;
+    const userId = await getUserIdFromRequest(request);
+
+    if (!(await isGroupsEnabled(userId))) return groupsDisabledResponse();
+
+    const format = parseExportFormat(request.nextUrl.searchParams.get('format'));
+    if (!format) {
+      return createErrorResponse('BAD_REQUEST', 'format must be markdown or html');
+    }
+
+    const file = await PageExportService.exportGroup(groupId, userId, format);
+    return new NextResponse(file.body, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error: any) {
+    if (error instanceof PageExportError) {
+      return createErrorResponse('NOT_FOUND', error.message);
+    }
+    console.error('[Export API] group export error:', error);
+    return createErrorResponse('INTERNAL_ERROR', 'Failed to export group');
+  }
+}
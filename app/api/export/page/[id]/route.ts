@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest, createErrorResponse } from '../../../auth-helper';
+import { PageExportService, PageExportError } from '../../../../services/pageExportService';
+import { parseExportFormat } from '../../../../utils/markdownExport';
+
+/**
+ * GET /api/export/page/[id]?format=markdown|html - Download one page
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: pageId } = await params;
+    const userId = await getUserIdFromRequest(request);
+
+    const format = parseExportFormat(request.nextUrl.searchParams.get('format'));
+    if (!format) {
+      return createErrorResponse('BAD_REQUEST', 'format must be markdown or html');
+    }
+
+    const file = await PageExportService.exportPage(pageId, userId, format);
+    return new NextResponse(file.body, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error: any) {
+    if (error instanceof PageExportError) {
+      return createErrorResponse('NOT_FOUND', error.message);
+    }
+    console.error('[Export API] page export error:', error);
+    return createErrorResponse('INTERNAL_ERROR', 'Failed to export page');
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createErrorResponse } from '../auth-helper';
+import { FeedError } from '../../services/feedService';
+import {
+  FEED_CONTENT_TYPES,
+  getFeedETag,
+  getFeedLastModified,
+  isFeedNotModified,
+  parseFeedFormat,
+  renderFeed,
+  type Feed,
+  type FeedFormat,
+} from '../../utils/syndicationFeeds';
+
+/** Feed readers poll; let shared caches hold a feed for a few minutes */
+const FEED_CACHE_CONTROL = 'public, max-age=300, stale-while-revalidate=600';
+
+/**
+ * Build a feed in the format from ?format= and send it with ETag and
+ * Last-Modified, or a 304 when the reader's copy is current. A FeedError
+ * becomes `errorType` (NOT_FOUND unless the route says otherwise).
+ */
+export async function respondWithFeed(
+  request: NextRequest,
+  buildFeed: (format: FeedFormat) => Promise<Feed>,
+  errorType: 'NOT_FOUND' | 'BAD_REQUEST' = 'NOT_FOUND'
+): Promise<Response> {
+  const format = parseFeedFormat(request.nextUrl.searchParams.get('format'));
+  if (!format) {
+    return createErrorResponse('BAD_REQUEST', 'format must be rss, atom or json');
+  }
+
+  try {
+    const feed = await buildFeed(format);
+    const etag = getFeedETag(feed, format);
+    const lastModified = getFeedLastModified(feed);
+
+    const headers: Record<string, string> = {
+      'ETag': etag,
+      'Cache-Control': FEED_CACHE_CONTROL,
+    };
+    if (lastModified) {
+      headers['Last-Modified'] = lastModified.toUTCString();
+    }
+
+    const notModified = isFeedNotModified({
+      ifNoneMatch: request.headers.get('if-none-match'),
+      ifModifiedSince: request.headers.get('if-modified-since'),
+    }, etag, lastModified);
+    if (notModified) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(renderFeed(feed, format), {
+      status: 200,
+      headers: { ...headers, 'Content-Type': FEED_CONTENT_TYPES[format] },
+    });
+  } catch (error) {
+    if (error instanceof FeedError) {
+      return createErrorResponse(errorType, error.message);
+    }
+    console.error('[Feeds API] feed error:', error);
+    return createErrorResponse('INTERNAL_ERROR', 'Failed to build feed');
+  }
+}
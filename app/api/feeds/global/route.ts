@@ -0,0 +1,10 @@
+import { NextRequest } from 'next/server';
+import { FeedService } from '../../../services/feedService';
+import { respondWithFeed } from '../feedResponse';
+
+/**
+ * GET /api/feeds/global?format=rss|atom|json - Recently edited public pages
+ */
+export async function GET(request: NextRequest) {
+  return respondWithFeed(request, format => FeedService.getGlobalFeed(format));
+}
@@ -0,0 +1,19 @@
+import { NextRequest } from 'next/server';
+import { FeedService } from '../../../../services/feedService';
+import { isGroupsEnabled, groupsDisabledResponse } from '../../../groups/featureFlagCheck';
+import { respondWithFeed } from '../../feedResponse';
+
+/**
+ * GET /api/feeds/group/[id]?format=rss|atom|json - Activity in a public group
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!(await isGroupsEnabled(null))) {
+    return groupsDisabledResponse();
+  }
+
+  const { id: groupId } = await params;
+  return respondWithFeed(request, format => FeedService.getGroupFeed(groupId, format));
+}
@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server';
+import { FeedService } from '../../../../services/feedService';
+import { respondWithFeed } from '../../feedResponse';
+
+/**
+ * GET /api/feeds/page/[id]?format=rss|atom|json - A page's changelog, one
+ * item per saved version
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: pageId } = await params;
+  return respondWithFeed(request, format => FeedService.getPageFeed(pageId, format));
+}
@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server';
+import { FeedService } from '../../../services/feedService';
+import { respondWithFeed } from '../feedResponse';
+
+/**
+ * GET /api/feeds/search?q=...&format=rss|atom|json - Public pages matching
+ * a search; operators such as author: and group: work as in search
+ */
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams.get('q') || '';
+  return respondWithFeed(request, format => FeedService.getSearchFeed(query, format), 'BAD_REQUEST');
+}
@@ -0,0 +1,14 @@
+import { NextRequest } from 'next/server';
+import { FeedService } from '../../../../services/feedService';
+import { respondWithFeed } from '../../feedResponse';
+
+/**
+ * GET /api/feeds/user/[id]?format=rss|atom|json - A writer's new public pages
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: userId } = await params;
+  return respondWithFeed(request, format => FeedService.getUserFeed(userId, format));
+}
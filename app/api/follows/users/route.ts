@@ -4,6 +4,7 @@ import { getFirebaseAdmin } from '../../../firebase/firebaseAdmin';
 import { getCollectionName } from '../../../utils/environmentConfig';
 import { sanitizeUsername } from '../../../utils/usernameSecurity';
 import { sendNewFollowerEmail } from '../../../services/emailService';
+import { UserBlockService } from '../../../services/userBlockService';
 
 /**
  * User Following API Route
@@ -157,6 +158,15 @@ export async function POST(request: NextRequest) {
       return createErrorResponse('User not found', 'NOT_FOUND');
     }
 
+    // Neither side of a block can follow the other
+    const [blockedByTarget, blockedTarget] = await Promise.all([
+      UserBlockService.hasBlocked(targetUserId, currentUserId),
+      UserBlockService.hasBlocked(currentUserId, targetUserId)
+    ]);
+    if (blockedByTarget || blockedTarget) {
+      return createErrorResponse('FORBIDDEN', blockedTarget ? 'Unblock this user to follow them' : 'You cannot follow this user');
+    }
+
     // Add target user to current user's following list
     const userFollowingRef = db.collection(getCollectionName('userFollowing')).doc(currentUserId);
     const userFollowingDoc = await userFollowingRef.get();
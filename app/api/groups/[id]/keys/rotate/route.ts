@@ -0,0 +1,274 @@
+import { NextRequest } from 'next/server';
+import { getUserIdFromRequest, createApiResponse, createErrorResponse } from '../../../../auth-helper';
+import { getFirebaseAdmin } from '../../../../../firebase/firebaseAdmin';
+import { getCollectionName } from '../../../../../utils/environmentConfig';
+import { isEncryptedContent, parseEncryptedContent, getKeyEpoch, INITIAL_KEY_EPOCH } from '../../../../../lib/crypto/contentEncryption';
+import type { EncryptedContent, GroupKeyRotation } from '../../../../../lib/crypto/types';
+
+// Re-encryption work handed to the client per request
+const BATCH_SIZE = 50;
+
+interface StaleItem {
+  pageId: string;
+  versionId: string | null;
+  content: EncryptedContent;
+}
+
+/** A re-encrypted item, with the IV of the ciphertext it replaces */
+interface ReencryptedItem extends StaleItem {
+  previousIv: string;
+}
+
+async function loadMemberGroup(request: NextRequest, params: Promise<{ id: string }>) {
+  const { id: groupId } = await params;
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) return { error: createErrorResponse('UNAUTHORIZED') };
+
+  const admin = getFirebaseAdmin();
+  if (!admin) return { error: createErrorResponse('INTERNAL_ERROR') };
+  const db = admin.firestore();
+
+  const groupRef = db.collection(getCollectionName('groups')).doc(groupId);
+  const groupDoc = await groupRef.get();
+  const groupData = groupDoc.data();
+  if (!groupDoc.exists || !groupData || groupData.deleted) {
+    return { error: createErrorResponse('NOT_FOUND', 'Group not found') };
+  }
+  if (!(groupData.memberIds || []).includes(userId)) {
+    return { error: createErrorResponse('FORBIDDEN', 'Not a group member') };
+  }
+  if (!groupData.encrypted) {
+    return { error: createErrorResponse('BAD_REQUEST', 'Group is not encrypted') };
+  }
+
+  return { db, groupId, groupRef, groupData, userId };
+}
+
+/**
+ * POST /api/groups/[id]/keys/rotate - Install a new group key
+ * Body: { keyVersion, wrappedKeys: { [userId]: encryptedGroupKey } }
+ * The caller's client generates the key and wraps it for every remaining member
+ * with encryption keys set up. Each member's previous entry is archived under
+ * keys/{userId}/epochs/{keyVersion} so older ciphertext stays readable until it
+ * has been re-encrypted.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const loaded = await loadMemberGroup(request, params);
+    if ('error' in loaded) return loaded.error;
+    const { db, groupRef, userId } = loaded;
+
+    const { keyVersion, wrappedKeys } = await request.json();
+    if (typeof keyVersion !== 'number' || !wrappedKeys || typeof wrappedKeys !== 'object') {
+      return createErrorResponse('BAD_REQUEST', 'keyVersion and wrappedKeys are required');
+    }
+
+    const result = await db.runTransaction(async (transaction) => {
+      const groupDoc = await transaction.get(groupRef);
+      const groupData = groupDoc.data() || {};
+      const currentVersion: number = groupData.keyVersion || INITIAL_KEY_EPOCH;
+
+      if (keyVersion !== currentVersion + 1) {
+        return { error: createErrorResponse('CONFLICT', 'The group key has already been rotated') };
+      }
+
+      const keyDocs = await transaction.get(groupRef.collection('keys'));
+      const memberIds: string[] = groupData.memberIds || [];
+      const holders = keyDocs.docs.filter((keyDoc) => memberIds.includes(keyDoc.id));
+
+      if (!holders.some((keyDoc) => keyDoc.id === userId)) {
+        return { error: createErrorResponse('FORBIDDEN', 'You do not hold the current group key') };
+      }
+
+      // Every remaining key holder must get the new key; nobody outside the group may
+      const missing = holders.filter((keyDoc) => typeof wrappedKeys[keyDoc.id] !== 'string');
+      const outsiders = Object.keys(wrappedKeys).filter((id) => !memberIds.includes(id));
+      if (missing.length > 0 || outsiders.length > 0) {
+        return { error: createErrorResponse('BAD_REQUEST', 'wrappedKeys must cover every current key holder and only group members') };
+      }
+
+      const now = new Date().toISOString();
+      for (const keyDoc of holders) {
+        const entry = keyDoc.data();
+        transaction.set(keyDoc.ref.collection('epochs').doc(String(entry.keyVersion || currentVersion)), entry);
+      }
+      for (const [memberId, encryptedGroupKey] of Object.entries(wrappedKeys)) {
+        transaction.set(groupRef.collection('keys').doc(memberId), {
+          encryptedGroupKey,
+          keyVersion,
+          grantedBy: userId,
+          createdAt: now,
+        });
+      }
+
+      const rotation: GroupKeyRotation = {
+        ...(groupData.keyRotation || { requestedAt: now }),
+        status: 'reencrypting',
+        fromVersion: currentVersion,
+        toVersion: keyVersion,
+        startedBy: userId,
+        startedAt: now,
+      };
+      transaction.update(groupRef, { keyVersion, keyRotation: rotation, updatedAt: now });
+
+      return { rotated: Object.keys(wrappedKeys).length };
+    });
+
+    if ('error' in result) return result.error;
+    return createApiResponse({ keyVersion, memberCount: result.rotated });
+  } catch (error) {
+    console.error('[API] POST /api/groups/[id]/keys/rotate error:', error);
+    return createErrorResponse('INTERNAL_ERROR');
+  }
+}
+
+/**
+ * GET /api/groups/[id]/keys/rotate - Next batch of ciphertext to re-encrypt
+ * Query: ?after=<pageId> continues from the cursor returned by the previous batch.
+ * Returns page content and version snapshots still encrypted under an older key.
+ * Once every page has been visited the rotation is marked complete.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const loaded = await loadMemberGroup(request, params);
+    if ('error' in loaded) return loaded.error;
+    const { db, groupId, groupRef, groupData } = loaded;
+
+    const keyVersion: number = groupData.keyVersion || INITIAL_KEY_EPOCH;
+    const after = request.nextUrl.searchParams.get('after');
+    const { FieldPath, FieldValue } = await import('firebase-admin/firestore');
+
+    let pagesQuery = db
+      .collection(getCollectionName('pages'))
+      .where('groupId', '==', groupId)
+      .orderBy(FieldPath.documentId())
+      .limit(BATCH_SIZE);
+    if (after) {
+      pagesQuery = pagesQuery.startAfter(after);
+    }
+    const pagesSnap = await pagesQuery.get();
+
+    const items: StaleItem[] = [];
+    // Cursor only advances past pages whose items all fit in this batch
+    let cursor: string | null = after;
+
+    for (const pageDoc of pagesSnap.docs) {
+      const pageItems: StaleItem[] = [];
+
+      const pageContent = parseEncryptedContent(pageDoc.data().content);
+      if (pageContent && getKeyEpoch(pageContent) < keyVersion) {
+        pageItems.push({ pageId: pageDoc.id, versionId: null, content: pageContent });
+      }
+
+      const versionsSnap = await pageDoc.ref.collection('versions').get();
+      for (const versionDoc of versionsSnap.docs) {
+        const versionContent = parseEncryptedContent(versionDoc.data().content);
+        if (versionContent && getKeyEpoch(versionContent) < keyVersion) {
+          pageItems.push({ pageId: pageDoc.id, versionId: versionDoc.id, content: versionContent });
+        }
+      }
+
+      const room = BATCH_SIZE - items.length;
+      items.push(...pageItems.slice(0, room));
+      if (pageItems.length > room) break;
+      cursor = pageDoc.id;
+    }
+
+    // Only finish the rotation this pass was for - a member removed meanwhile
+    // flags a new one that still needs its own key
+    const complete = items.length === 0 && pagesSnap.size < BATCH_SIZE;
+    if (complete) {
+      await db.runTransaction(async (transaction) => {
+        const rotation: GroupKeyRotation | undefined = (await transaction.get(groupRef)).data()?.keyRotation;
+        if (rotation?.status === 'reencrypting' && rotation.toVersion === keyVersion) {
+          transaction.update(groupRef, { keyRotation: FieldValue.delete(), updatedAt: new Date().toISOString() });
+        }
+      });
+    }
+
+    return createApiResponse({ keyVersion, items, cursor, complete });
+  } catch (error) {
+    console.error('[API] GET /api/groups/[id]/keys/rotate error:', error);
+    return createErrorResponse('INTERNAL_ERROR');
+  }
+}
+
+/**
+ * PUT /api/groups/[id]/keys/rotate - Store a batch of re-encrypted content
+ * Body: { items: [{ pageId, versionId | null, content, previousIv }] }
+ * Every blob must be encrypted under the group's current key version. Items
+ * whose stored ciphertext changed since it was fetched (previousIv no longer
+ * matches) are skipped rather than overwriting the newer content.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const loaded = await loadMemberGroup(request, params);
+    if ('error' in loaded) return loaded.error;
+    const { db, groupId, groupData } = loaded;
+
+    const { items } = await request.json();
+    if (!Array.isArray(items) || items.length > BATCH_SIZE) {
+      return createErrorResponse('BAD_REQUEST', `items must be an array of at most ${BATCH_SIZE}`);
+    }
+
+    const keyVersion: number = groupData.keyVersion || INITIAL_KEY_EPOCH;
+    for (const item of items as ReencryptedItem[]) {
+      if (
+        !item?.pageId ||
+        typeof item.previousIv !== 'string' ||
+        !isEncryptedContent(item.content) ||
+        getKeyEpoch(item.content) !== keyVersion
+      ) {
+        return createErrorResponse('BAD_REQUEST', 'Each item must be encrypted with the current group key');
+      }
+    }
+
+    const pagesCollection = db.collection(getCollectionName('pages'));
+    const result = await db.runTransaction(async (transaction) => {
+      const pageGroups = new Map<string, string | undefined>();
+      const writes: Array<{ ref: FirebaseFirestore.DocumentReference; data: Record<string, any> }> = [];
+
+      for (const item of items as ReencryptedItem[]) {
+        const pageRef = pagesCollection.doc(item.pageId);
+        if (!pageGroups.has(item.pageId)) {
+          const pageDoc = await transaction.get(pageRef);
+          pageGroups.set(item.pageId, pageDoc.data()?.groupId);
+        }
+        if (pageGroups.get(item.pageId) !== groupId) {
+          return { error: createErrorResponse('FORBIDDEN', 'Page does not belong to this group') };
+        }
+
+        // Compare against what is stored now: a save since the batch was
+        // fetched already wrote content under the current key
+        const ref = item.versionId ? pageRef.collection('versions').doc(item.versionId) : pageRef;
+        const stored = parseEncryptedContent((await transaction.get(ref)).data()?.content);
+        if (!stored || stored.iv !== item.previousIv) continue;
+
+        writes.push({
+          ref,
+          data: { content: item.versionId ? JSON.stringify(item.content) : item.content },
+        });
+      }
+
+      for (const { ref, data } of writes) {
+        transaction.update(ref, data);
+      }
+      return { updated: writes.length };
+    });
+
+    if ('error' in result) return result.error;
+    return createApiResponse({ updated: result.updated, skipped: items.length - result.updated });
+  } catch (error) {
+    console.error('[API] PUT /api/groups/[id]/keys/rotate error:', error);
+    return createErrorResponse('INTERNAL_ERROR');
+  }
+}
@@ -65,6 +65,8 @@ export async function POST(
 
 /**
  * GET /api/groups/[id]/keys - Get own wrapped group key
+ * Query: ?keyVersion=N fetches the key for an earlier version, kept after a
+ * rotation so content not yet re-encrypted stays readable.
  */
 export async function GET(
   request: NextRequest,
@@ -90,17 +92,25 @@ export async function GET(
       return createErrorResponse('FORBIDDEN', 'Not a group member');
     }
 
-    const keyDoc = await db
+    const keyRef = db
       .collection(getCollectionName('groups'))
       .doc(groupId)
       .collection('keys')
-      .doc(userId)
-      .get();
+      .doc(userId);
+    let keyDoc = await keyRef.get();
 
     if (!keyDoc.exists) {
       return createApiResponse({ hasKey: false });
     }
 
+    const requestedVersion = request.nextUrl.searchParams.get('keyVersion');
+    if (requestedVersion && Number(requestedVersion) !== keyDoc.data()?.keyVersion) {
+      keyDoc = await keyRef.collection('epochs').doc(requestedVersion).get();
+      if (!keyDoc.exists) {
+        return createApiResponse({ hasKey: false });
+      }
+    }
+
     return createApiResponse({
       hasKey: true,
       ...keyDoc.data(),
@@ -3,6 +3,9 @@ import { getUserIdFromRequest, createApiResponse, createErrorResponse } from '..
 import { getFirebaseAdmin } from '../../../../../firebase/firebaseAdmin';
 import { getCollectionName } from '../../../../../utils/environmentConfig';
 import { isGroupsEnabled, groupsDisabledResponse } from '../../../featureFlagCheck';
+import { INITIAL_KEY_EPOCH } from '../../../../../lib/crypto/contentEncryption';
+import { getCollaborationSessionPath } from '../../../../../utils/collaborativeOperations';
+import type { GroupKeyRotation } from '../../../../../lib/crypto/types';
 
 /**
  * DELETE /api/groups/[id]/members/[userId] - Remove a member
@@ -54,6 +57,21 @@ export async function DELETE(
     // Remove from members subcollection
     await groupRef.collection('members').doc(targetUserId).delete();
 
+    // Revoke their access to live editing sessions on the group's pages - the
+    // Realtime Database rules only check the session's own member list
+    const groupPagesSnap = await db
+      .collection(getCollectionName('pages'))
+      .where('groupId', '==', groupId)
+      .select()
+      .get();
+    if (!groupPagesSnap.empty) {
+      const sessionRevocations: Record<string, null> = {};
+      groupPagesSnap.docs.forEach((pageDoc) => {
+        sessionRevocations[`${getCollaborationSessionPath(pageDoc.id)}/members/${targetUserId}`] = null;
+      });
+      await admin.database().ref().update(sessionRevocations);
+    }
+
     // Disassociate the removed member's pages from the group
     const { FieldValue } = await import('firebase-admin/firestore');
     const memberPagesSnap = await db
@@ -92,9 +110,31 @@ export async function DELETE(
       updates.fundDistribution = newDist;
     }
 
-    await groupRef.update(updates);
+    // Encrypted groups: revoke the removed member's wrapped keys (current and
+    // archived) and flag the group key for rotation, since they may still hold
+    // the old key. Rotation needs a member's unlocked key, so it runs client-side.
+    // Both go in one batch with the membership change so the rotation is never
+    // left unflagged.
+    const groupBatch = db.batch();
+    if (groupData.encrypted) {
+      const keyRef = groupRef.collection('keys').doc(targetUserId);
+      const archivedKeys = await keyRef.collection('epochs').get();
+      archivedKeys.docs.forEach((keyDoc) => groupBatch.delete(keyDoc.ref));
+      groupBatch.delete(keyRef);
+
+      const rotation: GroupKeyRotation = {
+        status: 'pending',
+        fromVersion: groupData.keyVersion || INITIAL_KEY_EPOCH,
+        removedUserId: targetUserId,
+        requestedAt: new Date().toISOString(),
+      };
+      updates.keyRotation = rotation;
+    }
+
+    groupBatch.update(groupRef, updates);
+    await groupBatch.commit();
 
-    return createApiResponse({ removed: targetUserId });
+    return createApiResponse({ removed: targetUserId, keyRotationRequired: !!groupData.encrypted });
   } catch (error: any) {
     console.error('[Groups API] DELETE member error:', error);
     return createErrorResponse('INTERNAL_ERROR', error?.message);
@@ -198,9 +198,10 @@ async function getRecentlyVisitedPagesOptimized(limitCount: number, userId?: str
       };
     });
 
-    // Filter out deleted pages and private group pages
+    // Filter out deleted pages, pages hidden by moderators and private group pages
     const filteredPages = pages
       .filter(page => page.deleted !== true)
+      .filter(page => page.moderationHidden !== true)
       .filter(page => page.visibility !== 'private') // Exclude private group pages from feed
       .slice(0, limitCount);
 
@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server';
+import { getUserIdFromRequest, createApiResponse, createErrorResponse } from '../auth-helper';
+import { PageImportService, PageImportError } from '../../services/pageImportService';
+import { IMPORT_COLLISION_STRATEGIES, type ImportCollisionStrategy } from '../../utils/markdownImport';
+
+/**
+ * POST /api/import - Preview importing Markdown files or a zip (multipart
+ * form: one or more "files", plus "collision"). This is a dry run: it
+ * returns the pages that would be created, with their IDs and content, and
+ * the client creates them through POST /api/pages.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) return createErrorResponse('UNAUTHORIZED');
+
+    const formData = await request.formData();
+    const files = formData.getAll('files').filter((file): file is File => typeof file !== 'string');
+    if (files.length === 0) {
+      return createErrorResponse('BAD_REQUEST', 'No files provided');
+    }
+
+    const collision = (formData.get('collision') || 'link') as ImportCollisionStrategy;
+    if (!IMPORT_COLLISION_STRATEGIES.some(strategy => strategy.value === collision)) {
+      return createErrorResponse('BAD_REQUEST', 'collision must be link, rename or duplicate');
+    }
+
+    // Folder uploads send each file's path within the folder alongside it
+    const paths = formData.getAll('paths').map(String);
+    const uploads = await Promise.all(files.map(async (file, index) => ({
+      name: paths[index] || file.name,
+      data: new Uint8Array(await file.arrayBuffer())
+    })));
+
+    const plan = await PageImportService.previewImport(userId, uploads, collision);
+    return createApiResponse(plan);
+  } catch (error: any) {
+    if (error instanceof PageImportError) {
+      return createErrorResponse('BAD_REQUEST', error.message);
+    }
+    console.error('[Import API] preview error:', error);
+    return createErrorResponse('INTERNAL_ERROR', 'Failed to read import');
+  }
+}
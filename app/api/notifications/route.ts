@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getUserIdFromRequest } from '../auth-helper';
 import { getFirebaseAdmin } from '../../firebase/firebaseAdmin';
 import { getCollectionName } from '../../utils/environmentConfig';
+import { UserBlockService } from '../../services/userBlockService';
+import { filterHiddenAuthors } from '../../utils/userBlocks';
 
 export async function GET(request: NextRequest) {
   try {
@@ -71,8 +73,11 @@ export async function GET(request: NextRequest) {
           }
         }
 
-        const notificationsSnapshot = await query.get();
-        const notifications = notificationsSnapshot.docs.map(doc => {
+        const [notificationsSnapshot, hiddenUserIds] = await Promise.all([
+          query.get(),
+          UserBlockService.getHiddenAuthorIds(userId)
+        ]);
+        const notifications = filterHiddenAuthors(notificationsSnapshot.docs.map(doc => {
           const data = doc.data();
           // Convert Firestore Timestamps to ISO strings for proper client-side parsing
           const createdAt = data.createdAt?.toDate?.()
@@ -102,7 +107,7 @@ export async function GET(request: NextRequest) {
             createdAt,
             readAt
           };
-        });
+        }), hiddenUserIds, notification => notification.sourceUserId);
 
         const lastDoc = notificationsSnapshot.docs.length > 0
           ? notificationsSnapshot.docs[notificationsSnapshot.docs.length - 1].id
@@ -112,7 +117,7 @@ export async function GET(request: NextRequest) {
           success: true,
           notifications,
           lastVisible: lastDoc,
-          hasMore: notifications.length === (limit ? parseInt(limit) : 20)
+          hasMore: notificationsSnapshot.docs.length === (limit ? parseInt(limit) : 20)
         });
     }
 
@@ -163,6 +168,15 @@ export async function POST(request: NextRequest) {
           );
         }
 
+        // Recipients don't hear from users they've blocked or muted
+        if (await UserBlockService.hasHidden(notificationData.userId, notificationData.sourceUserId)) {
+          return NextResponse.json({
+            success: true,
+            notificationId: null,
+            suppressed: true
+          });
+        }
+
         const batch = db.batch();
 
         // Create the notification document in subcollection
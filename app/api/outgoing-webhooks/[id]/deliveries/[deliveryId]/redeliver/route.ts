@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../../../../../auth-helper';
+import { OutgoingWebhookService } from '../../../../../../services/outgoingWebhookService';
+
+/**
+ * POST /api/outgoing-webhooks/[id]/deliveries/[deliveryId]/redeliver
+ * Send a delivery again now, with a fresh signature
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, deliveryId } = await params;
+    const delivery = await OutgoingWebhookService.redeliver(userId, id, deliveryId);
+    if (!delivery) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ delivery });
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    return NextResponse.json({ error: 'Failed to redeliver webhook' }, { status: 500 });
+  }
+}
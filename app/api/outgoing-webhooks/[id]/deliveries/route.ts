@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../../../auth-helper';
+import { OutgoingWebhookService } from '../../../../services/outgoingWebhookService';
+
+/**
+ * GET /api/outgoing-webhooks/[id]/deliveries
+ * The endpoint's recent deliveries, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const deliveries = await OutgoingWebhookService.getDeliveries(userId, id);
+    if (!deliveries) {
+      return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error('Error listing webhook deliveries:', error);
+    return NextResponse.json({ error: 'Failed to list webhook deliveries' }, { status: 500 });
+  }
+}
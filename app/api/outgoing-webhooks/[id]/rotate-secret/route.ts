@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../../../auth-helper';
+import { OutgoingWebhookService } from '../../../../services/outgoingWebhookService';
+
+/**
+ * POST /api/outgoing-webhooks/[id]/rotate-secret
+ * Replace the endpoint's signing secret. The response is the only time the
+ * new secret is shown.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const endpoint = await OutgoingWebhookService.rotateSecret(userId, id);
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ endpoint });
+  } catch (error) {
+    console.error('Error rotating webhook secret:', error);
+    return NextResponse.json({ error: 'Failed to rotate webhook secret' }, { status: 500 });
+  }
+}
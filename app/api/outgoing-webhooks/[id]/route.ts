@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../../auth-helper';
+import { OutgoingWebhookService } from '../../../services/outgoingWebhookService';
+import { getWebhookEventsError, getWebhookUrlError } from '../../../utils/outgoingWebhooks';
+
+/**
+ * PATCH /api/outgoing-webhooks/[id]
+ * Change an endpoint's URL, events or description, or pause it
+ * Body: { url?, events?, description?, active?: boolean }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { url, events, description, active } = await request.json();
+
+    const inputError = (url !== undefined && (typeof url === 'string' ? getWebhookUrlError(url) : 'Endpoint URL must be a string'))
+      || (events !== undefined && getWebhookEventsError(events));
+    if (inputError) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+    if ((description !== undefined && typeof description !== 'string') ||
+        (active !== undefined && typeof active !== 'boolean')) {
+      return NextResponse.json({ error: 'description must be a string and active true or false' }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const endpoint = await OutgoingWebhookService.updateEndpoint(userId, id, { url, events, description, active });
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ endpoint });
+  } catch (error) {
+    console.error('Error updating webhook endpoint:', error);
+    return NextResponse.json({ error: 'Failed to update webhook endpoint' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/outgoing-webhooks/[id]
+ * Remove an endpoint; deliveries still queued for it fail without being sent
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const deleted = await OutgoingWebhookService.deleteEndpoint(userId, id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting webhook endpoint:', error);
+    return NextResponse.json({ error: 'Failed to delete webhook endpoint' }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../auth-helper';
+import { OutgoingWebhookService, WebhookError } from '../../services/outgoingWebhookService';
+import {
+  USER_ONLY_EVENT_TYPES,
+  WEBHOOK_EVENT_TYPES,
+  getWebhookEventsError,
+  getWebhookUrlError,
+} from '../../utils/outgoingWebhooks';
+
+/**
+ * GET /api/outgoing-webhooks?groupId=
+ * List the user's webhook endpoints, or a group's for its owner and admins,
+ * along with the events they can subscribe to
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const groupId = request.nextUrl.searchParams.get('groupId');
+    const endpoints = await OutgoingWebhookService.getEndpoints(userId, groupId);
+    if (!endpoints) {
+      return NextResponse.json({ error: 'Only group owners and admins can manage webhooks' }, { status: 403 });
+    }
+
+    const eventTypes = groupId
+      ? WEBHOOK_EVENT_TYPES.filter(event => !USER_ONLY_EVENT_TYPES.includes(event.value))
+      : WEBHOOK_EVENT_TYPES;
+    return NextResponse.json({ endpoints, eventTypes });
+  } catch (error) {
+    console.error('Error listing webhook endpoints:', error);
+    return NextResponse.json({ error: 'Failed to list webhook endpoints' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/outgoing-webhooks
+ * Register an HTTPS endpoint. The response is the only time the signing
+ * secret is shown.
+ * Body: { url, events: string[], description?, groupId? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { url, events, description, groupId } = await request.json();
+
+    const inputError = (typeof url === 'string' ? getWebhookUrlError(url) : 'Endpoint URL is required')
+      || getWebhookEventsError(events);
+    if (inputError) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+    if ((description !== undefined && typeof description !== 'string') ||
+        (groupId !== undefined && groupId !== null && typeof groupId !== 'string')) {
+      return NextResponse.json({ error: 'description and groupId must be strings' }, { status: 400 });
+    }
+
+    const endpoint = await OutgoingWebhookService.createEndpoint(userId, { url, events, description, groupId });
+    return NextResponse.json({ endpoint });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error creating webhook endpoint:', error);
+    return NextResponse.json({ error: 'Failed to create webhook endpoint' }, { status: 500 });
+  }
+}
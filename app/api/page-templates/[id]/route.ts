@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../../auth-helper';
+import { PageTemplateError, PageTemplateService } from '../../../services/pageTemplateService';
+import { getPageTemplateInputError } from '../../../utils/pageTemplates';
+
+/**
+ * GET /api/page-templates/[id]
+ * A template the viewer can use
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const userId = await getUserIdFromRequest(request);
+
+    const template = await PageTemplateService.getTemplate(id, userId);
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error('Error loading page template:', error);
+    return NextResponse.json({ error: 'Failed to load template' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/page-templates/[id]
+ * Change one of your templates
+ * Body: { title, description?, content, visibility, groupId? }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { title, description, content, visibility, groupId } = await request.json();
+    const inputError = getPageTemplateInputError({ title, description, content, visibility, groupId });
+    if (inputError) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const template = await PageTemplateService.updateTemplate(id, userId, {
+      title,
+      description: description || '',
+      content,
+      visibility,
+      groupId: groupId || null
+    });
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    if (error instanceof PageTemplateError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error updating page template:', error);
+    return NextResponse.json({ error: 'Failed to save template' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/page-templates/[id]
+ * Delete one of your templates
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!await PageTemplateService.deleteTemplate(id, userId)) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting page template:', error);
+    return NextResponse.json({ error: 'Failed to delete template' }, { status: 500 });
+  }
+}
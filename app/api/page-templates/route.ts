@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../auth-helper';
+import { PageTemplateError, PageTemplateService, type PageTemplateScope } from '../../services/pageTemplateService';
+import { getPageTemplateInputError } from '../../utils/pageTemplates';
+
+const SCOPES: PageTemplateScope[] = ['mine', 'groups', 'public'];
+
+/**
+ * GET /api/page-templates?scope=public&q=review
+ * Templates the viewer can use - their own (scope=mine), those shared with
+ * their groups (scope=groups) or public ones (scope=public, the default)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    const { searchParams } = request.nextUrl;
+    const scope = searchParams.get('scope') || 'public';
+
+    if (!SCOPES.includes(scope as PageTemplateScope)) {
+      return NextResponse.json({ error: 'scope must be mine, groups or public' }, { status: 400 });
+    }
+    if (scope !== 'public' && !userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const templates = await PageTemplateService.listTemplates(userId, scope as PageTemplateScope, searchParams.get('q') || undefined);
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error('Error listing page templates:', error);
+    return NextResponse.json({ error: 'Failed to load templates' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/page-templates
+ * Save a new template
+ * Body: { title, description?, content, visibility: 'private'|'group'|'public', groupId? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { title, description, content, visibility, groupId } = await request.json();
+    const inputError = getPageTemplateInputError({ title, description, content, visibility, groupId });
+    if (inputError) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const template = await PageTemplateService.createTemplate(userId, {
+      title,
+      description: description || '',
+      content,
+      visibility,
+      groupId: groupId || null
+    });
+    return NextResponse.json({ template });
+  } catch (error) {
+    if (error instanceof PageTemplateError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error creating page template:', error);
+    return NextResponse.json({ error: 'Failed to save template' }, { status: 500 });
+  }
+}
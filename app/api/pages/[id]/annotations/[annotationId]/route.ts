@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../../../../auth-helper';
+import { PageAnnotationError, PageAnnotationService } from '../../../../../services/pageAnnotationService';
+
+type RouteParams = { params: Promise<{ id: string; annotationId: string }> };
+
+/**
+ * PATCH /api/pages/[id]/annotations/[annotationId]
+ * Resolve or reopen a comment (page owner or group members)
+ * Body: { status: 'open' | 'resolved' }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { status } = await request.json();
+    if (status !== 'open' && status !== 'resolved') {
+      return NextResponse.json({ error: 'status must be open or resolved' }, { status: 400 });
+    }
+
+    const { id: pageId, annotationId } = await params;
+    const annotation = await PageAnnotationService.setStatus(pageId, annotationId, userId, status);
+    if (!annotation) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ annotation });
+  } catch (error) {
+    if (error instanceof PageAnnotationError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error('Error updating page annotation:', error);
+    return NextResponse.json({ error: 'Failed to update comment' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/pages/[id]/annotations/[annotationId]
+ * Delete a comment (its author or the page owner)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: pageId, annotationId } = await params;
+    const deleted = await PageAnnotationService.deleteAnnotation(pageId, annotationId, userId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof PageAnnotationError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error('Error deleting page annotation:', error);
+    return NextResponse.json({ error: 'Failed to delete comment' }, { status: 500 });
+  }
+}
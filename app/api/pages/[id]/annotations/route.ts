@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../../../auth-helper';
+import { PageAnnotationError, PageAnnotationService } from '../../../../services/pageAnnotationService';
+import { getAnnotationInputError } from '../../../../utils/pageAnnotations';
+
+/**
+ * GET /api/pages/[id]/annotations
+ * The page's margin comments, anchored to its current text, and whether the
+ * viewer may resolve them
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: pageId } = await params;
+    const userId = await getUserIdFromRequest(request);
+
+    const result = await PageAnnotationService.listAnnotations(pageId, userId);
+    if (!result) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error listing page annotations:', error);
+    return NextResponse.json({ error: 'Failed to load comments' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/pages/[id]/annotations
+ * Comment on a passage of the page
+ * Body: { body, text, blockIndex?: number } - text is the selected passage,
+ * blockIndex the paragraph it was selected in
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: pageId } = await params;
+    const { body, text, blockIndex } = await request.json();
+    const inputError = getAnnotationInputError({ body, text, blockIndex });
+    if (inputError) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const annotation = await PageAnnotationService.createAnnotation(pageId, userId, {
+      body,
+      text,
+      blockIndex: blockIndex ?? null
+    });
+    if (!annotation) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ annotation });
+  } catch (error) {
+    if (error instanceof PageAnnotationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error creating page annotation:', error);
+    return NextResponse.json({ error: 'Failed to add comment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,227 @@
+import { NextRequest } from 'next/server';
+import { getUserIdFromRequest, createApiResponse, createErrorResponse } from '../../../auth-helper';
+import { getFirebaseAdmin } from '../../../../firebase/firebaseAdmin';
+import { getCollectionName } from '../../../../utils/environmentConfig';
+import { getCollaborationSessionPath } from '../../../../utils/collaborativeOperations';
+import { getAncestorVersionServer, saveNewVersionServer, type SaveVersionResult } from '../../../../firebase/database/versions-server';
+import { threeWayMerge } from '../../../../utils/pageMerge';
+
+// Attempts at committing a session when other saves keep landing first
+const MAX_COMMIT_ATTEMPTS = 3;
+
+/**
+ * Load the page and confirm the caller belongs to its group.
+ * Live co-editing is only offered on unencrypted group pages - session content
+ * is relayed through the Realtime Database in plain text.
+ */
+async function authorizeSession(db: FirebaseFirestore.Firestore, pageId: string, userId: string) {
+  const pageDoc = await db.collection(getCollectionName('pages')).doc(pageId).get();
+  const pageData = pageDoc.data();
+  if (!pageDoc.exists || !pageData || pageData.deleted) {
+    return { error: createErrorResponse('NOT_FOUND', 'Page not found') };
+  }
+
+  if (!pageData.groupId) {
+    return { error: createErrorResponse('BAD_REQUEST', 'Live editing is only available on group pages') };
+  }
+  if (pageData.encrypted) {
+    return { error: createErrorResponse('BAD_REQUEST', 'Live editing is not available on encrypted pages') };
+  }
+
+  const groupDoc = await db.collection(getCollectionName('groups')).doc(pageData.groupId).get();
+  const memberIds: string[] = groupDoc.data()?.memberIds || [];
+  if (!groupDoc.exists || !memberIds.includes(userId)) {
+    return { error: createErrorResponse('FORBIDDEN', 'Not a group member') };
+  }
+
+  const userDoc = await db.collection(getCollectionName('users')).doc(userId).get();
+  const username: string = userDoc.data()?.username || 'Anonymous';
+
+  return { pageData, username };
+}
+
+/**
+ * Commit a session's content as one version. Saves made outside the session
+ * since it became shared (API edits, accepted suggestions, restores) are kept:
+ * the session's edits are three-way merged onto them, with overlapping edits
+ * keeping both sides for the group to tidy up. The write is checked against
+ * the head it was merged onto and retried if another save lands first. If the
+ * session's base can't be traced to the head, nothing is saved.
+ */
+async function commitSession(
+  db: FirebaseFirestore.Firestore,
+  pageId: string,
+  baseVersion: string | null,
+  content: any,
+  author: { userId: string; username: string },
+  collaborators: Array<{ userId: string; username: string }>
+): Promise<SaveVersionResult> {
+  const pageRef = db.collection(getCollectionName('pages')).doc(pageId);
+
+  for (let attempt = 0; attempt < MAX_COMMIT_ATTEMPTS; attempt++) {
+    const pageData = (await pageRef.get()).data();
+    const head: string | null = pageData?.currentVersion || null;
+
+    let contentToSave = content;
+    let mergedFrom;
+    if (head && head !== baseVersion) {
+      const ancestor = baseVersion ? await getAncestorVersionServer(pageId, baseVersion, head) : null;
+      if (!ancestor) {
+        // Saving unmerged would overwrite whatever was saved since the session began
+        return { success: false, conflict: true, error: 'The page changed in a way the session can\'t be merged onto' };
+      }
+      contentToSave = threeWayMerge(ancestor.content, pageData?.content, content).content;
+      const headVersion = (await pageRef.collection('versions').doc(head).get()).data();
+      mergedFrom = {
+        baseVersionId: ancestor.id,
+        parentVersionIds: [head],
+        parentUserIds: [headVersion?.userId || pageData?.userId, author.userId]
+      };
+    }
+
+    const result = await saveNewVersionServer(pageId, {
+      content: contentToSave,
+      ...author,
+      collaborators,
+      ...(mergedFrom && { mergedFrom }),
+      expectedHead: { currentVersion: head, content: pageData?.content ?? null }
+    });
+    if (!result.conflict) return result;
+  }
+
+  return { success: false, conflict: true, error: 'The page kept changing while the session was saved' };
+}
+
+/**
+ * POST /api/pages/[id]/collaboration - Join the live editing session for a group page
+ * Registers the caller as a session member so the Realtime Database rules let
+ * them read and write the session. Until a second person joins, the session's
+ * base follows the page's current version (the solo editor autosaves as usual);
+ * after that it stays fixed so the end-of-session commit can merge other saves.
+ * Returns the session path.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: pageId } = await params;
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) return createErrorResponse('UNAUTHORIZED');
+
+    const admin = getFirebaseAdmin();
+    if (!admin) return createErrorResponse('INTERNAL_ERROR');
+    const db = admin.firestore();
+
+    const result = await authorizeSession(db, pageId, userId);
+    if (result.error) return result.error;
+
+    const sessionPath = getCollaborationSessionPath(pageId);
+    const sessionRef = admin.database().ref(sessionPath);
+    const participants = (await sessionRef.child('participants').once('value')).val() || {};
+    const isShared = Object.keys(participants).some(participantId => participantId !== userId);
+
+    await sessionRef.update({
+      [`members/${userId}`]: true,
+      [`participants/${userId}`]: { username: result.username, joinedAt: new Date().toISOString() },
+      ...(!isShared && { baseVersion: result.pageData.currentVersion || null }),
+    });
+
+    return createApiResponse({ sessionPath, groupId: result.pageData.groupId, username: result.username });
+  } catch (error) {
+    console.error('[API] POST /api/pages/[id]/collaboration error:', error);
+    return createErrorResponse('INTERNAL_ERROR');
+  }
+}
+
+/**
+ * PUT /api/pages/[id]/collaboration - Leave the live editing session
+ * Body: { clientId, content }
+ * When the caller is the last one present, the session ends: if more than one
+ * person took part, the final content is committed as a single version crediting
+ * every participant, then the session is cleared.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: pageId } = await params;
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) return createErrorResponse('UNAUTHORIZED');
+
+    const admin = getFirebaseAdmin();
+    if (!admin) return createErrorResponse('INTERNAL_ERROR');
+    const db = admin.firestore();
+
+    const result = await authorizeSession(db, pageId, userId);
+    if (result.error) return result.error;
+
+    const { clientId, content } = await request.json();
+    if (!clientId) {
+      return createErrorResponse('BAD_REQUEST', 'Missing clientId');
+    }
+
+    const sessionRef = admin.database().ref(getCollaborationSessionPath(pageId));
+    await sessionRef.child(`presence/${clientId}`).remove();
+
+    const session = (await sessionRef.once('value')).val();
+    if (!session) {
+      return createApiResponse({ ended: true, committed: false });
+    }
+
+    const remaining = Object.keys(session.presence || {}).length;
+    if (remaining > 0) {
+      return createApiResponse({ ended: false, committed: false, remaining });
+    }
+
+    const collaborators = Object.entries(session.participants || {}).map(([participantId, participant]: [string, any]) => ({
+      userId: participantId,
+      username: participant?.username || 'Anonymous',
+    }));
+
+    // Prefer the leaving editor's content; fall back to the last shared snapshot
+    // so a session abandoned by a closed tab still gets committed
+    let finalContent = content;
+    if (!finalContent && session.snapshot?.content) {
+      try {
+        finalContent = JSON.parse(session.snapshot.content);
+      } catch {
+        finalContent = null;
+      }
+    }
+
+    // Solo sessions were already saved by the editor's normal autosave
+    let versionId: string | null = null;
+    if (collaborators.length > 1 && finalContent) {
+      const versionResult = await commitSession(
+        db,
+        pageId,
+        session.baseVersion || null,
+        finalContent,
+        { userId, username: result.username },
+        collaborators
+      );
+
+      if (!versionResult?.success) {
+        // Keep the session so the content isn't lost; the next participant to leave retries
+        return versionResult?.conflict
+          ? createErrorResponse('CONFLICT', versionResult.error || 'The page changed while the session was open')
+          : createErrorResponse('INTERNAL_ERROR', 'Failed to save the editing session');
+      }
+      versionId = versionResult.versionId || null;
+    }
+
+    await sessionRef.remove();
+
+    return createApiResponse({
+      ended: true,
+      committed: versionId !== null,
+      currentVersion: versionId,
+      collaborators,
+    });
+  } catch (error) {
+    console.error('[API] PUT /api/pages/[id]/collaboration error:', error);
+    return createErrorResponse('INTERNAL_ERROR');
+  }
+}
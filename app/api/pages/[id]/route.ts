@@ -104,29 +104,33 @@ async function fetchPageDirectly(pageId: string, userId: string | null, request:
     // Check if user is admin using centralized adminSecurity module
     const isAdmin = userId ? await isUserAdmin(userId) : false;
 
-    // Private group pages: check membership
-    if (pageData?.visibility === 'private' && pageData?.groupId) {
-      if (!isOwner && !isAdmin) {
-        // Check group membership
-        let isMember = false;
-        if (userId) {
-          try {
-            const groupsCollection = await getCollectionNameAsync('groups');
-            const groupDoc = await db.collection(groupsCollection).doc(pageData.groupId).get();
-            if (groupDoc.exists) {
-              const memberIds: string[] = groupDoc.data()?.memberIds || [];
-              isMember = memberIds.includes(userId);
-            }
-          } catch {
-            // Fail closed - deny access
-          }
-        }
-        if (!isMember) {
-          return { error: 'Page not found' };
+    // Group pages: check membership (members may view private pages and edit any group page)
+    let isMember = false;
+    if (pageData?.groupId && userId && !isOwner) {
+      try {
+        const groupsCollection = await getCollectionNameAsync('groups');
+        const groupDoc = await db.collection(groupsCollection).doc(pageData.groupId).get();
+        if (groupDoc.exists) {
+          const memberIds: string[] = groupDoc.data()?.memberIds || [];
+          isMember = memberIds.includes(userId);
         }
+      } catch {
+        // Fail closed - deny access
+      }
+    }
+
+    // Private group pages: require membership
+    if (pageData?.visibility === 'private' && pageData?.groupId) {
+      if (!isOwner && !isAdmin && !isMember) {
+        return { error: 'Page not found' };
       }
     }
 
+    // Pages hidden by a moderator: only the author and admins may view them
+    if (pageData?.moderationHidden === true && !isOwner && !isAdmin) {
+      return { error: 'Page not found' };
+    }
+
     // Content validation and conversion (read-only, no database writes)
     let processedPageData = { ...pageData };
 
@@ -262,7 +266,9 @@ async function fetchPageDirectly(pageId: string, userId: string | null, request:
         sponsorCount,
         replyCount,
         // External link paywall - author subscription status
-        authorHasActiveSubscription
+        authorHasActiveSubscription,
+        // Lets group members edit pages they don't own
+        isGroupMember: isMember
       }
     };
 
@@ -0,0 +1,96 @@
+import { NextRequest } from 'next/server';
+import { getUserIdFromRequest, createApiResponse, createErrorResponse } from '../../../auth-helper';
+import { getFirebaseAdmin } from '../../../../firebase/firebaseAdmin';
+import { getCollectionName } from '../../../../utils/environmentConfig';
+import { saveNewVersionServer } from '../../../../firebase/database/versions-server';
+
+/**
+ * POST /api/pages/[id]/set-current-version - Restore a page to an earlier version
+ * Body: { versionId }
+ * History is never rewritten: the old content is saved as a new version on top of
+ * the current one, attributed to the person restoring it and recording which
+ * version it came from.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: pageId } = await params;
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) return createErrorResponse('UNAUTHORIZED');
+
+    const { versionId } = await request.json();
+    if (!versionId || typeof versionId !== 'string') {
+      return createErrorResponse('BAD_REQUEST', 'versionId is required');
+    }
+
+    const admin = getFirebaseAdmin();
+    if (!admin) return createErrorResponse('INTERNAL_ERROR');
+    const db = admin.firestore();
+
+    const pageRef = db.collection(getCollectionName('pages')).doc(pageId);
+    const pageDoc = await pageRef.get();
+    const pageData = pageDoc.data();
+    if (!pageDoc.exists || !pageData || pageData.deleted) {
+      return createErrorResponse('NOT_FOUND', 'Page not found');
+    }
+
+    // Same edit rule as saving: the owner, or any member of the page's group
+    if (pageData.userId !== userId) {
+      const groupDoc = pageData.groupId
+        ? await db.collection(getCollectionName('groups')).doc(pageData.groupId).get()
+        : null;
+      if (!groupDoc?.data()?.memberIds?.includes(userId)) {
+        return createErrorResponse('FORBIDDEN', 'You do not have permission to edit this page');
+      }
+    }
+
+    const versionDoc = await pageRef.collection('versions').doc(versionId).get();
+    const versionData = versionDoc.data();
+    if (!versionDoc.exists || !versionData) {
+      return createErrorResponse('NOT_FOUND', 'Version not found');
+    }
+
+    if (versionId === pageData.currentVersion) {
+      return createApiResponse({ restored: false, currentVersion: versionId, message: 'This is already the current version' });
+    }
+
+    const userDoc = await db.collection(getCollectionName('users')).doc(userId).get();
+    const username: string = userDoc.data()?.username || 'Anonymous';
+
+    let content = versionData.content;
+    if (typeof content === 'string') {
+      try {
+        content = JSON.parse(content);
+      } catch {
+        // Plain-text content from very old versions is saved as-is
+      }
+    }
+
+    const result = await saveNewVersionServer(pageId, {
+      content,
+      userId,
+      username,
+      restoredFrom: {
+        versionId,
+        createdAt: versionData.createdAt || null,
+        userId: versionData.userId || null,
+        username: versionData.username || null,
+      },
+    });
+
+    if (!result?.success) {
+      return createErrorResponse('INTERNAL_ERROR', result?.error || 'Failed to restore version');
+    }
+
+    return createApiResponse({
+      restored: !result.isNoOp,
+      currentVersion: result.versionId,
+      restoredFrom: versionId,
+    });
+  } catch (error) {
+    console.error('[API] POST /api/pages/[id]/set-current-version error:', error);
+    return createErrorResponse('INTERNAL_ERROR', 'Failed to restore version');
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../../../../auth-helper';
+import { PageSuggestionError, PageSuggestionService } from '../../../../../services/pageSuggestionService';
+
+type RouteParams = { params: Promise<{ id: string; suggestionId: string }> };
+
+/**
+ * GET /api/pages/[id]/suggestions/[suggestionId]
+ * A suggested edit with the content it was made against, for showing as
+ * tracked changes (reviewers and the suggester)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: pageId, suggestionId } = await params;
+    const userId = await getUserIdFromRequest(request);
+
+    const result = await PageSuggestionService.getSuggestion(pageId, suggestionId, userId);
+    if (!result) {
+      return NextResponse.json({ error: 'Suggestion not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error loading page suggestion:', error);
+    return NextResponse.json({ error: 'Failed to load suggested edit' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/pages/[id]/suggestions/[suggestionId]
+ * Accept or reject a suggested edit (page owner or group members)
+ * Body: { status: 'accepted' | 'rejected' }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { status } = await request.json();
+    if (status !== 'accepted' && status !== 'rejected') {
+      return NextResponse.json({ error: 'status must be accepted or rejected' }, { status: 400 });
+    }
+
+    const { id: pageId, suggestionId } = await params;
+    const suggestion = await PageSuggestionService.reviewSuggestion(pageId, suggestionId, userId, status);
+    if (!suggestion) {
+      return NextResponse.json({ error: 'Suggestion not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ suggestion });
+  } catch (error) {
+    if (error instanceof PageSuggestionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error reviewing page suggestion:', error);
+    return NextResponse.json({ error: 'Failed to review suggested edit' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/pages/[id]/suggestions/[suggestionId]
+ * Withdraw a pending suggested edit (its author)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: pageId, suggestionId } = await params;
+    const withdrawn = await PageSuggestionService.withdrawSuggestion(pageId, suggestionId, userId);
+    if (!withdrawn) {
+      return NextResponse.json({ error: 'Suggestion not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof PageSuggestionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error withdrawing page suggestion:', error);
+    return NextResponse.json({ error: 'Failed to withdraw suggested edit' }, { status: 500 });
+  }
+}
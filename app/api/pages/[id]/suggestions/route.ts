@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../../../auth-helper';
+import { PageSuggestionError, PageSuggestionService } from '../../../../services/pageSuggestionService';
+import { getSuggestionInputError } from '../../../../utils/pageSuggestions';
+import type { PageSuggestionStatus } from '../../../../types/database';
+
+const STATUSES: PageSuggestionStatus[] = ['pending', 'accepted', 'rejected'];
+
+/**
+ * GET /api/pages/[id]/suggestions?status=pending
+ * Suggested edits to the page - all of them for the page owner and group
+ * members, the viewer's own for everyone else - and whether the viewer may
+ * review them
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: pageId } = await params;
+    const userId = await getUserIdFromRequest(request);
+
+    const status = request.nextUrl.searchParams.get('status');
+    if (status && !STATUSES.includes(status as PageSuggestionStatus)) {
+      return NextResponse.json({ error: 'status must be pending, accepted or rejected' }, { status: 400 });
+    }
+
+    const result = await PageSuggestionService.listSuggestions(pageId, userId, (status as PageSuggestionStatus) || undefined);
+    if (!result) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error listing page suggestions:', error);
+    return NextResponse.json({ error: 'Failed to load suggested edits' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/pages/[id]/suggestions
+ * Suggest an edit to a page you can't edit
+ * Body: { content, note?: string, baseVersionId?: string } - content is the
+ * whole page as the suggester left it, baseVersionId the version they started from
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: pageId } = await params;
+    const { content, note, baseVersionId } = await request.json();
+    const inputError = getSuggestionInputError({ content, note, baseVersionId });
+    if (inputError) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const suggestion = await PageSuggestionService.createSuggestion(pageId, userId, {
+      content,
+      note: note ?? null,
+      baseVersionId: baseVersionId ?? null
+    });
+    if (!suggestion) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ suggestion });
+  } catch (error) {
+    if (error instanceof PageSuggestionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error creating page suggestion:', error);
+    return NextResponse.json({ error: 'Failed to suggest edit' }, { status: 500 });
+  }
+}
@@ -102,6 +102,12 @@ export async function GET(
       };
     }
 
+    let canEdit = !!currentUserId && isOwner;
+    if (currentUserId && !canEdit && pageData?.groupId) {
+      const groupDoc = await db.collection(getCollectionName('groups')).doc(pageData.groupId).get();
+      canEdit = (groupDoc.data()?.memberIds || []).includes(currentUserId);
+    }
+
     // Format the response
     const response = {
       version: {
@@ -126,7 +132,9 @@ export async function GET(
         diff: nextVersion.diff
       } : null,
       pageId,
-      pageTitle: pageData?.title || 'Untitled'
+      pageTitle: pageData?.title || 'Untitled',
+      // Whether the viewer may restore versions: the author or a member of the page's group
+      canEdit
     };
 
 
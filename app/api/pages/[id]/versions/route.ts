@@ -25,6 +25,19 @@ interface PageVersion {
   previousVersionId?: string;
   isNoOp?: boolean;
   isNewPage?: boolean;
+  // Content is an encrypted-group ciphertext blob, diffed client-side
+  encrypted?: boolean;
+  restoredFrom?: {
+    versionId: string;
+    createdAt: string | null;
+    userId: string | null;
+    username: string | null;
+  } | null;
+  acceptedSuggestion?: {
+    suggestionId: string;
+    acceptedBy: string;
+    acceptedByUsername: string;
+  } | null;
   subscriptionTier?: string | null;
   subscriptionStatus?: string | null;
   subscriptionAmount?: number | null;
@@ -175,6 +188,9 @@ export async function GET(
         previousVersionId: data.previousVersionId,
         isNoOp: data.isNoOp || false,
         isNewPage: data.isNewPage || false,
+        restoredFrom: data.restoredFrom || null,
+        acceptedSuggestion: data.acceptedSuggestion || null,
+        encrypted: data.encrypted || false,
 
         // Subscription data for UsernameBadge
         subscriptionTier: userData?.subscriptionTier || null,
@@ -223,6 +239,8 @@ export async function GET(
       count: versions.length,
       pageId,
       pageTitle: pageData?.title || 'Untitled',
+      // Lets clients decrypt encrypted-group versions with the right group key
+      pageGroupId: pageData?.groupId || null,
       includeNoOp
     });
 
@@ -104,6 +104,11 @@ export async function POST(request: NextRequest) {
         }
       }
 
+      // Skip pages hidden by moderators for everyone but the author
+      if (pageData.moderationHidden === true && (!userId || pageData.userId !== userId)) {
+        continue;
+      }
+
       // Skip private group pages for non-members
       if (pageData.visibility === 'private' && pageData.groupId) {
         if (!userId || pageData.userId !== userId) {
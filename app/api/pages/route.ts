@@ -13,7 +13,11 @@ import { trackFirebaseRead } from '../../utils/costMonitor';
 import { pagesListCache } from '../../utils/pagesListCache';
 import { sanitizeUsername } from '../../utils/usernameSecurity';
 import { updateAllLinksToPage } from '../../services/pageLinkService';
-import type { Page } from '../../types/database';
+import { threeWayMerge } from '../../utils/pageMerge';
+import { createReplyQuote, getReplyAncestorIds, getReplyQuoteInput, getReplyRootId } from '../../utils/replyThreads';
+import { getAncestorVersionServer, type VersionMergeProvenance } from '../../firebase/database/versions-server';
+import { getKeyEpoch, INITIAL_KEY_EPOCH, parseEncryptedContent } from '../../lib/crypto/contentEncryption';
+import type { Page, PageForkOrigin, PageSaveConflict } from '../../types/database';
 
 /**
  * Page data type for API operations - uses centralized Page type with API-specific fields
@@ -235,7 +239,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { title, content, location, groupId, customDate, id: requestedId, sourcePageId } = body;
+    const { title, content, location, groupId, customDate, id: requestedId, sourcePageId, forkedFrom } = body;
 
 
 
@@ -308,6 +312,35 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // FORKS: A page can start from any historical version of another page.
+    // Record where it came from so the fork can link back to its origin.
+    let forkOrigin: PageForkOrigin | null = null;
+    if (forkedFrom?.pageId && forkedFrom?.versionId) {
+      const originRef = db.collection(getCollectionName('pages')).doc(String(forkedFrom.pageId));
+      const [originDoc, originVersionDoc] = await Promise.all([
+        originRef.get(),
+        originRef.collection('versions').doc(String(forkedFrom.versionId)).get()
+      ]);
+
+      // Only pages the forker can read may be forked - the fork would copy
+      // the content and link back with the origin's title
+      const { PageAccessService } = await import('../../services/pageAccessService');
+      const canReadOrigin = originDoc.exists && await PageAccessService.canRead(currentUserId, originDoc.data());
+      if (!canReadOrigin || !originVersionDoc.exists) {
+        return createErrorResponse('NOT_FOUND', 'The version to fork was not found');
+      }
+
+      const originVersion = originVersionDoc.data() || {};
+      forkOrigin = {
+        pageId: originDoc.id,
+        versionId: originVersionDoc.id,
+        title: originVersion.title || originDoc.data()?.title || 'Untitled',
+        userId: originVersion.userId || null,
+        username: originVersion.username || null,
+        versionCreatedAt: originVersion.createdAt || null
+      };
+    }
+
     const now = new Date().toISOString();
     const trimmedTitleForData = title.trim();
     const pageData: PageData = {
@@ -321,7 +354,8 @@ export async function POST(request: NextRequest) {
       lastModified: now,
       createdAt: now,
       deleted: false,
-      customDate: customDate || null
+      customDate: customDate || null,
+      ...(forkOrigin && { forkedFrom: forkOrigin })
     };
 
 
@@ -518,6 +552,34 @@ export async function POST(request: NextRequest) {
         // Don't fail the page creation if notification processing fails
       }
 
+      // Pages created with links already in them (imports, forks) show up in
+      // what-links-here and the graph without waiting for their first edit
+      if (validatedContent && JSON.stringify(validatedContent).includes('"pageId"')) {
+        try {
+          const { updateWhatLinksHereIndex } = await import('../../firebase/database/whatLinksHere');
+          await updateWhatLinksHereIndex(
+            pageId,
+            pageData.title || 'Untitled',
+            username || 'Anonymous',
+            validatedContent,
+            pageData.isPublic !== false,
+            now
+          );
+        } catch (backlinkError) {
+          // Non-fatal, like the immediate backlink above
+        }
+      }
+
+      // Outgoing webhooks - retried by the webhook-deliveries cron if this doesn't finish
+      import('../../services/outgoingWebhookService')
+        .then(({ OutgoingWebhookService, toPageEventData }) => OutgoingWebhookService.emit(
+          'page.created',
+          { userId: currentUserId, groupId: pageData.groupId },
+          pageId,
+          toPageEventData(pageId, pageData)
+        ))
+        .catch(() => { /* Non-fatal */ });
+
       // Sync to Typesense for search indexing
       const searchSyncData = {
         pageId,
@@ -529,6 +591,8 @@ export async function POST(request: NextRequest) {
         alternativeTitles: [],
         lastModified: now,
         createdAt: now,
+        groupId: pageData.groupId || undefined,
+        location: pageData.location,
       };
 
       try {
@@ -559,6 +623,30 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * The conflict returned for a save based on a version that is no longer the page's head
+ */
+function buildSaveConflict(
+  pageId: string,
+  baseVersionId: string | null | undefined,
+  pageData: any,
+  headVersion: any,
+  details: Pick<PageSaveConflict, 'merge' | 'titleConflict'> = {}
+): PageSaveConflict {
+  return {
+    pageId,
+    baseVersionId: baseVersionId || null,
+    currentVersion: pageData.currentVersion,
+    content: pageData.content,
+    title: pageData.title,
+    userId: headVersion?.userId || pageData.userId,
+    username: headVersion?.username || pageData.username,
+    lastModified: pageData.lastModified,
+    ...(details.merge && { merge: details.merge }),
+    ...(details.titleConflict && { titleConflict: true })
+  };
+}
+
 // PUT endpoint - Update an existing page
 export async function PUT(request: NextRequest) {
   let body: any = null; // Declare body outside try block for error handling
@@ -573,7 +661,13 @@ export async function PUT(request: NextRequest) {
     }
 
     body = await request.json();
-    const { id, title, content, location, groupId, customDate, replyType, markAsSaved, replyTo, replyToTitle, replyToUsername, batchWithGroup, encrypted } = body;
+    const { id, location, groupId, customDate, replyType, markAsSaved, replyTo, replyToTitle, replyToUsername, batchWithGroup, encrypted } = body;
+    // Reassigned when a stale save is automatically merged with the current version
+    let content = body.content;
+    // Cleared when the client didn't change the title, so a concurrent rename isn't reverted
+    let title = body.title;
+    // The version the client loaded before editing - used to detect concurrent saves
+    const baseVersionId: string | null | undefined = body.currentVersion;
 
 
     logger.info('Page save request', {
@@ -622,6 +716,20 @@ export async function PUT(request: NextRequest) {
         const userProfile = await getUserProfile(currentUserId);
         const username = userProfile?.username || 'Anonymous';
 
+        // Someone who has been blocked by the page owner can't reply to their pages
+        let originalPageData: any = null;
+        if (replyTo) {
+          const originalPageDoc = await db.collection(getCollectionName('pages')).doc(replyTo).get();
+          originalPageData = originalPageDoc.exists ? originalPageDoc.data() : null;
+          const originalOwnerId = originalPageData?.userId;
+          if (originalOwnerId) {
+            const { UserBlockService } = await import('../../services/userBlockService');
+            if (await UserBlockService.hasBlocked(originalOwnerId, currentUserId)) {
+              return createErrorResponse('FORBIDDEN', 'You cannot reply to this page');
+            }
+          }
+        }
+
         // Create the initial page document
         const now = new Date().toISOString();
         const newPageData: any = {
@@ -645,6 +753,30 @@ export async function PUT(request: NextRequest) {
           newPageData.replyToTitle = replyToTitle || null;
           newPageData.replyToUsername = replyToUsername || null;
           newPageData.replyType = replyType || null;
+          newPageData.replyAncestorIds = getReplyAncestorIds({
+            id: replyTo,
+            replyAncestorIds: originalPageData?.replyAncestorIds
+          });
+          newPageData.replyRootId = getReplyRootId({
+            id: replyTo,
+            replyRootId: originalPageData?.replyRootId,
+            replyAncestorIds: originalPageData?.replyAncestorIds
+          });
+
+          // Anchor the quoted passage to the page being replied to; a passage
+          // that isn't in it is dropped rather than stored unanchored
+          const quoteInput = getReplyQuoteInput(body.replyQuote);
+          const replyQuote = quoteInput && createReplyQuote(originalPageData?.content, quoteInput.text, quoteInput.blockIndex);
+          if (replyQuote) {
+            newPageData.replyQuote = replyQuote;
+          }
+        }
+
+        // Credit the template the page was started from
+        if (typeof body.fromTemplate === 'string' && body.fromTemplate) {
+          const { PageTemplateService } = await import('../../services/pageTemplateService');
+          const fromTemplate = await PageTemplateService.recordUse(body.fromTemplate, currentUserId);
+          if (fromTemplate) newPageData.fromTemplate = fromTemplate;
         }
 
         await pageRef.set(newPageData);
@@ -664,6 +796,8 @@ export async function PUT(request: NextRequest) {
           alternativeTitles: [],
           lastModified: newPageData.lastModified,
           createdAt: newPageData.createdAt,
+          replyTo: newPageData.replyTo,
+          location: newPageData.location,
         };
 
         // Sync to Typesense for search indexing
@@ -720,13 +854,26 @@ export async function PUT(request: NextRequest) {
       deleted: pageData.deleted
     }, 'PAGE_SAVE');
 
-    // Check ownership
+    // Check ownership - members of the page's group may also edit it
     if (pageData.userId !== currentUserId) {
-      logger.error('Permission denied - user does not own page', {
-        pageUserId: pageData.userId,
-        currentUserId: currentUserId
-      }, 'PAGE_SAVE');
-      return createErrorResponse('FORBIDDEN', 'You can only edit your own pages');
+      let isGroupMember = false;
+      if (pageData.groupId) {
+        try {
+          const groupDoc = await db.collection(getCollectionName('groups')).doc(pageData.groupId).get();
+          const memberIds: string[] = groupDoc.exists ? (groupDoc.data()?.memberIds || []) : [];
+          isGroupMember = memberIds.includes(currentUserId);
+        } catch {
+          // Fail closed - deny access
+        }
+      }
+
+      if (!isGroupMember) {
+        logger.error('Permission denied - user does not own page', {
+          pageUserId: pageData.userId,
+          currentUserId: currentUserId
+        }, 'PAGE_SAVE');
+        return createErrorResponse('FORBIDDEN', 'You can only edit your own pages');
+      }
     }
 
     // Check if page is deleted
@@ -735,6 +882,100 @@ export async function PUT(request: NextRequest) {
       return createErrorResponse('BAD_REQUEST', 'Cannot edit deleted pages');
     }
 
+    // KEY ROTATION: Content encrypted under a group key that has since been rotated
+    // would stay readable to a removed member, so it must be re-encrypted first
+    const encryptedContent = encrypted === true ? parseEncryptedContent(content) : null;
+    const contentGroupId = groupId !== undefined ? groupId : pageData.groupId;
+    if (encryptedContent && contentGroupId) {
+      const groupDoc = await db.collection(getCollectionName('groups')).doc(contentGroupId).get();
+      const keyVersion: number = groupDoc.data()?.keyVersion || INITIAL_KEY_EPOCH;
+      if (getKeyEpoch(encryptedContent) < keyVersion) {
+        logger.warn('Rejecting content encrypted with a retired group key', {
+          pageId: id,
+          keyEpoch: getKeyEpoch(encryptedContent),
+          keyVersion
+        });
+        return createErrorResponse('CONFLICT', 'The group key was rotated. Reload the page to save with the new key.');
+      }
+    }
+
+    // TITLE MERGE: Clients send the title their edit started from. A title they didn't
+    // change is left alone so an unrelated save can't revert someone else's rename;
+    // both renaming the page to different titles is a conflict.
+    const baseTitle: string | undefined = typeof body.baseTitle === 'string' ? body.baseTitle.trim() : undefined;
+    if (typeof title === 'string' && baseTitle !== undefined && !isFirstSaveOfNewPage) {
+      const currentTitle = pageData.title || '';
+      if (title.trim() === baseTitle) {
+        title = undefined;
+      } else if (currentTitle !== baseTitle && title.trim() !== currentTitle) {
+        const headVersion = pageData.currentVersion
+          ? (await pageRef.collection('versions').doc(pageData.currentVersion).get()).data()
+          : null;
+        const conflict = buildSaveConflict(id, baseVersionId, pageData, headVersion, { titleConflict: true });
+        return createErrorResponse('CONFLICT', 'This page was renamed by someone else while you were editing', { conflict });
+      }
+    }
+
+    // OPTIMISTIC CONCURRENCY: Content saves based on a version that is no longer current are
+    // three-way merged against the common ancestor; overlapping edits are rejected with a 409.
+    // Clients that don't send currentVersion keep the old last-write-wins behaviour.
+    let mergedFrom: VersionMergeProvenance | null = null;
+    if (
+      content !== undefined &&
+      !isFirstSaveOfNewPage &&
+      baseVersionId !== undefined &&
+      pageData.currentVersion &&
+      baseVersionId !== pageData.currentVersion
+    ) {
+      const headVersionDoc = await pageRef.collection('versions').doc(pageData.currentVersion).get();
+      const headVersion = headVersionDoc.exists ? headVersionDoc.data() : null;
+
+      // A rename saved straight onto the base version changed no content, so there is nothing
+      // to merge. Any other newer head is merged, even one the same user saved from another tab.
+      const isRenameOfBase = headVersion?.titleChangeOnly === true && headVersion.previousVersionId === baseVersionId;
+      if (!isRenameOfBase) {
+        let merge: PageSaveConflict['merge'];
+
+        // Encrypted content is opaque to the server, so only plaintext saves can be merged
+        const ancestor = baseVersionId && encrypted !== true
+          ? await getAncestorVersionServer(id, baseVersionId, pageData.currentVersion)
+          : null;
+
+        if (ancestor) {
+          const mergeResult = threeWayMerge(ancestor.content, pageData.content, content);
+
+          if (mergeResult.clean) {
+            logger.info('Automatically merged concurrent page edits', {
+              pageId: id,
+              baseVersionId,
+              currentVersion: pageData.currentVersion,
+              userId: currentUserId
+            });
+            content = mergeResult.content;
+            mergedFrom = {
+              baseVersionId: ancestor.id,
+              parentVersionIds: [pageData.currentVersion],
+              parentUserIds: [headVersion?.userId || pageData.userId, currentUserId]
+            };
+          } else {
+            merge = { content: mergeResult.content, conflictCount: mergeResult.conflicts.length };
+          }
+        }
+
+        if (!mergedFrom) {
+          logger.warn('Rejecting stale page save', {
+            pageId: id,
+            baseVersionId,
+            currentVersion: pageData.currentVersion,
+            userId: currentUserId
+          });
+
+          const conflict = buildSaveConflict(id, baseVersionId, pageData, headVersion, { merge });
+          return createErrorResponse('CONFLICT', 'This page was changed by someone else while you were editing', { conflict });
+        }
+      }
+    }
+
     // Prepare update data
     const updateData: any = {
       lastModified: new Date().toISOString()
@@ -794,6 +1035,12 @@ export async function PUT(request: NextRequest) {
     // NEW PAGE SAVE: Remove isNewPage flag when saving for first time
     if (markAsSaved === true && pageData.isNewPage === true) {
       updateData.isNewPage = false;
+
+      if (typeof body.fromTemplate === 'string' && body.fromTemplate && !pageData.fromTemplate) {
+        const { PageTemplateService } = await import('../../services/pageTemplateService');
+        const fromTemplate = await PageTemplateService.recordUse(body.fromTemplate, currentUserId);
+        if (fromTemplate) updateData.fromTemplate = fromTemplate;
+      }
     }
 
     if (customDate !== undefined) {
@@ -838,10 +1085,24 @@ export async function PUT(request: NextRequest) {
 
         // VERSION BATCHING: If batchWithGroup is true, pass it through to enable version batching
         // This allows auto-saves within a session to update the same version instead of creating new ones
-        if (batchWithGroup && groupId) {
+        // Merged saves always get their own version so the provenance isn't batched away
+        if (batchWithGroup && groupId && !mergedFrom) {
           versionData.batchWithGroup = true;
         }
 
+        if (mergedFrom) {
+          versionData.mergedFrom = mergedFrom;
+        }
+
+        // Only write if the page still has the head the conflict check above saw;
+        // another save landing in between gets the client a conflict instead
+        if (baseVersionId !== undefined && !isFirstSaveOfNewPage) {
+          versionData.expectedHead = {
+            currentVersion: pageData.currentVersion || null,
+            content: pageData.content ?? null
+          };
+        }
+
         // Add title change information if title is also being updated
         if (title !== undefined && title.trim() !== pageData.title) {
           versionData.changeType = 'content_and_title_change';
@@ -885,6 +1146,14 @@ export async function PUT(request: NextRequest) {
 
         versionResult = await saveNewVersionServer(id, versionData);
 
+        if (versionResult?.conflict) {
+          const latestPage = (await pageRef.get()).data();
+          const latestHead = latestPage?.currentVersion
+            ? (await pageRef.collection('versions').doc(latestPage.currentVersion).get()).data()
+            : null;
+          const conflict = buildSaveConflict(id, baseVersionId, latestPage, latestHead);
+          return createErrorResponse('CONFLICT', 'This page was changed by someone else while you were editing', { conflict });
+        }
 
         if (!versionResult || !versionResult.success) {
           logger.error('Version save failed', {
@@ -1002,6 +1271,7 @@ export async function PUT(request: NextRequest) {
               username: currentUser?.username || 'Anonymous',
               groupId: groupId,
               changeType: 'title_change',
+              titleChangeOnly: true,
               titleChange: {
                 oldTitle: pageData.title,
                 newTitle: title.trim()
@@ -1126,6 +1396,9 @@ export async function PUT(request: NextRequest) {
 
           // Sync to Typesense for search indexing
           (async () => {
+            // Pages hidden by a moderator stay out of the search index
+            if (pageData?.moderationHidden === true) return;
+
             try {
               // Get the content string for search engines
               const contentString = typeof content === 'string'
@@ -1142,6 +1415,10 @@ export async function PUT(request: NextRequest) {
                 alternativeTitles: pageData?.alternativeTitles || [],
                 lastModified: new Date().toISOString(),
                 createdAt: pageData?.createdAt || new Date().toISOString(),
+                groupId: pageData?.groupId || undefined,
+                isReply: pageData?.isReply,
+                replyTo: pageData?.replyTo,
+                location: updateData.location !== undefined ? updateData.location : pageData?.location,
               };
 
               try {
@@ -1166,6 +1443,39 @@ export async function PUT(request: NextRequest) {
       updateFields: Object.keys(updateData)
     }, 'PAGE_SAVE');
 
+    // Outgoing webhooks - retried by the webhook-deliveries cron if this doesn't finish
+    const contentSaved = contentChanged && !versionResult?.isNoOp;
+    if (isFirstSaveOfNewPage || contentSaved || titleChanged) {
+      const savedPage = { ...pageData, ...updateData };
+      import('../../services/outgoingWebhookService')
+        .then(async ({ OutgoingWebhookService, toPageEventData }) => {
+          const eventData = toPageEventData(id, savedPage);
+          if (isFirstSaveOfNewPage) {
+            await OutgoingWebhookService.emit('page.created', { userId: currentUserId, groupId: savedPage.groupId }, id, eventData);
+          } else {
+            const versionKey = contentSaved && versionResult?.versionId ? versionResult.versionId : savedPage.lastModified;
+            await OutgoingWebhookService.emit('page.updated', { userId: pageData.userId, groupId: savedPage.groupId }, `${id}:${versionKey}`, {
+              ...eventData,
+              editedBy: currentUserId,
+              titleChanged,
+            });
+          }
+
+          if (isFirstSaveOfNewPage && savedPage.replyTo) {
+            const parentDoc = await db.collection(getCollectionName('pages')).doc(savedPage.replyTo).get();
+            const parent = parentDoc.data();
+            if (parent && parent.userId !== currentUserId) {
+              await OutgoingWebhookService.emit('reply.created', { userId: parent.userId, groupId: parent.groupId }, id, {
+                reply: eventData,
+                replyType: savedPage.replyType || null,
+                page: toPageEventData(savedPage.replyTo, parent),
+              });
+            }
+          }
+        })
+        .catch(() => { /* Non-fatal */ });
+    }
+
     // CRITICAL: Invalidate ALL cache layers immediately (not fire-and-forget for core caches)
     // This ensures the editor sees fresh data immediately after saving
     try {
@@ -1187,8 +1497,14 @@ export async function PUT(request: NextRequest) {
     const responseData = {
       id,
       ...updateData,
+      // Clients send this back as currentVersion on their next save
+      currentVersion: versionResult?.versionId || pageData.currentVersion || null,
+      // The page's title after the save - someone else's, if this save didn't rename it
+      title: title !== undefined ? title.trim() : pageData.title,
       message: 'Page updated successfully',
-      ...(titleChanged && { titleChanged: true, titleChangeInfo })
+      ...(titleChanged && { titleChanged: true, titleChangeInfo }),
+      // The client must replace its content with the merge result
+      ...(mergedFrom && { mergedFrom, mergedContent: content })
     };
 
     return createApiResponse(responseData);
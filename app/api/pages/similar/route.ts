@@ -2,15 +2,52 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getFirebaseAdmin } from '../../../firebase/firebaseAdmin';
 import { getCollectionName } from '../../../utils/environmentConfig';
 import { createErrorResponse, createSuccessResponse } from '../../../utils/apiHelpers';
+import { isTypesenseConfigured, searchRelatedPages } from '../../../lib/typesense';
 
 /**
  * GET /api/pages/similar?pageId=xxx&title=xxx&maxPages=3
  * 
- * Find pages similar to the current page based on title keywords.
+ * Find pages similar to the current page. Uses the page embeddings in
+ * Typesense when available, otherwise falls back to title keywords.
  * Environment-aware API replacement for SimilarPages direct Firebase calls.
  */
 export async function GET(request: NextRequest) {
   try {
+    const { searchParams: params } = new URL(request.url);
+    const semanticPageId = params.get('pageId');
+    const semanticTitle = params.get('title');
+    const semanticMax = parseInt(params.get('maxPages') || '3');
+
+    if (semanticPageId && semanticTitle && isTypesenseConfigured()) {
+      try {
+        const result = await searchRelatedPages(semanticPageId, {
+          query: semanticTitle,
+          perPage: semanticMax + 1,
+          filterBy: 'isPublic:=true',
+          includeFields: ['id', 'title', 'authorId', 'authorUsername', 'lastModified'],
+        });
+
+        const pages = result.hits
+          .filter(hit => hit.document.id !== semanticPageId)
+          .slice(0, semanticMax)
+          .map(hit => ({
+            id: hit.document.id,
+            title: hit.document.title,
+            userId: hit.document.authorId,
+            username: hit.document.authorUsername,
+            lastModified: hit.document.lastModified,
+          }));
+
+        return createSuccessResponse({
+          pages,
+          totalFound: pages.length,
+          searchTerms: [semanticTitle]
+        });
+      } catch (error) {
+        console.warn('🔍 [SIMILAR PAGES API] Semantic search failed, using title keywords:', error);
+      }
+    }
+
     const admin = getFirebaseAdmin();
     if (!admin) {
       return createErrorResponse('INTERNAL_ERROR', 'Firebase Admin not initialized');
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../../../auth-helper';
+import { RecurringPledgeService } from '../../../../services/recurringPledgeService';
+
+/**
+ * DELETE /api/pledges/recurring/[id]
+ * Cancel a recurring pledge. This month's allocation is kept.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const cancelled = await RecurringPledgeService.cancelPledge(userId, id);
+    if (!cancelled) {
+      return NextResponse.json({ error: 'Recurring pledge not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error cancelling recurring pledge:', error);
+    return NextResponse.json({ error: 'Failed to cancel recurring pledge' }, { status: 500 });
+  }
+}
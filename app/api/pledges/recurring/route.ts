@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../../auth-helper';
+import { RecurringPledgeService } from '../../../services/recurringPledgeService';
+import { AllocationError } from '../../../types/allocation';
+
+const TARGET_TYPES = ['page', 'user', 'group'];
+
+/**
+ * GET /api/pledges/recurring
+ * List the user's recurring pledges that haven't been cancelled
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const pledges = await RecurringPledgeService.getPledges(userId);
+    return NextResponse.json({ pledges });
+  } catch (error) {
+    console.error('Error listing recurring pledges:', error);
+    return NextResponse.json({ error: 'Failed to list recurring pledges' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/pledges/recurring
+ * Create a pledge that renews every month until cancelled
+ * Body: { targetType: 'page' | 'user' | 'group', targetId, amountType: 'fixed', usdCents }
+ *    or { targetType, targetId, amountType: 'percentage', percent }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { targetType, targetId, amountType, usdCents, percent } = await request.json();
+
+    if (!TARGET_TYPES.includes(targetType) || typeof targetId !== 'string' || !targetId) {
+      return NextResponse.json({ error: 'A page, user or group to pledge to is required' }, { status: 400 });
+    }
+    if (amountType === 'fixed' && !(Number.isInteger(usdCents) && usdCents > 0)) {
+      return NextResponse.json({ error: 'Amount must be a positive number of cents' }, { status: 400 });
+    }
+    if (amountType === 'percentage' && !(Number.isInteger(percent) && percent >= 1 && percent <= 100)) {
+      return NextResponse.json({ error: 'Percentage must be between 1 and 100' }, { status: 400 });
+    }
+    if (amountType !== 'fixed' && amountType !== 'percentage') {
+      return NextResponse.json({ error: 'Invalid amount type' }, { status: 400 });
+    }
+
+    const pledge = await RecurringPledgeService.createPledge(userId, {
+      targetType,
+      targetId,
+      amountType,
+      usdCents,
+      percent
+    });
+    return NextResponse.json({ pledge });
+  } catch (error) {
+    if (error instanceof AllocationError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+    }
+    console.error('Error creating recurring pledge:', error);
+    return NextResponse.json({ error: 'Failed to create recurring pledge' }, { status: 500 });
+  }
+}
@@ -62,6 +62,8 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     const { getEffectiveTier } = await import('../../utils/subscriptionTiers');
     const { executeDeduplicatedOperation } = await import('../../utils/serverRequestDeduplication');
     const { getCollectionName, getSubCollectionPath, PAYMENT_COLLECTIONS } = await import('../../utils/environmentConfig');
+    const { getUserIdFromRequest } = await import('../auth-helper');
+    const { UserBlockService } = await import('../../services/userBlockService');
 
     const adminApp = getFirebaseAdmin();
     if (!adminApp) {
@@ -79,6 +81,9 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       console.warn('RTDB not available for random pages API');
     }
 
+    // Authors the signed-in viewer has blocked or muted are never picked
+    const hiddenAuthorIds = await UserBlockService.getHiddenAuthorIds(await getUserIdFromRequest(request));
+
     // User-first randomization for diversity
     const now = new Date();
     const timeRanges = [
@@ -101,7 +106,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
         userSnapshot.docs.forEach(doc => {
           const data = doc.data();
-          if (data.userId && !data.deleted) {
+          if (data.userId && !data.deleted && !hiddenAuthorIds.has(data.userId)) {
             allUsers.add(data.userId);
           }
         });
@@ -184,6 +189,9 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       if (excludeOwnPages && userId && page.userId === userId) {
         return false;
       }
+      if (page.userId && hiddenAuthorIds.has(page.userId)) {
+        return false;
+      }
       if (excludeUsername && (page.username || '').toLowerCase() === excludeUsername) {
         return false;
       }
@@ -7,6 +7,7 @@ import { sanitizeUsername } from '../../../utils/usernameSecurity';
 import { getAdminFirestore } from '../../../firebase/firebaseAdmin';
 import { getBatchPageViewData } from '../../../services/pageViewService';
 import { computeFeedScore, passesQualityFilter, type FeedScore } from '../../../services/feedRankingService';
+import { UserBlockService } from '../../../services/userBlockService';
 
 // EMERGENCY COST OPTIMIZATION: Global cache for recent edits
 const globalRecentEditsCache = new Map<string, { data: any; timestamp: number }>();
@@ -39,10 +40,10 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
 
-    let userId = searchParams.get('userId');
-    if (!userId) {
-      userId = await getUserIdFromRequest(request);
-    }
+    // Muted and blocked authors are hidden for the signed-in viewer, never
+    // for whichever userId the query names
+    const viewerId = await getUserIdFromRequest(request);
+    const userId = searchParams.get('userId') || viewerId;
 
     const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 20);
     const includeOwn = searchParams.get('includeOwn') === 'true';
@@ -66,7 +67,7 @@ export async function GET(request: NextRequest) {
     // Cache
     const CACHE_TTL = 10 * 1000;
     const EMPTY_CACHE_TTL = 2 * 1000;
-    const cacheKey = `recent-edits:global:${userId || 'anon'}:${limit}:${includeOwn}:${followingOnly}:${feedMode}:${feedQuality}:${cursor || 'first'}`;
+    const cacheKey = `recent-edits:global:${userId || 'anon'}:${viewerId || 'anon'}:${limit}:${includeOwn}:${followingOnly}:${feedMode}:${feedQuality}:${cursor || 'first'}`;
 
     const cached = globalRecentEditsCache.get(cacheKey);
     if (cached && (Date.now() - cached.timestamp) < (cached.data?.edits?.length > 0 ? CACHE_TTL : EMPTY_CACHE_TTL)) {
@@ -95,6 +96,8 @@ export async function GET(request: NextRequest) {
         }
       }
 
+      const hiddenAuthorIds = await UserBlockService.getHiddenAuthorIds(viewerId);
+
       // BACKFILL LOGIC: When quality filter removes too much content, expand time window
       const MIN_RESULTS_BEFORE_BACKFILL = Math.ceil(limit * 0.5);
       // For algorithmic mode, start with a wider window since we're ranking anyway
@@ -160,9 +163,10 @@ export async function GET(request: NextRequest) {
 
         _diagnostics.totalPagesFetched += pages.length;
 
-        // Basic filters (deleted, private, own, following)
+        // Basic filters (deleted, private, own, following, muted)
         const filteredPages = pages.filter(page => {
           if (page.deleted === true) return false;
+          if (page.userId && hiddenAuthorIds.has(page.userId)) return false;
           if (page.isPublic === false && page.userId !== userId) return false;
           if (!includeOwn && page.userId === userId) return false;
           if (followingOnly && followedUserIds !== null) {
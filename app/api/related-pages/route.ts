@@ -3,6 +3,8 @@
  *
  * Enhanced related pages that uses Typesense search for better text similarity
  * and includes both "related by content" and "more by same author" sections.
+ * "Related by others" fuses keyword matches with nearest neighbours of the
+ * page's embedding, so pages about the same idea in other words show up too.
  *
  * Query params:
  * - pageId: Current page ID (required)
@@ -17,6 +19,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
   searchPages as typesenseSearchPages,
+  searchRelatedPages,
   isTypesenseConfigured,
 } from '../../lib/typesense';
 
@@ -202,14 +205,15 @@ export async function GET(request: NextRequest) {
 
     // Parallel requests for both categories using Typesense
     const [byOthersResponse, byAuthorResponse] = await Promise.all([
-      // Search for related pages by OTHER authors
-      searchQuery ? typesenseSearchPages(searchQuery, {
+      // Search for related pages by OTHER authors (keyword + semantic)
+      searchRelatedPages(pageId, {
+        query: searchQuery,
         perPage: limitByOthers + excludeIds.size + 5, // Extra to account for filtering
         filterBy: authorId
           ? `isPublic:=true && authorId:!=${authorId}`
           : 'isPublic:=true',
         includeFields: ['id', 'title', 'authorId', 'authorUsername', 'isPublic', 'lastModified'],
-      }) : Promise.resolve({ hits: [], found: 0 }),
+      }),
 
       // Get more pages by the SAME author
       authorId ? typesenseSearchPages('*', {
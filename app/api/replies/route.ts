@@ -1,30 +1,44 @@
 /**
  * Replies API Endpoint
  * 
- * Returns all pages that reply to a specific page, with filtering by reply type.
+ * Returns all pages in a page's discussion - its replies and the replies to
+ * those - with filtering by reply type. Replies carry replyTo and
+ * replyAncestorIds so the client can nest them into threads, and the passage
+ * of the parent they quote, anchored to the parent's current content.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getFirebaseAdmin } from '../../firebase/firebaseAdmin';
 import { getCollectionName } from '../../utils/environmentConfig';
+import { getUserIdFromRequest } from '../auth-helper';
+import { UserBlockService } from '../../services/userBlockService';
+import {
+  buildReplyThreads,
+  countReplyThreads,
+  resolveReplyQuote,
+  toReplySentiment,
+  type ReplySentiment,
+  type ReplyThreadCounts
+} from '../../utils/replyThreads';
+import type { ReplyQuote } from '../../types/database';
 
 interface ReplyInfo {
   id: string;
   title: string;
   username: string;
-  replyType: 'agree' | 'disagree' | 'neutral' | 'standard' | null;
+  replyType: ReplySentiment;
   createdAt: any;
   userId: string;
+  replyTo: string;
+  replyAncestorIds: string[];
+  replyQuote: ReplyQuote | null;
+  // The quoted passage has since been edited out of the parent
+  quoteOutdated: boolean;
 }
 
 interface RepliesResponse {
   replies: ReplyInfo[];
-  counts: {
-    agree: number;
-    disagree: number;
-    neutral: number;
-    total: number;
-  };
+  counts: ReplyThreadCounts;
   pageId: string;
   timestamp: string;
 }
@@ -52,73 +66,77 @@ export async function GET(request: NextRequest): Promise<NextResponse<RepliesRes
     }
 
 
-    // Query pages that have replyTo pointing to this page
+    // Direct replies, plus replies further down threads started here. Threads
+    // deeper than MAX_REPLY_ANCESTORS no longer list this page as an ancestor
+    // but keep it as replyRootId. Older replies have no replyAncestorIds, so
+    // the replyTo query still matters.
     // Note: We can't query for isDeleted == false directly since some docs may not have the field
     // So we query all replies and filter in code
-    const pagesCollection = getCollectionName('pages');
-    let query = db.collection(pagesCollection)
-      .where('replyTo', '==', pageId);
-
-    const snapshot = await query.get();
+    const pagesCollection = db.collection(getCollectionName('pages'));
+
+    const [directSnapshot, threadSnapshot, rootSnapshot, pageDoc, hiddenAuthorIds] = await Promise.all([
+      pagesCollection.where('replyTo', '==', pageId).get(),
+      pagesCollection.where('replyAncestorIds', 'array-contains', pageId).get(),
+      pagesCollection.where('replyRootId', '==', pageId).get(),
+      pagesCollection.doc(pageId).get(),
+      // Replies from users the viewer has blocked or muted are left out
+      getUserIdFromRequest(request).then(viewerId => UserBlockService.getHiddenAuthorIds(viewerId))
+    ]);
+
+    const docs = new Map([...directSnapshot.docs, ...threadSnapshot.docs, ...rootSnapshot.docs].map(doc => [doc.id, doc]));
+    // Quotes are anchored against the current content of the page they quote
+    const contentById = new Map<string, unknown>([[pageId, pageDoc.exists ? pageDoc.data()?.content : null]]);
+    for (const doc of docs.values()) {
+      contentById.set(doc.id, doc.data().content);
+    }
 
-    const replies: ReplyInfo[] = [];
-    const counts = {
-      agree: 0,
-      disagree: 0,
-      neutral: 0,
-      total: 0
-    };
+    const allReplies: ReplyInfo[] = [];
 
-    for (const doc of snapshot.docs) {
+    for (const doc of docs.values()) {
       const data = doc.data();
       
       // Skip deleted pages
       if (data.isDeleted || data.deleted) {
         continue;
       }
-      
-      // Determine reply type - check multiple possible locations
-      let replyType: 'agree' | 'disagree' | 'neutral' | 'standard' | null = null;
-      
-      // Check page-level replyType
-      if (data.replyType) {
-        replyType = data.replyType;
+
+      if (data.userId && hiddenAuthorIds.has(data.userId)) {
+        continue;
       }
       
-      // Check content block for replyType (for older format)
+      // Determine reply type - check page level first, then the content block (older format).
+      // 'standard' and missing types count as neutral
+      let replyType = data.replyType;
       if (!replyType && Array.isArray(data.content) && data.content.length > 0) {
-        const firstBlock = data.content[0];
-        if (firstBlock?.replyType) {
-          replyType = firstBlock.replyType;
-        }
+        replyType = data.content[0]?.replyType;
       }
-      
-      // Normalize reply type
-      if (replyType === 'standard' || !replyType) {
-        replyType = 'neutral';
-      }
-
-      // Update counts
-      counts.total++;
-      if (replyType === 'agree') counts.agree++;
-      else if (replyType === 'disagree') counts.disagree++;
-      else counts.neutral++;
 
-      // Apply filter if specified
-      if (filterType && replyType !== filterType) {
-        continue;
+      let replyQuote: ReplyQuote | null = null;
+      let quoteOutdated = false;
+      if (data.replyQuote) {
+        replyQuote = resolveReplyQuote(contentById.get(data.replyTo), data.replyQuote);
+        quoteOutdated = !replyQuote;
       }
 
-      replies.push({
+      allReplies.push({
         id: doc.id,
         title: data.title || 'Untitled',
         username: data.username || '',
-        replyType,
+        replyType: toReplySentiment(replyType),
         createdAt: data.createdAt,
-        userId: data.userId
+        userId: data.userId,
+        replyTo: data.replyTo,
+        replyAncestorIds: data.replyAncestorIds || [],
+        replyQuote: replyQuote ?? data.replyQuote ?? null,
+        quoteOutdated
       });
     }
 
+    const counts = countReplyThreads(buildReplyThreads(allReplies, pageId));
+
+    // Apply filter if specified
+    const replies = filterType ? allReplies.filter(reply => reply.replyType === filterType) : allReplies;
+
     // Sort by createdAt descending (newest first)
     replies.sort((a, b) => {
       const aTime = a.createdAt?.toDate?.() || new Date(a.createdAt || 0);
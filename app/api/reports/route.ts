@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { getUserIdFromRequest, createApiResponse, createErrorResponse } from '../auth-helper';
+import { ModerationService, ModerationError } from '../../services/moderationService';
+
+/**
+ * Content Reports API Route
+ *
+ * POST: Report a page, reply or user profile to the moderators
+ * Body: { targetType: 'page' | 'reply' | 'user', targetId, category, details? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const currentUserId = await getUserIdFromRequest(request);
+    if (!currentUserId) {
+      return createErrorResponse('UNAUTHORIZED');
+    }
+
+    const { targetType, targetId, category, details } = await request.json();
+    const report = await ModerationService.createReport(currentUserId, { targetType, targetId, category, details });
+
+    return createApiResponse({ reportId: report.id });
+  } catch (error) {
+    if (error instanceof ModerationError) {
+      return createErrorResponse('BAD_REQUEST', error.message);
+    }
+    console.error('Error filing report:', error);
+    return createErrorResponse('INTERNAL_ERROR', 'Failed to send report');
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../../auth-helper';
+import { SavedSearchService } from '../../../services/savedSearchService';
+
+/**
+ * PATCH /api/saved-searches/[id]
+ * Turn new-match notifications or weekly digest inclusion on or off
+ * Body: { notify?: boolean, includeInDigest?: boolean }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { notify, includeInDigest } = await request.json();
+    if ((notify !== undefined && typeof notify !== 'boolean') ||
+        (includeInDigest !== undefined && typeof includeInDigest !== 'boolean')) {
+      return NextResponse.json({ error: 'notify and includeInDigest must be true or false' }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const search = await SavedSearchService.updateSearch(userId, id, { notify, includeInDigest });
+    if (!search) {
+      return NextResponse.json({ error: 'Saved search not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ search });
+  } catch (error) {
+    console.error('Error updating saved search:', error);
+    return NextResponse.json({ error: 'Failed to update saved search' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/saved-searches/[id]
+ * Delete a saved search
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const deleted = await SavedSearchService.deleteSearch(userId, id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Saved search not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting saved search:', error);
+    return NextResponse.json({ error: 'Failed to delete saved search' }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../auth-helper';
+import { SavedSearchService, SavedSearchError } from '../../services/savedSearchService';
+import { getSavedSearchQueryError } from '../../utils/savedSearchMatches';
+
+/**
+ * GET /api/saved-searches
+ * List the user's saved searches
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const searches = await SavedSearchService.getSearches(userId);
+    return NextResponse.json({ searches });
+  } catch (error) {
+    console.error('Error listing saved searches:', error);
+    return NextResponse.json({ error: 'Failed to list saved searches' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/saved-searches
+ * Save a search query, in the same syntax as /api/search-unified
+ * Body: { query, notify?: boolean, includeInDigest?: boolean }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { query, notify, includeInDigest } = await request.json();
+
+    const queryError = typeof query === 'string' ? getSavedSearchQueryError(query) : 'Search query is required';
+    if (queryError) {
+      return NextResponse.json({ error: queryError }, { status: 400 });
+    }
+    if ((notify !== undefined && typeof notify !== 'boolean') ||
+        (includeInDigest !== undefined && typeof includeInDigest !== 'boolean')) {
+      return NextResponse.json({ error: 'notify and includeInDigest must be true or false' }, { status: 400 });
+    }
+
+    const search = await SavedSearchService.createSearch(userId, { query, notify, includeInDigest });
+    return NextResponse.json({ search });
+  } catch (error) {
+    if (error instanceof SavedSearchError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error saving search:', error);
+    return NextResponse.json({ error: 'Failed to save search' }, { status: 500 });
+  }
+}
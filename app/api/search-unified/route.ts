@@ -6,9 +6,21 @@ import { searchPerformanceTracker } from '../../utils/searchPerformanceTracker';
 import { trackFirebaseRead } from '../../utils/costMonitor';
 import {
   searchPages as typesenseSearchPages,
+  searchPagesHybrid,
   searchUsers as typesenseSearchUsers,
   isTypesenseConfigured,
 } from '../../lib/typesense';
+import {
+  parseSearchQuery,
+  isAdvancedSearchQuery,
+  getSearchText,
+  compileTypesenseQuery,
+  compileTypesenseFilter,
+  pageMatchesSearchQuery,
+  type ParsedSearchQuery,
+} from '../../utils/searchQueryParser';
+import { resolveSearchQueryFilters, toSearchablePage } from '../../services/searchQueryResolver';
+import { getUserIdFromRequest } from '../auth-helper';
 
 // Add export for dynamic route handling
 export const dynamic = 'force-dynamic';
@@ -37,6 +49,8 @@ interface SearchResult {
   cached?: boolean;
   cacheAge?: number;
   timestamp?: number;
+  /** Problems with search operators, e.g. an invalid date */
+  queryErrors?: string[];
 }
 
 interface SearchPerformance {
@@ -84,6 +98,7 @@ interface SearchOptions {
   titleOnly?: boolean;
   filterByUserId?: string | null;
   currentPageId?: string | null;
+  parsedQuery?: ParsedSearchQuery | null;
 }
 
 interface SearchEngineOptions {
@@ -92,6 +107,7 @@ interface SearchEngineOptions {
   filterByUserId?: string | null;
   currentPageId?: string | null;
   context?: string;
+  parsedQuery?: ParsedSearchQuery | null;
 }
 
 // OPTIMIZATION: Enhanced caching system to reduce database reads
@@ -289,9 +305,18 @@ async function searchPagesComprehensive(
       includeContent = true,
       titleOnly = false,
       filterByUserId = null,
-      currentPageId = null
+      currentPageId = null,
+      parsedQuery = null
     } = options;
 
+    // Operators are checked page by page; only the free text drives the queries
+    if (parsedQuery) {
+      searchTerm = getSearchText(parsedQuery);
+    }
+    const hasQueryOperators = !!parsedQuery && isAdvancedSearchQuery(parsedQuery);
+    const passesQuery = (id: string, data: DocumentData): boolean =>
+      !parsedQuery || pageMatchesSearchQuery(toSearchablePage(id, data), parsedQuery);
+
     const contextDefaults = CONTEXT_DEFAULTS[context as SearchContext] || CONTEXT_DEFAULTS[SEARCH_CONTEXTS.MAIN];
     const finalMaxResults = maxResults || contextDefaults.maxResults;
     const finalIncludeContent = includeContent !== undefined ? includeContent : contextDefaults.includeContent;
@@ -376,6 +401,8 @@ async function searchPagesComprehensive(
 
           if (!data.title && !data.content) return;
           if (data.deleted === true) return;
+          if (data.moderationHidden === true && data.userId !== userId) return;
+          if (!passesQuery(docSnap.id, data)) return;
 
           const pageTitle = data.title || 'Untitled';
 
@@ -432,7 +459,7 @@ async function searchPagesComprehensive(
     // Comprehensive client-side search for substring matches
     // OPTIMIZED: Reduced from 1500 to 300 docs to prevent timeouts
     // This is a Firestore fallback - primary search uses Typesense
-    if (!isEmptySearch && allResults.length < finalMaxResults) {
+    if ((!isEmptySearch || hasQueryOperators) && allResults.length < finalMaxResults) {
       try {
         // Reduced limit from 1500 to 300 to prevent Vercel function timeouts
         const broadQueryLimit = Math.min(300, finalMaxResults * 3);
@@ -453,12 +480,15 @@ async function searchPagesComprehensive(
 
           const data = docSnap.data();
           if (data.deleted === true) continue;
+          if (data.moderationHidden === true && data.userId !== userId) continue;
+          if (!passesQuery(docSnap.id, data)) continue;
 
           const pageTitle = data.title || '';
           const titleLower = pageTitle.toLowerCase();
           const searchWords = searchTermLower.split(/\s+/).filter((word: string) => word.length > 1);
 
-          let hasMatch = false;
+          // A query of operators alone matches every page that passes them
+          let hasMatch = isEmptySearch;
 
           if (titleLower.includes(searchTermLower)) {
             hasMatch = true;
@@ -478,7 +508,7 @@ async function searchPagesComprehensive(
           }
 
           if (hasMatch) {
-            const matchScore = calculateSearchScore(pageTitle, searchTerm, true);
+            const matchScore = isEmptySearch ? 50 : calculateSearchScore(pageTitle, searchTerm, true);
 
             if (matchScore > 0) {
               processedIds.add(docSnap.id);
@@ -599,23 +629,59 @@ async function searchWithTypesense(
     includeUsers = true,
     filterByUserId = null,
     currentPageId = null,
-    context = SEARCH_CONTEXTS.MAIN
+    context = SEARCH_CONTEXTS.MAIN,
+    parsedQuery = null
   } = options;
 
   try {
     // Build Typesense filter
-    let filterBy = '';
+    const filterClauses: string[] = [];
     if (filterByUserId) {
-      filterBy = `authorId:=${filterByUserId}`;
+      filterClauses.push(`authorId:=${filterByUserId}`);
+    }
+
+    // Phrases and -exclusions go in q; operators become filter_by clauses
+    let pageQuery = searchTerm;
+    let freeText = searchTerm;
+    let matchesNothing = false;
+    if (parsedQuery) {
+      const compiledFilter = compileTypesenseFilter(parsedQuery);
+      if (compiledFilter.filterBy) filterClauses.push(compiledFilter.filterBy);
+      matchesNothing = compiledFilter.matchesNothing;
+      pageQuery = compileTypesenseQuery(parsedQuery) || '*';
+      freeText = getSearchText(parsedQuery);
     }
 
+    const pageSearchOptions = {
+      perPage: Math.min(maxResults, 100),
+      filterBy: filterClauses.join(' && ') || undefined,
+      includeFields: ['id', 'title', 'authorId', 'authorUsername', 'isPublic', 'lastModified', 'alternativeTitles'],
+    };
+
+    // Hybrid keyword + semantic ranking, so pages about the searched idea surface
+    // even when they use different words. Keyword-only if the query is nothing
+    // but operators or the collection has no embedding field yet.
+    const searchPagesForTerm = async () => {
+      if (matchesNothing) {
+        return { hits: [], found: 0 };
+      }
+      if (!freeText.trim()) {
+        return typesenseSearchPages(pageQuery, pageSearchOptions);
+      }
+      try {
+        return await searchPagesHybrid(pageQuery, { ...pageSearchOptions, alpha: 0.3 });
+      } catch (error) {
+        console.warn('[Search] Hybrid search unavailable, using keywords only:', error);
+        return typesenseSearchPages(pageQuery, pageSearchOptions);
+      }
+    };
+
+    // Operators only narrow pages; users are matched on the free text alone
+    const searchUsersForTerm = includeUsers && freeText;
+
     const [pagesResponse, usersResponse] = await Promise.all([
-      typesenseSearchPages(searchTerm, {
-        perPage: Math.min(maxResults, 100),
-        filterBy: filterBy || undefined,
-        includeFields: ['id', 'title', 'authorId', 'authorUsername', 'isPublic', 'lastModified', 'alternativeTitles'],
-      }),
-      includeUsers ? typesenseSearchUsers(searchTerm, {
+      searchPagesForTerm(),
+      searchUsersForTerm ? typesenseSearchUsers(freeText, {
         perPage: 10,
         includeFields: ['id', 'username', 'displayName', 'photoURL'],
       }) : Promise.resolve({ hits: [], found: 0 })
@@ -751,6 +817,14 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     let users: UserSearchResult[] = [];
     let searchSource = 'firestore';
 
+    // Quoted phrases, -exclusions and operators like author: (see utils/searchQueryParser).
+    // author:me and linkedfrom: depend on who is searching, so use the signed-in
+    // user rather than the userId parameter.
+    const initialQuery = parseSearchQuery(searchTerm);
+    const parsedQuery = isAdvancedSearchQuery(initialQuery)
+      ? await resolveSearchQueryFilters(initialQuery, await getUserIdFromRequest(request))
+      : null;
+
     // Try Typesense first if enabled
     let typesenseError: string | null = null;
     if (USE_TYPESENSE && isTypesenseConfigured()) {
@@ -761,7 +835,8 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
           includeUsers,
           filterByUserId,
           currentPageId,
-          context
+          context,
+          parsedQuery
         });
         pages = typesenseResults.pages;
         users = typesenseResults.users;
@@ -787,9 +862,12 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
           includeContent,
           titleOnly,
           filterByUserId,
-          currentPageId
+          currentPageId,
+          parsedQuery
         }),
-        includeUsers ? searchUsersComprehensive(searchTerm, 10) : Promise.resolve([])
+        includeUsers && (!parsedQuery || getSearchText(parsedQuery))
+          ? searchUsersComprehensive(parsedQuery ? getSearchText(parsedQuery) : searchTerm, 10)
+          : Promise.resolve([])
       ]);
       pages = firestorePages;
       users = firestoreUsers;
@@ -864,7 +942,8 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         maxResults: maxResults || 'unlimited',
         searchEngine: searchSource,
         typesenseError: typesenseError || undefined
-      }
+      },
+      ...(initialQuery.errors.length > 0 && { queryErrors: initialQuery.errors })
     };
 
     const isEmptySearch = !searchTerm || searchTerm.trim().length === 0;
@@ -4,10 +4,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createApiResponse, createErrorResponse } from '../auth-helper';
+import { createApiResponse, createErrorResponse, getUserIdFromRequest } from '../auth-helper';
 import { getFirebaseAdmin } from '../../firebase/firebaseAdmin';
 import { getCollectionName } from '../../utils/environmentConfig';
 import { getBatchPageViewData } from '../../services/pageViewService';
+import { UserBlockService } from '../../services/userBlockService';
 import type { Page } from '../../types/database';
 
 export const dynamic = 'force-dynamic';
@@ -49,7 +50,10 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       .where('isPublic', '==', true)
       .limit(limitCount * 5); // Get more to filter and sort by actual views
 
-    const pagesSnapshot = await pagesQuery.get();
+    const [pagesSnapshot, hiddenAuthorIds] = await Promise.all([
+      pagesQuery.get(),
+      getUserIdFromRequest(request).then(viewerId => UserBlockService.getHiddenAuthorIds(viewerId))
+    ]);
 
     if (pagesSnapshot.empty) {
       return createApiResponse({
@@ -91,6 +95,12 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         return;
       }
 
+      // Skip pages by authors the viewer has blocked or muted
+      if (pageData.userId && hiddenAuthorIds.has(pageData.userId)) {
+        filteredCount++;
+        return;
+      }
+
       trendingPages.push({
         id: doc.id,
         title: pageData.title,
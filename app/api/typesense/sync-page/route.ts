@@ -13,6 +13,7 @@ import {
   TypesensePageDocument,
   isTypesenseAdminConfigured,
 } from '../../../lib/typesense';
+import { getPageQueryFilterFields } from '../../../lib/typesenseSync';
 
 // Force dynamic to prevent caching
 export const dynamic = 'force-dynamic';
@@ -59,7 +60,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { pageId, title, content, authorId, authorUsername, isPublic, alternativeTitles, lastModified, createdAt, deleted } = body;
+    const { pageId, title, content, authorId, authorUsername, isPublic, alternativeTitles, lastModified, createdAt, deleted, isReply, replyTo, location } = body;
 
     if (!pageId) {
       return NextResponse.json(
@@ -112,6 +113,7 @@ export async function POST(request: NextRequest) {
       createdAt: createdAtUnix,
       lastModified: lastModifiedUnix,
       alternativeTitles: alternativeTitles || [],
+      ...getPageQueryFilterFields(content, { isReply, replyTo, location }),
     };
 
     // Upsert to Typesense (creates or updates)
@@ -21,6 +21,7 @@ import {
   getCollectionStats,
   isTypesenseAdminConfigured,
 } from '../../../lib/typesense';
+import { getPageQueryFilterFields } from '../../../lib/typesenseSync';
 import { getAdminFirestore } from '../../../firebase/firebaseAdmin';
 import { getCollectionName, getEnvironmentType } from '../../../utils/environmentConfig';
 
@@ -107,17 +108,20 @@ async function syncPages(db: FirebaseFirestore.Firestore, batchSize: number = 10
         // Skip deleted pages and pages without title
         if (data.deleted || !data.title) continue;
 
+        const textContent = extractTextFromContent(data.content);
         const document: TypesensePageDocument = {
           id: doc.id,
           title: data.title,
           titleLower: data.title.toLowerCase(),
-          content: extractTextFromContent(data.content)?.substring(0, 10000), // Limit content size
+          content: textContent?.substring(0, 10000), // Limit content size
           authorId: data.userId || data.authorId || '',
           authorUsername: data.authorUsername || '',
           isPublic: data.isPublic ?? true,
           createdAt: toUnixTimestamp(data.createdAt),
           lastModified: toUnixTimestamp(data.lastModified),
           alternativeTitles: data.alternativeTitles || [],
+          ...(data.groupId && { groupId: data.groupId }),
+          ...getPageQueryFilterFields(data.content, data),
         };
 
         documents.push(document);
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../../auth-helper';
+import { CarryOverService, CARRY_OVER_RULES } from '../../../services/carryOverService';
+import type { CarryOverRule } from '../../../types/allocation';
+
+/**
+ * GET /api/usd/carry-over
+ * Get the user's carry-over rule for unallocated funds
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const rule = await CarryOverService.getRule(userId);
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error('Error getting carry-over rule:', error);
+    return NextResponse.json({ error: 'Failed to get carry-over rule' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/usd/carry-over
+ * Set what happens to unallocated funds at month end
+ * Body: { rule: 'none' | 'most_read_writers' | 'pages_viewed' }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { rule } = await request.json();
+    if (!CARRY_OVER_RULES.includes(rule)) {
+      return NextResponse.json({ error: 'Invalid carry-over rule' }, { status: 400 });
+    }
+
+    await CarryOverService.setRule(userId, rule as CarryOverRule);
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error('Error setting carry-over rule:', error);
+    return NextResponse.json({ error: 'Failed to set carry-over rule' }, { status: 500 });
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest } from 'next/server';
+import { getUserIdFromRequest, createApiResponse, createErrorResponse } from '../auth-helper';
+import { getFirebaseAdmin } from '../../firebase/firebaseAdmin';
+import { getCollectionName } from '../../utils/environmentConfig';
+import { UserBlockService, UserBlockError } from '../../services/userBlockService';
+import type { UserBlockAction } from '../../types/database';
+
+/**
+ * User Blocks API Route
+ *
+ * GET: The current user's blocked and muted users
+ * POST: Block or mute a user
+ * DELETE: Unblock or unmute a user
+ */
+
+/**
+ * Usernames for a list of user ids, for showing the lists in settings
+ */
+async function withUsernames(userIds: string[]): Promise<Array<{ id: string; username: string }>> {
+  if (userIds.length === 0) return [];
+
+  const db = getFirebaseAdmin().firestore();
+  const docs = await db.getAll(...userIds.map(id => db.collection(getCollectionName('users')).doc(id)));
+  return docs.map(doc => ({
+    id: doc.id,
+    username: doc.data()?.username || `user_${doc.id.slice(0, 8)}`
+  }));
+}
+
+// GET /api/user-blocks
+export async function GET(request: NextRequest) {
+  try {
+    const currentUserId = await getUserIdFromRequest(request);
+    if (!currentUserId) {
+      return createErrorResponse('UNAUTHORIZED');
+    }
+
+    const list = await UserBlockService.getBlockList(currentUserId);
+    const [blocked, muted] = await Promise.all([
+      withUsernames(list.blocked),
+      withUsernames(list.muted)
+    ]);
+
+    return createApiResponse({ blocked, muted });
+  } catch (error) {
+    console.error('Error loading block list:', error);
+    return createErrorResponse('INTERNAL_ERROR', 'Failed to load blocked users');
+  }
+}
+
+// POST /api/user-blocks
+// Body: { userId, action: 'block' | 'mute' }
+export async function POST(request: NextRequest) {
+  try {
+    const currentUserId = await getUserIdFromRequest(request);
+    if (!currentUserId) {
+      return createErrorResponse('UNAUTHORIZED');
+    }
+
+    const { userId: targetUserId, action } = await request.json();
+    if (!targetUserId || typeof targetUserId !== 'string') {
+      return createErrorResponse('BAD_REQUEST', 'Target user ID is required');
+    }
+    if (action !== 'block' && action !== 'mute') {
+      return createErrorResponse('BAD_REQUEST', 'Action must be "block" or "mute"');
+    }
+
+    const db = getFirebaseAdmin().firestore();
+    const targetUserDoc = await db.collection(getCollectionName('users')).doc(targetUserId).get();
+    if (!targetUserDoc.exists) {
+      return createErrorResponse('NOT_FOUND', 'User not found');
+    }
+
+    const list = await UserBlockService.applyAction(currentUserId, targetUserId, action as UserBlockAction);
+    return createApiResponse({ ...list, targetUserId });
+  } catch (error) {
+    if (error instanceof UserBlockError) {
+      return createErrorResponse('BAD_REQUEST', error.message);
+    }
+    console.error('Error blocking user:', error);
+    return createErrorResponse('INTERNAL_ERROR', 'Failed to update blocked users');
+  }
+}
+
+// DELETE /api/user-blocks?userId=xxx&action=block|mute
+export async function DELETE(request: NextRequest) {
+  try {
+    const currentUserId = await getUserIdFromRequest(request);
+    if (!currentUserId) {
+      return createErrorResponse('UNAUTHORIZED');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const targetUserId = searchParams.get('userId');
+    const action = searchParams.get('action');
+    if (!targetUserId) {
+      return createErrorResponse('BAD_REQUEST', 'Target user ID is required');
+    }
+    if (action !== 'block' && action !== 'mute') {
+      return createErrorResponse('BAD_REQUEST', 'Action must be "block" or "mute"');
+    }
+
+    const list = await UserBlockService.applyAction(currentUserId, targetUserId, action === 'block' ? 'unblock' : 'unmute');
+    return createApiResponse({ ...list, targetUserId });
+  } catch (error) {
+    if (error instanceof UserBlockError) {
+      return createErrorResponse('BAD_REQUEST', error.message);
+    }
+    console.error('Error unblocking user:', error);
+    return createErrorResponse('INTERNAL_ERROR', 'Failed to update blocked users');
+  }
+}
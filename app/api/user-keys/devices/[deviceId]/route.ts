@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { getUserIdFromRequest, createApiResponse, createErrorResponse } from '../../../auth-helper';
+import { getFirebaseAdmin } from '../../../../firebase/firebaseAdmin';
+import { getCollectionName } from '../../../../utils/environmentConfig';
+
+/**
+ * DELETE /api/user-keys/devices/[deviceId] - Revoke an enrolled device
+ * Removes the device's wrapped copy of the private key, so its passcode no
+ * longer unlocks anything. The account passcode still works everywhere.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ deviceId: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) return createErrorResponse('UNAUTHORIZED');
+
+    const admin = getFirebaseAdmin();
+    if (!admin) return createErrorResponse('INTERNAL_ERROR');
+    const db = admin.firestore();
+
+    const { deviceId } = await params;
+    const docRef = db.collection(getCollectionName('userKeys')).doc(userId);
+    const docSnap = await docRef.get();
+    if (!docSnap.data()?.devices?.[deviceId]) {
+      return createErrorResponse('NOT_FOUND', 'Device is not enrolled');
+    }
+
+    const { FieldValue } = await import('firebase-admin/firestore');
+    await docRef.update({ [`devices.${deviceId}`]: FieldValue.delete() });
+
+    return createApiResponse({ revoked: true });
+  } catch (error) {
+    console.error('[API] DELETE /api/user-keys/devices/[deviceId] error:', error);
+    return createErrorResponse('INTERNAL_ERROR');
+  }
+}
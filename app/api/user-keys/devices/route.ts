@@ -0,0 +1,93 @@
+import { NextRequest } from 'next/server';
+import { getUserIdFromRequest, createApiResponse, createErrorResponse } from '../../auth-helper';
+import { getFirebaseAdmin } from '../../../firebase/firebaseAdmin';
+import { getCollectionName } from '../../../utils/environmentConfig';
+import { normalizePairingCode } from '../../../lib/crypto/devicePairing';
+import type { EnrolledDevice } from '../../../lib/crypto/types';
+
+/**
+ * GET /api/user-keys/devices - List enrolled devices (without their wrapped keys)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) return createErrorResponse('UNAUTHORIZED');
+
+    const admin = getFirebaseAdmin();
+    if (!admin) return createErrorResponse('INTERNAL_ERROR');
+    const db = admin.firestore();
+
+    const docSnap = await db.collection(getCollectionName('userKeys')).doc(userId).get();
+    const devices: Record<string, EnrolledDevice> = docSnap.data()?.devices || {};
+
+    return createApiResponse({
+      devices: Object.values(devices)
+        .map(({ encryptedPrivateKey, ...device }) => device)
+        .sort((a, b) => b.enrolledAt.localeCompare(a.enrolledAt)),
+    });
+  } catch (error) {
+    console.error('[API] GET /api/user-keys/devices error:', error);
+    return createErrorResponse('INTERNAL_ERROR');
+  }
+}
+
+/**
+ * POST /api/user-keys/devices - Enroll this device after its pairing was approved
+ * Body: { deviceId, name, encryptedPrivateKey, pairingCode }
+ * The pairing request is consumed, so each approval enrolls exactly one device.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) return createErrorResponse('UNAUTHORIZED');
+
+    const admin = getFirebaseAdmin();
+    if (!admin) return createErrorResponse('INTERNAL_ERROR');
+    const db = admin.firestore();
+
+    const { deviceId, name, encryptedPrivateKey, pairingCode } = await request.json();
+    if (
+      typeof deviceId !== 'string' || !/^[0-9a-f]{32}$/.test(deviceId) ||
+      typeof pairingCode !== 'string' ||
+      !encryptedPrivateKey?.ciphertext || !encryptedPrivateKey?.iv || !encryptedPrivateKey?.salt
+    ) {
+      return createErrorResponse('BAD_REQUEST', 'deviceId, encryptedPrivateKey and pairingCode are required');
+    }
+
+    const keysRef = db.collection(getCollectionName('userKeys')).doc(userId);
+    const pairingRef = keysRef.collection('pairings').doc(normalizePairingCode(pairingCode));
+
+    const result = await db.runTransaction(async (transaction) => {
+      const [keysDoc, pairingDoc] = await Promise.all([
+        transaction.get(keysRef),
+        transaction.get(pairingRef),
+      ]);
+      const pairing = pairingDoc.data();
+
+      if (!keysDoc.exists) {
+        return { error: createErrorResponse('NOT_FOUND', 'No encryption keys found') };
+      }
+      if (!pairing || pairing.status !== 'approved' || pairing.expiresAt <= new Date().toISOString()) {
+        return { error: createErrorResponse('FORBIDDEN', 'This device has not been approved') };
+      }
+
+      const device: EnrolledDevice = {
+        deviceId,
+        name: typeof name === 'string' && name.trim() ? name.trim().slice(0, 60) : pairing.deviceName,
+        encryptedPrivateKey,
+        ...(pairing.approvedBy && { approvedBy: pairing.approvedBy }),
+        enrolledAt: new Date().toISOString(),
+      };
+      transaction.update(keysRef, { [`devices.${deviceId}`]: device });
+      transaction.delete(pairingRef);
+      return { device };
+    });
+
+    if ('error' in result) return result.error;
+    const { encryptedPrivateKey: _wrapped, ...device } = result.device;
+    return createApiResponse({ device });
+  } catch (error) {
+    console.error('[API] POST /api/user-keys/devices error:', error);
+    return createErrorResponse('INTERNAL_ERROR');
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest } from 'next/server';
+import { getUserIdFromRequest, createApiResponse, createErrorResponse } from '../../../auth-helper';
+import { getFirebaseAdmin } from '../../../../firebase/firebaseAdmin';
+import { getCollectionName } from '../../../../utils/environmentConfig';
+import { normalizePairingCode } from '../../../../lib/crypto/devicePairing';
+import type { DevicePairingRequest } from '../../../../lib/crypto/types';
+
+async function loadPairing(request: NextRequest, params: Promise<{ code: string }>) {
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) return { error: createErrorResponse('UNAUTHORIZED') };
+
+  const admin = getFirebaseAdmin();
+  if (!admin) return { error: createErrorResponse('INTERNAL_ERROR') };
+  const db = admin.firestore();
+
+  const { code } = await params;
+  const pairingRef = db
+    .collection(getCollectionName('userKeys'))
+    .doc(userId)
+    .collection('pairings')
+    .doc(normalizePairingCode(code));
+  const pairingDoc = await pairingRef.get();
+  const pairing = pairingDoc.data() as DevicePairingRequest | undefined;
+
+  if (!pairingDoc.exists || !pairing || pairing.expiresAt <= new Date().toISOString()) {
+    return { error: createErrorResponse('NOT_FOUND', 'Pairing request not found or expired') };
+  }
+
+  return { pairingRef, pairing };
+}
+
+/**
+ * GET /api/user-keys/pairing/[code] - Read a pairing request
+ * The approving device reads the new device's public key; the new device
+ * polls until the request is approved.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const loaded = await loadPairing(request, params);
+    if ('error' in loaded) return loaded.error;
+
+    return createApiResponse({ pairing: loaded.pairing });
+  } catch (error) {
+    console.error('[API] GET /api/user-keys/pairing/[code] error:', error);
+    return createErrorResponse('INTERNAL_ERROR');
+  }
+}
+
+/**
+ * PUT /api/user-keys/pairing/[code] - Approve a pairing request
+ * Body: { approverPublicKey, encryptedPrivateKey, approvedBy? }
+ * Called by an unlocked device with the private key encrypted for the new device.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const loaded = await loadPairing(request, params);
+    if ('error' in loaded) return loaded.error;
+    const { pairingRef, pairing } = loaded;
+
+    if (pairing.status !== 'pending') {
+      return createErrorResponse('CONFLICT', 'Pairing request was already approved');
+    }
+
+    const { approverPublicKey, encryptedPrivateKey, approvedBy } = await request.json();
+    if (!approverPublicKey?.x || !encryptedPrivateKey?.ciphertext || !encryptedPrivateKey?.iv) {
+      return createErrorResponse('BAD_REQUEST', 'approverPublicKey and encryptedPrivateKey are required');
+    }
+
+    await pairingRef.update({
+      status: 'approved',
+      approverPublicKey,
+      encryptedPrivateKey,
+      ...(typeof approvedBy === 'string' && { approvedBy }),
+    });
+
+    return createApiResponse({ approved: true });
+  } catch (error) {
+    console.error('[API] PUT /api/user-keys/pairing/[code] error:', error);
+    return createErrorResponse('INTERNAL_ERROR');
+  }
+}
+
+/**
+ * DELETE /api/user-keys/pairing/[code] - Cancel a pairing request
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const loaded = await loadPairing(request, params);
+    if ('error' in loaded) return loaded.error;
+
+    await loaded.pairingRef.delete();
+    return createApiResponse({ deleted: true });
+  } catch (error) {
+    console.error('[API] DELETE /api/user-keys/pairing/[code] error:', error);
+    return createErrorResponse('INTERNAL_ERROR');
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server';
+import { getUserIdFromRequest, createApiResponse, createErrorResponse } from '../../auth-helper';
+import { getFirebaseAdmin } from '../../../firebase/firebaseAdmin';
+import { getCollectionName } from '../../../utils/environmentConfig';
+import { PAIRING_TTL_MS, PAIRING_CODE_LENGTH } from '../../../lib/crypto/devicePairing';
+import type { DevicePairingRequest } from '../../../lib/crypto/types';
+
+const CODE_PATTERN = new RegExp(`^[0-9A-HJKMNP-TV-Z]{${PAIRING_CODE_LENGTH}}$`);
+
+/**
+ * POST /api/user-keys/pairing - Ask to add this device
+ * Body: { code, devicePublicKey, deviceName }
+ * Called by the new device. The request waits in userKeys/{userId}/pairings/{code}
+ * until one of the user's unlocked devices approves it, or it expires.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) return createErrorResponse('UNAUTHORIZED');
+
+    const admin = getFirebaseAdmin();
+    if (!admin) return createErrorResponse('INTERNAL_ERROR');
+    const db = admin.firestore();
+
+    const { code, devicePublicKey, deviceName } = await request.json();
+    if (typeof code !== 'string' || !CODE_PATTERN.test(code) || !devicePublicKey?.x || !devicePublicKey?.y) {
+      return createErrorResponse('BAD_REQUEST', 'code and devicePublicKey are required');
+    }
+
+    const keysRef = db.collection(getCollectionName('userKeys')).doc(userId);
+    const keysDoc = await keysRef.get();
+    if (!keysDoc.exists) {
+      return createErrorResponse('BAD_REQUEST', 'Set up encryption before adding devices');
+    }
+
+    const pairingRef = keysRef.collection('pairings').doc(code);
+    const existing = await pairingRef.get();
+    if (existing.exists && existing.data()?.expiresAt > new Date().toISOString()) {
+      return createErrorResponse('CONFLICT', 'A pairing request with this code is already pending');
+    }
+
+    const now = Date.now();
+    const pairing: DevicePairingRequest = {
+      code,
+      deviceName: typeof deviceName === 'string' && deviceName.trim() ? deviceName.trim().slice(0, 60) : 'New device',
+      devicePublicKey,
+      status: 'pending',
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + PAIRING_TTL_MS).toISOString(),
+    };
+    await pairingRef.set(pairing);
+
+    return createApiResponse({ code, expiresAt: pairing.expiresAt });
+  } catch (error) {
+    console.error('[API] POST /api/user-keys/pairing error:', error);
+    return createErrorResponse('INTERNAL_ERROR');
+  }
+}
@@ -70,3 +70,45 @@ export async function GET(request: NextRequest) {
     return createErrorResponse('INTERNAL_ERROR');
   }
 }
+
+/**
+ * PUT /api/user-keys - Replace the passcode-wrapped private key (passcode change)
+ * Body: { encryptedPrivateKey, deviceId? }
+ * The key pair stays the same; only its wrapping changes. With a deviceId the
+ * enrolled device's copy is replaced instead of the account copy.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) return createErrorResponse('UNAUTHORIZED');
+
+    const admin = getFirebaseAdmin();
+    if (!admin) return createErrorResponse('INTERNAL_ERROR');
+    const db = admin.firestore();
+
+    const { encryptedPrivateKey, deviceId } = await request.json();
+    if (!encryptedPrivateKey?.ciphertext || !encryptedPrivateKey?.iv || !encryptedPrivateKey?.salt) {
+      return createErrorResponse('BAD_REQUEST', 'encryptedPrivateKey is required');
+    }
+
+    const docRef = db.collection(getCollectionName('userKeys')).doc(userId);
+    const docSnap = await docRef.get();
+    if (!docSnap.exists) {
+      return createErrorResponse('NOT_FOUND', 'No encryption keys found');
+    }
+
+    if (deviceId) {
+      if (!docSnap.data()?.devices?.[deviceId]) {
+        return createErrorResponse('NOT_FOUND', 'Device is not enrolled');
+      }
+      await docRef.update({ [`devices.${deviceId}.encryptedPrivateKey`]: encryptedPrivateKey });
+    } else {
+      await docRef.update({ encryptedPrivateKey });
+    }
+
+    return createApiResponse({ updated: true });
+  } catch (error) {
+    console.error('[API] PUT /api/user-keys error:', error);
+    return createErrorResponse('INTERNAL_ERROR');
+  }
+}
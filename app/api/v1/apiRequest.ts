@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiTokenError, ApiTokenService } from '../../services/apiTokenService';
+import { PublicApiError } from '../../services/publicApiService';
+import { apiTokenRateLimiter } from '../../utils/rateLimiter';
+import { hasApiTokenScope, isApiToken } from '../../utils/apiTokens';
+import type { ApiToken, ApiTokenScope } from '../../types/database';
+
+export type ApiErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'insufficient_scope'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'internal_error';
+
+const ERROR_CODES_BY_STATUS: Record<number, ApiErrorCode> = {
+  400: 'invalid_request',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  429: 'rate_limited',
+};
+
+/**
+ * The /api/v1 error body: `{ error: { code, message } }`
+ */
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  headers: Record<string, string> = {},
+  details: Record<string, unknown> = {}
+): NextResponse {
+  return NextResponse.json({ error: { code, message, ...details } }, { status, headers });
+}
+
+function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  if (!header?.startsWith('Bearer ')) return null;
+  return header.substring(7).trim() || null;
+}
+
+/**
+ * Authenticate a personal API token, check it has `scope` and is within its
+ * rate limit, then run the handler as the token's owner. Every response,
+ * errors included, carries the X-RateLimit-* headers once the token is
+ * known. A PublicApiError from the handler becomes a 400.
+ */
+export async function withApiToken(
+  request: NextRequest,
+  scope: ApiTokenScope,
+  handler: (token: ApiToken) => Promise<NextResponse>
+): Promise<NextResponse> {
+  const secret = getBearerToken(request);
+  if (!secret || !isApiToken(secret)) {
+    return apiError(401, 'unauthorized', 'Send a personal API token as Authorization: Bearer wwpat_...', {
+      'WWW-Authenticate': 'Bearer'
+    });
+  }
+
+  let token: ApiToken;
+  try {
+    token = await ApiTokenService.authenticate(secret);
+  } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return apiError(401, 'unauthorized', error.message, { 'WWW-Authenticate': 'Bearer error="invalid_token"' });
+    }
+    console.error('[API v1] Token lookup failed:', error);
+    return apiError(500, 'internal_error', 'Internal server error');
+  }
+
+  const limit = await apiTokenRateLimiter.checkLimit(token.id, token.rateLimit);
+  const rateLimitHeaders = {
+    'X-RateLimit-Limit': String(token.rateLimit),
+    'X-RateLimit-Remaining': String(limit.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(limit.resetTime / 1000)),
+  };
+  if (!limit.allowed) {
+    return apiError(429, 'rate_limited', `This token is limited to ${token.rateLimit} requests per minute`, {
+      ...rateLimitHeaders,
+      'Retry-After': String(Math.max(1, Math.ceil((limit.resetTime - Date.now()) / 1000)))
+    });
+  }
+
+  if (!hasApiTokenScope(token, scope)) {
+    return apiError(403, 'insufficient_scope', `This token needs the ${scope} scope`, {
+      ...rateLimitHeaders,
+      'WWW-Authenticate': `Bearer error="insufficient_scope", scope="${scope}"`
+    });
+  }
+
+  let response: NextResponse;
+  try {
+    response = await handler(token);
+  } catch (error) {
+    if (error instanceof PublicApiError) {
+      response = apiError(400, 'invalid_request', error.message);
+    } else {
+      console.error(`[API v1] ${request.method} ${request.nextUrl.pathname} failed:`, error);
+      response = apiError(500, 'internal_error', 'Internal server error');
+    }
+  }
+
+  for (const [name, value] of Object.entries(rateLimitHeaders)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+/**
+ * Run one of the app's own route handlers for a write, so API edits save
+ * versions, update links and search and send webhooks exactly like the
+ * editor does. The handler authenticates the same bearer token; cookies are
+ * dropped so a signed-in browser session can never stand in for it.
+ */
+export async function callAppRoute(
+  request: NextRequest,
+  handler: (request: NextRequest) => Promise<Response>,
+  method: 'POST' | 'PUT',
+  body: Record<string, unknown>
+): Promise<{ status: number; data: any; error: string | null }> {
+  const headers = new Headers(request.headers);
+  headers.delete('cookie');
+  headers.set('content-type', 'application/json');
+
+  const response = await handler(new NextRequest(request.url, { method, headers, body: JSON.stringify(body) }));
+  const json = await response.json().catch(() => ({}));
+  return { status: response.status, data: json.data ?? null, error: json.error ?? null };
+}
+
+/**
+ * The /api/v1 error for a failed callAppRoute
+ */
+export function apiErrorFromAppRoute(result: { status: number; error: string | null }): NextResponse {
+  const code = ERROR_CODES_BY_STATUS[result.status] || 'internal_error';
+  return apiError(code === 'internal_error' ? 500 : result.status, code, result.error || 'Internal server error');
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiSpec } from '../../../utils/publicApiSpec';
+import { EXPORT_BASE_URL } from '../../../utils/markdownExport';
+
+/**
+ * GET /api/v1/openapi.json
+ * The OpenAPI description of the v1 REST API. Public, so API clients and
+ * documentation tools can fetch it directly.
+ */
+export async function GET() {
+  return NextResponse.json(buildOpenApiSpec(process.env.NEXT_PUBLIC_BASE_URL || EXPORT_BASE_URL), {
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Cache-Control': 'public, max-age=3600',
+    },
+  });
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicApiService } from '../../../../../services/publicApiService';
+import { apiError, withApiToken } from '../../../apiRequest';
+
+/**
+ * GET /api/v1/pages/[id]/links
+ * Pages this page links to, public pages linking to it, and its external links
+ * Scope: pages:read
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withApiToken(request, 'pages:read', async (token) => {
+    const { id } = await params;
+    const links = await PublicApiService.getLinks(token.userId, id);
+    if (!links) {
+      return apiError(404, 'not_found', 'Page not found');
+    }
+    return NextResponse.json(links);
+  });
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PUT as savePage } from '../../../pages/route';
+import { PublicApiService } from '../../../../services/publicApiService';
+import { apiError, apiErrorFromAppRoute, callAppRoute, withApiToken } from '../../apiRequest';
+
+/**
+ * GET /api/v1/pages/[id]
+ * A page with its content
+ * Scope: pages:read
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withApiToken(request, 'pages:read', async (token) => {
+    const { id } = await params;
+    const page = await PublicApiService.getPage(token.userId, id);
+    if (!page) {
+      return apiError(404, 'not_found', 'Page not found');
+    }
+    return NextResponse.json({ page });
+  });
+}
+
+/**
+ * PATCH /api/v1/pages/[id]
+ * Change a page's title or content. With baseVersion, an edit based on an
+ * out-of-date version is merged with the newer changes, or rejected with a
+ * 409 when they overlap. Encrypted pages can only be renamed: the API can't
+ * encrypt content, so content changes get a 409.
+ * Scope: pages:write
+ * Body: { title?: string, content?: Node[] | string, baseVersion?: string }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withApiToken(request, 'pages:write', async (token) => {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || (body.title === undefined && body.content === undefined)) {
+      return apiError(400, 'invalid_request', 'Send a title, content or both');
+    }
+    if (body.title !== undefined && (typeof body.title !== 'string' || !body.title.trim())) {
+      return apiError(400, 'invalid_request', 'title must be a non-empty string');
+    }
+    if (body.content !== undefined && typeof body.content !== 'string' && !Array.isArray(body.content)) {
+      return apiError(400, 'invalid_request', 'content must be an array of nodes or a string');
+    }
+    if (body.baseVersion !== undefined && typeof body.baseVersion !== 'string') {
+      return apiError(400, 'invalid_request', 'baseVersion must be a version ID');
+    }
+
+    // Hidden and deleted pages 404 here rather than in the save
+    const existing = await PublicApiService.getPage(token.userId, id);
+    if (!existing) {
+      return apiError(404, 'not_found', 'Page not found');
+    }
+    if (existing.encrypted && body.content !== undefined) {
+      return apiError(409, 'conflict', 'This page is encrypted end to end, so only its title can be changed through the API');
+    }
+
+    const result = await callAppRoute(request, savePage, 'PUT', {
+      id,
+      title: body.title,
+      content: body.content,
+      currentVersion: body.baseVersion,
+    });
+    if (result.status === 409) {
+      return apiError(409, 'conflict', result.error || 'The page changed since baseVersion', {}, {
+        currentVersion: result.data?.conflict?.currentVersion ?? null
+      });
+    }
+    if (result.status !== 200) {
+      return apiErrorFromAppRoute(result);
+    }
+
+    const page = await PublicApiService.getPage(token.userId, id);
+    return NextResponse.json({ page, merged: !!result.data?.mergedFrom });
+  });
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicApiService, parseApiLimit } from '../../../../../services/publicApiService';
+import { apiError, withApiToken } from '../../../apiRequest';
+
+/**
+ * GET /api/v1/pages/[id]/versions?limit=
+ * A page's saved versions, newest first
+ * Scope: pages:read
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withApiToken(request, 'pages:read', async (token) => {
+    const { id } = await params;
+    const versions = await PublicApiService.getVersions(token.userId, id, parseApiLimit(request.nextUrl.searchParams.get('limit')));
+    if (!versions) {
+      return apiError(404, 'not_found', 'Page not found');
+    }
+    return NextResponse.json({ versions });
+  });
+}
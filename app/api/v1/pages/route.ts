@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { POST as createPage } from '../../pages/route';
+import { PublicApiService, parseApiLimit } from '../../../services/publicApiService';
+import { apiError, apiErrorFromAppRoute, callAppRoute, withApiToken } from '../apiRequest';
+
+/**
+ * GET /api/v1/pages?limit=&cursor=
+ * The token owner's pages, most recently edited first
+ * Scope: pages:read
+ */
+export async function GET(request: NextRequest) {
+  return withApiToken(request, 'pages:read', async (token) => {
+    const params = request.nextUrl.searchParams;
+    const result = await PublicApiService.listPages(token.userId, {
+      limit: parseApiLimit(params.get('limit')),
+      cursor: params.get('cursor'),
+    });
+    return NextResponse.json(result);
+  });
+}
+
+/**
+ * POST /api/v1/pages
+ * Create a page
+ * Scope: pages:write
+ * Body: { title: string, content?: Node[] | string }
+ */
+export async function POST(request: NextRequest) {
+  return withApiToken(request, 'pages:write', async (token) => {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.title !== 'string' || !body.title.trim()) {
+      return apiError(400, 'invalid_request', 'title is required');
+    }
+    if (body.content !== undefined && typeof body.content !== 'string' && !Array.isArray(body.content)) {
+      return apiError(400, 'invalid_request', 'content must be an array of nodes or a string');
+    }
+
+    const result = await callAppRoute(request, createPage, 'POST', { title: body.title, content: body.content });
+    if (result.status !== 200) {
+      return apiErrorFromAppRoute(result);
+    }
+
+    const page = await PublicApiService.getPage(token.userId, result.data.id);
+    return NextResponse.json({ page }, { status: 201 });
+  });
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicApiService, parseApiLimit } from '../../../services/publicApiService';
+import { withApiToken } from '../apiRequest';
+
+/**
+ * GET /api/v1/search?q=&limit=
+ * Pages matching a search; q supports the same operators as the app's search
+ * Scope: search
+ */
+export async function GET(request: NextRequest) {
+  return withApiToken(request, 'search', async (token) => {
+    const params = request.nextUrl.searchParams;
+    const pages = await PublicApiService.search(token.userId, params.get('q') || '', parseApiLimit(params.get('limit')));
+    return NextResponse.json({ pages });
+  });
+}
@@ -9,6 +9,7 @@ import { getFirebaseAdmin } from '../../../firebase/firebaseAdmin';
 import { getCollectionName, USD_COLLECTIONS } from '../../../utils/environmentConfig';
 import { sendUserNotification } from '../../../utils/notifications';
 import { webhookIdempotencyService } from '../../../services/webhookIdempotencyService';
+import { OutgoingWebhookService } from '../../../services/outgoingWebhookService';
 import { getStripe } from '../../../lib/stripe';
 
 const stripe = getStripe();
@@ -161,6 +162,12 @@ async function handleTransferPaid(transfer: Stripe.Transfer): Promise<void> {
         body: `Your payout of $${(transfer.amount / 100).toFixed(2)} has been sent to your bank account.`,
         metadata: { payoutId, transferId: transfer.id, amount: transfer.amount }
       });
+
+      await OutgoingWebhookService.emit('payout.completed', { userId }, transfer.id, {
+        payoutId,
+        amountCents: transfer.amount,
+        currency: transfer.currency,
+      });
     }
 
     console.log(`[Webhook] Transfer paid processed for payout: ${payoutId}`);
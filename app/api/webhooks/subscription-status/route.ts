@@ -184,6 +184,14 @@ export async function handleSubscriptionEvent(event: Stripe.Event) {
         console.error('Error handling pledge budget changes:', pledgeError);
         // Don't fail the webhook - subscription update should still succeed
       }
+
+      // Suspend or restore recurring pledges for the new budget
+      try {
+        const { RecurringPledgeService } = await import('../../../services/recurringPledgeService');
+        await RecurringPledgeService.applySubscriptionBudget(userId);
+      } catch (recurringError) {
+        console.error('Error updating recurring pledges for budget change:', recurringError);
+      }
     }
 
   } catch (error) {
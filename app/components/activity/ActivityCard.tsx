@@ -6,6 +6,8 @@ import Image from "next/image";
 import PillLink from "../utils/PillLink";
 import { formatRelativeTime } from "../../utils/formatRelativeTime";
 import { calculateDiff, hasContentChanged as hasContentChangedAsync } from "../../utils/diffService";
+import { useContentDecryption } from "../../hooks/useContentDecryption";
+import { parseEncryptedContent } from "../../lib/crypto/contentEncryption";
 import { useTheme } from "next-themes";
 import { cn, interactiveCard } from "../../lib/utils";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "../ui/tooltip";
@@ -200,9 +202,13 @@ const ActivityCard = ({ activity, isCarousel = false, compactLayout = false }) =
   const [diffResult, setDiffResult] = useState(null);
   const [diffLoading, setDiffLoading] = useState(false);
 
+  // Encrypted-group activity carries ciphertext; members decrypt and diff it here
+  const decrypt = useContentDecryption(activity.groupId);
+  const hasEncryptedContent = !!parseEncryptedContent(activity.currentContent);
+
   // Use pre-computed diff data from the activity API
   useEffect(() => {
-    if (activity.diff) {
+    if (activity.diff && !hasEncryptedContent) {
       // Use pre-computed diff data from the new activity system
       setDiffResult({
         added: activity.diff.added,
@@ -219,7 +225,7 @@ const ActivityCard = ({ activity, isCarousel = false, compactLayout = false }) =
       const currentContent = activity.currentContent;
       const previousContent = isNewPage ? null : activity.previousContent;
 
-      calculateDiff(currentContent, previousContent)
+      calculateDiff(currentContent, previousContent, undefined, { decrypt })
         .then(result => {
           setDiffResult(result);
           setDiffLoading(false);
@@ -230,7 +236,7 @@ const ActivityCard = ({ activity, isCarousel = false, compactLayout = false }) =
           setDiffLoading(false);
         });
     }
-  }, [activity.diff, activity.currentContent, activity.previousContent, isNewPage, hasValidContent]);
+  }, [activity.diff, activity.currentContent, activity.previousContent, isNewPage, hasValidContent, hasEncryptedContent, decrypt]);
 
   // Extract values from diff result
   const added = diffResult?.added || 0;
@@ -459,6 +465,7 @@ const ActivityCard = ({ activity, isCarousel = false, compactLayout = false }) =
                     hasChanges: activity.lastDiff?.hasChanges || activity.diff?.hasChanges || false
                   }}
                   isNewPage={isNewPage}
+                  decrypt={decrypt}
                   showInlineStats={false}
                   added={added}
                   removed={removed}
@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useEffect, useState } from 'react';
-import { DiffPreview as DiffPreviewType, calculateDiff } from '../../utils/diffService';
+import { DiffPreview as DiffPreviewType, calculateDiff, ContentDecryptor } from '../../utils/diffService';
 
 /**
  * WeWrite Activity Diff Standardization - DiffPreview Component
@@ -46,6 +46,7 @@ import { DiffPreview as DiffPreviewType, calculateDiff } from '../../utils/diffS
  * @param {boolean} props.showInlineStats - Whether to show diff stats inline with the preview
  * @param {number} props.added - Number of characters added (for inline stats)
  * @param {number} props.removed - Number of characters removed (for inline stats)
+ * @param {Function} props.decrypt - Decrypts encrypted-group content so it is diffed client-side (optional)
  */
 export default function DiffPreview({
   currentContent,
@@ -56,7 +57,8 @@ export default function DiffPreview({
   showInlineStats = false,
   added = 0,
   removed = 0,
-  expandedContext = false
+  expandedContext = false,
+  decrypt = undefined as ContentDecryptor | undefined
 }) {
   const [diffPreview, setDiffPreview] = useState<DiffPreviewType | null>(null);
   const [loading, setLoading] = useState(false);
@@ -73,7 +75,7 @@ export default function DiffPreview({
     // Only calculate diff if we have actual content (not null or undefined)
     if (currentContent && previousContent !== undefined) {
       setLoading(true);
-      calculateDiff(currentContent, previousContent)
+      calculateDiff(currentContent, previousContent, undefined, { decrypt })
         .then(result => {
           setDiffPreview(result.preview);
           setLoading(false);
@@ -87,7 +89,7 @@ export default function DiffPreview({
       // Use pre-calculated diff for backward compatibility
       setDiffPreview(textDiff.preview);
     }
-  }, [currentContent, previousContent, textDiff, isNewPage]);
+  }, [currentContent, previousContent, textDiff, isNewPage, decrypt]);
 
   // Use the calculated preview or fallback to textDiff
   const preview = diffPreview || textDiff?.preview;
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { formatRelativeTime } from '../../utils/formatRelativeTime';
 import { format } from 'date-fns';
 import DiffPreview, { DiffStats } from './DiffPreview';
+import type { ContentDecryptor } from '../../utils/diffService';
 import {
   Tooltip,
   TooltipContent,
@@ -20,7 +21,7 @@ import {
  * - Diff content fills left side with expanded context
  * - Diff stats at bottom right
  */
-export default function VersionActivityCard({ activity, className = "" }) {
+export default function VersionActivityCard({ activity, className = "", decrypt = undefined as ContentDecryptor | undefined }) {
   const router = useRouter();
 
   // Calculate diff stats
@@ -110,6 +111,7 @@ export default function VersionActivityCard({ activity, className = "" }) {
               hasChanges: activity.lastDiff?.hasChanges || activity.diff?.hasChanges || false
             }}
             isNewPage={isNewPage}
+            decrypt={decrypt}
             className="h-full"
             expandedContext={true}
           />
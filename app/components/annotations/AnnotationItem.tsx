@@ -0,0 +1,65 @@
+"use client";
+
+import React from 'react';
+import { cn } from '../../lib/utils';
+import { Button } from '../ui/button';
+import { UsernameBadge } from '../ui/UsernameBadge';
+import { useAuth } from '../../providers/AuthProvider';
+import { usePageAnnotations } from '../../providers/PageAnnotationsProvider';
+import type { PageAnnotation } from '../../types/database';
+
+/**
+ * One margin comment: the passage it's on, what was said and by whom, and
+ * resolve/delete actions for the people allowed them
+ */
+export function AnnotationItem({ annotation, showQuote = true }: { annotation: PageAnnotation; showQuote?: boolean }) {
+  const context = usePageAnnotations();
+  const { user } = useAuth();
+  if (!context) return null;
+
+  const isResolved = annotation.status === 'resolved';
+
+  return (
+    <div className={cn("space-y-1.5", isResolved && "opacity-60")}>
+      {showQuote && (
+        <blockquote className="border-l-2 border-amber-500/50 pl-2 text-xs text-muted-foreground italic line-clamp-2">
+          {annotation.anchor.text}
+          {annotation.orphaned && <span className="not-italic"> (no longer on the page)</span>}
+        </blockquote>
+      )}
+      <p className="text-sm whitespace-pre-wrap break-words">{annotation.body}</p>
+      <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+        <UsernameBadge
+          userId={annotation.userId}
+          username={annotation.username}
+          size="sm"
+          showBadge={false}
+        />
+        <span>· {new Date(annotation.createdAt).toLocaleDateString()}</span>
+        {isResolved && <span>· Resolved</span>}
+        <div className="ml-auto flex gap-1">
+          {context.canResolve && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => context.setStatus(annotation.id, isResolved ? 'open' : 'resolved')}
+            >
+              {isResolved ? 'Reopen' : 'Resolve'}
+            </Button>
+          )}
+          {user?.uid === annotation.userId && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => context.deleteAnnotation(annotation.id)}
+            >
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
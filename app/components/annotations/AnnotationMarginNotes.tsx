@@ -0,0 +1,46 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Icon } from '@/components/ui/Icon';
+import { usePageAnnotations } from '../../providers/PageAnnotationsProvider';
+import { AnnotationItem } from './AnnotationItem';
+
+/**
+ * The open comments on one paragraph, as a note in the page margin (beside
+ * the paragraph on wide screens, at its end on narrow ones) that opens the
+ * comments
+ */
+export function AnnotationMarginNotes({ blockIndex }: { blockIndex: number }) {
+  const context = usePageAnnotations();
+  const [isOpen, setIsOpen] = useState(false);
+  const annotations = context?.openByBlock.get(blockIndex);
+  if (!annotations?.length) return null;
+
+  return (
+    <div className="no-print inline xl:block xl:absolute xl:left-full xl:top-1 xl:ml-3 xl:w-56">
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen(open => !open);
+        }}
+        className="inline-flex items-center gap-1 ml-1 xl:ml-0 px-1.5 rounded-full text-xs bg-amber-500/10 text-amber-700 dark:text-amber-400 hover:bg-amber-500/20 xl:max-w-full"
+        aria-label={`${annotations.length} comment${annotations.length === 1 ? '' : 's'}`}
+        aria-expanded={isOpen}
+      >
+        <Icon name="MessageSquare" size={12} />
+        <span>{annotations.length}</span>
+        <span className="hidden xl:inline truncate">{annotations[0].body}</span>
+      </button>
+      {isOpen && (
+        <div
+          className="mt-2 p-3 space-y-3 max-h-96 overflow-y-auto rounded-lg border border-border bg-card shadow-sm"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {annotations.map(annotation => (
+            <AnnotationItem key={annotation.id} annotation={annotation} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
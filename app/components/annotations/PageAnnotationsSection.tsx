@@ -0,0 +1,59 @@
+"use client";
+
+import React, { useState } from 'react';
+import { cn } from '../../lib/utils';
+import { PageLinksCardHeader } from '../ui/PageLinksCard';
+import { usePageAnnotations } from '../../providers/PageAnnotationsProvider';
+import { AnnotationItem } from './AnnotationItem';
+
+/**
+ * All of a page's margin comments in one list below the page. This is where
+ * editors, who see the page in the editor rather than with margin notes,
+ * review and resolve them.
+ */
+export default function PageAnnotationsSection({ className }: { className?: string }) {
+  const context = usePageAnnotations();
+  const [showResolved, setShowResolved] = useState(false);
+  if (!context || context.annotations.length === 0) return null;
+
+  const openCount = context.annotations.filter(annotation => annotation.status === 'open').length;
+  const resolvedCount = context.annotations.length - openCount;
+  const visible = context.annotations
+    .filter(annotation => showResolved || annotation.status === 'open')
+    .sort((a, b) => Number(a.orphaned) - Number(b.orphaned)
+      || a.anchor.blockIndex - b.anchor.blockIndex
+      || a.anchor.startOffset - b.anchor.startOffset);
+
+  return (
+    <div className={cn("wewrite-card", className)}>
+      <div className="p-4">
+        <PageLinksCardHeader
+          icon="MessageSquare"
+          title="Comments"
+          count={openCount}
+          className="mb-3"
+          pillCounter={true}
+        />
+
+        {visible.length > 0 ? (
+          <div className="space-y-4">
+            {visible.map(annotation => (
+              <AnnotationItem key={annotation.id} annotation={annotation} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">All comments are resolved.</p>
+        )}
+
+        {resolvedCount > 0 && (
+          <button
+            onClick={() => setShowResolved(!showResolved)}
+            className="mt-3 text-xs text-muted-foreground hover:text-foreground"
+          >
+            {showResolved ? 'Hide resolved' : `Show ${resolvedCount} resolved`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
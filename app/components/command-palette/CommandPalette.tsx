@@ -23,11 +23,13 @@ import { useHasKeyboard } from '../../hooks/useHasKeyboard';
 import { buildNewPageUrl } from '../../utils/pageId';
 import { navigateToRandomPage } from '../../utils/randomPageNavigation';
 import { getRecentSearches, removeRecentSearch, clearRecentSearches } from '../../utils/recentSearches';
-import { getSavedSearches, deleteSavedSearch } from '../../utils/savedSearches';
+import { getSavedSearches, deleteSavedSearch, saveSearchQuery, type SavedSearch } from '../../utils/savedSearches';
 import { addRecentSearch } from '../../utils/recentSearches';
+import { getSearchOperatorSuggestions, applySearchOperatorSuggestion } from '../../utils/searchQueryParser';
 import AdminCommandGroup from './AdminCommandGroup';
 import SearchCommandGroup from './SearchCommandGroup';
 import CollapsibleCommandGroup from './CollapsibleCommandGroup';
+import { toast } from '../ui/use-toast';
 
 function matchesQuery(value: string, query: string): boolean {
   if (!query) return true;
@@ -39,11 +41,6 @@ interface RecentSearchItem {
   timestamp: number;
 }
 
-interface SavedSearchItem {
-  term: string;
-  timestamp: number;
-}
-
 export default function CommandPalette() {
   const { isOpen, inputValue, setInputValue, linkLocationContext, closePalette } = useCommandPalette();
   const { pageActions } = useCommandPaletteActions();
@@ -55,7 +52,7 @@ export default function CommandPalette() {
   const isUserAdmin = user?.isAdmin === true;
 
   const [recentSearches, setRecentSearches] = useState<RecentSearchItem[]>([]);
-  const [savedSearches, setSavedSearches] = useState<SavedSearchItem[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
 
   // Load recent & saved searches when palette opens
   useEffect(() => {
@@ -63,7 +60,7 @@ export default function CommandPalette() {
     const loadSearches = async () => {
       const recent = await getRecentSearches(user?.uid ?? null);
       setRecentSearches(recent.slice(0, 5));
-      const saved = getSavedSearches(user?.uid ?? null);
+      const saved = await getSavedSearches(user?.uid ?? null);
       setSavedSearches(saved);
     };
     loadSearches();
@@ -110,14 +107,34 @@ export default function CommandPalette() {
     setRecentSearches([]);
   }, [user?.uid]);
 
-  const handleRemoveSaved = useCallback((index: number, e: React.MouseEvent) => {
+  const handleRemoveSaved = useCallback(async (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    deleteSavedSearch(index, user?.uid ?? null);
-    setSavedSearches((prev) => prev.filter((_, i) => i !== index));
-  }, [user?.uid]);
+    setSavedSearches((prev) => prev.filter((search) => search.id !== id));
+    await deleteSavedSearch(id);
+  }, []);
+
+  const handleSaveSearch = useCallback(async () => {
+    const { search, error } = await saveSearchQuery(inputValue ?? '');
+    if (search) {
+      setSavedSearches((prev) => [search, ...prev]);
+      toast({
+        title: "Search saved",
+        description: `You'll be notified when new pages match "${search.query}"`,
+      });
+    } else {
+      toast({
+        title: "Couldn't save search",
+        description: error,
+      });
+    }
+  }, [inputValue]);
 
   const isSearching = (inputValue ?? '').trim().length >= 2;
+  const operatorSuggestions = useMemo(() => getSearchOperatorSuggestions(inputValue ?? ''), [inputValue]);
   const hasInput = (inputValue ?? '').trim().length > 0;
+  const isSearchSaved = savedSearches.some(
+    (search) => search.query.toLowerCase() === (inputValue ?? '').trim().replace(/\s+/g, ' ').toLowerCase()
+  );
 
   // Filter navigation items by query
   const filteredNavItems = useMemo(() => {
@@ -215,18 +232,18 @@ export default function CommandPalette() {
         {showSavedSearches && (
           <>
             <CommandGroup heading="Saved Searches">
-              {savedSearches.map((search, index) => (
+              {savedSearches.map((search) => (
                 <CommandItem
-                  key={`saved-${search.term}`}
-                  value={`saved-search-${search.term}`}
-                  onSelect={() => handleSearchSelect(search.term)}
+                  key={`saved-${search.id}`}
+                  value={`saved-search-${search.id}`}
+                  onSelect={() => handleSearchSelect(search.query)}
                 >
-                  <Icon name="Pin" size={14} className="mr-2 shrink-0 text-muted-foreground" />
-                  <span className="flex-1 truncate">{search.term}</span>
+                  <Icon name={search.notify ? 'Bell' : 'Pin'} size={14} className="mr-2 shrink-0 text-muted-foreground" />
+                  <span className="flex-1 truncate">{search.query}</span>
                   <button
                     className="ml-auto shrink-0 p-0.5 rounded hover:bg-muted"
-                    onClick={(e) => handleRemoveSaved(index, e)}
-                    aria-label={`Remove "${search.term}" from saved searches`}
+                    onClick={(e) => handleRemoveSaved(search.id, e)}
+                    aria-label={`Remove "${search.query}" from saved searches`}
                   >
                     <Icon name="X" size={12} className="text-muted-foreground" />
                   </button>
@@ -402,10 +419,36 @@ export default function CommandPalette() {
           </>
         )}
 
+        {/* Search operator autocomplete */}
+        {operatorSuggestions.length > 0 && (
+          <CommandGroup heading="Search Filters">
+            {operatorSuggestions.map((operator) => (
+              <CommandItem
+                key={`operator-${operator.syntax}`}
+                value={`search-operator-${operator.syntax}`}
+                onSelect={() => setInputValue(applySearchOperatorSuggestion(inputValue, operator))}
+              >
+                <Icon name="Filter" size={14} className="mr-2 shrink-0 text-muted-foreground" />
+                <span className="font-medium">{operator.syntax}</span>
+                <span className="ml-2 truncate text-muted-foreground">{operator.description}</span>
+                <span className="ml-auto shrink-0 text-xs text-muted-foreground">{operator.example}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
         {/* Search Results - shown when query >= 2 chars */}
         {isSearching && (
           <>
             <CommandSeparator />
+            {!isSearchSaved && (
+              <CommandGroup heading="Saved Searches">
+                <CommandItem value="__save-current-search" onSelect={handleSaveSearch}>
+                  <Icon name="Pin" size={14} className="mr-2 shrink-0 text-muted-foreground" />
+                  <span className="truncate">Save search and notify me of new matches</span>
+                </CommandItem>
+              </CommandGroup>
+            )}
             <SearchCommandGroup
               query={inputValue.trim()}
               onSelect={runAction}
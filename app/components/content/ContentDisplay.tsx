@@ -57,6 +57,14 @@ interface ContentDisplayProps {
   showLinkSuggestions?: boolean;
   onLinkSuggestionCountChange?: (count: number) => void;
 
+  // Save conflict merge view
+  saveConflict?: import('../../types/database').PageSaveConflict | null;
+  onResolveSaveConflict?: (content: any[]) => void;
+
+  // Live co-editing session for group pages
+  collaborative?: boolean;
+  onCollaborationChange?: (state: import('../../hooks/useCollaborativeSession').CollaborationState) => void;
+
   // Link modal state - lifted from Editor to survive remounts during save
   linkModalOpen?: boolean;
   setLinkModalOpen?: (open: boolean) => void;
@@ -106,6 +114,10 @@ const ContentDisplay: React.FC<ContentDisplayProps> = ({
   initialSelectionPath,
   showLinkSuggestions = false,
   onLinkSuggestionCountChange,
+  saveConflict,
+  onResolveSaveConflict,
+  collaborative,
+  onCollaborationChange,
   linkModalOpen,
   setLinkModalOpen,
   linkModalEditingLink,
@@ -160,6 +172,10 @@ const ContentDisplay: React.FC<ContentDisplayProps> = ({
         initialSelectionPath={initialSelectionPath}
         showLinkSuggestions={showLinkSuggestions}
         onLinkSuggestionCountChange={onLinkSuggestionCountChange}
+        saveConflict={saveConflict}
+        onResolveSaveConflict={onResolveSaveConflict}
+        collaborative={collaborative}
+        onCollaborationChange={onCollaborationChange}
         linkModalOpen={linkModalOpen}
         setLinkModalOpen={setLinkModalOpen}
         linkModalEditingLink={linkModalEditingLink}
@@ -49,6 +49,14 @@ interface EditableContentProps {
   showLinkSuggestions?: boolean;
   onLinkSuggestionCountChange?: (count: number) => void;
 
+  // Save conflict merge view
+  saveConflict?: import('../../types/database').PageSaveConflict | null;
+  onResolveSaveConflict?: (content: any[]) => void;
+
+  // Live co-editing session for group pages
+  collaborative?: boolean;
+  onCollaborationChange?: (state: import('../../hooks/useCollaborativeSession').CollaborationState) => void;
+
   // Link modal state - lifted from Editor to survive remounts during save
   linkModalOpen?: boolean;
   setLinkModalOpen?: (open: boolean) => void;
@@ -84,6 +92,10 @@ const EditableContent: React.FC<EditableContentProps> = ({
   pageId,
   showLinkSuggestions = false,
   onLinkSuggestionCountChange,
+  saveConflict,
+  onResolveSaveConflict,
+  collaborative,
+  onCollaborationChange,
   linkModalOpen,
   setLinkModalOpen,
   linkModalEditingLink,
@@ -149,6 +161,10 @@ const EditableContent: React.FC<EditableContentProps> = ({
         initialSelectionPath={initialSelectionPath}
         showLinkSuggestions={showLinkSuggestions}
         onLinkSuggestionCountChange={onLinkSuggestionCountChange}
+        saveConflict={saveConflict}
+        onResolveSaveConflict={onResolveSaveConflict}
+        collaborative={collaborative}
+        onCollaborationChange={onCollaborationChange}
         isSaving={isSaving}
         linkModalOpen={linkModalOpen}
         setLinkModalOpen={setLinkModalOpen}
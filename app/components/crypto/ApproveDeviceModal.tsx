@@ -0,0 +1,104 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AdaptiveModal } from '../ui/adaptive-modal';
+import { Icon } from '../ui/Icon';
+import { Input } from '../ui/input';
+import { useCrypto, type DeviceApprovalResult } from '../../contexts/CryptoContext';
+import { normalizePairingCode, PAIRING_CODE_LENGTH } from '../../lib/crypto/devicePairing';
+
+interface ApproveDeviceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onApproved?: () => void;
+}
+
+const APPROVAL_ERRORS: Record<Exclude<DeviceApprovalResult, 'approved'>, string> = {
+  notFound: 'No pending request with that code. Codes expire after 10 minutes.',
+  codeMismatch: 'That code does not match the requesting device. Do not approve it.',
+  wrongPasscode: 'Incorrect passcode',
+  failed: 'Could not approve the device. Try again.',
+};
+
+/**
+ * Approve a new device from this (unlocked) one: enter the code shown on the
+ * new device and confirm with your passcode.
+ */
+export function ApproveDeviceModal({ isOpen, onClose, onApproved }: ApproveDeviceModalProps) {
+  const { approveDevice } = useCrypto();
+  const [code, setCode] = useState('');
+  const [passcode, setPasscode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isApproving, setIsApproving] = useState(false);
+
+  const handleClose = () => {
+    setCode('');
+    setPasscode('');
+    setError(null);
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    setIsApproving(true);
+    setError(null);
+
+    const result = await approveDevice(code, passcode);
+    setIsApproving(false);
+
+    if (result === 'approved') {
+      handleClose();
+      onApproved?.();
+    } else {
+      setError(APPROVAL_ERRORS[result]);
+      setPasscode('');
+    }
+  };
+
+  const canSubmit = normalizePairingCode(code).length === PAIRING_CODE_LENGTH && passcode.length === 6;
+
+  return (
+    <AdaptiveModal isOpen={isOpen} onClose={handleClose} title="Approve a Device">
+      <div className="p-4 space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Enter the code shown on your new device, then your passcode. The new device
+          receives your key encrypted so only it can read it.
+        </p>
+        <Input
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value.toUpperCase().slice(0, 9));
+            setError(null);
+          }}
+          placeholder="XXXX-XXXX"
+          className="text-center text-2xl tracking-widest font-mono h-auto py-3"
+          autoFocus
+          disabled={isApproving}
+        />
+        <Input
+          type="password"
+          inputMode="numeric"
+          maxLength={6}
+          value={passcode}
+          onChange={(e) => {
+            setPasscode(e.target.value.replace(/\D/g, '').slice(0, 6));
+            setError(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && canSubmit) handleSubmit();
+          }}
+          placeholder="Your passcode"
+          className="text-center text-2xl tracking-[0.5em] font-mono h-auto py-3"
+          disabled={isApproving}
+        />
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <button
+          onClick={handleSubmit}
+          disabled={!canSubmit || isApproving}
+          className="w-full px-4 py-2 bg-primary text-primary-foreground rounded-lg font-medium disabled:opacity-50"
+        >
+          {isApproving ? <Icon name="Loader" size={16} /> : 'Approve Device'}
+        </button>
+      </div>
+    </AdaptiveModal>
+  );
+}
@@ -0,0 +1,207 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AdaptiveModal } from '../ui/adaptive-modal';
+import { Icon } from '../ui/Icon';
+import { Input } from '../ui/input';
+import { useCrypto } from '../../hooks/useCrypto';
+import { createPairingKeys, describeDevice, formatPairingCode } from '../../lib/crypto/devicePairing';
+import type { DevicePairingRequest } from '../../lib/crypto/types';
+
+const POLL_INTERVAL_MS = 3000;
+
+interface DevicePairingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onEnrolled?: () => void;
+}
+
+/**
+ * Add this device: show a pairing code, wait for an unlocked device to approve
+ * it, then choose a passcode for this device. The ECDH key pair only lives in
+ * memory for the length of the exchange.
+ */
+export function DevicePairingModal({ isOpen, onClose, onEnrolled }: DevicePairingModalProps) {
+  const { enrollDevice } = useCrypto();
+  const [step, setStep] = useState<'start' | 'waiting' | 'passcode' | 'confirm' | 'saving'>('start');
+  const [deviceName, setDeviceName] = useState('');
+  const [code, setCode] = useState<string | null>(null);
+  const [approved, setApproved] = useState<DevicePairingRequest | null>(null);
+  const [passcode, setPasscode] = useState('');
+  const [confirmPasscode, setConfirmPasscode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const pairingKeysRef = useRef<CryptoKeyPair | null>(null);
+
+  useEffect(() => {
+    if (isOpen && !deviceName) setDeviceName(describeDevice());
+  }, [isOpen, deviceName]);
+
+  // Poll until an unlocked device approves the request, or it expires
+  useEffect(() => {
+    if (step !== 'waiting' || !code) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const res = await fetch(`/api/user-keys/pairing/${code}`, { credentials: 'include' });
+        if (res.status === 404) {
+          setError('The pairing code expired. Start again to get a new one.');
+          setStep('start');
+          return;
+        }
+        const pairing: DevicePairingRequest | undefined = (await res.json()).data?.pairing;
+        if (pairing?.status === 'approved') {
+          setApproved(pairing);
+          setStep('passcode');
+        }
+      } catch {
+        // Keep polling through network blips
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [step, code]);
+
+  const handleStart = async () => {
+    setError(null);
+    try {
+      const { keyPair, publicKey, code: newCode } = await createPairingKeys();
+      const res = await fetch('/api/user-keys/pairing', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ code: newCode, devicePublicKey: publicKey, deviceName }),
+      });
+      if (!res.ok) {
+        setError('Could not start pairing. Try again.');
+        return;
+      }
+
+      pairingKeysRef.current = keyPair;
+      setCode(newCode);
+      setStep('waiting');
+    } catch {
+      setError('Could not start pairing. Try again.');
+    }
+  };
+
+  const handleConfirmSubmit = async () => {
+    if (confirmPasscode !== passcode) {
+      setError('Passcodes do not match');
+      setConfirmPasscode('');
+      return;
+    }
+    if (!approved || !pairingKeysRef.current) return;
+
+    setStep('saving');
+    setError(null);
+
+    const success = await enrollDevice(approved, pairingKeysRef.current, passcode, deviceName);
+    if (success) {
+      handleClose();
+      onEnrolled?.();
+    } else {
+      setError('Could not add this device. Start again to get a new code.');
+      setPasscode('');
+      setConfirmPasscode('');
+      setStep('start');
+    }
+  };
+
+  const handleClose = () => {
+    // Withdraw a request that was never approved
+    if (step === 'waiting' && code) {
+      fetch(`/api/user-keys/pairing/${code}`, { method: 'DELETE', credentials: 'include' }).catch(() => {});
+    }
+    pairingKeysRef.current = null;
+    setCode(null);
+    setApproved(null);
+    setPasscode('');
+    setConfirmPasscode('');
+    setError(null);
+    setStep('start');
+    onClose();
+  };
+
+  return (
+    <AdaptiveModal isOpen={isOpen} onClose={handleClose} title="Add This Device">
+      <div className="p-4 space-y-4">
+        {step === 'start' && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Use a device where your encryption keys are unlocked to approve this one.
+              You'll choose a passcode for this device afterwards.
+            </p>
+            <Input
+              value={deviceName}
+              onChange={(e) => setDeviceName(e.target.value.slice(0, 60))}
+              placeholder="Device name"
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <button
+              onClick={handleStart}
+              disabled={!deviceName.trim()}
+              className="w-full px-4 py-2 bg-primary text-primary-foreground rounded-lg font-medium disabled:opacity-50"
+            >
+              Get Pairing Code
+            </button>
+          </>
+        )}
+
+        {step === 'waiting' && code && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              On your other device, open Settings → Encryption → Approve a Device and enter this code:
+            </p>
+            <div className="text-center text-3xl font-mono tracking-widest py-4 bg-muted/50 rounded-lg">
+              {formatPairingCode(code)}
+            </div>
+            <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+              <Icon name="Loader" size={14} />
+              Waiting for approval. The code expires in 10 minutes.
+            </div>
+          </>
+        )}
+
+        {(step === 'passcode' || step === 'confirm') && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {step === 'passcode'
+                ? 'Approved! Choose a 6-digit passcode for this device.'
+                : 'Confirm the passcode for this device.'}
+            </p>
+            <Input
+              type="password"
+              inputMode="numeric"
+              maxLength={6}
+              value={step === 'passcode' ? passcode : confirmPasscode}
+              onChange={(e) => {
+                const digits = e.target.value.replace(/\D/g, '').slice(0, 6);
+                if (step === 'passcode') setPasscode(digits);
+                else setConfirmPasscode(digits);
+                setError(null);
+              }}
+              placeholder={step === 'passcode' ? 'Device passcode' : 'Confirm passcode'}
+              className="text-center text-2xl tracking-[0.5em] font-mono h-auto py-3"
+              autoFocus
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <button
+              onClick={step === 'passcode' ? () => setStep('confirm') : handleConfirmSubmit}
+              disabled={(step === 'passcode' ? passcode : confirmPasscode).length !== 6}
+              className="w-full px-4 py-2 bg-primary text-primary-foreground rounded-lg font-medium disabled:opacity-50"
+            >
+              {step === 'passcode' ? 'Continue' : 'Add Device'}
+            </button>
+          </>
+        )}
+
+        {step === 'saving' && (
+          <div className="flex flex-col items-center py-8 gap-3">
+            <Icon name="Loader" size={24} />
+            <p className="text-sm text-muted-foreground">Securing your key on this device...</p>
+          </div>
+        )}
+      </div>
+    </AdaptiveModal>
+  );
+}
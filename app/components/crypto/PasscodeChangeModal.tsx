@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AdaptiveModal } from '../ui/adaptive-modal';
+import { Icon } from '../ui/Icon';
+import { Input } from '../ui/input';
+import { useCrypto } from '../../hooks/useCrypto';
+
+interface PasscodeChangeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChanged?: () => void;
+}
+
+/**
+ * Change flow: current passcode, new passcode, confirm.
+ * The private key is decrypted and re-encrypted with the new passcode -
+ * keys and group access stay the same. On an enrolled device only that
+ * device's passcode changes.
+ */
+export function PasscodeChangeModal({ isOpen, onClose, onChanged }: PasscodeChangeModalProps) {
+  const { changePasscode, isDeviceEnrolled } = useCrypto();
+  const [step, setStep] = useState<'current' | 'newPasscode' | 'confirm' | 'saving'>('current');
+  const [currentPasscode, setCurrentPasscode] = useState('');
+  const [newPasscode, setNewPasscode] = useState('');
+  const [confirmPasscode, setConfirmPasscode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const digitsOnly = (value: string) => value.replace(/\D/g, '').slice(0, 6);
+
+  const reset = () => {
+    setCurrentPasscode('');
+    setNewPasscode('');
+    setConfirmPasscode('');
+    setError(null);
+    setStep('current');
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleConfirmSubmit = async () => {
+    if (confirmPasscode !== newPasscode) {
+      setError('Passcodes do not match');
+      setConfirmPasscode('');
+      return;
+    }
+
+    setStep('saving');
+    setError(null);
+
+    const success = await changePasscode(currentPasscode, newPasscode);
+    if (success) {
+      reset();
+      onChanged?.();
+      onClose();
+    } else {
+      // Most likely the current passcode was wrong - start over
+      reset();
+      setError('Could not change passcode. Check your current passcode and try again.');
+    }
+  };
+
+  const passcodeInput = (value: string, onChange: (value: string) => void, placeholder: string, onEnter: () => void) => (
+    <Input
+      type="password"
+      inputMode="numeric"
+      maxLength={6}
+      value={value}
+      onChange={(e) => {
+        onChange(digitsOnly(e.target.value));
+        setError(null);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' && value.length === 6) onEnter();
+      }}
+      placeholder={placeholder}
+      className="text-center text-2xl tracking-[0.5em] font-mono h-auto py-3"
+      autoFocus
+    />
+  );
+
+  return (
+    <AdaptiveModal isOpen={isOpen} onClose={handleClose} title="Change Passcode">
+      <div className="p-4 space-y-4">
+        {step === 'current' && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {isDeviceEnrolled
+                ? 'Enter the passcode you use on this device.'
+                : 'Enter your current 6-digit passcode.'}
+            </p>
+            {passcodeInput(currentPasscode, setCurrentPasscode, 'Current passcode', () => setStep('newPasscode'))}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <button
+              onClick={() => setStep('newPasscode')}
+              disabled={currentPasscode.length !== 6}
+              className="w-full px-4 py-2 bg-primary text-primary-foreground rounded-lg font-medium disabled:opacity-50"
+            >
+              Continue
+            </button>
+          </>
+        )}
+
+        {step === 'newPasscode' && (
+          <>
+            <p className="text-sm text-muted-foreground">Choose a new 6-digit passcode.</p>
+            {passcodeInput(newPasscode, setNewPasscode, 'New passcode', () => setStep('confirm'))}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <button
+              onClick={() => setStep('confirm')}
+              disabled={newPasscode.length !== 6}
+              className="w-full px-4 py-2 bg-primary text-primary-foreground rounded-lg font-medium disabled:opacity-50"
+            >
+              Continue
+            </button>
+          </>
+        )}
+
+        {step === 'confirm' && (
+          <>
+            <p className="text-sm text-muted-foreground">Confirm your new passcode.</p>
+            {passcodeInput(confirmPasscode, setConfirmPasscode, 'Confirm passcode', handleConfirmSubmit)}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <button
+              onClick={handleConfirmSubmit}
+              disabled={confirmPasscode.length !== 6}
+              className="w-full px-4 py-2 bg-primary text-primary-foreground rounded-lg font-medium disabled:opacity-50"
+            >
+              Change Passcode
+            </button>
+          </>
+        )}
+
+        {step === 'saving' && (
+          <div className="flex flex-col items-center py-8 gap-3">
+            <Icon name="Loader" size={24} />
+            <p className="text-sm text-muted-foreground">Re-encrypting your private key...</p>
+          </div>
+        )}
+      </div>
+    </AdaptiveModal>
+  );
+}
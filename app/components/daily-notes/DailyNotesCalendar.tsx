@@ -30,6 +30,7 @@ interface DailyNotesCalendarProps {
  * - Number of notes per day
  * - Click to navigate to single page or show modal for multiple pages
  * - Navigation between months
+ * - Weekly and monthly rollup notes linking the daily notes in the range
  */
 export default function DailyNotesCalendar({ accentColor = '#1768FF', onPageSelect }: DailyNotesCalendarProps) {
   const { user } = useAuth();
@@ -121,6 +122,11 @@ export default function DailyNotesCalendar({ accentColor = '#1768FF', onPageSele
     router.push(`/timeline?type=daily-notes&date=${dateKey}`);
   };
 
+  // Start a rollup note linking every daily note in the week or month
+  const startRollup = (kind: 'weekly' | 'monthly', date: Date) => {
+    router.push(`/new?type=${kind}-note&rollupDate=${format(date, 'yyyy-MM-dd')}`);
+  };
+
   // Handle page selection from modal
   const handlePageSelectFromModal = (pageId: string) => {
     setShowModal(false);
@@ -270,6 +276,20 @@ export default function DailyNotesCalendar({ accentColor = '#1768FF', onPageSele
         </div>
       )}
 
+      {/* Rollups of this week and of the month shown */}
+      {!loading && (
+        <div className="flex flex-wrap justify-center gap-2 pb-4">
+          {isSameMonth(new Date(), currentDate) && (
+            <Button variant="secondary" size="sm" onClick={() => startRollup('weekly', new Date())}>
+              Roll up this week
+            </Button>
+          )}
+          <Button variant="secondary" size="sm" onClick={() => startRollup('monthly', currentDate)}>
+            Roll up {format(currentDate, 'MMMM')}
+          </Button>
+        </div>
+      )}
+
       {/* Modal for multiple pages */}
       {showModal && selectedDate && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
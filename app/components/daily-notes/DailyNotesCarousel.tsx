@@ -311,8 +311,8 @@ export default function DailyNotesCarousel({
         return;
       }
 
-      // Navigate to new page creation - no customDate needed since it will use current createdAt
-      // The page will automatically be grouped under today's date in the daily notes carousel
+      // Navigate to new page creation - it's grouped under today by its createdAt, and
+      // opens dated today with the user's daily note template filled in
       router.push('/new?type=daily-note');
     } catch (error) {
       // Fallback to home page if navigation fails
@@ -0,0 +1,37 @@
+"use client";
+
+import React from 'react';
+import { Icon } from '@/components/ui/Icon';
+import { UsernameBadge } from '../ui/UsernameBadge';
+import type { CollaboratorPresence } from '../../hooks/useCollaborativeSession';
+
+interface CollaborationPresenceProps {
+  collaborators: CollaboratorPresence[];
+  editorCount: number;
+}
+
+/**
+ * CollaborationPresence - "3 people editing" bar shown above the editor during
+ * a live editing session, listing everyone else who is currently in it.
+ */
+export default function CollaborationPresence({ collaborators, editorCount }: CollaborationPresenceProps) {
+  if (editorCount < 2) return null;
+
+  // One entry per person, even when someone has the page open on two devices
+  const people = collaborators.filter(
+    (collaborator, index) => collaborators.findIndex(other => other.userId === collaborator.userId) === index
+  );
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-2 text-sm text-muted-foreground" role="status">
+      <Icon name="Users" size={16} className="flex-shrink-0" />
+      <span className="font-medium text-foreground">{editorCount} people editing</span>
+      {people.map(person => (
+        <span key={person.userId} className="inline-flex items-center gap-1">
+          <span className="h-2 w-2 rounded-full" style={{ backgroundColor: person.color }} />
+          <UsernameBadge userId={person.userId} username={person.username} showBadge={false} size="sm" />
+        </span>
+      ))}
+    </div>
+  );
+}
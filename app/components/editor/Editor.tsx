@@ -38,6 +38,11 @@ import { PillLink } from '../utils/PillLink';
 import { UsernameBadge } from '../ui/UsernameBadge';
 import { useMediaQuery } from '../../hooks/use-media-query';
 import { InlineError } from '../ui/InlineError';
+import SaveConflictMergeView from './SaveConflictMergeView';
+import RemoteCursors from './RemoteCursors';
+import CollaborationPresence from './CollaborationPresence';
+import { useCollaborativeSession, CollaborationState } from '../../hooks/useCollaborativeSession';
+import type { PageSaveConflict } from '../../types/database';
 import {
   Drawer,
   DrawerContent,
@@ -103,6 +108,14 @@ interface EditorProps {
   isSaving?: boolean; // When true, prevents link modal from closing during save
   pageCreatedAt?: string | Date | null; // For external link paywall grandfathering
 
+  // Save conflict - set when a save was rejected because a newer version exists
+  saveConflict?: PageSaveConflict | null;
+  onResolveSaveConflict?: (content: any[]) => void;
+
+  // Live co-editing - join the page's group editing session
+  collaborative?: boolean;
+  onCollaborationChange?: (state: CollaborationState) => void;
+
   // Link modal state - lifted from Editor to survive remounts during save
   // When provided, these override the local state
   linkModalOpen?: boolean;
@@ -126,6 +139,10 @@ const Editor: React.FC<EditorProps> = ({
   onLinkSuggestionCountChange,
   isSaving = false,
   pageCreatedAt,
+  saveConflict,
+  onResolveSaveConflict,
+  collaborative = false,
+  onCollaborationChange,
   linkModalOpen: linkModalOpenProp,
   setLinkModalOpen: setLinkModalOpenProp,
   linkModalEditingLink: linkModalEditingLinkProp,
@@ -329,6 +346,13 @@ const Editor: React.FC<EditorProps> = ({
     return baseEditor;
   }, [withLinkDeletion]);
 
+  const collaboration = useCollaborativeSession({
+    pageId,
+    editor,
+    enabled: collaborative && !readOnly && !!pageId,
+    onStateChange: onCollaborationChange,
+  });
+
   // Optionally place the cursor at a specific path on mount (e.g., the blank paragraph after attribution)
   useEffect(() => {
     if (readOnly || !initialSelectionPath) return;
@@ -551,13 +575,16 @@ const Editor: React.FC<EditorProps> = ({
     // Update prevContentRef immediately to prevent the useEffect from detecting this as an external change
     prevContentRef.current = JSON.stringify(newValue);
 
+    // Share local edits and the cursor with the live editing session
+    collaboration.handleLocalChange();
+
     // Call parent onChange synchronously to avoid race conditions with selection
     try {
       onChange(newValue);
     } catch (error) {
       // Error in onChange callback
     }
-  }, [onChange]);
+  }, [onChange, collaboration.handleLocalChange]);
 
   // Extract plain text from editor content for link suggestion analysis
   // Excludes text inside links since those are already linked
@@ -1352,6 +1379,21 @@ const Editor: React.FC<EditorProps> = ({
   return (
     <SimpleErrorBoundary>
       <div className={cn("relative", className)}>
+        {saveConflict && onResolveSaveConflict && !readOnly && (
+          <SaveConflictMergeView
+            conflict={saveConflict}
+            localContent={editorValue}
+            onResolve={onResolveSaveConflict}
+          />
+        )}
+
+        {collaboration.joined && (
+          <CollaborationPresence
+            collaborators={collaboration.collaborators}
+            editorCount={collaboration.editorCount}
+          />
+        )}
+
         <Slate
           editor={editor}
           initialValue={normalizedInitialContent}
@@ -1361,7 +1403,7 @@ const Editor: React.FC<EditorProps> = ({
             ref={editorRef}
             onClick={handleEditorWrapperClick}
             className={cn(
-              "wewrite-input min-h-[200px] w-full rounded-lg p-4",
+              "wewrite-input relative min-h-[200px] w-full rounded-lg p-4",
               "transition-all duration-200",
               // Ensure minimum tap target area for mobile UX
               !readOnly && "cursor-text"
@@ -1402,6 +1444,10 @@ const Editor: React.FC<EditorProps> = ({
                 willChange: 'contents'
               }}
             />
+
+            {collaboration.joined && (
+              <RemoteCursors collaborators={collaboration.collaborators} containerRef={editorRef} />
+            )}
           </div>
 
           {/* Delete all empty lines button - animated in/out to prevent layout shifts */}
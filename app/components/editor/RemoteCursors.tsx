@@ -0,0 +1,116 @@
+"use client";
+
+import React, { useLayoutEffect, useState } from 'react';
+import { Editor as SlateEditor, Range } from 'slate';
+import { ReactEditor, useSlate } from 'slate-react';
+import { UsernameBadge } from '../ui/UsernameBadge';
+import type { CollaboratorPresence } from '../../hooks/useCollaborativeSession';
+
+interface RemoteCursorsProps {
+  collaborators: CollaboratorPresence[];
+  containerRef: React.RefObject<HTMLDivElement | null>;
+}
+
+interface CursorLayout {
+  collaborator: CollaboratorPresence;
+  caret: { top: number; left: number; height: number };
+  highlights: Array<{ top: number; left: number; width: number; height: number }>;
+}
+
+/**
+ * Whether a remote selection still points at text in this editor
+ */
+function isValidRange(editor: SlateEditor, range: Range): boolean {
+  try {
+    return SlateEditor.hasPath(editor, range.anchor.path) &&
+      SlateEditor.hasPath(editor, range.focus.path) &&
+      range.anchor.offset <= SlateEditor.leaf(editor, range.anchor.path)[0].text.length &&
+      range.focus.offset <= SlateEditor.leaf(editor, range.focus.path)[0].text.length;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * RemoteCursors - draws other participants' carets and selections over the
+ * editor during a live editing session, each labelled with their UsernameBadge.
+ * Positions are measured from the DOM after every editor change.
+ */
+export default function RemoteCursors({ collaborators, containerRef }: RemoteCursorsProps) {
+  const editor = useSlate() as ReactEditor;
+  const [layouts, setLayouts] = useState<CursorLayout[]>([]);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const origin = container.getBoundingClientRect();
+    const next: CursorLayout[] = [];
+
+    for (const collaborator of collaborators) {
+      const selection = collaborator.selection;
+      if (!selection || !isValidRange(editor, selection)) continue;
+
+      try {
+        const caretRect = ReactEditor.toDOMRange(editor, { anchor: selection.focus, focus: selection.focus }).getBoundingClientRect();
+        const highlights = Range.isCollapsed(selection)
+          ? []
+          : Array.from(ReactEditor.toDOMRange(editor, selection).getClientRects()).map(rect => ({
+              top: rect.top - origin.top,
+              left: rect.left - origin.left,
+              width: rect.width,
+              height: rect.height,
+            }));
+
+        next.push({
+          collaborator,
+          caret: {
+            top: caretRect.top - origin.top,
+            left: caretRect.left - origin.left,
+            height: caretRect.height || 20,
+          },
+          highlights,
+        });
+      } catch {
+        // The selection points at content that hasn't rendered yet
+      }
+    }
+
+    setLayouts(next);
+  }, [collaborators, editor, editor.children, containerRef]);
+
+  if (layouts.length === 0) return null;
+
+  return (
+    <div className="pointer-events-none absolute inset-0 z-10" aria-hidden="true">
+      {layouts.map(({ collaborator, caret, highlights }) => (
+        <React.Fragment key={collaborator.clientId}>
+          {highlights.map((highlight, index) => (
+            <div
+              key={index}
+              className="absolute rounded-sm opacity-20"
+              style={{ ...highlight, backgroundColor: collaborator.color }}
+            />
+          ))}
+          <div
+            className="absolute w-0.5"
+            style={{ top: caret.top, left: caret.left, height: caret.height, backgroundColor: collaborator.color }}
+          >
+            <div
+              className="absolute bottom-full left-0 mb-0.5 whitespace-nowrap rounded px-1 text-xs text-white"
+              style={{ backgroundColor: collaborator.color }}
+            >
+              <UsernameBadge
+                userId={collaborator.userId}
+                username={collaborator.username}
+                showBadge={false}
+                size="sm"
+                className="!text-white"
+              />
+            </div>
+          </div>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Icon } from '@/components/ui/Icon';
+import { Button } from '@/components/ui/button';
+import { UsernameBadge } from '../ui/UsernameBadge';
+import { calculateDiff, DiffOperation } from '../../utils/diffService';
+import { mergeKeepingBoth, toBlocks } from '../../utils/pageMerge';
+import type { PageSaveConflict } from '../../types/database';
+
+interface SaveConflictMergeViewProps {
+  conflict: PageSaveConflict;
+  localContent: any[];
+  onResolve: (content: any[]) => void;
+}
+
+/**
+ * SaveConflictMergeView - shown when a save is rejected because someone else
+ * saved the page first. Diffs the newer server version against the local edit
+ * and lets the user keep both, keep theirs or keep their own changes. When the
+ * server could partially merge the edits, the merge result is offered first.
+ *
+ * Diff styling follows DiffPreview: green for text only in my version,
+ * red strikethrough for text only in the newer version.
+ */
+export default function SaveConflictMergeView({ conflict, localContent, onResolve }: SaveConflictMergeViewProps) {
+  const [operations, setOperations] = useState<DiffOperation[] | null>(null);
+
+  // Diff against the content at the moment of the conflict - the user may keep typing,
+  // and the resolve buttons always use the latest local content
+  const localContentRef = useRef(localContent);
+  localContentRef.current = localContent;
+
+  useEffect(() => {
+    let cancelled = false;
+    setOperations(null);
+
+    calculateDiff(localContentRef.current, conflict.content).then((result) => {
+      if (!cancelled) setOperations(result.operations || []);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conflict]);
+
+  return (
+    <div className="mb-4 rounded-xl border border-warning/40 bg-warning/10 p-4" role="alert">
+      <div className="flex items-start gap-2 mb-3">
+        <Icon name="GitBranch" size={18} className="mt-0.5 text-warning flex-shrink-0" />
+        <div className="text-sm">
+          <p className="font-medium text-foreground">This page changed while you were editing</p>
+          <p className="text-muted-foreground">
+            {conflict.username ? (
+              <>
+                <UsernameBadge
+                  userId={conflict.userId || ''}
+                  username={conflict.username}
+                  showBadge={false}
+                  size="sm"
+                />{' '}
+                saved a newer version.
+              </>
+            ) : (
+              'Someone saved a newer version.'
+            )}{' '}
+            Your changes haven't been saved yet - choose how to combine them.
+            {conflict.merge && (
+              <>
+                {' '}Most edits were merged automatically; {conflict.merge.conflictCount === 1
+                  ? '1 overlapping edit keeps'
+                  : `${conflict.merge.conflictCount} overlapping edits keep`} both versions for you to tidy up.
+              </>
+            )}
+            {conflict.titleConflict && (
+              <>
+                {' '}They also renamed the page to &ldquo;{conflict.title}&rdquo; - saving keeps your title unless you change it.
+              </>
+            )}
+          </p>
+        </div>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto rounded-lg bg-background p-3 text-sm leading-relaxed whitespace-pre-wrap">
+        {operations === null ? (
+          <span className="text-muted-foreground">Comparing versions...</span>
+        ) : operations.length === 0 ? (
+          <span className="text-muted-foreground">No text differences - only formatting or links changed.</span>
+        ) : (
+          operations.map((op, index) => {
+            if (op.type === 'add') {
+              return (
+                <span key={index} className="bg-green-500/20 dark:bg-green-500/30 text-green-600 dark:text-green-400 px-0.5 rounded">
+                  {op.text}
+                </span>
+              );
+            }
+            if (op.type === 'remove') {
+              return (
+                <span key={index} className="bg-red-500/20 dark:bg-red-500/30 text-red-600 dark:text-red-400 px-0.5 rounded line-through">
+                  {op.text}
+                </span>
+              );
+            }
+            return (
+              <span key={index} className="text-muted-foreground">
+                {op.text}
+              </span>
+            );
+          })
+        )}
+      </div>
+
+      <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        <span><span className="bg-green-500/20 text-green-600 dark:text-green-400 px-0.5 rounded">Green</span> only in your version</span>
+        <span><span className="bg-red-500/20 text-red-600 dark:text-red-400 px-0.5 rounded line-through">Red</span> only in the newer version</span>
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {conflict.merge && (
+          <Button size="sm" onClick={() => onResolve(conflict.merge!.content)}>
+            Accept merge
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant={conflict.merge ? 'secondary' : 'default'}
+          onClick={() => onResolve(mergeKeepingBoth(conflict.content, localContent))}
+        >
+          Keep both
+        </Button>
+        <Button size="sm" variant="secondary" onClick={() => onResolve(localContent)}>
+          Keep mine
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => onResolve(toBlocks(conflict.content))}>
+          Use theirs
+        </Button>
+      </div>
+    </div>
+  );
+}
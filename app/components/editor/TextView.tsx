@@ -71,6 +71,7 @@ import type { TextViewProps } from "../../types/components";
 import type { EditorContent, EditorNode, EditorChild, ViewMode } from "../../types/database";
 import LinkNode from "./LinkNode";
 import InternalLinkWithTitle from "./InternalLinkWithTitle";
+import { AnnotationMarginNotes } from "../annotations/AnnotationMarginNotes";
 import "../diff-styles.css";
 
 // External link paywall context type
@@ -1243,6 +1244,9 @@ const SimpleParagraphNode = (props: {
         {node.children && node.children.map((child, i) => renderChild(child, i))}
       </span>
 
+      {/* Margin comments on this paragraph */}
+      {!isEditing && <AnnotationMarginNotes blockIndex={index} />}
+
       {isActive && <span className="inline-block w-0.5 h-5 bg-primary animate-pulse ml-0.5"></span>}
 
       {/* Edit icon - positioned on the right side */}
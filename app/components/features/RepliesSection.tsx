@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { cn } from '../../lib/utils';
 import { Icon } from '@/components/ui/Icon';
 import { PageLinksCardHeader } from '../ui/PageLinksCard';
@@ -17,23 +17,42 @@ import {
 import { generateReplyTitle, createReplyContent, encodeReplyParams } from '../../utils/replyUtils';
 import { getCurrentUsername } from '../../utils/userUtils';
 import { getUserProfile } from '../../utils/apiClient';
+import {
+  buildReplyThreads,
+  filterReplyThreads,
+  type ReplySentiment,
+  type ReplyThreadCounts,
+  type ReplyThreadFilter,
+  type ReplyThreadNode
+} from '../../utils/replyThreads';
+import type { ReplyQuote } from '../../types/database';
 
 interface ReplyInfo {
   id: string;
   title: string;
   username: string;
-  replyType: 'agree' | 'disagree' | 'neutral' | 'standard' | null;
+  replyType: ReplySentiment;
   createdAt: any;
   userId: string;
+  replyTo: string;
+  replyAncestorIds: string[];
+  replyQuote: ReplyQuote | null;
+  quoteOutdated: boolean;
 }
 
-interface RepliesCounts {
-  agree: number;
-  disagree: number;
-  neutral: number;
-  total: number;
+/** The page or reply a new reply answers */
+interface ReplyTarget {
+  id: string;
+  title: string;
+  userId: string;
+  username: string;
 }
 
+/** Deeper replies stop indenting so threads stay readable on narrow screens */
+const MAX_THREAD_INDENT = 4;
+
+const EMPTY_COUNTS: ReplyThreadCounts = { agree: 0, disagree: 0, neutral: 0, unanswered: 0, total: 0 };
+
 interface RepliesSectionProps {
   pageId: string;
   pageTitle?: string;
@@ -43,16 +62,59 @@ interface RepliesSectionProps {
   isOwnPage?: boolean;
 }
 
-type FilterType = 'all' | 'agree' | 'disagree' | 'neutral';
+function ReplyThread({ node, onReply }: { node: ReplyThreadNode<ReplyInfo>; onReply: (reply: ReplyInfo) => void }) {
+  const { reply } = node;
+
+  return (
+    <div className={cn(node.depth > 0 && node.depth <= MAX_THREAD_INDENT && "ml-3 pl-3 border-l border-border")}>
+      <div className={cn("py-1.5 space-y-1", !node.matches && "opacity-60")}>
+        {reply.replyQuote && (
+          <blockquote className="border-l-2 border-muted-foreground/30 pl-2 text-xs text-muted-foreground italic line-clamp-3">
+            {reply.replyQuote.text}
+            {reply.quoteOutdated && <span className="not-italic"> (since edited)</span>}
+          </blockquote>
+        )}
+        <div className="flex flex-wrap items-center gap-1.5">
+          {reply.replyType === 'agree' && <Icon name="ThumbsUp" size={12} className="text-green-600" />}
+          {reply.replyType === 'disagree' && <Icon name="ThumbsDown" size={12} className="text-red-600" />}
+          <PillLink
+            href={`/${reply.id}`}
+            pageId={reply.id}
+            className="text-sm"
+          >
+            {reply.title || 'Untitled'}
+          </PillLink>
+          <UsernameBadge
+            userId={reply.userId}
+            username={reply.username}
+            size="sm"
+            showBadge={false}
+          />
+          <button
+            onClick={() => onReply(reply)}
+            className="inline-flex items-center gap-1 px-1.5 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <Icon name="Reply" size={12} />
+            Reply
+          </button>
+        </div>
+      </div>
+      {node.children.map(child => (
+        <ReplyThread key={child.reply.id} node={child} onReply={onReply} />
+      ))}
+    </div>
+  );
+}
 
 export default function RepliesSection({ pageId, pageTitle, pageUserId, pageUsername, className, isOwnPage = false }: RepliesSectionProps) {
-  const [replies, setReplies] = useState<ReplyInfo[]>([]);
   const [allReplies, setAllReplies] = useState<ReplyInfo[]>([]);
-  const [counts, setCounts] = useState<RepliesCounts>({ agree: 0, disagree: 0, neutral: 0, total: 0 });
+  const [counts, setCounts] = useState<ReplyThreadCounts>(EMPTY_COUNTS);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeFilter, setActiveFilter] = useState<FilterType>('all');
+  const [activeFilter, setActiveFilter] = useState<ReplyThreadFilter>('all');
   const [isReplyPickerOpen, setIsReplyPickerOpen] = useState(false);
+  // null replies to the page itself
+  const [replyTarget, setReplyTarget] = useState<ReplyTarget | null>(null);
   const [resolvedPageOwnerUsername, setResolvedPageOwnerUsername] = useState(pageUsername || '');
   const router = useRouter();
 
@@ -84,9 +146,22 @@ export default function RepliesSection({ pageId, pageTitle, pageUserId, pageUser
     resolveUsername();
   }, [pageUserId, pageUsername]);
 
+  const openReplyPicker = (reply: ReplyInfo | null) => {
+    setReplyTarget(reply && { id: reply.id, title: reply.title, userId: reply.userId, username: reply.username });
+    setIsReplyPickerOpen(true);
+  };
+
   const handleReply = async (replyType: 'agree' | 'disagree' | null) => {
     setIsReplyPickerOpen(false);
 
+    const target: ReplyTarget = replyTarget || {
+      id: pageId,
+      title: pageTitle || "Untitled",
+      userId: pageUserId || "",
+      // Use the resolved username (same as ContentPageActions)
+      username: resolvedPageOwnerUsername || pageUsername || 'Anonymous'
+    };
+
     try {
       // Get current user's username
       let username = '';
@@ -116,15 +191,14 @@ export default function RepliesSection({ pageId, pageTitle, pageUserId, pageUser
         username = 'Anonymous';
       }
 
-      // Use the resolved username (same as ContentPageActions)
-      const ownerUsername = resolvedPageOwnerUsername || pageUsername || 'Anonymous';
+      const ownerUsername = target.username || 'Anonymous';
 
       // Generate reply title and content using the utility functions
-      const replyTitle = generateReplyTitle(pageTitle || "Untitled");
+      const replyTitle = generateReplyTitle(target.title);
       const initialContent = createReplyContent({
-        pageId,
-        pageTitle: pageTitle || "Untitled",
-        userId: pageUserId || "",
+        pageId: target.id,
+        pageTitle: target.title,
+        userId: target.userId,
         username: ownerUsername,
         replyType: replyType || "standard"
       });
@@ -137,12 +211,12 @@ export default function RepliesSection({ pageId, pageTitle, pageUserId, pageUser
       });
 
       // Build the full reply URL with all necessary parameters
-      const replyUrl = `/new?replyTo=${pageId}&page=${encodeURIComponent(pageTitle || "Untitled")}&pageUserId=${pageUserId || ''}&pageUsername=${encodeURIComponent(ownerUsername)}&title=${params.title}&initialContent=${params.content}&username=${params.username}&replyType=${replyType || 'standard'}`;
+      const replyUrl = `/new?replyTo=${target.id}&page=${encodeURIComponent(target.title)}&pageUserId=${target.userId}&pageUsername=${encodeURIComponent(ownerUsername)}&title=${params.title}&initialContent=${params.content}&username=${params.username}&replyType=${replyType || 'standard'}`;
       router.push(replyUrl);
     } catch (error) {
       console.error('Error creating reply:', error);
       // Fallback to simple URL if something goes wrong
-      const fallbackParams = new URLSearchParams({ replyTo: pageId });
+      const fallbackParams = new URLSearchParams({ replyTo: target.id });
       if (replyType) {
         fallbackParams.set('replyType', replyType);
       }
@@ -166,8 +240,7 @@ export default function RepliesSection({ pageId, pageTitle, pageUserId, pageUser
       const data = await response.json();
       
       setAllReplies(data.replies || []);
-      setReplies(data.replies || []);
-      setCounts(data.counts || { agree: 0, disagree: 0, neutral: 0, total: 0 });
+      setCounts(data.counts || EMPTY_COUNTS);
     } catch (err) {
       console.error('Error fetching replies:', err);
       setError('Failed to load replies');
@@ -180,16 +253,13 @@ export default function RepliesSection({ pageId, pageTitle, pageUserId, pageUser
     fetchReplies();
   }, [fetchReplies]);
 
-  // Apply filter when activeFilter changes
-  useEffect(() => {
-    if (activeFilter === 'all') {
-      setReplies(allReplies);
-    } else {
-      setReplies(allReplies.filter(reply => reply.replyType === activeFilter));
-    }
-  }, [activeFilter, allReplies]);
+  // Replies to replies nest under them; filters keep the replies above a match for context
+  const threads = useMemo(
+    () => filterReplyThreads(buildReplyThreads(allReplies, pageId), activeFilter),
+    [allReplies, pageId, activeFilter]
+  );
 
-  const filterButtons: { type: FilterType; label: string; icon: React.ReactNode; count: number }[] = [
+  const filterButtons: { type: ReplyThreadFilter; label: string; icon: React.ReactNode; count: number }[] = [
     {
       type: 'all',
       label: 'All',
@@ -214,6 +284,12 @@ export default function RepliesSection({ pageId, pageTitle, pageUserId, pageUser
       icon: <Icon name="Minus" size={14} />,
       count: counts.neutral
     },
+    {
+      type: 'unanswered',
+      label: 'Unanswered',
+      icon: <Icon name="MessageSquare" size={14} />,
+      count: counts.unanswered
+    },
   ];
 
   // Hide entire section for own pages with no replies
@@ -304,31 +380,17 @@ export default function RepliesSection({ pageId, pageTitle, pageUserId, pageUser
           <div className="text-sm text-red-500 py-4 text-center">{error}</div>
         )}
 
-        {/* Replies List */}
-        {!loading && !error && replies.length > 0 && (
-          <div className="flex flex-wrap gap-2">
-            {replies.map((reply) => (
-              <div key={reply.id} className="inline-flex items-center gap-1.5">
-                <PillLink
-                  href={`/${reply.id}`}
-                  pageId={reply.id}
-                  className="text-sm"
-                >
-                  {reply.title || 'Untitled'}
-                </PillLink>
-                <UsernameBadge
-                  userId={reply.userId}
-                  username={reply.username}
-                  size="sm"
-                  showBadge={false}
-                />
-              </div>
+        {/* Reply Threads */}
+        {!loading && !error && threads.length > 0 && (
+          <div className="space-y-1">
+            {threads.map((node) => (
+              <ReplyThread key={node.reply.id} node={node} onReply={openReplyPicker} />
             ))}
           </div>
         )}
 
         {/* Empty State for Filter */}
-        {!loading && !error && replies.length === 0 && counts.total > 0 && (
+        {!loading && !error && threads.length === 0 && counts.total > 0 && (
           <div className="text-center py-4">
             <p className="text-sm text-muted-foreground mb-3">
               No {activeFilter !== 'all' ? activeFilter : ''} replies found
@@ -338,10 +400,10 @@ export default function RepliesSection({ pageId, pageTitle, pageUserId, pageUser
                 variant="secondary"
                 size="sm"
                 className="gap-2"
-                onClick={() => setIsReplyPickerOpen(true)}
+                onClick={() => openReplyPicker(null)}
               >
                 <Icon name="Reply" size={16} />
-                {activeFilter !== 'all' ? `Be the first to ${activeFilter}` : 'Reply'}
+                {activeFilter !== 'all' && activeFilter !== 'unanswered' ? `Be the first to ${activeFilter}` : 'Reply'}
               </Button>
             )}
           </div>
@@ -357,7 +419,7 @@ export default function RepliesSection({ pageId, pageTitle, pageUserId, pageUser
               variant="secondary"
               size="sm"
               className="gap-2"
-              onClick={() => setIsReplyPickerOpen(true)}
+              onClick={() => openReplyPicker(null)}
             >
               <Icon name="Reply" size={16} />
               Reply
@@ -369,7 +431,7 @@ export default function RepliesSection({ pageId, pageTitle, pageUserId, pageUser
         <Dialog open={isReplyPickerOpen} onOpenChange={setIsReplyPickerOpen}>
           <DialogContent className="max-w-sm">
             <DialogHeader>
-              <DialogTitle>Select reply type</DialogTitle>
+              <DialogTitle>{replyTarget ? `Reply to "${replyTarget.title}"` : 'Select reply type'}</DialogTitle>
             </DialogHeader>
             <div className="space-y-2 pt-2">
               <Button
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { Card, CardHeader, CardTitle, CardContent, CardFooter } from '../ui/card';
 import { Icon } from '../ui/Icon';
 import { Input } from '../ui/input';
+import { WebhooksCard } from '../settings/WebhooksCard';
 import type { Group } from '../../types/groups';
 
 interface GroupSettingsTabProps {
@@ -131,6 +132,8 @@ export default function GroupSettingsTab({ group, onGroupUpdated }: GroupSetting
         </CardFooter>
       </Card>
 
+      <WebhooksCard groupId={group.id} />
+
       <Card className="border-destructive/30">
         <CardHeader>
           <CardTitle className="text-destructive">Danger Zone</CardTitle>
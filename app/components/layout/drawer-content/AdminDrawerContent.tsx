@@ -31,6 +31,7 @@ const AdminPages: Record<string, React.LazyExoticComponent<React.ComponentType<a
   'feature-flags': lazy(() => import('../../../admin/feature-flags/page')),
   'background-images': lazy(() => import('../../../admin/background-images/page')),
   'writing-ideas': lazy(() => import('../../../admin/writing-ideas/page')),
+  'moderation': lazy(() => import('../../../admin/moderation/page')),
   'onboarding-tutorial': lazy(() => import('../../../admin/onboarding-tutorial/page')),
 'opengraph-images': lazy(() => import('../../../admin/opengraph-images/page')),
   'design-system': lazy(() => import('../../../design-system/page')),
@@ -40,6 +40,7 @@ import { getAnalyticsService } from "../../utils/analytics-service";
 import { useMediaQuery } from "../../hooks/use-media-query";
 import { useLineSettings, LINE_MODES } from "../../contexts/LineSettingsContext";
 import AddToPageButton from '../utils/AddToPageButton';
+import { ReportContentDialog } from '../utils/ReportContentDialog';
 import { AnimatedPresenceItem } from '../ui/AnimatedStack';
 
 /**
@@ -88,6 +89,7 @@ interface PageActionsProps {
     content?: any;
     userId?: string;
     username?: string;
+    replyTo?: string | null;
   };
   content: any;
   isOwner: boolean;
@@ -124,6 +126,7 @@ export function ContentPageActions({
   const [isReplyPickerOpen, setIsReplyPickerOpen] = useState(false);
   const [pageOwnerUsername, setPageOwnerUsername] = useState(page.username || '');
   const [isLayoutDialogOpen, setIsLayoutDialogOpen] = useState(false);
+  const [isReportDialogOpen, setIsReportDialogOpen] = useState(false);
 
   // Use confirmation modal hook
   const { confirmationState, confirmDelete, closeConfirmation } = useConfirmation();
@@ -402,6 +405,29 @@ export function ContentPageActions({
               size="lg"
             />
           )}
+
+          {/* Report - available to signed-in non-owners */}
+          {user && !isOwner && (
+            <>
+              <Button
+                variant="ghost"
+                size="lg"
+                className="gap-2 w-full md:w-auto rounded-2xl font-medium text-muted-foreground"
+                onClick={() => setIsReportDialogOpen(true)}
+              >
+                <Icon name="Flag" size={20} />
+                <span>Report</span>
+              </Button>
+
+              <ReportContentDialog
+                open={isReportDialogOpen}
+                onOpenChange={setIsReportDialogOpen}
+                targetType={page.replyTo ? 'reply' : 'page'}
+                targetId={page.id}
+                targetLabel={page.title}
+              />
+            </>
+          )}
         </div>
 
         {/* REMOVED: Duplicate dense mode toggle - keeping only the one under page content */}
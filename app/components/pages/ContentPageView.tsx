@@ -8,6 +8,9 @@ import { getPageById, recordPageView } from "../../utils/apiClient";
 import { getOptimizedPageData } from "../../utils/readOptimizer";
 import { useAuth } from '../../providers/AuthProvider';
 import { TextSelectionProvider } from "../../providers/TextSelectionProvider";
+import { PageAnnotationsProvider } from "../../providers/PageAnnotationsProvider";
+import PageAnnotationsSection from "../annotations/PageAnnotationsSection";
+import SuggestedEditsCard from "../suggestions/SuggestedEditsCard";
 import { PageProvider } from "../../contexts/PageContext";
 import { useRecentPages } from "../../contexts/RecentPagesContext";
 import { createLogger } from '../../utils/logger';
@@ -98,6 +101,11 @@ const WritingIdeasBanner = dynamic(() => import("../writing/WritingIdeasBanner")
   ssr: false
 });
 
+// Template picker - shown for new pages to start from a saved structure
+const PageTemplatePicker = dynamic(() => import("../templates/PageTemplatePicker"), {
+  ssr: false
+});
+
 import DeletedPageBanner from "../utils/DeletedPageBanner";
 import { Button } from "../ui/button";
 import { InlineError } from "../ui/InlineError";
@@ -107,6 +115,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from ".
 import Link from "next/link";
 
 import DenseModeToggle from "../viewer/DenseModeToggle";
+import { Switch } from "../ui/switch";
+import PageBlameView from "./PageBlameView";
 import FullPageError from "../ui/FullPageError";
 import UnsavedChangesDialog from "../utils/UnsavedChangesDialog";
 import { useUnsavedChanges } from "../../hooks/useUnsavedChanges";
@@ -137,6 +147,11 @@ if (typeof window !== 'undefined') {
   import("../content/ContentDisplay");
 }
 import EmptyLinesAlert from "../editor/EmptyLinesAlert";
+import { threeWayMerge } from "../../utils/pageMerge";
+import type { PageForkOrigin, PageSaveConflict, PageTemplateSource } from "../../types/database";
+import type { CollaborationState } from "../../hooks/useCollaborativeSession";
+import { useCrypto } from "../../contexts/CryptoContext";
+import { createContentDecryptor } from "../../hooks/useContentDecryption";
 
 // Types
 interface PageViewProps {
@@ -171,7 +186,15 @@ interface Page {
   replyType?: 'agree' | 'disagree' | 'neutral';
   replyToTitle?: string | null;
   replyToUsername?: string | null;
+  // Passage of the replied-to page selected for quoting; anchored on first save
+  replyQuote?: { text: string; blockIndex: number | null } | null;
   isPublic?: boolean;
+  currentVersion?: string;
+  groupId?: string;
+  isGroupMember?: boolean;
+  encrypted?: boolean;
+  forkedFrom?: PageForkOrigin;
+  fromTemplate?: PageTemplateSource;
 }
 
 const extractReplyType = (content: any): 'agree' | 'disagree' | 'neutral' => {
@@ -238,6 +261,9 @@ export default function ContentPageView({
   const [pageId, setPageId] = useState<string>('');
   const [page, setPage] = useState<Page | null>(null);
   const [editorState, setEditorState] = useState<any>(null);
+  // Latest editor content, for code that runs after an await (e.g. rebasing onto a merged save)
+  const editorStateRef = useRef<any>(null);
+  editorStateRef.current = editorState;
   const [isLoading, setIsLoading] = useState(true);
   const [hasOptimisticPage, setHasOptimisticPage] = useState(false);
   const [isEditing, setIsEditing] = useState(false); // MY page = always true, NOT my page = always false
@@ -249,6 +275,11 @@ export default function ContentPageView({
   const [justSaved, setJustSaved] = useState(false); // Flag to prevent data reload after save
   const justSavedRef = useRef(false); // Ref-based flag for immediate sync access
   const isNewPageRef = useRef(false); // Ref-based flag to track new page status without re-renders
+  // Version the editor content is based on - sent with each save for conflict detection
+  const baseVersionRef = useRef<string | null>(null);
+  const [saveConflict, setSaveConflict] = useState<PageSaveConflict | null>(null);
+  // True while a live editing session with other group members owns saving the content
+  const liveSessionSharedRef = useRef(false);
 
   const [title, setTitle] = useState('');
   const authorUsername = page?.username || (page as any)?.authorUsername || (page as any)?.user?.username || '';
@@ -275,6 +306,9 @@ export default function ContentPageView({
   const [showLinkSuggestions, setShowLinkSuggestions] = useState(false);
   const [linkSuggestionCount, setLinkSuggestionCount] = useState(0);
 
+  // Blame mode: annotate each paragraph with the edit that last changed it
+  const [showBlame, setShowBlame] = useState(false);
+
   // Link editor modal state - lifted from Editor to survive component remounts during save
   const [linkModalOpen, setLinkModalOpen] = useState(false);
   const [linkModalEditingLink, setLinkModalEditingLink] = useState<any>(null);
@@ -291,6 +325,7 @@ export default function ContentPageView({
   const router = useRouter();
   const searchParams = useSearchParams();
   const { user } = useAuth();
+  const { decryptForGroup } = useCrypto();
   const { addRecentPage } = useRecentPages();
   const { registerPageActions, unregisterPageActions } = useCommandPaletteActions();
 
@@ -322,7 +357,11 @@ export default function ContentPageView({
   });
 
   // Computed edit permission - moved early so hooks below can use it
-  const canEdit = user?.uid && !isPreviewingDeleted && !showVersion && !showDiff && (user.uid === page?.userId);
+  const canEdit = user?.uid && !isPreviewingDeleted && !showVersion && !showDiff && (user.uid === page?.userId || page?.isGroupMember === true);
+
+  useEffect(() => {
+    baseVersionRef.current = page?.currentVersion ?? null;
+  }, [page?.currentVersion]);
 
   // Change detection (replaces lastSaved*Refs, refsInitialized, hasChanges memo)
   const {
@@ -614,8 +653,13 @@ export default function ContentPageView({
         if (version) {
           setVersionData(version);
 
-          // Parse version content
-          let versionContent = version.content;
+          // Parse version content - encrypted-group snapshots are decrypted here in the browser
+          let versionContent = await createContentDecryptor(decryptForGroup, result.data?.pageGroupId)(version.content);
+          if (versionContent === null) {
+            setError("Unlock your encryption keys to view this version");
+            setIsLoading(false);
+            return;
+          }
           if (typeof versionContent === 'string') {
             try {
               versionContent = JSON.parse(versionContent);
@@ -676,15 +720,23 @@ export default function ContentPageView({
           const { calculateDiff } = await import('../../utils/diffService');
           const { processDiffForDisplay } = await import('../../utils/diffContentProcessor');
 
-          const diffResult = await calculateDiff(
-            currentVersion.content || '',
-            compareVersion?.content || ''
-          );
+          // Encrypted-group versions are decrypted and diffed client-side only
+          const decrypt = createContentDecryptor(decryptForGroup, result.data?.pageGroupId);
+          const currentContent = await decrypt(currentVersion.content || '');
+          const compareContent = await decrypt(compareVersion?.content || '');
+          if (currentContent === null || compareContent === null) {
+            setError("Unlock your encryption keys to compare these versions");
+            setIsLoading(false);
+            return;
+          }
+          const isEncryptedHistory = !!currentVersion.encrypted || !!compareVersion?.encrypted;
+
+          const diffResult = await calculateDiff(currentContent, compareContent, undefined, { local: isEncryptedHistory });
 
           // Process diff result into displayable content with annotations
           const processedDiff = processDiffForDisplay(
-            currentVersion.content || '',
-            compareVersion?.content || '',
+            currentContent,
+            compareContent,
             diffResult
           );
 
@@ -1129,6 +1181,12 @@ export default function ContentPageView({
       return;
     }
 
+    // Don't save over a newer version until the user has resolved the conflict
+    if (saveConflict) {
+      pageLogger.info('Save deferred - unresolved save conflict', { pageId });
+      return;
+    }
+
     // Check if there are changes to save (not for new pages)
     if (!page?.isNewPage && !hasChanges) {
       pageLogger.info('Save aborted - no changes detected', { pageId });
@@ -1160,9 +1218,19 @@ export default function ContentPageView({
         title: titleToSave,
         content: contentToSave, // Pass as object, not stringified - API will handle stringification
         location: locationToSave,
-        customDate: customDateToSave
+        customDate: customDateToSave,
+        currentVersion: baseVersionRef.current,
+        // The title this edit started from, so the server only renames the page if we did
+        baseTitle: lastSavedTitleRef.current
       };
 
+      // LIVE EDITING: The session commits the shared content as one version when it
+      // ends, so only title/location changes go through the normal save meanwhile
+      if (liveSessionSharedRef.current) {
+        delete updateData.content;
+        delete updateData.currentVersion;
+      }
+
       // VERSION BATCHING: For auto-saves, include session ID and batch flag
       // This allows multiple auto-saves within a typing session to be combined into one version
       if (isAutoSave && options?.sessionId) {
@@ -1180,6 +1248,12 @@ export default function ContentPageView({
         updateData.replyTo = page.replyTo;
         updateData.replyToTitle = page.replyToTitle;
         updateData.replyToUsername = page.replyToUsername;
+        updateData.replyQuote = page.replyQuote;
+      }
+
+      // Credit the template a new page was started from
+      if (page?.isNewPage && page?.fromTemplate) {
+        updateData.fromTemplate = page.fromTemplate.templateId;
       }
 
       // NEW PAGE MODE: Always use PUT to /api/pages for saving content
@@ -1238,6 +1312,12 @@ export default function ContentPageView({
 
         pageLogger.error('API response error: PUT /api/pages', { status: response.status, error: errorData });
 
+        // Someone else saved first - show the merge view instead of an error
+        if (response.status === 409 && errorData?.data?.conflict) {
+          setSaveConflict(errorData.data.conflict);
+          return;
+        }
+
         // Handle authentication errors specifically
         if (response.status === 401) {
           // Try to refresh the user using the API-based approach
@@ -1330,6 +1410,40 @@ export default function ContentPageView({
 
       pageLogger.info('Page saved successfully via API', { pageId });
 
+      const savedVersionId: string | null = result?.data?.currentVersion || null;
+      if (savedVersionId) {
+        baseVersionRef.current = savedVersionId;
+      }
+
+      // Someone else saved first and the server merged our edits into theirs.
+      // Rebase anything typed while the save was in flight onto the merge result;
+      // if that overlaps their edits, show the merge view instead of guessing.
+      const mergedContent = result?.data?.mergedContent;
+      const savedContent = mergedContent || contentToSave;
+      if (mergedContent) {
+        pageLogger.info('Save was merged with a concurrent edit', { pageId, mergedFrom: result.data.mergedFrom });
+        const rebase = threeWayMerge(contentToSave, mergedContent, editorStateRef.current);
+        if (rebase.clean) {
+          setEditorState(rebase.content);
+        } else {
+          setSaveConflict({
+            pageId,
+            baseVersionId: savedVersionId,
+            currentVersion: savedVersionId || baseVersionRef.current || '',
+            content: mergedContent,
+            title: result.data.title || titleToSave,
+            userId: result.data.mergedFrom?.parentUserIds?.[0],
+            merge: { content: rebase.content as any, conflictCount: rebase.conflicts.length }
+          });
+        }
+      }
+
+      // The server keeps a title someone else changed if we didn't change it ourselves
+      const savedTitle: string = result?.data?.title || titleToSave;
+      if (savedTitle !== titleToSave) {
+        setTitle(current => current.trim() === titleToSave ? savedTitle : current);
+      }
+
       // CRITICAL FIX: Properly update page state after save
       // NOTE: We intentionally do NOT call setEditorState(contentToSave) here!
       // The editorState may have changed during the async save operation (user continued typing).
@@ -1357,11 +1471,12 @@ export default function ContentPageView({
       if (page) {
         setPage(prev => prev ? {
           ...prev,
-          content: contentToSave, // CRITICAL: Keep page.content in sync to prevent data loss
-          title: titleToSave,
+          content: savedContent, // CRITICAL: Keep page.content in sync to prevent data loss
+          title: savedTitle,
           location: locationToSave,
           customDate: customDateToSave,
           lastModified: new Date().toISOString(),
+          ...(savedVersionId && { currentVersion: savedVersionId }),
         } : prev);
       }
 
@@ -1436,8 +1551,8 @@ export default function ContentPageView({
       // IMPORTANT: Use contentToSave/titleToSave (captured at save start), NOT current state
       // If user typed during save, current editorState differs from what was saved
       // This ensures hasChanges correctly detects unsaved changes after save completes
-      lastSavedContentRef.current = contentToSave;
-      lastSavedTitleRef.current = titleToSave;
+      lastSavedContentRef.current = savedContent;
+      lastSavedTitleRef.current = savedTitle;
       lastSavedLocationRef.current = locationToSave;
       lastSavedCustomDateRef.current = customDateToSave;
 
@@ -1479,7 +1594,24 @@ export default function ContentPageView({
     } finally {
       setIsSaving(false);
     }
-  }, [page, pageId, editorState, title, location, hasChanges]);
+  }, [page, pageId, editorState, title, location, hasChanges, saveConflict]);
+
+  // Resolve a save conflict: the merged content is now based on the newer server version
+  const handleResolveSaveConflict = useCallback((resolvedContent: any[]) => {
+    if (!saveConflict) return;
+    baseVersionRef.current = saveConflict.currentVersion;
+    // Both renamed the page: the next save keeps this user's title over theirs
+    if (saveConflict.titleConflict) {
+      lastSavedTitleRef.current = saveConflict.title;
+    }
+    setPage(prev => prev ? { ...prev, currentVersion: saveConflict.currentVersion } : prev);
+    setEditorState(resolvedContent);
+    setSaveConflict(null);
+  }, [saveConflict]);
+
+  const handleCollaborationChange = useCallback((state: CollaborationState) => {
+    liveSessionSharedRef.current = state.shared;
+  }, []);
 
   // Auto-save hook (replaces auto-save state, ref sync, baseline, debounce effect)
   const {
@@ -1703,6 +1835,7 @@ export default function ContentPageView({
     <>
       <PublicLayout>
         <PageProvider>
+        <PageAnnotationsProvider pageId={page && !page.isNewPage && !page.encrypted ? page.id : null}>
           <div
             className="w-full max-w-none box-border"
             style={{
@@ -1798,6 +1931,13 @@ export default function ContentPageView({
 
                       {/* Unified content display system */}
                           <div>
+                            {showBlame && page ? (
+                              <PageBlameView
+                                pageId={page.id}
+                                currentVersionId={page.currentVersion}
+                                isGroupPage={!!page.groupId}
+                              />
+                            ) : (
                             <ContentDisplay
                               content={editorState}
                               isEditable={canEdit}
@@ -1819,6 +1959,10 @@ export default function ContentPageView({
                               showLineNumbers={true}
                               showLinkSuggestions={showLinkSuggestions}
                               onLinkSuggestionCountChange={setLinkSuggestionCount}
+                              saveConflict={saveConflict}
+                              onResolveSaveConflict={handleResolveSaveConflict}
+                              collaborative={!!page?.groupId && !page?.isNewPage && !page?.encrypted}
+                              onCollaborationChange={handleCollaborationChange}
                               linkModalOpen={linkModalOpen}
                               setLinkModalOpen={setLinkModalOpen}
                               linkModalEditingLink={linkModalEditingLink}
@@ -1830,14 +1974,33 @@ export default function ContentPageView({
                               pageCreatedAt={page?.createdAt}
                               isPageOwner={user?.uid === page?.userId}
                             />
+                            )}
 
                             {/* Dense mode toggle below content - only show in view mode (hidden in print) */}
-                            {!canEdit && (
+                            {!canEdit && !showBlame && (
                               <div className="flex justify-center pt-4 no-print">
                                 <DenseModeToggle />
                               </div>
                             )}
 
+                            {/* Blame toggle - needs history, so not for new, encrypted or historical views */}
+                            {page && !page.isNewPage && !page.encrypted && !showVersion && !showDiff && (
+                              <div className="flex justify-center items-center gap-3 pt-2 no-print">
+                                <label
+                                  htmlFor="blame-mode-switch"
+                                  className="text-sm font-medium text-muted-foreground cursor-pointer"
+                                >
+                                  Show who wrote what
+                                </label>
+                                <Switch
+                                  id="blame-mode-switch"
+                                  checked={showBlame}
+                                  onCheckedChange={setShowBlame}
+                                  aria-label="Toggle blame view"
+                                />
+                              </div>
+                            )}
+
                             {/* Auto-save indicator - shown below content when editing */}
                             {canEdit && (
                               <div className="flex justify-center pt-2 no-print">
@@ -1861,6 +2024,18 @@ export default function ContentPageView({
                                 />
                               </div>
                             )}
+
+                            {/* Template picker - start a new page from one of your, your groups' or public templates */}
+                            {isNewPageMode && page?.isNewPage && !page?.replyTo && (
+                              <div className="mt-4 no-print">
+                                <PageTemplatePicker
+                                  onApply={(content, source) => {
+                                    setEditorState(content);
+                                    setPage(prev => prev ? { ...prev, fromTemplate: source } : prev);
+                                  }}
+                                />
+                              </div>
+                            )}
                           </div>
                     </UnifiedErrorBoundary>
 
@@ -1970,6 +2145,46 @@ export default function ContentPageView({
                     </div>
                   )}
 
+                  {page.forkedFrom && (
+                    <div className="rounded-2xl border border-border bg-card p-4">
+                      <p className="text-sm text-muted-foreground">Forked from</p>
+                      <Link
+                        href={`/${page.forkedFrom.pageId}/versions/${page.forkedFrom.versionId}`}
+                        className="font-semibold underline-offset-4 hover:underline"
+                      >
+                        {page.forkedFrom.title}
+                      </Link>
+                      {page.forkedFrom.versionCreatedAt && (
+                        <span className="text-sm text-muted-foreground">
+                          {' '}as of {new Date(page.forkedFrom.versionCreatedAt).toLocaleDateString()}
+                        </span>
+                      )}
+                    </div>
+                  )}
+
+                  {page.fromTemplate && (
+                    <div className="rounded-2xl border border-border bg-card p-4">
+                      <p className="text-sm text-muted-foreground">Made from the template</p>
+                      <Link href="/templates" className="font-semibold underline-offset-4 hover:underline">
+                        {page.fromTemplate.title}
+                      </Link>
+                      <span className="text-sm text-muted-foreground">
+                        {' '}by{' '}
+                        <Link href={`/u/${page.fromTemplate.userId}`} className="underline-offset-4 hover:underline">
+                          {page.fromTemplate.username}
+                        </Link>
+                      </span>
+                    </div>
+                  )}
+
+                  {/* Suggested edits - suggest one as a reader, or review them as an editor */}
+                  {!page.encrypted && !showVersion && !showDiff && (
+                    <SuggestedEditsCard pageId={page.id} />
+                  )}
+
+                  {/* Margin comments on the page's text, with resolve actions for editors */}
+                  <PageAnnotationsSection />
+
                   {/* Replies Section - shows all replies to this page with type filtering */}
                   <RepliesSection
                     pageId={page.id}
@@ -2028,6 +2243,7 @@ export default function ContentPageView({
 
 
         </div>
+        </PageAnnotationsProvider>
       </PageProvider>
     </PublicLayout>
 
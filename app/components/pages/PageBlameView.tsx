@@ -0,0 +1,83 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import Link from 'next/link';
+import { usePageBlame } from '../../hooks/usePageBlame';
+import { extractTextContent } from '../../utils/text-extraction';
+import { formatRelativeTime } from '../../utils/formatRelativeTime';
+import { UsernameBadge } from '../ui/UsernameBadge';
+import { InlineError } from '../ui/InlineError';
+
+interface PageBlameViewProps {
+  pageId: string;
+  currentVersionId?: string | null;
+  // Group pages also get a per-author tally to go with their fund distribution
+  isGroupPage?: boolean;
+}
+
+/**
+ * PageBlameView - read-only page content with every paragraph annotated with
+ * the author, version and date of the edit that last changed it.
+ */
+export default function PageBlameView({ pageId, currentVersionId, isGroupPage = false }: PageBlameViewProps) {
+  const { paragraphs, loading, error } = usePageBlame(pageId, currentVersionId, true);
+
+  const authorTally = useMemo(() => {
+    const tally = new Map<string, { userId: string; username: string; count: number }>();
+    for (const { author } of paragraphs) {
+      if (!author) continue;
+      const entry = tally.get(author.userId) || { userId: author.userId, username: author.username, count: 0 };
+      entry.count++;
+      tally.set(author.userId, entry);
+    }
+    return Array.from(tally.values()).sort((a, b) => b.count - a.count);
+  }, [paragraphs]);
+
+  if (loading && paragraphs.length === 0) {
+    return <div className="p-4 text-sm text-muted-foreground">Working out who wrote what...</div>;
+  }
+
+  if (error) {
+    return <InlineError message={error} variant="error" size="md" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      {isGroupPage && authorTally.length > 0 && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 rounded-lg bg-muted/50 p-3 text-sm text-muted-foreground">
+          <span>Paragraphs by author:</span>
+          {authorTally.map(entry => (
+            <span key={entry.userId} className="flex items-center gap-1">
+              <UsernameBadge userId={entry.userId} username={entry.username} showBadge={false} size="sm" />
+              <span>{entry.count}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="divide-y divide-border">
+        {paragraphs.map(({ block, author }, index) => (
+          <div key={index} className="grid grid-cols-1 gap-1 py-2 md:grid-cols-[12rem_1fr] md:gap-4">
+            <div className="flex flex-wrap items-center gap-x-2 text-xs text-muted-foreground">
+              {author ? (
+                <>
+                  <UsernameBadge userId={author.userId} username={author.username} showBadge={false} size="sm" />
+                  <Link href={`/${pageId}/versions/${author.versionId}`} className="hover:underline">
+                    {author.createdAt ? (
+                      <span title={new Date(author.createdAt).toLocaleString()}>{formatRelativeTime(author.createdAt)}</span>
+                    ) : 'View version'}
+                  </Link>
+                </>
+              ) : (
+                <span>Unknown</span>
+              )}
+            </div>
+            <div className="whitespace-pre-wrap text-sm leading-relaxed">
+              {extractTextContent([block]) || ' '}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ import WeWriteLogo from '../ui/WeWriteLogo';
 interface PageVersionsHeaderProps {
   pageTitle: string;
   isLoading?: boolean;
+  // Overrides the default "Versions for ..." heading
+  heading?: string;
 }
 
 /**
@@ -18,7 +20,8 @@ interface PageVersionsHeaderProps {
  */
 export default function PageVersionsHeader({ 
   pageTitle, 
-  isLoading = false 
+  isLoading = false,
+  heading
 }: PageVersionsHeaderProps) {
   const router = useRouter();
 
@@ -61,7 +64,7 @@ export default function PageVersionsHeader({
         {/* Bottom row: Title */}
         <div className="px-4 pb-4">
           <h1 className="text-lg font-semibold text-center">
-            {isLoading ? 'Loading...' : `Versions for "${pageTitle}"`}
+            {isLoading ? 'Loading...' : heading || `Versions for "${pageTitle}"`}
           </h1>
         </div>
       </div>
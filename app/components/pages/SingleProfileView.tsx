@@ -6,6 +6,7 @@ import { ProfilePagesProvider } from "../../providers/ProfilePageProvider";
 import { useAuth } from '../../providers/AuthProvider';
 import { UsernameBadge } from "../ui/UsernameBadge";
 import { UserFollowButton } from "../utils/UserFollowButton";
+import { UserBlockMenu } from "../utils/UserBlockMenu";
 
 import UserProfileTabs from '../utils/UserProfileTabs';
 import AllocationBar from '../payments/AllocationBar';
@@ -73,6 +74,14 @@ const SingleProfileView: React.FC<SingleProfileViewProps> = ({ profile }) => {
               />
             )}
 
+            {/* Mute/block menu - only show for other users */}
+            {!isCurrentUser && (
+              <UserBlockMenu
+                userId={profile.uid}
+                username={profile.username}
+              />
+            )}
+
             {/* Admin info button - only visible to admins */}
             {isAdmin && (
               <button
@@ -0,0 +1,139 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Icon } from '@/components/ui/Icon';
+import { Button } from '../ui/button';
+import { toast } from '../ui/use-toast';
+import { ConfirmationModal, PromptModal } from '../utils/UnifiedModal';
+import { versionsApi } from '../../utils/apiClient';
+import { useAuth } from '../../providers/AuthProvider';
+
+interface VersionActionsProps {
+  pageId: string;
+  versionId: string;
+  versionTitle?: string;
+  versionContent: any;
+  // Most recent version of the page, used as the default comparison target
+  currentVersionId?: string | null;
+  isCurrentVersion: boolean;
+  // Encrypted-group versions can't be forked: the new page would be stored as plaintext
+  isEncrypted?: boolean;
+  // Only the author and group members can restore a version
+  canEdit?: boolean;
+}
+
+/**
+ * VersionActions - compare, restore and fork controls for a historical version.
+ *
+ * Restoring saves the old content as a new version (nothing is overwritten);
+ * forking starts a brand-new page from this version that links back to it.
+ */
+export default function VersionActions({
+  pageId,
+  versionId,
+  versionTitle,
+  versionContent,
+  currentVersionId,
+  isCurrentVersion,
+  isEncrypted = false,
+  canEdit = false,
+}: VersionActionsProps) {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [showRestoreConfirm, setShowRestoreConfirm] = useState(false);
+  const [showForkPrompt, setShowForkPrompt] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const compareTarget = !isCurrentVersion && currentVersionId ? currentVersionId : '';
+
+  const handleRestore = async () => {
+    setIsWorking(true);
+    const response = await versionsApi.setCurrentVersion(pageId, versionId);
+    setIsWorking(false);
+    setShowRestoreConfirm(false);
+
+    if (!response.success) {
+      toast.error(response.error || 'Failed to restore this version');
+      return;
+    }
+
+    toast.success('Version restored');
+    router.push(`/${pageId}`);
+  };
+
+  const handleFork = async (title: string) => {
+    const trimmedTitle = title.trim();
+    if (!trimmedTitle) {
+      toast.error('Please enter a title');
+      return;
+    }
+
+    setIsWorking(true);
+    const response = await versionsApi.forkVersion(pageId, versionId, trimmedTitle, versionContent);
+    setIsWorking(false);
+    setShowForkPrompt(false);
+
+    const newPageId = response.data?.id;
+    if (!response.success || !newPageId) {
+      toast.error(response.error || 'Failed to fork this version');
+      return;
+    }
+
+    toast.success('Forked into a new page');
+    router.push(`/${newPageId}`);
+  };
+
+  return (
+    <div className="mb-4 flex flex-wrap gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-1"
+        onClick={() => router.push(`/${pageId}/versions/compare?from=${versionId}${compareTarget ? `&to=${compareTarget}` : ''}`)}
+      >
+        <Icon name="GitCompare" size={16} />
+        Compare
+      </Button>
+
+      {user && canEdit && !isCurrentVersion && (
+        <Button variant="outline" size="sm" className="gap-1" onClick={() => setShowRestoreConfirm(true)}>
+          <Icon name="RotateCcw" size={16} />
+          Restore this version
+        </Button>
+      )}
+
+      {user && !isEncrypted && (
+        <Button variant="outline" size="sm" className="gap-1" onClick={() => setShowForkPrompt(true)}>
+          <Icon name="GitBranch" size={16} />
+          Fork into new page
+        </Button>
+      )}
+
+      <ConfirmationModal
+        isOpen={showRestoreConfirm}
+        onClose={() => setShowRestoreConfirm(false)}
+        onConfirm={handleRestore}
+        title="Restore this version?"
+        message="The page will go back to this version's content. This is saved as a new version, so the current content stays in the history."
+        confirmText="Restore"
+        cancelText="Cancel"
+        type="warning"
+        isLoading={isWorking}
+      />
+
+      <PromptModal
+        isOpen={showForkPrompt}
+        onClose={() => setShowForkPrompt(false)}
+        onConfirm={handleFork}
+        title="Fork into a new page"
+        message="Start a new page from this version. It will link back to where it came from."
+        placeholder="Page title"
+        defaultValue={versionTitle ? `${versionTitle} (fork)` : ''}
+        confirmText="Create page"
+        cancelText="Cancel"
+        isLoading={isWorking}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { calculateDiff, DiffOperation, ContentDecryptor } from '../../utils/diffService';
+import { DiffStats } from '../activity/DiffPreview';
+import { UsernameBadge } from '../ui/UsernameBadge';
+import { formatRelativeTime } from '../../utils/formatRelativeTime';
+
+export interface ComparableVersion {
+  id: string;
+  content: any;
+  createdAt: string;
+  userId?: string;
+  username?: string;
+  title?: string;
+}
+
+interface VersionCompareViewProps {
+  from: ComparableVersion;
+  to: ComparableVersion;
+  // Decrypts encrypted-group snapshots so they're diffed in the browser
+  decrypt?: ContentDecryptor;
+}
+
+function VersionColumnHeader({ label, version }: { label: string; version: ComparableVersion }) {
+  return (
+    <div className="mb-2 flex flex-wrap items-center gap-x-2 text-xs text-muted-foreground">
+      <span className="font-medium text-foreground">{label}</span>
+      <span title={new Date(version.createdAt).toLocaleString()}>{formatRelativeTime(version.createdAt)}</span>
+      {version.username && (
+        <UsernameBadge userId={version.userId || ''} username={version.username} showBadge={false} size="sm" />
+      )}
+    </div>
+  );
+}
+
+/**
+ * VersionCompareView - side-by-side diff of any two versions of a page.
+ *
+ * Uses the DiffOperation output of /api/diff: the left column shows the older
+ * version with removed text struck through in red, the right column the newer
+ * version with added text in green. Styling follows DiffPreview.
+ */
+export default function VersionCompareView({ from, to, decrypt }: VersionCompareViewProps) {
+  const [operations, setOperations] = useState<DiffOperation[] | null>(null);
+  const [stats, setStats] = useState({ added: 0, removed: 0 });
+  const [locked, setLocked] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setOperations(null);
+    setLocked(false);
+
+    (async () => {
+      const [toContent, fromContent] = decrypt
+        ? await Promise.all([decrypt(to.content), decrypt(from.content)])
+        : [to.content, from.content];
+      if (cancelled) return;
+
+      if (toContent === null || fromContent === null) {
+        setLocked(true);
+        return;
+      }
+
+      const result = await calculateDiff(toContent, fromContent, undefined, { local: !!decrypt });
+      if (cancelled) return;
+      setOperations(result.operations || []);
+      setStats({ added: result.added || 0, removed: result.removed || 0 });
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to, decrypt]);
+
+  if (locked) {
+    return (
+      <div className="p-4 text-sm text-muted-foreground">
+        These versions are encrypted. Unlock your encryption keys to compare them.
+      </div>
+    );
+  }
+
+  if (operations === null) {
+    return <div className="p-4 text-sm text-muted-foreground">Comparing versions...</div>;
+  }
+
+  return (
+    <div>
+      <div className="mb-3 flex items-center justify-between rounded-lg bg-muted/50 p-3 text-sm text-muted-foreground">
+        <span>{operations.some(op => op.type !== 'equal') ? 'Changes between these versions:' : 'These versions have the same text.'}</span>
+        <DiffStats added={stats.added} removed={stats.removed} showTooltips={true} className="text-sm" />
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <div className="wewrite-card p-4">
+          <VersionColumnHeader label="Older" version={from} />
+          <div className="whitespace-pre-wrap text-sm leading-relaxed">
+            {operations.map((op, index) => {
+              if (op.type === 'add') return null;
+              if (op.type === 'remove') {
+                return (
+                  <span key={index} className="bg-red-500/20 dark:bg-red-500/30 text-red-600 dark:text-red-400 px-0.5 rounded line-through">
+                    {op.text}
+                  </span>
+                );
+              }
+              return <span key={index}>{op.text}</span>;
+            })}
+          </div>
+        </div>
+
+        <div className="wewrite-card p-4">
+          <VersionColumnHeader label="Newer" version={to} />
+          <div className="whitespace-pre-wrap text-sm leading-relaxed">
+            {operations.map((op, index) => {
+              if (op.type === 'remove') return null;
+              if (op.type === 'add') {
+                return (
+                  <span key={index} className="bg-green-500/20 dark:bg-green-500/30 text-green-600 dark:text-green-400 px-0.5 rounded">
+                    {op.text}
+                  </span>
+                );
+              }
+              return <span key={index}>{op.text}</span>;
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -24,7 +24,8 @@ import {
   FloatingAllocationBarProps,
   PageStats,
   Subscription,
-  CompositionBarData
+  CompositionBarData,
+  RecurringPledgeTargetType
 } from '../../types/allocation';
 
 interface AllocationBarProps extends Omit<FloatingAllocationBarProps, 'pageId' | 'authorId' | 'pageTitle'> {
@@ -36,6 +37,8 @@ interface AllocationBarProps extends Omit<FloatingAllocationBarProps, 'pageId' |
   // For user allocation mode
   isUserAllocation?: boolean;
   username?: string;
+  // What a "repeat every month" pledge from this bar supports (defaults from isUserAllocation)
+  recurringTargetType?: RecurringPledgeTargetType;
 }
 
 const AllocationBar = React.forwardRef<HTMLDivElement, AllocationBarProps>(({
@@ -47,6 +50,7 @@ const AllocationBar = React.forwardRef<HTMLDivElement, AllocationBarProps>(({
   variant = 'default',
   isUserAllocation = false,
   username,
+  recurringTargetType,
 }, ref) => {
   const { user } = useAuth();
   const pathname = usePathname();
@@ -506,6 +510,9 @@ const AllocationBar = React.forwardRef<HTMLDivElement, AllocationBarProps>(({
         pageId={pageId}
         pageTitle={pageTitle}
         authorId={authorId}
+        recurringTarget={user && !isPageOwner && pageId
+          ? { type: recurringTargetType || (isUserAllocation ? 'user' : 'page'), id: pageId }
+          : undefined}
         currentAllocation={allocationState.currentAllocationCents}
         onAllocationChange={async (newAllocationCents: number) => {
           // Persist the change instead of only optimistically updating.
@@ -0,0 +1,98 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent } from '../ui/card';
+import { RadioGroup, RadioGroupItem } from '../ui/radio-group';
+import { toast } from '../ui/use-toast';
+import type { CarryOverRule } from '../../types/allocation';
+
+const RULE_OPTIONS: { value: CarryOverRule; label: string; description: string }[] = [
+  {
+    value: 'none',
+    label: 'Use it or lose it',
+    description: 'Unallocated funds go to WeWrite at the end of the month.',
+  },
+  {
+    value: 'most_read_writers',
+    label: 'My most-read writers',
+    description: 'Split between the writers you read most this month, by how much you read them.',
+  },
+  {
+    value: 'pages_viewed',
+    label: 'Pages I viewed',
+    description: 'Split evenly across every page you viewed this month.',
+  },
+];
+
+/**
+ * Lets a supporter choose what happens to the funds they didn't allocate
+ * by the end of the month.
+ */
+export function CarryOverRuleCard() {
+  const [rule, setRule] = useState<CarryOverRule | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/usd/carry-over', { credentials: 'include' })
+      .then(res => res.ok ? res.json() : null)
+      .then(data => setRule(data?.rule || 'none'))
+      .catch(() => setRule('none'));
+  }, []);
+
+  const handleChange = async (value: string) => {
+    const previous = rule;
+    setRule(value as CarryOverRule);
+    setIsSaving(true);
+
+    try {
+      const res = await fetch('/api/usd/carry-over', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ rule: value }),
+      });
+      if (!res.ok) throw new Error('Failed to save');
+    } catch {
+      setRule(previous);
+      toast.error('Could not save your choice. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div>
+          <h3 className="font-medium">Unallocated funds</h3>
+          <p className="text-sm text-muted-foreground">
+            Choose where anything you haven't allocated goes when the month ends.
+          </p>
+        </div>
+
+        <RadioGroup
+          value={rule ?? undefined}
+          onValueChange={handleChange}
+          disabled={rule === null || isSaving}
+          className="gap-3"
+        >
+          {RULE_OPTIONS.map(option => (
+            <label key={option.value} className="flex items-start gap-3 cursor-pointer">
+              <RadioGroupItem value={option.value} className="mt-1" />
+              <div>
+                <div className="text-sm font-medium">{option.label}</div>
+                <div className="text-xs text-muted-foreground">{option.description}</div>
+              </div>
+            </label>
+          ))}
+        </RadioGroup>
+
+        {rule && rule !== 'none' && (
+          <p className="text-xs text-muted-foreground">
+            While this is on, we keep a private tally of the pages you read this month to divide your funds.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
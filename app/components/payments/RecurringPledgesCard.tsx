@@ -0,0 +1,108 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Icon } from '../ui/Icon';
+import { toast } from '../ui/use-toast';
+import { formatUsdCents } from '../../utils/formatCurrency';
+import { getRecurringPledges, cancelRecurringPledge } from '../../services/pledgeBudgetService';
+import type { RecurringPledge } from '../../types/allocation';
+
+const TARGET_HREF: Record<RecurringPledge['targetType'], (id: string) => string> = {
+  page: (id) => `/${id}`,
+  user: (id) => `/u/${id}`,
+  group: (id) => `/g/${id}`,
+};
+
+const SUSPENSION_LABELS: Record<NonNullable<RecurringPledge['suspensionReason']>, string> = {
+  subscription_inactive: 'Paused - no active subscription',
+  insufficient_budget: 'Paused - over your monthly budget',
+};
+
+function describeAmount(pledge: RecurringPledge): string {
+  return pledge.amountType === 'percentage'
+    ? `${pledge.percent}% of budget / month`
+    : `${formatUsdCents(pledge.usdCents || 0)} / month`;
+}
+
+/**
+ * Lists a supporter's recurring pledges and lets them cancel one.
+ * Pledges are created from the allocation details modal.
+ */
+export function RecurringPledgesCard() {
+  const [pledges, setPledges] = useState<RecurringPledge[] | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const loadPledges = () => {
+    getRecurringPledges().then(setPledges);
+  };
+
+  useEffect(() => {
+    loadPledges();
+  }, []);
+
+  const handleCancel = async (pledge: RecurringPledge) => {
+    setCancellingId(pledge.id);
+    const cancelled = await cancelRecurringPledge(pledge.id);
+    setCancellingId(null);
+
+    if (cancelled) {
+      toast.success(`Stopped repeating your pledge to ${pledge.targetTitle || 'this'}`);
+      // Cancelling can restore other pledges that were paused for budget
+      loadPledges();
+    } else {
+      toast.error('Could not cancel the pledge. Please try again.');
+    }
+  };
+
+  if (!pledges || pledges.length === 0) return null;
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div>
+          <h3 className="font-medium">Recurring pledges</h3>
+          <p className="text-sm text-muted-foreground">
+            Allocated automatically at the start of each month. When your budget can't cover
+            them all, the largest are paused until it can.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {pledges.map(pledge => (
+            <div key={pledge.id} className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <Link
+                  href={TARGET_HREF[pledge.targetType](pledge.targetId)}
+                  className="text-sm font-medium truncate block hover:underline"
+                >
+                  {pledge.targetTitle || pledge.targetId}
+                </Link>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span>{describeAmount(pledge)}</span>
+                  {pledge.status === 'suspended' && pledge.suspensionReason && (
+                    <Badge variant="warning-secondary" size="sm">
+                      {SUSPENSION_LABELS[pledge.suspensionReason]}
+                    </Badge>
+                  )}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleCancel(pledge)}
+                disabled={cancellingId === pledge.id}
+                aria-label="Cancel recurring pledge"
+              >
+                {cancellingId === pledge.id ? <Icon name="Loader" size={16} /> : <Icon name="X" size={16} />}
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -20,6 +20,10 @@ import { USD_UI_TEXT } from '../../utils/usdConstants';
 import { useUsdBalance } from '../../contexts/UsdBalanceContext';
 import { useSubscription } from '../../contexts/SubscriptionContext';
 import { useDemoBalance, useShouldUseDemoBalance } from '../../contexts/DemoBalanceContext';
+import { Switch } from '../ui/switch';
+import { toast } from '../ui/use-toast';
+import { createRecurringPledge } from '../../services/pledgeBudgetService';
+import type { RecurringPledgeTargetType } from '../../types/allocation';
 
 interface UsdAllocationModalProps {
   isOpen: boolean;
@@ -31,6 +35,8 @@ interface UsdAllocationModalProps {
   onAllocationChange: (newAllocationCents: number) => Promise<void>;
   isUserAllocation?: boolean;
   username?: string;
+  /** Offer to repeat the allocation every month for this target */
+  recurringTarget?: { type: RecurringPledgeTargetType; id: string };
 }
 
 export function UsdAllocationModal({
@@ -42,7 +48,8 @@ export function UsdAllocationModal({
   currentAllocation,
   onAllocationChange,
   isUserAllocation = false,
-  username
+  username,
+  recurringTarget
 }: UsdAllocationModalProps) {
   const { usdBalance } = useUsdBalance();
   const { hasActiveSubscription } = useSubscription();
@@ -52,12 +59,17 @@ export function UsdAllocationModal({
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [incrementAmount, setIncrementAmount] = useState(0.50); // Default $0.50 increment
+  const [repeatMonthly, setRepeatMonthly] = useState(false);
+  const [repeatAsPercent, setRepeatAsPercent] = useState(false);
+  const [percentInput, setPercentInput] = useState('10');
 
   // Initialize input value when modal opens
   useEffect(() => {
     if (isOpen) {
       setInputValue(centsToDollars(currentAllocation).toFixed(2));
       setError(null);
+      setRepeatMonthly(false);
+      setRepeatAsPercent(false);
     }
   }, [isOpen, currentAllocation]);
 
@@ -124,11 +136,37 @@ export function UsdAllocationModal({
       return;
     }
 
+    const percent = Number(percentInput);
+    if (repeatMonthly && repeatAsPercent && !(Number.isInteger(percent) && percent >= 1 && percent <= 100)) {
+      setError('Enter a whole percentage between 1 and 100');
+      return;
+    }
+    if (repeatMonthly && !repeatAsPercent && newAllocationCents === 0) {
+      setError('Enter an amount to repeat every month');
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
 
     try {
       await onAllocationChange(newAllocationCents);
+
+      if (repeatMonthly && recurringTarget) {
+        const { error: pledgeError } = await createRecurringPledge({
+          targetType: recurringTarget.type,
+          targetId: recurringTarget.id,
+          ...(repeatAsPercent
+            ? { amountType: 'percentage', percent }
+            : { amountType: 'fixed', usdCents: newAllocationCents })
+        });
+        if (pledgeError) {
+          toast.error(`Allocation saved, but it won't repeat: ${pledgeError}`);
+        } else {
+          toast.success('This will now repeat every month until you cancel it');
+        }
+      }
+
       onClose();
     } catch (error) {
       console.error('Error updating allocation:', error);
@@ -368,6 +406,59 @@ export function UsdAllocationModal({
             )}
           </div>
 
+          {/* Repeat every month */}
+          {recurringTarget && !isDemoBalance && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="repeat-monthly" className="text-sm font-medium">
+                  Repeat every month
+                </Label>
+                <Switch
+                  id="repeat-monthly"
+                  checked={repeatMonthly}
+                  onCheckedChange={setRepeatMonthly}
+                  disabled={isLoading}
+                />
+              </div>
+              {repeatMonthly && (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      variant={!repeatAsPercent ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setRepeatAsPercent(false)}
+                      className="text-xs"
+                    >
+                      This amount
+                    </Button>
+                    <Button
+                      variant={repeatAsPercent ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setRepeatAsPercent(true)}
+                      className="text-xs"
+                    >
+                      % of my budget
+                    </Button>
+                  </div>
+                  {repeatAsPercent && (
+                    <Input
+                      type="text"
+                      inputMode="numeric"
+                      value={percentInput}
+                      onChange={(e) => setPercentInput(e.target.value.replace(/\D/g, '').slice(0, 3))}
+                      rightIcon={<Icon name="Percent" size={16} />}
+                      disabled={isLoading}
+                    />
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    Allocated automatically at the start of each month until you cancel it in
+                    your spending settings. Paused if your subscription can't cover it.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* USD info */}
           <div className="text-xs text-muted-foreground bg-muted/30 rounded p-2">
             <p>{USD_UI_TEXT.TOOLTIP_TEXT}</p>
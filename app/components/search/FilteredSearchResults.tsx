@@ -4,6 +4,7 @@ import React, {
   useRef,
   useCallback,
   useEffect,
+  useMemo,
   forwardRef
 } from "react";
 import { Icon } from '@/components/ui/Icon';
@@ -32,6 +33,7 @@ import { getBatchUserData } from '../../utils/apiClient';
 import searchPerformanceMonitor from '../../utils/searchPerformanceMonitor';
 import { shouldAllowRequest } from "../../utils/requestThrottle";
 import { cn, wewriteCard } from '../../lib/utils';
+import { getSearchOperatorSuggestions, applySearchOperatorSuggestion } from '../../utils/searchQueryParser';
 
 // Simple Loader component - uses centralized GridLoader via Icon
 const Loader = () => {
@@ -390,6 +392,14 @@ const FilteredSearchResults = forwardRef(({
     }
   }, [debouncedSearch, onInputChange, characterCount, isLinkEditor, resetSearchResults]);
 
+  // Autocomplete for search operators like author: and is:reply
+  const operatorSuggestions = useMemo(() => getSearchOperatorSuggestions(search), [search]);
+
+  const handleOperatorSelect = useCallback((operator) => {
+    handleSearchChange({ target: { value: applySearchOperatorSuggestion(search, operator) } });
+    (searchInputRef.current as HTMLInputElement | null)?.focus();
+  }, [search, handleSearchChange]);
+
   // Handle clearing the search input
   const handleClear = useCallback(() => {
     setSearch("");
@@ -575,6 +585,24 @@ const FilteredSearchResults = forwardRef(({
 
       </div>
 
+      {/* Search operator suggestions */}
+      {operatorSuggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-3 flex-shrink-0">
+          {operatorSuggestions.map((operator) => (
+            <button
+              key={operator.syntax}
+              type="button"
+              onClick={() => handleOperatorSelect(operator)}
+              title={`e.g. ${operator.example}`}
+              className="px-2.5 py-1 text-xs rounded-full bg-muted hover:bg-muted/80 text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <span className="font-medium text-foreground">{operator.syntax}</span>
+              <span className="ml-1">{operator.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Filter Chips - collapsible in link editor mode */}
       {isLinkEditor && (
         <div className={`overflow-hidden transition-all duration-300 ease-in-out ${
@@ -249,19 +249,19 @@ export default function RecentSearches({ onSelect, userId = null, selectedIndex
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => {
-                    const saved = saveSearchQuery(search.term, userId);
-                    if (saved) {
+                  onClick={async () => {
+                    const { error } = await saveSearchQuery(search.term);
+                    if (!error) {
                       // Dispatch event to refresh saved searches
                       window.dispatchEvent(new Event('savedSearchesUpdated'));
                       toast({
                         title: "Search saved",
-                        description: `"${search.term}" added to saved searches`,
+                        description: `You'll be notified when new pages match "${search.term}"`,
                       });
                     } else {
                       toast({
-                        title: "Already saved",
-                        description: `"${search.term}" is already in saved searches`,
+                        title: "Couldn't save search",
+                        description: error,
                       });
                     }
                   }}
@@ -2,7 +2,7 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { Icon } from '@/components/ui/Icon';
-import { getSavedSearches, clearSavedSearches, deleteSavedSearch } from "../../utils/savedSearches";
+import { getSavedSearches, clearSavedSearches, deleteSavedSearch, type SavedSearch } from "../../utils/savedSearches";
 import { Button } from "../ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "../ui/dialog";
 import { ConfirmationModal } from '../utils/UnifiedModal';
@@ -17,15 +17,15 @@ import { ConfirmationModal } from '../utils/UnifiedModal';
  * @param {string} props.userId - User ID for personalized saved searches
  */
 const SavedSearches = React.memo(function SavedSearches({ onSelect, userId = null }) {
-  const [savedSearches, setSavedSearches] = useState([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
-  const [deleteIndex, setDeleteIndex] = useState(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
   const [deleteSearchTerm, setDeleteSearchTerm] = useState('');
   const [showClearAllModal, setShowClearAllModal] = useState(false);
 
   // Function to load saved searches
-  const loadSavedSearches = () => {
-    const searches = getSavedSearches(userId);
+  const loadSavedSearches = async () => {
+    const searches = await getSavedSearches(userId);
     setSavedSearches(searches);
   };
 
@@ -54,28 +54,28 @@ const SavedSearches = React.memo(function SavedSearches({ onSelect, userId = nul
   };
 
   // Confirm clearing all saved searches
-  const confirmClearAll = () => {
-    clearSavedSearches(userId);
+  const confirmClearAll = async () => {
+    await clearSavedSearches(savedSearches);
     setSavedSearches([]);
     setShowClearAllModal(false);
   };
 
   // Handle deleting a specific saved search
-  const handleDeleteClick = (index, term) => {
-    setDeleteIndex(index);
+  const handleDeleteClick = (id, term) => {
+    setDeleteId(id);
     setDeleteSearchTerm(term);
     setShowDeleteDialog(true);
   };
 
   // Confirm deletion of a saved search
-  const confirmDelete = () => {
-    if (deleteIndex !== null) {
-      deleteSavedSearch(deleteIndex, userId);
+  const confirmDelete = async () => {
+    if (deleteId !== null) {
+      await deleteSavedSearch(deleteId);
       setSavedSearches(prevSearches =>
-        prevSearches.filter((_, i) => i !== deleteIndex)
+        prevSearches.filter(search => search.id !== deleteId)
       );
       setShowDeleteDialog(false);
-      setDeleteIndex(null);
+      setDeleteId(null);
     }
   };
 
@@ -117,22 +117,22 @@ const SavedSearches = React.memo(function SavedSearches({ onSelect, userId = nul
       </div>
 
       <div className="flex flex-wrap gap-2">
-        {savedSearches.map((search, index) => (
+        {savedSearches.map((search) => (
           <div
-            key={`${search.term}-${index}`}
+            key={search.id}
             className="wewrite-card flex items-center text-foreground px-3 py-1.5 text-sm transition-all hover:shadow-sm cursor-pointer group"
           >
             <span
               className="mr-1"
-              onClick={() => onSelect(search.term)}
+              onClick={() => onSelect(search.query)}
             >
-              {search.term}
+              {search.query}
             </span>
             <Icon
               name="X"
               size={12}
               className="text-muted-foreground hover:text-foreground cursor-pointer opacity-70 group-hover:opacity-100"
-              onClick={() => handleDeleteClick(index, search.term)}
+              onClick={() => handleDeleteClick(search.id, search.query)}
             />
           </div>
         ))}
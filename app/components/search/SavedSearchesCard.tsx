@@ -0,0 +1,98 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent } from '../ui/card';
+import { Button } from '../ui/button';
+import { Switch } from '../ui/switch';
+import { Icon } from '../ui/Icon';
+import { toast } from '../ui/use-toast';
+import { getSavedSearches, updateSavedSearch, deleteSavedSearch, type SavedSearch } from '../../utils/savedSearches';
+import { getSavedSearchUrl } from '../../utils/savedSearchMatches';
+
+/**
+ * Lists a user's saved searches with switches for new-match notifications
+ * and weekly digest inclusion. Searches are saved from the command palette.
+ */
+export function SavedSearchesCard({ userId }: { userId: string }) {
+  const [searches, setSearches] = useState<SavedSearch[] | null>(null);
+
+  useEffect(() => {
+    getSavedSearches(userId).then(setSearches);
+  }, [userId]);
+
+  const handleToggle = async (search: SavedSearch, field: 'notify' | 'includeInDigest', enabled: boolean) => {
+    setSearches(prev => prev?.map(s => s.id === search.id ? { ...s, [field]: enabled } : s) ?? null);
+
+    const updated = await updateSavedSearch(search.id, { [field]: enabled });
+    if (!updated) {
+      setSearches(prev => prev?.map(s => s.id === search.id ? search : s) ?? null);
+      toast.error('Could not update the saved search. Please try again.');
+    }
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    const deleted = await deleteSavedSearch(search.id);
+    if (deleted) {
+      setSearches(prev => prev?.filter(s => s.id !== search.id) ?? null);
+    } else {
+      toast.error('Could not delete the saved search. Please try again.');
+    }
+  };
+
+  if (!searches || searches.length === 0) return null;
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div>
+          <h3 className="font-medium">Saved searches</h3>
+          <p className="text-sm text-muted-foreground">
+            Checked every hour for new pages. Choose which ones notify you and which are
+            collected in your weekly digest email.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          {searches.map(search => (
+            <div key={search.id} className="flex items-center justify-between gap-3">
+              <Link
+                href={getSavedSearchUrl(search.query)}
+                className="text-sm font-medium truncate min-w-0 hover:underline"
+              >
+                {search.query}
+              </Link>
+              <div className="flex items-center gap-3 shrink-0">
+                <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                  <Switch
+                    checked={search.notify}
+                    onCheckedChange={(checked) => handleToggle(search, 'notify', checked)}
+                    aria-label={`Notify me about new matches for ${search.query}`}
+                  />
+                  Notify
+                </label>
+                <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                  <Switch
+                    checked={search.includeInDigest}
+                    onCheckedChange={(checked) => handleToggle(search, 'includeInDigest', checked)}
+                    aria-label={`Include ${search.query} in the weekly digest`}
+                  />
+                  Digest
+                </label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => handleDelete(search)}
+                  aria-label={`Delete saved search ${search.query}`}
+                >
+                  <Icon name="Trash2" size={14} />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
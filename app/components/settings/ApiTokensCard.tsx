@@ -0,0 +1,185 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Badge } from '../ui/badge';
+import { Checkbox } from '../ui/checkbox';
+import { CopyButton } from '../ui/copy-button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { toast } from '../ui/use-toast';
+import { apiTokensApi } from '../../utils/apiClient';
+import {
+  API_TOKEN_EXPIRY_DAYS,
+  API_TOKEN_RATE_LIMITS,
+  API_TOKEN_SCOPES,
+  DEFAULT_API_TOKEN_RATE_LIMIT,
+  getApiTokenUnusableReason,
+} from '../../utils/apiTokens';
+import type { ApiToken, ApiTokenScope } from '../../types/database';
+
+const NEVER = 'never';
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString() : 'never';
+}
+
+/**
+ * Create and revoke personal API tokens for the /api/v1 REST API. A new
+ * token is shown once, right after it's created.
+ */
+export function ApiTokensCard() {
+  const [tokens, setTokens] = useState<ApiToken[] | null>(null);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['pages:read']);
+  const [rateLimit, setRateLimit] = useState(DEFAULT_API_TOKEN_RATE_LIMIT);
+  const [expiry, setExpiry] = useState('90');
+  const [isCreating, setIsCreating] = useState(false);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiTokensApi.getTokens().then(response => {
+      if (response.success) setTokens(response.data?.tokens || []);
+    });
+  }, []);
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(prev => checked ? [...prev, scope] : prev.filter(s => s !== scope));
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    const response = await apiTokensApi.createToken({
+      name,
+      scopes,
+      rateLimit,
+      expiresInDays: expiry === NEVER ? null : Number(expiry),
+    });
+    setIsCreating(false);
+
+    if (!response.success) {
+      toast.error(response.error || 'Could not create the token');
+      return;
+    }
+    setNewSecret(response.data.secret);
+    setTokens(prev => [response.data.token as ApiToken, ...(prev || [])]);
+    setName('');
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!confirm(`Revoke "${token.name}"? Anything using it will stop working.`)) return;
+    const response = await apiTokensApi.revokeToken(token.id);
+    if (response.success) {
+      setTokens(prev => prev?.map(t => t.id === token.id ? response.data.token : t) || prev);
+    } else {
+      toast.error('Could not revoke the token. Please try again.');
+    }
+  };
+
+  if (!tokens) return null;
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div>
+          <h3 className="font-medium">API tokens</h3>
+          <p className="text-sm text-muted-foreground">
+            Use WeWrite from scripts and your own tools through the REST API at /api/v1. Send a token
+            as <code>Authorization: Bearer</code>; it can only do what its scopes allow.{' '}
+            <a href="/api/v1/openapi.json" target="_blank" rel="noopener noreferrer" className="underline">
+              API reference (OpenAPI)
+            </a>
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Input
+            placeholder="Token name, e.g. Publishing script"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            {API_TOKEN_SCOPES.map(scope => (
+              <label key={scope.value} className="flex items-start gap-2 cursor-pointer">
+                <Checkbox
+                  className="mt-0.5"
+                  checked={scopes.includes(scope.value)}
+                  onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+                />
+                <div>
+                  <div className="text-sm">{scope.label}</div>
+                  <div className="text-xs text-muted-foreground">{scope.description}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={String(rateLimit)} onValueChange={(value) => setRateLimit(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {API_TOKEN_RATE_LIMITS.map(limit => (
+                  <SelectItem key={limit} value={String(limit)}>{limit} requests / minute</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {API_TOKEN_EXPIRY_DAYS.map(days => (
+                  <SelectItem key={days ?? NEVER} value={days === null ? NEVER : String(days)}>
+                    {days === null ? 'Never expires' : `Expires in ${days} days`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button size="sm" onClick={handleCreate} disabled={isCreating || !name.trim() || scopes.length === 0}>
+            {isCreating ? 'Creating...' : 'Create token'}
+          </Button>
+        </div>
+
+        {newSecret && (
+          <div className="rounded-lg border p-3 space-y-2">
+            <p className="text-sm">Your new token - copy it now, it won't be shown again:</p>
+            <div className="flex items-center gap-2">
+              <code className="text-xs break-all flex-1">{newSecret}</code>
+              <CopyButton text={newSecret} />
+            </div>
+          </div>
+        )}
+
+        {tokens.map(token => {
+          const unusableReason = getApiTokenUnusableReason(token);
+          return (
+            <div key={token.id} className="flex items-start justify-between gap-3 rounded-lg border p-3">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate">{token.name}</span>
+                  {unusableReason && (
+                    <Badge variant="secondary" className="text-xs">{token.revokedAt ? 'Revoked' : 'Expired'}</Badge>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  <code>{token.tokenPreview}</code> · {token.scopes.join(', ')} · {token.rateLimit}/min
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Last used {formatDate(token.lastUsedAt)} · Expires {formatDate(token.expiresAt)}
+                </div>
+              </div>
+              {!token.revokedAt && (
+                <Button variant="outline" size="sm" onClick={() => handleRevoke(token)}>
+                  Revoke
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
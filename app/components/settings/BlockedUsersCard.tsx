@@ -0,0 +1,76 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent } from '../ui/card';
+import { Button } from '../ui/button';
+import { toast } from '../ui/use-toast';
+import { userBlocksApi } from '../../utils/apiClient';
+
+interface BlockedUser {
+  id: string;
+  username: string;
+}
+
+type BlockKind = 'block' | 'mute';
+
+/**
+ * Lists the users someone has blocked or muted, with a button to undo each.
+ * Users are blocked and muted from the menu on their profile.
+ */
+export function BlockedUsersCard() {
+  const [lists, setLists] = useState<{ blocked: BlockedUser[]; muted: BlockedUser[] } | null>(null);
+
+  useEffect(() => {
+    userBlocksApi.getBlockList().then(response => {
+      if (response.success) {
+        setLists({ blocked: response.data?.blocked || [], muted: response.data?.muted || [] });
+      }
+    });
+  }, []);
+
+  const handleRemove = async (entry: BlockedUser, kind: BlockKind) => {
+    const response = await userBlocksApi.unblockUser(entry.id, kind);
+    if (response.success) {
+      const key = kind === 'block' ? 'blocked' : 'muted';
+      setLists(prev => prev ? { ...prev, [key]: prev[key].filter(u => u.id !== entry.id) } : prev);
+    } else {
+      toast.error(`Could not ${kind === 'block' ? 'unblock' : 'unmute'} ${entry.username}. Please try again.`);
+    }
+  };
+
+  if (!lists || (lists.blocked.length === 0 && lists.muted.length === 0)) return null;
+
+  const renderList = (title: string, users: BlockedUser[], kind: BlockKind) => users.length > 0 && (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">{title}</h4>
+      {users.map(entry => (
+        <div key={entry.id} className="flex items-center justify-between gap-3">
+          <Link href={`/u/${entry.id}`} className="text-sm truncate min-w-0 hover:underline">
+            {entry.username}
+          </Link>
+          <Button variant="outline" size="sm" onClick={() => handleRemove(entry, kind)}>
+            {kind === 'block' ? 'Unblock' : 'Unmute'}
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div>
+          <h3 className="font-medium">Blocked and muted users</h3>
+          <p className="text-sm text-muted-foreground">
+            You don't see pages or notifications from these users. Blocked users also can't
+            follow you, reply to your pages or notify you by linking.
+          </p>
+        </div>
+
+        {renderList('Blocked', lists.blocked, 'block')}
+        {renderList('Muted', lists.muted, 'mute')}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent } from '../ui/card';
+import { Button } from '../ui/button';
+import { Textarea } from '../ui/textarea';
+import { toast } from '../ui/use-toast';
+import { dailyNotesApi } from '../../utils/apiClient';
+import {
+  DAILY_NOTE_TEMPLATE_KINDS,
+  DAILY_NOTE_TEMPLATE_VARIABLES,
+  MAX_DAILY_NOTE_TEMPLATE_LENGTH,
+} from '../../utils/dailyNoteTemplates';
+import type { DailyNoteTemplateKind, DailyNoteTemplates } from '../../types/database';
+
+const KIND_LABELS: Record<DailyNoteTemplateKind, string> = {
+  daily: 'Daily note',
+  weekly: 'Weekly rollup',
+  monthly: 'Monthly rollup',
+};
+
+/**
+ * Edit the templates new daily notes and weekly/monthly rollups start from.
+ * Each template lists the variables it can use.
+ */
+export function DailyNoteTemplatesCard() {
+  const [templates, setTemplates] = useState<DailyNoteTemplates | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    dailyNotesApi.getTemplates().then(response => {
+      if (response.success) setTemplates(response.data?.templates || null);
+    });
+  }, []);
+
+  const handleSave = async () => {
+    if (!templates) return;
+    setIsSaving(true);
+    const response = await dailyNotesApi.saveTemplates({
+      daily: templates.daily,
+      weekly: templates.weekly,
+      monthly: templates.monthly,
+    });
+    setIsSaving(false);
+
+    if (!response.success) {
+      toast.error(response.error || 'Could not save your templates');
+      return;
+    }
+    setTemplates(response.data.templates);
+    toast.success('Templates saved');
+  };
+
+  const handleReset = async () => {
+    if (!confirm('Go back to the default templates? Your own templates will be lost.')) return;
+    const response = await dailyNotesApi.resetTemplates();
+    if (response.success) {
+      setTemplates(response.data.templates);
+    } else {
+      toast.error('Could not reset your templates. Please try again.');
+    }
+  };
+
+  if (!templates) return null;
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div>
+          <h3 className="font-medium">Daily note templates</h3>
+          <p className="text-sm text-muted-foreground">
+            New daily notes and rollups start from these. Each line becomes a paragraph, and
+            variables in <code>{'{{double braces}}'}</code> are filled in when the note is first opened.
+          </p>
+        </div>
+
+        {DAILY_NOTE_TEMPLATE_KINDS.map(kind => (
+          <div key={kind} className="space-y-2">
+            <label htmlFor={`daily-note-template-${kind}`} className="text-sm font-medium">
+              {KIND_LABELS[kind]}
+            </label>
+            <Textarea
+              id={`daily-note-template-${kind}`}
+              value={templates[kind]}
+              onChange={(e) => setTemplates({ ...templates, [kind]: e.target.value })}
+              maxLength={MAX_DAILY_NOTE_TEMPLATE_LENGTH}
+              rows={kind === 'daily' ? 7 : 4}
+              className="font-mono text-sm"
+            />
+            <ul className="text-xs text-muted-foreground space-y-0.5">
+              {Object.entries(DAILY_NOTE_TEMPLATE_VARIABLES[kind]).map(([name, description]) => (
+                <li key={name}>
+                  <code>{`{{${name}}}`}</code> - {description}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save templates'}
+          </Button>
+          {templates.updatedAt && (
+            <Button variant="outline" size="sm" onClick={handleReset}>
+              Use defaults
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
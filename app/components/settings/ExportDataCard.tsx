@@ -0,0 +1,42 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent } from '../ui/card';
+import { Button } from '../ui/button';
+import { Icon } from '@/components/ui/Icon';
+
+/**
+ * Download all of your pages, with their version history, as a zip of
+ * Markdown or HTML files.
+ */
+export function ExportDataCard() {
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div>
+          <h3 className="font-medium">Export your writing</h3>
+          <p className="text-sm text-muted-foreground">
+            Download every page you've written, with each page's version history, as a zip.
+            Links between your pages become links between files, so the export works as a
+            backup, an Obsidian vault or the source for a static site.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href="/api/export/account?format=markdown" download>
+              <Icon name="Download" size={14} className="mr-2" />
+              Markdown
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href="/api/export/account?format=html" download>
+              <Icon name="Download" size={14} className="mr-2" />
+              HTML
+            </a>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
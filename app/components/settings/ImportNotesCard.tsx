@@ -0,0 +1,218 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent } from '../ui/card';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { RadioGroup, RadioGroupItem } from '../ui/radio-group';
+import { Icon } from '@/components/ui/Icon';
+import { toast } from '../ui/use-toast';
+import { importApi } from '../../utils/apiClient';
+import {
+  IMPORT_COLLISION_STRATEGIES,
+  type ImportCollisionStrategy,
+  type ImportPlan,
+} from '../../utils/markdownImport';
+
+const SOURCE_LABELS: Record<ImportPlan['source'], string> = {
+  markdown: 'Markdown files',
+  obsidian: 'Obsidian vault',
+  notion: 'Notion export',
+};
+
+/** Props for a folder picker, which React doesn't type */
+const FOLDER_INPUT_PROPS = { webkitdirectory: '', directory: '' } as Record<string, string>;
+
+/**
+ * Import Markdown files, an Obsidian vault or a Notion export. Shows a
+ * preview of the pages it would create before creating any, then creates
+ * them one at a time with links between them kept.
+ */
+export function ImportNotesCard() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [collision, setCollision] = useState<ImportCollisionStrategy>('link');
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number; failed: string[] } | null>(null);
+
+  const isImporting = !!progress && progress.done + progress.failed.length < progress.total;
+  const pagesToCreate = plan?.pages.filter(page => page.action !== 'existing') || [];
+
+  const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setFiles(Array.from(event.target.files || []));
+    setPlan(null);
+    setProgress(null);
+    event.target.value = '';
+  };
+
+  const handlePreview = async () => {
+    const formData = new FormData();
+    for (const file of files) {
+      formData.append('files', file);
+      formData.append('paths', file.webkitRelativePath || file.name);
+    }
+    formData.append('collision', collision);
+
+    setIsPreviewing(true);
+    const response = await importApi.previewImport(formData);
+    setIsPreviewing(false);
+
+    if (!response.success) {
+      toast.error(response.error || 'Could not read those files');
+      return;
+    }
+    setPlan(response.data as ImportPlan);
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+
+    const failed: string[] = [];
+    setProgress({ done: 0, total: pagesToCreate.length, failed });
+    let done = 0;
+
+    for (const page of pagesToCreate) {
+      const response = await importApi.createImportedPage(page);
+      if (response.success) done++;
+      else failed.push(page.title);
+      setProgress({ done, total: pagesToCreate.length, failed: [...failed] });
+    }
+
+    if (failed.length > 0) {
+      toast.error(`Imported ${done} pages; ${failed.length} failed`);
+    } else {
+      toast.success(`Imported ${done} pages`);
+    }
+  };
+
+  const linkCount = pagesToCreate.reduce((sum, page) => sum + page.linkCount, 0);
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div>
+          <h3 className="font-medium">Import notes</h3>
+          <p className="text-sm text-muted-foreground">
+            Bring in Markdown files, an Obsidian vault, or a Notion export (Markdown &amp; CSV, as a zip).
+            [[Wikilinks]] and links between the files become links between your new pages.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept=".md,.markdown,.txt,.zip"
+            className="hidden"
+            onChange={handleFiles}
+          />
+          <input
+            ref={folderInputRef}
+            type="file"
+            className="hidden"
+            onChange={handleFiles}
+            {...FOLDER_INPUT_PROPS}
+          />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+            <Icon name="Upload" size={14} className="mr-2" />
+            Choose files
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => folderInputRef.current?.click()} disabled={isImporting}>
+            <Icon name="Folder" size={14} className="mr-2" />
+            Choose folder
+          </Button>
+          {files.length > 0 && (
+            <span className="text-sm text-muted-foreground">
+              {files.length === 1 ? files[0].name : `${files.length} files`}
+            </span>
+          )}
+        </div>
+
+        {files.length > 0 && !progress && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">If you already have a page with the same title</h4>
+            <RadioGroup
+              value={collision}
+              onValueChange={(value) => {
+                setCollision(value as ImportCollisionStrategy);
+                setPlan(null);
+              }}
+              className="gap-2"
+            >
+              {IMPORT_COLLISION_STRATEGIES.map(option => (
+                <label key={option.value} className="flex items-start gap-3 cursor-pointer">
+                  <RadioGroupItem value={option.value} className="mt-1" />
+                  <div>
+                    <div className="text-sm">{option.label}</div>
+                    <div className="text-xs text-muted-foreground">{option.description}</div>
+                  </div>
+                </label>
+              ))}
+            </RadioGroup>
+
+            {!plan && (
+              <Button size="sm" onClick={handlePreview} disabled={isPreviewing}>
+                {isPreviewing ? 'Reading files...' : 'Preview import'}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {plan && (
+          <div className="space-y-3">
+            <p className="text-sm">
+              {SOURCE_LABELS[plan.source]}: {pagesToCreate.length} new page{pagesToCreate.length === 1 ? '' : 's'}
+              {linkCount > 0 && `, ${linkCount} link${linkCount === 1 ? '' : 's'} between pages`}
+              {plan.skippedFiles.length > 0 && `. ${plan.skippedFiles.length} other file${plan.skippedFiles.length === 1 ? '' : 's'} (such as attachments) won't be imported`}
+              .
+            </p>
+
+            <ul className="max-h-64 overflow-y-auto space-y-1.5 text-sm">
+              {plan.pages.map(page => (
+                <li key={page.path} className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="truncate">
+                      {page.action === 'existing' ? (
+                        <Link href={`/${page.pageId}`} className="hover:underline" target="_blank">{page.title}</Link>
+                      ) : page.title}
+                    </div>
+                    {page.unresolvedLinks.length > 0 && (
+                      <div className="text-xs text-muted-foreground truncate">
+                        Unlinked: {page.unresolvedLinks.join(', ')}
+                      </div>
+                    )}
+                  </div>
+                  <Badge variant={page.action === 'create' ? 'secondary' : 'outline'} className="shrink-0 text-xs">
+                    {page.action === 'existing' ? 'Existing page' : page.action === 'rename' ? 'Renamed' : 'New'}
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+
+            {!progress && (
+              <Button size="sm" onClick={handleImport} disabled={pagesToCreate.length === 0}>
+                Import {pagesToCreate.length} page{pagesToCreate.length === 1 ? '' : 's'}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {progress && (
+          <div className="space-y-1 text-sm">
+            <p>
+              {isImporting ? 'Importing' : 'Imported'} {progress.done} of {progress.total} pages
+              {isImporting && '...'}
+            </p>
+            {progress.failed.length > 0 && (
+              <p className="text-destructive">Couldn't import: {progress.failed.join(', ')}</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
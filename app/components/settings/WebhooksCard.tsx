@@ -0,0 +1,246 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Badge } from '../ui/badge';
+import { Checkbox } from '../ui/checkbox';
+import { Switch } from '../ui/switch';
+import { CopyButton } from '../ui/copy-button';
+import { Icon } from '@/components/ui/Icon';
+import { toast } from '../ui/use-toast';
+import { webhooksApi } from '../../utils/apiClient';
+import type { WebhookDelivery, WebhookEndpoint, WebhookEventType } from '../../types/database';
+
+interface WebhooksCardProps {
+  /** Manage a group's endpoints instead of the signed-in user's */
+  groupId?: string;
+}
+
+interface EventTypeOption {
+  value: WebhookEventType;
+  label: string;
+  description: string;
+}
+
+const STATUS_VARIANTS: Record<WebhookDelivery['status'], 'secondary' | 'outline' | 'destructive'> = {
+  succeeded: 'secondary',
+  pending: 'outline',
+  failed: 'destructive',
+};
+
+/**
+ * Register HTTPS endpoints that WeWrite POSTs signed events to, and look
+ * through each endpoint's recent deliveries. The signing secret is shown
+ * once, when the endpoint is added or its secret is replaced.
+ */
+export function WebhooksCard({ groupId }: WebhooksCardProps) {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[] | null>(null);
+  const [eventTypes, setEventTypes] = useState<EventTypeOption[]>([]);
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>(['page.created', 'page.updated']);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newSecret, setNewSecret] = useState<{ endpointId: string; secret: string } | null>(null);
+  const [openEndpointId, setOpenEndpointId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+
+  useEffect(() => {
+    webhooksApi.getEndpoints(groupId).then(response => {
+      if (!response.success) return;
+      setEndpoints(response.data?.endpoints || []);
+      // The server decides which events this owner can subscribe to
+      setEventTypes(response.data?.eventTypes || []);
+    });
+  }, [groupId]);
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setEvents(prev => checked ? [...prev, event] : prev.filter(e => e !== event));
+  };
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    const response = await webhooksApi.createEndpoint({ url, events, groupId });
+    setIsAdding(false);
+
+    if (!response.success) {
+      toast.error(response.error || 'Could not add the endpoint');
+      return;
+    }
+    const endpoint = response.data.endpoint as WebhookEndpoint;
+    setNewSecret({ endpointId: endpoint.id, secret: endpoint.secret! });
+    setEndpoints(prev => [{ ...endpoint, secret: undefined }, ...(prev || [])]);
+    setUrl('');
+  };
+
+  const handleToggleActive = async (endpoint: WebhookEndpoint, active: boolean) => {
+    const response = await webhooksApi.updateEndpoint(endpoint.id, { active });
+    if (response.success) {
+      setEndpoints(prev => prev?.map(e => e.id === endpoint.id ? response.data.endpoint : e) || prev);
+    } else {
+      toast.error('Could not update the endpoint. Please try again.');
+    }
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Stop sending events to ${endpoint.url}?`)) return;
+    const response = await webhooksApi.deleteEndpoint(endpoint.id);
+    if (response.success) {
+      setEndpoints(prev => prev?.filter(e => e.id !== endpoint.id) || prev);
+      if (openEndpointId === endpoint.id) setOpenEndpointId(null);
+    } else {
+      toast.error('Could not delete the endpoint. Please try again.');
+    }
+  };
+
+  const handleRotateSecret = async (endpoint: WebhookEndpoint) => {
+    if (!confirm('Replace the signing secret? Deliveries signed with the old one will stop verifying.')) return;
+    const response = await webhooksApi.rotateSecret(endpoint.id);
+    if (response.success) {
+      setNewSecret({ endpointId: endpoint.id, secret: response.data.endpoint.secret });
+    } else {
+      toast.error('Could not replace the secret. Please try again.');
+    }
+  };
+
+  const handleShowDeliveries = async (endpoint: WebhookEndpoint) => {
+    if (openEndpointId === endpoint.id) {
+      setOpenEndpointId(null);
+      return;
+    }
+    setOpenEndpointId(endpoint.id);
+    setDeliveries(null);
+    const response = await webhooksApi.getDeliveries(endpoint.id);
+    setDeliveries(response.success ? response.data?.deliveries || [] : []);
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    const response = await webhooksApi.redeliver(delivery.endpointId, delivery.id);
+    if (!response.success) {
+      toast.error('Could not redeliver. Please try again.');
+      return;
+    }
+    const updated = response.data.delivery as WebhookDelivery;
+    setDeliveries(prev => prev?.map(d => d.id === updated.id ? updated : d) || prev);
+    if (updated.status === 'succeeded') toast.success('Delivered');
+    else toast.error(updated.error || 'Delivery failed');
+  };
+
+  if (!endpoints) return null;
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div>
+          <h3 className="font-medium">Webhooks</h3>
+          <p className="text-sm text-muted-foreground">
+            Send events to your own HTTPS endpoint, for chat and automation tools. Each request is
+            signed with the endpoint's secret in the WeWrite-Signature header; failed deliveries are
+            retried for about a day.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Input
+            type="url"
+            placeholder="https://example.com/wewrite-webhook"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {eventTypes.map(event => (
+              <label key={event.value} className="flex items-start gap-2 cursor-pointer">
+                <Checkbox
+                  className="mt-0.5"
+                  checked={events.includes(event.value)}
+                  onCheckedChange={(checked) => toggleEvent(event.value, checked === true)}
+                />
+                <div>
+                  <div className="text-sm">{event.label}</div>
+                  <div className="text-xs text-muted-foreground">{event.description}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+          <Button size="sm" onClick={handleAdd} disabled={isAdding || !url.trim() || events.length === 0}>
+            {isAdding ? 'Adding...' : 'Add endpoint'}
+          </Button>
+        </div>
+
+        {newSecret && (
+          <div className="rounded-lg border p-3 space-y-2">
+            <p className="text-sm">Signing secret - copy it now, it won't be shown again:</p>
+            <div className="flex items-center gap-2">
+              <code className="text-xs break-all flex-1">{newSecret.secret}</code>
+              <CopyButton text={newSecret.secret} />
+            </div>
+          </div>
+        )}
+
+        {endpoints.map(endpoint => (
+          <div key={endpoint.id} className="rounded-lg border p-3 space-y-2">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="text-sm font-medium truncate">{endpoint.url}</div>
+                <div className="text-xs text-muted-foreground">
+                  {endpoint.events.join(', ')}
+                  {endpoint.secretPreview && ` · ${endpoint.secretPreview}`}
+                </div>
+              </div>
+              <Switch
+                size="sm"
+                checked={endpoint.active}
+                onCheckedChange={(checked) => handleToggleActive(endpoint, checked)}
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => handleShowDeliveries(endpoint)}>
+                {openEndpointId === endpoint.id ? 'Hide deliveries' : 'Recent deliveries'}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleRotateSecret(endpoint)}>
+                <Icon name="RefreshCw" size={14} className="mr-2" />
+                New secret
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleDelete(endpoint)}>
+                <Icon name="Trash2" size={14} className="mr-2" />
+                Delete
+              </Button>
+            </div>
+
+            {openEndpointId === endpoint.id && (
+              <div className="space-y-1.5">
+                {!deliveries && <p className="text-xs text-muted-foreground">Loading...</p>}
+                {deliveries?.length === 0 && <p className="text-xs text-muted-foreground">Nothing sent yet.</p>}
+                {deliveries?.map(delivery => (
+                  <div key={delivery.id} className="flex items-center justify-between gap-3 text-sm">
+                    <div className="min-w-0">
+                      <div className="truncate">
+                        {delivery.eventType}{' '}
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(delivery.createdAt).toLocaleString()}
+                          {delivery.attempts > 1 && ` · ${delivery.attempts} attempts`}
+                        </span>
+                      </div>
+                      {delivery.error && (
+                        <div className="text-xs text-muted-foreground truncate">{delivery.error}</div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant={STATUS_VARIANTS[delivery.status]} className="text-xs">
+                        {delivery.status}
+                      </Badge>
+                      <Button variant="ghost" size="sm" onClick={() => handleRedeliver(delivery)}>
+                        Redeliver
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,11 @@
 
 import { useAuth } from '../../../providers/AuthProvider';
 import PWAInstallationCard from '../../utils/PWAInstallationCard';
+import { ExportDataCard } from '../ExportDataCard';
+import { ImportNotesCard } from '../ImportNotesCard';
+import { WebhooksCard } from '../WebhooksCard';
+import { ApiTokensCard } from '../ApiTokensCard';
+import { DailyNoteTemplatesCard } from '../DailyNoteTemplatesCard';
 
 interface AdvancedContentProps {
   onClose: () => void;
@@ -18,6 +23,11 @@ export default function AdvancedContent({ onClose }: AdvancedContentProps) {
     <div className="px-4 pb-6">
       <div className="space-y-8">
         <PWAInstallationCard />
+        <ExportDataCard />
+        <ImportNotesCard />
+        <DailyNoteTemplatesCard />
+        <WebhooksCard />
+        <ApiTokensCard />
       </div>
     </div>
   );
@@ -0,0 +1,84 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { cn } from '../../lib/utils';
+import { Icon } from '@/components/ui/Icon';
+import { Button } from '../ui/button';
+import { PageLinksCardHeader } from '../ui/PageLinksCard';
+import { useAuth } from '../../providers/AuthProvider';
+import { pageSuggestionsApi } from '../../utils/apiClient';
+
+interface SuggestedEditsCardProps {
+  pageId: string;
+  className?: string;
+}
+
+/**
+ * Suggested edits below a page. Readers who can't edit the page get a way
+ * to suggest one and see their own waiting for review; the page owner and
+ * group members see how many are waiting and go review them.
+ */
+export default function SuggestedEditsCard({ pageId, className }: SuggestedEditsCardProps) {
+  const { user } = useAuth();
+  const [pendingCount, setPendingCount] = useState(0);
+  const [canReview, setCanReview] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    setCanReview(null);
+    if (!user?.uid) return;
+
+    let cancelled = false;
+    pageSuggestionsApi.getSuggestions(pageId, 'pending').then(response => {
+      if (cancelled || !response.success) return;
+      setPendingCount(response.data?.suggestions?.length || 0);
+      setCanReview(!!response.data?.canReview);
+    });
+    return () => { cancelled = true; };
+  }, [pageId, user?.uid]);
+
+  if (!user?.uid || canReview === null || (canReview && pendingCount === 0)) return null;
+
+  return (
+    <div className={cn("wewrite-card", className)}>
+      <div className="p-4">
+        <PageLinksCardHeader
+          icon="PenLine"
+          title="Suggested edits"
+          count={pendingCount}
+          className="mb-3"
+          pillCounter={true}
+        />
+
+        {canReview ? (
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-muted-foreground">
+              {pendingCount === 1 ? 'A suggested edit is' : `${pendingCount} suggested edits are`} waiting for your review.
+            </p>
+            <Button asChild variant="secondary" size="sm">
+              <Link href={`/${pageId}/suggestions`}>Review</Link>
+            </Button>
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-muted-foreground">
+              {pendingCount > 0 ? (
+                <Link href={`/${pageId}/suggestions`} className="underline-offset-4 hover:underline">
+                  {pendingCount === 1 ? 'Your suggested edit is' : `Your ${pendingCount} suggested edits are`} waiting for review
+                </Link>
+              ) : (
+                'See something to improve? Suggest an edit for the author to review.'
+              )}
+            </p>
+            <Button asChild variant="secondary" size="sm" className="gap-2">
+              <Link href={`/${pageId}/suggest`}>
+                <Icon name="Edit2" size={14} />
+                Suggest an edit
+              </Link>
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { calculateDiff, DiffOperation } from '../../utils/diffService';
+
+interface SuggestionDiffViewProps {
+  // The suggested content and the content it was made against
+  content: any;
+  baseContent: any;
+}
+
+/**
+ * SuggestionDiffView - a suggested edit as tracked changes.
+ *
+ * One column of the page's text with the DiffOperations from /api/diff
+ * marked inline: removed text struck through in red, added text in green.
+ * Styling follows VersionCompareView.
+ */
+export default function SuggestionDiffView({ content, baseContent }: SuggestionDiffViewProps) {
+  const [operations, setOperations] = useState<DiffOperation[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setOperations(null);
+
+    calculateDiff(content, baseContent).then(result => {
+      if (!cancelled) setOperations(result.operations || []);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [content, baseContent]);
+
+  if (operations === null) {
+    return <div className="p-4 text-sm text-muted-foreground">Comparing with the page...</div>;
+  }
+
+  return (
+    <div className="whitespace-pre-wrap text-sm leading-relaxed">
+      {operations.map((op, index) => {
+        if (op.type === 'remove') {
+          return (
+            <span key={index} className="bg-red-500/20 dark:bg-red-500/30 text-red-600 dark:text-red-400 px-0.5 rounded line-through">
+              {op.text}
+            </span>
+          );
+        }
+        if (op.type === 'add') {
+          return (
+            <span key={index} className="bg-green-500/20 dark:bg-green-500/30 text-green-600 dark:text-green-400 px-0.5 rounded">
+              {op.text}
+            </span>
+          );
+        }
+        return <span key={index}>{op.text}</span>;
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Icon } from '@/components/ui/Icon';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { toast } from '../ui/use-toast';
+import { UsernameBadge } from '../ui/UsernameBadge';
+import { DiffStats } from '../activity/DiffPreview';
+import { formatRelativeTime } from '../../utils/formatRelativeTime';
+import { pageSuggestionsApi } from '../../utils/apiClient';
+import SuggestionDiffView from './SuggestionDiffView';
+import type { PageSuggestion } from '../../types/database';
+
+interface SuggestionReviewCardProps {
+  suggestion: PageSuggestion;
+  canReview: boolean;
+  isOwn: boolean;
+  onChange: (suggestion: PageSuggestion | null) => void;
+}
+
+const STATUS_LABELS: Record<PageSuggestion['status'], string> = {
+  pending: 'Waiting for review',
+  accepted: 'Accepted',
+  rejected: 'Not accepted',
+};
+
+/**
+ * One suggested edit: who suggested it and why, its changes shown as tracked
+ * changes against the version it was made from, and accept/reject for
+ * reviewers or withdraw for its author while it's pending
+ */
+export default function SuggestionReviewCard({ suggestion, canReview, isOwn, onChange }: SuggestionReviewCardProps) {
+  const [baseContent, setBaseContent] = useState<any[] | null>(null);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const toggleChanges = async () => {
+    if (!isExpanded && baseContent === null) {
+      const response = await pageSuggestionsApi.getSuggestion(suggestion.pageId, suggestion.id);
+      if (!response.success) {
+        toast.error(response.error || 'Could not load the suggested edit');
+        return;
+      }
+      setBaseContent(response.data?.baseContent || []);
+    }
+    setIsExpanded(!isExpanded);
+  };
+
+  const review = async (status: 'accepted' | 'rejected') => {
+    setIsSubmitting(true);
+    try {
+      const response = await pageSuggestionsApi.reviewSuggestion(suggestion.pageId, suggestion.id, status);
+      if (!response.success) {
+        toast.error(response.error || 'Could not review the suggested edit');
+        return;
+      }
+      toast.success(status === 'accepted' ? 'Suggested edit accepted' : 'Suggested edit rejected');
+      onChange(response.data.suggestion);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const withdraw = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await pageSuggestionsApi.withdrawSuggestion(suggestion.pageId, suggestion.id);
+      if (!response.success) {
+        toast.error(response.error || 'Could not withdraw the suggested edit');
+        return;
+      }
+      onChange(null);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isPending = suggestion.status === 'pending';
+
+  return (
+    <div className="wewrite-card p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm text-muted-foreground">
+        <UsernameBadge userId={suggestion.userId} username={suggestion.username} showBadge={false} size="sm" />
+        <span title={new Date(suggestion.createdAt).toLocaleString()}>{formatRelativeTime(suggestion.createdAt)}</span>
+        <Badge variant={isPending ? 'secondary' : 'outline'}>{STATUS_LABELS[suggestion.status]}</Badge>
+        <DiffStats added={suggestion.diff.added} removed={suggestion.diff.removed} showTooltips={true} className="ml-auto text-sm" />
+      </div>
+
+      {suggestion.note && (
+        <p className="text-sm whitespace-pre-wrap break-words">{suggestion.note}</p>
+      )}
+
+      {isExpanded && baseContent && (
+        <div className="rounded-lg border border-border p-3">
+          <SuggestionDiffView content={suggestion.content} baseContent={baseContent} />
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="ghost" size="sm" className="gap-1" onClick={toggleChanges}>
+          <Icon name={isExpanded ? 'ChevronUp' : 'ChevronDown'} size={14} />
+          {isExpanded ? 'Hide changes' : 'Show changes'}
+        </Button>
+
+        {suggestion.acceptedVersionId && (
+          <Button asChild variant="ghost" size="sm">
+            <Link href={`/${suggestion.pageId}/versions/${suggestion.acceptedVersionId}`}>View version</Link>
+          </Button>
+        )}
+
+        <div className="ml-auto flex gap-2">
+          {isPending && canReview && (
+            <>
+              <Button variant="outline" size="sm" disabled={isSubmitting} onClick={() => review('rejected')}>
+                Reject
+              </Button>
+              <Button size="sm" disabled={isSubmitting} onClick={() => review('accepted')}>
+                Accept
+              </Button>
+            </>
+          )}
+          {isPending && isOwn && !canReview && (
+            <Button variant="outline" size="sm" disabled={isSubmitting} onClick={withdraw}>
+              Withdraw
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
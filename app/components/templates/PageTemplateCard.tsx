@@ -0,0 +1,47 @@
+"use client";
+
+import React from 'react';
+import { Icon } from '@/components/ui/Icon';
+import { Badge } from '../ui/badge';
+import { UsernameBadge } from '../ui/UsernameBadge';
+import { PAGE_TEMPLATE_VISIBILITY_LABELS } from '../../utils/pageTemplates';
+import type { PageTemplate } from '../../types/database';
+
+interface PageTemplateCardProps {
+  template: PageTemplate;
+  /** Buttons for using, editing or deleting the template */
+  actions?: React.ReactNode;
+  className?: string;
+}
+
+/**
+ * A page template in a list: its title and description, credit to its
+ * author, who it's shared with and how often it's been used
+ */
+export default function PageTemplateCard({ template, actions, className }: PageTemplateCardProps) {
+  return (
+    <div className={`wewrite-card p-4 space-y-2 ${className || ''}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0 space-y-1">
+          <div className="flex items-center gap-2">
+            <Icon name="LayoutTemplate" size={16} className="text-muted-foreground flex-shrink-0" />
+            <span className="font-medium truncate">{template.title}</span>
+          </div>
+          <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm text-muted-foreground">
+            <span>by</span>
+            <UsernameBadge userId={template.userId} username={template.username} showBadge={false} size="sm" />
+            <Badge variant="outline">{PAGE_TEMPLATE_VISIBILITY_LABELS[template.visibility]}</Badge>
+            {template.useCount > 0 && (
+              <span>Used {template.useCount === 1 ? 'once' : `${template.useCount} times`}</span>
+            )}
+          </div>
+        </div>
+        {actions && <div className="flex flex-shrink-0 gap-2">{actions}</div>}
+      </div>
+
+      {template.description && (
+        <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">{template.description}</p>
+      )}
+    </div>
+  );
+}
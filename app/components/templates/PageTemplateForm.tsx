@@ -0,0 +1,157 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Textarea } from '../ui/textarea';
+import { toast } from '../ui/use-toast';
+import EditableContent from '../content/EditableContent';
+import { useFeatureFlags } from '../../contexts/FeatureFlagContext';
+import { pageTemplatesApi } from '../../utils/apiClient';
+import {
+  BUILT_IN_TEMPLATE_PLACEHOLDERS,
+  MAX_TEMPLATE_DESCRIPTION_LENGTH,
+  MAX_TEMPLATE_TITLE_LENGTH,
+  PAGE_TEMPLATE_VISIBILITIES,
+  PAGE_TEMPLATE_VISIBILITY_LABELS,
+  getPageTemplateInputError,
+} from '../../utils/pageTemplates';
+import type { PageTemplate, PageTemplateVisibility } from '../../types/database';
+import type { Group } from '../../types/groups';
+
+const EMPTY_CONTENT = [{ type: 'paragraph', children: [{ text: '' }] }];
+
+interface PageTemplateFormProps {
+  /** The template being edited; a new one is created when left out */
+  template?: PageTemplate;
+}
+
+/**
+ * Create or edit a page template: its content is written in the page editor
+ * with {{placeholders}} for whatever each page fills in
+ */
+export default function PageTemplateForm({ template }: PageTemplateFormProps) {
+  const router = useRouter();
+  const { isEnabled } = useFeatureFlags();
+  const [title, setTitle] = useState(template?.title || '');
+  const [description, setDescription] = useState(template?.description || '');
+  const [content, setContent] = useState<any[]>(template?.content || EMPTY_CONTENT);
+  const [visibility, setVisibility] = useState<PageTemplateVisibility>(template?.visibility || 'private');
+  const [groupId, setGroupId] = useState<string | null>(template?.groupId || null);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const groupsEnabled = isEnabled('groups');
+
+  useEffect(() => {
+    if (!groupsEnabled) return;
+    fetch('/api/groups', { credentials: 'include' })
+      .then(res => res.json())
+      .then(data => {
+        if (data.success && data.data?.groups) setGroups(data.data.groups);
+      })
+      .catch(() => console.error('Failed to fetch groups'));
+  }, [groupsEnabled]);
+
+  const handleSave = async () => {
+    const input = {
+      title,
+      description,
+      content,
+      visibility,
+      groupId: visibility === 'group' ? groupId : null
+    };
+    const inputError = getPageTemplateInputError(input);
+    if (inputError) {
+      toast.error(inputError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = template
+        ? await pageTemplatesApi.updateTemplate(template.id, input)
+        : await pageTemplatesApi.createTemplate(input);
+      if (!response.success) {
+        toast.error(response.error || 'Could not save the template');
+        return;
+      }
+      toast.success('Template saved');
+      router.push('/templates');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const visibilities = PAGE_TEMPLATE_VISIBILITIES.filter(option =>
+    option !== 'group' || groupsEnabled || visibility === 'group');
+
+  return (
+    <div className="space-y-4">
+      <Input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Template name, e.g. Book review"
+        maxLength={MAX_TEMPLATE_TITLE_LENGTH}
+      />
+
+      <Textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="What is this template for? (optional)"
+        maxLength={MAX_TEMPLATE_DESCRIPTION_LENGTH}
+        rows={2}
+      />
+
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          Write the page everyone starts from. Put {'{{placeholders}}'} like {'{{book title}}'} where each page fills
+          something in. {Object.keys(BUILT_IN_TEMPLATE_PLACEHOLDERS).map(name => `{{${name}}}`).join(' and ')} fill
+          themselves in with {Object.values(BUILT_IN_TEMPLATE_PLACEHOLDERS).map(label => label.toLowerCase()).join(' and ')}.
+        </p>
+        <div className="wewrite-card p-4">
+          <EditableContent
+            content={content}
+            onChange={setContent}
+            placeholder="Start writing the template..."
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground">Who can use it:</span>
+        <select
+          value={visibility}
+          onChange={(e) => setVisibility(e.target.value as PageTemplateVisibility)}
+          className="text-sm border border-border rounded px-2 py-1 bg-background"
+        >
+          {visibilities.map(option => (
+            <option key={option} value={option}>{PAGE_TEMPLATE_VISIBILITY_LABELS[option]}</option>
+          ))}
+        </select>
+        {visibility === 'group' && (
+          <select
+            value={groupId || ''}
+            onChange={(e) => setGroupId(e.target.value || null)}
+            className="text-sm border border-border rounded px-2 py-1 bg-background"
+          >
+            <option value="">Choose a group</option>
+            {groups.map(group => (
+              <option key={group.id} value={group.id}>{group.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={() => router.push('/templates')}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save template'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Icon } from '@/components/ui/Icon';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { useAuth } from '../../providers/AuthProvider';
+import { pageTemplatesApi } from '../../utils/apiClient';
+import { fillTemplate, getBuiltInTemplateValues, getTemplatePlaceholders } from '../../utils/pageTemplates';
+import PageTemplateCard from './PageTemplateCard';
+import type { PageTemplate, PageTemplateSource } from '../../types/database';
+
+type PickerScope = 'mine' | 'groups' | 'public';
+
+const SCOPE_LABELS: Record<PickerScope, string> = {
+  mine: 'Mine',
+  groups: 'My groups',
+  public: 'Public',
+};
+
+interface PageTemplatePickerProps {
+  /** Called with the filled-in template content and the credit the page keeps */
+  onApply: (content: any[], source: PageTemplateSource) => void;
+}
+
+/**
+ * "Start from a template" on a new page: pick one of your templates, one
+ * shared with your groups or a public one, fill in its placeholders, and the
+ * page starts from it. Placeholders left blank stay in the text.
+ */
+export default function PageTemplatePicker({ onApply }: PageTemplatePickerProps) {
+  const { user } = useAuth();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [scope, setScope] = useState<PickerScope>('mine');
+  const [templates, setTemplates] = useState<PageTemplate[] | null>(null);
+  const [selected, setSelected] = useState<PageTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!isExpanded) return;
+    let cancelled = false;
+    setTemplates(null);
+    pageTemplatesApi.getTemplates(scope).then(response => {
+      if (!cancelled) setTemplates(response.success ? response.data?.templates || [] : []);
+    });
+    return () => { cancelled = true; };
+  }, [isExpanded, scope]);
+
+  const select = (template: PageTemplate | null) => {
+    setSelected(template);
+    setValues({});
+  };
+
+  const apply = () => {
+    if (!selected) return;
+    const content = fillTemplate(selected.content, {
+      ...values,
+      ...getBuiltInTemplateValues(user?.username || 'Anonymous')
+    });
+    onApply(content, {
+      templateId: selected.id,
+      title: selected.title,
+      userId: selected.userId,
+      username: selected.username
+    });
+    setIsExpanded(false);
+    select(null);
+  };
+
+  if (!isExpanded) {
+    return (
+      <Button variant="secondary" size="sm" className="gap-2" onClick={() => setIsExpanded(true)}>
+        <Icon name="LayoutTemplate" size={14} />
+        Start from a template
+      </Button>
+    );
+  }
+
+  const placeholders = selected ? getTemplatePlaceholders(selected.content) : [];
+
+  return (
+    <div className="wewrite-card p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-medium">Start from a template</h3>
+        <Button variant="ghost" size="sm" onClick={() => { setIsExpanded(false); select(null); }} aria-label="Close templates">
+          <Icon name="X" size={16} />
+        </Button>
+      </div>
+
+      {selected ? (
+        <div className="space-y-3">
+          <PageTemplateCard template={selected} />
+          {placeholders.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Fill in what you know now; anything left blank stays in the page to fill in later.</p>
+              {placeholders.map(name => (
+                <Input
+                  key={name}
+                  placeholder={name}
+                  value={values[name] || ''}
+                  onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+                />
+              ))}
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => select(null)}>Back</Button>
+            <Button size="sm" onClick={apply}>Use template</Button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="flex gap-1">
+            {(Object.keys(SCOPE_LABELS) as PickerScope[]).map(key => (
+              <Button
+                key={key}
+                variant={scope === key ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setScope(key)}
+              >
+                {SCOPE_LABELS[key]}
+              </Button>
+            ))}
+          </div>
+
+          {templates === null ? (
+            <p className="text-sm text-muted-foreground">Loading templates...</p>
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No templates here yet.</p>
+          ) : (
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {templates.map(template => (
+                <PageTemplateCard
+                  key={template.id}
+                  template={template}
+                  actions={<Button size="sm" variant="secondary" onClick={() => select(template)}>Choose</Button>}
+                />
+              ))}
+            </div>
+          )}
+
+          <Link href="/templates" className="text-sm text-muted-foreground underline-offset-4 hover:underline">
+            Browse and manage templates
+          </Link>
+        </>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import React, { useState, useEffect, useRef, useLayoutEffect } from 'react';
 import { Icon } from '@/components/ui/Icon';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
+import { Textarea } from '../ui/textarea';
 import { useRouter, useParams } from 'next/navigation';
 import { toast } from '../ui/use-toast';
 import {
@@ -21,6 +22,9 @@ import LinkEditorModal from '../editor/LinkEditorModal';
 import { createPortal } from 'react-dom';
 import FilteredSearchResults from '../search/FilteredSearchResults';
 import { useAuth } from '../../providers/AuthProvider';
+import { buildNewPageUrl } from '../../utils/pageId';
+import { usePageAnnotations } from '../../providers/PageAnnotationsProvider';
+import { MAX_ANNOTATION_LENGTH } from '../../utils/pageAnnotations';
 
 interface UnifiedTextSelectionMenuProps {
   selectedText: string;
@@ -37,11 +41,99 @@ interface UnifiedTextSelectionMenuProps {
   pageId?: string;
   pageTitle?: string;
   canEdit?: boolean;
+  /** The selected range, used to find the paragraph a quoted reply or comment is anchored to */
+  selectionRange?: Range | null;
   /** Callback to trigger link insertion in the editor (edit mode only) */
   onInsertLink?: () => void;
   setSelectionModalOpen?: (open: boolean) => void;
 }
 
+/**
+ * The top-level block the selection starts in, which picks the right
+ * occurrence of a passage that appears more than once. Pages being read mark
+ * their paragraphs; in the editor it's the block's place under the editor.
+ */
+const getSelectionBlockIndex = (range?: Range | null): number | null => {
+  const startNode = range?.startContainer;
+  const startElement = startNode instanceof Element ? startNode : startNode?.parentElement;
+  if (!startElement) return null;
+
+  const paragraphIndex = startElement.closest('[data-paragraph-index]')?.getAttribute('data-paragraph-index');
+  if (paragraphIndex) return Number(paragraphIndex);
+
+  const block = startElement.closest('[data-slate-editor] > [data-slate-node="element"]');
+  if (!block?.parentElement) return null;
+  const index = Array.from(block.parentElement.children)
+    .filter(child => child.matches('[data-slate-node="element"]'))
+    .indexOf(block);
+  return index === -1 ? null : index;
+};
+
+interface CommentModalProps {
+  selectedText: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (body: string) => Promise<boolean>;
+}
+
+const CommentModal: React.FC<CommentModalProps> = ({ selectedText, isOpen, onClose, onSubmit }) => {
+  const [body, setBody] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return;
+    setIsSubmitting(true);
+    try {
+      if (await onSubmit(body)) {
+        setBody('');
+        onClose();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent
+        className="relative sm:max-w-md w-[95vw] p-0"
+        aria-describedby="comment-modal-description"
+        data-text-selection-modal
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <DialogHeader className="px-4 pt-4 pb-2">
+          <DialogTitle>Comment on selection</DialogTitle>
+        </DialogHeader>
+
+        <DialogBody className="space-y-4">
+          <div className="p-3 bg-muted rounded-lg">
+            <p id="comment-modal-description" className="text-sm text-muted-foreground mb-2">Selected text:</p>
+            <p className="text-sm font-medium break-words whitespace-normal">"{selectedText}"</p>
+          </div>
+
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Add a comment..."
+            maxLength={MAX_ANNOTATION_LENGTH}
+            rows={4}
+            autoFocus
+          />
+
+          <Button
+            onClick={handleSubmit}
+            disabled={!body.trim() || isSubmitting}
+            className="w-full"
+          >
+            {isSubmitting ? 'Posting...' : 'Comment'}
+          </Button>
+        </DialogBody>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
 interface AddToPageModalProps {
   selectedText: string;
   selectedHtml: string;
@@ -479,14 +571,18 @@ const UnifiedTextSelectionMenu: React.FC<UnifiedTextSelectionMenuProps> = ({
   pageId,
   pageTitle,
   canEdit = true,
+  selectionRange,
   onInsertLink,
   setSelectionModalOpen
 }) => {
+  const router = useRouter();
   const params = useParams();
   const currentPageId = params?.id as string;
   const [showModal, setShowModal] = useState(false);
   const [showLinkModal, setShowLinkModal] = useState(false);
+  const [showCommentModal, setShowCommentModal] = useState(false);
   const modalRef = useRef<HTMLDivElement | null>(null);
+  const annotations = usePageAnnotations();
 
   // Debug effect to track modal state changes
   useEffect(() => {
@@ -536,8 +632,8 @@ const UnifiedTextSelectionMenu: React.FC<UnifiedTextSelectionMenuProps> = ({
       if (showLinkModal) {
         return;
       }
-      // Keep menu open while add-to-page modal is open
-      if (showModal) {
+      // Keep menu open while the add-to-page or comment modal is open
+      if (showModal || showCommentModal) {
         // If click is inside the add-to-page dialog, ignore
         if (modalRef.current && modalRef.current.contains(event.target as Node)) {
           return;
@@ -555,14 +651,14 @@ const UnifiedTextSelectionMenu: React.FC<UnifiedTextSelectionMenuProps> = ({
         // If link modal is open, close it instead of the menu
         if (showLinkModal) {
           setShowLinkModal(false);
-        } else {
+        } else if (!showCommentModal) {
           onClose();
         }
       }
     };
 
     // Temporarily disable click outside when link modal might be opening
-    if (!showLinkModal && !showModal) {
+    if (!showLinkModal && !showModal && !showCommentModal) {
       document.addEventListener('mousedown', handleClickOutside);
     }
     document.addEventListener('keydown', handleEscape);
@@ -571,7 +667,7 @@ const UnifiedTextSelectionMenu: React.FC<UnifiedTextSelectionMenuProps> = ({
       document.removeEventListener('mousedown', handleClickOutside);
       document.removeEventListener('keydown', handleEscape);
     };
-  }, [onClose, showLinkModal, showModal]);
+  }, [onClose, showLinkModal, showModal, showCommentModal]);
 
   // Check overflow on mount and when content changes
   useEffect(() => {
@@ -617,6 +713,34 @@ const UnifiedTextSelectionMenu: React.FC<UnifiedTextSelectionMenuProps> = ({
     onClose();
   };
 
+  const handleQuoteReply = () => {
+    router.push(buildNewPageUrl({
+      replyTo: pageId,
+      replyToTitle: pageTitle || 'Untitled',
+      replyToUsername: username,
+      pageUserId: userId,
+      replyType: 'standard',
+      quote: JSON.stringify({ text: selectedText, blockIndex: getSelectionBlockIndex(selectionRange) })
+    }));
+    onClose();
+  };
+
+  const handleComment = () => {
+    setSelectionModalOpen?.(true);
+    setShowCommentModal(true);
+  };
+
+  const handleCommentSubmit = (body: string) => {
+    if (!annotations) return Promise.resolve(false);
+    return annotations.addAnnotation({ body, text: selectedText, blockIndex: getSelectionBlockIndex(selectionRange) });
+  };
+
+  const handleCommentModalClose = () => {
+    setShowCommentModal(false);
+    setSelectionModalOpen?.(false);
+    onClose();
+  };
+
   const handleAddToPage = () => {
     setSelectionModalOpen?.(true);
     setShowModal(true);
@@ -788,6 +912,32 @@ const UnifiedTextSelectionMenu: React.FC<UnifiedTextSelectionMenuProps> = ({
               </Button>
             )}
 
+            {/* Reply quoting the selection - only show in view mode (not edit mode) */}
+            {pageId && !canEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleQuoteReply}
+                className="gap-2 text-sm whitespace-nowrap flex-shrink-0"
+              >
+                <Icon name="Reply" size={12} />
+                Reply
+              </Button>
+            )}
+
+            {/* Comment in the margin - pages that take comments, in view and edit mode */}
+            {annotations && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleComment}
+                className="gap-2 text-sm whitespace-nowrap flex-shrink-0"
+              >
+                <Icon name="MessageSquare" size={12} />
+                Comment
+              </Button>
+            )}
+
             {enableAddToPage && (
               <Button
                 variant="ghost"
@@ -826,6 +976,13 @@ const UnifiedTextSelectionMenu: React.FC<UnifiedTextSelectionMenuProps> = ({
         sourceUserId={userId}
       />
 
+      <CommentModal
+        selectedText={selectedText}
+        isOpen={showCommentModal}
+        onClose={handleCommentModalClose}
+        onSubmit={handleCommentSubmit}
+      />
+
       {showLinkModal && typeof document !== 'undefined' && createPortal(
         <LinkEditorModal
           isOpen={showLinkModal}
@@ -26,6 +26,16 @@ function getNotificationTypeIcon(type: string): { icon: IconName; color: string
       return { icon: 'Link', color: 'text-purple-500' };
     case 'append':
       return { icon: 'FileText', color: 'text-green-500' };
+    case 'saved_search_match':
+      return { icon: 'Search', color: 'text-sky-500' };
+    case 'page_annotation':
+      return { icon: 'MessageSquare', color: 'text-teal-500' };
+    case 'page_suggestion':
+      return { icon: 'PenLine', color: 'text-indigo-500' };
+    case 'report_outcome':
+      return { icon: 'Flag', color: 'text-primary' };
+    case 'moderation_warning':
+      return { icon: 'ShieldAlert', color: 'text-red-500' };
     case 'email_verification':
       return { icon: 'Mail', color: 'text-orange-500' };
     case 'allocation_threshold':
@@ -126,6 +136,26 @@ export default function NotificationItem({ notification }) {
       if (notification.sourcePageId) {
         router.push(`/${notification.sourcePageId}`);
       }
+    } else if (notification.type === 'saved_search_match') {
+      // For saved search matches, re-run the search
+      if (notification.actionUrl) {
+        router.push(notification.actionUrl);
+      }
+    } else if (notification.type === 'page_annotation') {
+      // For comments, open the commented page
+      if (notification.actionUrl) {
+        router.push(notification.actionUrl);
+      }
+    } else if (notification.type === 'page_suggestion') {
+      // For suggested edits, open the review list or the accepted version
+      if (notification.actionUrl) {
+        router.push(notification.actionUrl);
+      }
+    } else if (notification.type === 'moderation_warning') {
+      // For moderation warnings, navigate to the page they're about
+      if (notification.targetPageId) {
+        router.push(`/${notification.targetPageId}`);
+      }
     } else if (notification.type === 'email_verification') {
       // For email verification notifications, navigate to settings
       router.push('/settings');
@@ -276,6 +306,22 @@ export default function NotificationItem({ notification }) {
           </p>
         );
 
+      case 'saved_search_match':
+      case 'page_annotation':
+      case 'page_suggestion':
+      case 'report_outcome':
+      case 'moderation_warning':
+        return (
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium mb-1 text-foreground">
+              {notification.title}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {notification.message}
+            </p>
+          </div>
+        );
+
       case 'email_verification':
         return (
           <div className="flex-1 min-w-0">
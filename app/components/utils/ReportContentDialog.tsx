@@ -0,0 +1,145 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Button } from "../ui/button";
+import { Textarea } from "../ui/textarea";
+import { RadioGroup, RadioGroupItem } from "../ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from "../ui/dialog";
+import { useToast } from "../ui/use-toast";
+import { reportsApi } from '../../utils/apiClient';
+import { REPORT_CATEGORIES, MAX_REPORT_DETAILS_LENGTH, getReportInputError } from '../../utils/contentReports';
+import type { ReportCategory, ReportTargetType } from '../../types/database';
+
+interface ReportContentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  targetType: ReportTargetType;
+  targetId: string;
+  /** Page title or username, shown in the dialog title */
+  targetLabel?: string;
+}
+
+const TARGET_NOUNS: Record<ReportTargetType, string> = {
+  page: 'page',
+  reply: 'reply',
+  user: 'user'
+};
+
+/**
+ * ReportContentDialog Component
+ *
+ * Lets a reader report a page, reply or profile to the moderators with a
+ * category and optional details. The reporter is notified once it's reviewed.
+ */
+export function ReportContentDialog({
+  open,
+  onOpenChange,
+  targetType,
+  targetId,
+  targetLabel
+}: ReportContentDialogProps) {
+  const { toast } = useToast();
+  const [category, setCategory] = useState<ReportCategory | null>(null);
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const inputError = getReportInputError({ targetType, targetId, category: category ?? undefined, details });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setCategory(null);
+      setDetails('');
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSubmit = async () => {
+    if (!category || inputError) return;
+
+    setIsSubmitting(true);
+    const response = await reportsApi.createReport({ targetType, targetId, category, details: details.trim() || undefined });
+    setIsSubmitting(false);
+
+    if (!response.success) {
+      toast({
+        title: "Couldn't send report",
+        description: response.error || "Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Report sent",
+      description: "Thanks for letting us know. We'll notify you once a moderator has reviewed it.",
+      variant: "default"
+    });
+    handleOpenChange(false);
+  };
+
+  const noun = TARGET_NOUNS[targetType];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Report {targetLabel ? `"${targetLabel}"` : `this ${noun}`}</DialogTitle>
+          <DialogDescription>
+            What's wrong with this {noun}? Reports are private; the {targetType === 'user' ? 'user' : 'author'} isn't told who sent them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 p-4">
+          <RadioGroup
+            value={category ?? undefined}
+            onValueChange={(value) => setCategory(value as ReportCategory)}
+            disabled={isSubmitting}
+            className="gap-3"
+          >
+            {REPORT_CATEGORIES.map(option => (
+              <label key={option.value} className="flex items-start gap-3 cursor-pointer">
+                <RadioGroupItem value={option.value} className="mt-1" />
+                <div>
+                  <div className="text-sm font-medium">{option.label}</div>
+                  <div className="text-xs text-muted-foreground">{option.description}</div>
+                </div>
+              </label>
+            ))}
+          </RadioGroup>
+
+          <Textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder={category === 'other' ? 'Tell us what is wrong' : 'Anything else we should know? (optional)'}
+            maxLength={MAX_REPORT_DETAILS_LENGTH}
+            rows={3}
+            disabled={isSubmitting}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="secondary"
+            onClick={() => handleOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={!category || !!inputError || isSubmitting}
+          >
+            {isSubmitting ? "Sending..." : "Send report"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
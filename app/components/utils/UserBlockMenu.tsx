@@ -0,0 +1,181 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Button } from "../ui/button";
+import { Icon } from '@/components/ui/Icon';
+import { useAuth } from '../../providers/AuthProvider';
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem
+} from "../ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from "../ui/dialog";
+import { useToast } from "../ui/use-toast";
+import { userBlocksApi } from '../../utils/apiClient';
+import { ReportContentDialog } from './ReportContentDialog';
+
+interface UserBlockMenuProps {
+  userId: string;
+  username?: string;
+  className?: string;
+}
+
+/**
+ * UserBlockMenu Component
+ *
+ * Overflow menu on a profile for muting, blocking or reporting the user.
+ * Shows a confirmation dialog before blocking, since it also ends follows.
+ */
+export function UserBlockMenu({
+  userId,
+  username = "this user",
+  className = ""
+}: UserBlockMenuProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isBlocked, setIsBlocked] = useState(false);
+  const [isMuted, setIsMuted] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [showBlockDialog, setShowBlockDialog] = useState(false);
+  const [showReportDialog, setShowReportDialog] = useState(false);
+
+  const canBlock = !!user && user.uid !== userId;
+
+  useEffect(() => {
+    if (!canBlock) return;
+
+    userBlocksApi.getBlockList().then(response => {
+      if (!response.success) return;
+      const { blocked = [], muted = [] } = response.data || {};
+      setIsBlocked(blocked.some((entry: { id: string }) => entry.id === userId));
+      setIsMuted(muted.some((entry: { id: string }) => entry.id === userId));
+    });
+  }, [canBlock, userId]);
+
+  // Don't show the menu if not authenticated or on your own profile
+  if (!canBlock) {
+    return null;
+  }
+
+  const updateBlock = async (action: 'block' | 'mute', enabled: boolean) => {
+    setIsLoading(true);
+    const response = enabled
+      ? await userBlocksApi.blockUser(userId, action)
+      : await userBlocksApi.unblockUser(userId, action);
+    setIsLoading(false);
+
+    if (!response.success) {
+      toast({
+        title: "Error",
+        description: response.error || `Failed to ${enabled ? '' : 'un'}${action} user. Please try again.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const blocked: string[] = response.data?.blocked || [];
+    const muted: string[] = response.data?.muted || [];
+    setIsBlocked(blocked.includes(userId));
+    setIsMuted(muted.includes(userId));
+
+    const descriptions = {
+      block: `${username} can no longer follow you, reply to your pages or notify you`,
+      unblock: `${username} can follow you and reply to your pages again`,
+      mute: `You won't see pages or notifications from ${username}`,
+      unmute: `You'll see pages and notifications from ${username} again`
+    };
+    const key = enabled ? action : (action === 'block' ? 'unblock' : 'unmute');
+    toast({
+      title: `${key.charAt(0).toUpperCase()}${key.slice(1)}d user`,
+      description: descriptions[key],
+      variant: "default"
+    });
+  };
+
+  const handleBlockConfirm = async () => {
+    await updateBlock('block', true);
+    setShowBlockDialog(false);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={`h-10 w-10 p-0 ${className}`}
+            disabled={isLoading}
+            aria-label={`More options for ${username}`}
+          >
+            <Icon name="MoreHorizontal" size={16} />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          {!isBlocked && (
+            <DropdownMenuItem onClick={() => updateBlock('mute', !isMuted)}>
+              <Icon name={isMuted ? 'Eye' : 'EyeOff'} size={14} className="mr-2" />
+              {isMuted ? 'Unmute' : 'Mute'} {username}
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem
+            onClick={() => isBlocked ? updateBlock('block', false) : setShowBlockDialog(true)}
+            className="text-destructive"
+          >
+            <Icon name="Ban" size={14} className="mr-2" />
+            {isBlocked ? 'Unblock' : 'Block'} {username}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setShowReportDialog(true)}>
+            <Icon name="Flag" size={14} className="mr-2" />
+            Report {username}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ReportContentDialog
+        open={showReportDialog}
+        onOpenChange={setShowReportDialog}
+        targetType="user"
+        targetId={userId}
+        targetLabel={username}
+      />
+
+      {/* Block confirmation dialog */}
+      <Dialog open={showBlockDialog} onOpenChange={setShowBlockDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Block {username}?</DialogTitle>
+            <DialogDescription>
+              {username} won't be able to follow you, reply to your pages or notify you by
+              linking to them, and you won't see their pages. Any follows between you are removed.
+              They aren't told that you blocked them.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="secondary"
+              onClick={() => setShowBlockDialog(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleBlockConfirm}
+              disabled={isLoading}
+            >
+              {isLoading ? "Blocking..." : "Block"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -4,14 +4,33 @@ import React, { createContext, useContext, useState, useCallback, useRef, useEff
 import { useAuth } from '../providers/AuthProvider';
 import {
   decryptPrivateKey,
+  encryptPrivateKey,
   importPrivateKeyFromJWK,
 } from '../lib/crypto/primitives';
-import { decryptGroupKey } from '../lib/crypto/groupKeys';
-import { encryptContent, decryptContent } from '../lib/crypto/contentEncryption';
-import type { EncryptedContent, UserKeyBundle } from '../lib/crypto/types';
+import {
+  sealPrivateKeyForDevice,
+  openPrivateKeyFromApprover,
+  getLocalDeviceId,
+  setLocalDeviceId,
+  generateDeviceId,
+  normalizePairingCode,
+} from '../lib/crypto/devicePairing';
+import { decryptGroupKey, generateGroupKey, encryptGroupKeyForMembers } from '../lib/crypto/groupKeys';
+import { encryptContent, decryptContent, reencryptContent, getKeyEpoch } from '../lib/crypto/contentEncryption';
+import type { EncryptedContent, EncryptedPrivateKey, GroupKeyRotation, UserKeyBundle, DevicePairingRequest } from '../lib/crypto/types';
 
 const AUTO_LOCK_MS = 30 * 60 * 1000; // 30 minutes
 
+/** An enrolled device as listed in settings (its wrapped key is not exposed) */
+export interface DeviceSummary {
+  deviceId: string;
+  name: string;
+  enrolledAt: string;
+  isCurrentDevice: boolean;
+}
+
+export type DeviceApprovalResult = 'approved' | 'notFound' | 'codeMismatch' | 'wrongPasscode' | 'failed';
+
 interface CryptoContextValue {
   /** Whether the user has encryption keys set up */
   hasKeys: boolean;
@@ -23,12 +42,26 @@ interface CryptoContextValue {
   unlockKeys: (passcode: string) => Promise<boolean>;
   /** Clear the private key from memory */
   lockKeys: () => void;
-  /** Get (and cache) a decrypted group AES key */
-  getGroupKey: (groupId: string) => Promise<CryptoKey | null>;
+  /** Get (and cache) a decrypted group AES key - the current one, or a specific key version */
+  getGroupKey: (groupId: string, keyVersion?: number) => Promise<CryptoKey | null>;
   /** Encrypt content for a group */
   encryptForGroup: (content: unknown, groupId: string) => Promise<EncryptedContent | null>;
   /** Decrypt content from a group */
   decryptForGroup: (encrypted: EncryptedContent, groupId: string) => Promise<unknown | null>;
+  /** Replace a group's key and re-encrypt its content (after a member is removed) */
+  rotateGroupKey: (groupId: string) => Promise<boolean>;
+  /** Re-wrap the private key with a new passcode (the key pair is kept) */
+  changePasscode: (currentPasscode: string, newPasscode: string) => Promise<boolean>;
+  /** Devices enrolled by pairing */
+  devices: DeviceSummary[];
+  /** Whether this browser is an enrolled device */
+  isDeviceEnrolled: boolean;
+  /** From an unlocked device: send the private key to the device showing `code` */
+  approveDevice: (code: string, passcode: string) => Promise<DeviceApprovalResult>;
+  /** On the new device: finish an approved pairing and protect the key with a passcode */
+  enrollDevice: (pairing: DevicePairingRequest, pairingKeys: CryptoKeyPair, passcode: string, name: string) => Promise<boolean>;
+  /** Remove a device's copy of the private key */
+  revokeDevice: (deviceId: string) => Promise<boolean>;
   /** Refresh key status from server */
   refreshKeyStatus: () => Promise<void>;
 }
@@ -42,21 +75,102 @@ const CryptoContext = createContext<CryptoContextValue>({
   getGroupKey: async () => null,
   encryptForGroup: async () => null,
   decryptForGroup: async () => null,
+  rotateGroupKey: async () => false,
+  changePasscode: async () => false,
+  devices: [],
+  isDeviceEnrolled: false,
+  approveDevice: async () => 'failed',
+  enrollDevice: async () => false,
+  revokeDevice: async () => false,
   refreshKeyStatus: async () => {},
 });
 
+/**
+ * Wrap a fresh group key for every member that can hold one and install it as
+ * the next key version. Returns false if it couldn't be installed; a conflict
+ * means another member already installed one, which is fine.
+ */
+async function installNewGroupKey(groupId: string, currentVersion: number, memberIds: string[]): Promise<boolean> {
+  const members: Array<{ userId: string; publicKey: JsonWebKey }> = [];
+  for (const memberId of memberIds) {
+    const keyRes = await fetch(`/api/user-keys/${memberId}/public`, { credentials: 'include' });
+    const keyData = await keyRes.json();
+    if (keyData.data?.publicKey) {
+      members.push({ userId: memberId, publicKey: keyData.data.publicKey });
+    }
+  }
+
+  const newKey = await generateGroupKey();
+  const installRes = await fetch(`/api/groups/${groupId}/keys/rotate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify({
+      keyVersion: currentVersion + 1,
+      wrappedKeys: await encryptGroupKeyForMembers(newKey, members),
+    }),
+  });
+  return installRes.ok || installRes.status === 409;
+}
+
 export function CryptoProvider({ children }: { children: React.ReactNode }) {
   const { user } = useAuth();
   const [hasKeys, setHasKeys] = useState(false);
   const [isKeyUnlocked, setIsKeyUnlocked] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [devices, setDevices] = useState<DeviceSummary[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
 
   // In-memory only — never persisted
   const privateKeyRef = useRef<CryptoKey | null>(null);
+  // Keyed by `${groupId}:${keyVersion}`
   const groupKeyCache = useRef<Map<string, CryptoKey>>(new Map());
+  // Current key version per group, learned when the current key is fetched
+  const currentKeyVersions = useRef<Map<string, number>>(new Map());
   const autoLockTimer = useRef<NodeJS.Timeout | null>(null);
   const keyBundleRef = useRef<UserKeyBundle | null>(null);
 
+  useEffect(() => {
+    setDeviceId(getLocalDeviceId());
+  }, []);
+
+  const storeKeyBundle = useCallback((bundle: UserKeyBundle | null) => {
+    keyBundleRef.current = bundle;
+    const localDeviceId = getLocalDeviceId();
+    setDevices(Object.values(bundle?.devices || {})
+      .map((device) => ({
+        deviceId: device.deviceId,
+        name: device.name,
+        enrolledAt: device.enrolledAt,
+        isCurrentDevice: device.deviceId === localDeviceId,
+      }))
+      .sort((a, b) => b.enrolledAt.localeCompare(a.enrolledAt)));
+  }, []);
+
+  // This device's own wrapped key first, then the account one
+  const passcodeWrappedKeys = useCallback((): EncryptedPrivateKey[] => {
+    const bundle = keyBundleRef.current;
+    if (!bundle) return [];
+    const localDeviceId = getLocalDeviceId();
+    const deviceKey = localDeviceId ? bundle.devices?.[localDeviceId]?.encryptedPrivateKey : undefined;
+    return deviceKey ? [deviceKey, bundle.encryptedPrivateKey] : [bundle.encryptedPrivateKey];
+  }, []);
+
+  // Decrypt the private key JWK with whichever wrapped copy the passcode opens
+  const openPrivateKey = useCallback(async (
+    passcode: string
+  ): Promise<{ jwk: JsonWebKey; wrappedKey: EncryptedPrivateKey } | null> => {
+    for (const wrappedKey of passcodeWrappedKeys()) {
+      try {
+        const jwk = await decryptPrivateKey(wrappedKey.ciphertext, wrappedKey.iv, wrappedKey.salt, passcode);
+        return { jwk, wrappedKey };
+      } catch {
+        // Wrong passcode for this copy - try the next one
+      }
+    }
+    return null;
+  }, [passcodeWrappedKeys]);
+
   // Reset auto-lock timer on any crypto activity
   const resetAutoLock = useCallback(() => {
     if (autoLockTimer.current) clearTimeout(autoLockTimer.current);
@@ -81,7 +195,7 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
       if (data.success && data.data) {
         setHasKeys(data.data.hasKeys);
         if (data.data.keyBundle) {
-          keyBundleRef.current = data.data.keyBundle;
+          storeKeyBundle(data.data.keyBundle);
         }
       }
     } catch {
@@ -89,7 +203,7 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
     } finally {
       setIsLoading(false);
     }
-  }, [user?.uid]);
+  }, [user?.uid, storeKeyBundle]);
 
   useEffect(() => {
     refreshKeyStatus();
@@ -109,11 +223,11 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
     if (!user) {
       privateKeyRef.current = null;
       groupKeyCache.current.clear();
-      keyBundleRef.current = null;
+      storeKeyBundle(null);
       setIsKeyUnlocked(false);
       setHasKeys(false);
     }
-  }, [user]);
+  }, [user, storeKeyBundle]);
 
   const unlockKeys = useCallback(async (passcode: string): Promise<boolean> => {
     try {
@@ -122,23 +236,15 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
         const res = await fetch('/api/user-keys', { credentials: 'include' });
         const data = await res.json();
         if (!data.success || !data.data?.keyBundle) return false;
-        keyBundleRef.current = data.data.keyBundle;
+        storeKeyBundle(data.data.keyBundle);
       }
 
-      const bundle = keyBundleRef.current;
-      if (!bundle) return false;
-      const { encryptedPrivateKey } = bundle;
-
       // Decrypt the private key with the passcode
-      const privateKeyJWK = await decryptPrivateKey(
-        encryptedPrivateKey.ciphertext,
-        encryptedPrivateKey.iv,
-        encryptedPrivateKey.salt,
-        passcode
-      );
+      const opened = await openPrivateKey(passcode);
+      if (!opened) return false;
 
       // Import as CryptoKey
-      const privateKey = await importPrivateKeyFromJWK(privateKeyJWK);
+      const privateKey = await importPrivateKeyFromJWK(opened.jwk);
       privateKeyRef.current = privateKey;
       setIsKeyUnlocked(true);
       resetAutoLock();
@@ -147,7 +253,7 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
       // Wrong passcode or corrupt data
       return false;
     }
-  }, [resetAutoLock]);
+  }, [resetAutoLock, storeKeyBundle, openPrivateKey]);
 
   const lockKeys = useCallback(() => {
     privateKeyRef.current = null;
@@ -156,9 +262,10 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
     if (autoLockTimer.current) clearTimeout(autoLockTimer.current);
   }, []);
 
-  const getGroupKey = useCallback(async (groupId: string): Promise<CryptoKey | null> => {
+  const getGroupKey = useCallback(async (groupId: string, keyVersion?: number): Promise<CryptoKey | null> => {
     // Check cache first
-    const cached = groupKeyCache.current.get(groupId);
+    const version = keyVersion ?? currentKeyVersions.current.get(groupId);
+    const cached = version !== undefined ? groupKeyCache.current.get(`${groupId}:${version}`) : undefined;
     if (cached) {
       resetAutoLock();
       return cached;
@@ -168,7 +275,8 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
 
     try {
       // Fetch wrapped group key from API
-      const res = await fetch(`/api/groups/${groupId}/keys`, { credentials: 'include' });
+      const query = keyVersion !== undefined ? `?keyVersion=${keyVersion}` : '';
+      const res = await fetch(`/api/groups/${groupId}/keys${query}`, { credentials: 'include' });
       const data = await res.json();
 
       if (!data.success || !data.data?.hasKey) return null;
@@ -180,7 +288,11 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
       );
 
       // Cache it
-      groupKeyCache.current.set(groupId, groupKey);
+      const fetchedVersion: number = data.data.keyVersion;
+      groupKeyCache.current.set(`${groupId}:${fetchedVersion}`, groupKey);
+      if (keyVersion === undefined) {
+        currentKeyVersions.current.set(groupId, fetchedVersion);
+      }
       resetAutoLock();
       return groupKey;
     } catch {
@@ -196,7 +308,7 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
     if (!groupKey) return null;
 
     try {
-      return await encryptContent(content, groupKey);
+      return await encryptContent(content, groupKey, currentKeyVersions.current.get(groupId));
     } catch {
       return null;
     }
@@ -206,7 +318,8 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
     encrypted: EncryptedContent,
     groupId: string
   ): Promise<unknown | null> => {
-    const groupKey = await getGroupKey(groupId);
+    // Content written before the latest rotation needs the key it was encrypted with
+    const groupKey = await getGroupKey(groupId, getKeyEpoch(encrypted));
     if (!groupKey) return null;
 
     try {
@@ -216,6 +329,200 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
     }
   }, [getGroupKey]);
 
+  const rotateGroupKey = useCallback(async (groupId: string): Promise<boolean> => {
+    if (!privateKeyRef.current) return false;
+
+    try {
+      // Make sure we know the current key version before bumping it
+      currentKeyVersions.current.delete(groupId);
+      if (!(await getGroupKey(groupId))) return false;
+      const currentVersion = currentKeyVersions.current.get(groupId)!;
+
+      const groupRes = await fetch(`/api/groups/${groupId}`, { credentials: 'include' });
+      const groupData = await groupRes.json();
+      const rotation: GroupKeyRotation | undefined = groupData.data?.keyRotation;
+      // Another member may have finished it already
+      if (!rotation) return true;
+
+      // A rotation interrupted after its new key was installed only needs
+      // the re-encryption finished
+      if (!(rotation.status === 'reencrypting' && rotation.toVersion === currentVersion)) {
+        if (!(await installNewGroupKey(groupId, currentVersion, groupData.data?.memberIds || []))) return false;
+      }
+
+      currentKeyVersions.current.delete(groupId);
+      const latestKey = await getGroupKey(groupId);
+      const latestVersion = currentKeyVersions.current.get(groupId);
+      if (!latestKey || latestVersion === undefined) return false;
+
+      // Re-encrypt page content and version snapshots batch by batch
+      let cursor: string | null = null;
+      for (;;) {
+        const batchRes = await fetch(
+          `/api/groups/${groupId}/keys/rotate${cursor ? `?after=${encodeURIComponent(cursor)}` : ''}`,
+          { credentials: 'include' }
+        );
+        const batch = (await batchRes.json()).data;
+        if (!batchRes.ok || !batch) return false;
+        if (batch.complete) return true;
+
+        type RotationItem = { pageId: string; versionId: string | null; content: EncryptedContent };
+        const items: Array<RotationItem & { previousIv: string }> = [];
+        for (const item of batch.items as RotationItem[]) {
+          const oldKey = await getGroupKey(groupId, getKeyEpoch(item.content));
+          if (!oldKey) return false;
+          items.push({
+            ...item,
+            content: await reencryptContent(item.content, oldKey, latestKey, latestVersion),
+            previousIv: item.content.iv,
+          });
+        }
+
+        if (items.length > 0) {
+          const saveRes = await fetch(`/api/groups/${groupId}/keys/rotate`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({ items }),
+          });
+          if (!saveRes.ok) return false;
+        }
+        cursor = batch.cursor;
+      }
+    } catch {
+      return false;
+    }
+  }, [getGroupKey]);
+
+  const changePasscode = useCallback(async (currentPasscode: string, newPasscode: string): Promise<boolean> => {
+    try {
+      // Re-wrap the latest copy in case another device changed it
+      await refreshKeyStatus();
+      const opened = await openPrivateKey(currentPasscode);
+      if (!opened) return false;
+
+      const localDeviceId = getLocalDeviceId();
+      const isDeviceCopy = !!localDeviceId &&
+        opened.wrappedKey === keyBundleRef.current?.devices?.[localDeviceId]?.encryptedPrivateKey;
+      const rewrapped = await encryptPrivateKey(opened.jwk, newPasscode);
+
+      const res = await fetch('/api/user-keys', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          encryptedPrivateKey: { ...rewrapped, version: opened.wrappedKey.version },
+          ...(isDeviceCopy && { deviceId: localDeviceId }),
+        }),
+      });
+      if (!res.ok) return false;
+
+      await refreshKeyStatus();
+      return true;
+    } catch {
+      return false;
+    }
+  }, [refreshKeyStatus, openPrivateKey]);
+
+  const approveDevice = useCallback(async (code: string, passcode: string): Promise<DeviceApprovalResult> => {
+    if (!privateKeyRef.current) return 'failed';
+
+    try {
+      const normalized = normalizePairingCode(code);
+      const res = await fetch(`/api/user-keys/pairing/${encodeURIComponent(normalized)}`, { credentials: 'include' });
+      const data = await res.json();
+      const pairing: DevicePairingRequest | undefined = data.data?.pairing;
+      if (!res.ok || !pairing || pairing.status !== 'pending') return 'notFound';
+
+      // The imported private key isn't extractable, so the passcode confirms the approval
+      const opened = await openPrivateKey(passcode);
+      if (!opened) return 'wrongPasscode';
+
+      let sealed;
+      try {
+        sealed = await sealPrivateKeyForDevice(opened.jwk, pairing.devicePublicKey, normalized);
+      } catch {
+        return 'codeMismatch';
+      }
+
+      const approveRes = await fetch(`/api/user-keys/pairing/${encodeURIComponent(normalized)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ ...sealed, approvedBy: getLocalDeviceId() || undefined }),
+      });
+      if (!approveRes.ok) return 'failed';
+
+      resetAutoLock();
+      return 'approved';
+    } catch {
+      return 'failed';
+    }
+  }, [openPrivateKey, resetAutoLock]);
+
+  const enrollDevice = useCallback(async (
+    pairing: DevicePairingRequest,
+    pairingKeys: CryptoKeyPair,
+    passcode: string,
+    name: string
+  ): Promise<boolean> => {
+    if (pairing.status !== 'approved' || !pairing.approverPublicKey || !pairing.encryptedPrivateKey) return false;
+
+    try {
+      const privateKeyJWK = await openPrivateKeyFromApprover(
+        pairingKeys.privateKey,
+        pairing.approverPublicKey,
+        pairing.encryptedPrivateKey
+      );
+      const newDeviceId = generateDeviceId();
+      const wrapped = await encryptPrivateKey(privateKeyJWK, passcode);
+
+      const res = await fetch('/api/user-keys/devices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          deviceId: newDeviceId,
+          name,
+          pairingCode: pairing.code,
+          encryptedPrivateKey: { ...wrapped, version: 1 },
+        }),
+      });
+      if (!res.ok) return false;
+
+      setLocalDeviceId(newDeviceId);
+      setDeviceId(newDeviceId);
+      await refreshKeyStatus();
+
+      // The new device starts out unlocked
+      privateKeyRef.current = await importPrivateKeyFromJWK(privateKeyJWK);
+      setIsKeyUnlocked(true);
+      resetAutoLock();
+      return true;
+    } catch {
+      return false;
+    }
+  }, [refreshKeyStatus, resetAutoLock]);
+
+  const revokeDevice = useCallback(async (revokedDeviceId: string): Promise<boolean> => {
+    try {
+      const res = await fetch(`/api/user-keys/devices/${encodeURIComponent(revokedDeviceId)}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      if (!res.ok) return false;
+
+      if (revokedDeviceId === getLocalDeviceId()) {
+        setLocalDeviceId(null);
+        setDeviceId(null);
+      }
+      await refreshKeyStatus();
+      return true;
+    } catch {
+      return false;
+    }
+  }, [refreshKeyStatus]);
+
   return (
     <CryptoContext.Provider
       value={{
@@ -227,6 +534,13 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
         getGroupKey,
         encryptForGroup,
         decryptForGroup,
+        rotateGroupKey,
+        changePasscode,
+        devices,
+        isDeviceEnrolled: !!deviceId && devices.some((device) => device.deviceId === deviceId),
+        approveDevice,
+        enrollDevice,
+        revokeDevice,
         refreshKeyStatus,
       }}
     >
@@ -21,6 +21,8 @@ import {
   Timestamp,
 } from './core';
 import { getCollectionName } from '../../utils/environmentConfig';
+import { deleteGroupKeyForUser } from './userKeys';
+import { INITIAL_KEY_EPOCH } from '../../lib/crypto/contentEncryption';
 import type {
   Group,
   GroupMember,
@@ -248,6 +250,17 @@ export async function removeGroupMember(groupId: string, userId: string): Promis
         delete newDist[userId];
         updates.fundDistribution = newDist;
       }
+      // The removed member may still hold the group key - revoke theirs and
+      // flag the key for rotation by a remaining member
+      if (group.encrypted) {
+        await deleteGroupKeyForUser(groupId, userId);
+        updates.keyRotation = {
+          status: 'pending',
+          fromVersion: group.keyVersion || INITIAL_KEY_EPOCH,
+          removedUserId: userId,
+          requestedAt: new Date().toISOString(),
+        };
+      }
       await updateGroup(groupId, updates);
     }
 
@@ -1,9 +1,10 @@
 import type { LinkData, EditorContent } from "../../types/database";
+import type { ExportNode } from "../../utils/markdownExport";
 
 /**
  * Extract links from editor content nodes
  */
-export const extractLinksFromNodes = (nodes: EditorContent): LinkData[] => {
+export const extractLinksFromNodes = (nodes: EditorContent | ExportNode[]): LinkData[] => {
   const links: LinkData[] = [];
 
   const extractFromNode = (node: any) => {
@@ -282,6 +282,9 @@ export const createPage = async (data: CreatePageData): Promise<string | null> =
           alternativeTitles: [],
           lastModified: now,
           createdAt: now,
+          isReply: pageData.isReply,
+          replyTo: pageData.replyTo,
+          location: pageData.location,
         };
 
         try {
@@ -7,9 +7,12 @@
 
 import {
   db,
+  collection,
   doc,
   getDoc,
+  getDocs,
   setDoc,
+  writeBatch,
 } from './core';
 import { getCollectionName } from '../../utils/environmentConfig';
 import type { UserKeyBundle } from '../../lib/crypto/types';
@@ -139,14 +142,14 @@ export async function getGroupKeyForUser(
 }
 
 /**
- * Delete a user's wrapped group key (on member removal).
+ * Delete a user's wrapped group key (on member removal), along with the
+ * earlier key versions archived under it by key rotations.
  */
 export async function deleteGroupKeyForUser(
   groupId: string,
   userId: string
 ): Promise<boolean> {
   try {
-    const { deleteDoc } = await import('firebase/firestore');
     const docRef = doc(
       db,
       getCollectionName('groups'),
@@ -154,7 +157,11 @@ export async function deleteGroupKeyForUser(
       'keys',
       userId
     );
-    await deleteDoc(docRef);
+    const archivedKeys = await getDocs(collection(docRef, 'epochs'));
+    const batch = writeBatch(db);
+    archivedKeys.docs.forEach((keyDoc) => batch.delete(keyDoc.ref));
+    batch.delete(docRef);
+    await batch.commit();
     return true;
   } catch (error) {
     console.error('[UserKeys] Error deleting group key:', error);
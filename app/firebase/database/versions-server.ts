@@ -7,6 +7,7 @@ import { getFirebaseAdmin } from '../firebaseAdmin';
 import { getCollectionName } from '../../utils/environmentConfig';
 import logger from '../../utils/logger';
 import { hasContentChangedSync } from "../../utils/diffService";
+import { parseEncryptedContent } from "../../lib/crypto/contentEncryption";
 
 export interface VersionData {
   content: any;
@@ -17,13 +18,152 @@ export interface VersionData {
   batchWithGroup?: boolean;
   /** Explicit previous content for diff calculation. Pass null for new pages (no prior content). */
   previousContent?: any;
+  /** Provenance for versions produced by an automatic three-way merge */
+  mergedFrom?: VersionMergeProvenance;
+  /** Everyone who took part in the live co-editing session this version commits */
+  collaborators?: Array<{ userId: string; username: string }>;
+  /** Set when this version restores the content of an earlier version */
+  restoredFrom?: VersionRestoreSource;
+  /** Set when this version is an accepted suggested edit, credited to the suggester */
+  acceptedSuggestion?: VersionSuggestionSource;
+  /** Set on the version saved for a rename alone, whose content is its parent's */
+  titleChangeOnly?: boolean;
+  /**
+   * The page head the caller based this save on. When given, the save is
+   * written in a transaction and fails with conflict: true if another save
+   * changed the head in the meantime.
+   */
+  expectedHead?: VersionHead;
 }
 
+export interface SaveVersionResult {
+  success: boolean;
+  versionId?: string;
+  isNoOp?: boolean;
+  wasBatched?: boolean;
+  batchCount?: number;
+  /** Set when the page no longer had the expected head, so nothing was saved */
+  conflict?: boolean;
+  error?: string;
+}
+
+/**
+ * A page's current version and content, as read by a caller before saving
+ */
+export interface VersionHead {
+  currentVersion: string | null;
+  content: any;
+}
+
+/**
+ * The suggested edit a version was accepted from, and who accepted it
+ */
+export interface VersionSuggestionSource {
+  suggestionId: string;
+  acceptedBy: string;
+  acceptedByUsername: string;
+}
+
+/**
+ * The earlier version a restore brought back
+ */
+export interface VersionRestoreSource {
+  versionId: string;
+  createdAt: string | null;
+  userId: string | null;
+  username: string | null;
+}
+
+export interface VersionMergeProvenance {
+  /** Common ancestor both edits started from */
+  baseVersionId: string;
+  /** The concurrently saved head the edit was merged into (the edit itself started from baseVersionId) */
+  parentVersionIds: string[];
+  /** Authors of the merged edits */
+  parentUserIds: string[];
+}
+
+const isSameHead = (pageData: any, head: VersionHead): boolean =>
+  (pageData?.currentVersion || null) === head.currentVersion &&
+  JSON.stringify(pageData?.content ?? null) === JSON.stringify(head.content ?? null);
+
+/**
+ * Apply a save's writes. With an expected head they run in a transaction
+ * that first checks the page still has that head; returns false if it
+ * doesn't and nothing was written.
+ */
+const commitVersionWrites = async (
+  db: FirebaseFirestore.Firestore,
+  pageRef: FirebaseFirestore.DocumentReference,
+  expectedHead: VersionHead | undefined,
+  writes: Array<{ ref: FirebaseFirestore.DocumentReference; data: Record<string, any>; create?: boolean }>
+): Promise<boolean> => {
+  if (!expectedHead) {
+    for (const write of writes) {
+      await (write.create ? write.ref.set(write.data) : write.ref.update(write.data));
+    }
+    return true;
+  }
+
+  return db.runTransaction(async (transaction) => {
+    const pageDoc = await transaction.get(pageRef);
+    if (!isSameHead(pageDoc.data(), expectedHead)) return false;
+    writes.forEach(write => write.create
+      ? transaction.set(write.ref, write.data)
+      : transaction.update(write.ref, write.data));
+    return true;
+  });
+};
+
+const staleHeadResult = (pageId: string): SaveVersionResult => {
+  logger.warn('Page changed while saving, not writing version', { pageId });
+  return {
+    success: false,
+    conflict: true,
+    error: "The page was changed by another save"
+  };
+};
+
+/**
+ * Walk the previousVersionId chain back from headVersionId looking for ancestorVersionId.
+ * Returns the ancestor version (with its content) when it is found within maxDepth hops,
+ * or null if it isn't an ancestor of the head (or is too far back to be worth merging).
+ */
+export const getAncestorVersionServer = async (
+  pageId: string,
+  ancestorVersionId: string,
+  headVersionId: string,
+  maxDepth: number = 50
+): Promise<{ id: string; content: any; userId?: string } | null> => {
+  try {
+    const admin = getFirebaseAdmin();
+    const db = admin.firestore();
+    const versionsRef = db.collection(getCollectionName("pages")).doc(pageId).collection("versions");
+
+    let versionId: string | null = headVersionId;
+    for (let depth = 0; versionId && depth <= maxDepth; depth++) {
+      const versionDoc = await versionsRef.doc(versionId).get();
+      if (!versionDoc.exists) return null;
+
+      const versionData = versionDoc.data();
+      if (versionId === ancestorVersionId) {
+        return { id: versionDoc.id, content: versionData?.content, userId: versionData?.userId };
+      }
+      versionId = versionData?.previousVersionId || null;
+    }
+
+    return null;
+  } catch (error) {
+    logger.error('Failed to find ancestor version', { pageId, ancestorVersionId, headVersionId, error });
+    return null;
+  }
+};
+
 /**
  * Server-side version save using Firebase Admin SDK
  * This bypasses Firebase security rules since it runs with admin privileges
  */
-export const saveNewVersionServer = async (pageId: string, data: VersionData) => {
+export const saveNewVersionServer = async (pageId: string, data: VersionData): Promise<SaveVersionResult> => {
   try {
 
     // Initialize Firebase Admin
@@ -35,6 +175,11 @@ export const saveNewVersionServer = async (pageId: string, data: VersionData) =>
 
     // Keep the original content object for diff calculation
     const contentForDiff = data.content;
+
+    // ENCRYPTED GROUPS: the snapshot is stored as the ciphertext blob the client
+    // sent. The server can't read it, so diffs, previews and scoring are left
+    // to members' browsers (calculateDiff returns an empty diff for blobs).
+    const isEncrypted = !!parseEncryptedContent(data.content);
     
     if (!contentString || contentString.trim() === '') {
       console.error("🔴 VERSION SERVER: Content is empty or invalid");
@@ -60,6 +205,10 @@ export const saveNewVersionServer = async (pageId: string, data: VersionData) =>
     const currentVersionId = pageData?.currentVersion;
     const isNewPage = !currentVersionId;
 
+    if (data.expectedHead && !isSameHead(pageData, data.expectedHead)) {
+      return staleHeadResult(pageId);
+    }
+
     // Enhanced no-op detection: Check if content has changed
     let isNoOpEdit = false;
     if (!isNewPage && pageData?.content) {
@@ -120,11 +269,13 @@ export const saveNewVersionServer = async (pageId: string, data: VersionData) =>
             lastModified: now
           };
 
-          // Execute both updates in parallel for speed
-          await Promise.all([
-            existingVersionDoc.ref.update(immediateUpdateData),
-            pageRef.update(immediatePageUpdate)
+          const committed = await commitVersionWrites(db, pageRef, data.expectedHead, [
+            { ref: existingVersionDoc.ref, data: immediateUpdateData },
+            { ref: pageRef, data: immediatePageUpdate }
           ]);
+          if (!committed) {
+            return staleHeadResult(pageId);
+          }
 
 
           // BACKGROUND: Calculate diff and PageScore asynchronously
@@ -168,6 +319,7 @@ export const saveNewVersionServer = async (pageId: string, data: VersionData) =>
 
           // Background PageScore calculation
           (async () => {
+            if (isEncrypted) return;
             try {
               const { PageScoringService } = await import('../../services/PageScoringService');
               const scoreResult = await PageScoringService.calculatePageScore(
@@ -230,7 +382,7 @@ export const saveNewVersionServer = async (pageId: string, data: VersionData) =>
 
     // Compute fallback diffPreview for new pages (extract text instead of using raw JSON)
     let fallbackDiffPreview = null;
-    if (!diffResult?.preview && isNewPage) {
+    if (!diffResult?.preview && isNewPage && !isEncrypted) {
       try {
         const { extractTextContent } = await import('../../utils/text-extraction');
         const textPreview = extractTextContent(data.content).substring(0, 200);
@@ -261,7 +413,7 @@ export const saveNewVersionServer = async (pageId: string, data: VersionData) =>
       diff: diffResult ? {
         added: diffResult.added || 0,
         removed: diffResult.removed || 0,
-        hasChanges: (diffResult.added > 0 || diffResult.removed > 0) || isNewPage
+        hasChanges: (diffResult.added > 0 || diffResult.removed > 0) || isNewPage || isEncrypted
       } : {
         added: 0,
         removed: 0,
@@ -283,6 +435,30 @@ export const saveNewVersionServer = async (pageId: string, data: VersionData) =>
       isNoOp: false
     };
 
+    if (data.mergedFrom) {
+      versionData.mergedFrom = data.mergedFrom;
+    }
+
+    if (data.collaborators?.length) {
+      versionData.collaborators = data.collaborators;
+    }
+
+    if (data.restoredFrom) {
+      versionData.restoredFrom = data.restoredFrom;
+    }
+
+    if (data.acceptedSuggestion) {
+      versionData.acceptedSuggestion = data.acceptedSuggestion;
+    }
+
+    if (data.titleChangeOnly) {
+      versionData.titleChangeOnly = true;
+    }
+
+    if (isEncrypted) {
+      versionData.encrypted = true;
+    }
+
     // VERSION BATCHING: If this is the first version in a batch group,
     // store the original content so subsequent batches can calculate accurate diffs
     if (data.batchWithGroup && data.groupId) {
@@ -295,8 +471,8 @@ export const saveNewVersionServer = async (pageId: string, data: VersionData) =>
 
     // Create the new version document
     const versionsRef = pageRef.collection("versions");
-    const versionRef = await versionsRef.add(versionData);
-    
+    const versionRef = versionsRef.doc();
+
 
     // Update the page document with the new current version and content
     // CRITICAL FIX: Store content in original format (object), not as string
@@ -308,14 +484,20 @@ export const saveNewVersionServer = async (pageId: string, data: VersionData) =>
       lastDiff: diffResult ? {
         added: diffResult.added || 0,
         removed: diffResult.removed || 0,
-        hasChanges: (diffResult.added > 0 || diffResult.removed > 0) || isNewPage,
+        hasChanges: (diffResult.added > 0 || diffResult.removed > 0) || isNewPage || isEncrypted,
         isNewPage: isNewPage,
         preview: diffResult.preview || null
       } : null
     };
 
 
-    await pageRef.update(pageUpdateData);
+    const committed = await commitVersionWrites(db, pageRef, data.expectedHead, [
+      { ref: versionRef, data: versionData, create: true },
+      { ref: pageRef, data: pageUpdateData }
+    ]);
+    if (!committed) {
+      return staleHeadResult(pageId);
+    }
 
     // PERFORMANCE: Run non-blocking operations in background (fire and forget)
     // Cache invalidation doesn't need to block the response
@@ -333,6 +515,7 @@ export const saveNewVersionServer = async (pageId: string, data: VersionData) =>
       })(),
       // Calculate and update PageScore (page quality scoring)
       (async () => {
+        if (isEncrypted) return;
         try {
           const { PageScoringService } = await import('../../services/PageScoringService');
           const scoreResult = await PageScoringService.calculatePageScore(
@@ -6,6 +6,7 @@ import {
   addDoc,
   setDoc,
   query,
+  where,
   orderBy,
   limit,
   Timestamp
@@ -44,6 +45,26 @@ export const getVersionsByPageId = async (pageId: string): Promise<PageVersion[]
   }
 };
 
+/**
+ * Get a version and every version saved after it, oldest first - for
+ * catching up on history that was already processed up to that version
+ */
+export const getVersionsSince = async (pageId: string, sinceVersionId: string): Promise<PageVersion[] | Error> => {
+  try {
+    const versionsRef = collection(doc(db, getCollectionName("pages"), pageId), "versions");
+    const sinceSnap = await getDoc(doc(versionsRef, sinceVersionId));
+    if (!sinceSnap.exists()) {
+      return [];
+    }
+
+    const since = { id: sinceSnap.id, ...sinceSnap.data() } as PageVersion;
+    const newerSnap = await getDocs(query(versionsRef, where("createdAt", ">", since.createdAt), orderBy("createdAt", "asc")));
+    return [since, ...newerSnap.docs.map((versionDoc) => ({ id: versionDoc.id, ...versionDoc.data() } as PageVersion))];
+  } catch (e) {
+    return e as Error;
+  }
+};
+
 /**
  * Get a specific version by ID
  */
@@ -425,6 +446,10 @@ const pageDoc = await getDoc(doc(db, getCollectionName("pages"), pageId));
           alternativeTitles: pageSyncData.alternativeTitles || [],
           lastModified: now,
           createdAt: pageSyncData.createdAt,
+          groupId: pageSyncData.groupId || undefined,
+          isReply: pageSyncData.isReply,
+          replyTo: pageSyncData.replyTo,
+          location: pageSyncData.location,
         };
 
         try {
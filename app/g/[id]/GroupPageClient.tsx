@@ -1,8 +1,10 @@
 'use client';
 
-import React, { useState, useEffect, Suspense } from 'react';
+import React, { useState, useEffect, useRef, Suspense } from 'react';
 import dynamic from 'next/dynamic';
 import { useAuth } from '../../providers/AuthProvider';
+import { useCrypto } from '../../hooks/useCrypto';
+import { toast } from '../../components/ui/use-toast';
 import { Badge } from '../../components/ui/badge';
 import { Button } from '../../components/ui/button';
 import NavPageLayout from '../../components/layout/NavPageLayout';
@@ -89,6 +91,8 @@ function GroupPageClientInner({ initialGroup }: GroupPageClientProps) {
   const [group, setGroup] = useState<Group>(initialGroup);
   const [members, setMembers] = useState<GroupMember[]>([]);
   const [showInviteModal, setShowInviteModal] = useState(false);
+  const { isKeyUnlocked, rotateGroupKey } = useCrypto();
+  const rotatingRef = useRef(false);
 
   const { activeTab, setActiveTab } = useTabNavigation({
     defaultTab: 'about',
@@ -119,6 +123,23 @@ function GroupPageClientInner({ initialGroup }: GroupPageClientProps) {
     fetchGroupDetails();
   }, [group.id]);
 
+  // A removed member may still hold the group key. Any member with unlocked
+  // keys finishes a pending rotation, including one interrupted earlier.
+  useEffect(() => {
+    if (!group.encrypted || !group.keyRotation || !isMember || !isKeyUnlocked || rotatingRef.current) return;
+
+    rotatingRef.current = true;
+    rotateGroupKey(group.id).then((rotated) => {
+      rotatingRef.current = false;
+      if (rotated) {
+        setGroup((prev) => ({ ...prev, keyRotation: undefined }));
+        toast.success('Group encryption key rotated');
+      } else {
+        toast.error('Could not finish rotating the group key. It will be retried next time.');
+      }
+    });
+  }, [group.id, group.encrypted, group.keyRotation, isMember, isKeyUnlocked, rotateGroupKey]);
+
   const handleRemoveMember = async (userId: string) => {
     if (!confirm('Remove this member from the group?')) return;
 
@@ -129,12 +150,25 @@ function GroupPageClientInner({ initialGroup }: GroupPageClientProps) {
       });
 
       if (res.ok) {
+        const data = await res.json();
         setMembers((prev) => prev.filter((m) => m.userId !== userId));
         setGroup((prev) => ({
           ...prev,
           memberIds: prev.memberIds.filter((id) => id !== userId),
           memberCount: prev.memberCount - 1,
+          // Picked up by the rotation effect above
+          ...(data.data?.keyRotationRequired && {
+            keyRotation: {
+              status: 'pending' as const,
+              fromVersion: prev.keyVersion || 1,
+              removedUserId: userId,
+              requestedAt: new Date().toISOString(),
+            },
+          }),
         }));
+        if (data.data?.keyRotationRequired && !isKeyUnlocked) {
+          toast.info('Unlock your encryption keys to rotate the group key');
+        }
       }
     } catch {
       // Silently ignore
@@ -349,6 +383,7 @@ function GroupPageClientInner({ initialGroup }: GroupPageClientProps) {
           variant="user"
           isUserAllocation={true}
           username={group.name || 'Group'}
+          recurringTargetType="group"
         />
       )}
 
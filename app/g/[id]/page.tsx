@@ -40,9 +40,18 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
     return { title: 'Group Not Found' };
   }
 
+  // Private groups have no feed
+  const alternates = (group as any).visibility === 'private' ? undefined : {
+    types: {
+      'application/rss+xml': `/api/feeds/group/${id}`,
+      'application/atom+xml': `/api/feeds/group/${id}?format=atom`,
+    },
+  };
+
   return {
     title: `${(group as any).name} - WeWrite`,
     description: (group as any).description || `A group on WeWrite`,
+    alternates,
   };
 }
 
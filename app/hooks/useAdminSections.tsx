@@ -102,6 +102,13 @@ const ADMIN_SECTIONS: AdminSection[] = [
     href: '/admin/users',
     description: 'User management and search'
   },
+  {
+    id: 'moderation',
+    title: 'Moderation',
+    icon: createIconComponent('Flag'),
+    href: '/admin/moderation',
+    description: 'Reported content and user actions'
+  },
   {
     id: 'user-activation',
     title: 'User Activation',
@@ -0,0 +1,363 @@
+/**
+ * WHY: Group pages are written together. This hook joins a page's live editing
+ * session in the Realtime Database, broadcasts local Slate operations, applies
+ * everyone else's, and shares cursors/selections through presence. The session
+ * is saved as a single version when the last person leaves, so autosave stays
+ * out of the way while more than one person is editing.
+ */
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Editor as SlateEditor, Operation, Range, Transforms } from 'slate';
+import { HistoryEditor } from 'slate-history';
+import {
+  ref,
+  set,
+  push,
+  onValue,
+  onChildAdded,
+  onDisconnect,
+  get,
+  runTransaction,
+  serverTimestamp,
+} from 'firebase/database';
+import { rtdb } from '../firebase/config';
+import { useAuth } from '../providers/AuthProvider';
+import {
+  getCollaboratorColor,
+  isBroadcastOperation,
+  transformOperations,
+} from '../utils/collaborativeOperations';
+
+export interface CollaboratorPresence {
+  clientId: string;
+  userId: string;
+  username: string;
+  color: string;
+  selection: Range | null;
+}
+
+export interface CollaborationState {
+  // Distinct people currently in the session, including you
+  editorCount: number;
+  // True once more than one person has taken part - the session then owns saving content
+  shared: boolean;
+}
+
+interface LogEntry {
+  key: string;
+  clientId: string;
+  seq: number;
+  ops: Operation[];
+}
+
+// Highest batch number applied from each client in the session
+type SeenVector = Record<string, number>;
+
+interface UseCollaborativeSessionOptions {
+  pageId?: string;
+  editor: SlateEditor;
+  enabled: boolean;
+  onStateChange?: (state: CollaborationState) => void;
+}
+
+// How long to wait after local edits before refreshing the shared snapshot
+const SNAPSHOT_DELAY = 2000;
+// Applied operations kept for transforming late-arriving concurrent edits
+const MAX_LOG_ENTRIES = 200;
+
+const createClientId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export function useCollaborativeSession({ pageId, editor, enabled, onStateChange }: UseCollaborativeSessionOptions) {
+  const { user } = useAuth();
+
+  const [joined, setJoined] = useState(false);
+  const [collaborators, setCollaborators] = useState<CollaboratorPresence[]>([]);
+  const [editorCount, setEditorCount] = useState(0);
+  const [shared, setShared] = useState(false);
+
+  const clientIdRef = useRef(createClientId());
+  const sessionPathRef = useRef<string | null>(null);
+  // Operation batches in the order they were applied here
+  const logRef = useRef<LogEntry[]>([]);
+  const seenRef = useRef<SeenVector>({});
+  const seqRef = useRef(0);
+  // Operations produced by applying remote changes - never re-broadcast
+  const remoteOpsRef = useRef(new WeakSet<Operation>());
+  const lastSelectionRef = useRef<string | null>(null);
+  const snapshotTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const onStateChangeRef = useRef(onStateChange);
+  onStateChangeRef.current = onStateChange;
+
+  /**
+   * Apply changes that came from the session without recording them in undo
+   * history or broadcasting them back out
+   */
+  const applyRemote = useCallback((fn: () => void) => {
+    const start = editor.operations.length;
+    HistoryEditor.withoutSaving(editor as HistoryEditor, () => {
+      SlateEditor.withoutNormalizing(editor, fn);
+    });
+    editor.operations.slice(start).forEach(op => remoteOpsRef.current.add(op));
+  }, [editor]);
+
+  const replaceContent = useCallback((content: any[]) => {
+    applyRemote(() => {
+      Transforms.deselect(editor);
+      for (let i = editor.children.length - 1; i >= 0; i--) {
+        Transforms.removeNodes(editor, { at: [i] });
+      }
+      Transforms.insertNodes(editor, content, { at: [0] });
+    });
+  }, [applyRemote, editor]);
+
+  const writeSnapshot = useCallback(() => {
+    const sessionPath = sessionPathRef.current;
+    if (!sessionPath) return;
+
+    set(ref(rtdb, `${sessionPath}/snapshot`), {
+      content: JSON.stringify(editor.children),
+      seen: seenRef.current,
+      updatedAt: serverTimestamp(),
+    }).catch(error => console.warn('[Collaboration] Failed to write snapshot:', error));
+  }, [editor]);
+
+  /**
+   * Recover from an operation that no longer applies by reloading the shared
+   * snapshot and replaying the log entries after it
+   */
+  const resync = useCallback(async () => {
+    const sessionPath = sessionPathRef.current;
+    if (!sessionPath) return;
+
+    const snapshot = (await get(ref(rtdb, `${sessionPath}/snapshot`))).val();
+    if (!snapshot?.content) return;
+
+    const included: SeenVector = snapshot.seen || {};
+    replaceContent(JSON.parse(snapshot.content));
+    for (const entry of logRef.current) {
+      if (entry.seq <= (included[entry.clientId] || 0)) continue;
+      try {
+        applyRemote(() => entry.ops.forEach(op => editor.apply(op)));
+      } catch {
+        // Skip entries that can't be replayed - the next snapshot supersedes them
+      }
+    }
+  }, [applyRemote, editor, replaceContent]);
+
+  const appendToLog = useCallback((entry: LogEntry) => {
+    const log = logRef.current;
+    log.push(entry);
+    if (log.length > MAX_LOG_ENTRIES) {
+      log.splice(0, log.length - MAX_LOG_ENTRIES);
+    }
+    seenRef.current = { ...seenRef.current, [entry.clientId]: entry.seq };
+  }, []);
+
+  const handleLogEntry = useCallback((key: string, entry: any) => {
+    // Our own batches were applied and logged when they were made, and batches
+    // already in the snapshot we started from don't need applying again
+    if (!entry?.ops || entry.clientId === clientIdRef.current) return;
+    if (entry.seq <= (seenRef.current[entry.clientId] || 0)) return;
+
+    let ops: Operation[];
+    try {
+      ops = JSON.parse(entry.ops);
+    } catch {
+      return;
+    }
+
+    // Transform past every batch the author hadn't applied when they made this one.
+    // Push keys give everyone the same tie-break when two edits touch the same spot.
+    const authorSeen: SeenVector = entry.seen || {};
+    for (const logEntry of logRef.current) {
+      if (logEntry.clientId === entry.clientId || logEntry.seq <= (authorSeen[logEntry.clientId] || 0)) continue;
+      ops = transformOperations(ops, logEntry.ops, logEntry.key < key ? 'forward' : 'backward');
+    }
+
+    try {
+      applyRemote(() => ops.forEach(op => editor.apply(op)));
+    } catch (error) {
+      console.warn('[Collaboration] Remote operation could not be applied, resyncing:', error);
+      resync();
+    }
+
+    appendToLog({ key, clientId: entry.clientId, seq: entry.seq, ops });
+  }, [appendToLog, applyRemote, editor, resync]);
+
+  /**
+   * Call from the Slate onChange handler - broadcasts local operations and the current selection
+   */
+  const handleLocalChange = useCallback(() => {
+    const sessionPath = sessionPathRef.current;
+    if (!joined || !sessionPath || !user?.uid) return;
+
+    const ops = editor.operations.filter(op => isBroadcastOperation(op) && !remoteOpsRef.current.has(op));
+    if (ops.length > 0) {
+      // Copy so later in-place changes by Slate can't alter what we sent
+      const batch: Operation[] = JSON.parse(JSON.stringify(ops));
+      const seq = ++seqRef.current;
+      const sent = push(ref(rtdb, `${sessionPath}/ops`), {
+        clientId: clientIdRef.current,
+        userId: user.uid,
+        seq,
+        seen: seenRef.current,
+        ops: JSON.stringify(batch),
+        createdAt: serverTimestamp(),
+      });
+      sent.catch(error => console.warn('[Collaboration] Failed to send operations:', error));
+      appendToLog({ key: sent.key!, clientId: clientIdRef.current, seq, ops: batch });
+
+      if (snapshotTimerRef.current) clearTimeout(snapshotTimerRef.current);
+      snapshotTimerRef.current = setTimeout(writeSnapshot, SNAPSHOT_DELAY);
+    }
+
+    const selection = editor.selection ? JSON.stringify(editor.selection) : null;
+    if (selection !== lastSelectionRef.current) {
+      lastSelectionRef.current = selection;
+      set(ref(rtdb, `${sessionPath}/presence/${clientIdRef.current}/selection`), editor.selection)
+        .catch(() => {
+          // Cursor updates are best-effort
+        });
+    }
+  }, [appendToLog, editor, joined, user?.uid, writeSnapshot]);
+
+  // Join the session, follow presence and the operation log, and leave on unmount
+  useEffect(() => {
+    if (!enabled || !pageId || !user?.uid) return;
+
+    const clientId = clientIdRef.current;
+    const userId = user.uid;
+    const username = user.username || 'Anonymous';
+    const unsubscribers: Array<() => void> = [];
+    let cancelled = false;
+    let left = false;
+
+    const join = async () => {
+      const response = await fetch(`/api/pages/${pageId}/collaboration`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      if (!response.ok || cancelled) return;
+
+      const result = await response.json();
+      const sessionPath: string = result?.data?.sessionPath;
+      if (!sessionPath || cancelled) return;
+
+      // Start from the shared snapshot, seeding it with our content if we're first
+      const seeded = await runTransaction(ref(rtdb, `${sessionPath}/snapshot`), current => current ?? {
+        content: JSON.stringify(editor.children),
+        updatedAt: Date.now(),
+      });
+      if (cancelled) return;
+
+      const snapshot = seeded.snapshot.val();
+      if (snapshot?.content && snapshot.content !== JSON.stringify(editor.children)) {
+        replaceContent(JSON.parse(snapshot.content));
+      }
+
+      sessionPathRef.current = sessionPath;
+      seenRef.current = snapshot?.seen || {};
+      logRef.current = [];
+
+      const presenceRef = ref(rtdb, `${sessionPath}/presence/${clientId}`);
+      await onDisconnect(presenceRef).remove();
+      await set(presenceRef, {
+        userId,
+        username,
+        color: getCollaboratorColor(userId),
+        updatedAt: serverTimestamp(),
+      });
+      if (cancelled) return;
+
+      unsubscribers.push(onValue(ref(rtdb, `${sessionPath}/presence`), (presenceSnapshot) => {
+        const present: Record<string, any> = presenceSnapshot.val() || {};
+        setEditorCount(new Set(Object.values(present).map((entry: any) => entry?.userId)).size);
+        setCollaborators(
+          Object.entries(present)
+            .filter(([id]) => id !== clientId)
+            .map(([id, entry]: [string, any]) => ({
+              clientId: id,
+              userId: entry.userId,
+              username: entry.username || 'Anonymous',
+              color: entry.color || getCollaboratorColor(entry.userId || id),
+              selection: entry.selection || null,
+            }))
+        );
+      }));
+
+      unsubscribers.push(onValue(ref(rtdb, `${sessionPath}/participants`), (participantsSnapshot) => {
+        setShared(Object.keys(participantsSnapshot.val() || {}).length > 1);
+      }));
+
+      unsubscribers.push(onChildAdded(ref(rtdb, `${sessionPath}/ops`), (child) => {
+        if (child.key) handleLogEntry(child.key, child.val());
+      }));
+
+      setJoined(true);
+    };
+
+    // The server commits the session as a version once nobody is left in it
+    const leave = (keepalive: boolean) => {
+      if (left) return;
+      left = true;
+      if (!sessionPathRef.current) return;
+
+      fetch(`/api/pages/${pageId}/collaboration`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ clientId, content: editor.children }),
+        credentials: 'include',
+        keepalive,
+      }).catch((error) => {
+        // Large pages can exceed the keepalive body limit - the server falls back to the shared snapshot
+        if (keepalive) {
+          fetch(`/api/pages/${pageId}/collaboration`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ clientId }),
+            credentials: 'include',
+            keepalive: true,
+          }).catch(() => {});
+        } else {
+          console.warn('[Collaboration] Failed to leave session:', error);
+        }
+      });
+    };
+
+    const handlePageHide = () => {
+      writeSnapshot();
+      leave(true);
+    };
+
+    join().catch(error => console.warn('[Collaboration] Failed to join session:', error));
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener('pagehide', handlePageHide);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      if (snapshotTimerRef.current) clearTimeout(snapshotTimerRef.current);
+      writeSnapshot();
+      leave(false);
+      sessionPathRef.current = null;
+      setJoined(false);
+      setCollaborators([]);
+      setEditorCount(0);
+      setShared(false);
+    };
+  }, [enabled, pageId, user?.uid, user?.username, editor, replaceContent, handleLogEntry, writeSnapshot]);
+
+  useEffect(() => {
+    onStateChangeRef.current?.({ editorCount, shared });
+  }, [editorCount, shared]);
+
+  return {
+    joined,
+    collaborators,
+    editorCount,
+    shared,
+    handleLocalChange,
+  };
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useCallback } from 'react';
+import { useCrypto } from '../contexts/CryptoContext';
+import { parseEncryptedContent } from '../lib/crypto/contentEncryption';
+import type { EncryptedContent } from '../lib/crypto/types';
+import type { ContentDecryptor } from '../utils/diffService';
+
+type GroupDecrypt = (encrypted: EncryptedContent, groupId: string) => Promise<unknown | null>;
+
+/**
+ * Build a decryptor for one group's content.
+ * Plaintext content passes through unchanged; encrypted content resolves to
+ * null when it can't be decrypted (keys locked, or no group to decrypt with).
+ */
+export function createContentDecryptor(decryptForGroup: GroupDecrypt, groupId?: string | null): ContentDecryptor {
+  return async (content: unknown) => {
+    const encrypted = parseEncryptedContent(content);
+    if (!encrypted) return content;
+    if (!groupId) return null;
+    return decryptForGroup(encrypted, groupId);
+  };
+}
+
+/**
+ * Decrypt page or version content of an encrypted group in the browser.
+ * Pass the result to calculateDiff as `decrypt` so encrypted history is
+ * diffed client-side and plaintext never reaches the server.
+ */
+export function useContentDecryption(groupId?: string | null): ContentDecryptor {
+  const { decryptForGroup } = useCrypto();
+
+  return useCallback(
+    (content: unknown) => createContentDecryptor(decryptForGroup, groupId)(content),
+    [groupId, decryptForGroup]
+  );
+}
@@ -1,5 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { createReplyContent } from '../utils/replyUtils';
+import { getReplyQuoteInput } from '../utils/replyThreads';
+import { fillTemplate, getBuiltInTemplateValues } from '../utils/pageTemplates';
+import { dailyNotesApi, pageTemplatesApi } from '../utils/apiClient';
+import { format } from 'date-fns';
+import type { DailyNoteTemplateKind, PageTemplate, PageTemplateSource } from '../types/database';
 
 interface Location {
   lat: number;
@@ -7,6 +12,13 @@ interface Location {
   zoom?: number;
 }
 
+// New page types that start from the user's daily note templates
+const DAILY_NOTE_PAGE_TYPES: Record<string, DailyNoteTemplateKind> = {
+  'daily-note': 'daily',
+  'weekly-note': 'weekly',
+  'monthly-note': 'monthly',
+};
+
 interface UseNewPageSetupOptions {
   pageId: string;
   user: any;
@@ -78,6 +90,9 @@ export function useNewPageSetup({
     const initialContentParam = searchParams?.get('initialContent');
     const pageType = searchParams?.get('type');
     const locationParam = searchParams?.get('location');
+    const quoteParam = searchParams?.get('quote');
+    const rollupDate = searchParams?.get('rollupDate');
+    const templateId = searchParams?.get('template');
 
     // Build initial title
     let initialTitle = '';
@@ -89,6 +104,16 @@ export function useNewPageSetup({
       }
     }
 
+    // The passage being replied to, selected on the parent page
+    let replyQuote: { text: string; blockIndex: number | null } | null = null;
+    if (replyTo && quoteParam) {
+      try {
+        replyQuote = getReplyQuoteInput(JSON.parse(quoteParam));
+      } catch {
+        // Ignore parse errors
+      }
+    }
+
     // Build initial content for replies
     let initialContent: any[] = [{ type: "paragraph", children: [{ text: "" }] }];
     if (replyTo) {
@@ -111,6 +136,7 @@ export function useNewPageSetup({
           username: decodedUsername || "Anonymous",
           replyType: sentiment
         }),
+        ...(replyQuote ? [{ type: "block-quote", children: [{ text: replyQuote.text }] }] : []),
         { type: "paragraph", children: [{ text: "" }] }
       ];
     } else if (urlContent && urlContent.trim()) {
@@ -129,6 +155,9 @@ export function useNewPageSetup({
       initialCustomDate = customDate.trim();
     } else if (pageType === 'daily-note' && urlTitle && /^\d{4}-\d{2}-\d{2}$/.test(urlTitle.trim())) {
       initialCustomDate = urlTitle.trim();
+    } else if (pageType === 'daily-note') {
+      // Date today's note so tomorrow's can link back to it
+      initialCustomDate = format(new Date(), 'yyyy-MM-dd');
     }
 
     // Parse location from URL param (from map flow)
@@ -161,19 +190,65 @@ export function useNewPageSetup({
       replyTo: replyTo || null,
       replyToTitle: replyToTitle ? decodeURIComponent(replyToTitle) : null,
       replyToUsername: replyToUsername ? decodeURIComponent(replyToUsername) : null,
+      replyQuote,
       groupId: groupId || null,
       customDate: initialCustomDate,
       location: initialLocation
     };
 
-    setPage(newPageData);
-    setTitle(initialTitle);
-    setEditorState(initialContent);
-    setCustomDate(initialCustomDate);
-    setLocation(initialLocation);
-    setIsLoading(false);
-    setNewPageCreated(true);
-    isNewPageRef.current = true; // Track new page status via ref to avoid re-renders on first save
+    const showNewPage = (content: any[], title: string, fromTemplate: PageTemplateSource | null = null) => {
+      setPage({ ...newPageData, title, content, fromTemplate });
+      setTitle(title);
+      setEditorState(content);
+      setCustomDate(initialCustomDate);
+      setLocation(initialLocation);
+      setIsLoading(false);
+      setNewPageCreated(true);
+      isNewPageRef.current = true; // Track new page status via ref to avoid re-renders on first save
+    };
+
+    // Pages started from a template, and daily notes and rollups, open with
+    // their template filled in - unless the link already says what the page
+    // should contain
+    const noteKind = pageType ? DAILY_NOTE_PAGE_TYPES[pageType] : undefined;
+    if ((!templateId && !noteKind) || replyTo || urlContent || initialContentParam) {
+      showNewPage(initialContent, initialTitle);
+      return;
+    }
+
+    let cancelled = false;
+
+    if (templateId) {
+      pageTemplatesApi.getTemplate(templateId).then(response => {
+        if (cancelled) return;
+        const template: PageTemplate | undefined = response.success ? response.data?.template : undefined;
+        if (!template) {
+          showNewPage(initialContent, initialTitle);
+          return;
+        }
+        showNewPage(
+          fillTemplate(template.content, getBuiltInTemplateValues(user.username || 'Anonymous')),
+          initialTitle,
+          { templateId: template.id, title: template.title, userId: template.userId, username: template.username }
+        );
+      });
+      return () => { cancelled = true; };
+    }
+
+    const noteDate = noteKind === 'daily'
+      ? initialCustomDate!
+      : rollupDate && /^\d{4}-\d{2}-\d{2}$/.test(rollupDate) ? rollupDate : format(new Date(), 'yyyy-MM-dd');
+    dailyNotesApi.renderNote(noteKind!, noteDate, Intl.DateTimeFormat().resolvedOptions().timeZone)
+      .then(response => {
+        if (cancelled) return;
+        if (response.success && Array.isArray(response.data?.content)) {
+          showNewPage(response.data.content, initialTitle || response.data.title || '');
+        } else {
+          showNewPage(initialContent, initialTitle);
+        }
+      });
+
+    return () => { cancelled = true; };
   }, [isNewPageMode, pageId, user, newPageCreated, searchParams, setPage, setTitle, setEditorState, setCustomDate, setLocation, setIsLoading, isNewPageRef]);
 
   return {
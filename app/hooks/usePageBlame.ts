@@ -0,0 +1,127 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { getVersionsByPageId, getVersionsSince } from '../firebase/database/versions';
+import { computeBlame, orderVersionChain, BlameAuthor, BlameVersion } from '../utils/pageBlame';
+import { toBlocks } from '../utils/pageMerge';
+import { generateCacheKey, getCacheItem, setCacheItem } from '../utils/cacheUtils';
+
+// A version's blame never changes, so cached entries only expire to free space
+const BLAME_CACHE_TTL = 30 * 24 * 60 * 60 * 1000;
+
+// Blame for every version computed this session, keyed by page and version
+const sessionBlame = new Map<string, BlameAuthor[]>();
+
+/**
+ * The page's version chain, oldest first. When blame was already computed up
+ * to `cachedHeadId`, only that version and the ones saved after it are
+ * fetched - unless one of them restores an older version, whose blame is
+ * needed too, or they don't lead back to it.
+ */
+async function loadVersionChain(
+  pageId: string,
+  headVersionId: string | null | undefined,
+  cachedHeadId: string | null
+): Promise<BlameVersion[] | Error> {
+  if (cachedHeadId) {
+    const recent = await getVersionsSince(pageId, cachedHeadId);
+    if (!(recent instanceof Error) && recent.length > 0) {
+      const chain = orderVersionChain(recent, headVersionId);
+      const ids = new Set(chain.map(version => version.id));
+      const restoresLoaded = chain.slice(1).every(version =>
+        !version.restoredFrom?.versionId || ids.has(version.restoredFrom.versionId));
+      if (chain[0]?.id === cachedHeadId && restoresLoaded) return chain;
+    }
+  }
+
+  const versions = await getVersionsByPageId(pageId);
+  return versions instanceof Error ? versions : orderVersionChain(versions, headVersionId);
+}
+
+export interface BlamedParagraph {
+  block: any;
+  author: BlameAuthor | null;
+}
+
+interface PageBlameState {
+  paragraphs: BlamedParagraph[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Paragraph-level blame for a page: each paragraph of the head version paired
+ * with the version that last changed it.
+ *
+ * Blame is cached per version - in memory for the session and in localStorage
+ * for the head version - so reopening blame only fetches and diffs versions
+ * saved since.
+ */
+export function usePageBlame(
+  pageId: string,
+  headVersionId: string | null | undefined,
+  enabled: boolean
+): PageBlameState {
+  const [state, setState] = useState<PageBlameState>({ paragraphs: [], loading: false, error: null });
+
+  useEffect(() => {
+    if (!enabled || !pageId) return;
+
+    let cancelled = false;
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    (async () => {
+      const cacheKey = (versionId: string) => generateCacheKey('pageBlame', pageId, versionId);
+      const headCacheKey = generateCacheKey('pageBlameHead', pageId);
+      const storedHeadId = getCacheItem(headCacheKey);
+      const cachedHeadId = typeof storedHeadId === 'string' &&
+        (sessionBlame.has(cacheKey(storedHeadId)) || Array.isArray(getCacheItem(cacheKey(storedHeadId))))
+        ? storedHeadId
+        : null;
+
+      const chain = await loadVersionChain(pageId, headVersionId, cachedHeadId);
+      if (cancelled) return;
+
+      if (chain instanceof Error) {
+        setState({ paragraphs: [], loading: false, error: 'Unable to load page history' });
+        return;
+      }
+
+      const head = chain[chain.length - 1];
+      if (!head) {
+        setState({ paragraphs: [], loading: false, error: null });
+        return;
+      }
+
+      const cached = new Map<string, BlameAuthor[]>();
+      for (const version of chain) {
+        const blame = sessionBlame.get(cacheKey(version.id));
+        if (blame) cached.set(version.id, blame);
+      }
+      for (const versionId of [cachedHeadId, head.id]) {
+        if (!versionId || cached.has(versionId)) continue;
+        const stored = getCacheItem(cacheKey(versionId));
+        if (Array.isArray(stored)) cached.set(versionId, stored);
+      }
+
+      const blameByVersion = computeBlame(chain, cached);
+      blameByVersion.forEach((blame, versionId) => sessionBlame.set(cacheKey(versionId), blame));
+
+      const headBlame = blameByVersion.get(head.id) || [];
+      setCacheItem(cacheKey(head.id), headBlame, BLAME_CACHE_TTL);
+      setCacheItem(headCacheKey, head.id, BLAME_CACHE_TTL);
+
+      setState({
+        paragraphs: toBlocks(head.content).map((block, index) => ({ block, author: headBlame[index] || null })),
+        loading: false,
+        error: null,
+      });
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pageId, headVersionId, enabled]);
+
+  return state;
+}
@@ -121,6 +121,10 @@ export const metadata: Metadata = {
   },
   alternates: {
     canonical: 'https://www.getwewrite.app',
+    types: {
+      'application/rss+xml': '/api/feeds/global',
+      'application/atom+xml': '/api/feeds/global?format=atom',
+    },
   },
   category: 'writing',
 }
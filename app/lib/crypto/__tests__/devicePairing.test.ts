@@ -0,0 +1,79 @@
+/**
+ * Tests for device pairing: the pairing code binds the new device's public key,
+ * and the private key survives the ECDH round trip.
+ */
+
+import { webcrypto } from 'crypto';
+import { TextEncoder, TextDecoder } from 'util';
+import {
+  createPairingKeys,
+  formatPairingCode,
+  normalizePairingCode,
+  openPrivateKeyFromApprover,
+  pairingCodeForKey,
+  sealPrivateKeyForDevice,
+  PAIRING_CODE_LENGTH,
+} from '../devicePairing';
+
+// jsdom has no SubtleCrypto - use Node's, with typed arrays from the same realm
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+Object.assign(globalThis, {
+  TextEncoder,
+  TextDecoder,
+  Uint8Array: Object.getPrototypeOf(Buffer.prototype).constructor,
+});
+
+const privateKeyJWK: JsonWebKey = { kty: 'RSA', n: 'modulus', e: 'AQAB', d: 'secret' };
+
+describe('Device Pairing', () => {
+  describe('pairing codes', () => {
+    it('should derive a stable code of the expected length from a public key', async () => {
+      const { publicKey, code } = await createPairingKeys();
+
+      expect(code).toHaveLength(PAIRING_CODE_LENGTH);
+      expect(code).toMatch(/^[0-9A-HJKMNP-TV-Z]+$/);
+      expect(await pairingCodeForKey(publicKey)).toBe(code);
+    });
+
+    it('should normalize typed codes', () => {
+      expect(normalizePairingCode('7kq2-m9xd')).toBe('7KQ2M9XD');
+      expect(normalizePairingCode('O1IL 0000')).toBe('01110000');
+      expect(formatPairingCode('7KQ2M9XD')).toBe('7KQ2-M9XD');
+    });
+  });
+
+  describe('key exchange', () => {
+    it('should hand the private key to the device that showed the code', async () => {
+      const device = await createPairingKeys();
+      const sealed = await sealPrivateKeyForDevice(privateKeyJWK, device.publicKey, formatPairingCode(device.code));
+
+      expect(JSON.stringify(sealed)).not.toContain('secret');
+
+      const opened = await openPrivateKeyFromApprover(
+        device.keyPair.privateKey,
+        sealed.approverPublicKey,
+        sealed.encryptedPrivateKey
+      );
+      expect(opened).toEqual(privateKeyJWK);
+    });
+
+    it('should refuse a public key that does not match the code', async () => {
+      const device = await createPairingKeys();
+      const substitute = await createPairingKeys();
+
+      await expect(
+        sealPrivateKeyForDevice(privateKeyJWK, substitute.publicKey, device.code)
+      ).rejects.toThrow('Pairing code does not match');
+    });
+
+    it('should not let another key pair open the sealed key', async () => {
+      const device = await createPairingKeys();
+      const eavesdropper = await createPairingKeys();
+      const sealed = await sealPrivateKeyForDevice(privateKeyJWK, device.publicKey, device.code);
+
+      await expect(
+        openPrivateKeyFromApprover(eavesdropper.keyPair.privateKey, sealed.approverPublicKey, sealed.encryptedPrivateKey)
+      ).rejects.toBeDefined();
+    });
+  });
+});
@@ -11,6 +11,9 @@ import type { EncryptedContent } from './types';
 /** Current encryption format version */
 const ENCRYPTION_VERSION = 1;
 
+/** Group key version of content encrypted before keys were rotated */
+export const INITIAL_KEY_EPOCH = 1;
+
 /**
  * Encrypt page content for storage.
  *
@@ -18,7 +21,8 @@ const ENCRYPTION_VERSION = 1;
  */
 export async function encryptContent(
   content: unknown,
-  groupKey: CryptoKey
+  groupKey: CryptoKey,
+  keyEpoch?: number
 ): Promise<EncryptedContent> {
   const encoder = new TextEncoder();
   const plaintext = encoder.encode(JSON.stringify(content));
@@ -29,6 +33,7 @@ export async function encryptContent(
     ciphertext,
     iv,
     version: ENCRYPTION_VERSION,
+    ...(keyEpoch !== undefined && { keyEpoch }),
   };
 }
 
@@ -50,6 +55,26 @@ export async function decryptContent(
   return JSON.parse(decoder.decode(decrypted));
 }
 
+/**
+ * Group key version needed to decrypt a blob.
+ */
+export function getKeyEpoch(encrypted: EncryptedContent): number {
+  return encrypted.keyEpoch ?? INITIAL_KEY_EPOCH;
+}
+
+/**
+ * Re-encrypt a blob under a new group key (used during key rotation).
+ */
+export async function reencryptContent(
+  encrypted: EncryptedContent,
+  oldKey: CryptoKey,
+  newKey: CryptoKey,
+  newKeyEpoch: number
+): Promise<EncryptedContent> {
+  const content = await decryptContent(encrypted, oldKey);
+  return encryptContent(content, newKey, newKeyEpoch);
+}
+
 /**
  * Check if a content value is an encrypted content blob.
  */
@@ -62,3 +87,20 @@ export function isEncryptedContent(content: unknown): content is EncryptedConten
     typeof obj.version === 'number'
   );
 }
+
+/**
+ * Parse stored content into an encrypted blob, if it is one.
+ * Version snapshots store content as a JSON string.
+ */
+export function parseEncryptedContent(content: unknown): EncryptedContent | null {
+  let value = content;
+  if (typeof value === 'string') {
+    if (!value.includes('"ciphertext"')) return null;
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  return isEncryptedContent(value) ? value : null;
+}
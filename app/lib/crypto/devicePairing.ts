@@ -0,0 +1,181 @@
+/**
+ * Device Pairing
+ *
+ * Moves the account private key to a new device without it ever reaching the
+ * server in the clear:
+ *
+ * 1. The new device creates an ephemeral ECDH key pair and posts the public key.
+ *    It shows a short code derived from that public key.
+ * 2. On an unlocked device the user types the code. That device checks the
+ *    posted public key hashes to the code, derives a shared AES key with its own
+ *    ephemeral ECDH key pair and posts the private key encrypted with it.
+ * 3. The new device derives the same shared key, decrypts the private key and
+ *    wraps it with a passcode of its own.
+ */
+
+import {
+  encryptAES,
+  decryptAES,
+  generateECDHKeyPair,
+  importECDHPublicKey,
+  deriveSharedKeyECDH,
+  exportKeyToJWK,
+  generateRandomBytes,
+} from './primitives';
+
+/** Pairing requests expire after this long */
+export const PAIRING_TTL_MS = 10 * 60 * 1000;
+
+/** Characters in a pairing code (40 bits of the public key hash) */
+export const PAIRING_CODE_LENGTH = 8;
+
+// Crockford base32: no I, L, O or U, so codes are easy to read aloud
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+const DEVICE_ID_STORAGE_KEY = 'wewrite_encryption_device_id';
+
+/**
+ * Pairing code for an ECDH public key: the first 40 bits of its SHA-256 hash.
+ */
+export async function pairingCodeForKey(publicKey: JsonWebKey): Promise<string> {
+  const encoded = new TextEncoder().encode(`${publicKey.crv}:${publicKey.x}:${publicKey.y}`);
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', encoded));
+
+  let code = '';
+  let bits = 0;
+  let buffer = 0;
+  for (const byte of hash) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5 && code.length < PAIRING_CODE_LENGTH) {
+      bits -= 5;
+      code += CODE_ALPHABET[(buffer >> bits) & 31];
+    }
+    buffer &= (1 << bits) - 1;
+    if (code.length === PAIRING_CODE_LENGTH) break;
+  }
+  return code;
+}
+
+/**
+ * Normalize a typed code: drop separators and map look-alike letters.
+ */
+export function normalizePairingCode(input: string): string {
+  return input
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+}
+
+/**
+ * Format a code for display, e.g. "7KQ2-M9XD".
+ */
+export function formatPairingCode(code: string): string {
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+/**
+ * Start pairing on the new device.
+ * Keep the key pair in memory until the request has been approved.
+ */
+export async function createPairingKeys(): Promise<{
+  keyPair: CryptoKeyPair;
+  publicKey: JsonWebKey;
+  code: string;
+}> {
+  const keyPair = await generateECDHKeyPair();
+  const publicKey = await exportKeyToJWK(keyPair.publicKey);
+  return { keyPair, publicKey, code: await pairingCodeForKey(publicKey) };
+}
+
+/**
+ * On the approving device: encrypt the private key for the new device.
+ * Throws if the device public key doesn't match the code the user typed.
+ */
+export async function sealPrivateKeyForDevice(
+  privateKeyJWK: JsonWebKey,
+  devicePublicKey: JsonWebKey,
+  code: string
+): Promise<{ approverPublicKey: JsonWebKey; encryptedPrivateKey: { ciphertext: string; iv: string } }> {
+  if ((await pairingCodeForKey(devicePublicKey)) !== normalizePairingCode(code)) {
+    throw new Error('Pairing code does not match the requesting device');
+  }
+
+  const approverKeys = await generateECDHKeyPair();
+  const sharedKey = await deriveSharedKeyECDH(
+    approverKeys.privateKey,
+    await importECDHPublicKey(devicePublicKey)
+  );
+  const plaintext = new TextEncoder().encode(JSON.stringify(privateKeyJWK));
+
+  return {
+    approverPublicKey: await exportKeyToJWK(approverKeys.publicKey),
+    encryptedPrivateKey: await encryptAES(plaintext.buffer as ArrayBuffer, sharedKey),
+  };
+}
+
+/**
+ * On the new device: decrypt the private key sent by the approving device.
+ */
+export async function openPrivateKeyFromApprover(
+  devicePrivateKey: CryptoKey,
+  approverPublicKey: JsonWebKey,
+  encryptedPrivateKey: { ciphertext: string; iv: string }
+): Promise<JsonWebKey> {
+  const sharedKey = await deriveSharedKeyECDH(
+    devicePrivateKey,
+    await importECDHPublicKey(approverPublicKey)
+  );
+  const decrypted = await decryptAES(encryptedPrivateKey.ciphertext, encryptedPrivateKey.iv, sharedKey);
+  return JSON.parse(new TextDecoder().decode(decrypted));
+}
+
+/**
+ * This browser's enrolled device ID, if it has been paired.
+ */
+export function getLocalDeviceId(): string | null {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+}
+
+export function setLocalDeviceId(deviceId: string | null): void {
+  if (typeof window === 'undefined') return;
+  if (deviceId) {
+    localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+  } else {
+    localStorage.removeItem(DEVICE_ID_STORAGE_KEY);
+  }
+}
+
+/**
+ * Random ID for a newly enrolled device.
+ */
+export function generateDeviceId(): string {
+  return Array.from(generateRandomBytes(16))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Default device name from the user agent, e.g. "Safari on iPhone".
+ */
+export function describeDevice(): string {
+  if (typeof navigator === 'undefined') return 'Unknown device';
+  const ua = navigator.userAgent;
+
+  const browser = /Edg\//.test(ua) ? 'Edge'
+    : /Firefox\//.test(ua) ? 'Firefox'
+    : /Chrome\//.test(ua) ? 'Chrome'
+    : /Safari\//.test(ua) ? 'Safari'
+    : 'Browser';
+  const platform = /iPhone/.test(ua) ? 'iPhone'
+    : /iPad/.test(ua) ? 'iPad'
+    : /Android/.test(ua) ? 'Android'
+    : /Mac OS X/.test(ua) ? 'Mac'
+    : /Windows/.test(ua) ? 'Windows'
+    : /Linux/.test(ua) ? 'Linux'
+    : 'this device';
+
+  return `${browser} on ${platform}`;
+}
@@ -33,6 +33,21 @@ export async function encryptGroupKeyForMember(
   return wrapKeyRSA(groupKey, publicKey);
 }
 
+/**
+ * Wrap a group key for every member, e.g. when rotating the key.
+ * Returns a map of userId → wrapped key.
+ */
+export async function encryptGroupKeyForMembers(
+  groupKey: CryptoKey,
+  members: Array<{ userId: string; publicKey: JsonWebKey }>
+): Promise<Record<string, string>> {
+  const wrapped: Record<string, string> = {};
+  for (const member of members) {
+    wrapped[member.userId] = await encryptGroupKeyForMember(groupKey, member.publicKey);
+  }
+  return wrapped;
+}
+
 /**
  * Decrypt a group key using the current user's RSA private key.
  * The wrappedKey comes from groups/{groupId}/keys/{userId}.encryptedGroupKey.
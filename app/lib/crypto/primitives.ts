@@ -9,6 +9,7 @@
  * - Group key wrapping: RSA-OAEP (4096-bit)
  * - Private key protection: AES-256-GCM + PBKDF2
  * - Key derivation: PBKDF2 (600k iterations, SHA-256)
+ * - Device pairing: ECDH (P-256) + HKDF (SHA-256)
  */
 
 // ─── Helpers ──────────────────────────────────────────────────────
@@ -245,6 +246,61 @@ export async function decryptPrivateKey(
   return JSON.parse(decoder.decode(decrypted));
 }
 
+// ─── ECDH (Device Pairing) ────────────────────────────────────────
+
+/**
+ * Generate an ephemeral ECDH P-256 key pair for a pairing exchange.
+ */
+export async function generateECDHKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(
+    { name: 'ECDH', namedCurve: 'P-256' },
+    true, // extractable (public key is sent to the other device)
+    ['deriveBits']
+  );
+}
+
+/**
+ * Import the other device's ECDH public key from JWK format.
+ */
+export async function importECDHPublicKey(jwk: JsonWebKey): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'jwk',
+    jwk,
+    { name: 'ECDH', namedCurve: 'P-256' },
+    true,
+    []
+  );
+}
+
+/**
+ * Derive the AES-256 key both sides of a pairing share, from our ECDH private
+ * key and their public key. HKDF binds the key to its purpose.
+ */
+export async function deriveSharedKeyECDH(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey
+): Promise<CryptoKey> {
+  const sharedSecret = await crypto.subtle.deriveBits(
+    { name: 'ECDH', public: publicKey },
+    privateKey,
+    256
+  );
+  const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(32) as BufferSource,
+      info: new TextEncoder().encode('wewrite-device-pairing') as BufferSource,
+    },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
 // ─── Recovery Key ─────────────────────────────────────────────────
 
 /**
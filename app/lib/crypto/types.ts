@@ -12,6 +12,8 @@ export interface EncryptedContent {
   iv: string;
   /** Encryption format version for future migration */
   version: number;
+  /** Group key version this was encrypted with (absent = the group's first key) */
+  keyEpoch?: number;
 }
 
 /** User's encrypted private key stored in Firestore */
@@ -36,9 +38,52 @@ export interface UserKeyBundle {
   recoveryKeyHash: string;
   /** When keys were created */
   createdAt: string;
+  /** Devices enrolled by pairing, keyed by device ID. Each has its own passcode. */
+  devices?: Record<string, EnrolledDevice>;
 }
 
-/** A group key entry stored in groups/{groupId}/keys/{userId} */
+/**
+ * A device enrolled by approving it from an already-unlocked device.
+ * Its copy of the private key is wrapped with the passcode chosen on that device.
+ */
+export interface EnrolledDevice {
+  /** Random ID kept in the device's localStorage */
+  deviceId: string;
+  /** Display name, e.g. "Safari on iPhone" */
+  name: string;
+  /** The account private key, encrypted with this device's passcode */
+  encryptedPrivateKey: EncryptedPrivateKey;
+  /** Device that approved the enrollment */
+  approvedBy?: string;
+  enrolledAt: string;
+}
+
+/**
+ * A short-lived request from a new device to receive the private key,
+ * stored in userKeys/{userId}/pairings/{code}.
+ * The code is derived from the new device's ECDH public key, so the approving
+ * device can check the key it was handed is the one shown on the new device.
+ */
+export interface DevicePairingRequest {
+  code: string;
+  deviceName: string;
+  /** New device's ephemeral ECDH P-256 public key */
+  devicePublicKey: JsonWebKey;
+  status: 'pending' | 'approved';
+  /** Approving device's ephemeral ECDH public key (set on approval) */
+  approverPublicKey?: JsonWebKey;
+  /** Private key JWK encrypted with the ECDH shared key (set on approval) */
+  encryptedPrivateKey?: { ciphertext: string; iv: string };
+  approvedBy?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * A group key entry stored in groups/{groupId}/keys/{userId}.
+ * Entries for earlier key versions are kept at
+ * groups/{groupId}/keys/{userId}/epochs/{keyVersion} after a rotation.
+ */
 export interface GroupKeyEntry {
   /** Base64-encoded group AES key wrapped with the user's RSA public key */
   encryptedGroupKey: string;
@@ -50,6 +95,21 @@ export interface GroupKeyEntry {
   createdAt: string;
 }
 
+/** In-progress group key rotation, stored on the group document */
+export interface GroupKeyRotation {
+  /** 'pending' until a member with unlocked keys installs the new key */
+  status: 'pending' | 'reencrypting';
+  /** Key version being retired */
+  fromVersion: number;
+  /** New key version (set once the new key is installed) */
+  toVersion?: number;
+  /** Member whose removal triggered the rotation */
+  removedUserId?: string;
+  requestedAt: string;
+  startedBy?: string;
+  startedAt?: string;
+}
+
 /** Result of generating a new keypair */
 export interface KeyPairGenerationResult {
   /** The RSA public key in JWK format */
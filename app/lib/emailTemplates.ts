@@ -792,9 +792,19 @@ export const weeklyDigestTemplate: EmailTemplate = {
       { title: 'Creative Writing Tips', author: 'StoryMaster' },
       { title: 'Building in Public', author: 'StartupDev' },
     ],
+    savedSearchMatches: [
+      {
+        query: 'housing policy author:following',
+        url: '/search?q=housing%20policy%20author%3Afollowing',
+        matches: [
+          { pageId: 'page-1', title: 'Zoning Reform Explained', username: 'CityNotes' },
+          { pageId: 'page-2', title: 'Rent Caps, One Year On', username: 'LocalDesk' },
+        ],
+      },
+    ],
     emailSettingsToken: 'sample-token-123',
   },
-  generateHtml: ({ username, pageViews, newFollowers, earningsThisWeek, trendingPages, emailSettingsToken }) => {
+  generateHtml: ({ username, pageViews, newFollowers, earningsThisWeek, trendingPages, savedSearchMatches = [], emailSettingsToken }) => {
     const trendingLink = addEmailUtm('https://getwewrite.app/trending', 'weekly-digest', 'explore_trending_button');
     const createLink = addEmailUtm('https://getwewrite.app/new', 'weekly-digest', 'write_something_button');
     return wrapEmail('Weekly Digest', `
@@ -817,6 +827,20 @@ export const weeklyDigestTemplate: EmailTemplate = {
         </div>
       </div>
 
+      ${savedSearchMatches.length > 0 ? `
+      <h3 class="dark-text-heading" style="color: #000; margin-top: 30px;">New pages for your saved searches</h3>
+      ${savedSearchMatches.map((search: any) => `
+        <div class="dark-card-inner" style="background: #fff; border: 1px solid #eee; border-radius: 6px; padding: 12px 16px; margin: 8px 0;">
+          <a class="dark-link" href="${addEmailUtm(`https://getwewrite.app${search.url}`, 'weekly-digest', 'saved_search_link')}" style="${emailStyles.link}">"${search.query}"</a>
+          ${search.matches.map((match: any) => `
+            <div class="dark-text" style="margin-top: 6px;">
+              <a class="dark-link" href="${addEmailUtm(`https://getwewrite.app/${match.pageId}`, 'weekly-digest', 'saved_search_page')}" style="${emailStyles.link}">${match.title}</a>${match.username ? `<span class="dark-text-muted" style="color: #666;"> by ${match.username}</span>` : ''}
+            </div>
+          `).join('')}
+        </div>
+      `).join('')}
+      ` : ''}
+
       <h3 class="dark-text-heading" style="color: #000; margin-top: 30px;">What people are reading right now 🔥</h3>
       <p class="dark-text-muted" style="margin-bottom: 16px; color: #666;">Check out what's trending—maybe you'll find some inspiration:</p>
       ${trendingPages.map((page: any) => `
@@ -14,6 +14,8 @@
 import Typesense from 'typesense';
 import type { Client as TypesenseClient } from 'typesense';
 import type { CollectionCreateSchema } from 'typesense/lib/Typesense/Collections';
+import type { MultiSearchRequestSchema } from 'typesense/lib/Typesense/Types';
+import type { SearchResponseHit } from 'typesense/lib/Typesense/Documents';
 import { getEnvironmentPrefix, getEnvironmentType } from '../utils/environmentConfig';
 import { shouldForceProductionFromContext } from '../utils/adminRequestContext';
 
@@ -162,6 +164,11 @@ export interface TypesensePageDocument {
   // Optional metadata
   wordCount?: number;
   hasLocation?: boolean;
+  // Advanced search filters (linksto:, linkedfrom:, is:reply)
+  linksTo?: string[];
+  isReply?: boolean;
+  // Semantic search; computed by Typesense from title and content
+  embedding?: number[];
 }
 
 /**
@@ -180,6 +187,36 @@ export interface TypesenseUserDocument {
   followerCount?: number;
 }
 
+/**
+ * Sentence-embedding model Typesense runs locally for the embedding field
+ */
+export const PAGE_EMBEDDING_MODEL = 'ts/all-MiniLM-L12-v2';
+
+/**
+ * Vector field for related-page and hybrid search. Typesense embeds each
+ * page's title and content itself when the document is indexed, so the sync
+ * path doesn't send vectors.
+ */
+const getPageEmbeddingFields = (): CollectionCreateSchema['fields'] => [
+  {
+    name: 'embedding',
+    type: 'float[]',
+    embed: {
+      from: ['title', 'content'],
+      model_config: { model_name: PAGE_EMBEDDING_MODEL },
+    },
+  },
+];
+
+/**
+ * Fields behind the search query operators (see utils/searchQueryParser).
+ * Optional so pages synced before they existed stay valid.
+ */
+const getPageQueryFilterFields = (): CollectionCreateSchema['fields'] => [
+  { name: 'linksTo', type: 'string[]', facet: false, optional: true },
+  { name: 'isReply', type: 'bool', facet: true, optional: true },
+];
+
 /**
  * Pages collection schema for Typesense
  */
@@ -202,6 +239,8 @@ export const getPagesCollectionSchema = (): CollectionCreateSchema => {
       { name: 'visibility', type: 'string', facet: true, optional: true },
       { name: 'wordCount', type: 'int32', facet: false, optional: true },
       { name: 'hasLocation', type: 'bool', facet: true, optional: true },
+      ...getPageQueryFilterFields(),
+      ...getPageEmbeddingFields(),
     ],
     default_sorting_field: 'lastModified',
     token_separators: ['-', '_'],
@@ -232,16 +271,23 @@ export const getUsersCollectionSchema = (): CollectionCreateSchema => {
   };
 };
 
+type HybridPageDocument = TypesensePageDocument & { vector_distance?: number };
+
+/**
+ * A single hit in a Typesense search result
+ */
+export interface TypesenseSearchHit<T> {
+  document: T;
+  highlight?: Record<string, { snippet?: string; value?: string }>;
+  text_match?: number;
+}
+
 /**
  * Search result structure from Typesense
  */
 export interface TypesenseSearchResult<T> {
   found: number;
-  hits: Array<{
-    document: T;
-    highlight?: Record<string, { snippet?: string; value?: string }>;
-    text_match?: number;
-  }>;
+  hits: TypesenseSearchHit<T>[];
   search_time_ms: number;
   page: number;
   out_of: number;
@@ -258,6 +304,7 @@ export const searchPages = async (
     filterBy?: string;
     queryBy?: string[];
     includeFields?: string[];
+    sortBy?: string;
   }
 ): Promise<TypesenseSearchResult<TypesensePageDocument>> => {
   const client = getSearchClient();
@@ -268,7 +315,8 @@ export const searchPages = async (
     query_by: options?.queryBy?.join(',') || 'title,titleLower,content,authorUsername,alternativeTitles',
     per_page: options?.perPage ?? 20,
     page: options?.page ?? 1,
-    sort_by: '_text_match:desc,lastModified:desc',
+    sort_by: options?.sortBy || '_text_match:desc,lastModified:desc',
+    exclude_fields: 'embedding',
   };
 
   if (options?.filterBy) {
@@ -284,6 +332,103 @@ export const searchPages = async (
   return response as TypesenseSearchResult<TypesensePageDocument>;
 };
 
+/**
+ * Hybrid keyword + vector search over pages.
+ *
+ * Typesense fuses the keyword rank with the nearest-neighbour rank of either
+ * an indexed page's own embedding (`nearPageId`) or, without one, the
+ * embedding of the query text, computed by the same model as the pages.
+ * `alpha` is the weight of the vector rank (0-1).
+ */
+export const searchPagesHybrid = async (
+  query: string,
+  options: {
+    nearPageId?: string;
+    k?: number;
+    alpha?: number;
+    perPage?: number;
+    filterBy?: string;
+    queryBy?: string[];
+    includeFields?: string[];
+  }
+): Promise<TypesenseSearchResult<HybridPageDocument>> => {
+  const client = getSearchClient();
+  const collectionName = getTypesenseCollectionName(TYPESENSE_COLLECTIONS.PAGES);
+
+  const k = options.k ?? 50;
+  const alpha = options.alpha ?? 0.4;
+  const keywordFields = options.queryBy?.join(',') || 'title,titleLower,content,authorUsername,alternativeTitles';
+  // Without a page to start from, the query text itself is embedded
+  const embedQueryText = !options.nearPageId && query.trim().length > 0;
+  const vectorQuery = options.nearPageId
+    ? `embedding:([], id: ${options.nearPageId}, k: ${k}, alpha: ${alpha})`
+    : embedQueryText
+      ? `embedding:([], k: ${k}, alpha: ${alpha})`
+      : undefined;
+
+  const search: MultiSearchRequestSchema<HybridPageDocument, string> = {
+    collection: collectionName,
+    q: query || '*',
+    query_by: embedQueryText ? `${keywordFields},embedding` : keywordFields,
+    per_page: options.perPage ?? 20,
+    exclude_fields: 'embedding',
+  };
+
+  if (vectorQuery) search.vector_query = vectorQuery;
+  if (options.filterBy) search.filter_by = options.filterBy;
+  if (options.includeFields) search.include_fields = options.includeFields.join(',');
+
+  const response = await client.multiSearch.perform<[HybridPageDocument]>({ searches: [search] });
+  const result = response.results[0];
+  if (result.error) {
+    throw new Error(`Typesense hybrid search failed: ${result.error}`);
+  }
+
+  return {
+    ...result,
+    hits: (result.hits ?? []).map(({ document, highlight, text_match }: SearchResponseHit<HybridPageDocument>) => ({
+      document,
+      highlight: highlight as TypesenseSearchHit<HybridPageDocument>['highlight'],
+      text_match,
+    })),
+  };
+};
+
+/**
+ * Pages related to an indexed page, by meaning as well as shared keywords.
+ *
+ * Uses the page's stored embedding; if the page isn't indexed yet, embeds
+ * `query` (the caller's description of the page) instead, and finally falls
+ * back to keyword-only search.
+ */
+export const searchRelatedPages = async (
+  pageId: string,
+  options: {
+    query?: string;
+    perPage?: number;
+    filterBy?: string;
+    includeFields?: string[];
+  }
+): Promise<TypesenseSearchResult<TypesensePageDocument>> => {
+  const { query = '', ...rest } = options;
+
+  try {
+    return await searchPagesHybrid(query, { ...rest, nearPageId: pageId });
+  } catch (error) {
+    console.warn(`[Typesense] No stored embedding for ${pageId}, using fallback:`, error);
+  }
+
+  if (query.trim()) {
+    try {
+      return await searchPagesHybrid(query, rest);
+    } catch (error) {
+      console.warn('[Typesense] Vector search unavailable, using keywords only:', error);
+    }
+  }
+
+  return searchPages(query || '*', rest);
+};
+
 /**
  * Search users using Typesense
  */
@@ -365,8 +510,23 @@ export const ensureCollectionsExist = async (): Promise<{ pages: boolean; users:
   try {
     // Check/create pages collection
     try {
-      await client.collections(collectionNames.pages).retrieve();
+      const pagesCollection = await client.collections(collectionNames.pages).retrieve();
       console.log(`[Typesense] Collection ${collectionNames.pages} already exists`);
+
+      // Collections created before semantic search and the query operators
+      // need those fields added; an embedding field without a model (vectors
+      // sent by the old sync path) is replaced by the auto-embedding one
+      const existingFields = new Map((pagesCollection.fields || []).map(field => [field.name, field]));
+      const staleFields = ['embedding', 'embeddingVersion']
+        .filter(name => existingFields.has(name) && !existingFields.get(name)?.embed);
+      const missingFields = [...(getPageQueryFilterFields() || []), ...(getPageEmbeddingFields() || [])]
+        .filter(field => !existingFields.has(field.name) || staleFields.includes(field.name));
+      if (missingFields.length > 0 || staleFields.length > 0) {
+        console.log(`[Typesense] Updating ${[...staleFields, ...missingFields.map(field => field.name)].join(', ')} on ${collectionNames.pages}`);
+        await client.collections(collectionNames.pages).update({
+          fields: [...staleFields.map(name => ({ name, drop: true as const })), ...missingFields],
+        });
+      }
       results.pages = true;
     } catch (error: any) {
       if (error.httpStatus === 404) {
@@ -14,6 +14,7 @@ import {
   TypesensePageDocument,
   isTypesenseAdminConfigured,
 } from './typesense';
+import { extractPageReferences } from '../firebase/database/links';
 
 /**
  * Extract plain text from Slate.js editor content
@@ -45,6 +46,21 @@ function extractTextFromContent(content: any): string {
   return '';
 }
 
+/**
+ * Fields behind the linksto:/linkedfrom:, is:reply and has:location search
+ * operators. Shared by every path that writes pages to Typesense.
+ */
+export function getPageQueryFilterFields(
+  content: any,
+  page: { isReply?: boolean; replyTo?: string | null; location?: unknown }
+): Pick<TypesensePageDocument, 'linksTo' | 'isReply' | 'hasLocation'> {
+  return {
+    linksTo: content ? extractPageReferences(content) : [],
+    isReply: !!(page.isReply || page.replyTo),
+    hasLocation: !!page.location,
+  };
+}
+
 interface SyncPageData {
   pageId: string;
   title: string;
@@ -58,6 +74,9 @@ interface SyncPageData {
   deleted?: boolean;
   groupId?: string;
   visibility?: string;
+  isReply?: boolean;
+  replyTo?: string | null;
+  location?: unknown;
 }
 
 /**
@@ -71,7 +90,7 @@ export async function syncPageToTypesenseServer(pageData: SyncPageData): Promise
       return { success: true, action: 'skipped', error: 'Typesense not configured' };
     }
 
-    const { pageId, title, content, authorId, authorUsername, isPublic, alternativeTitles, lastModified, createdAt, deleted, groupId, visibility } = pageData;
+    const { pageId, title, content, authorId, authorUsername, isPublic, alternativeTitles, lastModified, createdAt, deleted, groupId, visibility, isReply, replyTo, location } = pageData;
 
     if (!pageId) {
       return { success: false, error: 'pageId is required' };
@@ -135,6 +154,7 @@ export async function syncPageToTypesenseServer(pageData: SyncPageData): Promise
       alternativeTitles: alternativeTitles || [],
       ...(groupId && { groupId }),
       ...(visibility && { visibility }),
+      ...getPageQueryFilterFields(content, { isReply, replyTo, location }),
     };
 
     // Upsert to Typesense (creates or updates)
@@ -11,7 +11,7 @@ import { buildNewPageUrl } from "../utils/pageId";
  * This page now redirects to /{pageId}?new=true for backwards compatibility.
  * All new page creation is handled directly in ContentPageView.
  *
- * Preserves URL parameters for replies, daily notes, etc.
+ * Preserves URL parameters for replies, daily notes and rollups, templates, etc.
  */
 function NewPageRedirect() {
   const router = useRouter();
@@ -28,6 +28,7 @@ function NewPageRedirect() {
     // For replies, we need the page owner's username for the attribution text
     const replyToUsername = searchParams?.get('pageUsername') || searchParams?.get('username');
     const replyType = searchParams?.get('replyType');
+    const quote = searchParams?.get('quote');
     const pageUserId = searchParams?.get('pageUserId');
     const groupId = searchParams?.get('groupId');
     const customDate = searchParams?.get('customDate');
@@ -37,11 +38,14 @@ function NewPageRedirect() {
     const pageType = searchParams?.get('type');
     const ideas = searchParams?.get('ideas');
     const location = searchParams?.get('location');
+    const rollupDate = searchParams?.get('rollupDate');
+    const template = searchParams?.get('template');
 
     if (replyTo) options.replyTo = replyTo;
     if (replyToTitle) options.replyToTitle = decodeURIComponent(replyToTitle);
     if (replyToUsername) options.replyToUsername = decodeURIComponent(replyToUsername);
     if (replyType) options.replyType = replyType;
+    if (quote) options.quote = quote;
     if (pageUserId) options.pageUserId = pageUserId;
     if (groupId) options.groupId = groupId;
     if (customDate) options.customDate = customDate;
@@ -57,6 +61,8 @@ function NewPageRedirect() {
     if (pageType) options.type = pageType;
     if (ideas === 'true') options.ideas = true;
     if (location) options.location = location;
+    if (rollupDate) options.rollupDate = rollupDate;
+    if (template) options.template = template;
 
     // Generate new page URL and redirect
     const newUrl = buildNewPageUrl(options);
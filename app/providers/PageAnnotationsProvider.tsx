@@ -0,0 +1,109 @@
+/**
+ * WHY: Margin comments are drawn by each paragraph in TextView, listed below
+ * the page and added from the text-selection menu. One provider per page
+ * loads them once so all three stay in step.
+ */
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { pageAnnotationsApi } from '../utils/apiClient';
+import { groupAnnotationsByBlock } from '../utils/pageAnnotations';
+import { toast } from '../components/ui/use-toast';
+import type { PageAnnotation, PageAnnotationStatus } from '../types/database';
+
+interface PageAnnotationsContextType {
+  pageId: string;
+  annotations: PageAnnotation[];
+  /** Open comments by the paragraph they're on */
+  openByBlock: Map<number, PageAnnotation[]>;
+  /** Whether the viewer can resolve comments: the page owner or a group member */
+  canResolve: boolean;
+  addAnnotation: (input: { body: string; text: string; blockIndex: number | null }) => Promise<boolean>;
+  setStatus: (annotationId: string, status: PageAnnotationStatus) => Promise<void>;
+  deleteAnnotation: (annotationId: string) => Promise<void>;
+}
+
+const PageAnnotationsContext = createContext<PageAnnotationsContextType | null>(null);
+
+/**
+ * The page's comments, or null outside a page that takes them (e.g. bios, new pages)
+ */
+export const usePageAnnotations = () => useContext(PageAnnotationsContext);
+
+interface PageAnnotationsProviderProps {
+  /** Null while the page can't take comments (unsaved or encrypted) */
+  pageId: string | null;
+  children: React.ReactNode;
+}
+
+export const PageAnnotationsProvider: React.FC<PageAnnotationsProviderProps> = ({ pageId, children }) => {
+  const [annotations, setAnnotations] = useState<PageAnnotation[]>([]);
+  const [canResolve, setCanResolve] = useState(false);
+
+  useEffect(() => {
+    setAnnotations([]);
+    if (!pageId) return;
+
+    let cancelled = false;
+    pageAnnotationsApi.getAnnotations(pageId).then(response => {
+      if (cancelled || !response.success) return;
+      setAnnotations(response.data?.annotations || []);
+      setCanResolve(!!response.data?.canResolve);
+    });
+    return () => { cancelled = true; };
+  }, [pageId]);
+
+  const replace = (annotation: PageAnnotation) => {
+    setAnnotations(prev => prev.map(a => a.id === annotation.id ? annotation : a));
+  };
+
+  const addAnnotation = useCallback(async (input: { body: string; text: string; blockIndex: number | null }) => {
+    if (!pageId) return false;
+    const response = await pageAnnotationsApi.createAnnotation(pageId, input);
+    if (!response.success) {
+      toast.error(response.error || 'Could not add your comment');
+      return false;
+    }
+    setAnnotations(prev => [...prev, response.data.annotation]);
+    toast.success('Comment added');
+    return true;
+  }, [pageId]);
+
+  const setStatus = useCallback(async (annotationId: string, status: PageAnnotationStatus) => {
+    if (!pageId) return;
+    const response = await pageAnnotationsApi.setStatus(pageId, annotationId, status);
+    if (response.success) {
+      replace(response.data.annotation);
+    } else {
+      toast.error(response.error || 'Could not update the comment');
+    }
+  }, [pageId]);
+
+  const deleteAnnotation = useCallback(async (annotationId: string) => {
+    if (!pageId) return;
+    const response = await pageAnnotationsApi.deleteAnnotation(pageId, annotationId);
+    if (response.success) {
+      setAnnotations(prev => prev.filter(a => a.id !== annotationId));
+    } else {
+      toast.error(response.error || 'Could not delete the comment');
+    }
+  }, [pageId]);
+
+  const openByBlock = useMemo(() => groupAnnotationsByBlock(annotations), [annotations]);
+
+  const value = useMemo<PageAnnotationsContextType | null>(() => pageId ? {
+    pageId,
+    annotations,
+    openByBlock,
+    canResolve,
+    addAnnotation,
+    setStatus,
+    deleteAnnotation
+  } : null, [pageId, annotations, openByBlock, canResolve, addAnnotation, setStatus, deleteAnnotation]);
+
+  return (
+    <PageAnnotationsContext.Provider value={value}>
+      {children}
+    </PageAnnotationsContext.Provider>
+  );
+};
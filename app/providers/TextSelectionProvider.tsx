@@ -110,6 +110,7 @@ export const TextSelectionProvider: React.FC<TextSelectionProviderProps> = ({
           pageId={pageId}
           pageTitle={pageTitle}
           canEdit={canEdit}
+          selectionRange={selectionRange}
           onInsertLink={onInsertLink}
           setSelectionModalOpen={(open) => {
             setForceMenu(open);
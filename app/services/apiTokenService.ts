@@ -0,0 +1,150 @@
+/**
+ * Server-side API Token Service for WeWrite
+ *
+ * Creates, lists and revokes personal API tokens, and looks tokens up for
+ * the /api/v1 endpoints. A token is only returned once, when it's created;
+ * what's stored is its SHA-256 hash, which is what requests are matched on.
+ *
+ * This file should ONLY be imported in API routes and server components.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { getFirebaseAdmin } from '../firebase/firebaseAdmin';
+import { getCollectionName, COLLECTIONS } from '../utils/environmentConfig';
+import {
+  API_TOKEN_PREFIX,
+  DEFAULT_API_TOKEN_RATE_LIMIT,
+  MAX_API_TOKENS,
+  getApiTokenExpiry,
+  getApiTokenPreview,
+  getApiTokenUnusableReason,
+} from '../utils/apiTokens';
+import type { ApiToken, ApiTokenScope } from '../types/database';
+
+/** lastUsedAt is written at most this often per token */
+const LAST_USED_PRECISION_MS = 5 * 60 * 1000;
+
+export class ApiTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiTokenError';
+  }
+}
+
+export interface ApiTokenInput {
+  name: string;
+  scopes: ApiTokenScope[];
+  rateLimit?: number;
+  expiresInDays?: number | null;
+}
+
+function tokensCollection() {
+  return getFirebaseAdmin().firestore().collection(getCollectionName(COLLECTIONS.API_TOKENS));
+}
+
+function generateApiToken(): string {
+  return `${API_TOKEN_PREFIX}${randomBytes(24).toString('base64url')}`;
+}
+
+function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * A token as returned to its owner, without the hash
+ */
+function withoutHash(token: ApiToken): ApiToken {
+  const { tokenHash, ...rest } = token;
+  return rest;
+}
+
+export class ApiTokenService {
+
+  /**
+   * A user's tokens, revoked ones included, newest first
+   */
+  static async listTokens(userId: string): Promise<ApiToken[]> {
+    const snapshot = await tokensCollection().where('userId', '==', userId).get();
+    return snapshot.docs
+      .map(doc => withoutHash({ ...doc.data(), id: doc.id } as ApiToken))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Create a token. The input should already have passed
+   * getApiTokenInputError. Returns the stored token and, separately, the
+   * only copy of the secret token itself.
+   */
+  static async createToken(userId: string, input: ApiTokenInput): Promise<{ token: ApiToken; secret: string }> {
+    const existing = await this.listTokens(userId);
+    if (existing.filter(token => !token.revokedAt).length >= MAX_API_TOKENS) {
+      throw new ApiTokenError(`You can have at most ${MAX_API_TOKENS} active API tokens`);
+    }
+
+    const secret = generateApiToken();
+    const ref = tokensCollection().doc();
+    const token: ApiToken = {
+      id: ref.id,
+      userId,
+      name: input.name.trim(),
+      scopes: [...new Set(input.scopes)],
+      tokenHash: hashApiToken(secret),
+      tokenPreview: getApiTokenPreview(secret),
+      rateLimit: input.rateLimit ?? DEFAULT_API_TOKEN_RATE_LIMIT,
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null,
+      expiresAt: getApiTokenExpiry(input.expiresInDays ?? null),
+      revokedAt: null
+    };
+    await ref.set(token);
+    return { token: withoutHash(token), secret };
+  }
+
+  /**
+   * Revoke one of the user's tokens. Revoked tokens stay in the list so
+   * their owner can see what was cut off and when.
+   */
+  static async revokeToken(userId: string, tokenId: string): Promise<ApiToken | null> {
+    const ref = tokensCollection().doc(tokenId);
+    const doc = await ref.get();
+    const token = doc.data() as ApiToken | undefined;
+    if (!doc.exists || !token || token.userId !== userId) return null;
+
+    const revokedAt = token.revokedAt || new Date().toISOString();
+    if (!token.revokedAt) await ref.update({ revokedAt });
+    return withoutHash({ ...token, id: doc.id, revokedAt });
+  }
+
+  /**
+   * The stored token a request's bearer credential belongs to. Throws
+   * ApiTokenError when it's unknown, revoked or expired, or its owner is
+   * suspended.
+   */
+  static async authenticate(secret: string): Promise<ApiToken> {
+    const snapshot = await tokensCollection().where('tokenHash', '==', hashApiToken(secret)).limit(1).get();
+    if (snapshot.empty) {
+      throw new ApiTokenError('Invalid API token');
+    }
+
+    const doc = snapshot.docs[0];
+    const token = { ...doc.data(), id: doc.id } as ApiToken;
+    const unusableReason = getApiTokenUnusableReason(token);
+    if (unusableReason) {
+      throw new ApiTokenError(unusableReason);
+    }
+
+    const userDoc = await getFirebaseAdmin().firestore().collection(getCollectionName('users')).doc(token.userId).get();
+    if (!userDoc.exists || userDoc.data()?.suspended === true) {
+      throw new ApiTokenError('This account cannot use the API');
+    }
+
+    const now = Date.now();
+    if (!token.lastUsedAt || now - new Date(token.lastUsedAt).getTime() > LAST_USED_PRECISION_MS) {
+      doc.ref.update({ lastUsedAt: new Date(now).toISOString() }).catch(error => {
+        console.warn('[API tokens] Failed to record token use', error);
+      });
+    }
+
+    return withoutHash(token);
+  }
+}
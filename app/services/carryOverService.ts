@@ -0,0 +1,249 @@
+/**
+ * Server-side Carry-over Service for WeWrite
+ *
+ * Opt-in alternative to "use it or lose it": at month end a supporter's
+ * unallocated funds go to the writers they read that month instead of
+ * becoming platform revenue. Runs inside the create-monthly-earnings cron.
+ *
+ * This file should ONLY be imported in API routes and server components.
+ */
+
+import { getFirebaseAdmin, FieldValue } from '../firebase/firebaseAdmin';
+import { getCollectionName, USD_COLLECTIONS } from '../utils/environmentConfig';
+import { computeCarryOverShares } from '../utils/carryOverAllocation';
+import { getReaderMonthlyViews } from './pageViewService';
+import { getUserSubscriptionServer } from '../firebase/subscription-server';
+import { dollarsToCents } from '../utils/formatCurrency';
+import type { CarryOverRule, CarryOverDistribution } from '../types/allocation';
+
+export const CARRY_OVER_RULES: CarryOverRule[] = ['none', 'most_read_writers', 'pages_viewed'];
+
+export interface CarryOverRunResult {
+  month: string;
+  supportersWithRules: number;
+  supportersDistributed: number;
+  supportersAlreadyProcessed: number;
+  recipients: number;
+  distributedCents: number;
+}
+
+/**
+ * YYYY-MM of the month before `month`
+ */
+export function previousMonthOf(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year, monthIndex - 2, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+export class CarryOverService {
+
+  /**
+   * Get a supporter's carry-over rule ('none' when they never opted in)
+   */
+  static async getRule(userId: string): Promise<CarryOverRule> {
+    const db = getFirebaseAdmin().firestore();
+    const doc = await db.collection(getCollectionName(USD_COLLECTIONS.CARRY_OVER_RULES)).doc(userId).get();
+    const rule = doc.data()?.rule;
+    return CARRY_OVER_RULES.includes(rule) ? rule : 'none';
+  }
+
+  /**
+   * Set a supporter's carry-over rule
+   */
+  static async setRule(userId: string, rule: CarryOverRule): Promise<void> {
+    const db = getFirebaseAdmin().firestore();
+    await db.collection(getCollectionName(USD_COLLECTIONS.CARRY_OVER_RULES)).doc(userId).set({
+      userId,
+      rule,
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Distribute every opted-in supporter's unallocated funds for `month`.
+   *
+   * Each supporter is handled in one transaction that writes their
+   * carryOverDistributions record and adds the shares to the writers'
+   * earnings for the month, so re-running the cron never pays twice.
+   */
+  static async processCarryOver(
+    month: string,
+    correlationId: string,
+    dryRun: boolean = false
+  ): Promise<CarryOverRunResult> {
+    const db = getFirebaseAdmin().firestore();
+
+    const rulesSnapshot = await db
+      .collection(getCollectionName(USD_COLLECTIONS.CARRY_OVER_RULES))
+      .where('rule', 'in', ['most_read_writers', 'pages_viewed'])
+      .get();
+
+    const result: CarryOverRunResult = {
+      month,
+      supportersWithRules: rulesSnapshot.size,
+      supportersDistributed: 0,
+      supportersAlreadyProcessed: 0,
+      recipients: 0,
+      distributedCents: 0
+    };
+
+    for (const ruleDoc of rulesSnapshot.docs) {
+      const userId = ruleDoc.id;
+      const rule = ruleDoc.data().rule as Exclude<CarryOverRule, 'none'>;
+
+      try {
+        const distributionRef = db
+          .collection(getCollectionName(USD_COLLECTIONS.CARRY_OVER_DISTRIBUTIONS))
+          .doc(`${userId}_${month}`);
+        if ((await distributionRef.get()).exists) {
+          result.supportersAlreadyProcessed++;
+          continue;
+        }
+
+        const unallocatedCents = await this.getUnallocatedCents(userId, month);
+        const shares = computeCarryOverShares(rule, unallocatedCents, await getReaderMonthlyViews(db, userId, month));
+        if (shares.length === 0) continue;
+
+        const distributedCents = shares.reduce((sum, share) => sum + share.usdCents, 0);
+        const distribution: CarryOverDistribution = {
+          userId,
+          month,
+          rule,
+          unallocatedUsdCents: unallocatedCents,
+          distributedUsdCents: distributedCents,
+          shares,
+          createdAt: new Date().toISOString()
+        };
+
+        if (!dryRun) {
+          const applied = await this.applyDistribution(distributionRef, distribution);
+          if (!applied) {
+            result.supportersAlreadyProcessed++;
+            continue;
+          }
+        }
+
+        result.supportersDistributed++;
+        result.recipients += shares.length;
+        result.distributedCents += distributedCents;
+      } catch (error) {
+        console.warn(`[CarryOverService] Failed to carry over funds for ${userId} in ${month} [${correlationId}]:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * What the supporter's subscription funded in the month minus everything
+   * they allocated in it. Read from the month's own records rather than the
+   * current balance, which already reflects the new month.
+   */
+  private static async getUnallocatedCents(userId: string, month: string): Promise<number> {
+    const db = getFirebaseAdmin().firestore();
+
+    const [subscriptionCents, allocationsSnapshot] = await Promise.all([
+      this.getMonthSubscriptionCents(userId, month),
+      db.collection(getCollectionName(USD_COLLECTIONS.USD_ALLOCATIONS))
+        .where('userId', '==', userId)
+        .where('month', '==', month)
+        .where('status', '==', 'active')
+        .get()
+    ]);
+
+    const allocatedCents = allocationsSnapshot.docs.reduce(
+      (sum, doc) => sum + (doc.data().usdCents || 0),
+      0
+    );
+
+    return Math.max(0, subscriptionCents - allocatedCents);
+  }
+
+  /**
+   * The subscription amount that funded `month`, from the subscription audit
+   * trail: the state after the last change before the month ended, or the
+   * state before it when the change was a cancellation during the month (that
+   * month was still paid for). Subscriptions older than the audit trail fall
+   * back to the current subscription record if it started before the month ended.
+   */
+  private static async getMonthSubscriptionCents(userId: string, month: string): Promise<number> {
+    const db = getFirebaseAdmin().firestore();
+    const [year, monthIndex] = month.split('-').map(Number);
+    const monthStart = new Date(Date.UTC(year, monthIndex - 1, 1));
+    const monthEnd = new Date(Date.UTC(year, monthIndex, 1));
+
+    const eventsSnapshot = await db.collection(getCollectionName('auditTrail'))
+      .where('userId', '==', userId)
+      .where('entityType', '==', 'subscription')
+      .where('timestamp', '<', monthEnd)
+      .orderBy('timestamp', 'desc')
+      .limit(1)
+      .get();
+
+    let state: Record<string, any> | null | undefined;
+    if (!eventsSnapshot.empty) {
+      const event = eventsSnapshot.docs[0].data();
+      const cancelledDuringMonth = event.eventType === 'subscription_cancelled' &&
+        event.timestamp?.toDate?.() >= monthStart;
+      state = cancelledDuringMonth ? event.beforeState : event.afterState;
+    } else {
+      const subscription = await getUserSubscriptionServer(userId);
+      const createdAt = subscription?.createdAt?.toDate?.() ?? (subscription?.createdAt ? new Date(subscription.createdAt) : null);
+      state = createdAt && createdAt < monthEnd ? subscription : null;
+    }
+
+    if (state?.status !== 'active' && state?.status !== 'trialing') {
+      return 0;
+    }
+    return dollarsToCents(Number(state.amount) || 0);
+  }
+
+  /**
+   * Record the distribution and credit each writer. Returns false if another
+   * run got there first.
+   */
+  private static async applyDistribution(
+    distributionRef: FirebaseFirestore.DocumentReference,
+    distribution: CarryOverDistribution
+  ): Promise<boolean> {
+    const db = getFirebaseAdmin().firestore();
+    const earningsCollection = db.collection(getCollectionName(USD_COLLECTIONS.WRITER_USD_EARNINGS));
+
+    return db.runTransaction(async (transaction) => {
+      const existing = await transaction.get(distributionRef);
+      if (existing.exists) return false;
+
+      const earningsRefs = distribution.shares.map(share =>
+        earningsCollection.doc(`${share.recipientUserId}_${distribution.month}`)
+      );
+      const earningsDocs = await Promise.all(earningsRefs.map(ref => transaction.get(ref)));
+
+      transaction.set(distributionRef, distribution);
+
+      distribution.shares.forEach((share, index) => {
+        if (earningsDocs[index].exists) {
+          transaction.update(earningsRefs[index], {
+            totalUsdCentsReceived: FieldValue.increment(share.usdCents),
+            carryOverUsdCents: FieldValue.increment(share.usdCents),
+            updatedAt: FieldValue.serverTimestamp()
+          });
+        } else {
+          transaction.set(earningsRefs[index], {
+            userId: share.recipientUserId,
+            month: distribution.month,
+            totalUsdCentsReceived: share.usdCents,
+            carryOverUsdCents: share.usdCents,
+            status: 'pending',
+            allocations: [],
+            createdAt: FieldValue.serverTimestamp(),
+            updatedAt: FieldValue.serverTimestamp(),
+            createdVia: 'carry_over'
+          });
+        }
+      });
+
+      return true;
+    });
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Server-side Daily Note Template Service for WeWrite
+ *
+ * Keeps each user's daily note and rollup templates (see
+ * utils/dailyNoteTemplates) in their user preferences, and fills a template
+ * in with the pages it refers to when a new daily note or rollup is opened.
+ *
+ * This file should ONLY be imported in API routes and server components.
+ */
+
+import { getFirebaseAdmin } from '../firebase/firebaseAdmin';
+import { getCollectionName, COLLECTIONS } from '../utils/environmentConfig';
+import {
+  DEFAULT_DAILY_NOTE_TEMPLATES,
+  getDailyNoteDate,
+  getDailyNoteRange,
+  getDailyNoteTitle,
+  getPreviousDate,
+  renderDailyNoteTemplate,
+  type DailyNoteTemplatePage,
+  type DailyNoteTemplatesInput
+} from '../utils/dailyNoteTemplates';
+import type { DailyNoteTemplateKind, DailyNoteTemplates } from '../types/database';
+
+export class DailyNoteTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DailyNoteTemplateError';
+  }
+}
+
+interface OwnPage extends DailyNoteTemplatePage {
+  dailyNoteDate: string | null;
+  /** Whether dailyNoteDate comes from customDate or a date title rather than createdAt */
+  hasOwnDate: boolean;
+  /** The day the page was last edited, in the user's timezone */
+  lastModifiedDate: string | null;
+}
+
+function preferencesRef(userId: string) {
+  return getFirebaseAdmin().firestore().collection(getCollectionName(COLLECTIONS.USER_PREFERENCES)).doc(userId);
+}
+
+/**
+ * The day a timestamp falls on in the given timezone, as YYYY-MM-DD
+ */
+function toLocalDate(value: any, timezone: string): string | null {
+  const date = value?.toDate ? value.toDate()
+    : value?.seconds ? new Date(value.seconds * 1000)
+    : value ? new Date(value)
+    : null;
+  if (!date || isNaN(date.getTime())) return null;
+  try {
+    return date.toLocaleDateString('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' });
+  } catch {
+    return date.toISOString().split('T')[0];
+  }
+}
+
+/**
+ * The user's pages, the way /api/daily-notes reads them: every page they own,
+ * with deleted ones filtered out here rather than in the query, dated by the
+ * day they were created unless they carry a date of their own
+ */
+async function getOwnPages(userId: string, timezone: string): Promise<OwnPage[]> {
+  const snapshot = await getFirebaseAdmin().firestore()
+    .collection(getCollectionName('pages'))
+    .where('userId', '==', userId)
+    .get();
+
+  return snapshot.docs
+    .filter(doc => doc.data().deleted !== true && doc.data().isDeleted !== true)
+    .map(doc => {
+      const data = doc.data();
+      const ownDate = getDailyNoteDate(data);
+      return {
+        id: doc.id,
+        title: data.title || 'Untitled',
+        dailyNoteDate: getDailyNoteDate(data, toLocalDate(data.createdAt, timezone)),
+        hasOwnDate: ownDate !== null,
+        lastModifiedDate: toLocalDate(data.lastModified, timezone)
+      };
+    });
+}
+
+export class DailyNoteTemplateService {
+  /**
+   * The user's templates, or the defaults for any they haven't saved
+   */
+  static async getTemplates(userId: string): Promise<DailyNoteTemplates> {
+    const doc = await preferencesRef(userId).get();
+    const saved = doc.data()?.dailyNoteTemplates;
+    return {
+      ...DEFAULT_DAILY_NOTE_TEMPLATES,
+      ...(saved || {}),
+      updatedAt: saved?.updatedAt || null
+    };
+  }
+
+  static async saveTemplates(userId: string, input: DailyNoteTemplatesInput): Promise<DailyNoteTemplates> {
+    const templates: DailyNoteTemplates = {
+      daily: input.daily,
+      weekly: input.weekly,
+      monthly: input.monthly,
+      updatedAt: new Date().toISOString()
+    };
+    await preferencesRef(userId).set({ dailyNoteTemplates: templates }, { merge: true });
+    return templates;
+  }
+
+  /**
+   * Forget the user's templates and go back to the defaults
+   */
+  static async resetTemplates(userId: string): Promise<DailyNoteTemplates> {
+    const admin = getFirebaseAdmin();
+    await preferencesRef(userId).set({ dailyNoteTemplates: admin.firestore.FieldValue.delete() }, { merge: true });
+    return { ...DEFAULT_DAILY_NOTE_TEMPLATES, updatedAt: null };
+  }
+
+  /**
+   * A new daily note for the date, or a rollup of the week or month it falls
+   * in, with the user's template filled in. Dates are the user's own, so
+   * "yesterday" is read in their timezone.
+   */
+  static async renderNote(
+    userId: string,
+    kind: DailyNoteTemplateKind,
+    date: string,
+    timezone: string
+  ): Promise<{ title: string; content: any[]; startDate: string; endDate: string }> {
+    const range = getDailyNoteRange(kind, date);
+    if (!range) {
+      throw new DailyNoteTemplateError('date must be in YYYY-MM-DD format');
+    }
+
+    const [templates, pages] = await Promise.all([
+      DailyNoteTemplateService.getTemplates(userId),
+      getOwnPages(userId, timezone)
+    ]);
+    const toLink = (page: OwnPage): DailyNoteTemplatePage => ({ id: page.id, title: page.title });
+
+    let content: any[];
+    if (kind === 'daily') {
+      const yesterday = getPreviousDate(date);
+      // A page dated yesterday beats one that was only created then
+      const yesterdayNote = pages
+        .filter(page => page.dailyNoteDate === yesterday)
+        .sort((a, b) => Number(b.hasOwnDate) - Number(a.hasOwnDate))[0];
+      content = renderDailyNoteTemplate(templates.daily, {
+        kind,
+        range,
+        yesterdayNote: yesterdayNote ? toLink(yesterdayNote) : null,
+        editedYesterday: pages.filter(page => page.lastModifiedDate === yesterday).map(toLink)
+      });
+    } else {
+      const dailyNotes = pages
+        .filter(page => page.dailyNoteDate && page.dailyNoteDate >= range.startDate && page.dailyNoteDate <= range.endDate)
+        .sort((a, b) => a.dailyNoteDate!.localeCompare(b.dailyNoteDate!));
+      content = renderDailyNoteTemplate(templates[kind], {
+        kind,
+        range,
+        dailyNotes: dailyNotes.map(toLink)
+      });
+    }
+
+    return { title: getDailyNoteTitle(kind, range), content, ...range };
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Server-side Feed Service for WeWrite
+ *
+ * Builds the syndication feeds behind /api/feeds: the public activity feed,
+ * a writer's new pages, a group's activity, a page's changelog and the
+ * results of a search. They read the same pages as /api/activity-feed and
+ * /api/timeline, but only what an anonymous reader could see: private
+ * pages, pages in private groups and encrypted group content are left out.
+ *
+ * This file should ONLY be imported in API routes and server components.
+ */
+
+import { getFirebaseAdmin } from '../firebase/firebaseAdmin';
+import { getCollectionName } from '../utils/environmentConfig';
+import { parseEncryptedContent } from '../lib/crypto/contentEncryption';
+import { searchPages, isTypesenseConfigured } from '../lib/typesense';
+import {
+  parseSearchQuery,
+  compileTypesenseQuery,
+  compileTypesenseFilter,
+  pageMatchesSearchQuery,
+  type ParsedSearchQuery,
+} from '../utils/searchQueryParser';
+import { EXPORT_BASE_URL } from '../utils/markdownExport';
+import { renderFeedExcerpt, type Feed, type FeedFormat, type FeedItem } from '../utils/syndicationFeeds';
+import { resolveSearchQueryFilters, toSearchablePage } from './searchQueryResolver';
+
+/** Items in each feed */
+const FEED_SIZE = 30;
+
+/** Pages read per feed, leaving room for the ones filtered out */
+const SCAN_LIMIT = 100;
+
+/** Longest search query a feed is built for */
+const MAX_FEED_QUERY_LENGTH = 200;
+
+type Firestore = FirebaseFirestore.Firestore;
+type PageData = Record<string, any>;
+
+export class FeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeedError';
+  }
+}
+
+function getBaseUrl(): string {
+  return process.env.NEXT_PUBLIC_BASE_URL || EXPORT_BASE_URL;
+}
+
+function getFeedUrl(path: string, format: FeedFormat, params: Record<string, string> = {}): string {
+  const query = new URLSearchParams({ ...params, format });
+  return `${getBaseUrl()}/api/feeds/${path}?${query.toString()}`;
+}
+
+function toIsoString(value: any): string | null {
+  if (!value) return null;
+  if (typeof value === 'string') return value;
+  if (typeof value.toDate === 'function') return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  return null;
+}
+
+function isPrivateGroup(group: PageData | undefined): boolean {
+  return !group || group.deleted === true || group.visibility === 'private';
+}
+
+/**
+ * Which of these groups are private (or gone), so their pages stay out
+ */
+async function getHiddenGroupIds(db: Firestore, pages: PageData[]): Promise<Set<string>> {
+  const groupIds = [...new Set(pages.map(page => page.groupId).filter(Boolean))] as string[];
+  if (groupIds.length === 0) return new Set();
+
+  const groupsRef = db.collection(getCollectionName('groups'));
+  const groupDocs = await db.getAll(...groupIds.map(id => groupsRef.doc(id)));
+  return new Set(groupDocs.filter(doc => isPrivateGroup(doc.data())).map(doc => doc.id));
+}
+
+function isSyndicatable(page: PageData, hiddenGroupIds: Set<string>): boolean {
+  if (page.deleted === true || page.isPublic === false) return false;
+  if (page.groupId && hiddenGroupIds.has(page.groupId)) return false;
+  return !parseEncryptedContent(page.content);
+}
+
+function toFeedItem(id: string, page: PageData): FeedItem {
+  const baseUrl = getBaseUrl();
+  const { html, summary } = renderFeedExcerpt(page.content, baseUrl);
+  const published = toIsoString(page.createdAt);
+  return {
+    id,
+    title: page.title || 'Untitled',
+    url: `${baseUrl}/${id}`,
+    authorName: page.username || undefined,
+    authorUrl: page.userId ? `${baseUrl}/u/${page.userId}` : undefined,
+    published,
+    updated: toIsoString(page.lastModified) || published || new Date(0).toISOString(),
+    contentHtml: html,
+    summary,
+  };
+}
+
+/**
+ * Feed items for the pages an anonymous reader may see, in the given order
+ */
+async function toVisibleItems(db: Firestore, docs: FirebaseFirestore.DocumentSnapshot[]): Promise<FeedItem[]> {
+  const pages = docs.filter(doc => doc.exists).map(doc => ({ id: doc.id, data: doc.data() as PageData }));
+  const hiddenGroupIds = await getHiddenGroupIds(db, pages.map(page => page.data));
+
+  return pages
+    .filter(page => isSyndicatable(page.data, hiddenGroupIds))
+    .slice(0, FEED_SIZE)
+    .map(page => toFeedItem(page.id, page.data));
+}
+
+/**
+ * Page IDs matching a search, newest first, from the search index
+ */
+async function searchWithTypesense(parsed: ParsedSearchQuery): Promise<string[]> {
+  const { filterBy, matchesNothing } = compileTypesenseFilter(parsed);
+  if (matchesNothing) return [];
+
+  const response = await searchPages(compileTypesenseQuery(parsed) || '*', {
+    filterBy: ['isPublic:=true', filterBy].filter(Boolean).join(' && '),
+    sortBy: 'lastModified:desc',
+    perPage: SCAN_LIMIT,
+    includeFields: ['id'],
+  });
+  return response.hits.map(hit => hit.document.id);
+}
+
+export class FeedService {
+
+  /**
+   * Public pages across WeWrite, most recently edited first
+   */
+  static async getGlobalFeed(format: FeedFormat): Promise<Feed> {
+    const db = getFirebaseAdmin().firestore();
+    const snapshot = await db.collection(getCollectionName('pages'))
+      .orderBy('lastModified', 'desc')
+      .limit(SCAN_LIMIT)
+      .get();
+
+    return {
+      title: 'WeWrite - Recent activity',
+      description: 'Recently edited pages on WeWrite',
+      homePageUrl: getBaseUrl(),
+      feedUrl: getFeedUrl('global', format),
+      items: await toVisibleItems(db, snapshot.docs),
+    };
+  }
+
+  /**
+   * A writer's public pages, newest first
+   */
+  static async getUserFeed(userId: string, format: FeedFormat): Promise<Feed> {
+    const db = getFirebaseAdmin().firestore();
+    const userDoc = await db.collection(getCollectionName('users')).doc(userId).get();
+    const user = userDoc.data();
+    if (!userDoc.exists || !user || user.suspended === true) {
+      throw new FeedError('User not found');
+    }
+
+    const snapshot = await db.collection(getCollectionName('pages'))
+      .where('userId', '==', userId)
+      .orderBy('createdAt', 'desc')
+      .limit(SCAN_LIMIT)
+      .get();
+
+    const username = user.username || 'A WeWrite writer';
+    return {
+      title: `${username} on WeWrite`,
+      description: `New pages by ${username}`,
+      homePageUrl: `${getBaseUrl()}/u/${userId}`,
+      feedUrl: getFeedUrl(`user/${userId}`, format),
+      items: await toVisibleItems(db, snapshot.docs),
+    };
+  }
+
+  /**
+   * Recently edited pages in a public group
+   */
+  static async getGroupFeed(groupId: string, format: FeedFormat): Promise<Feed> {
+    const db = getFirebaseAdmin().firestore();
+    const groupDoc = await db.collection(getCollectionName('groups')).doc(groupId).get();
+    const group = groupDoc.data();
+    if (!groupDoc.exists || isPrivateGroup(group)) {
+      throw new FeedError('Group not found');
+    }
+
+    const snapshot = await db.collection(getCollectionName('pages'))
+      .where('groupId', '==', groupId)
+      .orderBy('lastModified', 'desc')
+      .limit(SCAN_LIMIT)
+      .get();
+
+    const name = group!.name || 'Group';
+    return {
+      title: `${name} on WeWrite`,
+      description: group!.description || `Recent activity in ${name}`,
+      homePageUrl: `${getBaseUrl()}/g/${groupId}`,
+      feedUrl: getFeedUrl(`group/${groupId}`, format),
+      items: await toVisibleItems(db, snapshot.docs),
+    };
+  }
+
+  /**
+   * A page's changelog: one item per saved version, newest first
+   */
+  static async getPageFeed(pageId: string, format: FeedFormat): Promise<Feed> {
+    const db = getFirebaseAdmin().firestore();
+    const pageRef = db.collection(getCollectionName('pages')).doc(pageId);
+    const pageDoc = await pageRef.get();
+    const page = pageDoc.data();
+    const hiddenGroupIds = page ? await getHiddenGroupIds(db, [page]) : new Set<string>();
+    if (!pageDoc.exists || !page || !isSyndicatable(page, hiddenGroupIds)) {
+      throw new FeedError('Page not found');
+    }
+
+    // Sorted in memory, like /api/pages/[id]/versions, so no index is needed
+    const versionsSnap = await pageRef.collection('versions').get();
+    const versions = versionsSnap.docs
+      .map(doc => ({ id: doc.id, data: doc.data(), createdAt: toIsoString(doc.data().createdAt) }))
+      .filter(version => !version.data.isNoOp && version.createdAt && !parseEncryptedContent(version.data.content))
+      .sort((a, b) => b.createdAt!.localeCompare(a.createdAt!))
+      .slice(0, FEED_SIZE);
+
+    const baseUrl = getBaseUrl();
+    const title = page.title || 'Untitled';
+    const items = versions.map((version): FeedItem => {
+      const { html, summary } = renderFeedExcerpt(version.data.content, baseUrl);
+      const added = version.data.diff?.added || 0;
+      const removed = version.data.diff?.removed || 0;
+      const change = version.data.isNewPage ? 'Created' : `Edited (+${added} / -${removed})`;
+      return {
+        id: `${pageId}/${version.id}`,
+        title: `${change}: ${version.data.title || title}`,
+        url: `${baseUrl}/${pageId}/versions/${version.id}`,
+        authorName: version.data.username || undefined,
+        authorUrl: version.data.userId ? `${baseUrl}/u/${version.data.userId}` : undefined,
+        published: version.createdAt,
+        updated: version.createdAt!,
+        contentHtml: html,
+        summary: version.data.diffPreview?.addedText || summary,
+      };
+    });
+
+    return {
+      title: `${title} - changelog`,
+      description: `Every saved version of ${title} on WeWrite`,
+      homePageUrl: `${baseUrl}/${pageId}`,
+      feedUrl: getFeedUrl(`page/${pageId}`, format),
+      items,
+    };
+  }
+
+  /**
+   * Public pages matching a search, search operators included, most
+   * recently edited first
+   */
+  static async getSearchFeed(query: string, format: FeedFormat): Promise<Feed> {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      throw new FeedError('A search query is required');
+    }
+    if (trimmed.length > MAX_FEED_QUERY_LENGTH) {
+      throw new FeedError(`Search queries are limited to ${MAX_FEED_QUERY_LENGTH} characters`);
+    }
+
+    const db = getFirebaseAdmin().firestore();
+    const pagesRef = db.collection(getCollectionName('pages'));
+    // No viewer, so author:me and author:following match nothing
+    const parsed = await resolveSearchQueryFilters(parseSearchQuery(trimmed), null);
+
+    let docs: FirebaseFirestore.DocumentSnapshot[] | null = null;
+    if (isTypesenseConfigured()) {
+      try {
+        const ids = await searchWithTypesense(parsed);
+        docs = ids.length > 0 ? await db.getAll(...ids.map(id => pagesRef.doc(id))) : [];
+      } catch (error) {
+        console.warn('[Feeds] Typesense search failed, falling back to Firestore', error);
+      }
+    }
+    if (!docs) {
+      const snapshot = await pagesRef.orderBy('lastModified', 'desc').limit(SCAN_LIMIT * 3).get();
+      docs = snapshot.docs.filter(doc => pageMatchesSearchQuery(toSearchablePage(doc.id, doc.data()), parsed));
+    }
+
+    return {
+      title: `WeWrite search: ${trimmed}`,
+      description: `Pages on WeWrite matching "${trimmed}"`,
+      homePageUrl: `${getBaseUrl()}/search?q=${encodeURIComponent(trimmed)}`,
+      feedUrl: getFeedUrl('search', format, { q: trimmed }),
+      items: await toVisibleItems(db, docs),
+    };
+  }
+}
@@ -7,6 +7,8 @@
 import { getFirebaseAdmin } from '../firebase/firebaseAdmin';
 import { getCollectionName } from '../utils/environmentConfig';
 import { sendPageLinkedEmail } from './emailService';
+import { UserBlockService } from './userBlockService';
+import { OutgoingWebhookService, toPageEventData } from './outgoingWebhookService';
 
 interface LinkMentionData {
   sourceUserId: string;
@@ -37,6 +39,12 @@ export async function createLinkMentionNotification(data: LinkMentionData): Prom
       return true;
     }
 
+    // Don't notify someone about a user they've blocked or muted
+    if (await UserBlockService.hasHidden(data.targetUserId, data.sourceUserId)) {
+      console.log('[LinkMention] Skipping notification - target user has blocked or muted the source user');
+      return true;
+    }
+
     // Check if target user has notification preferences that opt out
     const targetUserDoc = await db.collection(getCollectionName('users')).doc(data.targetUserId).get();
     if (!targetUserDoc.exists) {
@@ -264,6 +272,13 @@ export async function processPageLinksForNotifications(
           targetPageTitle: linkedPageTitle,
           isUserMention: false
         });
+
+        if (!await UserBlockService.hasHidden(pageOwnerId, authorId)) {
+          await OutgoingWebhookService.emit('link.created', { userId: pageOwnerId, groupId: pageData.groupId }, `${pageId}:${linkedPageId}`, {
+            page: toPageEventData(linkedPageId, pageData),
+            linkedFrom: { pageId, title: pageTitle, userId: authorId, username: authorUsername },
+          });
+        }
       }
     }
 
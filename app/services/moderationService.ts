@@ -0,0 +1,320 @@
+/**
+ * Server-side Moderation Service for WeWrite
+ *
+ * Stores content reports filed by readers and carries out the actions admins
+ * take from the moderation queue: hiding or soft-deleting a page, warning its
+ * author, or suspending the account. Every action resolves the open reports
+ * about its target, is written to the admin audit log, and sends each
+ * reporter a report_outcome notification.
+ *
+ * This file should ONLY be imported in API routes and server components.
+ */
+
+import { getFirebaseAdmin } from '../firebase/firebaseAdmin';
+import { getCollectionName, COLLECTIONS } from '../utils/environmentConfig';
+import { removePageFromTypesenseServer } from '../lib/typesenseSync';
+import {
+  getReportInputError,
+  getReportTargetKey,
+  getModerationActions,
+  groupReportsByTarget,
+  describeReportOutcome,
+  getModerationAuditAction,
+  type ReportQueueItem,
+} from '../utils/contentReports';
+import type {
+  ContentReport,
+  ModerationAction,
+  ReportCategory,
+  ReportTargetType,
+} from '../types/database';
+
+/** Open reports loaded into the queue at once */
+const QUEUE_LIMIT = 500;
+
+/** Audit log entries shown under the queue */
+const AUDIT_LOG_LIMIT = 100;
+
+export class ModerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModerationError';
+  }
+}
+
+export interface ReportInput {
+  targetType: ReportTargetType;
+  targetId: string;
+  category: ReportCategory;
+  details?: string;
+}
+
+export interface ModerationAuditEntry {
+  id: string;
+  action: string;
+  targetType: ReportTargetType;
+  targetId: string;
+  targetUid: string;
+  note: string | null;
+  reportIds: string[];
+  performedBy: string | null;
+  performedByUid: string;
+  timestamp: string | null;
+}
+
+function reportsCollection() {
+  return getFirebaseAdmin().firestore().collection(getCollectionName(COLLECTIONS.CONTENT_REPORTS));
+}
+
+/**
+ * What a report is about: the page's author and title, or the user's name
+ */
+async function loadReportTarget(targetType: ReportTargetType, targetId: string): Promise<{ userId: string; title: string }> {
+  const db = getFirebaseAdmin().firestore();
+
+  if (targetType === 'user') {
+    const userDoc = await db.collection(getCollectionName('users')).doc(targetId).get();
+    if (!userDoc.exists) {
+      throw new ModerationError('User not found');
+    }
+    return { userId: targetId, title: userDoc.data()?.username || `user_${targetId.slice(0, 8)}` };
+  }
+
+  const pageDoc = await db.collection(getCollectionName('pages')).doc(targetId).get();
+  const page = pageDoc.data();
+  if (!pageDoc.exists || !page || page.deleted) {
+    throw new ModerationError('Page not found');
+  }
+  return { userId: page.userId, title: page.title || 'Untitled' };
+}
+
+export class ModerationService {
+
+  /**
+   * File a report. A reader can only have one open report per page or user.
+   */
+  static async createReport(reporterId: string, input: ReportInput): Promise<ContentReport> {
+    const inputError = getReportInputError(input);
+    if (inputError) {
+      throw new ModerationError(inputError);
+    }
+
+    const target = await loadReportTarget(input.targetType, input.targetId);
+    if (target.userId === reporterId) {
+      throw new ModerationError("You can't report your own content");
+    }
+
+    const key = getReportTargetKey(input.targetType, input.targetId);
+    const existing = await reportsCollection()
+      .where('reporterId', '==', reporterId)
+      .where('targetId', '==', input.targetId)
+      .get();
+    const alreadyOpen = existing.docs.some(doc => {
+      const report = doc.data() as ContentReport;
+      return report.status === 'open' && getReportTargetKey(report.targetType, report.targetId) === key;
+    });
+    if (alreadyOpen) {
+      throw new ModerationError("You've already reported this. We'll let you know when it's been reviewed.");
+    }
+
+    const reporterDoc = await getFirebaseAdmin().firestore().collection(getCollectionName('users')).doc(reporterId).get();
+    const ref = reportsCollection().doc();
+    const report: ContentReport = {
+      id: ref.id,
+      reporterId,
+      reporterUsername: reporterDoc.data()?.username || undefined,
+      targetType: input.targetType,
+      targetId: input.targetId,
+      targetUserId: target.userId,
+      targetTitle: target.title,
+      category: input.category,
+      details: input.details?.trim() || undefined,
+      status: 'open',
+      createdAt: new Date().toISOString()
+    };
+
+    // Firestore rejects undefined fields
+    await ref.set(JSON.parse(JSON.stringify(report)));
+    return report;
+  }
+
+  /**
+   * Open reports grouped by what they're about
+   */
+  static async getQueue(): Promise<ReportQueueItem[]> {
+    const snapshot = await reportsCollection()
+      .where('status', '==', 'open')
+      .limit(QUEUE_LIMIT)
+      .get();
+
+    return groupReportsByTarget(snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as ContentReport));
+  }
+
+  /**
+   * Moderation entries from the admin audit log, newest first
+   */
+  static async getAuditLog(limit: number = AUDIT_LOG_LIMIT): Promise<ModerationAuditEntry[]> {
+    const snapshot = await getFirebaseAdmin().firestore()
+      .collection(getCollectionName(COLLECTIONS.ADMIN_AUDIT_LOG))
+      .where('category', '==', 'moderation')
+      .limit(QUEUE_LIMIT)
+      .get();
+
+    return snapshot.docs
+      .map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          action: data.action,
+          targetType: data.targetType,
+          targetId: data.targetId,
+          targetUid: data.targetUid,
+          note: data.note || null,
+          reportIds: data.reportIds || [],
+          performedBy: data.performedBy || null,
+          performedByUid: data.performedByUid,
+          timestamp: data.timestamp?.toDate?.()?.toISOString() || null
+        };
+      })
+      .sort((a, b) => (b.timestamp || '').localeCompare(a.timestamp || ''))
+      .slice(0, limit);
+  }
+
+  /**
+   * Take an action on a reported page or user, resolving every open report
+   * about it
+   */
+  static async applyAction(
+    targetType: ReportTargetType,
+    targetId: string,
+    action: ModerationAction,
+    moderator: { uid: string; email?: string },
+    note?: string
+  ): Promise<{ reportsResolved: number }> {
+    if (!getModerationActions(targetType).includes(action)) {
+      throw new ModerationError(`Can't ${action.replace('_', ' ')} a ${targetType}`);
+    }
+
+    const admin = getFirebaseAdmin();
+    const db = admin.firestore();
+    const now = new Date().toISOString();
+    const trimmedNote = note?.trim() || undefined;
+
+    const key = getReportTargetKey(targetType, targetId);
+    const snapshot = await reportsCollection().where('targetId', '==', targetId).get();
+    const openReports = snapshot.docs.filter(doc => {
+      const report = doc.data() as ContentReport;
+      return report.status === 'open' && getReportTargetKey(report.targetType, report.targetId) === key;
+    });
+    if (openReports.length === 0) {
+      throw new ModerationError('No open reports for this content');
+    }
+
+    const first = openReports[0].data() as ContentReport;
+    const targetUserId = first.targetUserId;
+    const targetTitle = first.targetTitle;
+
+    // Carry out the action before anything is marked resolved
+    switch (action) {
+      case 'hide_page':
+        await db.collection(getCollectionName('pages')).doc(targetId).update({
+          isPublic: false,
+          moderationHidden: true,
+          moderationHiddenAt: now,
+          lastModified: now
+        });
+        await removePageFromTypesenseServer(targetId);
+        break;
+
+      case 'delete_page':
+        await db.collection(getCollectionName('pages')).doc(targetId).update({
+          deleted: true,
+          deletedAt: now,
+          deletedByModeration: true,
+          lastModified: now
+        });
+        await removePageFromTypesenseServer(targetId);
+        break;
+
+      case 'suspend_user':
+        await admin.auth().updateUser(targetUserId, { disabled: true });
+        await admin.auth().revokeRefreshTokens(targetUserId);
+        await db.collection(getCollectionName('users')).doc(targetUserId).update({
+          suspended: true,
+          suspendedAt: now,
+          suspendedReason: trimmedNote || null
+        });
+        break;
+    }
+
+    const batch = db.batch();
+    const usersCollection = db.collection(getCollectionName('users'));
+    const notify = (userId: string, notification: Record<string, any>) => {
+      const userRef = usersCollection.doc(userId);
+      batch.set(userRef.collection(getCollectionName('notifications')).doc(), {
+        userId,
+        ...notification,
+        read: false,
+        createdAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+      batch.update(userRef, {
+        unreadNotificationsCount: admin.firestore.FieldValue.increment(1)
+      });
+    };
+
+    const resolution = {
+      action,
+      ...(trimmedNote && { note: trimmedNote }),
+      resolvedBy: moderator.uid,
+      resolvedAt: now
+    };
+    for (const doc of openReports) {
+      batch.update(doc.ref, {
+        status: action === 'dismiss' ? 'dismissed' : 'resolved',
+        resolution
+      });
+    }
+
+    // One outcome per reporter, however many times they reported it
+    const outcome = describeReportOutcome(action, targetTitle);
+    const reporterIds = new Set(openReports.map(doc => (doc.data() as ContentReport).reporterId));
+    for (const reporterId of reporterIds) {
+      notify(reporterId, {
+        type: 'report_outcome',
+        title: outcome.title,
+        message: outcome.message,
+        metadata: { action, targetType, targetId },
+        criticality: 'normal'
+      });
+    }
+
+    if (action === 'warn_user') {
+      notify(targetUserId, {
+        type: 'moderation_warning',
+        title: 'A moderator has warned you',
+        message: trimmedNote
+          ? `About "${targetTitle}": ${trimmedNote}`
+          : `We received reports about "${targetTitle}". Please review our community rules.`,
+        ...(targetType !== 'user' && { targetPageId: targetId }),
+        metadata: { targetType, targetId },
+        criticality: 'device'
+      });
+    }
+
+    batch.set(db.collection(getCollectionName(COLLECTIONS.ADMIN_AUDIT_LOG)).doc(), {
+      category: 'moderation',
+      action: getModerationAuditAction(action),
+      targetType,
+      targetId,
+      targetUid: targetUserId,
+      note: trimmedNote || null,
+      reportIds: openReports.map(doc => doc.id),
+      performedBy: moderator.email || null,
+      performedByUid: moderator.uid,
+      timestamp: admin.firestore.FieldValue.serverTimestamp()
+    });
+
+    await batch.commit();
+    return { reportsResolved: openReports.length };
+  }
+}
@@ -0,0 +1,521 @@
+/**
+ * Server-side Outgoing Webhook Service for WeWrite
+ *
+ * Stores the HTTPS endpoints users and groups register and delivers signed
+ * events to them. emit() queues one delivery per subscribed endpoint and
+ * tries each straight away; whatever doesn't go through is retried with
+ * backoff by the webhook-deliveries cron. Every attempt is kept in the
+ * delivery log shown in settings, where deliveries can be sent again.
+ *
+ * Delivery documents are keyed by endpoint and event ID, so an event that
+ * is emitted twice (a retried request, a re-sent Stripe webhook) still
+ * reaches each endpoint once - the same idea as webhookIdempotencyService
+ * for incoming webhooks.
+ *
+ * This file should ONLY be imported in API routes and server components.
+ */
+
+import { request as httpsRequest } from 'https';
+import { lookup } from 'dns/promises';
+import { isIP, type LookupFunction } from 'net';
+import { getFirebaseAdmin } from '../firebase/firebaseAdmin';
+import { getCollectionName, COLLECTIONS } from '../utils/environmentConfig';
+import {
+  MAX_WEBHOOK_ENDPOINTS,
+  USER_ONLY_EVENT_TYPES,
+  WEBHOOK_SIGNATURE_HEADER,
+  buildWebhookEvent,
+  generateWebhookSecret,
+  getNextAttemptAt,
+  getWebhookDeliveryId,
+  isPrivateAddress,
+  isRetryableStatus,
+  maskWebhookSecret,
+  signWebhookPayload,
+} from '../utils/outgoingWebhooks';
+import type {
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEventType,
+  WebhookOwnerType,
+} from '../types/database';
+
+/** How long an endpoint gets to answer */
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/** Deliveries retried per cron run */
+const MAX_RETRIES_PER_RUN = 100;
+
+/**
+ * Time a cron run spends on retries before leaving the rest for the next run.
+ * The route's maxDuration is 300 seconds and one delivery can take 10.
+ */
+const RETRY_TIME_BUDGET_MS = 4 * 60 * 1000;
+
+/** Deliveries shown in an endpoint's log */
+const DELIVERY_LOG_SIZE = 50;
+
+/** Deliveries are kept this long */
+const DELIVERY_RETENTION_DAYS = 30;
+
+/** Longest response body kept in the delivery log */
+const MAX_LOGGED_ERROR_LENGTH = 500;
+
+const ALREADY_EXISTS = 6;
+
+export class WebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+export interface WebhookEndpointInput {
+  url: string;
+  events: WebhookEventType[];
+  description?: string;
+  /** Register the endpoint for a group instead of the signed-in user */
+  groupId?: string | null;
+}
+
+export interface WebhookEventOwners {
+  userId?: string | null;
+  groupId?: string | null;
+}
+
+export interface WebhookRetryResult {
+  retried: number;
+  succeeded: number;
+  failed: number;
+  deleted: number;
+}
+
+/**
+ * What page events say about a page. Content is never sent, so encrypted
+ * group pages don't leak through a webhook.
+ */
+export function toPageEventData(pageId: string, page: Record<string, any>): Record<string, any> {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://www.getwewrite.app';
+  return {
+    pageId,
+    title: page.title || 'Untitled',
+    url: `${baseUrl}/${pageId}`,
+    userId: page.userId || null,
+    username: page.username || null,
+    groupId: page.groupId || null,
+    isPublic: page.isPublic !== false,
+  };
+}
+
+function endpointsCollection() {
+  return getFirebaseAdmin().firestore().collection(getCollectionName(COLLECTIONS.WEBHOOK_ENDPOINTS));
+}
+
+function deliveriesCollection() {
+  return getFirebaseAdmin().firestore().collection(getCollectionName(COLLECTIONS.WEBHOOK_DELIVERIES));
+}
+
+function getOwnerKey(ownerType: WebhookOwnerType, ownerId: string): string {
+  return `${ownerType}:${ownerId}`;
+}
+
+/**
+ * An endpoint as returned to its owners: the secret is only ever shown once
+ */
+function withoutSecret(endpoint: WebhookEndpoint): WebhookEndpoint {
+  const { secret, ...rest } = endpoint;
+  return { ...rest, secretPreview: secret ? maskWebhookSecret(secret) : undefined };
+}
+
+/**
+ * Users manage their own endpoints; a group's are managed by its owner and admins
+ */
+async function canManage(userId: string, ownerType: WebhookOwnerType, ownerId: string): Promise<boolean> {
+  if (ownerType === 'user') return ownerId === userId;
+
+  const groupRef = getFirebaseAdmin().firestore().collection(getCollectionName('groups')).doc(ownerId);
+  const groupDoc = await groupRef.get();
+  const group = groupDoc.data();
+  if (!groupDoc.exists || !group || group.deleted) return false;
+  if (group.ownerId === userId) return true;
+
+  const memberDoc = await groupRef.collection('members').doc(userId).get();
+  const role = memberDoc.data()?.role;
+  return role === 'owner' || role === 'admin';
+}
+
+/**
+ * An endpoint the user may manage, or null
+ */
+async function getManagedEndpoint(userId: string, endpointId: string): Promise<WebhookEndpoint | null> {
+  const doc = await endpointsCollection().doc(endpointId).get();
+  if (!doc.exists) return null;
+
+  const endpoint = { ...doc.data(), id: doc.id } as WebhookEndpoint;
+  return await canManage(userId, endpoint.ownerType, endpoint.ownerId) ? endpoint : null;
+}
+
+
+/**
+ * Resolve an endpoint's host and check every address it points to, so a
+ * public name can't lead into our network. Checked before every delivery
+ * because DNS answers change after the endpoint is saved.
+ */
+async function resolvePublicAddress(hostname: string): Promise<{ address: string; family: number }> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await lookup(host, { all: true, verbatim: true });
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new WebhookError('Endpoint host does not resolve to a public address');
+  }
+  return addresses[0];
+}
+
+/**
+ * POST to an endpoint, connecting to the address resolvePublicAddress
+ * checked rather than looking the host up again. Redirects aren't followed.
+ */
+function postToEndpoint(
+  url: string,
+  target: { address: string; family: number },
+  headers: Record<string, string>,
+  body: string
+): Promise<{ status: number; text: string }> {
+  const pinnedLookup = ((_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [target]);
+    } else {
+      callback(null, target.address, target.family);
+    }
+  }) as LookupFunction;
+
+  return new Promise((resolve, reject) => {
+    const request = httpsRequest(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: pinnedLookup
+    }, response => {
+      let text = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        if (text.length < MAX_LOGGED_ERROR_LENGTH) text += chunk;
+      });
+      response.on('end', () => {
+        clearTimeout(timeout);
+        resolve({ status: response.statusCode || 0, text });
+      });
+      response.on('error', reject);
+    });
+
+    const timeout = setTimeout(() => {
+      const error = new Error(`No response within ${DELIVERY_TIMEOUT_MS / 1000} seconds`);
+      error.name = 'TimeoutError';
+      request.destroy(error);
+    }, DELIVERY_TIMEOUT_MS);
+
+    request.on('error', error => {
+      clearTimeout(timeout);
+      reject(error);
+    });
+    request.end(body);
+  });
+}
+
+export class OutgoingWebhookService {
+
+  /**
+   * A user's endpoints, or a group's when groupId is given; null if the user
+   * can't manage the group's webhooks
+   */
+  static async getEndpoints(userId: string, groupId?: string | null): Promise<WebhookEndpoint[] | null> {
+    const ownerType: WebhookOwnerType = groupId ? 'group' : 'user';
+    const ownerId = groupId || userId;
+    if (!await canManage(userId, ownerType, ownerId)) return null;
+
+    const snapshot = await endpointsCollection().where('ownerKey', '==', getOwnerKey(ownerType, ownerId)).get();
+    return snapshot.docs
+      .map(doc => withoutSecret({ ...doc.data(), id: doc.id } as WebhookEndpoint))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Register an endpoint. The URL and events should already have passed
+   * getWebhookUrlError and getWebhookEventsError. The returned endpoint
+   * includes the signing secret.
+   */
+  static async createEndpoint(userId: string, input: WebhookEndpointInput): Promise<WebhookEndpoint> {
+    const existing = await this.getEndpoints(userId, input.groupId);
+    if (!existing) {
+      throw new WebhookError('Only group owners and admins can add webhooks');
+    }
+    if (existing.length >= MAX_WEBHOOK_ENDPOINTS) {
+      throw new WebhookError(`You can have at most ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints`);
+    }
+
+    const ownerType: WebhookOwnerType = input.groupId ? 'group' : 'user';
+    const ownerId = input.groupId || userId;
+    const now = new Date().toISOString();
+    const ref = endpointsCollection().doc();
+    const endpoint: WebhookEndpoint = {
+      id: ref.id,
+      ownerType,
+      ownerId,
+      ownerKey: getOwnerKey(ownerType, ownerId),
+      createdBy: userId,
+      url: input.url.trim(),
+      description: input.description?.trim() || '',
+      events: [...new Set(input.events)],
+      secret: generateWebhookSecret(),
+      active: true,
+      createdAt: now,
+      updatedAt: now
+    };
+    await ref.set(endpoint);
+    return endpoint;
+  }
+
+  static async updateEndpoint(
+    userId: string,
+    endpointId: string,
+    updates: { url?: string; events?: WebhookEventType[]; description?: string; active?: boolean }
+  ): Promise<WebhookEndpoint | null> {
+    const endpoint = await getManagedEndpoint(userId, endpointId);
+    if (!endpoint) return null;
+
+    const changes: Partial<WebhookEndpoint> = { updatedAt: new Date().toISOString() };
+    if (typeof updates.url === 'string') changes.url = updates.url.trim();
+    if (updates.events) changes.events = [...new Set(updates.events)];
+    if (typeof updates.description === 'string') changes.description = updates.description.trim();
+    if (typeof updates.active === 'boolean') changes.active = updates.active;
+
+    await endpointsCollection().doc(endpointId).update(changes);
+    return withoutSecret({ ...endpoint, ...changes });
+  }
+
+  /**
+   * Replace an endpoint's signing secret; the returned endpoint includes it
+   */
+  static async rotateSecret(userId: string, endpointId: string): Promise<WebhookEndpoint | null> {
+    const endpoint = await getManagedEndpoint(userId, endpointId);
+    if (!endpoint) return null;
+
+    const changes = { secret: generateWebhookSecret(), updatedAt: new Date().toISOString() };
+    await endpointsCollection().doc(endpointId).update(changes);
+    return { ...endpoint, ...changes };
+  }
+
+  static async deleteEndpoint(userId: string, endpointId: string): Promise<boolean> {
+    const endpoint = await getManagedEndpoint(userId, endpointId);
+    if (!endpoint) return false;
+
+    await endpointsCollection().doc(endpointId).delete();
+    return true;
+  }
+
+  /**
+   * The most recent deliveries to an endpoint, newest first
+   */
+  static async getDeliveries(userId: string, endpointId: string): Promise<WebhookDelivery[] | null> {
+    const endpoint = await getManagedEndpoint(userId, endpointId);
+    if (!endpoint) return null;
+
+    // Sorted in memory so no composite index is needed; old deliveries are
+    // deleted by the cron, which keeps this small
+    const snapshot = await deliveriesCollection().where('endpointId', '==', endpointId).get();
+    return snapshot.docs
+      .map(doc => ({ ...doc.data(), id: doc.id }) as WebhookDelivery)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, DELIVERY_LOG_SIZE);
+  }
+
+  /**
+   * Send a delivery again now, whatever happened to it before
+   */
+  static async redeliver(userId: string, endpointId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+    const endpoint = await getManagedEndpoint(userId, endpointId);
+    if (!endpoint) return null;
+
+    const doc = await deliveriesCollection().doc(deliveryId).get();
+    if (!doc.exists || doc.data()?.endpointId !== endpointId) return null;
+
+    return this.attemptDelivery(deliveryId, { force: true });
+  }
+
+  /**
+   * Queue an event for every active endpoint of its owners that subscribes
+   * to it, and start a first attempt at each delivery without waiting for
+   * it. `key` identifies what happened (a page version, a payout) and makes
+   * the event ID stable. Never throws.
+   */
+  static async emit(
+    type: WebhookEventType,
+    owners: WebhookEventOwners,
+    key: string,
+    data: Record<string, any>
+  ): Promise<void> {
+    try {
+      const ownerKeys: string[] = [];
+      if (owners.userId) ownerKeys.push(getOwnerKey('user', owners.userId));
+      if (owners.groupId && !USER_ONLY_EVENT_TYPES.includes(type)) ownerKeys.push(getOwnerKey('group', owners.groupId));
+      if (ownerKeys.length === 0) return;
+
+      const snapshot = await endpointsCollection()
+        .where('ownerKey', 'in', ownerKeys)
+        .where('active', '==', true)
+        .get();
+      const endpoints = snapshot.docs.filter(doc => (doc.data().events || []).includes(type));
+      if (endpoints.length === 0) return;
+
+      const event = buildWebhookEvent(type, key, data);
+      const payload = JSON.stringify(event);
+      const now = new Date();
+      const queued: string[] = [];
+
+      for (const endpointDoc of endpoints) {
+        const deliveryId = getWebhookDeliveryId(endpointDoc.id, event.id);
+        const delivery: WebhookDelivery = {
+          id: deliveryId,
+          endpointId: endpointDoc.id,
+          ownerKey: endpointDoc.data().ownerKey,
+          eventId: event.id,
+          eventType: type,
+          payload,
+          status: 'pending',
+          attempts: 0,
+          // Picked up by the cron if the first attempt below never finishes
+          nextAttemptAt: getNextAttemptAt(1, now)!.toISOString(),
+          lastAttemptAt: null,
+          responseStatus: null,
+          error: null,
+          createdAt: now.toISOString()
+        };
+
+        try {
+          await deliveriesCollection().doc(deliveryId).create(delivery);
+          queued.push(deliveryId);
+        } catch (error: any) {
+          if (error?.code !== ALREADY_EXISTS) throw error;
+        }
+      }
+
+      // Not awaited: the caller shouldn't wait on someone else's server, and
+      // the cron sends anything this doesn't get to
+      Promise.allSettled(queued.map(deliveryId => this.attemptDelivery(deliveryId)));
+    } catch (error) {
+      console.error(`[Webhooks] Failed to emit ${type}:`, error);
+    }
+  }
+
+  /**
+   * POST a delivery to its endpoint and record the outcome. Pending
+   * deliveries are scheduled for another try until they run out of attempts.
+   */
+  static async attemptDelivery(deliveryId: string, options: { force?: boolean } = {}): Promise<WebhookDelivery | null> {
+    const deliveryRef = deliveriesCollection().doc(deliveryId);
+    const deliveryDoc = await deliveryRef.get();
+    if (!deliveryDoc.exists) return null;
+
+    const delivery = { ...deliveryDoc.data(), id: deliveryDoc.id } as WebhookDelivery;
+    if (!options.force && delivery.status !== 'pending') return delivery;
+
+    const now = new Date();
+    const attempts = delivery.attempts + 1;
+    const endpointDoc = await endpointsCollection().doc(delivery.endpointId).get();
+    const endpoint = endpointDoc.data() as WebhookEndpoint | undefined;
+
+    let changes: Partial<WebhookDelivery>;
+    if (!endpoint || !endpoint.active || !endpoint.secret) {
+      changes = {
+        status: 'failed',
+        nextAttemptAt: null,
+        error: 'Endpoint was deleted or disabled'
+      };
+    } else {
+      let responseStatus: number | null = null;
+      let error: string | null = null;
+      try {
+        const target = await resolvePublicAddress(new URL(endpoint.url).hostname);
+        const response = await postToEndpoint(endpoint.url, target, {
+          'Content-Type': 'application/json',
+          'User-Agent': 'WeWrite-Webhooks/1.0',
+          'WeWrite-Event': delivery.eventType,
+          'WeWrite-Event-Id': delivery.eventId,
+          'WeWrite-Delivery': delivery.id,
+          'Idempotency-Key': delivery.eventId,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, delivery.payload)
+        }, delivery.payload);
+        responseStatus = response.status;
+        if (responseStatus < 200 || responseStatus >= 300) {
+          const text = response.text;
+          error = `HTTP ${response.status}${text ? `: ${text.slice(0, MAX_LOGGED_ERROR_LENGTH)}` : ''}`;
+        }
+      } catch (fetchError: any) {
+        error = fetchError?.message || 'Request failed';
+      }
+
+      if (!error) {
+        changes = { status: 'succeeded', nextAttemptAt: null, error: null };
+      } else {
+        const gone = responseStatus !== null && !isRetryableStatus(responseStatus);
+        const nextAttemptAt = gone ? null : getNextAttemptAt(attempts, now);
+        changes = {
+          status: nextAttemptAt ? 'pending' : 'failed',
+          nextAttemptAt: nextAttemptAt?.toISOString() || null,
+          error
+        };
+        if (gone) {
+          // 410 Gone: the receiver has removed this endpoint
+          await endpointsCollection().doc(delivery.endpointId).update({ active: false, updatedAt: now.toISOString() });
+        }
+      }
+      changes.responseStatus = responseStatus;
+    }
+
+    changes.attempts = attempts;
+    changes.lastAttemptAt = now.toISOString();
+    await deliveryRef.update(changes);
+    return { ...delivery, ...changes };
+  }
+
+  /**
+   * Retry pending deliveries that are due and delete old ones
+   */
+  static async retryDueDeliveries(now: Date = new Date()): Promise<WebhookRetryResult> {
+    const result: WebhookRetryResult = { retried: 0, succeeded: 0, failed: 0, deleted: 0 };
+    const startedAt = Date.now();
+
+    // nextAttemptAt is null once a delivery succeeds or fails for good
+    const due = await deliveriesCollection()
+      .where('nextAttemptAt', '<=', now.toISOString())
+      .orderBy('nextAttemptAt')
+      .limit(MAX_RETRIES_PER_RUN)
+      .get();
+
+    for (const doc of due.docs) {
+      // Whatever is left stays due for the next run
+      if (Date.now() - startedAt > RETRY_TIME_BUDGET_MS) break;
+
+      try {
+        const delivery = await this.attemptDelivery(doc.id);
+        result.retried++;
+        if (delivery?.status === 'succeeded') result.succeeded++;
+        if (delivery?.status === 'failed') result.failed++;
+      } catch (error) {
+        console.error(`[Webhooks] Retry of delivery ${doc.id} failed:`, error);
+        result.failed++;
+      }
+    }
+
+    const cutoff = new Date(now.getTime() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const old = await deliveriesCollection().where('createdAt', '<', cutoff.toISOString()).limit(500).get();
+    if (!old.empty) {
+      const batch = getFirebaseAdmin().firestore().batch();
+      old.docs.forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+      result.deleted = old.size;
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Server-side Page Access Service for WeWrite
+ *
+ * Whether a user may read a page, for server code that hands out a page's
+ * title or content without going through the page route - forks, search
+ * operators, saved search matches. Authors can always read their pages.
+ * Nobody else can read deleted, non-public or moderator-hidden pages, and pages in a private
+ * group or with encrypted content are limited to the group's members.
+ *
+ * This file should ONLY be imported in API routes and server components.
+ */
+
+import { getFirebaseAdmin } from '../firebase/firebaseAdmin';
+import { getCollectionName } from '../utils/environmentConfig';
+import { parseEncryptedContent } from '../lib/crypto/contentEncryption';
+
+type PageData = Record<string, any>;
+
+function needsGroupMembership(page: PageData, group: PageData | undefined): boolean {
+  return !group ||
+    group.deleted === true ||
+    group.visibility === 'private' ||
+    page.visibility === 'private' ||
+    page.encrypted === true ||
+    !!parseEncryptedContent(page.content);
+}
+
+/**
+ * Whether the viewer may read the page, or null when that depends on the
+ * page's group
+ */
+function canReadWithoutGroup(viewerId: string | null, page: PageData | null | undefined): boolean | null {
+  if (!page || page.deleted === true) return false;
+  if (viewerId && page.userId === viewerId) return true;
+  if (page.isPublic === false || page.moderationHidden === true) return false;
+  if (!page.groupId) return true;
+  return null;
+}
+
+function canReadInGroup(viewerId: string | null, page: PageData, group: PageData | undefined): boolean {
+  if (!needsGroupMembership(page, group)) return true;
+  return !!viewerId && (group?.memberIds || []).includes(viewerId);
+}
+
+export class PageAccessService {
+  /**
+   * Whether the viewer may read the page (null viewer: signed out)
+   */
+  static async canRead(viewerId: string | null, page: PageData | null | undefined): Promise<boolean> {
+    const readable = canReadWithoutGroup(viewerId, page);
+    if (readable !== null) return readable;
+
+    const groupDoc = await getFirebaseAdmin().firestore()
+      .collection(getCollectionName('groups'))
+      .doc(page!.groupId)
+      .get();
+    return canReadInGroup(viewerId, page!, groupDoc.data());
+  }
+
+  /**
+   * The pages the viewer may read, in the given order. Like canRead, with
+   * the pages' groups read in one batch.
+   */
+  static async filterReadable<T extends { data: PageData }>(viewerId: string | null, pages: T[]): Promise<T[]> {
+    const undecided = pages.filter(page => canReadWithoutGroup(viewerId, page.data) === null);
+    const groupIds = [...new Set(undecided.map(page => page.data.groupId as string))];
+
+    const groups = new Map<string, PageData | undefined>();
+    if (groupIds.length > 0) {
+      const db = getFirebaseAdmin().firestore();
+      const groupsRef = db.collection(getCollectionName('groups'));
+      const groupDocs = await db.getAll(...groupIds.map(id => groupsRef.doc(id)));
+      groupDocs.forEach(doc => groups.set(doc.id, doc.data()));
+    }
+
+    return pages.filter(page => {
+      const readable = canReadWithoutGroup(viewerId, page.data);
+      return readable ?? canReadInGroup(viewerId, page.data, groups.get(page.data.groupId));
+    });
+  }
+
+  /**
+   * The page's data if it exists and the viewer may read it
+   */
+  static async getReadablePage(viewerId: string | null, pageId: string): Promise<PageData | null> {
+    const pageDoc = await getFirebaseAdmin().firestore()
+      .collection(getCollectionName('pages'))
+      .doc(pageId)
+      .get();
+    const page = pageDoc.data();
+    return await PageAccessService.canRead(viewerId, page) ? page! : null;
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Server-side Page Annotation Service for WeWrite
+ *
+ * Stores margin comments on page text (see utils/pageAnnotations) and keeps
+ * them pinned to their passage as the page changes: each annotation records
+ * the version its anchor was mapped onto, and when the page has moved on it
+ * is carried across the edit between that version and the current one.
+ * Comments notify the page owner, and resolving someone's comment notifies
+ * them.
+ *
+ * This file should ONLY be imported in API routes and server components.
+ */
+
+import { getFirebaseAdmin } from '../firebase/firebaseAdmin';
+import { getCollectionName, COLLECTIONS } from '../utils/environmentConfig';
+import { MAX_ANNOTATIONS_PER_PAGE, type PageAnnotationInput } from '../utils/pageAnnotations';
+import { findTextAnchor, reanchorText } from '../utils/textAnchors';
+import { UserBlockService } from './userBlockService';
+import { PageAccessService } from './pageAccessService';
+import type { PageAnnotation, PageAnnotationStatus } from '../types/database';
+
+export class PageAnnotationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PageAnnotationError';
+  }
+}
+
+interface AnnotatedPage {
+  id: string;
+  data: FirebaseFirestore.DocumentData;
+  /** The page owner, or a member of the page's group */
+  canResolve: boolean;
+}
+
+function annotationsCollection() {
+  return getFirebaseAdmin().firestore().collection(getCollectionName(COLLECTIONS.PAGE_ANNOTATIONS));
+}
+
+/**
+ * The page if the viewer may read it, with whether they may resolve comments on it
+ */
+async function getAnnotatedPage(pageId: string, viewerId: string | null): Promise<AnnotatedPage | null> {
+  const db = getFirebaseAdmin().firestore();
+  const pageDoc = await db.collection(getCollectionName('pages')).doc(pageId).get();
+  const data = pageDoc.data();
+  if (!data || data.isDeleted === true) return null;
+  if (!await PageAccessService.canRead(viewerId, data)) return null;
+
+  let canResolve = !!viewerId && data.userId === viewerId;
+  if (!canResolve && viewerId && data.groupId) {
+    const groupDoc = await db.collection(getCollectionName(COLLECTIONS.GROUPS)).doc(data.groupId).get();
+    canResolve = (groupDoc.data()?.memberIds || []).includes(viewerId);
+  }
+  return { id: pageDoc.id, data, canResolve };
+}
+
+/**
+ * Carry annotations anchored to older versions onto the page's current
+ * content. Nothing is saved here: reads recompute the anchors, and a comment
+ * keeps its new anchor the next time it is written (see setStatus).
+ */
+async function reanchorAnnotations(page: AnnotatedPage, annotations: PageAnnotation[]): Promise<PageAnnotation[]> {
+  const currentVersion: string | null = page.data.currentVersion || null;
+  const stale = annotations.filter(annotation => !annotation.orphaned && annotation.anchorVersionId !== currentVersion);
+  if (stale.length === 0 || page.data.encrypted) return annotations;
+
+  const db = getFirebaseAdmin().firestore();
+  const versionsRef = db.collection(getCollectionName('pages')).doc(page.id).collection('versions');
+  const versionContent = new Map<string, unknown>();
+  for (const versionId of new Set(stale.map(annotation => annotation.anchorVersionId).filter(Boolean) as string[])) {
+    const versionDoc = await versionsRef.doc(versionId).get();
+    versionContent.set(versionId, versionDoc.data()?.content ?? null);
+  }
+
+  const updated = new Map<string, PageAnnotation>();
+  for (const annotation of stale) {
+    const oldContent = annotation.anchorVersionId ? versionContent.get(annotation.anchorVersionId) : null;
+    const anchor = reanchorText(oldContent, page.data.content, annotation.anchor);
+    updated.set(annotation.id, anchor
+      ? { ...annotation, anchor, anchorVersionId: currentVersion }
+      : { ...annotation, orphaned: true, anchorVersionId: currentVersion });
+  }
+
+  return annotations.map(annotation => updated.get(annotation.id) || annotation);
+}
+
+/**
+ * Add an in-app notification, unless the user turned page_annotation
+ * notifications off
+ */
+async function notify(userId: string, notification: { title: string; message: string; pageId: string; pageTitle: string; annotationId: string; sourceUserId: string }) {
+  const admin = getFirebaseAdmin();
+  const db = admin.firestore();
+
+  const preferencesDoc = await db.collection(getCollectionName(COLLECTIONS.USER_PREFERENCES)).doc(userId).get();
+  if (preferencesDoc.data()?.notificationPreferences?.page_annotation?.inApp === false) return;
+
+  const userRef = db.collection(getCollectionName('users')).doc(userId);
+  const batch = db.batch();
+  batch.set(userRef.collection(getCollectionName('notifications')).doc(), {
+    userId,
+    type: 'page_annotation',
+    title: notification.title,
+    message: notification.message,
+    sourceUserId: notification.sourceUserId,
+    targetPageId: notification.pageId,
+    targetPageTitle: notification.pageTitle,
+    actionUrl: `/${notification.pageId}`,
+    metadata: { annotationId: notification.annotationId },
+    read: false,
+    criticality: 'normal',
+    createdAt: admin.firestore.FieldValue.serverTimestamp()
+  });
+  batch.update(userRef, {
+    unreadNotificationsCount: admin.firestore.FieldValue.increment(1)
+  });
+  await batch.commit();
+}
+
+export class PageAnnotationService {
+  /**
+   * A page's comments, resolved ones included, anchored to its current
+   * content. Null when the page doesn't exist or the viewer can't read it.
+   */
+  static async listAnnotations(pageId: string, viewerId: string | null): Promise<{ annotations: PageAnnotation[]; canResolve: boolean } | null> {
+    const page = await getAnnotatedPage(pageId, viewerId);
+    if (!page) return null;
+
+    const [snapshot, hiddenAuthorIds] = await Promise.all([
+      annotationsCollection().where('pageId', '==', pageId).limit(MAX_ANNOTATIONS_PER_PAGE).get(),
+      UserBlockService.getHiddenAuthorIds(viewerId)
+    ]);
+    const annotations = await reanchorAnnotations(
+      page,
+      snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as PageAnnotation)
+    );
+
+    return {
+      annotations: annotations
+        .filter(annotation => !hiddenAuthorIds.has(annotation.userId))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+      canResolve: page.canResolve
+    };
+  }
+
+  static async createAnnotation(pageId: string, userId: string, input: PageAnnotationInput): Promise<PageAnnotation | null> {
+    const page = await getAnnotatedPage(pageId, userId);
+    if (!page) return null;
+
+    if (page.data.encrypted) {
+      throw new PageAnnotationError('Comments aren\'t available on encrypted pages');
+    }
+    if (page.data.userId && await UserBlockService.hasBlocked(page.data.userId, userId)) {
+      throw new PageAnnotationError('You cannot comment on this page');
+    }
+
+    const anchor = findTextAnchor(page.data.content, input.text, input.blockIndex);
+    if (!anchor) {
+      throw new PageAnnotationError('The selected text is no longer on the page');
+    }
+
+    const existing = await annotationsCollection().where('pageId', '==', pageId).count().get();
+    if (existing.data().count >= MAX_ANNOTATIONS_PER_PAGE) {
+      throw new PageAnnotationError(`Pages can have at most ${MAX_ANNOTATIONS_PER_PAGE} comments`);
+    }
+
+    const db = getFirebaseAdmin().firestore();
+    const userDoc = await db.collection(getCollectionName('users')).doc(userId).get();
+    const username = userDoc.data()?.username || 'Anonymous';
+
+    const now = new Date().toISOString();
+    const ref = annotationsCollection().doc();
+    const annotation: PageAnnotation = {
+      id: ref.id,
+      pageId,
+      userId,
+      username,
+      body: input.body.trim(),
+      anchor,
+      anchorVersionId: page.data.currentVersion || null,
+      orphaned: false,
+      status: 'open',
+      resolvedBy: null,
+      resolvedAt: null,
+      createdAt: now,
+      updatedAt: now
+    };
+    await ref.set(annotation);
+
+    if (page.data.userId && page.data.userId !== userId) {
+      notify(page.data.userId, {
+        title: `${username} commented on ${page.data.title || 'your page'}`,
+        message: annotation.body,
+        pageId,
+        pageTitle: page.data.title || 'Untitled',
+        annotationId: annotation.id,
+        sourceUserId: userId
+      }).catch(error => console.error('Failed to send page annotation notification:', error));
+    }
+
+    return annotation;
+  }
+
+  /**
+   * Resolve or reopen a comment. Only the page owner, or a member of the
+   * page's group, may.
+   */
+  static async setStatus(pageId: string, annotationId: string, userId: string, status: PageAnnotationStatus): Promise<PageAnnotation | null> {
+    const page = await getAnnotatedPage(pageId, userId);
+    const doc = await annotationsCollection().doc(annotationId).get();
+    const annotation = doc.exists ? { ...doc.data(), id: doc.id } as PageAnnotation : null;
+    if (!page || !annotation || annotation.pageId !== pageId) return null;
+
+    if (!page.canResolve) {
+      throw new PageAnnotationError('Only the page owner or group members can resolve comments');
+    }
+
+    const [reanchored] = await reanchorAnnotations(page, [annotation]);
+    const now = new Date().toISOString();
+    const changes: Partial<PageAnnotation> = {
+      anchor: reanchored.anchor,
+      anchorVersionId: reanchored.anchorVersionId,
+      orphaned: reanchored.orphaned,
+      ...(status === 'resolved'
+        ? { status, resolvedBy: userId, resolvedAt: now, updatedAt: now }
+        : { status, resolvedBy: null, resolvedAt: null, updatedAt: now })
+    };
+    await doc.ref.update(changes);
+
+    if (status === 'resolved' && annotation.status !== 'resolved' && annotation.userId !== userId) {
+      notify(annotation.userId, {
+        title: `Your comment on ${page.data.title || 'a page'} was resolved`,
+        message: annotation.body,
+        pageId,
+        pageTitle: page.data.title || 'Untitled',
+        annotationId,
+        sourceUserId: userId
+      }).catch(error => console.error('Failed to send page annotation notification:', error));
+    }
+
+    return { ...annotation, ...changes };
+  }
+
+  /**
+   * Delete a comment. Its author and the page owner may.
+   */
+  static async deleteAnnotation(pageId: string, annotationId: string, userId: string): Promise<boolean> {
+    const page = await getAnnotatedPage(pageId, userId);
+    const doc = await annotationsCollection().doc(annotationId).get();
+    const annotation = doc.data();
+    if (!page || !annotation || annotation.pageId !== pageId) return false;
+
+    if (annotation.userId !== userId && page.data.userId !== userId) {
+      throw new PageAnnotationError('Only the comment\'s author or the page owner can delete it');
+    }
+
+    await doc.ref.delete();
+    return true;
+  }
+}
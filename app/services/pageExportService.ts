@@ -0,0 +1,229 @@
+/**
+ * Server-side Page Export Service for WeWrite
+ *
+ * Builds downloadable copies of a single page, every page in a group, or a
+ * whole account as Markdown or HTML. Groups and accounts come as a zip with
+ * an index; account exports also include each page's version history and
+ * the profile, for backups and data-portability requests.
+ *
+ * This file should ONLY be imported in API routes and server components.
+ */
+
+import { getFirebaseAdmin } from '../firebase/firebaseAdmin';
+import { getCollectionName } from '../utils/environmentConfig';
+import { parseEncryptedContent } from '../lib/crypto/contentEncryption';
+import {
+  buildExportIndex,
+  getExportExtension,
+  getExportFileNames,
+  pageToExportFormat,
+  slugifyTitle,
+  type ExportFormat,
+  type ExportPage,
+} from '../utils/markdownExport';
+import { createZipArchive, type ZipEntry } from '../utils/zipArchive';
+
+export class PageExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PageExportError';
+  }
+}
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  body: string | Uint8Array<ArrayBuffer>;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  markdown: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+const ZIP_CONTENT_TYPE = 'application/zip';
+
+function toIsoString(value: any): string | null {
+  if (!value) return null;
+  if (typeof value === 'string') return value;
+  if (typeof value.toDate === 'function') return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  return null;
+}
+
+function toExportPage(id: string, data: Record<string, any>): ExportPage {
+  const encrypted = !!parseEncryptedContent(data.content);
+  return {
+    id,
+    title: data.title || 'Untitled',
+    content: encrypted ? null : data.content,
+    userId: data.userId,
+    username: data.username || undefined,
+    groupId: data.groupId || null,
+    replyTo: data.replyTo || null,
+    createdAt: toIsoString(data.createdAt),
+    lastModified: toIsoString(data.lastModified),
+    encrypted,
+  };
+}
+
+function getDateStamp(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Zip entries for a folder of pages that link to each other, plus an index
+ */
+function buildPageEntries(pages: ExportPage[], format: ExportFormat, folder: string, indexTitle: string): ZipEntry[] {
+  const fileNames = getExportFileNames(pages, format);
+  const extension = getExportExtension(format);
+
+  return [
+    {
+      path: `${folder}/index.${extension}`,
+      data: buildExportIndex(indexTitle, pages, fileNames, format),
+    },
+    ...pages.map(page => ({
+      path: `${folder}/${fileNames[page.id]}`,
+      data: pageToExportFormat(page, format, { fileNames }),
+      modifiedAt: page.lastModified ? new Date(page.lastModified) : undefined,
+    })),
+  ];
+}
+
+export class PageExportService {
+
+  /**
+   * One page as a Markdown or HTML file. Hidden pages and pages in private
+   * groups are only exported for their author or the group's members.
+   */
+  static async exportPage(pageId: string, viewerId: string | null, format: ExportFormat): Promise<ExportFile> {
+    const db = getFirebaseAdmin().firestore();
+    const pageDoc = await db.collection(getCollectionName('pages')).doc(pageId).get();
+    const data = pageDoc.data();
+    if (!pageDoc.exists || !data || data.deleted) {
+      throw new PageExportError('Page not found');
+    }
+
+    const isOwner = !!viewerId && data.userId === viewerId;
+    if (!isOwner && data.isPublic === false) {
+      throw new PageExportError('Page not found');
+    }
+
+    if (data.groupId && !isOwner) {
+      const groupDoc = await db.collection(getCollectionName('groups')).doc(data.groupId).get();
+      const group = groupDoc.data();
+      if (group?.visibility === 'private' && (!viewerId || !group.memberIds?.includes(viewerId))) {
+        throw new PageExportError('Page not found');
+      }
+    }
+
+    const page = toExportPage(pageDoc.id, data);
+    const fileNames = getExportFileNames([page], format);
+    return {
+      fileName: fileNames[page.id],
+      contentType: CONTENT_TYPES[format],
+      body: pageToExportFormat(page, format, { fileNames }),
+    };
+  }
+
+  /**
+   * Every page in a group as a zip. Private groups can only be exported by
+   * their members.
+   */
+  static async exportGroup(groupId: string, viewerId: string | null, format: ExportFormat): Promise<ExportFile> {
+    const db = getFirebaseAdmin().firestore();
+    const groupDoc = await db.collection(getCollectionName('groups')).doc(groupId).get();
+    const group = groupDoc.data();
+    if (!groupDoc.exists || !group || group.deleted) {
+      throw new PageExportError('Group not found');
+    }
+    if (group.visibility === 'private' && (!viewerId || !group.memberIds?.includes(viewerId))) {
+      throw new PageExportError('Group not found');
+    }
+
+    const pagesSnap = await db.collection(getCollectionName('pages')).where('groupId', '==', groupId).get();
+    const pages = pagesSnap.docs
+      .filter(doc => {
+        const page = doc.data();
+        return page.deleted !== true && (page.isPublic !== false || page.userId === viewerId);
+      })
+      .map(doc => toExportPage(doc.id, doc.data()))
+      .sort((a, b) => (a.title || '').localeCompare(b.title || ''));
+
+    const folder = slugifyTitle(group.name);
+    return {
+      fileName: `${folder}-${getDateStamp()}.zip`,
+      contentType: ZIP_CONTENT_TYPE,
+      body: createZipArchive(buildPageEntries(pages, format, folder, group.name || 'Group')),
+    };
+  }
+
+  /**
+   * Everything a user has written, with the version history of each page
+   * and their profile, as a zip
+   */
+  static async exportAccount(userId: string, format: ExportFormat): Promise<ExportFile> {
+    const db = getFirebaseAdmin().firestore();
+    const userDoc = await db.collection(getCollectionName('users')).doc(userId).get();
+    const user = userDoc.data() || {};
+
+    const pagesSnap = await db.collection(getCollectionName('pages')).where('userId', '==', userId).get();
+    const pageDocs = pagesSnap.docs
+      .filter(doc => doc.data().deleted !== true)
+      .sort((a, b) => (a.data().title || '').localeCompare(b.data().title || ''));
+    const pages = pageDocs.map(doc => toExportPage(doc.id, doc.data()));
+
+    const folder = `wewrite-${slugifyTitle(user.username || userId)}`;
+    const extension = getExportExtension(format);
+    const fileNames = getExportFileNames(pages, format);
+    const entries = buildPageEntries(pages, format, `${folder}/pages`, `Pages by ${user.username || 'you'}`);
+
+    for (const page of pages) {
+      const versionsSnap = await db.collection(getCollectionName('pages')).doc(page.id).collection('versions').get();
+      const pageFolder = fileNames[page.id].slice(0, -(extension.length + 1));
+
+      for (const versionDoc of versionsSnap.docs) {
+        const version = versionDoc.data();
+        if (version.isNoOp) continue;
+
+        const createdAt = toIsoString(version.createdAt);
+        const versionPage: ExportPage = {
+          ...toExportPage(page.id, { ...version, title: version.title || page.title, userId: version.userId }),
+          createdAt,
+          lastModified: createdAt,
+        };
+        const stamp = (createdAt || versionDoc.id).replace(/[:.]/g, '-');
+        entries.push({
+          path: `${folder}/versions/${pageFolder}/${stamp}-${versionDoc.id}.${extension}`,
+          data: pageToExportFormat(versionPage, format),
+          modifiedAt: createdAt ? new Date(createdAt) : undefined,
+        });
+      }
+    }
+
+    const profile = {
+      id: userId,
+      username: user.username || null,
+      email: user.email || null,
+      bio: user.bio || null,
+      createdAt: toIsoString(user.createdAt),
+      exportedAt: new Date().toISOString(),
+      pageCount: pages.length,
+    };
+    entries.push({ path: `${folder}/profile.json`, data: JSON.stringify(profile, null, 2) });
+    entries.push({
+      path: `${folder}/README.md`,
+      data: `# WeWrite export\n\nExported ${profile.exportedAt}.\n\n`
+        + 'Pages are in `pages/`, one file per page, linked to each other by relative links. '
+        + 'Every saved version of each page is in `versions/<page>/`, oldest first by file name. '
+        + 'Your profile is in `profile.json`.\n',
+    });
+
+    return {
+      fileName: `${folder}-${getDateStamp()}.zip`,
+      contentType: ZIP_CONTENT_TYPE,
+      body: createZipArchive(entries),
+    };
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Server-side Page Import Service for WeWrite
+ *
+ * Unpacks uploaded Markdown files and zips (Obsidian vaults, Notion exports)
+ * and builds an import plan against the importer's existing page titles.
+ * Nothing is written here: the plan is the dry-run preview, and the client
+ * creates the pages from it through POST /api/pages.
+ *
+ * This file should ONLY be imported in API routes and server components.
+ */
+
+import { getFirebaseAdmin } from '../firebase/firebaseAdmin';
+import { getCollectionName } from '../utils/environmentConfig';
+import {
+  buildImportPlan,
+  isImportablePath,
+  MAX_IMPORT_PAGES,
+  type ImportCollisionStrategy,
+  type ImportLinkTarget,
+  type ImportPlan,
+  type ImportSourceFile,
+} from '../utils/markdownImport';
+import { readZipArchive, ZipArchiveError } from '../utils/zipArchive';
+
+/** Largest upload accepted, all files together */
+export const MAX_IMPORT_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+/** Most an upload's zips may unpack to, all together */
+const MAX_UNZIPPED_BYTES = 200 * 1024 * 1024;
+
+export class PageImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PageImportError';
+  }
+}
+
+export interface ImportUpload {
+  name: string;
+  data: Uint8Array;
+}
+
+function isZip(name: string): boolean {
+  return name.toLowerCase().endsWith('.zip');
+}
+
+/**
+ * Unpack zips and decode Markdown files. Notion wraps large exports in a
+ * zip of zips, so zips inside an upload are opened too (one level deep).
+ * All the zips share one unpacked size budget, inner ones included.
+ * Other files are listed with no text so the preview can show them as skipped.
+ */
+function readUploads(uploads: ImportUpload[]): ImportSourceFile[] {
+  const files: ImportSourceFile[] = [];
+  let remainingBytes = MAX_UNZIPPED_BYTES;
+
+  const addFile = (path: string, data: Uint8Array) => {
+    files.push({ path, text: isImportablePath(path) ? Buffer.from(data).toString('utf8') : '' });
+  };
+
+  const unzip = (data: Uint8Array) => {
+    const entries = readZipArchive(data, remainingBytes);
+    remainingBytes -= entries.reduce((sum, entry) => sum + entry.data.length, 0);
+    if (remainingBytes < 0) {
+      throw new ZipArchiveError('The zip file is too large to import');
+    }
+    return entries;
+  };
+
+  try {
+    for (const upload of uploads) {
+      if (!isZip(upload.name)) {
+        addFile(upload.name, upload.data);
+        continue;
+      }
+
+      for (const entry of unzip(upload.data)) {
+        if (isZip(entry.path)) {
+          for (const inner of unzip(entry.data)) {
+            addFile(inner.path, inner.data);
+          }
+        } else {
+          addFile(entry.path, entry.data);
+        }
+      }
+    }
+  } catch (error) {
+    if (error instanceof ZipArchiveError) {
+      throw new PageImportError(error.message);
+    }
+    throw error;
+  }
+
+  return files;
+}
+
+export class PageImportService {
+
+  /**
+   * The user's pages by titleLower, the field same-title matches on
+   */
+  static async getExistingPages(userId: string): Promise<Map<string, ImportLinkTarget>> {
+    const snapshot = await getFirebaseAdmin().firestore()
+      .collection(getCollectionName('pages'))
+      .where('userId', '==', userId)
+      .select('title', 'titleLower', 'deleted')
+      .get();
+
+    const pages = new Map<string, ImportLinkTarget>();
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      if (data.deleted === true || !data.title) continue;
+      const key = (data.titleLower || data.title).toLowerCase().trim();
+      if (!pages.has(key)) {
+        pages.set(key, { pageId: doc.id, title: data.title });
+      }
+    }
+    return pages;
+  }
+
+  /**
+   * Dry run: what importing these files would create, with page IDs
+   * reserved so links between them already point at the right pages
+   */
+  static async previewImport(
+    userId: string,
+    uploads: ImportUpload[],
+    strategy: ImportCollisionStrategy
+  ): Promise<ImportPlan> {
+    const uploadSize = uploads.reduce((sum, upload) => sum + upload.data.length, 0);
+    if (uploadSize > MAX_IMPORT_UPLOAD_BYTES) {
+      throw new PageImportError(`Uploads are limited to ${MAX_IMPORT_UPLOAD_BYTES / 1024 / 1024} MB`);
+    }
+
+    const files = readUploads(uploads);
+    if (!files.some(file => isImportablePath(file.path))) {
+      throw new PageImportError('No Markdown files found');
+    }
+
+    const existingPages = await PageImportService.getExistingPages(userId);
+    const pagesRef = getFirebaseAdmin().firestore().collection(getCollectionName('pages'));
+    const plan = buildImportPlan(files, existingPages, strategy, () => pagesRef.doc().id);
+
+    const toCreate = plan.pages.filter(page => page.action !== 'existing').length;
+    if (toCreate > MAX_IMPORT_PAGES) {
+      throw new PageImportError(`An import can create at most ${MAX_IMPORT_PAGES} pages; this one would create ${toCreate}`);
+    }
+
+    return plan;
+  }
+}
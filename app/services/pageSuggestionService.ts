@@ -0,0 +1,441 @@
+/**
+ * Server-side Page Suggestion Service for WeWrite
+ *
+ * Stores suggested edits (see utils/pageSuggestions) under the page they
+ * edit, in pages/{id}/suggestions. Accepting one saves it as a new version
+ * credited to the suggester, merged onto any edits made since it was
+ * suggested, and updates the page's indexes as a normal save would. The page owner hears about new suggestions, and suggesters hear
+ * whether theirs were accepted.
+ *
+ * This file should ONLY be imported in API routes and server components.
+ */
+
+import { getFirebaseAdmin } from '../firebase/firebaseAdmin';
+import { getCollectionName, COLLECTIONS } from '../utils/environmentConfig';
+import { saveNewVersionServer } from '../firebase/database/versions-server';
+import { computeContentDiff } from '../utils/diffEngine';
+import { toBlocks } from '../utils/pageMerge';
+import {
+  MAX_PENDING_SUGGESTIONS_PER_USER,
+  applySuggestion,
+  type PageSuggestionInput
+} from '../utils/pageSuggestions';
+import { UserBlockService } from './userBlockService';
+import { PageAccessService } from './pageAccessService';
+import { parseEncryptedContent } from '../lib/crypto/contentEncryption';
+import type { PageSuggestion, PageSuggestionStatus } from '../types/database';
+
+export class PageSuggestionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PageSuggestionError';
+  }
+}
+
+interface SuggestedPage {
+  id: string;
+  data: FirebaseFirestore.DocumentData;
+  /** The page owner, or a member of the page's group */
+  canReview: boolean;
+}
+
+function pageRef(pageId: string) {
+  return getFirebaseAdmin().firestore().collection(getCollectionName('pages')).doc(pageId);
+}
+
+/**
+ * The page if the viewer may read it, with whether they may review suggestions to it
+ */
+async function getSuggestedPage(pageId: string, viewerId: string | null): Promise<SuggestedPage | null> {
+  const pageDoc = await pageRef(pageId).get();
+  const data = pageDoc.data();
+  if (!data || data.isDeleted === true) return null;
+  if (!await PageAccessService.canRead(viewerId, data)) return null;
+
+  let canReview = !!viewerId && data.userId === viewerId;
+  if (!canReview && viewerId && data.groupId) {
+    const db = getFirebaseAdmin().firestore();
+    const groupDoc = await db.collection(getCollectionName(COLLECTIONS.GROUPS)).doc(data.groupId).get();
+    canReview = (groupDoc.data()?.memberIds || []).includes(viewerId);
+  }
+  return { id: pageDoc.id, data, canReview };
+}
+
+function isEncrypted(page: SuggestedPage): boolean {
+  return page.data.encrypted === true || !!parseEncryptedContent(page.data.content);
+}
+
+/**
+ * The content of a version of the page: the page's own content for its
+ * current version. Null when the version doesn't exist.
+ */
+async function getVersionContent(page: SuggestedPage, versionId: string | null): Promise<any[] | null> {
+  if (!versionId || versionId === page.data.currentVersion) {
+    return toBlocks(page.data.content);
+  }
+  const versionDoc = await pageRef(page.id).collection('versions').doc(versionId).get();
+  return versionDoc.exists ? toBlocks(versionDoc.data()?.content) : null;
+}
+
+/**
+ * Add an in-app notification, unless the user turned page_suggestion
+ * notifications off
+ */
+async function notify(userId: string, notification: { title: string; message: string; actionUrl: string; pageId: string; pageTitle: string; suggestionId: string; sourceUserId: string }) {
+  const admin = getFirebaseAdmin();
+  const db = admin.firestore();
+
+  const preferencesDoc = await db.collection(getCollectionName(COLLECTIONS.USER_PREFERENCES)).doc(userId).get();
+  if (preferencesDoc.data()?.notificationPreferences?.page_suggestion?.inApp === false) return;
+
+  const userRef = db.collection(getCollectionName('users')).doc(userId);
+  const batch = db.batch();
+  batch.set(userRef.collection(getCollectionName('notifications')).doc(), {
+    userId,
+    type: 'page_suggestion',
+    title: notification.title,
+    message: notification.message,
+    sourceUserId: notification.sourceUserId,
+    targetPageId: notification.pageId,
+    targetPageTitle: notification.pageTitle,
+    actionUrl: notification.actionUrl,
+    metadata: { suggestionId: notification.suggestionId },
+    read: false,
+    criticality: 'normal',
+    createdAt: admin.firestore.FieldValue.serverTimestamp()
+  });
+  batch.update(userRef, {
+    unreadNotificationsCount: admin.firestore.FieldValue.increment(1)
+  });
+  await batch.commit();
+}
+
+/**
+ * Save an accepted suggestion as a new version of the page, merged onto any
+ * edits made since it was suggested. The save only goes through if the page
+ * still has the head it was merged against. Returns the new version's ID.
+ */
+async function saveSuggestion(
+  page: SuggestedPage,
+  suggestion: PageSuggestion,
+  reviewerId: string,
+  reviewerUsername: string
+): Promise<string | null> {
+  const baseContent = await getVersionContent(page, suggestion.baseVersionId);
+  const content = baseContent && applySuggestion(baseContent, page.data.content, suggestion.content);
+  if (!content) {
+    throw new PageSuggestionError('The page has since changed in the same places as this suggestion, so it can\'t be applied');
+  }
+
+  const result = await saveNewVersionServer(page.id, {
+    content,
+    userId: suggestion.userId,
+    username: suggestion.username,
+    acceptedSuggestion: {
+      suggestionId: suggestion.id,
+      acceptedBy: reviewerId,
+      acceptedByUsername: reviewerUsername
+    },
+    expectedHead: {
+      currentVersion: page.data.currentVersion || null,
+      content: page.data.content ?? null
+    }
+  });
+  if (result?.conflict) {
+    throw new PageSuggestionError('The page was saved while the suggestion was being applied. Try again.');
+  }
+  if (!result?.success) {
+    throw new Error(result?.error || 'Failed to save the suggested edit');
+  }
+
+  await updatePageIndexes(page, suggestion, content);
+  return result.versionId || null;
+}
+
+/**
+ * What PUT /api/pages does after a content save: refresh the what-links-here
+ * and external links indexes, notify about new links (from the suggester)
+ * and update the page's search entry. Failures are logged, not thrown; the
+ * version is already saved.
+ */
+async function updatePageIndexes(page: SuggestedPage, suggestion: PageSuggestion, content: any[]): Promise<void> {
+  const pageTitle = page.data.title || 'Untitled';
+  const pageUsername = page.data.username || 'Anonymous';
+  const isPublic = page.data.isPublic !== false;
+  const lastModified = new Date().toISOString();
+  const previousContent = toBlocks(page.data.content);
+
+  // Loaded the way the pages API loads them; whatLinksHere is shared with client code
+  const [
+    { updateWhatLinksHereIndex },
+    { updateExternalLinksIndex },
+    { processPageLinksForNotifications },
+    { syncPageToTypesenseServer }
+  ] = await Promise.all([
+    import('../firebase/database/whatLinksHere'),
+    import('./externalLinksIndexService'),
+    import('./linkMentionService'),
+    import('../lib/typesenseSync')
+  ]);
+
+  const results = await Promise.allSettled([
+    updateWhatLinksHereIndex(page.id, pageTitle, pageUsername, content, isPublic, lastModified),
+    updateExternalLinksIndex(page.id, pageTitle, page.data.userId, pageUsername, content, isPublic, lastModified),
+    processPageLinksForNotifications(page.id, pageTitle, suggestion.userId, suggestion.username, content, previousContent),
+    // Pages hidden by a moderator stay out of the search index
+    page.data.moderationHidden === true ? Promise.resolve() : syncPageToTypesenseServer({
+      pageId: page.id,
+      title: pageTitle,
+      content: JSON.stringify(content),
+      authorId: page.data.userId,
+      authorUsername: pageUsername,
+      isPublic,
+      alternativeTitles: page.data.alternativeTitles || [],
+      lastModified,
+      createdAt: page.data.createdAt,
+      groupId: page.data.groupId || undefined,
+      isReply: page.data.isReply,
+      replyTo: page.data.replyTo,
+      location: page.data.location
+    })
+  ]);
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.error(`Failed to update indexes for page ${page.id} after accepting a suggestion:`, result.reason);
+    }
+  }
+}
+
+export class PageSuggestionService {
+  /**
+   * Suggested edits to a page, newest first. Reviewers see everyone's; other
+   * readers see only their own. Null when the page doesn't exist or the viewer
+   * can't read it.
+   */
+  static async listSuggestions(
+    pageId: string,
+    viewerId: string | null,
+    status?: PageSuggestionStatus
+  ): Promise<{ suggestions: PageSuggestion[]; canReview: boolean } | null> {
+    const page = await getSuggestedPage(pageId, viewerId);
+    if (!page) return null;
+    if (!page.canReview && !viewerId) return { suggestions: [], canReview: false };
+
+    let query: FirebaseFirestore.Query = pageRef(pageId).collection('suggestions');
+    if (!page.canReview) query = query.where('userId', '==', viewerId);
+    if (status) query = query.where('status', '==', status);
+
+    const [snapshot, hiddenAuthorIds] = await Promise.all([
+      query.limit(100).get(),
+      UserBlockService.getHiddenAuthorIds(viewerId)
+    ]);
+
+    return {
+      suggestions: snapshot.docs
+        .map(doc => ({ ...doc.data(), id: doc.id }) as PageSuggestion)
+        .filter(suggestion => !hiddenAuthorIds.has(suggestion.userId))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+      canReview: page.canReview
+    };
+  }
+
+  /**
+   * One suggestion with the content it was made against, for showing it as
+   * tracked changes. Null when the viewer may not see it.
+   */
+  static async getSuggestion(
+    pageId: string,
+    suggestionId: string,
+    viewerId: string | null
+  ): Promise<{ suggestion: PageSuggestion; baseContent: any[] | null; canReview: boolean } | null> {
+    const page = await getSuggestedPage(pageId, viewerId);
+    const doc = await pageRef(pageId).collection('suggestions').doc(suggestionId).get();
+    const suggestion = doc.exists ? { ...doc.data(), id: doc.id } as PageSuggestion : null;
+    if (!page || !suggestion) return null;
+    if (!page.canReview && suggestion.userId !== viewerId) return null;
+
+    return {
+      suggestion,
+      baseContent: await getVersionContent(page, suggestion.baseVersionId),
+      canReview: page.canReview
+    };
+  }
+
+  static async createSuggestion(pageId: string, userId: string, input: PageSuggestionInput): Promise<PageSuggestion | null> {
+    const page = await getSuggestedPage(pageId, userId);
+    if (!page) return null;
+
+    if (page.canReview) {
+      throw new PageSuggestionError('You can edit this page directly');
+    }
+    if (isEncrypted(page)) {
+      throw new PageSuggestionError('Suggested edits aren\'t available on encrypted pages');
+    }
+    if (page.data.userId && await UserBlockService.hasBlocked(page.data.userId, userId)) {
+      throw new PageSuggestionError('You cannot suggest edits to this page');
+    }
+
+    const baseVersionId = input.baseVersionId || page.data.currentVersion || null;
+    const baseContent = await getVersionContent(page, baseVersionId);
+    if (!baseContent) {
+      throw new PageSuggestionError('The version you edited no longer exists');
+    }
+
+    const content = toBlocks(input.content);
+    if (JSON.stringify(content) === JSON.stringify(baseContent)) {
+      throw new PageSuggestionError('Your suggestion doesn\'t change the page');
+    }
+
+    const suggestionsRef = pageRef(pageId).collection('suggestions');
+    const pending = await suggestionsRef
+      .where('userId', '==', userId)
+      .where('status', '==', 'pending')
+      .count()
+      .get();
+    if (pending.data().count >= MAX_PENDING_SUGGESTIONS_PER_USER) {
+      throw new PageSuggestionError(`You can have at most ${MAX_PENDING_SUGGESTIONS_PER_USER} suggested edits waiting on a page`);
+    }
+
+    const db = getFirebaseAdmin().firestore();
+    const userDoc = await db.collection(getCollectionName('users')).doc(userId).get();
+    const username = userDoc.data()?.username || 'Anonymous';
+
+    const diff = computeContentDiff(content, baseContent);
+    const now = new Date().toISOString();
+    const ref = suggestionsRef.doc();
+    const suggestion: PageSuggestion = {
+      id: ref.id,
+      pageId,
+      userId,
+      username,
+      content: JSON.stringify(content),
+      note: input.note?.trim() || null,
+      baseVersionId,
+      diff: { added: diff.added, removed: diff.removed },
+      status: 'pending',
+      reviewedBy: null,
+      reviewedAt: null,
+      acceptedVersionId: null,
+      createdAt: now,
+      updatedAt: now
+    };
+    await ref.set(suggestion);
+
+    if (page.data.userId) {
+      notify(page.data.userId, {
+        title: `${username} suggested an edit to ${page.data.title || 'your page'}`,
+        message: suggestion.note || 'Review it to accept or reject the changes',
+        actionUrl: `/${pageId}/suggestions`,
+        pageId,
+        pageTitle: page.data.title || 'Untitled',
+        suggestionId: suggestion.id,
+        sourceUserId: userId
+      }).catch(error => console.error('Failed to send page suggestion notification:', error));
+    }
+
+    return suggestion;
+  }
+
+  /**
+   * Accept or reject a pending suggestion. Only the page owner, or a member
+   * of the page's group, may. The suggestion is claimed first so two reviewers
+   * can't both act on it. Accepting saves the suggestion as a new version
+   * credited to the suggester, only if nobody saved the page in the meantime,
+   * and updates the page's link indexes and search entry like any other save.
+   */
+  static async reviewSuggestion(
+    pageId: string,
+    suggestionId: string,
+    reviewerId: string,
+    status: Exclude<PageSuggestionStatus, 'pending'>
+  ): Promise<PageSuggestion | null> {
+    const page = await getSuggestedPage(pageId, reviewerId);
+    if (!page) return null;
+
+    if (!page.canReview) {
+      throw new PageSuggestionError('Only the page owner or group members can review suggested edits');
+    }
+    if (status === 'accepted' && isEncrypted(page)) {
+      throw new PageSuggestionError('Suggested edits aren\'t available on encrypted pages');
+    }
+
+    const db = getFirebaseAdmin().firestore();
+    const reviewerDoc = await db.collection(getCollectionName('users')).doc(reviewerId).get();
+    const reviewerUsername = reviewerDoc.data()?.username || 'Anonymous';
+    const pageTitle = page.data.title || 'Untitled';
+
+    const suggestionRef = pageRef(pageId).collection('suggestions').doc(suggestionId);
+    const now = new Date().toISOString();
+    const changes: Partial<PageSuggestion> = {
+      status,
+      reviewedBy: reviewerId,
+      reviewedAt: now,
+      acceptedVersionId: null,
+      updatedAt: now
+    };
+
+    const suggestion = await db.runTransaction(async transaction => {
+      const doc = await transaction.get(suggestionRef);
+      if (!doc.exists) return null;
+      const claimed = { ...doc.data(), id: doc.id } as PageSuggestion;
+      if (claimed.status !== 'pending') {
+        throw new PageSuggestionError('This suggestion has already been reviewed');
+      }
+      transaction.update(suggestionRef, changes);
+      return claimed;
+    });
+    if (!suggestion) return null;
+
+    if (status === 'accepted') {
+      try {
+        changes.acceptedVersionId = await saveSuggestion(page, suggestion, reviewerId, reviewerUsername);
+      } catch (error) {
+        // Put the suggestion back so it can be reviewed again
+        await suggestionRef.update({
+          status: 'pending',
+          reviewedBy: null,
+          reviewedAt: null,
+          updatedAt: suggestion.updatedAt
+        });
+        throw error;
+      }
+      await suggestionRef.update({ acceptedVersionId: changes.acceptedVersionId });
+    }
+
+    const acceptedVersionId = changes.acceptedVersionId;
+    if (suggestion.userId !== reviewerId) {
+      notify(suggestion.userId, {
+        title: status === 'accepted'
+          ? `${reviewerUsername} accepted your suggested edit to ${pageTitle}`
+          : `${reviewerUsername} didn't accept your suggested edit to ${pageTitle}`,
+        message: suggestion.note || (status === 'accepted' ? 'It\'s now part of the page\'s history' : 'The page was left as it was'),
+        actionUrl: acceptedVersionId ? `/${pageId}/versions/${acceptedVersionId}` : `/${pageId}/suggestions`,
+        pageId,
+        pageTitle,
+        suggestionId,
+        sourceUserId: reviewerId
+      }).catch(error => console.error('Failed to send page suggestion notification:', error));
+    }
+
+    return { ...suggestion, ...changes };
+  }
+
+  /**
+   * Withdraw a suggestion. Only its author may, while it's pending.
+   */
+  static async withdrawSuggestion(pageId: string, suggestionId: string, userId: string): Promise<boolean> {
+    const doc = await pageRef(pageId).collection('suggestions').doc(suggestionId).get();
+    const suggestion = doc.data();
+    if (!suggestion) return false;
+
+    if (suggestion.userId !== userId) {
+      throw new PageSuggestionError('Only the suggestion\'s author can withdraw it');
+    }
+    if (suggestion.status !== 'pending') {
+      throw new PageSuggestionError('This suggestion has already been reviewed');
+    }
+
+    await doc.ref.delete();
+    return true;
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Server-side Page Template Service for WeWrite
+ *
+ * Stores page templates (see utils/pageTemplates) in the pageTemplates
+ * collection. Authors manage their own templates; who else can see and use
+ * one depends on its visibility. Pages started from a template record it
+ * with credit to its author, and other people's count towards its uses.
+ *
+ * This file should ONLY be imported in API routes and server components.
+ */
+
+import { getFirebaseAdmin } from '../firebase/firebaseAdmin';
+import { getCollectionName, COLLECTIONS } from '../utils/environmentConfig';
+import { canViewTemplate, type PageTemplateInput } from '../utils/pageTemplates';
+import { UserBlockService } from './userBlockService';
+import type { PageTemplate, PageTemplateSource } from '../types/database';
+
+export class PageTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PageTemplateError';
+  }
+}
+
+export type PageTemplateScope = 'mine' | 'groups' | 'public';
+
+// Firestore 'in' queries take at most 30 values
+const GROUP_QUERY_CHUNK_SIZE = 30;
+
+// Public templates are read most used first, a page at a time
+const PUBLIC_TEMPLATES_PAGE_SIZE = 100;
+const MAX_PUBLIC_TEMPLATES = 50;
+
+function templatesCollection() {
+  return getFirebaseAdmin().firestore().collection(getCollectionName(COLLECTIONS.PAGE_TEMPLATES));
+}
+
+/**
+ * Ids of the groups the user belongs to
+ */
+async function getMemberGroupIds(userId: string | null): Promise<string[]> {
+  if (!userId) return [];
+  const snapshot = await getFirebaseAdmin().firestore()
+    .collection(getCollectionName(COLLECTIONS.GROUPS))
+    .where('memberIds', 'array-contains', userId)
+    .get();
+  return snapshot.docs.filter(doc => doc.data().deleted !== true).map(doc => doc.id);
+}
+
+function toTemplate(doc: FirebaseFirestore.DocumentSnapshot): PageTemplate | null {
+  return doc.exists ? { ...doc.data(), id: doc.id } as PageTemplate : null;
+}
+
+/**
+ * The template if the user wrote it
+ */
+async function getOwnTemplate(templateId: string, userId: string): Promise<PageTemplate | null> {
+  const template = toTemplate(await templatesCollection().doc(templateId).get());
+  return template && template.userId === userId ? template : null;
+}
+
+/**
+ * The most used public templates the filter keeps. Reads on past the first
+ * page until enough match, so a search isn't limited to the most used ones.
+ */
+async function listPublicTemplates(isListed: (template: PageTemplate) => boolean): Promise<PageTemplate[]> {
+  const templates: PageTemplate[] = [];
+  let cursor: FirebaseFirestore.QueryDocumentSnapshot | null = null;
+
+  while (templates.length < MAX_PUBLIC_TEMPLATES) {
+    let query = templatesCollection()
+      .where('visibility', '==', 'public')
+      .orderBy('useCount', 'desc')
+      .orderBy('updatedAt', 'desc')
+      .limit(PUBLIC_TEMPLATES_PAGE_SIZE);
+    if (cursor) query = query.startAfter(cursor);
+
+    const snapshot = await query.get();
+    templates.push(...snapshot.docs.map(doc => toTemplate(doc)!).filter(isListed));
+    if (snapshot.size < PUBLIC_TEMPLATES_PAGE_SIZE) break;
+    cursor = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  return templates.slice(0, MAX_PUBLIC_TEMPLATES);
+}
+
+async function checkVisibility(userId: string, input: PageTemplateInput): Promise<void> {
+  if (input.visibility === 'group' && !(await getMemberGroupIds(userId)).includes(input.groupId!)) {
+    throw new PageTemplateError('You can only share templates with groups you belong to');
+  }
+}
+
+export class PageTemplateService {
+  /**
+   * Templates the viewer can use: their own, newest first; those shared
+   * with their groups, newest first; or public ones, most used first.
+   * Public templates can be searched by title and description.
+   */
+  static async listTemplates(viewerId: string | null, scope: PageTemplateScope, search?: string): Promise<PageTemplate[]> {
+    const hiddenAuthorIds = await UserBlockService.getHiddenAuthorIds(viewerId);
+    const query = search?.trim().toLowerCase();
+    const isListed = (template: PageTemplate) =>
+      (template.userId === viewerId || !hiddenAuthorIds.has(template.userId)) &&
+      (!query || `${template.title} ${template.description}`.toLowerCase().includes(query));
+
+    if (scope === 'public') {
+      return listPublicTemplates(isListed);
+    }
+
+    let templates: PageTemplate[] = [];
+    if (scope === 'mine') {
+      if (!viewerId) return [];
+      const snapshot = await templatesCollection().where('userId', '==', viewerId).get();
+      templates = snapshot.docs.map(doc => toTemplate(doc)!);
+    } else {
+      const groupIds = await getMemberGroupIds(viewerId);
+      for (let i = 0; i < groupIds.length; i += GROUP_QUERY_CHUNK_SIZE) {
+        const snapshot = await templatesCollection()
+          .where('groupId', 'in', groupIds.slice(i, i + GROUP_QUERY_CHUNK_SIZE))
+          .get();
+        templates.push(...snapshot.docs.map(doc => toTemplate(doc)!).filter(template => template.visibility === 'group'));
+      }
+    }
+
+    return templates
+      .filter(isListed)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * A template, if the viewer can see it
+   */
+  static async getTemplate(templateId: string, viewerId: string | null): Promise<PageTemplate | null> {
+    const template = toTemplate(await templatesCollection().doc(templateId).get());
+    if (!template) return null;
+
+    const groupIds = template.visibility === 'group' ? await getMemberGroupIds(viewerId) : [];
+    return canViewTemplate(template, viewerId, groupIds) ? template : null;
+  }
+
+  static async createTemplate(userId: string, input: PageTemplateInput): Promise<PageTemplate> {
+    await checkVisibility(userId, input);
+
+    const db = getFirebaseAdmin().firestore();
+    const userDoc = await db.collection(getCollectionName('users')).doc(userId).get();
+    const now = new Date().toISOString();
+    const ref = templatesCollection().doc();
+    const template: PageTemplate = {
+      id: ref.id,
+      userId,
+      username: userDoc.data()?.username || 'Anonymous',
+      title: input.title.trim(),
+      description: input.description.trim(),
+      content: input.content,
+      visibility: input.visibility,
+      groupId: input.visibility === 'group' ? input.groupId : null,
+      useCount: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    await ref.set(template);
+    return template;
+  }
+
+  /**
+   * Change a template. Null unless the user wrote it.
+   */
+  static async updateTemplate(templateId: string, userId: string, input: PageTemplateInput): Promise<PageTemplate | null> {
+    const template = await getOwnTemplate(templateId, userId);
+    if (!template) return null;
+    await checkVisibility(userId, input);
+
+    const updates = {
+      title: input.title.trim(),
+      description: input.description.trim(),
+      content: input.content,
+      visibility: input.visibility,
+      groupId: input.visibility === 'group' ? input.groupId : null,
+      updatedAt: new Date().toISOString()
+    };
+    await templatesCollection().doc(templateId).update(updates);
+    return { ...template, ...updates };
+  }
+
+  /**
+   * Delete a template. Pages made from it keep their credit.
+   */
+  static async deleteTemplate(templateId: string, userId: string): Promise<boolean> {
+    const template = await getOwnTemplate(templateId, userId);
+    if (!template) return false;
+    await templatesCollection().doc(templateId).delete();
+    return true;
+  }
+
+  /**
+   * Record a new page started from a template: the credit the page keeps,
+   * and a use of the template unless it's the author's own. Null when the
+   * template is gone or the user can't use it.
+   */
+  static async recordUse(templateId: string, userId: string): Promise<PageTemplateSource | null> {
+    const template = await PageTemplateService.getTemplate(templateId, userId);
+    if (!template) return null;
+
+    if (template.userId !== userId) {
+      const admin = getFirebaseAdmin();
+      await templatesCollection().doc(templateId).update({
+        useCount: admin.firestore.FieldValue.increment(1)
+      });
+    }
+
+    return {
+      templateId: template.id,
+      title: template.title,
+      userId: template.userId,
+      username: template.username
+    };
+  }
+}
@@ -3,9 +3,13 @@
  *
  * Shared utility for fetching page view data from the pageViews collection.
  * Used by both the trending API and the feed ranking system.
+ *
+ * Also keeps per-reader monthly view tallies (readerMonthlyViews) for supporters
+ * whose carry-over rule sends unallocated funds to the writers they read.
  */
 
 import { getCollectionName } from '../utils/environmentConfig';
+import type { ReaderMonthlyViews } from '../types/allocation';
 
 export interface PageViewData {
   total: number;
@@ -90,3 +94,38 @@ export async function getBatchPageViewData(db: any, pageIds: string[]): Promise<
     return result;
   }
 }
+
+/**
+ * Count a view of another writer's page towards the reader's monthly tally.
+ * Only call this for readers with a carry-over rule switched on.
+ */
+export async function recordReaderPageView(
+  db: any,
+  readerId: string,
+  pageId: string,
+  authorId: string,
+  FieldValue: any
+): Promise<void> {
+  if (!authorId || authorId === readerId) return;
+
+  const month = new Date().toISOString().slice(0, 7);
+  await db.collection(getCollectionName('readerMonthlyViews')).doc(`${readerId}_${month}`).set({
+    userId: readerId,
+    month,
+    pages: {
+      [pageId]: { views: FieldValue.increment(1), authorId }
+    }
+  }, { merge: true });
+}
+
+/**
+ * A reader's page views for one month (YYYY-MM), or null if nothing was tracked.
+ */
+export async function getReaderMonthlyViews(
+  db: any,
+  readerId: string,
+  month: string
+): Promise<ReaderMonthlyViews | null> {
+  const doc = await db.collection(getCollectionName('readerMonthlyViews')).doc(`${readerId}_${month}`).get();
+  return doc.exists ? (doc.data() as ReaderMonthlyViews) : null;
+}
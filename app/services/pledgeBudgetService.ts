@@ -7,11 +7,16 @@
  * - Implementing prioritization logic (smallest pledges first)
  * - Preserving pledge data during subscription changes
  * - Enabling pledge restoration when subscriptions are upgraded
+ *
+ * Recurring pledges follow the same rule: when the budget shrinks the largest
+ * are suspended, and they come back once it covers them again.
  */
 
 // Client-side service for pledge budget validation
 // Server-side operations are handled via API routes
 
+import type { RecurringPledge, RecurringPledgeTargetType } from '../types/allocation';
+
 export interface PledgeItem {
   id: string;
   pageId: string;
@@ -354,4 +359,67 @@ export const restorePledgesFromSuggestions = async (
     console.error('Error restoring pledges from suggestions:', error);
     return { restored: [], skipped: suggestions };
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Get the user's recurring pledges via API
+ */
+export const getRecurringPledges = async (): Promise<RecurringPledge[]> => {
+  try {
+    const response = await fetch('/api/pledges/recurring', { credentials: 'include' });
+    if (!response.ok) {
+      throw new Error('Failed to fetch recurring pledges');
+    }
+
+    const data = await response.json();
+    return data.pledges || [];
+  } catch (error) {
+    console.error('Error getting recurring pledges:', error);
+    return [];
+  }
+};
+
+/**
+ * Create a pledge that renews every month via API.
+ * Returns the pledge, or the reason it was refused.
+ */
+export const createRecurringPledge = async (input: {
+  targetType: RecurringPledgeTargetType;
+  targetId: string;
+  amountType: 'fixed' | 'percentage';
+  usdCents?: number;
+  percent?: number;
+}): Promise<{ pledge?: RecurringPledge; error?: string }> => {
+  try {
+    const response = await fetch('/api/pledges/recurring', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'},
+      credentials: 'include',
+      body: JSON.stringify(input)
+    });
+
+    const data = await response.json();
+    return response.ok ? { pledge: data.pledge } : { error: data.error || 'Failed to create recurring pledge' };
+  } catch (error) {
+    console.error('Error creating recurring pledge:', error);
+    return { error: 'Failed to create recurring pledge' };
+  }
+};
+
+/**
+ * Cancel a recurring pledge via API
+ */
+export const cancelRecurringPledge = async (pledgeId: string): Promise<boolean> => {
+  try {
+    const response = await fetch(`/api/pledges/recurring/${pledgeId}`, {
+      method: 'DELETE',
+      credentials: 'include'
+    });
+
+    return response.ok;
+  } catch (error) {
+    console.error('Error cancelling recurring pledge:', error);
+    return false;
+  }
+};
@@ -0,0 +1,317 @@
+/**
+ * Server-side Public API Service for WeWrite
+ *
+ * The reads behind the versioned /api/v1 REST API: pages, their links and
+ * versions, and search. Responses use the stable shapes described in
+ * publicApiSpec, not the app's internal ones, so the app can keep changing
+ * what it stores. Writes go through the same handlers as the app (see
+ * app/api/v1/apiRequest), so versions, links, search sync and webhooks
+ * behave exactly as they do for edits made in the editor.
+ *
+ * A token sees what its owner would (see PageAccessService): their own
+ * pages, public pages, and private or encrypted group pages in groups they
+ * belong to.
+ *
+ * This file should ONLY be imported in API routes and server components.
+ */
+
+import { getFirebaseAdmin } from '../firebase/firebaseAdmin';
+import { getCollectionName } from '../utils/environmentConfig';
+import { extractLinksFromNodes } from '../firebase/database/links';
+import { parseEncryptedContent } from '../lib/crypto/contentEncryption';
+import { searchPages, isTypesenseConfigured } from '../lib/typesense';
+import {
+  parseSearchQuery,
+  compileTypesenseQuery,
+  compileTypesenseFilter,
+  pageMatchesSearchQuery,
+  type ParsedSearchQuery,
+} from '../utils/searchQueryParser';
+import { parseExportContent } from '../utils/markdownExport';
+import { resolveSearchQueryFilters, toSearchablePage } from './searchQueryResolver';
+import { PageAccessService } from './pageAccessService';
+
+export const DEFAULT_API_PAGE_SIZE = 20;
+
+export const MAX_API_PAGE_SIZE = 100;
+
+/** Longest search query the API accepts */
+const MAX_API_QUERY_LENGTH = 500;
+
+/** Pages scanned per search when Typesense isn't available */
+const FIRESTORE_SCAN_LIMIT = 300;
+
+type Firestore = FirebaseFirestore.Firestore;
+type PageData = Record<string, any>;
+
+export class PublicApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PublicApiError';
+  }
+}
+
+export interface ApiPageSummary {
+  id: string;
+  title: string;
+  userId: string | null;
+  username: string | null;
+  groupId: string | null;
+  isPublic: boolean;
+  createdAt: string | null;
+  lastModified: string | null;
+  /** Send back as baseVersion when updating, to be told about concurrent edits */
+  currentVersion: string | null;
+}
+
+export interface ApiPage extends ApiPageSummary {
+  /** Editor content: an array of paragraph nodes */
+  content: unknown[];
+  /** Group content encrypted end to end, which the API can't read; content is then empty */
+  encrypted: boolean;
+}
+
+export interface ApiPageLink {
+  pageId: string;
+  title: string | null;
+  text: string | null;
+}
+
+export interface ApiPageLinks {
+  outgoing: ApiPageLink[];
+  incoming: ApiPageLink[];
+  external: Array<{ url: string; text: string | null }>;
+}
+
+export interface ApiVersion {
+  id: string;
+  title: string | null;
+  userId: string | null;
+  username: string | null;
+  createdAt: string | null;
+  isNewPage: boolean;
+  added: number;
+  removed: number;
+}
+
+function toIsoString(value: any): string | null {
+  if (!value) return null;
+  if (typeof value === 'string') return value;
+  if (typeof value.toDate === 'function') return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  return null;
+}
+
+/**
+ * Page size from a query parameter: the default when missing, an error
+ * when it isn't a whole number from 1 to MAX_API_PAGE_SIZE
+ */
+export function parseApiLimit(value: string | null): number {
+  if (value === null || value === '') return DEFAULT_API_PAGE_SIZE;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_API_PAGE_SIZE) {
+    throw new PublicApiError(`limit must be a whole number from 1 to ${MAX_API_PAGE_SIZE}`);
+  }
+  return limit;
+}
+
+function toPageSummary(id: string, page: PageData): ApiPageSummary {
+  return {
+    id,
+    title: page.title || 'Untitled',
+    userId: page.userId || null,
+    username: page.username || null,
+    groupId: page.groupId || null,
+    isPublic: page.isPublic !== false,
+    createdAt: toIsoString(page.createdAt),
+    lastModified: toIsoString(page.lastModified),
+    currentVersion: page.currentVersion || null,
+  };
+}
+
+function toPage(id: string, page: PageData): ApiPage {
+  const encrypted = !!parseEncryptedContent(page.content);
+  return {
+    ...toPageSummary(id, page),
+    content: encrypted ? [] : parseExportContent(page.content),
+    encrypted,
+  };
+}
+
+/**
+ * The docs the viewer may read, in the given order
+ */
+async function filterViewable(
+  viewerId: string,
+  docs: FirebaseFirestore.DocumentSnapshot[]
+): Promise<Array<{ id: string; data: PageData }>> {
+  const pages = docs.filter(doc => doc.exists).map(doc => ({ id: doc.id, data: doc.data() as PageData }));
+  return PageAccessService.filterReadable(viewerId, pages);
+}
+
+async function getViewablePage(db: Firestore, viewerId: string, pageId: string): Promise<PageData | null> {
+  const doc = await db.collection(getCollectionName('pages')).doc(pageId).get();
+  const [page] = await filterViewable(viewerId, [doc]);
+  return page?.data ?? null;
+}
+
+/**
+ * Page IDs matching a search from the search index, best match first
+ */
+async function searchWithTypesense(viewerId: string, parsed: ParsedSearchQuery, limit: number): Promise<string[]> {
+  const { filterBy, matchesNothing } = compileTypesenseFilter(parsed);
+  if (matchesNothing) return [];
+
+  const query = compileTypesenseQuery(parsed);
+  const response = await searchPages(query || '*', {
+    filterBy: [`(isPublic:=true || authorId:=${viewerId})`, filterBy].filter(Boolean).join(' && '),
+    // A filter-only search has no relevance to sort by
+    ...(query ? {} : { sortBy: 'lastModified:desc' }),
+    // Room for the results the viewer can't see
+    perPage: Math.min(limit * 2, 250),
+    includeFields: ['id'],
+  });
+  return response.hits.map(hit => hit.document.id);
+}
+
+export class PublicApiService {
+
+  /**
+   * The viewer's own pages, most recently edited first. cursor is the
+   * nextCursor of the previous page of results.
+   */
+  static async listPages(
+    userId: string,
+    options: { limit: number; cursor?: string | null }
+  ): Promise<{ pages: ApiPageSummary[]; nextCursor: string | null }> {
+    const db = getFirebaseAdmin().firestore();
+    let query = db.collection(getCollectionName('pages'))
+      .where('userId', '==', userId)
+      .where('deleted', '==', false)
+      .orderBy('lastModified', 'desc');
+    if (options.cursor) {
+      query = query.startAfter(options.cursor);
+    }
+
+    const snapshot = await query.limit(options.limit).get();
+    const pages = snapshot.docs.map(doc => toPageSummary(doc.id, doc.data()));
+    const last = snapshot.docs[snapshot.docs.length - 1];
+    return {
+      pages,
+      nextCursor: snapshot.docs.length === options.limit ? last.data().lastModified ?? null : null,
+    };
+  }
+
+  /**
+   * A page with its content, or null if it doesn't exist or the viewer
+   * can't read it
+   */
+  static async getPage(viewerId: string, pageId: string): Promise<ApiPage | null> {
+    const db = getFirebaseAdmin().firestore();
+    const page = await getViewablePage(db, viewerId, pageId);
+    return page ? toPage(pageId, page) : null;
+  }
+
+  /**
+   * Pages this page links to and public pages that link to it
+   */
+  static async getLinks(viewerId: string, pageId: string): Promise<ApiPageLinks | null> {
+    const db = getFirebaseAdmin().firestore();
+    const page = await getViewablePage(db, viewerId, pageId);
+    if (!page) return null;
+
+    const links = parseEncryptedContent(page.content) ? [] : extractLinksFromNodes(parseExportContent(page.content));
+    const seen = new Set<string>();
+    const outgoing: ApiPageLink[] = [];
+    const external: ApiPageLinks['external'] = [];
+    for (const link of links) {
+      if (link.type === 'page' && link.pageId && !seen.has(link.pageId)) {
+        seen.add(link.pageId);
+        outgoing.push({ pageId: link.pageId, title: link.pageTitle || null, text: link.text || null });
+      } else if (link.type === 'external' && link.url) {
+        external.push({ url: link.url, text: link.text || null });
+      }
+    }
+
+    // The what-links-here index only lists public source pages
+    const incomingSnap = await db.collection(getCollectionName('backlinks'))
+      .where('targetPageId', '==', pageId)
+      .where('isPublic', '==', true)
+      .orderBy('lastModified', 'desc')
+      .limit(MAX_API_PAGE_SIZE)
+      .get();
+    const incoming = incomingSnap.docs.map(doc => {
+      const data = doc.data();
+      return {
+        pageId: data.sourcePageId,
+        title: data.sourcePageTitle || data.sourceTitle || null,
+        text: data.linkText || null,
+      };
+    });
+
+    return { outgoing, incoming, external };
+  }
+
+  /**
+   * A page's saved versions, newest first, without their content
+   */
+  static async getVersions(viewerId: string, pageId: string, limit: number): Promise<ApiVersion[] | null> {
+    const db = getFirebaseAdmin().firestore();
+    const page = await getViewablePage(db, viewerId, pageId);
+    if (!page) return null;
+
+    // Sorted in memory, like /api/pages/[id]/versions, so no index is needed
+    const versionsSnap = await db.collection(getCollectionName('pages')).doc(pageId).collection('versions').get();
+    return versionsSnap.docs
+      .filter(doc => !doc.data().isNoOp)
+      .map((doc): ApiVersion => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          title: data.title || null,
+          userId: data.userId || null,
+          username: data.username || null,
+          createdAt: toIsoString(data.createdAt),
+          isNewPage: data.isNewPage === true,
+          added: data.diff?.added || 0,
+          removed: data.diff?.removed || 0,
+        };
+      })
+      .sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''))
+      .slice(0, limit);
+  }
+
+  /**
+   * Pages the viewer can read that match a search, operators included
+   */
+  static async search(viewerId: string, query: string, limit: number): Promise<ApiPageSummary[]> {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      throw new PublicApiError('q is required');
+    }
+    if (trimmed.length > MAX_API_QUERY_LENGTH) {
+      throw new PublicApiError(`Search queries are limited to ${MAX_API_QUERY_LENGTH} characters`);
+    }
+
+    const db = getFirebaseAdmin().firestore();
+    const pagesRef = db.collection(getCollectionName('pages'));
+    const parsed = await resolveSearchQueryFilters(parseSearchQuery(trimmed), viewerId);
+
+    let docs: FirebaseFirestore.DocumentSnapshot[] | null = null;
+    if (isTypesenseConfigured()) {
+      try {
+        const ids = await searchWithTypesense(viewerId, parsed, limit);
+        docs = ids.length > 0 ? await db.getAll(...ids.map(id => pagesRef.doc(id))) : [];
+      } catch (error) {
+        console.warn('[API v1] Typesense search failed, falling back to Firestore', error);
+      }
+    }
+    if (!docs) {
+      const snapshot = await pagesRef.orderBy('lastModified', 'desc').limit(FIRESTORE_SCAN_LIMIT).get();
+      docs = snapshot.docs.filter(doc => pageMatchesSearchQuery(toSearchablePage(doc.id, doc.data()), parsed));
+    }
+
+    const pages = await filterViewable(viewerId, docs);
+    return pages.slice(0, limit).map(page => toPageSummary(page.id, page.data));
+  }
+}
@@ -0,0 +1,314 @@
+/**
+ * Server-side Recurring Pledge Service for WeWrite
+ *
+ * Standing pledges ("$2/month to this page", "10% of my subscription to this
+ * group") are turned into regular usdAllocations at the start of each month by
+ * the create-monthly-earnings cron. Allocations record how much of their
+ * amount came from pledges (recurringUsdCents), so the lazy month rollover in
+ * UsdService only copies the manually allocated part and leaves the rest to
+ * this service.
+ *
+ * When the subscription changes, pledges are suspended or restored with the
+ * same smallest-first rule as pledge budget validation.
+ *
+ * This file should ONLY be imported in API routes and server components.
+ */
+
+import { getFirebaseAdmin } from '../firebase/firebaseAdmin';
+import { getCollectionName, COLLECTIONS, USD_COLLECTIONS } from '../utils/environmentConfig';
+import { getCurrentMonth } from '../utils/usdConstants';
+import { fitRecurringPledges, getGroupPledgeDistribution, MAX_RECURRING_PLEDGES, type RecurringPledgeFit } from '../utils/recurringPledges';
+import { getUserSubscriptionServer } from '../firebase/subscription-server';
+import { UsdService } from './usdService';
+import { distributeAmongMembers } from './groupEarningsService';
+import { AllocationError, ALLOCATION_ERROR_CODES, type RecurringPledge, type RecurringPledgeTargetType } from '../types/allocation';
+
+export interface CreateRecurringPledgeInput {
+  targetType: RecurringPledgeTargetType;
+  targetId: string;
+  amountType: 'fixed' | 'percentage';
+  usdCents?: number;
+  percent?: number;
+}
+
+export interface RecurringPledgeRunResult {
+  month: string;
+  supporters: number;
+  pledgesMaterialized: number;
+  pledgesSuspended: number;
+  pledgesAlreadyMaterialized: number;
+  materializedCents: number;
+}
+
+/**
+ * Subscription budget in cents, and whether pledges can be paid from it
+ */
+async function getSubscriptionBudget(userId: string): Promise<{ budgetCents: number; isActive: boolean }> {
+  const subscription = await getUserSubscriptionServer(userId);
+  const isActive = subscription?.status === 'active' || subscription?.status === 'trialing';
+  return { budgetCents: isActive ? Math.round((subscription?.amount || 0) * 100) : 0, isActive };
+}
+
+export class RecurringPledgeService {
+
+  /**
+   * A supporter's pledges that haven't been cancelled, newest first
+   */
+  static async getPledges(userId: string): Promise<RecurringPledge[]> {
+    const db = getFirebaseAdmin().firestore();
+    const snapshot = await db
+      .collection(getCollectionName(USD_COLLECTIONS.RECURRING_PLEDGES))
+      .where('userId', '==', userId)
+      .where('status', 'in', ['active', 'suspended'])
+      .get();
+
+    return snapshot.docs
+      .map(doc => ({ ...doc.data(), id: doc.id }) as RecurringPledge)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Create a pledge after checking its target. It starts suspended when the
+   * subscription can't cover it, and is first paid at the next month start.
+   */
+  static async createPledge(userId: string, input: CreateRecurringPledgeInput): Promise<RecurringPledge> {
+    const db = getFirebaseAdmin().firestore();
+
+    const existing = await this.getPledges(userId);
+    if (existing.length >= MAX_RECURRING_PLEDGES) {
+      throw new AllocationError(`You can have at most ${MAX_RECURRING_PLEDGES} recurring pledges`, ALLOCATION_ERROR_CODES.INVALID_PLEDGE);
+    }
+    if (existing.some(pledge => pledge.targetType === input.targetType && pledge.targetId === input.targetId)) {
+      throw new AllocationError('You already have a recurring pledge for this', ALLOCATION_ERROR_CODES.INVALID_PLEDGE);
+    }
+
+    const targetTitle = await this.getTargetTitle(userId, input.targetType, input.targetId);
+    const now = new Date().toISOString();
+    const ref = db.collection(getCollectionName(USD_COLLECTIONS.RECURRING_PLEDGES)).doc();
+
+    const pledge: RecurringPledge = {
+      id: ref.id,
+      userId,
+      targetType: input.targetType,
+      targetId: input.targetId,
+      targetTitle,
+      amountType: input.amountType,
+      ...(input.amountType === 'fixed' ? { usdCents: input.usdCents } : { percent: input.percent }),
+      status: 'active',
+      createdAt: now,
+      updatedAt: now
+    };
+    await ref.set(pledge);
+
+    const fits = await this.applySubscriptionBudget(userId);
+    const fit = fits.find(f => f.pledgeId === pledge.id);
+    return fit?.status === 'suspended'
+      ? { ...pledge, status: 'suspended', suspensionReason: fit.suspensionReason }
+      : pledge;
+  }
+
+  /**
+   * Stop a pledge from renewing. Allocations already made this month stay.
+   */
+  static async cancelPledge(userId: string, pledgeId: string): Promise<boolean> {
+    const db = getFirebaseAdmin().firestore();
+    const ref = db.collection(getCollectionName(USD_COLLECTIONS.RECURRING_PLEDGES)).doc(pledgeId);
+    const doc = await ref.get();
+    if (!doc.exists || doc.data()?.userId !== userId) return false;
+
+    await ref.update({ status: 'cancelled', updatedAt: new Date().toISOString() });
+
+    // Cancelling may free up budget for pledges that were suspended
+    await this.applySubscriptionBudget(userId);
+    return true;
+  }
+
+  /**
+   * Re-check a supporter's pledges against their current subscription.
+   * Called from the subscription webhook when the plan or status changes.
+   */
+  static async applySubscriptionBudget(userId: string): Promise<RecurringPledgeFit[]> {
+    const { budgetCents, isActive } = await getSubscriptionBudget(userId);
+    return this.applyBudget(userId, budgetCents, isActive);
+  }
+
+  /**
+   * Re-check a supporter's pledges against what their budget has left after
+   * manual allocations, and store any status changes
+   */
+  static async applyBudget(userId: string, budgetCents: number, isActive: boolean): Promise<RecurringPledgeFit[]> {
+    const db = getFirebaseAdmin().firestore();
+    const pledges = await this.getPledges(userId);
+    const manualAllocatedCents = isActive ? await UsdService.calculateManualAllocatedUsdCents(userId) : 0;
+    const fits = fitRecurringPledges(pledges, budgetCents, isActive, manualAllocatedCents);
+
+    const batch = db.batch();
+    let changes = 0;
+    const now = new Date().toISOString();
+
+    for (const fit of fits) {
+      const pledge = pledges.find(p => p.id === fit.pledgeId)!;
+      if (pledge.status === fit.status && (pledge.suspensionReason || undefined) === fit.suspensionReason) continue;
+
+      const ref = db.collection(getCollectionName(USD_COLLECTIONS.RECURRING_PLEDGES)).doc(pledge.id);
+      batch.update(ref, fit.status === 'suspended'
+        ? { status: 'suspended', suspendedAt: now, suspensionReason: fit.suspensionReason, updatedAt: now }
+        : { status: 'active', suspendedAt: null, suspensionReason: null, updatedAt: now });
+      changes++;
+    }
+
+    if (changes > 0) await batch.commit();
+    return fits;
+  }
+
+  /**
+   * Turn every supporter's active pledges into allocations for the current
+   * month. Each pledge records the month it was paid for, so re-running the
+   * cron skips it.
+   */
+  static async materializeCurrentMonth(
+    correlationId: string,
+    dryRun: boolean = false
+  ): Promise<RecurringPledgeRunResult> {
+    const db = getFirebaseAdmin().firestore();
+    const month = getCurrentMonth();
+
+    const snapshot = await db
+      .collection(getCollectionName(USD_COLLECTIONS.RECURRING_PLEDGES))
+      .where('status', 'in', ['active', 'suspended'])
+      .get();
+
+    const supporterIds = Array.from(new Set(snapshot.docs.map(doc => doc.data().userId as string)));
+    const result: RecurringPledgeRunResult = {
+      month,
+      supporters: supporterIds.length,
+      pledgesMaterialized: 0,
+      pledgesSuspended: 0,
+      pledgesAlreadyMaterialized: 0,
+      materializedCents: 0
+    };
+
+    for (const userId of supporterIds) {
+      try {
+        const { budgetCents, isActive } = await getSubscriptionBudget(userId);
+        const pledges = await this.getPledges(userId);
+        const fits = dryRun
+          ? fitRecurringPledges(pledges, budgetCents, isActive, isActive ? await UsdService.calculateManualAllocatedUsdCents(userId) : 0)
+          : await this.applyBudget(userId, budgetCents, isActive);
+
+        for (const fit of fits) {
+          const pledge = pledges.find(p => p.id === fit.pledgeId)!;
+          if (fit.status === 'suspended') {
+            result.pledgesSuspended++;
+            continue;
+          }
+          if (pledge.lastMaterializedMonth === month) {
+            result.pledgesAlreadyMaterialized++;
+            continue;
+          }
+
+          // A pledge nobody could be paid from (e.g. a group with no other
+          // members) stays unpaid, so it's tried again on the next run
+          const paidCents = dryRun
+            ? await this.getPayableCents(pledge, fit.usdCents)
+            : await this.materializePledge(pledge, fit.usdCents);
+          if (paidCents <= 0) continue;
+
+          if (!dryRun) {
+            await db.collection(getCollectionName(USD_COLLECTIONS.RECURRING_PLEDGES)).doc(pledge.id).update({
+              lastMaterializedMonth: month,
+              updatedAt: new Date().toISOString()
+            });
+          }
+
+          result.pledgesMaterialized++;
+          result.materializedCents += paidCents;
+        }
+      } catch (error) {
+        console.warn(`[RecurringPledgeService] Failed to materialize pledges for ${userId} in ${month} [${correlationId}]:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Add one pledge's monthly amount to the supporter's allocations.
+   * Returns the cents allocated.
+   */
+  private static async materializePledge(pledge: RecurringPledge, usdCents: number): Promise<number> {
+    if (usdCents <= 0) return 0;
+
+    if (pledge.targetType === 'page') {
+      await UsdService.allocateUsdToPage(pledge.userId, pledge.targetId, usdCents, true);
+      return usdCents;
+    }
+
+    if (pledge.targetType === 'user') {
+      await UsdService.allocateUsdToUser(pledge.userId, pledge.targetId, usdCents, true);
+      return usdCents;
+    }
+
+    const shares = await this.getGroupShares(pledge, usdCents);
+    for (const share of shares) {
+      await UsdService.allocateUsdToUser(pledge.userId, share.userId, share.amount, true);
+    }
+    return shares.reduce((sum, share) => sum + share.amount, 0);
+  }
+
+  /**
+   * What materializing a pledge would allocate, without allocating it
+   */
+  private static async getPayableCents(pledge: RecurringPledge, usdCents: number): Promise<number> {
+    if (usdCents <= 0 || pledge.targetType !== 'group') return Math.max(0, usdCents);
+    const shares = await this.getGroupShares(pledge, usdCents);
+    return shares.reduce((sum, share) => sum + share.amount, 0);
+  }
+
+  /**
+   * Split a group pledge among the group's members the same way group page
+   * earnings are split (see groupEarningsService)
+   */
+  private static async getGroupShares(
+    pledge: RecurringPledge,
+    usdCents: number
+  ): Promise<{ userId: string; amount: number }[]> {
+    const db = getFirebaseAdmin().firestore();
+    const groupDoc = await db.collection(getCollectionName(COLLECTIONS.GROUPS)).doc(pledge.targetId).get();
+    const group = groupDoc.data();
+    if (!group || group.deleted) {
+      throw new Error(`Group ${pledge.targetId} no longer exists`);
+    }
+    const distribution = getGroupPledgeDistribution(group.memberIds || [], pledge.userId, group.fundDistribution);
+    return distributeAmongMembers(usdCents, distribution);
+  }
+
+  /**
+   * Check a pledge target exists and return its display name
+   */
+  private static async getTargetTitle(
+    userId: string,
+    targetType: RecurringPledgeTargetType,
+    targetId: string
+  ): Promise<string> {
+    const db = getFirebaseAdmin().firestore();
+
+    if (targetType === 'page') {
+      const data = (await db.collection(getCollectionName(COLLECTIONS.PAGES)).doc(targetId).get()).data();
+      if (!data || data.deleted) throw new AllocationError('Page not found', ALLOCATION_ERROR_CODES.PAGE_NOT_FOUND);
+      if (data.userId === userId) throw new AllocationError('Cannot pledge to your own page', ALLOCATION_ERROR_CODES.INVALID_PLEDGE);
+      return data.title || 'Untitled';
+    }
+
+    if (targetType === 'user') {
+      if (targetId === userId) throw new AllocationError('Cannot pledge to yourself', ALLOCATION_ERROR_CODES.INVALID_PLEDGE);
+      const data = (await db.collection(getCollectionName(COLLECTIONS.USERS)).doc(targetId).get()).data();
+      if (!data) throw new AllocationError('User not found', ALLOCATION_ERROR_CODES.INVALID_PLEDGE);
+      return data.username || 'Unknown';
+    }
+
+    const data = (await db.collection(getCollectionName(COLLECTIONS.GROUPS)).doc(targetId).get()).data();
+    if (!data || data.deleted) throw new AllocationError('Group not found', ALLOCATION_ERROR_CODES.INVALID_PLEDGE);
+    return data.name || 'Untitled group';
+  }
+}
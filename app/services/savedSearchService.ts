@@ -0,0 +1,355 @@
+/**
+ * Server-side Saved Search Service for WeWrite
+ *
+ * Users can save any /api/search-unified query, operators included, and hear
+ * about new pages that match it. The saved-searches cron re-runs each search
+ * over pages modified since its last run and sends a saved_search_match
+ * notification; matches can also be held for the weekly digest email.
+ *
+ * This file should ONLY be imported in API routes and server components.
+ */
+
+import { getFirebaseAdmin } from '../firebase/firebaseAdmin';
+import { getCollectionName, COLLECTIONS } from '../utils/environmentConfig';
+import { searchPages, isTypesenseConfigured } from '../lib/typesense';
+import { parseSearchQuery, compileTypesenseQuery, compileTypesenseFilter, type ParsedSearchQuery } from '../utils/searchQueryParser';
+import {
+  MAX_SAVED_SEARCHES,
+  normalizeSavedSearchQuery,
+  pageMatchesSavedSearch,
+  selectNewMatches,
+  rememberSeenPageIds,
+  appendDigestMatches,
+  describeSavedSearchMatches,
+  getSavedSearchUrl,
+} from '../utils/savedSearchMatches';
+import { resolveSearchQueryFilters, toSearchablePage } from './searchQueryResolver';
+import { PageAccessService } from './pageAccessService';
+import type { SavedSearch, SavedSearchMatch } from '../types/database';
+
+/** New pages looked at per search and run */
+const MAX_CANDIDATES_PER_RUN = 50;
+
+/** Pages scanned per search when Typesense isn't available */
+const FIRESTORE_SCAN_LIMIT = 300;
+
+export class SavedSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SavedSearchError';
+  }
+}
+
+export interface SavedSearchInput {
+  query: string;
+  notify?: boolean;
+  includeInDigest?: boolean;
+}
+
+export interface SavedSearchRunResult {
+  searchesChecked: number;
+  searchesWithMatches: number;
+  matchesFound: number;
+  notificationsSent: number;
+  errors: number;
+}
+
+export interface SavedSearchDigestEntry {
+  searchId: string;
+  query: string;
+  url: string;
+  matches: SavedSearchMatch[];
+}
+
+type Candidate = SavedSearchMatch & { authorId?: string };
+
+function savedSearchesCollection() {
+  return getFirebaseAdmin().firestore().collection(getCollectionName(COLLECTIONS.SAVED_SEARCHES));
+}
+
+/**
+ * Pages modified in (since, until] that match the query and the user can read,
+ * from the search index
+ */
+async function findCandidatesWithTypesense(parsed: ParsedSearchQuery, since: Date, until: Date, userId: string): Promise<Candidate[]> {
+  const { filterBy, matchesNothing } = compileTypesenseFilter(parsed);
+  if (matchesNothing) return [];
+
+  const clauses = [
+    `lastModified:>${Math.floor(since.getTime() / 1000)}`,
+    `lastModified:<=${Math.floor(until.getTime() / 1000)}`,
+  ];
+  if (filterBy) clauses.push(filterBy);
+
+  const response = await searchPages(compileTypesenseQuery(parsed) || '*', {
+    filterBy: clauses.join(' && '),
+    perPage: MAX_CANDIDATES_PER_RUN,
+    includeFields: ['id', 'title', 'authorId', 'authorUsername'],
+  });
+
+  // The index doesn't know about groups or encryption, so check each page
+  const candidates: Candidate[] = [];
+  for (const hit of response.hits) {
+    if (!await PageAccessService.getReadablePage(userId, hit.document.id)) continue;
+    candidates.push({
+      pageId: hit.document.id,
+      title: hit.document.title || 'Untitled',
+      username: hit.document.authorUsername || undefined,
+      authorId: hit.document.authorId,
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Pages modified in (since, until] that match the query and the user can read,
+ * checked one by one
+ */
+async function findCandidatesWithFirestore(parsed: ParsedSearchQuery, since: Date, until: Date, userId: string): Promise<Candidate[]> {
+  const db = getFirebaseAdmin().firestore();
+  const snapshot = await db.collection(getCollectionName('pages'))
+    .where('lastModified', '>', since.toISOString())
+    .where('lastModified', '<=', until.toISOString())
+    .orderBy('lastModified', 'desc')
+    .limit(FIRESTORE_SCAN_LIMIT)
+    .get();
+
+  const candidates: Candidate[] = [];
+  for (const doc of snapshot.docs) {
+    const data = doc.data();
+    if (!pageMatchesSavedSearch(toSearchablePage(doc.id, data), parsed)) continue;
+    if (!await PageAccessService.canRead(userId, data)) continue;
+
+    candidates.push({
+      pageId: doc.id,
+      title: data.title || 'Untitled',
+      username: data.username || undefined,
+      authorId: data.userId,
+    });
+    if (candidates.length >= MAX_CANDIDATES_PER_RUN) break;
+  }
+  return candidates;
+}
+
+export class SavedSearchService {
+
+  /**
+   * A user's saved searches, newest first
+   */
+  static async getSearches(userId: string): Promise<SavedSearch[]> {
+    const snapshot = await savedSearchesCollection().where('userId', '==', userId).get();
+    return snapshot.docs
+      .map(doc => ({ ...doc.data(), id: doc.id }) as SavedSearch)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Save a query. Only pages modified from now on are reported.
+   * The query should already have passed getSavedSearchQueryError.
+   */
+  static async createSearch(userId: string, input: SavedSearchInput): Promise<SavedSearch> {
+    const query = normalizeSavedSearchQuery(input.query);
+
+    const existing = await this.getSearches(userId);
+    if (existing.length >= MAX_SAVED_SEARCHES) {
+      throw new SavedSearchError(`You can have at most ${MAX_SAVED_SEARCHES} saved searches`);
+    }
+    if (existing.some(search => search.query.toLowerCase() === query.toLowerCase())) {
+      throw new SavedSearchError('This search is already saved');
+    }
+
+    const now = new Date().toISOString();
+    const ref = savedSearchesCollection().doc();
+    const search: SavedSearch = {
+      id: ref.id,
+      userId,
+      query,
+      notify: input.notify ?? true,
+      includeInDigest: input.includeInDigest ?? false,
+      lastCheckedAt: now,
+      seenPageIds: [],
+      pendingDigestMatches: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    await ref.set(search);
+    return search;
+  }
+
+  /**
+   * Change whether a search notifies or feeds the digest. Turning a paused
+   * search back on starts from now rather than reporting the gap.
+   */
+  static async updateSearch(
+    userId: string,
+    searchId: string,
+    updates: { notify?: boolean; includeInDigest?: boolean }
+  ): Promise<SavedSearch | null> {
+    const ref = savedSearchesCollection().doc(searchId);
+    const doc = await ref.get();
+    if (!doc.exists || doc.data()?.userId !== userId) return null;
+
+    const search = { ...doc.data(), id: doc.id } as SavedSearch;
+    const now = new Date().toISOString();
+    const wasPaused = !search.notify && !search.includeInDigest;
+
+    const changes: Partial<SavedSearch> = { updatedAt: now };
+    if (typeof updates.notify === 'boolean') changes.notify = updates.notify;
+    if (typeof updates.includeInDigest === 'boolean') changes.includeInDigest = updates.includeInDigest;
+    if (changes.includeInDigest === false) changes.pendingDigestMatches = [];
+    if (wasPaused && (changes.notify || changes.includeInDigest)) changes.lastCheckedAt = now;
+
+    await ref.update(changes);
+    return { ...search, ...changes };
+  }
+
+  static async deleteSearch(userId: string, searchId: string): Promise<boolean> {
+    const ref = savedSearchesCollection().doc(searchId);
+    const doc = await ref.get();
+    if (!doc.exists || doc.data()?.userId !== userId) return false;
+
+    await ref.delete();
+    return true;
+  }
+
+  /**
+   * New pages matching a search in (since, until]. Operator names are
+   * resolved on every run so author:following follows the user's follows.
+   */
+  static async findNewMatches(search: SavedSearch, since: Date, until: Date): Promise<SavedSearchMatch[]> {
+    const parsed = await resolveSearchQueryFilters(parseSearchQuery(search.query), search.userId);
+
+    let candidates: Candidate[] | null = null;
+    if (isTypesenseConfigured()) {
+      try {
+        candidates = await findCandidatesWithTypesense(parsed, since, until, search.userId);
+      } catch (error) {
+        console.warn(`[SavedSearches] Typesense search failed for ${search.id}, falling back to Firestore`, error);
+      }
+    }
+    if (!candidates) {
+      candidates = await findCandidatesWithFirestore(parsed, since, until, search.userId);
+    }
+
+    return selectNewMatches(candidates, search.seenPageIds || [], search.userId);
+  }
+
+  /**
+   * Re-run every active saved search over pages modified since its last run
+   */
+  static async runSavedSearches(now: Date = new Date()): Promise<SavedSearchRunResult> {
+    const admin = getFirebaseAdmin();
+    const db = admin.firestore();
+    const snapshot = await savedSearchesCollection().get();
+
+    const result: SavedSearchRunResult = {
+      searchesChecked: 0,
+      searchesWithMatches: 0,
+      matchesFound: 0,
+      notificationsSent: 0,
+      errors: 0
+    };
+
+    const inAppDisabled = new Map<string, boolean>();
+    const isInAppDisabled = async (userId: string): Promise<boolean> => {
+      if (!inAppDisabled.has(userId)) {
+        const preferencesDoc = await db.collection(getCollectionName(COLLECTIONS.USER_PREFERENCES)).doc(userId).get();
+        const preference = preferencesDoc.data()?.notificationPreferences?.saved_search_match;
+        inAppDisabled.set(userId, preference?.inApp === false);
+      }
+      return inAppDisabled.get(userId)!;
+    };
+
+    for (const doc of snapshot.docs) {
+      const search = { ...doc.data(), id: doc.id } as SavedSearch;
+      if (!search.notify && !search.includeInDigest) continue;
+
+      try {
+        result.searchesChecked++;
+        const matches = await this.findNewMatches(search, new Date(search.lastCheckedAt), now);
+
+        const batch = db.batch();
+        const changes: Partial<SavedSearch> = { lastCheckedAt: now.toISOString() };
+
+        if (matches.length > 0) {
+          result.searchesWithMatches++;
+          result.matchesFound += matches.length;
+          changes.seenPageIds = rememberSeenPageIds(search.seenPageIds || [], matches);
+
+          if (search.includeInDigest) {
+            changes.pendingDigestMatches = appendDigestMatches(search.pendingDigestMatches || [], matches);
+          }
+
+          if (search.notify && !(await isInAppDisabled(search.userId))) {
+            const { title, message } = describeSavedSearchMatches(search.query, matches);
+            const userRef = db.collection(getCollectionName('users')).doc(search.userId);
+            const notificationRef = userRef.collection(getCollectionName('notifications')).doc();
+
+            batch.set(notificationRef, {
+              userId: search.userId,
+              type: 'saved_search_match',
+              title,
+              message,
+              actionUrl: getSavedSearchUrl(search.query),
+              metadata: {
+                savedSearchId: search.id,
+                query: search.query,
+                pageIds: matches.map(match => match.pageId)
+              },
+              read: false,
+              criticality: 'normal',
+              createdAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+            batch.update(userRef, {
+              unreadNotificationsCount: admin.firestore.FieldValue.increment(1)
+            });
+            result.notificationsSent++;
+          }
+        }
+
+        batch.update(doc.ref, changes);
+        await batch.commit();
+      } catch (error) {
+        console.error(`[SavedSearches] Error running saved search ${search.id}:`, error);
+        result.errors++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Matches waiting for a user's weekly digest, grouped by search
+   */
+  static async getDigestMatches(userId: string): Promise<SavedSearchDigestEntry[]> {
+    const searches = await this.getSearches(userId);
+    return searches
+      .filter(search => search.includeInDigest && (search.pendingDigestMatches?.length || 0) > 0)
+      .map(search => ({
+        searchId: search.id,
+        query: search.query,
+        url: getSavedSearchUrl(search.query),
+        matches: search.pendingDigestMatches!
+      }));
+  }
+
+  /**
+   * Take matches that have been emailed off their searches' digest queues,
+   * keeping any the cron added since the digest was put together
+   */
+  static async clearDigestMatches(entries: SavedSearchDigestEntry[]): Promise<void> {
+    const db = getFirebaseAdmin().firestore();
+    for (const entry of entries) {
+      const sentPageIds = new Set(entry.matches.map(match => match.pageId));
+      const ref = savedSearchesCollection().doc(entry.searchId);
+      await db.runTransaction(async transaction => {
+        const doc = await transaction.get(ref);
+        if (!doc.exists) return;
+        const pending: SavedSearchMatch[] = doc.data()?.pendingDigestMatches || [];
+        transaction.update(ref, {
+          pendingDigestMatches: pending.filter(match => !sentPageIds.has(match.pageId))
+        });
+      });
+    }
+  }
+}
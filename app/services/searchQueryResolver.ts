@@ -0,0 +1,135 @@
+/**
+ * Search Query Resolver
+ *
+ * Turns the names in search operators (see utils/searchQueryParser) into the
+ * ids the index filters on: usernames into user ids, group names into group
+ * ids, and page titles into page ids. Shared by /api/search-unified and the
+ * saved search job so both read a query the same way.
+ *
+ * `author:me` and `author:following` are relative to the searching user, and
+ * linkedfrom: only reads the links of pages that user may read.
+ *
+ * This file should ONLY be imported in API routes and server components.
+ */
+
+import { getFirebaseAdmin } from '../firebase/firebaseAdmin';
+import { getCollectionName } from '../utils/environmentConfig';
+import { extractPageReferences } from '../firebase/database/links';
+import { extractTextContent } from '../utils/text-extraction';
+import { PageAccessService } from './pageAccessService';
+import type { ParsedSearchQuery, SearchQueryFilter, SearchablePage } from '../utils/searchQueryParser';
+
+/** Cap on ids from author:following, to keep filter_by a sensible size */
+const MAX_FOLLOWING_IDS = 500;
+
+type Firestore = FirebaseFirestore.Firestore;
+
+/**
+ * Normalise a Firestore page for matching search operators against
+ */
+export function toSearchablePage(id: string, data: Record<string, any>): SearchablePage {
+  const createdAt = data.createdAt?.toDate?.() ?? (data.createdAt ? new Date(data.createdAt) : null);
+  return {
+    id,
+    title: data.title || '',
+    text: data.content ? extractTextContent(data.content) : '',
+    authorId: data.userId || '',
+    groupId: data.groupId || null,
+    linksTo: data.content ? extractPageReferences(data.content) : [],
+    createdAt: createdAt && !isNaN(createdAt.getTime()) ? createdAt.getTime() : null,
+    isReply: !!(data.isReply || data.replyTo),
+    hasLocation: !!data.location,
+  };
+}
+
+/**
+ * Page ids for a linksto:/linkedfrom: value - a page id or an exact title
+ */
+async function resolvePageIds(db: Firestore, value: string): Promise<string[]> {
+  const pageDoc = await db.collection(getCollectionName('pages')).doc(value).get();
+  if (pageDoc.exists && !pageDoc.data()?.deleted) return [value];
+
+  const byTitle = await db.collection(getCollectionName('pages'))
+    .where('titleLower', '==', value.toLowerCase().trim())
+    .limit(10)
+    .get();
+  const ids = byTitle.docs.filter(d => !d.data().deleted).map(d => d.id);
+  return ids.length > 0 ? ids : [value];
+}
+
+async function resolveAuthorIds(db: Firestore, value: string, userId: string | null): Promise<string[]> {
+  const username = value.replace(/^@/, '').toLowerCase();
+
+  if (username === 'me' && userId) {
+    return [userId];
+  }
+
+  if (username === 'following' && userId) {
+    const followingDoc = await db.collection(getCollectionName('userFollowing')).doc(userId).get();
+    const following: string[] = followingDoc.exists ? followingDoc.data()?.following || [] : [];
+    return following.slice(0, MAX_FOLLOWING_IDS);
+  }
+
+  const usernameDoc = await db.collection(getCollectionName('usernames')).doc(username).get();
+  const uid = usernameDoc.exists ? usernameDoc.data()?.uid : null;
+  return [uid || value];
+}
+
+async function resolveGroupIds(db: Firestore, value: string): Promise<string[]> {
+  const groupDoc = await db.collection(getCollectionName('groups')).doc(value).get();
+  if (groupDoc.exists) return [value];
+
+  const byName = await db.collection(getCollectionName('groups'))
+    .where('name', '==', value)
+    .limit(5)
+    .get();
+  return byName.empty ? [value] : byName.docs.map(d => d.id);
+}
+
+/**
+ * Pages linked from the named page(s): read the outgoing links of the ones
+ * the searching user can read
+ */
+async function resolveLinkedFromIds(db: Firestore, value: string, userId: string | null): Promise<string[]> {
+  const sourceIds = await resolvePageIds(db, value);
+  const sources = await Promise.all(sourceIds.map(id => PageAccessService.getReadablePage(userId, id)));
+  const linked = sources.flatMap(source => (source?.content ? extractPageReferences(source.content) : []));
+  return [...new Set(linked)];
+}
+
+/**
+ * Resolve the names in author:, group:, linksto: and linkedfrom: to ids.
+ * Unknown names are left as-is, so a value that's already an id still works.
+ */
+export async function resolveSearchQueryFilters(
+  parsed: ParsedSearchQuery,
+  userId: string | null
+): Promise<ParsedSearchQuery> {
+  const admin = getFirebaseAdmin();
+  if (!admin) {
+    return parsed;
+  }
+  const db = admin.firestore();
+
+  const filters = await Promise.all(parsed.filters.map(async (filter): Promise<SearchQueryFilter> => {
+    try {
+      switch (filter.field) {
+        case 'author':
+          return { ...filter, ids: await resolveAuthorIds(db, filter.value, userId) };
+        case 'group':
+          return { ...filter, ids: await resolveGroupIds(db, filter.value) };
+        case 'linksto':
+          return { ...filter, ids: await resolvePageIds(db, filter.value) };
+        case 'linkedfrom':
+          return { ...filter, ids: await resolveLinkedFromIds(db, filter.value, userId) };
+        default:
+          return filter;
+      }
+    } catch (error) {
+      console.warn(`[SearchQueryResolver] Could not resolve ${filter.field}:${filter.value}`, error);
+      return filter;
+    }
+  }));
+
+  return { ...parsed, filters };
+}
@@ -13,6 +13,7 @@ import type { UsdBalance, UsdAllocation } from '../types/database';
 import { getCollectionNameAsync, USD_COLLECTIONS } from '../utils/environmentConfig';
 import { AllocationError, ALLOCATION_ERROR_CODES } from '../types/allocation';
 import { internalApiFetch } from '../utils/internalApi';
+import { OutgoingWebhookService } from './outgoingWebhookService';
 
 /**
  * Generate a deterministic allocation document ID to prevent duplicates.
@@ -37,6 +38,20 @@ function generateAllocationDocId(
   return `${userId}_${resourceType}_${resourceId}_${month}`;
 }
 
+/**
+ * Part of an allocation's new amount that came from recurring pledges. Only
+ * pledge top-ups add to it; lowering the allocation below it lowers it too.
+ */
+function getRecurringUsdCents(
+  existing: FirebaseFirestore.DocumentData | undefined,
+  newUsdCents: number,
+  usdCentsChange: number,
+  fromRecurringPledge: boolean
+): number {
+  const current = existing?.status === 'active' ? existing.recurringUsdCents || 0 : 0;
+  const added = fromRecurringPledge ? Math.max(0, usdCentsChange) : 0;
+  return Math.min(newUsdCents, current + added);
+}
 
 function getDb() {
   return getAdminFirestore();
@@ -226,7 +241,14 @@ export class UsdService {
         }
       }
 
-      const sourceAllocations = (sourceMonth && allocationsByMonth.get(sourceMonth)) || [];
+      // Only the manually allocated part rolls over: the recurring pledge cron
+      // re-adds the pledged part, respecting cancellations and suspensions
+      const sourceAllocations = ((sourceMonth && allocationsByMonth.get(sourceMonth)) || [])
+        .map(({ recurringUsdCents, ...allocation }) => ({
+          ...allocation,
+          usdCents: (allocation.usdCents || 0) - (recurringUsdCents || 0)
+        }))
+        .filter(allocation => allocation.usdCents > 0);
       if (!sourceMonth || sourceAllocations.length === 0) {
         return { copied: false, allocationsCopied: 0, totalUsdCents: 0 };
       }
@@ -584,6 +606,28 @@ export class UsdService {
     }
   }
 
+  /**
+   * Cents the user allocated by hand this month, leaving out the parts their
+   * recurring pledges added
+   */
+  static async calculateManualAllocatedUsdCents(userId: string): Promise<number> {
+    const db = getDb();
+    await this.backfillCurrentMonthAllocations(userId);
+
+    const allocationsSnapshot = await db.collection(await getCollectionNameAsync(USD_COLLECTIONS.USD_ALLOCATIONS))
+      .where('userId', '==', userId)
+      .where('month', '==', getCurrentMonth())
+      .where('status', '==', 'active')
+      .get();
+
+    let manualCents = 0;
+    allocationsSnapshot.forEach(doc => {
+      const allocation = doc.data();
+      manualCents += Math.max(0, (allocation.usdCents || 0) - (allocation.recurringUsdCents || 0));
+    });
+    return manualCents;
+  }
+
   /**
    * Aggregate monthly allocation summary across all users.
    * Used by storage-balance cron to route allocated vs unallocated funds.
@@ -600,6 +644,17 @@ export class UsdService {
     const balancesRef = db.collection(await getCollectionNameAsync(USD_COLLECTIONS.USD_BALANCES));
     const snapshot = await balancesRef.get();
 
+    // Funds supporters' carry-over rules sent to writers are no longer unallocated
+    const carryOverSnapshot = await db
+      .collection(await getCollectionNameAsync(USD_COLLECTIONS.CARRY_OVER_DISTRIBUTIONS))
+      .where('month', '==', month)
+      .get();
+    const carriedOverByUser = new Map<string, number>();
+    carryOverSnapshot.forEach(doc => {
+      const distribution = doc.data();
+      carriedOverByUser.set(distribution.userId, distribution.distributedUsdCents || 0);
+    });
+
     let totalAllocatedCents = 0;
     let totalUnallocatedCents = 0;
     let totalSubscriptionCents = 0;
@@ -618,7 +673,7 @@ export class UsdService {
         : (typeof data.totalUsdCents === 'number' ? data.totalUsdCents : 0);
 
       // Clamp negative values to zero to avoid skew
-      allocatedCents = Math.max(0, allocatedCents);
+      allocatedCents = Math.max(0, allocatedCents) + (carriedOverByUser.get(userId) || 0);
       const unallocatedCents = Math.max(0, monthlyCents - allocatedCents);
 
       totalAllocatedCents += allocatedCents;
@@ -712,8 +767,14 @@ export class UsdService {
 
   /**
    * Allocate USD to a page (server-side)
+   * Set fromRecurringPledge when the change comes from a recurring pledge.
    */
-  static async allocateUsdToPage(userId: string, pageId: string, usdCentsChange: number): Promise<void> {
+  static async allocateUsdToPage(
+    userId: string,
+    pageId: string,
+    usdCentsChange: number,
+    fromRecurringPledge: boolean = false
+  ): Promise<void> {
     const startTime = Date.now();
     const correlationId = `page_alloc_${userId}_${pageId}_${Date.now()}`;
 
@@ -842,6 +903,7 @@ export class UsdService {
       const allocationDocId = generateAllocationDocId(userId, 'page', pageId, currentMonth);
       const allocationDocRef = allocationsRef.doc(allocationDocId);
 
+      const existingDoc = await allocationDocRef.get();
       if (newPageAllocationCents > 0) {
         // Create or update allocation using set with merge
         // This atomically creates the doc if it doesn't exist, or updates if it does
@@ -857,12 +919,12 @@ export class UsdService {
           // Store page details at allocation time for historical record
           pageTitle,
           authorUsername,
+          recurringUsdCents: getRecurringUsdCents(existingDoc.data(), newPageAllocationCents, usdCentsChange, fromRecurringPledge),
           updatedAt: FieldValue.serverTimestamp()
         }, { merge: true });
 
         // Set createdAt only if this is a new document (won't overwrite existing)
         // We do this in a separate operation using merge with a sentinel
-        const existingDoc = await allocationDocRef.get();
         if (!existingDoc.exists) {
           batch.set(allocationDocRef, {
             createdAt: FieldValue.serverTimestamp()
@@ -871,7 +933,6 @@ export class UsdService {
       } else {
         // Cancel allocation if USD amount is 0
         // Check if doc exists first (it might not if user never allocated to this page)
-        const existingDoc = await allocationDocRef.get();
         if (existingDoc.exists && existingDoc.data()?.status === 'active') {
           batch.update(allocationDocRef, {
             status: 'cancelled',
@@ -894,6 +955,15 @@ export class UsdService {
           usdCentsChange: allocationDifference,
           month: currentMonth,
         });
+
+        await OutgoingWebhookService.emit('allocation.received', { userId: recipientUserId }, correlationId, {
+          resourceType: 'page',
+          pageId,
+          pageTitle,
+          usdCents: allocationDifference,
+          monthlyTotalUsdCents: newPageAllocationCents,
+          month: currentMonth,
+        });
       }
     } catch (error) {
       // Re-throw with correlation ID for better tracking
@@ -905,10 +975,17 @@ export class UsdService {
 
   /**
    * Allocate USD to a user (server-side) - Updated for fund holding model
+   * Set fromRecurringPledge when the change comes from a recurring pledge.
    */
-  static async allocateUsdToUser(userId: string, recipientUserId: string, usdCentsChange: number): Promise<void> {
+  static async allocateUsdToUser(
+    userId: string,
+    recipientUserId: string,
+    usdCentsChange: number,
+    fromRecurringPledge: boolean = false
+  ): Promise<void> {
     try {
       const db = getDb();
+      await this.backfillCurrentMonthAllocations(userId);
       const currentMonth = getCurrentMonth();
 
       // Get current USD balance
@@ -964,6 +1041,7 @@ export class UsdService {
       const allocationDocId = generateAllocationDocId(userId, 'user', recipientUserId, currentMonth);
       const allocationDocRef = allocationsRef.doc(allocationDocId);
 
+      const existingDoc = await allocationDocRef.get();
       if (newUserAllocationCents > 0) {
         // Create or update allocation using set with merge
         // The deterministic ID ensures concurrent requests target the same document
@@ -975,11 +1053,11 @@ export class UsdService {
           usdCents: newUserAllocationCents,
           month: currentMonth,
           status: 'active',
+          recurringUsdCents: getRecurringUsdCents(existingDoc.data(), newUserAllocationCents, usdCentsChange, fromRecurringPledge),
           updatedAt: FieldValue.serverTimestamp()
         }, { merge: true });
 
         // Set createdAt only if this is a new document
-        const existingDoc = await allocationDocRef.get();
         if (!existingDoc.exists) {
           batch.set(allocationDocRef, {
             createdAt: FieldValue.serverTimestamp()
@@ -987,7 +1065,6 @@ export class UsdService {
         }
       } else {
         // Cancel allocation if USD amount is 0
-        const existingDoc = await allocationDocRef.get();
         if (existingDoc.exists && existingDoc.data()?.status === 'active') {
           batch.update(allocationDocRef, {
             status: 'cancelled',
@@ -1001,8 +1078,9 @@ export class UsdService {
 
       // Process earnings for the recipient if there's a positive allocation difference
       if (newUserAllocationCents > 0 && allocationDifference > 0) {
+        const correlationId = `user_alloc_${userId}_${recipientUserId}_${Date.now()}`;
         await this.processEarningsWithRecovery({
-          correlationId: `user_alloc_${userId}_${recipientUserId}_${Date.now()}`,
+          correlationId,
           fromUserId: userId,
           recipientUserId,
           resourceId: recipientUserId,
@@ -1010,6 +1088,13 @@ export class UsdService {
           usdCentsChange: allocationDifference,
           month: currentMonth,
         });
+
+        await OutgoingWebhookService.emit('allocation.received', { userId: recipientUserId }, correlationId, {
+          resourceType: 'user',
+          usdCents: allocationDifference,
+          monthlyTotalUsdCents: newUserAllocationCents,
+          month: currentMonth,
+        });
       }
     } catch (error) {
       console.error('UsdService: Error allocating USD to user:', error);
@@ -0,0 +1,143 @@
+/**
+ * Server-side User Block Service for WeWrite
+ *
+ * Stores each user's block and mute lists (see utils/userBlocks) in one
+ * userBlocks document per user, and answers the checks other routes make:
+ * whether someone has blocked the person trying to reach them, and whose
+ * pages a viewer has hidden.
+ *
+ * This file should ONLY be imported in API routes and server components.
+ */
+
+import { getFirebaseAdmin } from '../firebase/firebaseAdmin';
+import { getCollectionName, COLLECTIONS } from '../utils/environmentConfig';
+import {
+  MAX_BLOCKED_USERS,
+  EMPTY_BLOCK_LIST,
+  normalizeBlockList,
+  applyBlockAction,
+  getHiddenAuthorIds,
+} from '../utils/userBlocks';
+import type { UserBlockList, UserBlockAction } from '../types/database';
+
+export class UserBlockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserBlockError';
+  }
+}
+
+function userBlocksDoc(userId: string) {
+  return getFirebaseAdmin().firestore().collection(getCollectionName(COLLECTIONS.USER_BLOCKS)).doc(userId);
+}
+
+/**
+ * Remove a follow in one direction, keeping the follower counts in step
+ */
+async function removeFollow(followerId: string, followedId: string): Promise<void> {
+  const admin = getFirebaseAdmin();
+  const db = admin.firestore();
+
+  const followingRef = db.collection(getCollectionName(COLLECTIONS.USER_FOLLOWING)).doc(followerId);
+  const followingDoc = await followingRef.get();
+  const following: string[] = followingDoc.exists ? followingDoc.data()?.following || [] : [];
+  if (!following.includes(followedId)) return;
+
+  const batch = db.batch();
+  batch.update(followingRef, {
+    following: admin.firestore.FieldValue.arrayRemove(followedId),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp()
+  });
+  batch.set(db.collection(getCollectionName(COLLECTIONS.USER_FOLLOWERS)).doc(followedId), {
+    followers: admin.firestore.FieldValue.arrayRemove(followerId),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp()
+  }, { merge: true });
+  batch.update(db.collection(getCollectionName('users')).doc(followerId), {
+    followingCount: admin.firestore.FieldValue.increment(-1)
+  });
+  batch.update(db.collection(getCollectionName('users')).doc(followedId), {
+    followerCount: admin.firestore.FieldValue.increment(-1)
+  });
+  await batch.commit();
+}
+
+export class UserBlockService {
+
+  static async getBlockList(userId: string): Promise<UserBlockList> {
+    const doc = await userBlocksDoc(userId).get();
+    return doc.exists ? normalizeBlockList(doc.data()) : { ...EMPTY_BLOCK_LIST };
+  }
+
+  /**
+   * Block, unblock, mute or unmute someone. Blocking also ends any follow
+   * between the two users, in both directions.
+   */
+  static async applyAction(userId: string, targetUserId: string, action: UserBlockAction): Promise<UserBlockList> {
+    if (userId === targetUserId) {
+      throw new UserBlockError(`You can't ${action} yourself`);
+    }
+
+    const db = getFirebaseAdmin().firestore();
+    const ref = userBlocksDoc(userId);
+
+    const list = await db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      const current = doc.exists ? normalizeBlockList(doc.data()) : { ...EMPTY_BLOCK_LIST };
+      const updated = applyBlockAction(current, action, targetUserId);
+
+      if (updated.blocked.length > MAX_BLOCKED_USERS || updated.muted.length > MAX_BLOCKED_USERS) {
+        throw new UserBlockError(`You can ${action} at most ${MAX_BLOCKED_USERS} users`);
+      }
+
+      transaction.set(ref, {
+        userId,
+        blocked: updated.blocked,
+        muted: updated.muted,
+        updatedAt: new Date().toISOString()
+      }, { merge: true });
+      return updated;
+    });
+
+    if (action === 'block') {
+      await Promise.all([
+        removeFollow(userId, targetUserId),
+        removeFollow(targetUserId, userId)
+      ]);
+    }
+
+    return list;
+  }
+
+  /**
+   * Whether `userId` has blocked `otherUserId`
+   */
+  static async hasBlocked(userId: string, otherUserId: string): Promise<boolean> {
+    if (!userId || !otherUserId || userId === otherUserId) return false;
+    const list = await this.getBlockList(userId);
+    return list.blocked.includes(otherUserId);
+  }
+
+  /**
+   * Whether `userId` has blocked or muted `otherUserId`, i.e. shouldn't
+   * hear from them
+   */
+  static async hasHidden(userId: string, otherUserId: string): Promise<boolean> {
+    if (!userId || !otherUserId || userId === otherUserId) return false;
+    const list = await this.getBlockList(userId);
+    return list.blocked.includes(otherUserId) || list.muted.includes(otherUserId);
+  }
+
+  /**
+   * Authors a viewer has blocked or muted. Empty for signed-out viewers,
+   * and on errors so a failed lookup never empties a feed.
+   */
+  static async getHiddenAuthorIds(viewerId: string | null): Promise<Set<string>> {
+    if (!viewerId) return new Set();
+    try {
+      return getHiddenAuthorIds(await this.getBlockList(viewerId));
+    } catch (error) {
+      console.warn('[UserBlocks] Could not load block list for', viewerId, error);
+      return new Set();
+    }
+  }
+}
@@ -4,6 +4,11 @@ import { useAuth } from '../../providers/AuthProvider';
 import { useRouter } from 'next/navigation';
 import { useEffect } from 'react';
 import PWAInstallationCard from '../../components/utils/PWAInstallationCard';
+import { ExportDataCard } from '../../components/settings/ExportDataCard';
+import { ImportNotesCard } from '../../components/settings/ImportNotesCard';
+import { WebhooksCard } from '../../components/settings/WebhooksCard';
+import { ApiTokensCard } from '../../components/settings/ApiTokensCard';
+import { DailyNoteTemplatesCard } from '../../components/settings/DailyNoteTemplatesCard';
 
 export default function AdvancedPage() {
   const { user } = useAuth();
@@ -26,6 +31,15 @@ export default function AdvancedPage() {
       <div className="space-y-8">
         {/* PWA Installation */}
         <PWAInstallationCard />
+
+        {/* Data export */}
+        <ExportDataCard />
+
+        {/* Import from Markdown, Obsidian or Notion */}
+        <ImportNotesCard />
+        <DailyNoteTemplatesCard />
+        <WebhooksCard />
+        <ApiTokensCard />
       </div>
     </div>
   );
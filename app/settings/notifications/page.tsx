@@ -9,6 +9,8 @@ import { Switch } from '../../components/ui/switch';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../../components/ui/collapsible';
 import { toast } from '../../components/ui/use-toast';
+import { SavedSearchesCard } from '../../components/search/SavedSearchesCard';
+import { BlockedUsersCard } from '../../components/settings/BlockedUsersCard';
 
 // Notification types that users can configure
 // Grouped by category for better organization
@@ -42,6 +44,27 @@ const NOTIFICATION_TYPES = [
     icon: 'FilePlus' as IconName,
     category: 'social'
   },
+  {
+    id: 'saved_search_match',
+    title: 'Saved Searches',
+    description: 'When new pages match a search you saved',
+    icon: 'Search' as IconName,
+    category: 'social'
+  },
+  {
+    id: 'page_annotation',
+    title: 'Page Comments',
+    description: 'When someone comments on your page, or your comment is resolved',
+    icon: 'MessageSquare' as IconName,
+    category: 'social'
+  },
+  {
+    id: 'page_suggestion',
+    title: 'Suggested Edits',
+    description: 'When someone suggests an edit to your page, or yours is accepted or rejected',
+    icon: 'PenLine' as IconName,
+    category: 'social'
+  },
   // Payout notifications
   {
     id: 'payout_completed',
@@ -480,6 +503,8 @@ export default function NotificationSettingsPage() {
                   />
                 ))}
               </div>
+              {user && <SavedSearchesCard userId={user.uid} />}
+              {user && <BlockedUsersCard />}
             </div>
 
             {/* Payment Notifications */}
@@ -7,12 +7,31 @@ import { useCrypto } from '../../../hooks/useCrypto';
 import { PasscodeSetupModal } from '../../../components/crypto/PasscodeSetupModal';
 import { PasscodeUnlockModal } from '../../../components/crypto/PasscodeUnlockModal';
 import { PasscodeRecoveryModal } from '../../../components/crypto/PasscodeRecoveryModal';
+import { PasscodeChangeModal } from '../../../components/crypto/PasscodeChangeModal';
+import { DevicePairingModal } from '../../../components/crypto/DevicePairingModal';
+import { ApproveDeviceModal } from '../../../components/crypto/ApproveDeviceModal';
+import { ConfirmationModal } from '../../../components/utils/UnifiedModal';
+import { formatRelativeTime } from '../../../utils/formatRelativeTime';
+import type { DeviceSummary } from '../../../contexts/CryptoContext';
 
 export default function EncryptionSettingsPage() {
-  const { hasKeys, isKeyUnlocked, isLoading, lockKeys } = useCrypto();
+  const { hasKeys, isKeyUnlocked, isLoading, lockKeys, devices, isDeviceEnrolled, revokeDevice } = useCrypto();
   const [showSetup, setShowSetup] = useState(false);
   const [showUnlock, setShowUnlock] = useState(false);
   const [showRecovery, setShowRecovery] = useState(false);
+  const [showChangePasscode, setShowChangePasscode] = useState(false);
+  const [showPairing, setShowPairing] = useState(false);
+  const [showApprove, setShowApprove] = useState(false);
+  const [deviceToRevoke, setDeviceToRevoke] = useState<DeviceSummary | null>(null);
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  const handleRevoke = async () => {
+    if (!deviceToRevoke) return;
+    setIsRevoking(true);
+    await revokeDevice(deviceToRevoke.deviceId);
+    setIsRevoking(false);
+    setDeviceToRevoke(null);
+  };
 
   if (isLoading) {
     return (
@@ -89,6 +108,51 @@ export default function EncryptionSettingsPage() {
             </button>
           )}
 
+          {hasKeys && (
+            <button
+              onClick={() => setShowChangePasscode(true)}
+              className="w-full flex items-center gap-3 p-4 border border-border rounded-lg hover:bg-muted/50 transition-colors text-left"
+            >
+              <Icon name="Key" size={18} className="text-muted-foreground" />
+              <div>
+                <h3 className="text-sm font-medium">Change Passcode</h3>
+                <p className="text-xs text-muted-foreground">
+                  Pick a new passcode. Your keys and group access stay the same.
+                </p>
+              </div>
+            </button>
+          )}
+
+          {hasKeys && isKeyUnlocked && (
+            <button
+              onClick={() => setShowApprove(true)}
+              className="w-full flex items-center gap-3 p-4 border border-border rounded-lg hover:bg-muted/50 transition-colors text-left"
+            >
+              <Icon name="Smartphone" size={18} className="text-muted-foreground" />
+              <div>
+                <h3 className="text-sm font-medium">Approve a Device</h3>
+                <p className="text-xs text-muted-foreground">
+                  Enter the pairing code shown on a phone or laptop you want to add.
+                </p>
+              </div>
+            </button>
+          )}
+
+          {hasKeys && !isDeviceEnrolled && (
+            <button
+              onClick={() => setShowPairing(true)}
+              className="w-full flex items-center gap-3 p-4 border border-border rounded-lg hover:bg-muted/50 transition-colors text-left"
+            >
+              <Icon name="Laptop" size={18} className="text-muted-foreground" />
+              <div>
+                <h3 className="text-sm font-medium">Add This Device</h3>
+                <p className="text-xs text-muted-foreground">
+                  Approve this device from one that's unlocked and give it its own passcode.
+                </p>
+              </div>
+            </button>
+          )}
+
           {hasKeys && (
             <button
               onClick={() => setShowRecovery(true)}
@@ -105,6 +169,37 @@ export default function EncryptionSettingsPage() {
           )}
         </div>
 
+        {/* Enrolled devices */}
+        {hasKeys && devices.length > 0 && (
+          <div className="border border-border rounded-lg divide-y divide-border">
+            <div className="p-4">
+              <h3 className="text-sm font-medium">Devices</h3>
+              <p className="text-xs text-muted-foreground mt-0.5">
+                Each device unlocks with its own passcode. Revoke devices you no longer use.
+              </p>
+            </div>
+            {devices.map((device) => (
+              <div key={device.deviceId} className="flex items-center justify-between p-4">
+                <div>
+                  <h4 className="text-sm">
+                    {device.name}
+                    {device.isCurrentDevice && <span className="text-xs text-muted-foreground"> (this device)</span>}
+                  </h4>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    Added {formatRelativeTime(device.enrolledAt)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setDeviceToRevoke(device)}
+                  className="text-sm text-destructive hover:text-destructive/80 transition-colors"
+                >
+                  Revoke
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Security info */}
         <div className="p-4 bg-muted/50 rounded-lg mt-4">
           <h3 className="text-sm font-medium mb-2">How encryption works</h3>
@@ -112,6 +207,7 @@ export default function EncryptionSettingsPage() {
             <li>Your content is encrypted in your browser before being sent to the server.</li>
             <li>Only group members with the group key can decrypt the content.</li>
             <li>Your private key is protected by your 6-digit passcode.</li>
+            <li>Devices you add get the key straight from another of your devices, encrypted so only they can read it.</li>
             <li>We never have access to your passcode or private key.</li>
             <li>If you lose your passcode and recovery key, encrypted data cannot be recovered.</li>
           </ul>
@@ -131,6 +227,28 @@ export default function EncryptionSettingsPage() {
         isOpen={showRecovery}
         onClose={() => setShowRecovery(false)}
       />
+      <PasscodeChangeModal
+        isOpen={showChangePasscode}
+        onClose={() => setShowChangePasscode(false)}
+      />
+      <DevicePairingModal
+        isOpen={showPairing}
+        onClose={() => setShowPairing(false)}
+      />
+      <ApproveDeviceModal
+        isOpen={showApprove}
+        onClose={() => setShowApprove(false)}
+      />
+      <ConfirmationModal
+        isOpen={!!deviceToRevoke}
+        onClose={() => setDeviceToRevoke(null)}
+        onConfirm={handleRevoke}
+        title="Revoke device?"
+        message={`${deviceToRevoke?.name || 'This device'} will no longer unlock with its passcode. It can still be added again later.`}
+        confirmText="Revoke"
+        type="destructive"
+        isLoading={isRevoking}
+      />
     </div>
   );
 }
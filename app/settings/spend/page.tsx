@@ -10,6 +10,8 @@ import { Button } from '../../components/ui/button';
 import { useUsdBalance } from '../../contexts/UsdBalanceContext';
 import { useAllocationInterval } from '../../contexts/AllocationIntervalContext';
 import { AllocationIntervalModal } from '../../components/payments/AllocationIntervalModal';
+import { CarryOverRuleCard } from '../../components/payments/CarryOverRuleCard';
+import { RecurringPledgesCard } from '../../components/payments/RecurringPledgesCard';
 import { UsdAllocation } from '../../types/database';
 import Link from 'next/link';
 import { RollingCounter } from '../../components/ui/rolling-counter';
@@ -478,6 +480,12 @@ export default function SpendPage() {
               onOpenIntervalModal={() => setShowIntervalModal(true)}
               showSectionHeader={false}
             />
+
+            {/* Standing pledges that renew every month */}
+            <RecurringPledgesCard />
+
+            {/* What happens to unallocated funds at month end */}
+            <CarryOverRuleCard />
           </>
         )}
 
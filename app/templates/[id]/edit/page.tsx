@@ -0,0 +1,53 @@
+'use client';
+
+import React, { useEffect, useState, use } from 'react';
+import { useAuth } from '../../../providers/AuthProvider';
+import NavPageLayout from '../../../components/layout/NavPageLayout';
+import { PageHeader } from '../../../components/ui/PageHeader';
+import UnifiedLoader from '../../../components/ui/unified-loader';
+import PageTemplateForm from '../../../components/templates/PageTemplateForm';
+import { pageTemplatesApi } from '../../../utils/apiClient';
+import type { PageTemplate } from '../../../types/database';
+
+interface EditTemplatePageProps {
+  params: Promise<{ id: string }> | { id: string };
+}
+
+export default function EditTemplatePage({ params }: EditTemplatePageProps) {
+  let unwrappedParams;
+  if (params && typeof (params as any).then === 'function') {
+    unwrappedParams = use(params as Promise<{ id: string }>);
+  } else {
+    unwrappedParams = params as { id: string };
+  }
+
+  const { id: templateId } = unwrappedParams;
+  const { user, isLoading: authLoading } = useAuth();
+  const [template, setTemplate] = useState<PageTemplate | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    pageTemplatesApi.getTemplate(templateId).then(response => {
+      if (cancelled) return;
+      setTemplate(response.success ? response.data?.template || null : null);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [templateId]);
+
+  return (
+    <NavPageLayout>
+      <PageHeader title="Edit template" backHref="/templates" />
+      {loading || authLoading ? (
+        <UnifiedLoader isLoading={true} message="Loading template..." />
+      ) : template && user?.uid === template.userId ? (
+        <PageTemplateForm template={template} />
+      ) : (
+        <p className="text-muted-foreground text-center py-12">
+          {template ? 'Only the template\'s author can edit it.' : 'This template could not be found.'}
+        </p>
+      )}
+    </NavPageLayout>
+  );
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import React from 'react';
+import { useAuth } from '../../providers/AuthProvider';
+import NavPageLayout from '../../components/layout/NavPageLayout';
+import { PageHeader } from '../../components/ui/PageHeader';
+import PageTemplateForm from '../../components/templates/PageTemplateForm';
+
+export default function NewTemplatePage() {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <NavPageLayout>
+      <PageHeader title="New template" backHref="/templates" />
+      {isLoading ? null : user ? (
+        <PageTemplateForm />
+      ) : (
+        <p className="text-muted-foreground text-center py-12">Log in to make templates.</p>
+      )}
+    </NavPageLayout>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '../providers/AuthProvider';
+import NavPageLayout from '../components/layout/NavPageLayout';
+import { Icon } from '../components/ui/Icon';
+import { PageHeader } from '../components/ui/PageHeader';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { toast } from '../components/ui/use-toast';
+import PageTemplateCard from '../components/templates/PageTemplateCard';
+import { pageTemplatesApi } from '../utils/apiClient';
+import type { PageTemplate } from '../types/database';
+
+type TemplateScope = 'mine' | 'groups' | 'public';
+
+const SCOPE_LABELS: Record<TemplateScope, string> = {
+  public: 'Public',
+  mine: 'My templates',
+  groups: 'My groups',
+};
+
+/**
+ * Browse page templates: public ones anyone shares, the ones shared with
+ * your groups, and your own to edit or delete
+ */
+export default function TemplatesPage() {
+  const { user } = useAuth();
+  const [scope, setScope] = useState<TemplateScope>('public');
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [templates, setTemplates] = useState<PageTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Wait for typing to settle before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    pageTemplatesApi.getTemplates(scope, query || undefined).then(response => {
+      if (cancelled) return;
+      setTemplates(response.success ? response.data?.templates || [] : []);
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [scope, query]);
+
+  const handleDelete = async (template: PageTemplate) => {
+    if (!confirm(`Delete the template "${template.title}"? Pages made from it keep their content.`)) return;
+    const response = await pageTemplatesApi.deleteTemplate(template.id);
+    if (!response.success) {
+      toast.error(response.error || 'Could not delete the template');
+      return;
+    }
+    setTemplates(prev => prev.filter(t => t.id !== template.id));
+    toast.success('Template deleted');
+  };
+
+  const scopes = (Object.keys(SCOPE_LABELS) as TemplateScope[]).filter(key => key === 'public' || !!user);
+
+  return (
+    <NavPageLayout>
+      <PageHeader
+        title="Templates"
+        description="Start new pages from a shared structure"
+        actions={user && (
+          <Link
+            href="/templates/new"
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+          >
+            <Icon name="Plus" size={14} />
+            New template
+          </Link>
+        )}
+      />
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {scopes.map(key => (
+          <Button
+            key={key}
+            variant={scope === key ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setScope(key)}
+          >
+            {SCOPE_LABELS[key]}
+          </Button>
+        ))}
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search templates"
+          className="sm:ml-auto sm:max-w-xs"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Icon name="Loader" size={24} />
+        </div>
+      ) : templates.length === 0 ? (
+        <div className="text-center py-12">
+          <Icon name="LayoutTemplate" size={40} className="mx-auto mb-3 text-muted-foreground/50" />
+          <h2 className="text-lg font-medium mb-1">No templates found</h2>
+          <p className="text-muted-foreground text-sm">
+            {scope === 'mine' ? 'Templates you make will appear here.' : 'Templates shared here will appear once people make them.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {templates.map(template => (
+            <PageTemplateCard
+              key={template.id}
+              template={template}
+              actions={
+                <>
+                  {user && (
+                    <Button asChild size="sm" variant="secondary">
+                      <Link href={`/new?template=${template.id}`}>Use</Link>
+                    </Button>
+                  )}
+                  {user?.uid === template.userId && (
+                    <>
+                      <Button asChild size="sm" variant="ghost" aria-label="Edit template">
+                        <Link href={`/templates/${template.id}/edit`}><Icon name="Pencil" size={14} /></Link>
+                      </Button>
+                      <Button size="sm" variant="ghost" aria-label="Delete template" onClick={() => handleDelete(template)}>
+                        <Icon name="Trash2" size={14} />
+                      </Button>
+                    </>
+                  )}
+                </>
+              }
+            />
+          ))}
+        </div>
+      )}
+    </NavPageLayout>
+  );
+}
@@ -247,6 +247,97 @@ export type AllocationBarVariant =
   | 'controls'
   | 'user';
 
+// ============================================================================
+// Carry-over Rules
+// ============================================================================
+
+/**
+ * What happens to a supporter's unallocated funds at month end.
+ * 'none' keeps the default use-it-or-lose-it behaviour.
+ */
+export type CarryOverRule = 'none' | 'most_read_writers' | 'pages_viewed';
+
+/**
+ * A supporter's opt-in rule, stored in carryOverRules/{userId}
+ */
+export interface CarryOverSettings {
+  userId: string;
+  rule: CarryOverRule;
+  updatedAt: string;
+}
+
+/**
+ * Pages of other writers a supporter read in one month,
+ * stored in readerMonthlyViews/{userId}_{month}. Only kept while a rule is on.
+ */
+export interface ReaderMonthlyViews {
+  userId: string;
+  month: string;
+  pages: Record<string, { views: number; authorId: string }>;
+}
+
+/**
+ * One writer's part of a supporter's carried-over funds
+ */
+export interface CarryOverShare {
+  recipientUserId: string;
+  usdCents: number;
+  /** Views (most_read_writers) or pages viewed (pages_viewed) behind the share */
+  weight: number;
+}
+
+/**
+ * Record of carried-over funds for one supporter and month,
+ * stored in carryOverDistributions/{userId}_{month}. Its existence marks the
+ * month as applied, so re-running month-end processing never pays twice.
+ */
+export interface CarryOverDistribution {
+  userId: string;
+  month: string;
+  rule: Exclude<CarryOverRule, 'none'>;
+  unallocatedUsdCents: number;
+  distributedUsdCents: number;
+  shares: CarryOverShare[];
+  createdAt: string;
+}
+
+// ============================================================================
+// Recurring Pledges
+// ============================================================================
+
+export type RecurringPledgeTargetType = 'page' | 'user' | 'group';
+
+/**
+ * 'suspended' pledges are kept but skipped while the subscription can't cover
+ * them, and come back on their own once it can. 'cancelled' is final.
+ */
+export type RecurringPledgeStatus = 'active' | 'suspended' | 'cancelled';
+
+/**
+ * A standing pledge that is turned into an allocation at the start of every
+ * month until cancelled, stored in recurringPledges/{id}
+ */
+export interface RecurringPledge {
+  id: string;
+  userId: string;
+  targetType: RecurringPledgeTargetType;
+  targetId: string;
+  /** Page title, username or group name at the time the pledge was made */
+  targetTitle?: string;
+  amountType: 'fixed' | 'percentage';
+  /** Monthly amount for 'fixed' pledges */
+  usdCents?: number;
+  /** Share of the monthly subscription (1-100) for 'percentage' pledges */
+  percent?: number;
+  status: RecurringPledgeStatus;
+  suspendedAt?: string;
+  suspensionReason?: 'subscription_inactive' | 'insufficient_budget';
+  /** Last month this pledge was turned into allocations, so re-runs skip it */
+  lastMaterializedMonth?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // ============================================================================
 // Error Types
 // ============================================================================
@@ -275,6 +366,7 @@ export const ALLOCATION_ERROR_CODES = {
   INVALID_AMOUNT: 'INVALID_AMOUNT',
   PAGE_NOT_FOUND: 'PAGE_NOT_FOUND',
   RATE_LIMITED: 'RATE_LIMITED',
+  INVALID_PLEDGE: 'INVALID_PLEDGE',
 } as const;
 
 export type AllocationErrorCode = typeof ALLOCATION_ERROR_CODES[keyof typeof ALLOCATION_ERROR_CODES];
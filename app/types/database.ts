@@ -3,6 +3,7 @@
  */
 
 import { Timestamp } from 'firebase/firestore';
+import type { EditorBlock } from '../utils/pageMerge';
 
 // User types
 export interface User {
@@ -57,6 +58,12 @@ export interface Page {
   replyTo?: string;
   replyToTitle?: string;
   replyToUsername?: string;
+  // The passage of the replied-to page this reply quotes
+  replyQuote?: ReplyQuote;
+  // Pages above this reply in its thread, outermost first; the last is replyTo
+  replyAncestorIds?: string[];
+  // The page this reply's thread started from, kept when replyAncestorIds is trimmed
+  replyRootId?: string;
   followerCount?: number;
   // USD earnings (subscription-based only)
   monthlyEarnings?: number;
@@ -77,6 +84,81 @@ export interface Page {
   pageScoreUpdatedAt?: string;
   // External link paywall - whether the page author has an active subscription
   authorHasActiveSubscription?: boolean;
+  // Set when the page was forked from a historical version of another page
+  forkedFrom?: PageForkOrigin;
+  // Set when the page was started from a page template
+  fromTemplate?: PageTemplateSource;
+}
+
+// A passage of page text, anchored to where it sits in the content
+export interface TextAnchor {
+  text: string;
+  // Index of the top-level content block the passage is in
+  blockIndex: number;
+  // Character range of the passage within that block's text
+  startOffset: number;
+  endOffset: number;
+}
+
+export type ReplyQuote = TextAnchor;
+
+export type PageAnnotationStatus = 'open' | 'resolved';
+
+// A comment in the margin of a page, on a passage of its text
+export interface PageAnnotation {
+  id: string;
+  pageId: string;
+  userId: string;
+  username: string;
+  body: string;
+  anchor: TextAnchor;
+  // The page version the anchor was last mapped onto
+  anchorVersionId: string | null;
+  // Set once edits removed the passage; anchor keeps the text as it was
+  orphaned: boolean;
+  status: PageAnnotationStatus;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PageForkOrigin {
+  pageId: string;
+  versionId: string;
+  title: string;
+  userId: string | null;
+  username: string | null;
+  versionCreatedAt: string | null;
+}
+
+export type PageTemplateVisibility = 'private' | 'group' | 'public';
+
+// A reusable page skeleton with {{placeholders}}. Private templates are the
+// author's own, group templates are shared with one group's members, and
+// public ones can be browsed and used by anyone.
+export interface PageTemplate {
+  id: string;
+  userId: string;
+  username: string;
+  title: string;
+  description: string;
+  content: EditorContent;
+  visibility: PageTemplateVisibility;
+  // The group a group template is shared with
+  groupId: string | null;
+  // Pages started from the template
+  useCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Credit on a page started from a template
+export interface PageTemplateSource {
+  templateId: string;
+  title: string;
+  userId: string;
+  username: string;
 }
 
 // Page version types
@@ -88,6 +170,90 @@ export interface PageVersion {
   username?: string;
   groupId?: string;
   previousVersionId?: string;
+  // Set when this version was produced by automatically merging concurrent edits
+  mergedFrom?: {
+    baseVersionId: string;
+    parentVersionIds: string[];
+    parentUserIds: string[];
+  };
+  // Set when this version was committed at the end of a live co-editing session
+  collaborators?: Array<{ userId: string; username: string }>;
+  // Set when the snapshot is an encrypted-group ciphertext blob (see lib/crypto)
+  encrypted?: boolean;
+  // Set when this version brought back the content of an earlier version
+  restoredFrom?: {
+    versionId: string;
+    createdAt: string | null;
+    userId: string | null;
+    username: string | null;
+  };
+  // Set when this version is an accepted suggested edit. The version is
+  // credited to the suggester; this records who accepted it.
+  acceptedSuggestion?: {
+    suggestionId: string;
+    acceptedBy: string;
+    acceptedByUsername: string;
+  };
+}
+
+export type PageSuggestionStatus = 'pending' | 'accepted' | 'rejected';
+
+// An edit proposed by someone who can't edit the page, held as a candidate
+// version against the version it was made from until the page owner (or a
+// group member) accepts or rejects it
+export interface PageSuggestion {
+  id: string;
+  pageId: string;
+  userId: string;
+  username: string;
+  // Proposed content, stored as JSON like PageVersion.content
+  content: string;
+  note: string | null;
+  baseVersionId: string | null;
+  diff: {
+    added: number;
+    removed: number;
+  };
+  status: PageSuggestionStatus;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  // The version an accepted suggestion became
+  acceptedVersionId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type DailyNoteTemplateKind = 'daily' | 'weekly' | 'monthly';
+
+// A user's templates for daily notes and weekly/monthly rollups, kept in
+// their user preferences. Null updatedAt means the defaults are in use.
+export interface DailyNoteTemplates {
+  daily: string;
+  weekly: string;
+  monthly: string;
+  updatedAt: string | null;
+}
+
+// Returned with a 409 when a page save was based on a stale version
+export interface PageSaveConflict {
+  pageId: string;
+  // The version the client based its edit on
+  baseVersionId: string | null;
+  // The version that is now current on the server
+  currentVersion: string;
+  content: EditorContent | string;
+  title: string;
+  userId?: string;
+  username?: string;
+  lastModified?: string;
+  // Best-effort three-way merge when the edits overlap. Overlapping
+  // paragraphs appear twice (theirs, then mine) for the user to tidy up.
+  merge?: {
+    content: EditorBlock[];
+    conflictCount: number;
+  };
+  // Both edits renamed the page; title is the other user's new title
+  titleConflict?: boolean;
 }
 
 // Simplified editor content types - only text and links
@@ -300,6 +466,152 @@ export interface SearchResult {
   relevanceScore?: number;
 }
 
+// Block and mute types
+export interface UserBlockList {
+  /** Users who can't follow, reply to, link-notify or otherwise reach this user */
+  blocked: string[];
+  /** Users whose pages and notifications this user doesn't see */
+  muted: string[];
+}
+
+export type UserBlockAction = 'block' | 'unblock' | 'mute' | 'unmute';
+
+// Content report types
+export type ReportTargetType = 'page' | 'reply' | 'user';
+
+export type ReportCategory = 'spam' | 'harassment' | 'copyright' | 'illegal' | 'other';
+
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+export type ModerationAction = 'dismiss' | 'hide_page' | 'delete_page' | 'warn_user' | 'suspend_user';
+
+export interface ContentReport {
+  id: string;
+  reporterId: string;
+  reporterUsername?: string;
+  targetType: ReportTargetType;
+  /** Page id for pages and replies, user id for profiles */
+  targetId: string;
+  /** Author of the reported page, or the reported user */
+  targetUserId: string;
+  targetTitle: string;
+  category: ReportCategory;
+  details?: string;
+  status: ReportStatus;
+  createdAt: string;
+  resolution?: {
+    action: ModerationAction;
+    note?: string;
+    resolvedBy: string;
+    resolvedAt: string;
+  };
+}
+
+// Saved search types
+export interface SavedSearchMatch {
+  pageId: string;
+  title: string;
+  username?: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  /** Query in the /api/search-unified syntax, operators included */
+  query: string;
+  /** Send a notification when new pages match */
+  notify: boolean;
+  /** Collect new matches for the weekly digest email */
+  includeInDigest: boolean;
+  /** ISO time of the last run; pages modified after it are checked next time */
+  lastCheckedAt: string;
+  /** Pages already reported, so an edited page isn't reported twice */
+  seenPageIds?: string[];
+  /** Matches waiting for the next weekly digest */
+  pendingDigestMatches?: SavedSearchMatch[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Outgoing webhook types
+export type WebhookEventType =
+  | 'page.created'
+  | 'page.updated'
+  | 'reply.created'
+  | 'link.created'
+  | 'allocation.received'
+  | 'payout.completed';
+
+export type WebhookOwnerType = 'user' | 'group';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookEndpoint {
+  id: string;
+  ownerType: WebhookOwnerType;
+  /** User ID or group ID */
+  ownerId: string;
+  /** `${ownerType}:${ownerId}`, so one query finds a user's and a group's endpoints */
+  ownerKey: string;
+  createdBy: string;
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  /** HMAC-SHA256 signing secret; only returned when created or rotated */
+  secret?: string;
+  /** Start and end of the secret, returned in its place everywhere else */
+  secretPreview?: string;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** The JSON body POSTed to an endpoint */
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, any>;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  ownerKey: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  /** The exact body sent, so redeliveries carry the same signature input */
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** ISO time of the next retry while pending */
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+}
+
+// Personal API token types
+export type ApiTokenScope = 'pages:read' | 'pages:write' | 'search';
+
+export interface ApiToken {
+  id: string;
+  userId: string;
+  name: string;
+  scopes: ApiTokenScope[];
+  /** SHA-256 of the token; the token itself is only returned when created */
+  tokenHash?: string;
+  /** Start and end of the token, to recognise it in the list */
+  tokenPreview: string;
+  /** Requests allowed per minute */
+  rateLimit: number;
+  createdAt: string;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+}
+
 // Notification types
 export interface Notification {
   id: string;
@@ -319,10 +631,15 @@ export type NotificationType =
   | 'link'                      // User links to your page (page mention)
   | 'user_mention'              // User mentions you (links to your user page)
   | 'append'                    // User adds your page to their page
+  | 'saved_search_match'        // New pages match one of your saved searches
+  | 'page_annotation'           // Someone commented on your page, or resolved your comment
+  | 'page_suggestion'           // Someone suggested an edit to your page, or yours was reviewed
 
   // System notifications
   | 'system_announcement'       // System-wide announcements
   | 'email_verification'        // Email verification required
+  | 'report_outcome'            // A report you filed was reviewed
+  | 'moderation_warning'        // A moderator warned you about your content
 
   // Payment notifications
   | 'payment_failed'            // Subscription payment failed
@@ -377,6 +694,13 @@ export interface LinkData {
   id?: string;
   title?: string;
   url?: string;
+  text?: string;
+  type?: 'page' | 'user' | 'external';
+  pageId?: string;
+  pageTitle?: string;
+  originalPageTitle?: string;
+  userId?: string;
+  authorUsername?: string;
   isExternal?: boolean;
   showAuthor?: boolean;
   displayText?: string;
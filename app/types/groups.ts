@@ -3,6 +3,7 @@
  */
 
 import { Timestamp } from 'firebase/firestore';
+import type { GroupKeyRotation } from '../lib/crypto/types';
 
 export type GroupRole = 'owner' | 'admin' | 'member';
 export type GroupVisibility = 'public' | 'private';
@@ -22,6 +23,10 @@ export interface Group {
   fundDistribution?: Record<string, number>;
   /** Whether content in this group is encrypted */
   encrypted?: boolean;
+  /** Current group key version (absent = 1, the group's first key) */
+  keyVersion?: number;
+  /** Set while the group key is being rotated after a member was removed */
+  keyRotation?: GroupKeyRotation;
   createdAt: string | Timestamp;
   updatedAt: string | Timestamp;
   deleted?: boolean;
@@ -85,6 +85,10 @@ export async function generateMetadata({ params }: { params: Promise<{ username:
         },
         alternates: {
           canonical: `${baseUrl}/u/${username}`,
+          types: {
+            'application/rss+xml': `${baseUrl}/api/feeds/user/${userData.id}`,
+            'application/atom+xml': `${baseUrl}/api/feeds/user/${userData.id}?format=atom`,
+          },
         },
       };
     }
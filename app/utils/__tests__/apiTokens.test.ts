@@ -0,0 +1,89 @@
+/**
+ * Tests for personal API token validation and the v1 API description
+ */
+
+import {
+  API_TOKEN_SCOPES,
+  getApiTokenExpiry,
+  getApiTokenInputError,
+  getApiTokenPreview,
+  getApiTokenUnusableReason,
+  hasApiTokenScope,
+  isApiToken,
+} from '../apiTokens';
+import { buildOpenApiSpec } from '../publicApiSpec';
+
+describe('getApiTokenInputError', () => {
+  it('should accept a named token with known scopes', () => {
+    expect(getApiTokenInputError({ name: 'Publishing script', scopes: ['pages:read', 'pages:write'] })).toBeNull();
+    expect(getApiTokenInputError({ name: 'Search', scopes: ['search'], rateLimit: 120, expiresInDays: null })).toBeNull();
+  });
+
+  it('should reject missing names, unknown scopes and unsupported limits', () => {
+    expect(getApiTokenInputError({ name: '  ', scopes: ['search'] })).toMatch(/name/);
+    expect(getApiTokenInputError({ name: 'x'.repeat(81), scopes: ['search'] })).toMatch(/80/);
+    expect(getApiTokenInputError({ name: 'Script', scopes: [] })).toMatch(/at least one/);
+    expect(getApiTokenInputError({ name: 'Script', scopes: ['admin'] })).toMatch(/admin/);
+    expect(getApiTokenInputError({ name: 'Script', scopes: ['search'], rateLimit: 10000 })).toMatch(/Rate limit/);
+    expect(getApiTokenInputError({ name: 'Script', scopes: ['search'], expiresInDays: 7 })).toMatch(/expiry/);
+  });
+});
+
+describe('tokens', () => {
+  const token = 'wwpat_abcdefghijklmnopqrstuvwxyz012345';
+
+  it('should tell personal API tokens from other bearer tokens', () => {
+    expect(isApiToken(token)).toBe(true);
+    expect(isApiToken('eyJhbGciOiJSUzI1NiJ9.payload.signature')).toBe(false);
+  });
+
+  it('should only show the ends of a token', () => {
+    expect(getApiTokenPreview(token)).toBe('wwpat_abcd…2345');
+  });
+
+  it('should stop working when revoked or expired', () => {
+    const now = new Date('2026-03-01T00:00:00Z');
+    expect(getApiTokenUnusableReason({ revokedAt: null, expiresAt: null }, now)).toBeNull();
+    expect(getApiTokenUnusableReason({ revokedAt: null, expiresAt: '2026-03-02T00:00:00Z' }, now)).toBeNull();
+    expect(getApiTokenUnusableReason({ revokedAt: null, expiresAt: '2026-03-01T00:00:00Z' }, now)).toMatch(/expired/);
+    expect(getApiTokenUnusableReason({ revokedAt: '2026-02-01T00:00:00Z', expiresAt: null }, now)).toMatch(/revoked/);
+  });
+
+  it('should compute expiry dates', () => {
+    const now = new Date('2026-03-01T00:00:00Z');
+    expect(getApiTokenExpiry(30, now)).toBe('2026-03-31T00:00:00.000Z');
+    expect(getApiTokenExpiry(null, now)).toBeNull();
+  });
+
+  it('should check scopes', () => {
+    expect(hasApiTokenScope({ scopes: ['pages:read'] }, 'pages:read')).toBe(true);
+    expect(hasApiTokenScope({ scopes: ['pages:read'] }, 'pages:write')).toBe(false);
+  });
+});
+
+describe('buildOpenApiSpec', () => {
+  const spec = buildOpenApiSpec('https://example.com');
+
+  it('should point at the v1 API', () => {
+    expect(spec.openapi).toBe('3.1.0');
+    expect(spec.servers).toEqual([{ url: 'https://example.com/api/v1' }]);
+  });
+
+  it('should give every operation a known scope and the common error responses', () => {
+    const scopes = API_TOKEN_SCOPES.map(scope => scope.value);
+    const operations = Object.values(spec.paths).flatMap((path: any) => Object.values(path)) as any[];
+    expect(operations.length).toBeGreaterThan(0);
+    for (const operation of operations) {
+      expect(scopes).toContain(operation['x-required-scope']);
+      expect(operation.security).toEqual([{ apiToken: [operation['x-required-scope']] }]);
+      expect(Object.keys(operation.responses)).toEqual(expect.arrayContaining(['401', '403', '429']));
+    }
+  });
+
+  it('should only reference schemas it defines', () => {
+    const refs = JSON.stringify(spec).match(/#\/components\/schemas\/\w+/g) || [];
+    for (const ref of refs) {
+      expect(spec.components.schemas).toHaveProperty(ref.split('/').pop()!);
+    }
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Tests for Carry-over Allocation
+ */
+
+import { computeCarryOverShares, splitCentsByWeight, MAX_CARRY_OVER_RECIPIENTS } from '../carryOverAllocation';
+import type { ReaderMonthlyViews } from '../../types/allocation';
+
+const readerViews = (pages: ReaderMonthlyViews['pages']): ReaderMonthlyViews => ({
+  userId: 'reader',
+  month: '2025-06',
+  pages,
+});
+
+describe('Carry-over Allocation', () => {
+  describe('splitCentsByWeight', () => {
+    it('should always hand out exactly the total', () => {
+      const shares = splitCentsByWeight(1000, [1, 1, 1]);
+      expect(shares.reduce((sum, cents) => sum + cents, 0)).toBe(1000);
+      expect(shares).toEqual([334, 333, 333]);
+    });
+
+    it('should return zeros when there is nothing to split', () => {
+      expect(splitCentsByWeight(0, [1, 2])).toEqual([0, 0]);
+      expect(splitCentsByWeight(500, [0, 0])).toEqual([0, 0]);
+    });
+  });
+
+  describe('computeCarryOverShares', () => {
+    const views = readerViews({
+      p1: { views: 6, authorId: 'alice' },
+      p2: { views: 2, authorId: 'alice' },
+      p3: { views: 2, authorId: 'bob' },
+      p4: { views: 9, authorId: 'reader' },
+    });
+
+    it('should split proportionally to views for most_read_writers', () => {
+      const shares = computeCarryOverShares('most_read_writers', 1000, views);
+      expect(shares).toEqual([
+        { recipientUserId: 'alice', usdCents: 800, weight: 8 },
+        { recipientUserId: 'bob', usdCents: 200, weight: 2 },
+      ]);
+    });
+
+    it('should split evenly per page viewed for pages_viewed', () => {
+      const shares = computeCarryOverShares('pages_viewed', 900, views);
+      expect(shares).toEqual([
+        { recipientUserId: 'alice', usdCents: 600, weight: 2 },
+        { recipientUserId: 'bob', usdCents: 300, weight: 1 },
+      ]);
+    });
+
+    it('should keep funds unallocated without a rule or reading history', () => {
+      expect(computeCarryOverShares('none', 1000, views)).toEqual([]);
+      expect(computeCarryOverShares('most_read_writers', 1000, null)).toEqual([]);
+      expect(computeCarryOverShares('pages_viewed', 1000, readerViews({ p4: { views: 3, authorId: 'reader' } }))).toEqual([]);
+    });
+
+    it('should limit most_read_writers to the most-read writers', () => {
+      const pages: ReaderMonthlyViews['pages'] = {};
+      for (let i = 0; i < MAX_CARRY_OVER_RECIPIENTS + 5; i++) {
+        pages[`p${i}`] = { views: i + 1, authorId: `writer${i}` };
+      }
+
+      const shares = computeCarryOverShares('most_read_writers', 10000, readerViews(pages));
+      expect(shares).toHaveLength(MAX_CARRY_OVER_RECIPIENTS);
+      expect(shares.some(share => share.recipientUserId === 'writer0')).toBe(false);
+      expect(shares.reduce((sum, share) => sum + share.usdCents, 0)).toBe(10000);
+    });
+  });
+});
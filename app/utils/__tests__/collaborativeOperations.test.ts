@@ -0,0 +1,86 @@
+/**
+ * Tests for Collaborative Operation Utilities
+ */
+
+import { createEditor, Descendant, Operation } from 'slate';
+import {
+  getCollaboratorColor,
+  isBroadcastOperation,
+  transformOperation,
+  transformOperations,
+} from '../collaborativeOperations';
+
+const p = (text: string): Descendant => ({ type: 'paragraph', children: [{ text }] } as Descendant);
+
+const applyAll = (content: Descendant[], ...batches: Operation[][]) => {
+  const editor = createEditor();
+  editor.children = JSON.parse(JSON.stringify(content));
+  batches.forEach((ops) => ops.forEach((op) => editor.apply(op)));
+  return editor.children;
+};
+
+describe('Collaborative Operation Utilities', () => {
+  describe('isBroadcastOperation', () => {
+    it('should skip selection changes', () => {
+      const point = { path: [0, 0], offset: 0 };
+      expect(isBroadcastOperation({ type: 'set_selection', properties: null, newProperties: { anchor: point, focus: point } })).toBe(false);
+      expect(isBroadcastOperation({ type: 'insert_text', path: [0, 0], offset: 0, text: 'a' })).toBe(true);
+    });
+  });
+
+  describe('transformOperation', () => {
+    it('should shift text inserted later in the same leaf', () => {
+      const earlier: Operation = { type: 'insert_text', path: [0, 0], offset: 0, text: 'abc' };
+      const op: Operation = { type: 'insert_text', path: [0, 0], offset: 2, text: 'x' };
+
+      expect(transformOperation(op, earlier)).toEqual({ ...op, offset: 5 });
+    });
+
+    it('should move operations past a paragraph inserted above', () => {
+      const earlier: Operation = { type: 'insert_node', path: [0], node: p('new') };
+      const op: Operation = { type: 'remove_text', path: [1, 0], offset: 0, text: 'a' };
+
+      expect(transformOperation(op, earlier)).toEqual({ ...op, path: [2, 0] });
+    });
+
+    it('should drop operations on a removed paragraph', () => {
+      const earlier: Operation = { type: 'remove_node', path: [0], node: p('gone') };
+      const op: Operation = { type: 'insert_text', path: [0, 0], offset: 1, text: 'x' };
+
+      expect(transformOperation(op, earlier)).toBeNull();
+    });
+  });
+
+  describe('transformOperations', () => {
+    it('should converge when two people type at the same spot', () => {
+      const base = [p('hello')];
+      const first: Operation[] = [{ type: 'insert_text', path: [0, 0], offset: 5, text: ' there' }];
+      const second: Operation[] = [{ type: 'insert_text', path: [0, 0], offset: 5, text: ' world' }];
+
+      // The first writer applies its own edit, then the second transformed past it
+      const atFirst = applyAll(base, first, transformOperations(second, first, 'forward'));
+      // The second writer applied its own edit optimistically, then receives the first
+      const atSecond = applyAll(base, second, transformOperations(first, second, 'backward'));
+
+      expect(atFirst).toEqual([p('hello there world')]);
+      expect(atSecond).toEqual(atFirst);
+    });
+
+    it('should carry concurrent operations past each operation in a batch', () => {
+      const base = [p('ab')];
+      const batch: Operation[] = [
+        { type: 'insert_text', path: [0, 0], offset: 0, text: 'x' },
+        { type: 'insert_text', path: [0, 0], offset: 1, text: 'y' },
+      ];
+      const concurrent: Operation[] = [{ type: 'insert_text', path: [0, 0], offset: 2, text: 'z' }];
+
+      expect(applyAll(base, concurrent, transformOperations(batch, concurrent))).toEqual([p('xyabz')]);
+    });
+  });
+
+  describe('getCollaboratorColor', () => {
+    it('should be stable for a user', () => {
+      expect(getCollaboratorColor('user-1')).toBe(getCollaboratorColor('user-1'));
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for content report validation and the moderation queue
+ */
+
+import {
+  getReportInputError,
+  getReportTargetKey,
+  getModerationActions,
+  groupReportsByTarget,
+  describeReportOutcome,
+  getModerationAuditAction,
+  MAX_REPORT_DETAILS_LENGTH,
+} from '../contentReports';
+import type { ContentReport } from '../../types/database';
+
+const report = (overrides: Partial<ContentReport> = {}): ContentReport => ({
+  id: 'report-1',
+  reporterId: 'reader-1',
+  targetType: 'page',
+  targetId: 'page-1',
+  targetUserId: 'author-1',
+  targetTitle: 'Reported page',
+  category: 'spam',
+  status: 'open',
+  createdAt: '2026-10-01T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('getReportInputError', () => {
+  it('should accept a category with or without details', () => {
+    expect(getReportInputError({ targetType: 'page', targetId: 'page-1', category: 'spam' })).toBeNull();
+    expect(getReportInputError({ targetType: 'user', targetId: 'user-1', category: 'harassment', details: 'Threats' })).toBeNull();
+  });
+
+  it('should reject unknown targets and categories', () => {
+    expect(getReportInputError({ targetType: 'group', targetId: 'g', category: 'spam' })).not.toBeNull();
+    expect(getReportInputError({ targetType: 'page', targetId: '  ', category: 'spam' })).not.toBeNull();
+    expect(getReportInputError({ targetType: 'page', targetId: 'page-1', category: 'rude' })).toBe('Choose what is wrong');
+  });
+
+  it('should require details for "other" and cap their length', () => {
+    expect(getReportInputError({ targetType: 'page', targetId: 'page-1', category: 'other', details: ' ' })).toBe('Tell us what is wrong');
+    const details = 'x'.repeat(MAX_REPORT_DETAILS_LENGTH + 1);
+    expect(getReportInputError({ targetType: 'page', targetId: 'page-1', category: 'spam', details })).not.toBeNull();
+  });
+});
+
+describe('moderation actions', () => {
+  it('should only offer page actions for pages and replies', () => {
+    expect(getModerationActions('reply')).toContain('hide_page');
+    expect(getModerationActions('user')).not.toContain('delete_page');
+    expect(getModerationActions('user')).toContain('suspend_user');
+  });
+
+  it('should name audit log actions', () => {
+    expect(getModerationAuditAction('suspend_user')).toBe('MODERATION_SUSPEND_USER');
+  });
+});
+
+describe('groupReportsByTarget', () => {
+  it('should review a page reported as a reply together with the page', () => {
+    expect(getReportTargetKey('reply', 'page-1')).toBe(getReportTargetKey('page', 'page-1'));
+    expect(getReportTargetKey('user', 'page-1')).not.toBe(getReportTargetKey('page', 'page-1'));
+  });
+
+  it('should count categories and put the most-reported target first', () => {
+    const queue = groupReportsByTarget([
+      report({ id: 'a', targetId: 'page-2', createdAt: '2026-09-01T00:00:00.000Z' }),
+      report({ id: 'b', category: 'harassment' }),
+      report({ id: 'c', targetType: 'reply', reporterId: 'reader-2', createdAt: '2026-09-15T00:00:00.000Z' }),
+    ]);
+
+    expect(queue.map(item => item.targetId)).toEqual(['page-1', 'page-2']);
+    expect(queue[0].reports).toHaveLength(2);
+    expect(queue[0].categories).toEqual({ harassment: 1, spam: 1 });
+    expect(queue[0].firstReportedAt).toBe('2026-09-15T00:00:00.000Z');
+  });
+
+  it('should put the longest-waiting target first when counts tie', () => {
+    const queue = groupReportsByTarget([
+      report({ id: 'a', targetId: 'newer', createdAt: '2026-10-02T00:00:00.000Z' }),
+      report({ id: 'b', targetId: 'older', createdAt: '2026-10-01T00:00:00.000Z' }),
+    ]);
+    expect(queue.map(item => item.targetId)).toEqual(['older', 'newer']);
+  });
+});
+
+describe('describeReportOutcome', () => {
+  it('should tell the reporter what happened without naming the penalty', () => {
+    expect(describeReportOutcome('dismiss', 'Spam page').message).toContain("didn't find");
+    expect(describeReportOutcome('delete_page', 'Spam page').message).toBe('Thanks for your report. "Spam page" is no longer visible.');
+    expect(describeReportOutcome('suspend_user', 'Spam page').message).not.toContain('suspend');
+  });
+});
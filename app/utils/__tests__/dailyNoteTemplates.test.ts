@@ -0,0 +1,113 @@
+/**
+ * Tests for daily note templates
+ */
+
+import {
+  getDailyNoteDate,
+  getDailyNoteRange,
+  getDailyNoteTemplatesInputError,
+  getDailyNoteTitle,
+  getPreviousDate,
+  renderDailyNoteTemplate,
+} from '../dailyNoteTemplates';
+
+const textOf = (block: any): string =>
+  block.children.map((child: any) => child.type === 'link' ? `[${child.pageTitle}]` : child.text).join('');
+
+describe('getDailyNoteRange', () => {
+  it('should cover the day, its Sunday-to-Saturday week or its month', () => {
+    expect(getDailyNoteRange('daily', '2026-10-19')).toEqual({ startDate: '2026-10-19', endDate: '2026-10-19' });
+    expect(getDailyNoteRange('weekly', '2026-10-19')).toEqual({ startDate: '2026-10-18', endDate: '2026-10-24' });
+    expect(getDailyNoteRange('monthly', '2026-02-10')).toEqual({ startDate: '2026-02-01', endDate: '2026-02-28' });
+  });
+
+  it('should give null for anything but a real date', () => {
+    expect(getDailyNoteRange('daily', '2026-13-01')).toBeNull();
+    expect(getDailyNoteRange('weekly', 'today')).toBeNull();
+  });
+});
+
+describe('getDailyNoteTitle and getPreviousDate', () => {
+  it('should title rollups by their range and leave daily notes untitled', () => {
+    expect(getDailyNoteTitle('weekly', { startDate: '2026-10-18', endDate: '2026-10-24' })).toBe('Week of 2026-10-18');
+    expect(getDailyNoteTitle('monthly', { startDate: '2026-10-01', endDate: '2026-10-31' })).toBe('October 2026');
+    expect(getDailyNoteTitle('daily', { startDate: '2026-10-19', endDate: '2026-10-19' })).toBe('');
+  });
+
+  it('should find the day before, across months and years', () => {
+    expect(getPreviousDate('2026-03-01')).toBe('2026-02-28');
+    expect(getPreviousDate('2027-01-01')).toBe('2026-12-31');
+  });
+});
+
+describe('getDailyNoteDate', () => {
+  it('should read customDate, or a date title on older notes without one', () => {
+    expect(getDailyNoteDate({ title: 'Monday', customDate: '2026-10-19' })).toBe('2026-10-19');
+    expect(getDailyNoteDate({ title: '2026-10-19' })).toBe('2026-10-19');
+    expect(getDailyNoteDate({ title: '2026-10-19', customDate: 'soon' })).toBeNull();
+    expect(getDailyNoteDate({ title: 'Book notes' })).toBeNull();
+  });
+
+  it('should fall back to the day the page was created', () => {
+    expect(getDailyNoteDate({ title: 'Book notes' }, '2026-10-18')).toBe('2026-10-18');
+    expect(getDailyNoteDate({ title: 'Monday', customDate: '2026-10-19' }, '2026-10-18')).toBe('2026-10-19');
+  });
+});
+
+describe('renderDailyNoteTemplate', () => {
+  const range = { startDate: '2026-10-19', endDate: '2026-10-19' };
+
+  it('should fill in the date, weekday and a link to yesterday\'s note', () => {
+    const content = renderDailyNoteTemplate('{{weekday}}, {{ date }}\nYesterday: {{yesterday}}', {
+      kind: 'daily',
+      range,
+      yesterdayNote: { id: 'p1', title: 'Sunday' },
+    });
+    expect(content.map(textOf)).toEqual(['Monday, 2026-10-19', 'Yesterday: [Sunday]']);
+    expect(content[1].children[1]).toMatchObject({ type: 'link', pageId: 'p1', url: '/pages/p1' });
+  });
+
+  it('should write yesterday\'s date when there is no note for it', () => {
+    const content = renderDailyNoteTemplate('Yesterday: {{yesterday}}', { kind: 'daily', range, yesterdayNote: null });
+    expect(content.map(textOf)).toEqual(['Yesterday: 2026-10-18']);
+  });
+
+  it('should repeat a list line once per page and drop it when there are none', () => {
+    const template = 'Edited:\n- {{edited_yesterday}}\nEnd';
+    const pages = [{ id: 'a', title: 'Essay' }, { id: 'b', title: '' }];
+
+    expect(renderDailyNoteTemplate(template, { kind: 'daily', range, editedYesterday: pages }).map(textOf))
+      .toEqual(['Edited:', '- [Essay]', '- [Untitled]', 'End']);
+    expect(renderDailyNoteTemplate(template, { kind: 'daily', range, editedYesterday: [] }).map(textOf))
+      .toEqual(['Edited:', 'End']);
+  });
+
+  it('should link every daily note in a rollup', () => {
+    const content = renderDailyNoteTemplate('{{month}}\n{{daily_notes}}', {
+      kind: 'monthly',
+      range: { startDate: '2026-10-01', endDate: '2026-10-31' },
+      dailyNotes: [{ id: 'd1', title: 'First' }, { id: 'd2', title: 'Second' }],
+    });
+    expect(content.map(textOf)).toEqual(['October 2026', '[First]', '[Second]']);
+  });
+
+  it('should keep unknown variables and ones the kind of note has no value for', () => {
+    const content = renderDailyNoteTemplate('{{mood}} {{weekday}}', {
+      kind: 'weekly',
+      range: { startDate: '2026-10-18', endDate: '2026-10-24' },
+    });
+    expect(content.map(textOf)).toEqual(['{{mood}} {{weekday}}']);
+  });
+});
+
+describe('getDailyNoteTemplatesInputError', () => {
+  it('should accept text for each kind of template, including empty text', () => {
+    expect(getDailyNoteTemplatesInputError({ daily: '{{date}}', weekly: '', monthly: '' })).toBeNull();
+  });
+
+  it('should reject missing or overlong templates', () => {
+    expect(getDailyNoteTemplatesInputError({ daily: '', weekly: '' })).toBe('monthly must be the template text');
+    expect(getDailyNoteTemplatesInputError({ daily: 'x'.repeat(5001), weekly: '', monthly: '' }))
+      .toBe('Templates can be at most 5000 characters');
+  });
+});
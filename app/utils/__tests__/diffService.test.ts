@@ -0,0 +1,45 @@
+/**
+ * Tests for client-side diffing of encrypted content in diffService
+ */
+
+import { calculateDiff } from '../diffService';
+
+const p = (text: string) => ({ type: 'paragraph', children: [{ text }] });
+
+const blob = (tag: string) => ({ ciphertext: `cipher-${tag}`, iv: `iv-${tag}`, version: 1 });
+
+describe('calculateDiff with encrypted content', () => {
+  const plaintext: Record<string, any> = {
+    'cipher-old': [p('Hello world')],
+    'cipher-new': [p('Hello brave world')],
+  };
+  const decrypt = async (content: any) => plaintext[content.ciphertext] ?? null;
+
+  beforeEach(() => {
+    global.fetch = jest.fn() as any;
+  });
+
+  it('should diff decrypted content without calling the diff API', async () => {
+    const result = await calculateDiff(blob('new'), blob('old'), undefined, { decrypt });
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(result.hasChanges).toBe(true);
+    expect(result.added).toBeGreaterThan(0);
+  });
+
+  it('should accept encrypted blobs stored as JSON strings', async () => {
+    const result = await calculateDiff(JSON.stringify(blob('new')), JSON.stringify(blob('old')), undefined, { decrypt });
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(result.hasChanges).toBe(true);
+  });
+
+  it('should return an empty diff when the content cannot be decrypted', async () => {
+    const withoutKey = await calculateDiff(blob('new'), blob('old'));
+    const lockedKey = await calculateDiff(blob('new'), blob('missing'), undefined, { decrypt });
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(withoutKey).toMatchObject({ added: 0, removed: 0, hasChanges: false });
+    expect(lockedKey).toMatchObject({ added: 0, removed: 0, hasChanges: false });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for Markdown and HTML export and the zip writer
+ */
+
+import {
+  contentToMarkdown,
+  contentToHtml,
+  pageToMarkdown,
+  buildFrontMatter,
+  getExportFileNames,
+  getExportLinkHref,
+  parseExportFormat,
+} from '../markdownExport';
+import { createZipArchive, crc32 } from '../zipArchive';
+
+const text = (value: string, marks: Record<string, boolean> = {}) => ({ text: value, ...marks });
+const paragraph = (...children: any[]) => ({ type: 'paragraph', children });
+const pageLink = (pageId: string, label: string) => ({
+  type: 'link', url: `/${pageId}`, pageId, pageTitle: label, children: [text(label)],
+});
+
+describe('contentToMarkdown', () => {
+  it('should write headings, quotes and marks', () => {
+    const markdown = contentToMarkdown([
+      { type: 'heading-one', children: [text('Intro')] },
+      paragraph(text('Some '), text('bold ', { bold: true }), text('and '), text('code', { code: true })),
+      { type: 'block-quote', children: [text('Quoted')] },
+    ]);
+
+    expect(markdown).toBe('# Intro\n\nSome **bold** and `code`\n\n> Quoted');
+  });
+
+  it('should number ordered lists and nest lists inside items', () => {
+    const markdown = contentToMarkdown([
+      {
+        type: 'numbered-list',
+        children: [
+          { type: 'list-item', children: [text('First')] },
+          {
+            type: 'list-item',
+            children: [
+              text('Second'),
+              { type: 'bulleted-list', children: [{ type: 'list-item', children: [text('Inner')] }] },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    expect(markdown).toBe('1. First\n2. Second\n   - Inner');
+  });
+
+  it('should escape text that would otherwise be read as Markdown', () => {
+    expect(contentToMarkdown([paragraph(text('# not a heading with *stars*'))]))
+      .toBe('\\# not a heading with \\*stars\\*');
+  });
+
+  it('should read content stored as a JSON string and drop empty paragraphs', () => {
+    const stored = JSON.stringify([paragraph(text('One')), paragraph(text('')), paragraph(text('Two'))]);
+    expect(contentToMarkdown(stored)).toBe('One\n\nTwo');
+    expect(contentToMarkdown('plain text')).toBe('plain text');
+  });
+});
+
+describe('links', () => {
+  it('should link to pages in the same export by relative file name', () => {
+    const fileNames = { 'page-2': 'my-notes.md' };
+    expect(contentToMarkdown([paragraph(text('See '), pageLink('page-2', 'My notes'))], { fileNames }))
+      .toBe('See [My notes](./my-notes.md)');
+  });
+
+  it('should link to other pages, users and websites by URL', () => {
+    expect(getExportLinkHref(pageLink('page-9', 'Elsewhere'))).toBe('https://www.getwewrite.app/page-9');
+    expect(getExportLinkHref({ type: 'link', isUser: true, userId: 'u1', children: [] })).toBe('https://www.getwewrite.app/u/u1');
+    expect(getExportLinkHref({ type: 'link', url: 'https://example.com', isExternal: true, children: [] })).toBe('https://example.com');
+  });
+
+  it('should only keep http(s) and mailto links to websites', () => {
+    const external = (url: string) => getExportLinkHref({ type: 'link', url, isExternal: true, children: [] });
+    expect(external('mailto:someone@example.com')).toBe('mailto:someone@example.com');
+    expect(external('javascript:alert(1)')).toBe('#');
+    expect(external(' JavaScript:alert(1)')).toBe('#');
+    expect(external('data:text/html,<script>alert(1)</script>')).toBe('#');
+    expect(contentToHtml([paragraph({ type: 'link', url: 'javascript:alert(1)', children: [text('Click')] })]))
+      .toBe('<p><a href="#">Click</a></p>');
+  });
+
+  it('should escape link text and URLs in HTML', () => {
+    const html = contentToHtml([paragraph({ type: 'link', url: 'https://example.com/?a=1&b=2', children: [text('<Example>')] })]);
+    expect(html).toBe('<p><a href="https://example.com/?a=1&amp;b=2">&lt;Example&gt;</a></p>');
+  });
+});
+
+describe('getExportFileNames', () => {
+  it('should slug titles and number duplicates', () => {
+    expect(getExportFileNames([
+      { id: 'a', title: 'Café Notes!' },
+      { id: 'b', title: 'Cafe notes' },
+      { id: 'c', title: '' },
+    ], 'markdown')).toEqual({ a: 'cafe-notes.md', b: 'cafe-notes-2.md', c: 'untitled.md' });
+  });
+});
+
+describe('front matter', () => {
+  it('should quote strings and leave out empty fields', () => {
+    expect(buildFrontMatter({ title: 'Say "hi"', group: null, draft: false }))
+      .toBe('---\ntitle: "Say \\"hi\\""\ndraft: false\n---');
+  });
+
+  it('should not export encrypted content', () => {
+    const markdown = pageToMarkdown({ id: 'p1', title: 'Secret', content: null, encrypted: true });
+    expect(markdown).toContain('encrypted: true');
+    expect(markdown).toContain('can only be read in WeWrite');
+  });
+});
+
+describe('parseExportFormat', () => {
+  it('should default to Markdown and reject unknown formats', () => {
+    expect(parseExportFormat(null)).toBe('markdown');
+    expect(parseExportFormat('MD')).toBe('markdown');
+    expect(parseExportFormat('html')).toBe('html');
+    expect(parseExportFormat('pdf')).toBeNull();
+  });
+});
+
+describe('createZipArchive', () => {
+  it('should compute the standard CRC-32', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should write stored entries and a central directory listing each one', () => {
+    const zip = createZipArchive([
+      { path: 'notes/a.md', data: 'Hello', modifiedAt: new Date('2026-10-01T12:00:00Z') },
+      { path: 'notes/b.md', data: 'World' },
+      { path: 'notes/a.md', data: 'Duplicate' },
+    ]);
+    const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+    const end = zip.length - 22;
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+
+    const name = Buffer.from(zip.slice(30, 40)).toString();
+    expect(name).toBe('notes/a.md');
+    expect(Buffer.from(zip.slice(40, 45)).toString()).toBe('Hello');
+  });
+});
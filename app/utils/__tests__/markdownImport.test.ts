@@ -0,0 +1,160 @@
+/**
+ * Tests for Markdown, Obsidian and Notion import
+ */
+
+import {
+  markdownToContent,
+  buildImportPlan,
+  detectImportSource,
+  getImportTitle,
+  parseFrontMatter,
+  resolveRelativePath,
+} from '../markdownImport';
+import { createZipArchive, readZipArchive } from '../zipArchive';
+
+const noExistingPages = new Map<string, { pageId: string; title: string }>();
+
+const idFactory = () => {
+  let n = 0;
+  return () => `new-${++n}`;
+};
+
+describe('markdownToContent', () => {
+  it('should convert headings, quotes, marks and paragraphs', () => {
+    const { content } = markdownToContent('# Title\n\nSome **bold** and _italic_ `code`\n\n> Quoted\n\n#### Deep');
+
+    expect(content[0]).toEqual({ type: 'heading-one', children: [{ text: 'Title' }] });
+    expect(content[1].children).toEqual([
+      { text: 'Some ' },
+      { text: 'bold', bold: true },
+      { text: ' and ' },
+      { text: 'italic', italic: true },
+      { text: ' ' },
+      { text: 'code', code: true },
+    ]);
+    expect(content[2]).toEqual({ type: 'block-quote', children: [{ text: 'Quoted' }] });
+    expect(content[3].type).toBe('heading-three');
+  });
+
+  it('should build nested bulleted and numbered lists', () => {
+    const { content } = markdownToContent('1. One\n2. Two\n   - Inner\n\n- Bullet');
+
+    expect(content[0].type).toBe('numbered-list');
+    expect(content[0].children).toHaveLength(2);
+    expect(content[0].children[1].children[1]).toEqual({
+      type: 'bulleted-list',
+      children: [{ type: 'list-item', children: [{ text: 'Inner' }] }],
+    });
+    expect(content[1].type).toBe('bulleted-list');
+  });
+
+  it('should keep external links and leave unknown wikilinks as text', () => {
+    const { content, unresolvedLinks } = markdownToContent('See [site](https://example.com) and [[Missing|a note]]');
+
+    expect(content[0].children[1]).toMatchObject({ type: 'link', url: 'https://example.com', isExternal: true, customText: 'site' });
+    expect(content[0].children[2]).toEqual({ text: ' and a note' });
+    expect(unresolvedLinks).toEqual(['Missing']);
+  });
+
+  it('should always give Slate a text node around links', () => {
+    const { content } = markdownToContent('<https://example.com>');
+    expect(content[0].children.map((child: any) => child.type || 'text')).toEqual(['text', 'link', 'text']);
+  });
+});
+
+describe('titles and sources', () => {
+  it('should read front matter', () => {
+    expect(parseFrontMatter('---\ntitle: "My note"\ntags: a\n---\nBody')).toEqual({
+      fields: { title: 'My note', tags: 'a' },
+      body: 'Body',
+    });
+  });
+
+  it('should take Notion titles from the first heading and drop the ID from names', () => {
+    const file = { path: 'Export/Ideas 0123456789abcdef0123456789abcdef.md', text: '# Ideas\n\nBody' };
+    expect(detectImportSource([file.path])).toBe('notion');
+    expect(getImportTitle(file, 'notion')).toEqual({ title: 'Ideas', body: 'Body' });
+    expect(getImportTitle({ path: 'vault/Daily log.md', text: '# Heading' }, 'obsidian').title).toBe('Daily log');
+  });
+
+  it('should spot an Obsidian vault by its settings folder', () => {
+    expect(detectImportSource(['vault/.obsidian/app.json', 'vault/Note.md'])).toBe('obsidian');
+    expect(detectImportSource(['notes/a.md'])).toBe('markdown');
+  });
+
+  it('should resolve relative paths against the linking file', () => {
+    expect(resolveRelativePath('vault/projects/plan.md', '../ideas/next.md')).toBe('vault/ideas/next.md');
+  });
+});
+
+describe('buildImportPlan', () => {
+  it('should link imported pages to each other by wikilink and relative path', () => {
+    const plan = buildImportPlan([
+      { path: 'vault/.obsidian/app.json', text: '' },
+      { path: 'vault/Alpha.md', text: 'Links to [[Beta]] and [beta again](sub/Beta.md)' },
+      { path: 'vault/sub/Beta.md', text: 'Back to [[Alpha#Section|the start]]' },
+      { path: 'vault/image.png', text: '' },
+    ], noExistingPages, 'link', idFactory());
+
+    const [alpha, beta] = plan.pages;
+    expect(plan.source).toBe('obsidian');
+    expect(plan.skippedFiles).toEqual(['vault/.obsidian/app.json', 'vault/image.png']);
+    expect(alpha.linkCount).toBe(2);
+    expect(alpha.content[0].children[1]).toMatchObject({ type: 'link', pageId: beta.pageId, url: `/${beta.pageId}`, pageTitle: 'Beta' });
+    expect(beta.content[0].children[1]).toMatchObject({ pageId: alpha.pageId, customText: 'the start' });
+  });
+
+  it('should resolve Notion links whose file names carry IDs', () => {
+    const plan = buildImportPlan([
+      { path: 'Home 11111111111111111111111111111111.md', text: '# Home\n\n[Reading list](Reading%20list%2022222222222222222222222222222222.md)' },
+      { path: 'Reading list 22222222222222222222222222222222.md', text: '# Reading list\n\nBooks' },
+    ], noExistingPages, 'link', idFactory());
+
+    expect(plan.pages.map(page => page.title)).toEqual(['Home', 'Reading list']);
+    expect(plan.pages[0].content[0].children[1].pageId).toBe(plan.pages[1].pageId);
+  });
+
+  it('should handle titles that match existing pages by the chosen strategy', () => {
+    const existing = new Map([['ideas', { pageId: 'existing-1', title: 'Ideas' }]]);
+    const files = [
+      { path: 'ideas.md', text: 'New ideas' },
+      { path: 'log.md', text: 'See [[Ideas]]' },
+    ];
+
+    const linked = buildImportPlan(files, existing, 'link', idFactory());
+    expect(linked.pages[0]).toMatchObject({ action: 'existing', pageId: 'existing-1' });
+    expect(linked.pages[1].content[0].children[1].pageId).toBe('existing-1');
+
+    const renamed = buildImportPlan(files, existing, 'rename', idFactory());
+    expect(renamed.pages[0]).toMatchObject({ action: 'rename', title: 'ideas (imported)' });
+
+    const duplicated = buildImportPlan(files, existing, 'duplicate', idFactory());
+    expect(duplicated.pages[0]).toMatchObject({ action: 'create', title: 'ideas' });
+  });
+
+  it('should rename the second of two imported files with the same title', () => {
+    const plan = buildImportPlan([
+      { path: 'a/Notes.md', text: '' },
+      { path: 'b/Notes.md', text: '' },
+    ], noExistingPages, 'link', idFactory());
+    expect(plan.pages.map(page => page.title)).toEqual(['Notes', 'Notes (imported)']);
+  });
+});
+
+describe('readZipArchive', () => {
+  it('should read back the files in an archive', () => {
+    const zip = createZipArchive([
+      { path: 'vault/a.md', data: 'Hello' },
+      { path: 'vault/b.md', data: 'Wörld' },
+    ]);
+    const files = readZipArchive(zip, 1024);
+
+    expect(files.map(file => file.path)).toEqual(['vault/a.md', 'vault/b.md']);
+    expect(Buffer.from(files[1].data).toString('utf8')).toBe('Wörld');
+  });
+
+  it('should refuse archives that unpack past the size limit', () => {
+    const zip = createZipArchive([{ path: 'big.md', data: 'x'.repeat(100) }]);
+    expect(() => readZipArchive(zip, 50)).toThrow('too large');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests for Page Blame Utilities
+ */
+
+import { blameVersion, computeBlame, orderVersionChain, BlameVersion } from '../pageBlame';
+
+const p = (text: string) => ({ type: 'paragraph', children: [{ text }] });
+
+const version = (id: string, userId: string, blocks: any[], extra: Partial<BlameVersion> = {}): BlameVersion => ({
+  id,
+  userId,
+  username: userId,
+  content: JSON.stringify(blocks),
+  createdAt: `2024-01-0${id.replace(/\D/g, '') || 1}T00:00:00.000Z`,
+  ...extra,
+});
+
+describe('Page Blame Utilities', () => {
+  describe('blameVersion', () => {
+    it('should credit every paragraph of the first version to its author', () => {
+      const blame = blameVersion(null, version('v1', 'alice', [p('one'), p('two')]));
+      expect(blame.map(entry => entry.userId)).toEqual(['alice', 'alice']);
+    });
+
+    it('should keep attribution for unchanged paragraphs', () => {
+      const first = version('v1', 'alice', [p('one'), p('two')]);
+      const second = version('v2', 'bob', [p('one'), p('two edited'), p('three')]);
+      const blame = blameVersion({ content: first.content, blame: blameVersion(null, first) }, second);
+
+      expect(blame.map(entry => entry.versionId)).toEqual(['v1', 'v2', 'v2']);
+    });
+  });
+
+  describe('orderVersionChain', () => {
+    it('should follow previousVersionId from the head and skip side branches', () => {
+      const versions = [
+        version('v3', 'a', [], { previousVersionId: 'v1' }),
+        version('v1', 'a', []),
+        version('v2', 'b', [], { previousVersionId: 'v1' }),
+      ];
+
+      expect(orderVersionChain(versions, 'v3').map(v => v.id)).toEqual(['v1', 'v3']);
+    });
+  });
+
+  describe('computeBlame', () => {
+    it('should credit restored paragraphs to their original authors', () => {
+      const chain = [
+        version('v1', 'alice', [p('original')]),
+        version('v2', 'bob', [p('rewritten')], { previousVersionId: 'v1' }),
+        version('v3', 'carol', [p('original')], { previousVersionId: 'v2', restoredFrom: { versionId: 'v1' } }),
+      ];
+
+      expect(computeBlame(chain).get('v3')?.[0].userId).toBe('alice');
+    });
+
+    it('should reuse cached blame instead of recomputing it', () => {
+      const chain = [
+        version('v1', 'alice', [p('one')]),
+        version('v2', 'bob', [p('one'), p('two')], { previousVersionId: 'v1' }),
+      ];
+      const cachedEntry = { versionId: 'v0', userId: 'zoe', username: 'zoe', createdAt: '' };
+
+      const blame = computeBlame(chain, new Map([['v1', [cachedEntry]]]));
+      expect(blame.get('v2')?.map(entry => entry.userId)).toEqual(['zoe', 'bob']);
+    });
+  });
+});
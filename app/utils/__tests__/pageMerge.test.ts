@@ -0,0 +1,106 @@
+/**
+ * Tests for Page Merge Utilities
+ */
+
+import { mergeKeepingBoth, matchBlocks, threeWayMerge, toBlocks } from '../pageMerge';
+
+const p = (text: string) => ({ type: 'paragraph', children: [{ text }] });
+
+describe('Page Merge Utilities', () => {
+  describe('toBlocks', () => {
+    it('should parse JSON string content', () => {
+      expect(toBlocks(JSON.stringify([p('a')]))).toEqual([p('a')]);
+    });
+
+    it('should wrap plain text in a paragraph', () => {
+      expect(toBlocks('hello')).toEqual([p('hello')]);
+    });
+
+    it('should return an empty array for missing content', () => {
+      expect(toBlocks(null)).toEqual([]);
+    });
+  });
+
+  describe('matchBlocks', () => {
+    it('should find the longest common subsequence', () => {
+      expect(matchBlocks(['a', 'b', 'c', 'd'], ['a', 'c', 'd', 'e'])).toEqual([[0, 0], [2, 1], [3, 2]]);
+    });
+  });
+
+  describe('mergeKeepingBoth', () => {
+    it('should keep paragraphs added on either side', () => {
+      const theirs = [p('intro'), p('their addition'), p('outro')];
+      const mine = [p('intro'), p('my addition'), p('outro')];
+
+      expect(mergeKeepingBoth(theirs, mine)).toEqual([
+        p('intro'),
+        p('their addition'),
+        p('my addition'),
+        p('outro'),
+      ]);
+    });
+
+    it('should not duplicate shared paragraphs', () => {
+      const content = [p('one'), p('two')];
+      expect(mergeKeepingBoth(content, content)).toEqual(content);
+    });
+
+    it('should keep trailing paragraphs from both sides', () => {
+      expect(mergeKeepingBoth([p('a'), p('b')], [p('a'), p('c')])).toEqual([p('a'), p('b'), p('c')]);
+    });
+  });
+
+  describe('threeWayMerge', () => {
+    const link = (pageId: string) => ({ type: 'link', pageId, pageTitle: pageId, children: [{ text: pageId }] });
+
+    it('should merge edits to different paragraphs', () => {
+      const base = [p('one'), p('two'), p('three')];
+      const theirs = [p('one edited'), p('two'), p('three')];
+      const mine = [p('one'), p('two'), p('three edited')];
+
+      const result = threeWayMerge(base, theirs, mine);
+
+      expect(result.clean).toBe(true);
+      expect(result.content).toEqual([p('one edited'), p('two'), p('three edited')]);
+    });
+
+    it('should merge paragraphs inserted in different places', () => {
+      const base = [p('one'), p('two')];
+      const theirs = [p('zero'), p('one'), p('two')];
+      const mine = [p('one'), p('two'), p('three')];
+
+      expect(threeWayMerge(base, theirs, mine).content).toEqual([p('zero'), p('one'), p('two'), p('three')]);
+    });
+
+    it('should merge link and text edits within the same paragraph', () => {
+      const base = [{ type: 'paragraph', children: [{ text: 'see ' }, link('a'), { text: ' for more' }] }];
+      const theirs = [{ type: 'paragraph', children: [{ text: 'see ' }, link('b'), { text: ' for more' }] }];
+      const mine = [{ type: 'paragraph', children: [{ text: 'read ' }, link('a'), { text: ' for more' }] }];
+
+      const result = threeWayMerge(base, theirs, mine);
+
+      expect(result.clean).toBe(true);
+      expect(result.content).toEqual([{ type: 'paragraph', children: [{ text: 'read ' }, link('b'), { text: ' for more' }] }]);
+    });
+
+    it('should report overlapping edits and keep both sides', () => {
+      const base = [p('one'), p('two')];
+      const theirs = [p('one'), p('two by them')];
+      const mine = [p('one'), p('two by me')];
+
+      const result = threeWayMerge(base, theirs, mine);
+
+      expect(result.clean).toBe(false);
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0].index).toBe(1);
+      expect(result.content).toEqual([p('one'), p('two by them'), p('two by me')]);
+    });
+
+    it('should accept identical edits on both sides', () => {
+      const base = [p('one')];
+      const edited = [p('one!')];
+
+      expect(threeWayMerge(base, edited, edited)).toEqual({ content: edited, conflicts: [], clean: true });
+    });
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Tests for suggested edits
+ */
+
+import { applySuggestion, getSuggestionInputError } from '../pageSuggestions';
+
+const paragraph = (text: string) => ({ type: 'paragraph', children: [{ text }] });
+
+const base = [
+  paragraph('Cities should ban cars.'),
+  paragraph('Buses are cheaper than roads.'),
+  paragraph('Bikes need lanes.'),
+];
+
+describe('applySuggestion', () => {
+  const suggested = [base[0], paragraph('Buses are far cheaper than roads.'), base[2]];
+
+  it('should take the suggestion as is when the page has not changed', () => {
+    expect(applySuggestion(base, base, suggested)).toEqual(suggested);
+  });
+
+  it('should merge the suggestion onto edits made to other paragraphs since', () => {
+    const current = [paragraph('Cities should ban most cars.'), base[1], base[2]];
+    expect(applySuggestion(base, current, suggested)).toEqual([current[0], suggested[1], base[2]]);
+  });
+
+  it('should read versions stored as JSON', () => {
+    expect(applySuggestion(JSON.stringify(base), base, JSON.stringify(suggested))).toEqual(suggested);
+  });
+
+  it('should give null when the page has since changed the same paragraph', () => {
+    const current = [base[0], paragraph('Trams are cheaper than roads.'), base[2]];
+    expect(applySuggestion(base, current, suggested)).toBeNull();
+  });
+});
+
+describe('getSuggestionInputError', () => {
+  it('should accept page content with an optional note and base version', () => {
+    expect(getSuggestionInputError({ content: base })).toBeNull();
+    expect(getSuggestionInputError({ content: base, note: 'Fixed a typo', baseVersionId: 'v1' })).toBeNull();
+  });
+
+  it('should reject missing content, overlong notes and bad base versions', () => {
+    expect(getSuggestionInputError({ content: [] })).not.toBeNull();
+    expect(getSuggestionInputError({ content: 'text' })).not.toBeNull();
+    expect(getSuggestionInputError({ content: base, note: 'x'.repeat(501) })).toBe('Notes can be at most 500 characters');
+    expect(getSuggestionInputError({ content: base, baseVersionId: 3 })).not.toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Tests for page templates
+ */
+
+import {
+  canViewTemplate,
+  fillTemplate,
+  getBuiltInTemplateValues,
+  getPageTemplateInputError,
+  getTemplatePlaceholders,
+} from '../pageTemplates';
+
+const paragraph = (text: string) => ({ type: 'paragraph', children: [{ text }] });
+
+const validInput = {
+  title: 'Book review',
+  description: 'For reviewing books',
+  content: [paragraph('{{book title}} by {{author name}}')],
+  visibility: 'public',
+  groupId: null,
+};
+
+describe('getPageTemplateInputError', () => {
+  it('should accept a complete template', () => {
+    expect(getPageTemplateInputError(validInput)).toBeNull();
+    expect(getPageTemplateInputError({ ...validInput, description: undefined })).toBeNull();
+    expect(getPageTemplateInputError({ ...validInput, visibility: 'group', groupId: 'group-1' })).toBeNull();
+  });
+
+  it('should reject a missing or overlong title', () => {
+    expect(getPageTemplateInputError({ ...validInput, title: '  ' })).toBe('Templates need a title');
+    expect(getPageTemplateInputError({ ...validInput, title: 'x'.repeat(101) })).toMatch(/at most 100/);
+  });
+
+  it('should reject empty content, unknown visibility and group templates without a group', () => {
+    expect(getPageTemplateInputError({ ...validInput, content: [] })).toMatch(/content/);
+    expect(getPageTemplateInputError({ ...validInput, visibility: 'friends' })).toMatch(/visibility/);
+    expect(getPageTemplateInputError({ ...validInput, visibility: 'group' })).toBe('Choose the group to share the template with');
+  });
+});
+
+describe('canViewTemplate', () => {
+  const groupTemplate = { userId: 'author', visibility: 'group' as const, groupId: 'group-1' };
+
+  it('should let the author see any of their templates', () => {
+    expect(canViewTemplate({ ...groupTemplate, visibility: 'private' }, 'author')).toBe(true);
+  });
+
+  it('should limit group templates to group members and private ones to the author', () => {
+    expect(canViewTemplate(groupTemplate, 'reader', ['group-1'])).toBe(true);
+    expect(canViewTemplate(groupTemplate, 'reader', ['group-2'])).toBe(false);
+    expect(canViewTemplate({ ...groupTemplate, visibility: 'private' }, 'reader', ['group-1'])).toBe(false);
+  });
+
+  it('should let anyone see public templates', () => {
+    expect(canViewTemplate({ ...groupTemplate, visibility: 'public' }, null)).toBe(true);
+  });
+});
+
+describe('getTemplatePlaceholders', () => {
+  it('should list each placeholder once in order, leaving out built-in ones', () => {
+    const content = [
+      paragraph('{{ book title }} - reviewed {{date}} by {{author}}'),
+      { type: 'list', children: [paragraph('Rating: {{rating}}'), paragraph('{{book title}} again')] },
+    ];
+    expect(getTemplatePlaceholders(content)).toEqual(['book title', 'rating']);
+  });
+});
+
+describe('fillTemplate', () => {
+  it('should fill placeholders with values and keep the ones left blank', () => {
+    const content = [paragraph('{{book title}}, rated {{rating}} on {{date}}')];
+    const filled = fillTemplate(content, {
+      'book title': 'Dune',
+      rating: ' ',
+      ...getBuiltInTemplateValues('writer', new Date(2026, 9, 19)),
+    });
+    expect(filled).toEqual([paragraph('Dune, rated {{rating}} on 2026-10-19')]);
+    expect(content).toEqual([paragraph('{{book title}}, rated {{rating}} on {{date}}')]);
+  });
+
+  it('should not treat object properties as values', () => {
+    expect(fillTemplate([paragraph('{{constructor}}')], {})).toEqual([paragraph('{{constructor}}')]);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for Recurring Pledges
+ */
+
+import { fitRecurringPledges, getGroupPledgeDistribution, resolvePledgeCents } from '../recurringPledges';
+import type { RecurringPledge } from '../../types/allocation';
+
+const pledge = (overrides: Partial<RecurringPledge>): RecurringPledge => ({
+  id: 'pledge',
+  userId: 'supporter',
+  targetType: 'page',
+  targetId: 'page-1',
+  amountType: 'fixed',
+  usdCents: 200,
+  status: 'active',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('Recurring Pledges', () => {
+  describe('resolvePledgeCents', () => {
+    it('should use the fixed amount regardless of budget', () => {
+      expect(resolvePledgeCents(pledge({ usdCents: 500 }), 1000)).toBe(500);
+      expect(resolvePledgeCents(pledge({ usdCents: 500 }), 0)).toBe(500);
+    });
+
+    it('should round percentage pledges down', () => {
+      expect(resolvePledgeCents(pledge({ amountType: 'percentage', percent: 10, usdCents: undefined }), 1050)).toBe(105);
+      expect(resolvePledgeCents(pledge({ amountType: 'percentage', percent: 33, usdCents: undefined }), 1000)).toBe(330);
+      expect(resolvePledgeCents(pledge({ amountType: 'percentage', percent: 150, usdCents: undefined }), 1000)).toBe(1000);
+    });
+  });
+
+  describe('fitRecurringPledges', () => {
+    const pledges = [
+      pledge({ id: 'big', usdCents: 600 }),
+      pledge({ id: 'small', usdCents: 200 }),
+      pledge({ id: 'medium', usdCents: 300 }),
+      pledge({ id: 'gone', usdCents: 100, status: 'cancelled' }),
+    ];
+
+    it('should keep everything active when the budget covers it', () => {
+      const fits = fitRecurringPledges(pledges, 1500, true);
+      expect(fits.map(fit => fit.status)).toEqual(['active', 'active', 'active']);
+      expect(fits.find(fit => fit.pledgeId === 'gone')).toBeUndefined();
+    });
+
+    it('should suspend the largest pledges first when over budget', () => {
+      const fits = fitRecurringPledges(pledges, 600, true);
+      expect(fits).toEqual([
+        { pledgeId: 'small', usdCents: 200, status: 'active' },
+        { pledgeId: 'medium', usdCents: 300, status: 'active' },
+        { pledgeId: 'big', usdCents: 600, status: 'suspended', suspensionReason: 'insufficient_budget' },
+      ]);
+    });
+
+    it('should restore suspended pledges once the budget covers them', () => {
+      const fits = fitRecurringPledges([pledge({ id: 'paused', status: 'suspended' })], 1000, true);
+      expect(fits[0].status).toBe('active');
+    });
+
+    it('should suspend everything when the subscription is inactive', () => {
+      const fits = fitRecurringPledges(pledges, 1500, false);
+      expect(fits.every(fit => fit.suspensionReason === 'subscription_inactive')).toBe(true);
+    });
+
+    it('should shrink percentage pledges with the budget instead of suspending them', () => {
+      const fits = fitRecurringPledges(
+        [pledge({ id: 'share', amountType: 'percentage', percent: 10, usdCents: undefined })],
+        500,
+        true
+      );
+      expect(fits).toEqual([{ pledgeId: 'share', usdCents: 50, status: 'active' }]);
+    });
+
+    it('should take manual allocations out of the budget first', () => {
+      const fits = fitRecurringPledges(pledges, 1500, true, 1100);
+      expect(fits.map(fit => [fit.pledgeId, fit.status])).toEqual([
+        ['small', 'active'],
+        ['medium', 'suspended'],
+        ['big', 'suspended'],
+      ]);
+    });
+  });
+
+  describe('getGroupPledgeDistribution', () => {
+    it('should follow the fund distribution and share the supporter\'s part in proportion', () => {
+      const distribution = getGroupPledgeDistribution(
+        ['a', 'supporter', 'b'],
+        'supporter',
+        { a: 30, supporter: 40, b: 30 }
+      );
+      expect(distribution).toEqual({ a: 50, b: 50 });
+    });
+
+    it('should leave out people in the distribution who are no longer members', () => {
+      const distribution = getGroupPledgeDistribution(['a', 'b'], 'supporter', { a: 60, b: 20, former: 20 });
+      expect(distribution).toEqual({ a: 75, b: 25 });
+    });
+
+    it('should split evenly when the group has no fund distribution', () => {
+      expect(getGroupPledgeDistribution(['a', 'supporter', 'b'], 'supporter', null)).toEqual({ a: 50, b: 50 });
+    });
+
+    it('should leave nobody to pay when the supporter is the only member', () => {
+      expect(getGroupPledgeDistribution(['supporter'], 'supporter', { supporter: 100 })).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for reply quoting and threading
+ */
+
+import {
+  MAX_REPLY_ANCESTORS,
+  buildReplyThreads,
+  countReplyThreads,
+  createReplyQuote,
+  filterReplyThreads,
+  getReplyAncestorIds,
+  getReplyQuoteInput,
+  getReplyRootId,
+  resolveReplyQuote,
+  type ThreadableReply,
+} from '../replyThreads';
+
+const content = [
+  { type: 'paragraph', children: [{ text: 'Cities should ban cars.' }] },
+  {
+    type: 'paragraph',
+    children: [
+      { text: 'See ' },
+      { type: 'link', pageId: 'abc', children: [{ text: 'the study' }] },
+      { text: ' on cars.' },
+    ],
+  },
+];
+
+describe('createReplyQuote', () => {
+  it('should anchor a passage to its block and range, link text included', () => {
+    expect(createReplyQuote(content, 'the study on cars')).toEqual({
+      text: 'the study on cars',
+      blockIndex: 1,
+      startOffset: 4,
+      endOffset: 21,
+    });
+  });
+
+  it('should prefer the occurrence in the hinted block', () => {
+    expect(createReplyQuote(content, 'cars', 1)).toMatchObject({ blockIndex: 1, startOffset: 17 });
+    expect(createReplyQuote(content, 'cars', 0)).toMatchObject({ blockIndex: 0, startOffset: 18 });
+  });
+
+  it('should read content stored as JSON and reject passages that are not there', () => {
+    expect(createReplyQuote(JSON.stringify(content), 'ban cars')).toMatchObject({ blockIndex: 0 });
+    expect(createReplyQuote(content, 'ban bikes')).toBeNull();
+    expect(createReplyQuote('not json', 'ban cars')).toBeNull();
+  });
+});
+
+describe('resolveReplyQuote', () => {
+  const quote = createReplyQuote(content, 'ban cars')!;
+
+  it('should keep a quote whose passage has not moved', () => {
+    expect(resolveReplyQuote(content, quote)).toBe(quote);
+  });
+
+  it('should anchor a moved passage again', () => {
+    const edited = [{ type: 'paragraph', children: [{ text: 'Intro.' }] }, ...content];
+    expect(resolveReplyQuote(edited, quote)).toMatchObject({ blockIndex: 1, startOffset: 14 });
+  });
+
+  it('should give null when the passage was edited out', () => {
+    const edited = [{ type: 'paragraph', children: [{ text: 'Cities should tax cars.' }] }];
+    expect(resolveReplyQuote(edited, quote)).toBeNull();
+  });
+});
+
+describe('getReplyQuoteInput', () => {
+  it('should accept selected text with an optional block index', () => {
+    expect(getReplyQuoteInput({ text: ' ban cars ', blockIndex: 2 })).toEqual({ text: 'ban cars', blockIndex: 2 });
+    expect(getReplyQuoteInput({ text: 'ban cars', blockIndex: -1 })).toEqual({ text: 'ban cars', blockIndex: null });
+  });
+
+  it('should reject empty and overlong passages', () => {
+    expect(getReplyQuoteInput({ text: '  ' })).toBeNull();
+    expect(getReplyQuoteInput({ text: 'x'.repeat(1001) })).toBeNull();
+    expect(getReplyQuoteInput('ban cars')).toBeNull();
+  });
+});
+
+describe('getReplyAncestorIds', () => {
+  it('should append the parent to its own ancestors', () => {
+    expect(getReplyAncestorIds({ id: 'page' })).toEqual(['page']);
+    expect(getReplyAncestorIds({ id: 'r1', replyAncestorIds: ['page'] })).toEqual(['page', 'r1']);
+  });
+});
+
+describe('getReplyRootId', () => {
+  it('should keep the thread\'s root once deep ancestors are trimmed', () => {
+    let parent: { id: string; replyRootId?: string; replyAncestorIds?: string[] } = { id: 'page' };
+    for (let depth = 1; depth <= MAX_REPLY_ANCESTORS + 5; depth++) {
+      parent = { id: `r${depth}`, replyRootId: getReplyRootId(parent), replyAncestorIds: getReplyAncestorIds(parent) };
+    }
+    expect(parent.replyAncestorIds).not.toContain('page');
+    expect(parent.replyRootId).toBe('page');
+  });
+
+  it('should fall back to the first ancestor for replies saved before roots were stored', () => {
+    expect(getReplyRootId({ id: 'r2', replyAncestorIds: ['page', 'r1'] })).toBe('page');
+  });
+});
+
+describe('reply threads', () => {
+  const reply = (id: string, replyTo: string, replyType: ThreadableReply['replyType'], day: number, replyAncestorIds?: string[]): ThreadableReply => ({
+    id,
+    replyTo,
+    replyAncestorIds,
+    replyType,
+    createdAt: `2026-03-0${day}T00:00:00Z`,
+  });
+
+  const replies = [
+    reply('a', 'page', 'agree', 1),
+    reply('b', 'page', 'disagree', 2),
+    reply('a1', 'a', 'disagree', 3, ['page', 'a']),
+    reply('a2', 'a', 'neutral', 2, ['page', 'a']),
+    // Its parent was deleted, so it hangs off the nearest listed ancestor
+    reply('x1', 'x', 'agree', 4, ['page', 'a', 'x']),
+  ];
+
+  const threads = buildReplyThreads(replies, 'page');
+
+  it('should nest replies newest thread first and oldest reply first within a thread', () => {
+    expect(threads.map(node => node.reply.id)).toEqual(['b', 'a']);
+    expect(threads[1].children.map(node => node.reply.id)).toEqual(['a2', 'a1', 'x1']);
+    expect(threads[1].children[0].depth).toBe(1);
+  });
+
+  it('should count replies and the ones nobody has answered', () => {
+    expect(countReplyThreads(threads)).toEqual({ agree: 2, disagree: 2, neutral: 1, unanswered: 4, total: 5 });
+  });
+
+  it('should keep the replies above a match for context', () => {
+    const disagreements = filterReplyThreads(threads, 'disagree');
+    expect(disagreements.map(node => [node.reply.id, node.matches])).toEqual([['b', true], ['a', false]]);
+    expect(disagreements[1].children.map(node => node.reply.id)).toEqual(['a1']);
+  });
+
+  it('should show unanswered replies', () => {
+    const unanswered = filterReplyThreads(threads, 'unanswered');
+    expect(unanswered.map(node => [node.reply.id, node.matches])).toEqual([['b', true], ['a', false]]);
+    expect(unanswered[1].children).toHaveLength(3);
+  });
+});
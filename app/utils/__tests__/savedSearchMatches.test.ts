@@ -0,0 +1,106 @@
+/**
+ * Tests for saved search bookkeeping
+ */
+
+import {
+  getSavedSearchQueryError,
+  normalizeSavedSearchQuery,
+  pageMatchesSavedSearch,
+  selectNewMatches,
+  rememberSeenPageIds,
+  appendDigestMatches,
+  describeSavedSearchMatches,
+  getSavedSearchUrl,
+  MAX_SEEN_PAGE_IDS,
+  MAX_DIGEST_MATCHES,
+} from '../savedSearchMatches';
+import { parseSearchQuery, type SearchablePage } from '../searchQueryParser';
+
+const page = (overrides: Partial<SearchablePage> = {}): SearchablePage => ({
+  id: 'page-1',
+  title: 'Zoning reform',
+  text: 'Notes on housing policy and rent caps',
+  authorId: 'user-2',
+  groupId: null,
+  linksTo: [],
+  createdAt: Date.UTC(2024, 2, 15),
+  isReply: false,
+  hasLocation: false,
+  ...overrides,
+});
+
+const match = (pageId: string) => ({ pageId, title: `Page ${pageId}` });
+
+describe('getSavedSearchQueryError', () => {
+  it('should accept plain words and operator-only queries', () => {
+    expect(getSavedSearchQueryError('"housing policy" author:following')).toBeNull();
+    expect(getSavedSearchQueryError('author:me is:reply')).toBeNull();
+  });
+
+  it('should reject empty, unparseable and exclusion-only queries', () => {
+    expect(getSavedSearchQueryError('   ')).toBe('Search query is required');
+    expect(getSavedSearchQueryError('after:2024-13')).not.toBeNull();
+    expect(getSavedSearchQueryError('-sleep')).toBe('Search query needs words or filters to match on');
+  });
+
+  it('should collapse whitespace', () => {
+    expect(normalizeSavedSearchQuery('  housing   policy ')).toBe('housing policy');
+  });
+});
+
+describe('pageMatchesSavedSearch', () => {
+  it('should require every plain word as well as the operators', () => {
+    expect(pageMatchesSavedSearch(page(), parseSearchQuery('housing rent'))).toBe(true);
+    expect(pageMatchesSavedSearch(page(), parseSearchQuery('housing transit'))).toBe(false);
+    expect(pageMatchesSavedSearch(page(), parseSearchQuery('housing author:user-3'))).toBe(false);
+  });
+});
+
+describe('selectNewMatches', () => {
+  it('should drop seen pages, duplicates and the searcher\'s own pages', () => {
+    const candidates = [
+      { ...match('a'), authorId: 'user-2' },
+      { ...match('b'), authorId: 'user-1' },
+      { ...match('c'), authorId: 'user-2' },
+      { ...match('a'), authorId: 'user-2' },
+      { ...match('d'), authorId: 'user-3' },
+    ];
+    expect(selectNewMatches(candidates, ['c'], 'user-1')).toEqual([match('a'), match('d')]);
+  });
+});
+
+describe('remembered pages and digest queue', () => {
+  it('should keep the most recent seen page ids', () => {
+    const seen = Array.from({ length: MAX_SEEN_PAGE_IDS }, (_, i) => `old-${i}`);
+    const updated = rememberSeenPageIds(seen, [match('new')]);
+    expect(updated).toHaveLength(MAX_SEEN_PAGE_IDS);
+    expect(updated[updated.length - 1]).toBe('new');
+    expect(updated).not.toContain('old-0');
+  });
+
+  it('should move a repeated page to the end of the digest queue and cap it', () => {
+    expect(appendDigestMatches([match('a'), match('b')], [match('a')]).map(m => m.pageId)).toEqual(['b', 'a']);
+
+    const pending = Array.from({ length: MAX_DIGEST_MATCHES }, (_, i) => match(`p${i}`));
+    const updated = appendDigestMatches(pending, [match('new')]);
+    expect(updated).toHaveLength(MAX_DIGEST_MATCHES);
+    expect(updated[0].pageId).toBe('p1');
+  });
+});
+
+describe('describeSavedSearchMatches', () => {
+  it('should name up to two pages and count the rest', () => {
+    expect(describeSavedSearchMatches('housing policy', [match('a')])).toEqual({
+      title: '1 new page matches "housing policy"',
+      message: '"Page a"',
+    });
+    expect(describeSavedSearchMatches('housing', [match('a'), match('b'), match('c')])).toEqual({
+      title: '3 new pages match "housing"',
+      message: '"Page a", "Page b" and 1 more',
+    });
+  });
+
+  it('should link back to the search', () => {
+    expect(getSavedSearchUrl('author:me garden')).toBe('/search?q=author%3Ame%20garden');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for the search query language
+ */
+
+import {
+  parseSearchQuery,
+  getSearchText,
+  compileTypesenseQuery,
+  compileTypesenseFilter,
+  pageMatchesSearchQuery,
+  getSearchOperatorSuggestions,
+  applySearchOperatorSuggestion,
+  parseSearchDate,
+  SEARCH_OPERATORS,
+  type SearchablePage,
+} from '../searchQueryParser';
+
+const page = (overrides: Partial<SearchablePage> = {}): SearchablePage => ({
+  id: 'page-1',
+  title: 'Morning practice',
+  text: 'Notes on daily practice and breathing',
+  authorId: 'user-1',
+  groupId: null,
+  linksTo: [],
+  createdAt: Date.UTC(2024, 2, 15),
+  isReply: false,
+  hasLocation: false,
+  ...overrides,
+});
+
+describe('parseSearchQuery', () => {
+  it('should split terms, phrases, exclusions and filters', () => {
+    const parsed = parseSearchQuery('"daily practice" meditation -sleep author:jamie is:reply');
+
+    expect(parsed.phrases).toEqual(['daily practice']);
+    expect(parsed.terms).toEqual(['meditation']);
+    expect(parsed.excluded).toEqual(['sleep']);
+    expect(parsed.filters).toEqual([
+      { field: 'author', value: 'jamie', negated: false },
+      { field: 'is', value: 'reply', negated: false },
+    ]);
+    expect(getSearchText(parsed)).toBe('daily practice meditation');
+  });
+
+  it('should read quoted filter values and negated filters', () => {
+    const parsed = parseSearchQuery('group:"Book Club" -has:location');
+    expect(parsed.filters).toEqual([
+      { field: 'group', value: 'Book Club', negated: false },
+      { field: 'has', value: 'location', negated: true },
+    ]);
+  });
+
+  it('should treat unknown prefixes and urls as plain words', () => {
+    const parsed = parseSearchQuery('note:thing https://example.com');
+    expect(parsed.filters).toEqual([]);
+    expect(parsed.terms).toEqual(['note:thing', 'https://example.com']);
+  });
+
+  it('should report invalid dates and unknown flags', () => {
+    const parsed = parseSearchQuery('before:2024-02-31 is:draft after:2023');
+    expect(parsed.errors).toHaveLength(2);
+    expect(parsed.filters).toEqual([
+      { field: 'after', value: '2023', negated: false, timestamp: Date.UTC(2023, 0, 1) },
+    ]);
+  });
+
+  it('should ignore an operator that is still being typed', () => {
+    const parsed = parseSearchQuery('garden author:');
+    expect(parsed.filters).toEqual([]);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.terms).toEqual(['garden']);
+  });
+});
+
+describe('parseSearchDate', () => {
+  it('should accept year, month and day precision', () => {
+    expect(parseSearchDate('2024')).toBe(Date.UTC(2024, 0, 1));
+    expect(parseSearchDate('2024-06')).toBe(Date.UTC(2024, 5, 1));
+    expect(parseSearchDate('2024-06-09')).toBe(Date.UTC(2024, 5, 9));
+    expect(parseSearchDate('June 2024')).toBeNull();
+  });
+});
+
+describe('Typesense compilation', () => {
+  it('should keep phrases and exclusions in q', () => {
+    const parsed = parseSearchQuery('"daily practice" meditation -sleep -"bad dreams" author:jamie');
+    expect(compileTypesenseQuery(parsed)).toBe('"daily practice" meditation -sleep -"bad dreams"');
+    expect(compileTypesenseQuery(parseSearchQuery('is:reply'))).toBe('');
+  });
+
+  it('should compile filters to filter_by clauses using resolved ids', () => {
+    const parsed = parseSearchQuery('author:jamie -group:club linksto:ideas before:2024-06-01 has:location -is:reply');
+    parsed.filters[0].ids = ['uid-1'];
+    parsed.filters[1].ids = ['group-1', 'group-2'];
+
+    const { filterBy, matchesNothing } = compileTypesenseFilter(parsed);
+    expect(matchesNothing).toBe(false);
+    expect(filterBy).toBe([
+      'authorId:=[`uid-1`]',
+      'groupId:!=[`group-1`,`group-2`]',
+      'linksTo:=[`ideas`]',
+      `createdAt:<${Date.UTC(2024, 5, 1) / 1000}`,
+      'hasLocation:=true',
+      'isReply:!=true',
+    ].join(' && '));
+  });
+
+  it('should flag a linkedfrom page with no links as matching nothing', () => {
+    const parsed = parseSearchQuery('linkedfrom:empty');
+    parsed.filters[0].ids = [];
+    expect(compileTypesenseFilter(parsed)).toEqual({ filterBy: '', matchesNothing: true });
+  });
+});
+
+describe('pageMatchesSearchQuery', () => {
+  it('should require phrases and reject exclusions', () => {
+    expect(pageMatchesSearchQuery(page(), parseSearchQuery('"daily practice"'))).toBe(true);
+    expect(pageMatchesSearchQuery(page(), parseSearchQuery('"evening practice"'))).toBe(false);
+    expect(pageMatchesSearchQuery(page(), parseSearchQuery('practice -breathing'))).toBe(false);
+  });
+
+  it('should apply filters and their negations', () => {
+    const reply = page({ isReply: true, linksTo: ['page-9'], groupId: 'group-1' });
+
+    expect(pageMatchesSearchQuery(reply, parseSearchQuery('is:reply linksto:page-9 group:group-1'))).toBe(true);
+    expect(pageMatchesSearchQuery(reply, parseSearchQuery('-is:reply'))).toBe(false);
+    expect(pageMatchesSearchQuery(reply, parseSearchQuery('author:user-2'))).toBe(false);
+    expect(pageMatchesSearchQuery(reply, parseSearchQuery('after:2024-03 before:2024-04'))).toBe(true);
+    expect(pageMatchesSearchQuery(reply, parseSearchQuery('after:2024-03-16'))).toBe(false);
+  });
+});
+
+describe('operator autocomplete', () => {
+  it('should suggest operators matching the word being typed', () => {
+    expect(getSearchOperatorSuggestions('garden au').map(op => op.syntax)).toEqual(['author:']);
+    expect(getSearchOperatorSuggestions('garden lin').map(op => op.syntax)).toEqual(['linksto:', 'linkedfrom:']);
+    expect(getSearchOperatorSuggestions('garden a')).toEqual([]);
+    expect(getSearchOperatorSuggestions('is:reply')).toEqual([]);
+  });
+
+  it('should replace the partial word, keeping a leading minus', () => {
+    const author = SEARCH_OPERATORS.find(op => op.syntax === 'author:')!;
+    const reply = SEARCH_OPERATORS.find(op => op.syntax === 'is:reply')!;
+
+    expect(applySearchOperatorSuggestion('garden au', author)).toBe('garden author:');
+    expect(applySearchOperatorSuggestion('garden -is', reply)).toBe('garden -is:reply ');
+  });
+});
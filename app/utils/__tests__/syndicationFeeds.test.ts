@@ -0,0 +1,119 @@
+/**
+ * Tests for RSS, Atom and JSON Feed rendering
+ */
+
+import {
+  getFeedETag,
+  getFeedLastModified,
+  isFeedNotModified,
+  parseFeedFormat,
+  renderAtom,
+  renderFeedExcerpt,
+  renderJsonFeed,
+  renderRss,
+  type Feed,
+} from '../syndicationFeeds';
+
+const content = JSON.stringify([
+  { type: 'paragraph', children: [{ text: 'Hello ' }, { text: 'world', bold: true }] },
+  { type: 'paragraph', children: [{ text: '' }, { type: 'link', pageId: 'p2', url: '/p2', children: [{ text: 'Next' }] }, { text: '' }] },
+]);
+
+const feed: Feed = {
+  title: 'Ada on WeWrite',
+  description: 'New pages by Ada',
+  homePageUrl: 'https://example.com/u/ada',
+  feedUrl: 'https://example.com/api/feeds/user/ada?format=rss',
+  items: [
+    {
+      id: 'p1',
+      title: 'Notes & <drafts>',
+      url: 'https://example.com/p1',
+      authorName: 'Ada',
+      published: '2026-01-01T10:00:00.000Z',
+      updated: '2026-01-03T10:00:00.000Z',
+      contentHtml: '<p>Hello</p>',
+      summary: 'Hello',
+    },
+    {
+      id: 'p2',
+      title: 'Older',
+      url: 'https://example.com/p2',
+      published: null,
+      updated: '2026-01-02T10:00:00.000Z',
+      contentHtml: '<p>]]> tricky</p>',
+      summary: '',
+    },
+  ],
+};
+
+describe('parseFeedFormat', () => {
+  it('should default to RSS and reject unknown formats', () => {
+    expect(parseFeedFormat(null)).toBe('rss');
+    expect(parseFeedFormat('ATOM')).toBe('atom');
+    expect(parseFeedFormat('json')).toBe('json');
+    expect(parseFeedFormat('xml')).toBeNull();
+  });
+});
+
+describe('renderFeedExcerpt', () => {
+  it('should render HTML with absolute links and a plain-text summary', () => {
+    const { html, summary } = renderFeedExcerpt(content, 'https://example.com');
+    expect(html).toContain('<strong>world</strong>');
+    expect(html).toContain('href="https://example.com/p2"');
+    expect(summary).toBe('Hello world Next');
+  });
+
+  it('should shorten long summaries', () => {
+    const { summary } = renderFeedExcerpt('x'.repeat(500));
+    expect(summary).toHaveLength(280);
+    expect(summary.endsWith('…')).toBe(true);
+  });
+});
+
+describe('renderers', () => {
+  it('should escape titles and keep item HTML intact in RSS', () => {
+    const rss = renderRss(feed);
+    expect(rss).toContain('<title>Notes &amp; &lt;drafts&gt;</title>');
+    expect(rss).toContain('<content:encoded><![CDATA[<p>Hello</p>]]></content:encoded>');
+    expect(rss).toContain(']]]]><![CDATA[>');
+    expect(rss).toContain('<lastBuildDate>Sat, 03 Jan 2026 10:00:00 GMT</lastBuildDate>');
+  });
+
+  it('should date an Atom feed by its newest item', () => {
+    const atom = renderAtom(feed);
+    expect(atom).toContain('<updated>2026-01-03T10:00:00.000Z</updated>');
+    expect(atom).toContain('<content type="html">&lt;p&gt;Hello&lt;/p&gt;</content>');
+    expect(atom).toContain('<author><name>Ada</name></author>');
+  });
+
+  it('should write JSON Feed 1.1', () => {
+    const json = JSON.parse(renderJsonFeed(feed));
+    expect(json.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(json.items[0]).toMatchObject({ id: 'p1', date_modified: '2026-01-03T10:00:00.000Z', authors: [{ name: 'Ada' }] });
+    expect(json.items[1].date_published).toBeUndefined();
+  });
+});
+
+describe('caching', () => {
+  it('should change the ETag when an item is updated or the format changes', () => {
+    const etag = getFeedETag(feed, 'rss');
+    expect(getFeedETag(feed, 'rss')).toBe(etag);
+    expect(getFeedETag(feed, 'atom')).not.toBe(etag);
+
+    const updated = { ...feed, items: [{ ...feed.items[0], updated: '2026-01-04T00:00:00.000Z' }, feed.items[1]] };
+    expect(getFeedETag(updated, 'rss')).not.toBe(etag);
+  });
+
+  it('should answer conditional requests', () => {
+    const etag = getFeedETag(feed, 'rss');
+    const lastModified = getFeedLastModified(feed);
+
+    expect(isFeedNotModified({ ifNoneMatch: etag }, etag, lastModified)).toBe(true);
+    expect(isFeedNotModified({ ifNoneMatch: '"other"' }, etag, lastModified)).toBe(false);
+    expect(isFeedNotModified({ ifModifiedSince: 'Sat, 03 Jan 2026 10:00:00 GMT' }, etag, lastModified)).toBe(true);
+    expect(isFeedNotModified({ ifModifiedSince: 'Fri, 02 Jan 2026 10:00:00 GMT' }, etag, lastModified)).toBe(false);
+    // If-None-Match takes precedence
+    expect(isFeedNotModified({ ifNoneMatch: '"other"', ifModifiedSince: 'Sat, 03 Jan 2026 10:00:00 GMT' }, etag, lastModified)).toBe(false);
+  });
+});
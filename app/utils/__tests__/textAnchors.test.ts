@@ -0,0 +1,102 @@
+/**
+ * Tests for text anchors and margin comments
+ */
+
+import { findTextAnchor, reanchorText } from '../textAnchors';
+import { getAnnotationInputError, groupAnnotationsByBlock } from '../pageAnnotations';
+import type { PageAnnotation } from '../../types/database';
+
+const paragraph = (text: string) => ({ type: 'paragraph', children: [{ text }] });
+
+const content = [
+  paragraph('Cities should ban cars.'),
+  paragraph('Buses are cheaper than roads.'),
+  paragraph('Bikes need lanes.'),
+];
+
+describe('reanchorText', () => {
+  const anchor = findTextAnchor(content, 'cheaper', 1)!;
+
+  it('should follow an unchanged block that moved', () => {
+    const edited = [paragraph('Intro.'), ...content];
+    expect(reanchorText(content, edited, anchor)).toEqual({ ...anchor, blockIndex: 2 });
+  });
+
+  it('should shift the range when its block was edited before it', () => {
+    const edited = [content[0], paragraph('City buses are cheaper than roads.'), content[2]];
+    expect(reanchorText(content, edited, anchor)).toEqual({ text: 'cheaper', blockIndex: 1, startOffset: 15, endOffset: 22 });
+  });
+
+  it('should keep the range when its block was edited after it', () => {
+    const edited = [content[0], paragraph('Buses are cheaper than new roads.'), content[2]];
+    expect(reanchorText(content, edited, anchor)).toEqual(anchor);
+  });
+
+  it('should take in text added inside the range', () => {
+    const wide = findTextAnchor(content, 'cheaper than roads', 1)!;
+    const edited = [content[0], paragraph('Buses are cheaper than most roads.'), content[2]];
+    expect(reanchorText(content, edited, wide)).toMatchObject({ text: 'cheaper than most roads', blockIndex: 1 });
+  });
+
+  it('should look for the passage again when the edit cut into it', () => {
+    const edited = [content[0], paragraph('Buses are cheap. Trams are cheaper.'), content[2]];
+    expect(reanchorText(content, edited, anchor)).toMatchObject({ text: 'cheaper', blockIndex: 1, startOffset: 27 });
+  });
+
+  it('should give null when the passage is gone', () => {
+    const edited = [content[0], paragraph('Buses cost less than roads.'), content[2]];
+    expect(reanchorText(content, edited, anchor)).toBeNull();
+  });
+});
+
+describe('getAnnotationInputError', () => {
+  it('should accept a comment on selected text', () => {
+    expect(getAnnotationInputError({ body: 'Source?', text: 'cheaper', blockIndex: 1 })).toBeNull();
+    expect(getAnnotationInputError({ body: 'Source?', text: 'cheaper' })).toBeNull();
+  });
+
+  it('should reject empty comments, missing text and bad block indexes', () => {
+    expect(getAnnotationInputError({ body: '  ', text: 'cheaper' })).toBe('Write a comment');
+    expect(getAnnotationInputError({ body: 'Source?', text: '' })).toBe('Select the text to comment on');
+    expect(getAnnotationInputError({ body: 'x'.repeat(2001), text: 'cheaper' })).not.toBeNull();
+    expect(getAnnotationInputError({ body: 'Source?', text: 'cheaper', blockIndex: 1.5 })).not.toBeNull();
+  });
+});
+
+describe('groupAnnotationsByBlock', () => {
+  const annotation = (id: string, blockIndex: number, startOffset: number, extra: Partial<PageAnnotation> = {}): PageAnnotation => ({
+    id,
+    pageId: 'page',
+    userId: 'user',
+    username: 'user',
+    body: 'Comment',
+    anchor: { text: 'x', blockIndex, startOffset, endOffset: startOffset + 1 },
+    anchorVersionId: null,
+    orphaned: false,
+    status: 'open',
+    resolvedBy: null,
+    resolvedAt: null,
+    createdAt: '2026-03-01T00:00:00Z',
+    updatedAt: '2026-03-01T00:00:00Z',
+    ...extra,
+  });
+
+  const annotations = [
+    annotation('a', 1, 8),
+    annotation('b', 1, 2),
+    annotation('c', 0, 0, { status: 'resolved' }),
+    annotation('d', 2, 0, { orphaned: true }),
+  ];
+
+  it('should list open comments by paragraph in text order', () => {
+    const byBlock = groupAnnotationsByBlock(annotations);
+    expect([...byBlock.keys()]).toEqual([1]);
+    expect(byBlock.get(1)!.map(a => a.id)).toEqual(['b', 'a']);
+  });
+
+  it('should include resolved comments when asked, but never orphaned ones', () => {
+    const byBlock = groupAnnotationsByBlock(annotations, { includeResolved: true });
+    expect(byBlock.get(0)!.map(a => a.id)).toEqual(['c']);
+    expect(byBlock.has(2)).toBe(false);
+  });
+});
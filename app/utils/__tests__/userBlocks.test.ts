@@ -0,0 +1,50 @@
+/**
+ * Tests for block and mute lists
+ */
+
+import {
+  normalizeBlockList,
+  applyBlockAction,
+  getHiddenAuthorIds,
+  filterHiddenAuthors,
+  EMPTY_BLOCK_LIST,
+} from '../userBlocks';
+
+describe('normalizeBlockList', () => {
+  it('should tolerate missing and malformed fields', () => {
+    expect(normalizeBlockList(undefined)).toEqual(EMPTY_BLOCK_LIST);
+    expect(normalizeBlockList({ blocked: ['a', 3 as any], muted: 'b' as any })).toEqual({ blocked: ['a'], muted: [] });
+  });
+});
+
+describe('applyBlockAction', () => {
+  it('should take a blocked user off the muted list', () => {
+    const list = applyBlockAction({ blocked: [], muted: ['a', 'b'] }, 'block', 'a');
+    expect(list).toEqual({ blocked: ['a'], muted: ['b'] });
+  });
+
+  it('should not mute someone who is already blocked', () => {
+    const list = { blocked: ['a'], muted: [] };
+    expect(applyBlockAction(list, 'mute', 'a')).toEqual(list);
+  });
+
+  it('should not add duplicates', () => {
+    expect(applyBlockAction({ blocked: [], muted: ['a'] }, 'mute', 'a')).toEqual({ blocked: [], muted: ['a'] });
+    expect(applyBlockAction({ blocked: ['a'], muted: [] }, 'block', 'a')).toEqual({ blocked: ['a'], muted: [] });
+  });
+
+  it('should only remove from the list the action names', () => {
+    const list = { blocked: ['a'], muted: ['b'] };
+    expect(applyBlockAction(list, 'unblock', 'a')).toEqual({ blocked: [], muted: ['b'] });
+    expect(applyBlockAction(list, 'unmute', 'a')).toEqual(list);
+    expect(applyBlockAction(list, 'unmute', 'b')).toEqual({ blocked: ['a'], muted: [] });
+  });
+});
+
+describe('filterHiddenAuthors', () => {
+  it('should drop items by blocked or muted authors and keep authorless items', () => {
+    const hidden = getHiddenAuthorIds({ blocked: ['a'], muted: ['b'] });
+    const items = [{ id: 1, userId: 'a' }, { id: 2, userId: 'b' }, { id: 3, userId: 'c' }, { id: 4 }];
+    expect(filterHiddenAuthors(items, hidden, (item: { userId?: string }) => item.userId).map(i => i.id)).toEqual([3, 4]);
+  });
+});
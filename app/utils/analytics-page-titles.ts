@@ -116,6 +116,7 @@ export const PAGE_TITLE_MAP: Record<string, string> = {
   '/admin/financial-tests': 'Admin: Writer Payouts',
   '/admin/writer-payouts': 'Admin: Writer Payouts',
   '/admin/writing-ideas': 'Admin: Writing Ideas',
+  '/admin/moderation': 'Admin: Moderation',
   '/admin/monthly-financials': 'Admin: Monthly Financials',
   '/admin/background-images': 'Admin: Background Images',
   '/admin/opengraph-images': 'Admin: OpenGraph Images',
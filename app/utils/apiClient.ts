@@ -544,13 +544,32 @@ export const visitorValidationApi = {
 
 /**
  * Daily Notes Operations
- * USED: getLatestDailyNote (dailyNoteNavigation.ts)
+ * USED: getLatestDailyNote (dailyNoteNavigation.ts), renderNote (useNewPageSetup),
+ * getTemplates/saveTemplates/resetTemplates (DailyNoteTemplatesCard)
  */
 export const dailyNotesApi = {
   /** Get latest daily note for a user */
   async getLatestDailyNote(userId: string): Promise<ApiResponse> {
     return apiCall(`/api/daily-notes?action=latest&userId=${userId}`);
   },
+
+  /** Starting title and content for a new daily note, or a weekly or monthly rollup */
+  async renderNote(kind: 'daily' | 'weekly' | 'monthly', date: string, timezone: string): Promise<ApiResponse> {
+    const params = new URLSearchParams({ kind, date, timezone });
+    return consolidatedClient.call(`/api/daily-notes/render?${params}`, { skipCache: true });
+  },
+
+  async getTemplates(): Promise<ApiResponse> {
+    return consolidatedClient.call('/api/daily-notes/templates', { skipCache: true });
+  },
+
+  async saveTemplates(templates: { daily: string; weekly: string; monthly: string }): Promise<ApiResponse> {
+    return apiCall('/api/daily-notes/templates', { method: 'PUT', body: JSON.stringify(templates) });
+  },
+
+  async resetTemplates(): Promise<ApiResponse> {
+    return apiCall('/api/daily-notes/templates', { method: 'DELETE' });
+  },
 };
 
 /**
@@ -591,19 +610,197 @@ export const followsApi = {
   }
 };
 
+/**
+ * User Block Operations
+ * USED: getBlockList, blockUser, unblockUser (UserBlockMenu.tsx, BlockedUsersCard.tsx)
+ */
+export const userBlocksApi = {
+  /** Blocked and muted users with usernames. Always fresh, since it changes from this tab */
+  async getBlockList(): Promise<ApiResponse> {
+    return consolidatedClient.call('/api/user-blocks', { skipCache: true });
+  },
+  async blockUser(userId: string, action: 'block' | 'mute'): Promise<ApiResponse> {
+    return apiCall('/api/user-blocks', { method: 'POST', body: JSON.stringify({ userId, action }) });
+  },
+  async unblockUser(userId: string, action: 'block' | 'mute'): Promise<ApiResponse> {
+    return apiCall(`/api/user-blocks?userId=${encodeURIComponent(userId)}&action=${action}`, { method: 'DELETE' });
+  }
+};
+
+/**
+ * Content Report Operations
+ * USED: createReport (ReportContentDialog.tsx)
+ */
+export const reportsApi = {
+  async createReport(report: { targetType: 'page' | 'reply' | 'user'; targetId: string; category: string; details?: string }): Promise<ApiResponse> {
+    return apiCall('/api/reports', { method: 'POST', body: JSON.stringify(report) });
+  }
+};
+
+/**
+ * Import Operations
+ * USED: previewImport, createImportedPage (ImportNotesCard.tsx)
+ */
+export const importApi = {
+  /** Dry run: the pages an upload would create. Sent as multipart, so not through apiCall. */
+  async previewImport(formData: FormData): Promise<ApiResponse> {
+    try {
+      const response = await fetch('/api/import', { method: 'POST', body: formData, credentials: 'include' });
+      const data = await response.json();
+      return response.ok
+        ? { success: true, data: data.data || data }
+        : { success: false, error: data.error || `HTTP ${response.status}`, statusCode: response.status };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Network error' };
+    }
+  },
+
+  /** Create one page from an import plan, keeping the ID other imported pages link to */
+  async createImportedPage(page: { pageId: string; title: string; content: any[] }): Promise<ApiResponse> {
+    return apiCall('/api/pages', {
+      method: 'POST',
+      body: JSON.stringify({ id: page.pageId, title: page.title, content: page.content })
+    });
+  }
+};
+
+/**
+ * Personal API Token Operations
+ * USED: all methods (ApiTokensCard.tsx)
+ */
+export const apiTokensApi = {
+  /** Always fresh, since tokens are created and revoked from the same card */
+  async getTokens(): Promise<ApiResponse> {
+    return consolidatedClient.call('/api/api-tokens', { skipCache: true });
+  },
+  async createToken(token: { name: string; scopes: string[]; rateLimit?: number; expiresInDays?: number | null }): Promise<ApiResponse> {
+    return apiCall('/api/api-tokens', { method: 'POST', body: JSON.stringify(token) });
+  },
+  async revokeToken(tokenId: string): Promise<ApiResponse> {
+    return apiCall(`/api/api-tokens/${tokenId}`, { method: 'DELETE' });
+  }
+};
+
+/**
+ * Outgoing Webhook Operations
+ * USED: all methods (WebhooksCard.tsx)
+ */
+export const webhooksApi = {
+  /** The user's endpoints, or a group's. Always fresh, since it changes from this tab */
+  async getEndpoints(groupId?: string): Promise<ApiResponse> {
+    const query = groupId ? `?groupId=${encodeURIComponent(groupId)}` : '';
+    return consolidatedClient.call(`/api/outgoing-webhooks${query}`, { skipCache: true });
+  },
+  async createEndpoint(endpoint: { url: string; events: string[]; description?: string; groupId?: string }): Promise<ApiResponse> {
+    return apiCall('/api/outgoing-webhooks', { method: 'POST', body: JSON.stringify(endpoint) });
+  },
+  async updateEndpoint(endpointId: string, updates: { url?: string; events?: string[]; description?: string; active?: boolean }): Promise<ApiResponse> {
+    return apiCall(`/api/outgoing-webhooks/${endpointId}`, { method: 'PATCH', body: JSON.stringify(updates) });
+  },
+  async deleteEndpoint(endpointId: string): Promise<ApiResponse> {
+    return apiCall(`/api/outgoing-webhooks/${endpointId}`, { method: 'DELETE' });
+  },
+  async rotateSecret(endpointId: string): Promise<ApiResponse> {
+    return apiCall(`/api/outgoing-webhooks/${endpointId}/rotate-secret`, { method: 'POST' });
+  },
+  async getDeliveries(endpointId: string): Promise<ApiResponse> {
+    return consolidatedClient.call(`/api/outgoing-webhooks/${endpointId}/deliveries`, { skipCache: true });
+  },
+  async redeliver(endpointId: string, deliveryId: string): Promise<ApiResponse> {
+    return apiCall(`/api/outgoing-webhooks/${endpointId}/deliveries/${deliveryId}/redeliver`, { method: 'POST' });
+  }
+};
+
+/**
+ * Page Annotation (margin comment) Operations
+ * USED: getAnnotations, setStatus, deleteAnnotation (PageAnnotationsProvider.tsx), createAnnotation (UnifiedTextSelectionMenu.tsx)
+ */
+export const pageAnnotationsApi = {
+  /** Always fresh - comments are re-anchored to the page's latest text */
+  async getAnnotations(pageId: string): Promise<ApiResponse> {
+    return consolidatedClient.call(`/api/pages/${pageId}/annotations`, { skipCache: true });
+  },
+  async createAnnotation(pageId: string, annotation: { body: string; text: string; blockIndex: number | null }): Promise<ApiResponse> {
+    return apiCall(`/api/pages/${pageId}/annotations`, { method: 'POST', body: JSON.stringify(annotation) });
+  },
+  async setStatus(pageId: string, annotationId: string, status: 'open' | 'resolved'): Promise<ApiResponse> {
+    return apiCall(`/api/pages/${pageId}/annotations/${annotationId}`, { method: 'PATCH', body: JSON.stringify({ status }) });
+  },
+  async deleteAnnotation(pageId: string, annotationId: string): Promise<ApiResponse> {
+    return apiCall(`/api/pages/${pageId}/annotations/${annotationId}`, { method: 'DELETE' });
+  }
+};
+
+/**
+ * Page Suggestion (suggested edit) Operations
+ * USED: getSuggestions (SuggestedEditsCard.tsx, suggestions page), getSuggestion, reviewSuggestion,
+ * withdrawSuggestion (SuggestionReviewCard.tsx), createSuggestion (suggest page)
+ */
+export const pageSuggestionsApi = {
+  async getSuggestions(pageId: string, status?: 'pending' | 'accepted' | 'rejected'): Promise<ApiResponse> {
+    const params = status ? `?status=${status}` : '';
+    return consolidatedClient.call(`/api/pages/${pageId}/suggestions${params}`, { skipCache: true });
+  },
+  async getSuggestion(pageId: string, suggestionId: string): Promise<ApiResponse> {
+    return consolidatedClient.call(`/api/pages/${pageId}/suggestions/${suggestionId}`, { skipCache: true });
+  },
+  async createSuggestion(pageId: string, suggestion: { content: any[]; note: string | null; baseVersionId: string | null }): Promise<ApiResponse> {
+    return apiCall(`/api/pages/${pageId}/suggestions`, { method: 'POST', body: JSON.stringify(suggestion) });
+  },
+  async reviewSuggestion(pageId: string, suggestionId: string, status: 'accepted' | 'rejected'): Promise<ApiResponse> {
+    return apiCall(`/api/pages/${pageId}/suggestions/${suggestionId}`, { method: 'PATCH', body: JSON.stringify({ status }) });
+  },
+  async withdrawSuggestion(pageId: string, suggestionId: string): Promise<ApiResponse> {
+    return apiCall(`/api/pages/${pageId}/suggestions/${suggestionId}`, { method: 'DELETE' });
+  }
+};
+
+/**
+ * Page Template Operations
+ * USED: getTemplates, deleteTemplate (templates page, PageTemplatePicker), getTemplate (useNewPageSetup,
+ * template edit page), createTemplate/updateTemplate (PageTemplateForm)
+ */
+export const pageTemplatesApi = {
+  async getTemplates(scope: 'mine' | 'groups' | 'public', query?: string): Promise<ApiResponse> {
+    const params = new URLSearchParams({ scope });
+    if (query) params.set('q', query);
+    return consolidatedClient.call(`/api/page-templates?${params}`, { skipCache: true });
+  },
+  async getTemplate(templateId: string): Promise<ApiResponse> {
+    return consolidatedClient.call(`/api/page-templates/${templateId}`, { skipCache: true });
+  },
+  async createTemplate(template: { title: string; description: string; content: any[]; visibility: 'private' | 'group' | 'public'; groupId: string | null }): Promise<ApiResponse> {
+    return apiCall('/api/page-templates', { method: 'POST', body: JSON.stringify(template) });
+  },
+  async updateTemplate(templateId: string, template: { title: string; description: string; content: any[]; visibility: 'private' | 'group' | 'public'; groupId: string | null }): Promise<ApiResponse> {
+    return apiCall(`/api/page-templates/${templateId}`, { method: 'PATCH', body: JSON.stringify(template) });
+  },
+  async deleteTemplate(templateId: string): Promise<ApiResponse> {
+    return apiCall(`/api/page-templates/${templateId}`, { method: 'DELETE' });
+  }
+};
+
 // linksApi - REMOVED (no methods currently used in codebase)
 
 /**
  * Versions Operations
- * USED: setCurrentVersion (apiClient wrapper)
+ * USED: setCurrentVersion (apiClient wrapper, version snapshot page), forkVersion (version snapshot page)
  * UNUSED (removed): getVersions, createVersion
  */
 export const versionsApi = {
-  /** Set a specific version as the current version (restore) */
+  /** Restore a version - saved as a new version on top of the current one */
   async setCurrentVersion(pageId: string, versionId: string): Promise<ApiResponse> {
     return apiCall(`/api/pages/${pageId}/set-current-version`, {
       method: 'POST',
       body: JSON.stringify({ versionId })
     });
+  },
+
+  /** Create a new page starting from a historical version, linked back to its origin */
+  async forkVersion(pageId: string, versionId: string, title: string, content: any): Promise<ApiResponse> {
+    return apiCall('/api/pages', {
+      method: 'POST',
+      body: JSON.stringify({ title, content, forkedFrom: { pageId, versionId } })
+    });
   }
 };
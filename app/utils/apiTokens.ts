@@ -0,0 +1,93 @@
+/**
+ * Personal API Tokens
+ *
+ * Users create tokens for scripts and their own tools. A token is sent as
+ * `Authorization: Bearer wwpat_...` to the versioned /api/v1 endpoints, which
+ * check its scopes and a per-token rate limit. Pure functions, safe to use
+ * in the browser - ApiTokenService generates, hashes and stores the tokens.
+ */
+
+import type { ApiToken, ApiTokenScope } from '../types/database';
+
+export const API_TOKEN_PREFIX = 'wwpat_';
+
+/** The only routes that accept personal API tokens */
+export const API_V1_PATH = '/api/v1/';
+
+export const MAX_API_TOKENS = 20;
+
+export const MAX_API_TOKEN_NAME_LENGTH = 80;
+
+export const API_TOKEN_SCOPES: Array<{ value: ApiTokenScope; label: string; description: string }> = [
+  { value: 'pages:read', label: 'Read pages', description: 'Read pages, their links and version history' },
+  { value: 'pages:write', label: 'Write pages', description: 'Create and edit your pages' },
+  { value: 'search', label: 'Search', description: 'Search pages' },
+];
+
+const SCOPES = new Set<string>(API_TOKEN_SCOPES.map(scope => scope.value));
+
+/** Requests per minute a token may choose, lowest first */
+export const API_TOKEN_RATE_LIMITS = [30, 60, 120, 300];
+
+export const DEFAULT_API_TOKEN_RATE_LIMIT = 60;
+
+/** Expiry choices in days; null never expires */
+export const API_TOKEN_EXPIRY_DAYS: Array<number | null> = [30, 90, 365, null];
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === 'string' && SCOPES.has(value);
+}
+
+/**
+ * Whether a bearer credential is a personal API token rather than a
+ * Firebase ID token
+ */
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+/**
+ * Tokens shown after creation: just enough to recognise them
+ */
+export function getApiTokenPreview(token: string): string {
+  return `${token.slice(0, API_TOKEN_PREFIX.length + 4)}…${token.slice(-4)}`;
+}
+
+/**
+ * Why a token can't be created with these settings, or null if it can
+ */
+export function getApiTokenInputError(input: { name?: unknown; scopes?: unknown; rateLimit?: unknown; expiresInDays?: unknown }): string | null {
+  if (typeof input.name !== 'string' || !input.name.trim()) return 'Give the token a name';
+  if (input.name.trim().length > MAX_API_TOKEN_NAME_LENGTH) {
+    return `Token names are limited to ${MAX_API_TOKEN_NAME_LENGTH} characters`;
+  }
+
+  if (!Array.isArray(input.scopes) || input.scopes.length === 0) return 'Choose at least one scope';
+  const unknown = input.scopes.find(scope => !isApiTokenScope(scope));
+  if (unknown !== undefined) return `Unknown scope: ${String(unknown)}`;
+
+  if (input.rateLimit !== undefined && !API_TOKEN_RATE_LIMITS.includes(input.rateLimit as number)) {
+    return `Rate limit must be one of ${API_TOKEN_RATE_LIMITS.join(', ')} requests per minute`;
+  }
+  if (input.expiresInDays !== undefined && !API_TOKEN_EXPIRY_DAYS.includes(input.expiresInDays as number | null)) {
+    return 'Unsupported expiry';
+  }
+  return null;
+}
+
+export function getApiTokenExpiry(expiresInDays: number | null, now: Date = new Date()): string | null {
+  return expiresInDays === null ? null : new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Why a stored token can't be used right now, or null if it can
+ */
+export function getApiTokenUnusableReason(token: Pick<ApiToken, 'revokedAt' | 'expiresAt'>, now: Date = new Date()): string | null {
+  if (token.revokedAt) return 'This token has been revoked';
+  if (token.expiresAt && new Date(token.expiresAt).getTime() <= now.getTime()) return 'This token has expired';
+  return null;
+}
+
+export function hasApiTokenScope(token: Pick<ApiToken, 'scopes'>, scope: ApiTokenScope): boolean {
+  return token.scopes.includes(scope);
+}
@@ -0,0 +1,74 @@
+/**
+ * Carry-over Allocation
+ *
+ * Splits a supporter's unallocated funds across writers according to their
+ * carry-over rule, using the pages they read that month. Pure functions - the
+ * month-end cron loads the data and records the result.
+ */
+
+import type { CarryOverRule, CarryOverShare, ReaderMonthlyViews } from '../types/allocation';
+
+/** Most-read writers who share in a 'most_read_writers' carry-over */
+export const MAX_CARRY_OVER_RECIPIENTS = 10;
+
+/** Upper bound for 'pages_viewed', keeping one supporter's carry-over within a single transaction */
+export const MAX_PAGES_VIEWED_RECIPIENTS = 200;
+
+/**
+ * Split cents proportionally to weights using the largest remainder method,
+ * so the shares always add up to exactly `totalCents`.
+ */
+export function splitCentsByWeight(totalCents: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalCents <= 0 || totalWeight <= 0) return weights.map(() => 0);
+
+  const exact = weights.map(weight => (totalCents * weight) / totalWeight);
+  const shares = exact.map(Math.floor);
+  let remaining = totalCents - shares.reduce((sum, cents) => sum + cents, 0);
+
+  // Hand leftover cents to the largest remainders; ties go to the earlier entry
+  const order = exact
+    .map((value, index) => ({ index, remainder: value - shares[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of order) {
+    if (remaining <= 0) break;
+    shares[index]++;
+    remaining--;
+  }
+
+  return shares;
+}
+
+/**
+ * Work out which writers receive a supporter's unallocated funds.
+ *
+ * - most_read_writers: proportional to views, across the supporter's most-read writers
+ * - pages_viewed: an even split per page viewed, so a writer with three of the
+ *   pages gets three parts
+ *
+ * The supporter's own pages never count. Returns no shares when the rule is
+ * 'none' or nothing qualifying was read - the funds stay unallocated.
+ */
+export function computeCarryOverShares(
+  rule: CarryOverRule,
+  unallocatedCents: number,
+  views: ReaderMonthlyViews | null
+): CarryOverShare[] {
+  if (rule === 'none' || unallocatedCents <= 0 || !views) return [];
+
+  const weightByWriter = new Map<string, number>();
+  for (const { views: count, authorId } of Object.values(views.pages || {})) {
+    if (!authorId || authorId === views.userId || count <= 0) continue;
+    const weight = rule === 'most_read_writers' ? count : 1;
+    weightByWriter.set(authorId, (weightByWriter.get(authorId) || 0) + weight);
+  }
+
+  const writers = Array.from(weightByWriter.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, rule === 'most_read_writers' ? MAX_CARRY_OVER_RECIPIENTS : MAX_PAGES_VIEWED_RECIPIENTS);
+
+  const cents = splitCentsByWeight(unallocatedCents, writers.map(([, weight]) => weight));
+  return writers
+    .map(([recipientUserId, weight], index) => ({ recipientUserId, usdCents: cents[index], weight }))
+    .filter(share => share.usdCents > 0);
+}
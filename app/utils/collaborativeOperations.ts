@@ -0,0 +1,135 @@
+/**
+ * Collaborative Operation Utilities
+ *
+ * Helpers for broadcasting Slate operations between editors in a live
+ * co-editing session. Operations are sent to the Realtime Database in a single
+ * ordered log; an operation that was written without knowledge of some earlier
+ * log entries is transformed against them before it is applied, so concurrent
+ * typing in the same paragraph lands in the same place for everyone.
+ */
+
+import { Operation, Path, Point } from 'slate';
+
+export type TransformAffinity = 'forward' | 'backward';
+
+/**
+ * Whether a local operation should be sent to other participants.
+ * Selection changes are shared through presence instead.
+ */
+export function isBroadcastOperation(op: Operation): boolean {
+  return op.type !== 'set_selection';
+}
+
+/**
+ * Shift a split position when text was inserted into or removed from the same node
+ */
+function transformSplitPosition(position: number, path: Path, against: Operation): number {
+  if (against.type === 'insert_text' && Path.equals(against.path, path) && against.offset <= position) {
+    return position + against.text.length;
+  }
+  if (against.type === 'remove_text' && Path.equals(against.path, path) && against.offset < position) {
+    return Math.max(against.offset, position - against.text.length);
+  }
+  return position;
+}
+
+/**
+ * Transform an operation so it applies on top of a concurrent operation.
+ *
+ * `affinity` breaks ties when both operations touch the same spot: use
+ * 'forward' when `against` comes earlier in the session log (so `op` lands after
+ * it) and 'backward' when `against` comes later. Returns null when the target
+ * of `op` no longer exists.
+ */
+export function transformOperation(
+  op: Operation,
+  against: Operation,
+  affinity: TransformAffinity = 'forward'
+): Operation | null {
+  if (against.type === 'set_selection') return op;
+
+  switch (op.type) {
+    case 'insert_text':
+    case 'remove_text': {
+      const point = Point.transform({ path: op.path, offset: op.offset }, against, { affinity });
+      return point ? { ...op, path: point.path, offset: point.offset } : null;
+    }
+    case 'insert_node': {
+      const path = Path.transform(op.path, against, { affinity });
+      return path ? { ...op, path } : null;
+    }
+    case 'split_node': {
+      const path = Path.transform(op.path, against);
+      return path ? { ...op, path, position: transformSplitPosition(op.position, op.path, against) } : null;
+    }
+    case 'remove_node':
+    case 'set_node':
+    case 'merge_node': {
+      const path = Path.transform(op.path, against);
+      return path ? { ...op, path } : null;
+    }
+    case 'move_node': {
+      const path = Path.transform(op.path, against);
+      const newPath = Path.transform(op.newPath, against);
+      return path && newPath ? { ...op, path, newPath } : null;
+    }
+    default:
+      return op;
+  }
+}
+
+/**
+ * Transform a batch of operations against a sequence of concurrent operations.
+ * Each operation in the batch was produced after the previous one was applied,
+ * so the concurrent sequence is carried forward past every operation in turn.
+ * Operations whose target disappeared are dropped.
+ */
+export function transformOperations(
+  ops: Operation[],
+  against: Operation[],
+  affinity: TransformAffinity = 'forward'
+): Operation[] {
+  const opposite: TransformAffinity = affinity === 'forward' ? 'backward' : 'forward';
+  const result: Operation[] = [];
+  let concurrent = against;
+
+  for (const op of ops) {
+    let transformed: Operation | null = op;
+    const carried: Operation[] = [];
+
+    for (const other of concurrent) {
+      if (!transformed) {
+        carried.push(other);
+        continue;
+      }
+      const otherTransformed = transformOperation(other, transformed, opposite);
+      transformed = transformOperation(transformed, other, affinity);
+      if (otherTransformed) carried.push(otherTransformed);
+    }
+
+    if (transformed) result.push(transformed);
+    concurrent = carried;
+  }
+
+  return result;
+}
+
+/**
+ * Deterministic cursor colour for a participant
+ */
+const CURSOR_COLORS = ['#2563eb', '#db2777', '#16a34a', '#ea580c', '#9333ea', '#0891b2', '#ca8a04', '#dc2626'];
+
+export function getCollaboratorColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+}
+
+/**
+ * Realtime Database location of a page's co-editing session
+ */
+export function getCollaborationSessionPath(pageId: string): string {
+  return `collabSessions/${pageId}`;
+}
@@ -0,0 +1,166 @@
+/**
+ * Content Reports
+ *
+ * Readers report pages, replies and profiles. Open reports about the same
+ * page or user are reviewed together in the admin moderation queue, and one
+ * moderation action resolves all of them. Pure functions - ModerationService
+ * stores the reports and carries out the actions.
+ */
+
+import type {
+  ContentReport,
+  ModerationAction,
+  ReportCategory,
+  ReportTargetType,
+} from '../types/database';
+
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
+
+export const REPORT_TARGET_TYPES: ReportTargetType[] = ['page', 'reply', 'user'];
+
+export const REPORT_CATEGORIES: Array<{ value: ReportCategory; label: string; description: string }> = [
+  { value: 'spam', label: 'Spam', description: 'Advertising, scams or repetitive junk' },
+  { value: 'harassment', label: 'Harassment', description: 'Targets or threatens a person' },
+  { value: 'copyright', label: 'Copyright', description: "Copies someone else's work without permission" },
+  { value: 'illegal', label: 'Illegal content', description: 'Breaks the law' },
+  { value: 'other', label: 'Something else', description: 'Tell us what is wrong' },
+];
+
+export const MODERATION_ACTION_LABELS: Record<ModerationAction, string> = {
+  dismiss: 'Dismiss',
+  hide_page: 'Hide page',
+  delete_page: 'Delete page',
+  warn_user: 'Warn user',
+  suspend_user: 'Suspend account',
+};
+
+/** Queued reports about one page or one user */
+export interface ReportQueueItem {
+  key: string;
+  targetType: ReportTargetType;
+  targetId: string;
+  targetUserId: string;
+  targetTitle: string;
+  reports: ContentReport[];
+  categories: Partial<Record<ReportCategory, number>>;
+  firstReportedAt: string;
+}
+
+/**
+ * Why a report can't be filed, or null if it can
+ */
+export function getReportInputError(input: {
+  targetType?: unknown;
+  targetId?: unknown;
+  category?: unknown;
+  details?: unknown;
+}): string | null {
+  if (!REPORT_TARGET_TYPES.includes(input.targetType as ReportTargetType)) {
+    return 'Report must be about a page, reply or user';
+  }
+  if (typeof input.targetId !== 'string' || !input.targetId.trim()) {
+    return 'Nothing to report';
+  }
+  if (!REPORT_CATEGORIES.some(category => category.value === input.category)) {
+    return 'Choose what is wrong';
+  }
+  if (input.details !== undefined && typeof input.details !== 'string') {
+    return 'Details must be text';
+  }
+  const details = typeof input.details === 'string' ? input.details.trim() : '';
+  if (details.length > MAX_REPORT_DETAILS_LENGTH) {
+    return `Details must be ${MAX_REPORT_DETAILS_LENGTH} characters or fewer`;
+  }
+  if (input.category === 'other' && !details) {
+    return 'Tell us what is wrong';
+  }
+  return null;
+}
+
+/**
+ * Queue key for a target. A reply is a page, so reports filed against it as
+ * either are reviewed together.
+ */
+export function getReportTargetKey(targetType: ReportTargetType, targetId: string): string {
+  return `${targetType === 'user' ? 'user' : 'page'}:${targetId}`;
+}
+
+/**
+ * Actions a moderator can take on a target. Page actions don't apply to
+ * profiles.
+ */
+export function getModerationActions(targetType: ReportTargetType): ModerationAction[] {
+  return targetType === 'user'
+    ? ['warn_user', 'suspend_user', 'dismiss']
+    : ['hide_page', 'delete_page', 'warn_user', 'suspend_user', 'dismiss'];
+}
+
+/**
+ * Group open reports by target, most-reported first and then longest waiting
+ */
+export function groupReportsByTarget(reports: ContentReport[]): ReportQueueItem[] {
+  const groups = new Map<string, ReportQueueItem>();
+
+  for (const report of reports) {
+    const key = getReportTargetKey(report.targetType, report.targetId);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        targetType: report.targetType,
+        targetId: report.targetId,
+        targetUserId: report.targetUserId,
+        targetTitle: report.targetTitle,
+        reports: [],
+        categories: {},
+        firstReportedAt: report.createdAt,
+      };
+      groups.set(key, group);
+    }
+
+    group.reports.push(report);
+    group.categories[report.category] = (group.categories[report.category] || 0) + 1;
+    if (report.createdAt < group.firstReportedAt) {
+      group.firstReportedAt = report.createdAt;
+    }
+  }
+
+  return [...groups.values()].sort((a, b) =>
+    b.reports.length - a.reports.length || a.firstReportedAt.localeCompare(b.firstReportedAt)
+  );
+}
+
+/**
+ * The notification a reporter gets once their report has been reviewed.
+ * Says what happened to the content, not what happened to its author.
+ */
+export function describeReportOutcome(action: ModerationAction, targetTitle: string): { title: string; message: string } {
+  const subject = `"${targetTitle}"`;
+
+  switch (action) {
+    case 'dismiss':
+      return {
+        title: 'We reviewed your report',
+        message: `We looked at ${subject} and didn't find that it breaks our rules.`,
+      };
+    case 'hide_page':
+    case 'delete_page':
+      return {
+        title: 'We removed content you reported',
+        message: `Thanks for your report. ${subject} is no longer visible.`,
+      };
+    case 'warn_user':
+    case 'suspend_user':
+      return {
+        title: 'We took action on your report',
+        message: `Thanks for your report about ${subject}. We've acted on it.`,
+      };
+  }
+}
+
+/**
+ * Action name stored in the admin audit log
+ */
+export function getModerationAuditAction(action: ModerationAction): string {
+  return `MODERATION_${action.toUpperCase()}`;
+}
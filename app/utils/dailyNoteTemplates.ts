@@ -0,0 +1,232 @@
+/**
+ * Daily Note Templates
+ *
+ * Templates a user writes once for their daily notes and for weekly and
+ * monthly rollups. A template is plain text, one paragraph per line, with
+ * {{variables}} filled in when the note is first opened. Variables that
+ * stand for pages - yesterday's note, pages edited yesterday, the daily
+ * notes in a rollup - become page links. Pure functions -
+ * DailyNoteTemplateService stores templates and looks up the pages.
+ */
+
+import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, subDays } from 'date-fns';
+import type { DailyNoteTemplateKind, DailyNoteTemplates } from '../types/database';
+
+export const DAILY_NOTE_TEMPLATE_KINDS: DailyNoteTemplateKind[] = ['daily', 'weekly', 'monthly'];
+
+export const MAX_DAILY_NOTE_TEMPLATE_LENGTH = 5000;
+
+/** Variables each kind of template can use, with what they become */
+export const DAILY_NOTE_TEMPLATE_VARIABLES: Record<DailyNoteTemplateKind, Record<string, string>> = {
+  daily: {
+    date: 'The note\'s date, e.g. 2026-10-19',
+    weekday: 'The day of the week, e.g. Monday',
+    yesterday: 'A link to yesterday\'s daily note',
+    edited_yesterday: 'A link to each page you edited yesterday, one per line',
+  },
+  weekly: {
+    start_date: 'The first day of the week',
+    end_date: 'The last day of the week',
+    daily_notes: 'A link to each daily note in the week, one per line',
+  },
+  monthly: {
+    month: 'The month, e.g. October 2026',
+    start_date: 'The first day of the month',
+    end_date: 'The last day of the month',
+    daily_notes: 'A link to each daily note in the month, one per line',
+  },
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** A YYYY-MM-DD date as a local date, or null if it isn't one */
+function parseDate(date: string): Date | null {
+  if (!DATE_PATTERN.test(date)) return null;
+  const [year, month, day] = date.split('-').map(Number);
+  const parsed = new Date(year, month - 1, day);
+  return parsed.getMonth() === month - 1 ? parsed : null;
+}
+
+function formatDate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/** The day before a YYYY-MM-DD date */
+export function getPreviousDate(date: string): string | null {
+  const day = parseDate(date);
+  return day ? formatDate(subDays(day, 1)) : null;
+}
+
+/** Variables that expand to one line per page */
+const LIST_VARIABLES = ['edited_yesterday', 'daily_notes'];
+
+export type DailyNoteTemplatesInput = Pick<DailyNoteTemplates, DailyNoteTemplateKind>;
+
+/** Used until the user saves templates of their own */
+export const DEFAULT_DAILY_NOTE_TEMPLATES: DailyNoteTemplatesInput = {
+  daily: [
+    '{{weekday}}, {{date}}',
+    'Yesterday: {{yesterday}}',
+    '',
+    'Today I want to:',
+    '',
+    'Pages I edited yesterday:',
+    '{{edited_yesterday}}',
+  ].join('\n'),
+  weekly: [
+    'Week of {{start_date}} to {{end_date}}',
+    '',
+    '{{daily_notes}}',
+  ].join('\n'),
+  monthly: [
+    '{{month}}',
+    '',
+    '{{daily_notes}}',
+  ].join('\n'),
+};
+
+export function getDailyNoteTemplatesInputError(input: Record<string, unknown>): string | null {
+  for (const kind of DAILY_NOTE_TEMPLATE_KINDS) {
+    const template = input[kind];
+    if (typeof template !== 'string') {
+      return `${kind} must be the template text`;
+    }
+    if (template.length > MAX_DAILY_NOTE_TEMPLATE_LENGTH) {
+      return `Templates can be at most ${MAX_DAILY_NOTE_TEMPLATE_LENGTH} characters`;
+    }
+  }
+  return null;
+}
+
+export interface DailyNoteRange {
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * The dates a note covers: the day itself for a daily note, the week
+ * (Sunday to Saturday, as in the calendar) or the month for a rollup
+ */
+export function getDailyNoteRange(kind: DailyNoteTemplateKind, date: string): DailyNoteRange | null {
+  const day = parseDate(date);
+  if (!day) return null;
+
+  if (kind === 'weekly') {
+    return { startDate: formatDate(startOfWeek(day)), endDate: formatDate(endOfWeek(day)) };
+  }
+  if (kind === 'monthly') {
+    return { startDate: formatDate(startOfMonth(day)), endDate: formatDate(endOfMonth(day)) };
+  }
+  return { startDate: date, endDate: date };
+}
+
+/**
+ * The title a new note gets. Daily notes keep the editor's usual untitled
+ * daily note, since their date is already their customDate.
+ */
+export function getDailyNoteTitle(kind: DailyNoteTemplateKind, range: DailyNoteRange): string {
+  if (kind === 'weekly') return `Week of ${range.startDate}`;
+  if (kind === 'monthly') return format(parseDate(range.startDate)!, 'MMMM yyyy');
+  return '';
+}
+
+/**
+ * The date a daily note is for: its customDate, or for older notes a title
+ * that is just the date. Otherwise the day the page was created (createdDate,
+ * in the user's timezone), which is how /api/daily-notes lists pages by day.
+ */
+export function getDailyNoteDate(
+  page: { title?: string; customDate?: string | null },
+  createdDate: string | null = null
+): string | null {
+  if (page.customDate && DATE_PATTERN.test(page.customDate)) return page.customDate;
+  if (!page.customDate && page.title && DATE_PATTERN.test(page.title)) return page.title;
+  return createdDate;
+}
+
+export interface DailyNoteTemplatePage {
+  id: string;
+  title: string;
+}
+
+export interface DailyNoteTemplateContext {
+  kind: DailyNoteTemplateKind;
+  range: DailyNoteRange;
+  /** Yesterday's daily note, for daily notes */
+  yesterdayNote?: DailyNoteTemplatePage | null;
+  /** Pages last edited yesterday, for daily notes */
+  editedYesterday?: DailyNoteTemplatePage[];
+  /** Daily notes in the range, oldest first, for rollups */
+  dailyNotes?: DailyNoteTemplatePage[];
+}
+
+function pageLink(page: DailyNoteTemplatePage) {
+  const title = page.title || 'Untitled';
+  return {
+    type: 'link',
+    url: `/pages/${page.id}`,
+    pageId: page.id,
+    pageTitle: title,
+    className: 'page-link',
+    isPageLink: true,
+    children: [{ text: title }]
+  };
+}
+
+/**
+ * Fill in a template. Each line becomes a paragraph; a line with a list
+ * variable is repeated once per page, and left out when there are none.
+ * Unknown variables are kept as written.
+ */
+export function renderDailyNoteTemplate(template: string, context: DailyNoteTemplateContext): any[] {
+  const day = parseDate(context.range.startDate)!;
+  const allowed = DAILY_NOTE_TEMPLATE_VARIABLES[context.kind];
+
+  const values: Record<string, string | DailyNoteTemplatePage> = {
+    date: context.range.startDate,
+    weekday: format(day, 'EEEE'),
+    yesterday: context.yesterdayNote || getPreviousDate(context.range.startDate)!,
+    month: format(day, 'MMMM yyyy'),
+    start_date: context.range.startDate,
+    end_date: context.range.endDate,
+  };
+  const lists: Record<string, DailyNoteTemplatePage[]> = {
+    edited_yesterday: context.editedYesterday || [],
+    daily_notes: context.dailyNotes || [],
+  };
+
+  const renderLine = (line: string, listPage?: DailyNoteTemplatePage) => {
+    const children: any[] = [];
+    let text = '';
+    for (const part of line.split(/(\{\{\s*\w+\s*\}\})/)) {
+      const name = part.match(/^\{\{\s*(\w+)\s*\}\}$/)?.[1];
+      const value = name && name in allowed
+        ? LIST_VARIABLES.includes(name) ? listPage : values[name]
+        : undefined;
+
+      if (value === undefined) {
+        text += part;
+      } else if (typeof value === 'string') {
+        text += value;
+      } else {
+        children.push({ text }, pageLink(value));
+        text = '';
+      }
+    }
+    children.push({ text });
+    return { type: 'paragraph', children };
+  };
+
+  const content: any[] = [];
+  for (const line of template.split(/\r?\n/)) {
+    const listName = LIST_VARIABLES.find(name =>
+      name in allowed && new RegExp(`\\{\\{\\s*${name}\\s*\\}\\}`).test(line));
+    if (listName) {
+      for (const page of lists[listName]) content.push(renderLine(line, page));
+    } else {
+      content.push(renderLine(line));
+    }
+  }
+
+  return content.length > 0 ? content : [{ type: 'paragraph', children: [{ text: '' }] }];
+}
@@ -37,6 +37,19 @@ interface CacheEntry {
   timestamp: number;
 }
 
+/**
+ * Decrypts an encrypted content blob (see lib/crypto) - supplied by callers
+ * that hold the group key, typically via useContentDecryption
+ */
+export type ContentDecryptor = (encrypted: unknown) => Promise<unknown | null>;
+
+export interface DiffOptions {
+  /** Decrypt encrypted content so it can be diffed in the browser */
+  decrypt?: ContentDecryptor;
+  /** Diff in-process instead of calling /api/diff (required for decrypted group content) */
+  local?: boolean;
+}
+
 /**
  * Generate a cache key for diff operations
  */
@@ -59,7 +72,12 @@ function isCacheValid(entry: CacheEntry): boolean {
  * Main diff calculation function - uses centralized API
  * This replaces all other diff implementations in the codebase
  */
-export async function calculateDiff(currentContent: any, previousContent: any, titleChange?: { oldTitle: string; newTitle: string }): Promise<DiffResult> {
+export async function calculateDiff(
+  currentContent: any,
+  previousContent: any,
+  titleChange?: { oldTitle: string; newTitle: string },
+  options: DiffOptions = {}
+): Promise<DiffResult> {
   // Check cache first
   const cacheKey = generateCacheKey(currentContent, previousContent);
   const cached = diffCache.get(cacheKey);
@@ -69,6 +87,27 @@ export async function calculateDiff(currentContent: any, previousContent: any, t
   }
 
   try {
+    // ENCRYPTED GROUPS: plaintext must never reach the server, so encrypted
+    // content is decrypted and diffed here - or not at all without a key
+    const { parseEncryptedContent } = await import('../lib/crypto/contentEncryption');
+    const currentEncrypted = parseEncryptedContent(currentContent);
+    const previousEncrypted = parseEncryptedContent(previousContent);
+
+    if (!titleChange && (options.local || currentEncrypted || previousEncrypted)) {
+      if ((currentEncrypted || previousEncrypted) && !options.decrypt) {
+        return { added: 0, removed: 0, operations: [], preview: null, hasChanges: false };
+      }
+
+      const current = currentEncrypted ? await options.decrypt!(currentEncrypted) : currentContent;
+      const previous = previousEncrypted ? await options.decrypt!(previousEncrypted) : previousContent;
+      if ((currentEncrypted && current === null) || (previousEncrypted && previous === null)) {
+        return { added: 0, removed: 0, operations: [], preview: null, hasChanges: false };
+      }
+
+      const { computeContentDiff } = await import('./diffEngine');
+      return computeContentDiff(current, previous);
+    }
+
     // Check if we're running on the server side
     const isServer = typeof window === 'undefined';
 
@@ -421,6 +421,9 @@ export const COLLECTIONS = {
   WRITER_USD_BALANCES: 'writerUsdBalances',
   WRITER_USD_EARNINGS: 'writerUsdEarnings',
   USD_PAYOUTS: 'usdPayouts',
+  CARRY_OVER_RULES: 'carryOverRules',
+  CARRY_OVER_DISTRIBUTIONS: 'carryOverDistributions',
+  RECURRING_PLEDGES: 'recurringPledges',
 
   // General payment collections
   PAYOUTS: 'payouts',
@@ -437,11 +440,14 @@ export const COLLECTIONS = {
   ANALYTICS_EVENTS: 'analytics_events',
   ANALYTICS_AGGREGATIONS: 'analytics_aggregations',
   PAGE_VIEWS: 'pageViews',
+  READER_MONTHLY_VIEWS: 'readerMonthlyViews',
 
   // User feature collections
   READING_HISTORY: 'readingHistory',
+  SAVED_SEARCHES: 'savedSearches',
   SESSIONS: 'sessions',
   SITE_VISITORS: 'siteVisitors',
+  USER_BLOCKS: 'userBlocks',
   USER_FOLLOWER_RELATIONS: 'userFollowerRelations',
   USER_FOLLOWERS: 'userFollowers',
   USER_FOLLOWING: 'userFollowing',
@@ -471,6 +477,7 @@ export const COLLECTIONS = {
   ADMIN_SETTINGS: 'admin_settings',
   ADMIN_STATS: 'admin_stats',
   ADMIN_AUDIT_LOG: 'adminAuditLog',
+  CONTENT_REPORTS: 'contentReports',
   BROADCAST_HISTORY: 'broadcast_history',
   WEBHOOK_ERRORS: 'webhookErrors',
   PAYOUT_APPROVAL_QUEUE: 'payoutApprovalQueue',
@@ -482,6 +489,19 @@ export const COLLECTIONS = {
   // User stats snapshots for historical sparklines (60-day rolling)
   USER_STATS_SNAPSHOTS: 'userStatsSnapshots',
 
+  // Outgoing webhooks registered by users and groups, and their delivery log
+  WEBHOOK_ENDPOINTS: 'webhookEndpoints',
+  WEBHOOK_DELIVERIES: 'webhookDeliveries',
+
+  // Personal access tokens for the /api/v1 REST API
+  API_TOKENS: 'apiTokens',
+
+  // Margin comments on page text
+  PAGE_ANNOTATIONS: 'pageAnnotations',
+
+  // Reusable page skeletons, personal, shared with a group or public
+  PAGE_TEMPLATES: 'pageTemplates',
+
   // Financial transaction collections
   FINANCIAL_TRANSACTIONS: 'financialTransactions',
   TOKEN_PAYOUTS: 'tokenPayouts',
@@ -505,6 +525,9 @@ export const USD_COLLECTIONS = {
   WRITER_USD_BALANCES: COLLECTIONS.WRITER_USD_BALANCES,
   WRITER_USD_EARNINGS: COLLECTIONS.WRITER_USD_EARNINGS,
   USD_PAYOUTS: COLLECTIONS.USD_PAYOUTS,
+  CARRY_OVER_RULES: COLLECTIONS.CARRY_OVER_RULES,
+  CARRY_OVER_DISTRIBUTIONS: COLLECTIONS.CARRY_OVER_DISTRIBUTIONS,
+  RECURRING_PLEDGES: COLLECTIONS.RECURRING_PLEDGES,
   PAYOUTS: COLLECTIONS.PAYOUTS,
   PAYOUT_RECIPIENTS: COLLECTIONS.PAYOUT_RECIPIENTS,
   PAYOUT_REQUESTS: COLLECTIONS.PAYOUT_REQUESTS,
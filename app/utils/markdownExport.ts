@@ -0,0 +1,422 @@
+/**
+ * Markdown and HTML Export
+ *
+ * Turns stored page content (Slate nodes: paragraphs, headings, lists,
+ * quotes and pill links) into Markdown files with YAML front matter, or
+ * standalone HTML documents. Links to pages included in the same export
+ * become relative file links so a folder of exported pages still links up
+ * in Obsidian or a static site; other links point back at WeWrite.
+ * Pure functions - PageExportService loads the pages and builds the files.
+ */
+
+export type ExportFormat = 'markdown' | 'html';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'html'];
+
+export const EXPORT_BASE_URL = 'https://www.getwewrite.app';
+
+/** Longest slug used in an exported file name */
+const MAX_SLUG_LENGTH = 60;
+
+export interface ExportPage {
+  id: string;
+  title?: string;
+  content: unknown;
+  userId?: string;
+  username?: string;
+  groupId?: string | null;
+  replyTo?: string | null;
+  createdAt?: string | null;
+  lastModified?: string | null;
+  /** Encrypted group content can only be read in members' browsers */
+  encrypted?: boolean;
+}
+
+export interface ExportLinkOptions {
+  /** File name of every page in the same export, by page ID */
+  fileNames?: Record<string, string>;
+  baseUrl?: string;
+}
+
+export type ExportNode = {
+  type?: string;
+  text?: string;
+  children?: ExportNode[];
+  [key: string]: any;
+};
+
+/**
+ * Read stored content as a list of block nodes. Content saved as plain text
+ * becomes a single paragraph.
+ */
+export function parseExportContent(content: unknown): ExportNode[] {
+  if (content === null || content === undefined || content === '') return [];
+
+  if (typeof content === 'string') {
+    try {
+      return parseExportContent(JSON.parse(content));
+    } catch {
+      return [{ type: 'paragraph', children: [{ text: content }] }];
+    }
+  }
+
+  return Array.isArray(content) ? content : [];
+}
+
+export function parseExportFormat(value: string | null | undefined): ExportFormat | null {
+  if (!value) return 'markdown';
+  const normalized = value.toLowerCase();
+  if (normalized === 'md') return 'markdown';
+  return EXPORT_FORMATS.includes(normalized as ExportFormat) ? normalized as ExportFormat : null;
+}
+
+export function getExportExtension(format: ExportFormat): string {
+  return format === 'html' ? 'html' : 'md';
+}
+
+export function slugifyTitle(title: string | undefined): string {
+  const slug = (title || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, '');
+  return slug || 'untitled';
+}
+
+/**
+ * A unique file name for each page, from its title. Pages with the same
+ * title are numbered in the order given.
+ */
+export function getExportFileNames(pages: Array<Pick<ExportPage, 'id' | 'title'>>, format: ExportFormat): Record<string, string> {
+  const extension = getExportExtension(format);
+  const used = new Set<string>();
+  const fileNames: Record<string, string> = {};
+
+  for (const page of pages) {
+    const slug = slugifyTitle(page.title);
+    let name = slug;
+    for (let n = 2; used.has(name); n++) {
+      name = `${slug}-${n}`;
+    }
+    used.add(name);
+    fileNames[page.id] = `${name}.${extension}`;
+  }
+
+  return fileNames;
+}
+
+// Schemes an external link may use in the export; anything else becomes '#'
+const EXPORT_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+function getSafeExternalHref(url: string | undefined): string {
+  if (!url) return '#';
+  try {
+    return EXPORT_LINK_PROTOCOLS.includes(new URL(url.trim()).protocol) ? url.trim() : '#';
+  } catch {
+    return '#';
+  }
+}
+
+/**
+ * Where a link node points in the export
+ */
+export function getExportLinkHref(link: ExportNode, options: ExportLinkOptions = {}): string {
+  const baseUrl = options.baseUrl || EXPORT_BASE_URL;
+
+  if (link.isUser && link.userId) {
+    return `${baseUrl}/u/${link.userId}`;
+  }
+  if (link.pageId) {
+    const fileName = options.fileNames?.[link.pageId];
+    return fileName ? `./${encodeURI(fileName)}` : `${baseUrl}/${link.pageId}`;
+  }
+  return getSafeExternalHref(link.url);
+}
+
+function getLinkText(link: ExportNode): string {
+  const text = (link.children || []).map(child => child.text || '').join('');
+  return text || link.pageTitle || link.username || link.url || '';
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>])/g, '\\$1');
+}
+
+/**
+ * Stop a paragraph's first characters from being read as a heading, quote
+ * or list marker
+ */
+function escapeBlockStart(line: string): string {
+  return line
+    .replace(/^(\s*)([#>+-])(\s|$)/, '$1\\$2$3')
+    .replace(/^(\s*\d+)\.(\s|$)/, '$1\\.$2');
+}
+
+/** Keep surrounding spaces outside the markers, where Markdown expects them */
+function wrapMarked(text: string, marker: string): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!match || !match[2]) return text;
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+}
+
+function leafToMarkdown(leaf: ExportNode): string {
+  const raw = leaf.text || '';
+  if (!raw) return '';
+
+  if (leaf.code) {
+    const fence = raw.includes('`') ? '``' : '`';
+    return wrapMarked(raw, fence);
+  }
+
+  let text = escapeMarkdown(raw).replace(/\n/g, '  \n');
+  if (leaf.italic) text = wrapMarked(text, '_');
+  if (leaf.bold) text = wrapMarked(text, '**');
+  return text;
+}
+
+function inlineToMarkdown(nodes: ExportNode[] | undefined, options: ExportLinkOptions): string {
+  return (nodes || []).map(node => {
+    if (node.type === 'link') {
+      const href = getExportLinkHref(node, options).replace(/[()]/g, c => encodeURIComponent(c));
+      return `[${escapeMarkdown(getLinkText(node))}](${href})`;
+    }
+    if (typeof node.text === 'string') {
+      return leafToMarkdown(node);
+    }
+    return inlineToMarkdown(node.children, options);
+  }).join('');
+}
+
+function listToMarkdown(list: ExportNode, options: ExportLinkOptions, indent: string): string {
+  const ordered = list.type === 'numbered-list';
+  const items = (list.children || []).filter(item => item.type === 'list-item' || item.children);
+
+  return items.map((item, index) => {
+    const marker = ordered ? `${index + 1}.` : '-';
+    const inline = (item.children || []).filter(child => !isList(child));
+    const nested = (item.children || []).filter(isList);
+    const line = `${indent}${marker} ${inlineToMarkdown(inline, options).trim()}`;
+    const nestedIndent = indent + ' '.repeat(marker.length + 1);
+    return [line, ...nested.map(child => listToMarkdown(child, options, nestedIndent))].join('\n');
+  }).join('\n');
+}
+
+function isList(node: ExportNode): boolean {
+  return node.type === 'bulleted-list' || node.type === 'numbered-list';
+}
+
+function blockToMarkdown(node: ExportNode, options: ExportLinkOptions): string {
+  switch (node.type) {
+    case 'heading-one':
+      return `# ${inlineToMarkdown(node.children, options).trim()}`;
+    case 'heading-two':
+      return `## ${inlineToMarkdown(node.children, options).trim()}`;
+    case 'heading-three':
+      return `### ${inlineToMarkdown(node.children, options).trim()}`;
+    case 'block-quote':
+      return inlineToMarkdown(node.children, options)
+        .split('\n')
+        .map(line => line ? `> ${line}` : '>')
+        .join('\n');
+    case 'bulleted-list':
+    case 'numbered-list':
+      return listToMarkdown(node, options, '');
+    case 'list-item':
+      return `- ${inlineToMarkdown(node.children, options).trim()}`;
+    case 'image':
+      return node.url ? `![${escapeMarkdown(node.alt || '')}](${node.url})` : '';
+    default:
+      return escapeBlockStart(inlineToMarkdown(node.children, options));
+  }
+}
+
+/**
+ * Markdown for a page body. Empty paragraphs are dropped.
+ */
+export function contentToMarkdown(content: unknown, options: ExportLinkOptions = {}): string {
+  return parseExportContent(content)
+    .map(node => blockToMarkdown(node, options))
+    .filter(block => block.trim() !== '')
+    .join('\n\n');
+}
+
+/**
+ * YAML front matter. Strings are written double-quoted (JSON strings are
+ * valid YAML), and empty fields are left out.
+ */
+export function buildFrontMatter(fields: Record<string, string | number | boolean | null | undefined>): string {
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .map(([key, value]) => `${key}: ${typeof value === 'string' ? JSON.stringify(value) : value}`);
+  return ['---', ...lines, '---'].join('\n');
+}
+
+function getPageFrontMatter(page: ExportPage, baseUrl: string): Record<string, string | boolean | null | undefined> {
+  return {
+    title: page.title || 'Untitled',
+    id: page.id,
+    author: page.username,
+    authorId: page.userId,
+    group: page.groupId,
+    replyTo: page.replyTo,
+    created: page.createdAt,
+    updated: page.lastModified,
+    source: `${baseUrl}/${page.id}`,
+    encrypted: page.encrypted || undefined,
+  };
+}
+
+const ENCRYPTED_NOTICE = 'This page is in an encrypted group, so its content can only be read in WeWrite.';
+
+export function pageToMarkdown(page: ExportPage, options: ExportLinkOptions = {}): string {
+  const baseUrl = options.baseUrl || EXPORT_BASE_URL;
+  const body = page.encrypted ? `_${ENCRYPTED_NOTICE}_` : contentToMarkdown(page.content, options);
+  return `${buildFrontMatter(getPageFrontMatter(page, baseUrl))}\n\n${body}\n`;
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function leafToHtml(leaf: ExportNode): string {
+  let html = escapeHtml(leaf.text || '').replace(/\n/g, '<br>');
+  if (!html) return '';
+  if (leaf.code) html = `<code>${html}</code>`;
+  if (leaf.italic) html = `<em>${html}</em>`;
+  if (leaf.bold) html = `<strong>${html}</strong>`;
+  return html;
+}
+
+function inlineToHtml(nodes: ExportNode[] | undefined, options: ExportLinkOptions): string {
+  return (nodes || []).map(node => {
+    if (node.type === 'link') {
+      return `<a href="${escapeHtml(getExportLinkHref(node, options))}">${escapeHtml(getLinkText(node))}</a>`;
+    }
+    if (typeof node.text === 'string') {
+      return leafToHtml(node);
+    }
+    return inlineToHtml(node.children, options);
+  }).join('');
+}
+
+// The page title is the document's h1, so headings start at h2 as in ServerContentForSEO
+function blockToHtml(node: ExportNode, options: ExportLinkOptions): string {
+  switch (node.type) {
+    case 'heading-one':
+      return `<h2>${inlineToHtml(node.children, options)}</h2>`;
+    case 'heading-two':
+      return `<h3>${inlineToHtml(node.children, options)}</h3>`;
+    case 'heading-three':
+      return `<h4>${inlineToHtml(node.children, options)}</h4>`;
+    case 'block-quote':
+      return `<blockquote>${inlineToHtml(node.children, options)}</blockquote>`;
+    case 'bulleted-list':
+    case 'numbered-list': {
+      const tag = node.type === 'numbered-list' ? 'ol' : 'ul';
+      return `<${tag}>${(node.children || []).map(child => blockToHtml(child, options)).join('')}</${tag}>`;
+    }
+    case 'list-item': {
+      const inline = (node.children || []).filter(child => !isList(child));
+      const nested = (node.children || []).filter(isList);
+      return `<li>${inlineToHtml(inline, options)}${nested.map(child => blockToHtml(child, options)).join('')}</li>`;
+    }
+    case 'image':
+      return node.url ? `<img src="${escapeHtml(node.url)}" alt="${escapeHtml(node.alt || '')}">` : '';
+    default: {
+      const html = inlineToHtml(node.children, options);
+      return html ? `<p>${html}</p>` : '';
+    }
+  }
+}
+
+export function contentToHtml(content: unknown, options: ExportLinkOptions = {}): string {
+  return parseExportContent(content)
+    .map(node => blockToHtml(node, options))
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * A standalone HTML document for one page
+ */
+export function pageToHtml(page: ExportPage, options: ExportLinkOptions = {}): string {
+  const baseUrl = options.baseUrl || EXPORT_BASE_URL;
+  const title = escapeHtml(page.title || 'Untitled');
+  const body = page.encrypted ? `<p><em>${escapeHtml(ENCRYPTED_NOTICE)}</em></p>` : contentToHtml(page.content, options);
+  const meta = [
+    page.username && `<meta name="author" content="${escapeHtml(page.username)}">`,
+    `<link rel="canonical" href="${escapeHtml(`${baseUrl}/${page.id}`)}">`,
+  ].filter(Boolean).join('\n');
+  const byline = [
+    page.username && `by ${escapeHtml(page.username)}`,
+    page.lastModified && `<time datetime="${escapeHtml(page.lastModified)}">${escapeHtml(page.lastModified.slice(0, 10))}</time>`,
+  ].filter(Boolean).join(' · ');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+${meta}
+</head>
+<body>
+<article>
+<h1>${title}</h1>
+${byline ? `<p>${byline}</p>\n` : ''}${body}
+</article>
+</body>
+</html>
+`;
+}
+
+export function pageToExportFormat(page: ExportPage, format: ExportFormat, options: ExportLinkOptions = {}): string {
+  return format === 'html' ? pageToHtml(page, options) : pageToMarkdown(page, options);
+}
+
+/**
+ * Table of contents for a folder of exported pages
+ */
+export function buildExportIndex(
+  title: string,
+  pages: Array<Pick<ExportPage, 'id' | 'title'>>,
+  fileNames: Record<string, string>,
+  format: ExportFormat
+): string {
+  if (format === 'html') {
+    const items = pages.map(page =>
+      `<li><a href="./${escapeHtml(encodeURI(fileNames[page.id]))}">${escapeHtml(page.title || 'Untitled')}</a></li>`
+    );
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<ul>
+${items.join('\n')}
+</ul>
+</body>
+</html>
+`;
+  }
+
+  const items = pages.map(page => `- [${escapeMarkdown(page.title || 'Untitled')}](./${encodeURI(fileNames[page.id])})`);
+  return `# ${escapeMarkdown(title)}\n\n${items.join('\n')}\n`;
+}
@@ -0,0 +1,591 @@
+/**
+ * Markdown Import
+ *
+ * Turns Markdown files - loose files, an Obsidian vault or a Notion export -
+ * into page content (Slate nodes) ready for POST /api/pages. Every imported
+ * file gets its page ID up front, so [[wikilinks]] and relative links between
+ * the files become internal link nodes in a single pass. Titles that match
+ * one of the importer's existing pages (by titleLower, as same-title does)
+ * are handled by the chosen collision strategy.
+ * Pure functions - PageImportService unpacks uploads and finds existing titles.
+ */
+
+import { LinkNodeHelper } from '../types/linkNode';
+
+export type ImportSource = 'markdown' | 'obsidian' | 'notion';
+
+/**
+ * What to do when an imported title matches one of your pages:
+ * link to the existing page instead of importing, import under a new
+ * title, or import it anyway with the same title
+ */
+export type ImportCollisionStrategy = 'link' | 'rename' | 'duplicate';
+
+export type ImportPageAction = 'create' | 'rename' | 'existing';
+
+export const IMPORT_COLLISION_STRATEGIES: Array<{ value: ImportCollisionStrategy; label: string; description: string }> = [
+  { value: 'link', label: 'Use my existing page', description: "Don't import it; links to it go to the page you already have" },
+  { value: 'rename', label: 'Import with a new title', description: 'Adds "(imported)" to the title' },
+  { value: 'duplicate', label: 'Import anyway', description: 'You will have two pages with the same title' },
+];
+
+/** Most pages created by one import */
+export const MAX_IMPORT_PAGES = 500;
+
+const IMPORTABLE_EXTENSIONS = ['.md', '.markdown', '.txt'];
+
+/** Notion appends a 32-character ID to every exported file and folder name */
+const NOTION_ID_PATTERN = /\s+[0-9a-f]{32}$/i;
+
+export interface ImportSourceFile {
+  path: string;
+  text: string;
+}
+
+export interface ImportPagePlan {
+  path: string;
+  /** New page ID, or the existing page's ID when action is 'existing' */
+  pageId: string;
+  title: string;
+  /** Title from the file, before any rename */
+  sourceTitle: string;
+  action: ImportPageAction;
+  content: any[];
+  /** Links that became internal links to other pages */
+  linkCount: number;
+  /** Link targets that didn't match any imported or existing page */
+  unresolvedLinks: string[];
+}
+
+export interface ImportPlan {
+  source: ImportSource;
+  pages: ImportPagePlan[];
+  /** Files in the upload that aren't Markdown, such as attachments */
+  skippedFiles: string[];
+}
+
+export interface ImportLinkTarget {
+  pageId: string;
+  title: string;
+}
+
+type LinkResolver = (target: string, kind: 'wiki' | 'path') => ImportLinkTarget | null;
+
+// ---------------------------------------------------------------------------
+// Files and titles
+// ---------------------------------------------------------------------------
+
+function getExtension(path: string): string {
+  const name = path.split('/').pop() || '';
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot).toLowerCase() : '';
+}
+
+function stripExtension(path: string): string {
+  const extension = getExtension(path);
+  return extension ? path.slice(0, -extension.length) : path;
+}
+
+/**
+ * Markdown files worth importing: not hidden (.obsidian, .trash) or zip
+ * tool metadata (__MACOSX)
+ */
+export function isImportablePath(path: string): boolean {
+  const segments = path.split('/');
+  if (segments.some(segment => segment.startsWith('.') || segment === '__MACOSX')) {
+    return false;
+  }
+  return IMPORTABLE_EXTENSIONS.includes(getExtension(path));
+}
+
+export function detectImportSource(paths: string[]): ImportSource {
+  if (paths.some(path => path.split('/').includes('.obsidian'))) {
+    return 'obsidian';
+  }
+  const markdownPaths = paths.filter(isImportablePath);
+  if (markdownPaths.length > 0 && markdownPaths.every(path => NOTION_ID_PATTERN.test(stripExtension(path.split('/').pop() || '')))) {
+    return 'notion';
+  }
+  return 'markdown';
+}
+
+/**
+ * Leading YAML front matter as simple key/value strings, and the text after it
+ */
+export function parseFrontMatter(text: string): { fields: Record<string, string>; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) return { fields: {}, body: text };
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/);
+    if (field) {
+      fields[field[1].toLowerCase()] = field[2].trim().replace(/^(["'])(.*)\1$/, '$2');
+    }
+  }
+  return { fields, body: text.slice(match[0].length) };
+}
+
+/**
+ * A file's page title and the Markdown to import. The title comes from
+ * front matter, then (for Notion, which repeats it as the first heading)
+ * the leading heading, then the file name.
+ */
+export function getImportTitle(file: ImportSourceFile, source: ImportSource): { title: string; body: string } {
+  const { fields, body } = parseFrontMatter(file.text.replace(/^\uFEFF/, ''));
+  const fileName = stripExtension(file.path.split('/').pop() || '').replace(NOTION_ID_PATTERN, '').trim();
+
+  if (fields.title) {
+    return { title: fields.title, body };
+  }
+
+  if (source === 'notion') {
+    const heading = body.match(/^\s*#\s+(.+?)\s*#*\s*(?:\r?\n|$)/);
+    if (heading) {
+      return { title: heading[1], body: body.slice(heading[0].length) };
+    }
+  }
+
+  return { title: fileName || 'Untitled', body };
+}
+
+// ---------------------------------------------------------------------------
+// Link resolution
+// ---------------------------------------------------------------------------
+
+function normalizeLinkKey(value: string): string {
+  // Only Markdown extensions: "Release v1.2" is a name, not "Release v1" with an extension
+  const withoutExtension = IMPORTABLE_EXTENSIONS.includes(getExtension(value)) ? stripExtension(value) : value;
+  return withoutExtension
+    .split('/')
+    .map(segment => segment.replace(NOTION_ID_PATTERN, '').trim())
+    .join('/')
+    .toLowerCase();
+}
+
+/**
+ * Resolve a relative path against the folder of the file it appears in
+ */
+export function resolveRelativePath(fromPath: string, href: string): string {
+  const parts = fromPath.split('/').slice(0, -1);
+  for (const segment of href.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Build a resolver for links in one file. Wikilinks match a file's path,
+ * its name or its page title, as Obsidian does, and then the importer's
+ * existing pages; relative links match the file they point to.
+ */
+function createLinkResolver(
+  fromPath: string,
+  byPath: Map<string, ImportLinkTarget>,
+  byName: Map<string, ImportLinkTarget>,
+  byTitle: Map<string, ImportLinkTarget>,
+  existingPages: Map<string, ImportLinkTarget>
+): LinkResolver {
+  return (target, kind) => {
+    if (kind === 'wiki') {
+      const name = target.split(/[#^]/)[0].trim();
+      const key = normalizeLinkKey(name);
+      if (!key) return null;
+      return byPath.get(key)
+        || byName.get(key.split('/').pop() || key)
+        || byTitle.get(key)
+        || existingPages.get(normalizeTitle(name))
+        || null;
+    }
+
+    const href = safeDecode(target.split('#')[0]);
+    if (!href) return null;
+    return byPath.get(normalizeLinkKey(resolveRelativePath(fromPath, href))) || null;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Markdown to content
+// ---------------------------------------------------------------------------
+
+type Marks = { bold?: boolean; italic?: boolean; code?: boolean };
+
+interface InlineContext {
+  resolve: LinkResolver;
+  linkCount: number;
+  unresolvedLinks: Set<string>;
+}
+
+const INLINE_PATTERN = new RegExp([
+  '\\\\([\\\\`*_{}\\[\\]()#+\\-.!>|~])',              // 1: escaped character
+  '`([^`]+)`',                                       // 2: code
+  '!?\\[\\[([^\\]]+)\\]\\]',                         // 3: wikilink or embed
+  '!\\[([^\\]]*)\\]\\(<?([^)\\s>]+)>?(?:\\s+"[^"]*")?\\)', // 4, 5: image
+  '\\[([^\\]]+)\\]\\(<?([^)>]+?)>?(?:\\s+"[^"]*")?\\)',    // 6, 7: link
+  '\\*\\*(.+?)\\*\\*',                               // 8: bold
+  '__(.+?)__',                                       // 9: bold
+  '\\*([^*\\s][^*]*?)\\*',                           // 10: italic
+  '(?<![\\w])_([^_\\s][^_]*?)_(?![\\w])',            // 11: italic
+  '~~(.+?)~~',                                       // 12: strikethrough (kept as plain text)
+  '<(https?:\\/\\/[^>\\s]+)>',                       // 13: autolink
+  '(https?:\\/\\/[^\\s<>()]+[^\\s<>().,;:!?\'"])',   // 14: bare URL
+].join('|'), 'g');
+
+function isExternalHref(href: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(href);
+}
+
+function plainText(text: string): string {
+  return text.replace(/\\([\\`*_{}[\]()#+\-.!>|~])/g, '$1').replace(/[*_~`]/g, '');
+}
+
+function pageLinkNode(target: ImportLinkTarget, text: string | null): any {
+  const url = `/${target.pageId}`;
+  return text && text !== target.title
+    ? LinkNodeHelper.createCustomLink(target.pageId, target.title, url, text)
+    : LinkNodeHelper.createAutoLink(target.pageId, target.title, url);
+}
+
+function externalLinkNode(url: string, text: string | null): any {
+  return text && text !== url
+    ? LinkNodeHelper.createCustomExternalLink(url, text)
+    : LinkNodeHelper.createAutoExternalLink(url);
+}
+
+function parseInline(text: string, marks: Marks, context: InlineContext): any[] {
+  const nodes: any[] = [];
+  let buffer = '';
+  let lastIndex = 0;
+
+  const pushText = (value: string, extraMarks: Marks = {}) => {
+    if (value) nodes.push({ text: value, ...marks, ...extraMarks });
+  };
+  const flush = () => {
+    pushText(buffer);
+    buffer = '';
+  };
+
+  const pattern = new RegExp(INLINE_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    buffer += text.slice(lastIndex, match.index);
+    lastIndex = pattern.lastIndex;
+
+    if (match[1] !== undefined) {
+      buffer += match[1];
+      continue;
+    }
+
+    flush();
+
+    if (match[2] !== undefined) {
+      pushText(match[2], { code: true });
+    } else if (match[3] !== undefined) {
+      const [target, alias] = match[3].split('|');
+      const label = (alias || target.split('#')[0] || target).trim();
+      const resolved = context.resolve(target, 'wiki');
+      if (resolved) {
+        context.linkCount++;
+        nodes.push(pageLinkNode(resolved, alias ? label : null));
+      } else {
+        context.unresolvedLinks.add(target.trim());
+        pushText(label);
+      }
+    } else if (match[5] !== undefined) {
+      // Attachments aren't uploaded; images on the web are kept as links
+      const alt = match[4].trim();
+      if (isExternalHref(match[5])) {
+        nodes.push(externalLinkNode(match[5], alt || null));
+      } else {
+        pushText(alt);
+      }
+    } else if (match[7] !== undefined) {
+      const label = plainText(match[6]);
+      const href = match[7].trim();
+      if (isExternalHref(href)) {
+        nodes.push(externalLinkNode(href, label));
+      } else {
+        const resolved = context.resolve(href, 'path');
+        if (resolved) {
+          context.linkCount++;
+          nodes.push(pageLinkNode(resolved, label));
+        } else {
+          if (!href.startsWith('#')) context.unresolvedLinks.add(safeDecode(href));
+          pushText(label);
+        }
+      }
+    } else if (match[8] !== undefined || match[9] !== undefined) {
+      nodes.push(...parseInline(match[8] ?? match[9], { ...marks, bold: true }, context));
+    } else if (match[10] !== undefined || match[11] !== undefined) {
+      nodes.push(...parseInline(match[10] ?? match[11], { ...marks, italic: true }, context));
+    } else if (match[12] !== undefined) {
+      nodes.push(...parseInline(match[12], marks, context));
+    } else if (match[13] !== undefined || match[14] !== undefined) {
+      nodes.push(externalLinkNode(match[13] ?? match[14], null));
+    }
+  }
+
+  buffer += text.slice(lastIndex);
+  flush();
+  return nodes;
+}
+
+function sameMarks(a: Marks, b: Marks): boolean {
+  return !!a.bold === !!b.bold && !!a.italic === !!b.italic && !!a.code === !!b.code;
+}
+
+/**
+ * Slate requires every element to have a text child, including either side
+ * of an inline link. Neighbouring text with the same marks is merged.
+ */
+function toChildren(inline: any[]): any[] {
+  const children: any[] = [];
+  for (const node of inline) {
+    const previous = children[children.length - 1];
+    if (node.type === 'link' && (!previous || previous.type === 'link')) {
+      children.push({ text: '' });
+    }
+    if (node.type !== 'link' && previous && previous.type !== 'link' && sameMarks(previous, node)) {
+      children[children.length - 1] = { ...previous, text: previous.text + node.text };
+      continue;
+    }
+    children.push(node);
+  }
+  if (children.length === 0 || children[children.length - 1].type === 'link') {
+    children.push({ text: '' });
+  }
+  return children;
+}
+
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+
+interface ListLine {
+  indent: number;
+  ordered: boolean;
+  text: string;
+}
+
+function buildList(lines: ListLine[], start: number, context: InlineContext): { node: any; next: number } {
+  const indent = lines[start].indent;
+  const ordered = lines[start].ordered;
+  const items: any[] = [];
+  let i = start;
+
+  while (i < lines.length && lines[i].indent >= indent) {
+    if (lines[i].indent > indent) {
+      // A deeper item without a parent at this level still belongs in the list
+      const nested = buildList(lines, i, context);
+      const parent = items[items.length - 1];
+      if (parent) parent.children.push(nested.node);
+      else items.push({ type: 'list-item', children: [{ text: '' }, nested.node] });
+      i = nested.next;
+      continue;
+    }
+    items.push({ type: 'list-item', children: toChildren(parseInline(lines[i].text, {}, context)) });
+    i++;
+  }
+
+  return { node: { type: ordered ? 'numbered-list' : 'bulleted-list', children: items }, next: i };
+}
+
+/**
+ * Convert Markdown to page content. Headings deeper than three levels become
+ * level-three headings; code blocks become code-formatted paragraphs.
+ */
+export function markdownToContent(
+  markdown: string,
+  resolve: LinkResolver = () => null
+): { content: any[]; linkCount: number; unresolvedLinks: string[] } {
+  const context: InlineContext = { resolve, linkCount: 0, unresolvedLinks: new Set() };
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const content: any[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      const text = paragraph.join('\n').replace(/( {2,}|\\)\n/g, '\n');
+      content.push({ type: 'paragraph', children: toChildren(parseInline(text, {}, context)) });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(/^\s*(```|~~~)/);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) {
+        code.push(lines[i]);
+      }
+      if (code.length > 0) {
+        content.push({ type: 'paragraph', children: [{ text: code.join('\n'), code: true }] });
+      }
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      flushParagraph();
+      const type = heading[1].length === 1 ? 'heading-one' : heading[1].length === 2 ? 'heading-two' : 'heading-three';
+      content.push({ type, children: toChildren(parseInline(heading[2], {}, context)) });
+      continue;
+    }
+
+    if (/^\s{0,3}>/.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      for (; i < lines.length && /^\s{0,3}>/.test(lines[i]); i++) {
+        quoted.push(lines[i].replace(/^\s{0,3}>\s?/, ''));
+      }
+      i--;
+      const text = quoted.join('\n').replace(/^\[![^\]]+\][+-]?\s*/, '');
+      content.push({ type: 'block-quote', children: toChildren(parseInline(text, {}, context)) });
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      flushParagraph();
+      const listLines: ListLine[] = [];
+      for (; i < lines.length; i++) {
+        const item = lines[i].match(LIST_ITEM_PATTERN);
+        if (item) {
+          listLines.push({
+            indent: item[1].replace(/\t/g, '    ').length,
+            ordered: /\d/.test(item[2]),
+            text: item[3],
+          });
+        } else if (lines[i].trim() && /^\s+/.test(lines[i]) && listLines.length > 0) {
+          // Indented continuation of the previous item
+          listLines[listLines.length - 1].text += `\n${lines[i].trim()}`;
+        } else {
+          break;
+        }
+      }
+      i--;
+
+      for (let start = 0; start < listLines.length;) {
+        const list = buildList(listLines, start, context);
+        content.push(list.node);
+        start = list.next;
+      }
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+  flushParagraph();
+
+  return {
+    content: content.length > 0 ? content : [{ type: 'paragraph', children: [{ text: '' }] }],
+    linkCount: context.linkCount,
+    unresolvedLinks: [...context.unresolvedLinks],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Import plan
+// ---------------------------------------------------------------------------
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().trim();
+}
+
+function getUniqueTitle(title: string, taken: Set<string>): string {
+  let candidate = `${title} (imported)`;
+  for (let n = 2; taken.has(normalizeTitle(candidate)); n++) {
+    candidate = `${title} (imported ${n})`;
+  }
+  return candidate;
+}
+
+/**
+ * Work out what an import will create, without creating anything. This is
+ * both the dry-run preview and the list of pages the client then sends to
+ * POST /api/pages.
+ *
+ * @param existingPages - the importer's pages, keyed by titleLower
+ * @param createId - a new page ID for each page that will be created
+ */
+export function buildImportPlan(
+  files: ImportSourceFile[],
+  existingPages: Map<string, ImportLinkTarget>,
+  strategy: ImportCollisionStrategy,
+  createId: () => string
+): ImportPlan {
+  const source = detectImportSource(files.map(file => file.path));
+  const importable = files
+    .filter(file => isImportablePath(file.path))
+    .sort((a, b) => a.path.localeCompare(b.path));
+  const skippedFiles = files.filter(file => !isImportablePath(file.path)).map(file => file.path);
+
+  const takenTitles = new Set(existingPages.keys());
+  const pages: Array<ImportPagePlan & { body: string }> = [];
+
+  for (const file of importable) {
+    const { title: sourceTitle, body } = getImportTitle(file, source);
+    const key = normalizeTitle(sourceTitle);
+    const existing = existingPages.get(key);
+    const importedTwice = pages.some(page => page.action !== 'existing' && normalizeTitle(page.title) === key);
+
+    let action: ImportPageAction = 'create';
+    let title = sourceTitle;
+    let pageId: string;
+
+    if (existing && strategy === 'link') {
+      action = 'existing';
+      title = existing.title;
+      pageId = existing.pageId;
+    } else if ((existing && strategy === 'rename') || importedTwice) {
+      action = 'rename';
+      title = getUniqueTitle(sourceTitle, takenTitles);
+      pageId = createId();
+    } else {
+      pageId = createId();
+    }
+
+    takenTitles.add(normalizeTitle(title));
+    pages.push({ path: file.path, pageId, title, sourceTitle, action, content: [], linkCount: 0, unresolvedLinks: [], body });
+  }
+
+  const byPath = new Map<string, ImportLinkTarget>();
+  const byName = new Map<string, ImportLinkTarget>();
+  const byTitle = new Map<string, ImportLinkTarget>();
+  for (const page of pages) {
+    const target = { pageId: page.pageId, title: page.title };
+    const key = normalizeLinkKey(page.path);
+    byPath.set(key, target);
+    if (!byName.has(key.split('/').pop() || key)) byName.set(key.split('/').pop() || key, target);
+    if (!byTitle.has(normalizeTitle(page.sourceTitle))) byTitle.set(normalizeTitle(page.sourceTitle), target);
+  }
+
+  return {
+    source,
+    skippedFiles,
+    pages: pages.map(({ body, ...page }) => {
+      if (page.action === 'existing') return page;
+      const converted = markdownToContent(body, createLinkResolver(page.path, byPath, byName, byTitle, existingPages));
+      return { ...page, ...converted };
+    }),
+  };
+}
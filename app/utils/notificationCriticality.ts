@@ -20,10 +20,15 @@ export const DEFAULT_CRITICALITY_LEVELS: Record<NotificationType, NotificationCr
   'follow': 'normal',        // User follows another user
   'link': 'normal',          // User links to your page (page mention)
   'append': 'normal',        // User adds your page to their page
+  'saved_search_match': 'normal', // New pages match a saved search
+  'page_annotation': 'normal', // Comment on your page, or your comment resolved
+  'page_suggestion': 'normal', // Edit suggested to your page, or yours reviewed
   
   // System notifications - critical for account security
   'system_announcement': 'device',
   'email_verification': 'device',
+  'report_outcome': 'normal',
+  'moderation_warning': 'device',
   
   // Payment notifications - critical for service continuity
   'payment_failed': 'device',
@@ -0,0 +1,244 @@
+/**
+ * Outgoing Webhooks
+ *
+ * Users and groups register HTTPS endpoints for WeWrite events. Each delivery
+ * is signed like Stripe's: the WeWrite-Signature header carries a timestamp
+ * and an HMAC-SHA256 of `${timestamp}.${body}`, so receivers can check both
+ * who sent it and that it isn't a replay. Failed deliveries are retried with
+ * backoff. Pure functions - OutgoingWebhookService stores endpoints and
+ * sends the deliveries.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { WebhookEvent, WebhookEventType } from '../types/database';
+
+export const MAX_WEBHOOK_ENDPOINTS = 10;
+
+export const MAX_WEBHOOK_URL_LENGTH = 2000;
+
+/** Attempts before a delivery is marked failed */
+export const MAX_DELIVERY_ATTEMPTS = 6;
+
+/**
+ * Wait before each retry: 5 minutes, 30 minutes, 2 hours, 6 hours, 12 hours.
+ * The webhook-deliveries cron runs every 5 minutes, so shorter waits would
+ * round up anyway.
+ */
+const RETRY_DELAYS_MS = [5, 30, 2 * 60, 6 * 60, 12 * 60].map(minutes => minutes * 60 * 1000);
+
+/** How old a signature may be before receivers should reject it */
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export const WEBHOOK_SIGNATURE_HEADER = 'WeWrite-Signature';
+
+export const WEBHOOK_EVENT_TYPES: Array<{ value: WebhookEventType; label: string; description: string }> = [
+  { value: 'page.created', label: 'Page created', description: 'A new page is saved' },
+  { value: 'page.updated', label: 'Page updated', description: 'A page is edited or renamed' },
+  { value: 'reply.created', label: 'Reply created', description: 'Someone replies to a page' },
+  { value: 'link.created', label: 'Link created', description: "Someone else's page links to a page" },
+  { value: 'allocation.received', label: 'Allocation received', description: 'A reader allocates funds to a page' },
+  { value: 'payout.completed', label: 'Payout completed', description: 'A payout reaches your bank account' },
+];
+
+const EVENT_TYPES = new Set<string>(WEBHOOK_EVENT_TYPES.map(event => event.value));
+
+/** Events about money only go to the user they're paid to */
+export const USER_ONLY_EVENT_TYPES: WebhookEventType[] = ['allocation.received', 'payout.completed'];
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === 'string' && EVENT_TYPES.has(value);
+}
+
+function parseIpv4(address: string): number[] | null {
+  const match = address.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (!match) return null;
+  const octets = match.slice(1).map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+}
+
+/** The eight 16-bit groups of an IPv6 address, or null if it isn't one */
+function parseIpv6(address: string): number[] | null {
+  let host = address.toLowerCase().replace(/%.*$/, '');
+
+  // A trailing dotted IPv4 address fills the last two groups
+  const dotted = host.match(/^(.*:)(\d+\.[\d.]+)$/);
+  if (dotted) {
+    const ipv4 = parseIpv4(dotted[2]);
+    if (!ipv4) return null;
+    host = `${dotted[1]}${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${((ipv4[2] << 8) | ipv4[3]).toString(16)}`;
+  }
+
+  const halves = host.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+}
+
+function isPrivateIpv4([a, b]: number[]): boolean {
+  return a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    (a === 100 && b >= 64 && b <= 127);
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on
+ * the public internet. IPv6 addresses that embed an IPv4 one (::ffff:127.0.0.1,
+ * NAT64) are judged by it. Anything that doesn't parse counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIpv4(address);
+  if (ipv4) return isPrivateIpv4(ipv4);
+
+  const groups = parseIpv6(address);
+  if (!groups) return true;
+
+  const isMappedOrCompatible = groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0xffff || groups[5] === 0);
+  const isNat64 = groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0);
+  if (isMappedOrCompatible || isNat64) {
+    // :: and ::1 land here as 0.0.0.0 and 0.0.0.1
+    return isPrivateIpv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff]);
+  }
+
+  return (groups[0] & 0xfe00) === 0xfc00 || // Unique local, fc00::/7
+    (groups[0] & 0xffc0) === 0xfe80 || // Link-local, fe80::/10
+    (groups[0] & 0xff00) === 0xff00 || // Multicast
+    (groups[0] === 0x2001 && groups[1] === 0xdb8); // Documentation
+}
+
+function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return true;
+  }
+  if (parseIpv4(host) || host.includes(':')) {
+    return isPrivateAddress(host);
+  }
+  return false;
+}
+
+/**
+ * Why a URL can't be used as an endpoint, or null if it can. Endpoints must
+ * be public HTTPS URLs. Host names are checked again, resolved, before
+ * every delivery.
+ */
+export function getWebhookUrlError(url: string): string | null {
+  if (!url.trim()) return 'Endpoint URL is required';
+  if (url.length > MAX_WEBHOOK_URL_LENGTH) return 'Endpoint URL is too long';
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return 'Endpoint URL is not a valid URL';
+  }
+
+  if (parsed.protocol !== 'https:') return 'Endpoint URL must use https://';
+  if (parsed.username || parsed.password) return 'Endpoint URL must not contain credentials';
+  if (isPrivateHostname(parsed.hostname)) return 'Endpoint URL must be publicly reachable';
+  return null;
+}
+
+/**
+ * Why a list of event types can't be subscribed to, or null if it can
+ */
+export function getWebhookEventsError(events: unknown): string | null {
+  if (!Array.isArray(events) || events.length === 0) return 'Choose at least one event';
+  const unknown = events.find(event => !isWebhookEventType(event));
+  return unknown === undefined ? null : `Unknown event type: ${String(unknown)}`;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * A stable event ID for something that happened, so the same page save or
+ * payout never queues two deliveries to one endpoint
+ */
+export function createWebhookEventId(type: WebhookEventType, key: string): string {
+  return `evt_${createHash('sha256').update(`${type}:${key}`).digest('hex').slice(0, 32)}`;
+}
+
+export function buildWebhookEvent(type: WebhookEventType, key: string, data: Record<string, any>, now: Date = new Date()): WebhookEvent {
+  return {
+    id: createWebhookEventId(type, key),
+    type,
+    createdAt: now.toISOString(),
+    data,
+  };
+}
+
+/**
+ * Delivery document ID: one per endpoint and event
+ */
+export function getWebhookDeliveryId(endpointId: string, eventId: string): string {
+  return `${endpointId}_${eventId}`;
+}
+
+function computeSignature(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * The WeWrite-Signature header value: `t=<unix seconds>,v1=<hex HMAC>`
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${computeSignature(secret, timestamp, body)}`;
+}
+
+/**
+ * Check a WeWrite-Signature header the way a receiver should
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = new Map(header.split(',').map(part => {
+    const [key, ...rest] = part.trim().split('=');
+    return [key, rest.join('=')] as [string, string];
+  }));
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isFinite(timestamp) || !signature) return false;
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, body), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * When to try again after the given (1-based) attempt failed, or null when
+ * there are no attempts left
+ */
+export function getNextAttemptAt(attempts: number, now: Date = new Date()): Date | null {
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) return null;
+  const delay = RETRY_DELAYS_MS[Math.min(attempts, RETRY_DELAYS_MS.length) - 1];
+  return new Date(now.getTime() + delay);
+}
+
+/**
+ * 2xx is delivered. Anything else is retried, except 410 Gone, which
+ * receivers send to say the endpoint no longer exists.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status !== 410;
+}
+
+/**
+ * Endpoint secrets shown after creation: just enough to recognise them
+ */
+export function maskWebhookSecret(secret: string): string {
+  return `${secret.slice(0, 10)}…${secret.slice(-4)}`;
+}
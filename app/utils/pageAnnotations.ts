@@ -0,0 +1,61 @@
+/**
+ * Page Annotations
+ *
+ * Margin comments anchored to a passage of a page's text (see textAnchors).
+ * Anyone who can read a page can comment on it; the page owner, or for group
+ * pages any member, resolves comments. Pure functions - PageAnnotationService
+ * stores annotations and re-anchors them as the page is edited.
+ */
+
+import type { PageAnnotation } from '../types/database';
+
+export const MAX_ANNOTATION_LENGTH = 2000;
+
+export const MAX_ANNOTATED_TEXT_LENGTH = 1000;
+
+export const MAX_ANNOTATIONS_PER_PAGE = 500;
+
+export interface PageAnnotationInput {
+  body: string;
+  text: string;
+  blockIndex: number | null;
+}
+
+export function getAnnotationInputError(input: { body?: unknown; text?: unknown; blockIndex?: unknown }): string | null {
+  if (typeof input.body !== 'string' || !input.body.trim()) {
+    return 'Write a comment';
+  }
+  if (input.body.trim().length > MAX_ANNOTATION_LENGTH) {
+    return `Comments can be at most ${MAX_ANNOTATION_LENGTH} characters`;
+  }
+  if (typeof input.text !== 'string' || !input.text.trim()) {
+    return 'Select the text to comment on';
+  }
+  if (input.text.trim().length > MAX_ANNOTATED_TEXT_LENGTH) {
+    return `Select at most ${MAX_ANNOTATED_TEXT_LENGTH} characters to comment on`;
+  }
+  if (input.blockIndex !== undefined && input.blockIndex !== null && !(Number.isInteger(input.blockIndex) && (input.blockIndex as number) >= 0)) {
+    return 'blockIndex must be a paragraph number';
+  }
+  return null;
+}
+
+/**
+ * Comments to show beside each paragraph, in the order their passages
+ * appear. Comments whose passage was edited away aren't beside any paragraph.
+ */
+export function groupAnnotationsByBlock(
+  annotations: PageAnnotation[],
+  options: { includeResolved?: boolean } = {}
+): Map<number, PageAnnotation[]> {
+  const byBlock = new Map<number, PageAnnotation[]>();
+  for (const annotation of annotations) {
+    if (annotation.orphaned) continue;
+    if (annotation.status === 'resolved' && !options.includeResolved) continue;
+    byBlock.set(annotation.anchor.blockIndex, [...(byBlock.get(annotation.anchor.blockIndex) || []), annotation]);
+  }
+  for (const blockAnnotations of byBlock.values()) {
+    blockAnnotations.sort((a, b) => a.anchor.startOffset - b.anchor.startOffset || a.createdAt.localeCompare(b.createdAt));
+  }
+  return byBlock;
+}
@@ -0,0 +1,162 @@
+/**
+ * Page Blame Utilities
+ *
+ * Paragraph-level attribution for a page's version history. Consecutive
+ * versions are diffed with the same paragraph matching used for merging, and
+ * every paragraph is credited to the version that last changed it.
+ */
+
+import { toBlocks, blockKey, matchBlocks } from './pageMerge';
+
+export interface BlameAuthor {
+  versionId: string;
+  userId: string;
+  username: string;
+  createdAt: string;
+}
+
+export interface BlameVersion {
+  id: string;
+  content: any;
+  createdAt: any;
+  userId?: string;
+  username?: string;
+  previousVersionId?: string | null;
+  restoredFrom?: { versionId: string } | null;
+}
+
+// A version's content together with the attribution of each of its paragraphs
+export interface BlameSnapshot {
+  content: any;
+  blame: BlameAuthor[];
+}
+
+const toIsoDate = (value: any): string => {
+  if (!value) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value.toDate === 'function') return value.toDate().toISOString();
+  if (typeof value.seconds === 'number') return new Date(value.seconds * 1000).toISOString();
+  if (value instanceof Date) return value.toISOString();
+  return '';
+};
+
+/**
+ * Attribution for a paragraph introduced by this version
+ */
+export function versionAuthor(version: BlameVersion): BlameAuthor {
+  return {
+    versionId: version.id,
+    userId: version.userId || '',
+    username: version.username || 'Anonymous',
+    createdAt: toIsoDate(version.createdAt),
+  };
+}
+
+/**
+ * Carry attribution forward from a source snapshot onto the paragraphs of
+ * `blocks` that appear in it unchanged. Unmatched paragraphs are left as-is.
+ */
+function inheritBlame(blame: BlameAuthor[], blocks: any[], source: BlameSnapshot): void {
+  const sourceBlocks = toBlocks(source.content);
+  const pairs = matchBlocks(sourceBlocks.map(blockKey), blocks.map(blockKey));
+
+  for (const [sourceIndex, index] of pairs) {
+    if (source.blame[sourceIndex]) {
+      blame[index] = source.blame[sourceIndex];
+    }
+  }
+}
+
+/**
+ * Blame one version given the blame of the version before it.
+ * Paragraphs unchanged since `previous` keep their attribution; everything
+ * else is credited to this version. When the version is a restore and the
+ * restored version's snapshot is passed as `restored`, paragraphs brought back
+ * from it keep their original authors instead of the person restoring them.
+ */
+export function blameVersion(
+  previous: BlameSnapshot | null,
+  version: BlameVersion,
+  restored?: BlameSnapshot | null
+): BlameAuthor[] {
+  const blocks = toBlocks(version.content);
+  const author = versionAuthor(version);
+  const blame: BlameAuthor[] = blocks.map(() => author);
+
+  if (restored) {
+    inheritBlame(blame, blocks, restored);
+  }
+  if (previous) {
+    inheritBlame(blame, blocks, previous);
+  }
+
+  return blame;
+}
+
+/**
+ * Order versions along their previousVersionId chain, oldest first, ending at
+ * headVersionId (or the newest version when no head is given). Versions that
+ * are not on the chain - e.g. the losing side of a merged concurrent save -
+ * are left out.
+ */
+export function orderVersionChain<T extends BlameVersion>(versions: T[], headVersionId?: string | null): T[] {
+  if (versions.length === 0) return [];
+
+  const byId = new Map(versions.map(version => [version.id, version]));
+  const head = (headVersionId && byId.get(headVersionId)) || [...versions].sort(
+    (a, b) => new Date(toIsoDate(b.createdAt)).getTime() - new Date(toIsoDate(a.createdAt)).getTime()
+  )[0];
+
+  const chain: T[] = [];
+  const seen = new Set<string>();
+  let current: T | undefined = head;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    chain.push(current);
+    current = current.previousVersionId ? byId.get(current.previousVersionId) : undefined;
+  }
+
+  return chain.reverse();
+}
+
+/**
+ * Blame every version along an oldest-first chain.
+ * `cached` supplies already-computed blame by version id. The walk resumes
+ * from the newest cached version, so only versions after it are diffed.
+ * Returns the blame of each version from that point on, keyed by version id.
+ */
+export function computeBlame(
+  chain: BlameVersion[],
+  cached: Map<string, BlameAuthor[]> = new Map()
+): Map<string, BlameAuthor[]> {
+  const result = new Map<string, BlameAuthor[]>();
+  const snapshots = new Map<string, BlameSnapshot>();
+
+  let start = 0;
+  for (let index = chain.length - 1; index >= 0; index--) {
+    if (cached.has(chain[index].id)) {
+      start = index;
+      break;
+    }
+  }
+
+  // Older cached versions are still needed when a later version restores one of them
+  for (const version of chain.slice(0, start)) {
+    const blame = cached.get(version.id);
+    if (blame) snapshots.set(version.id, { content: version.content, blame });
+  }
+
+  let previous: BlameSnapshot | null = null;
+  for (const version of chain.slice(start)) {
+    const restoredId = version.restoredFrom?.versionId;
+    const blame = cached.get(version.id) ||
+      blameVersion(previous, version, restoredId ? snapshots.get(restoredId) : null);
+
+    const snapshot = { content: version.content, blame };
+    snapshots.set(version.id, snapshot);
+    result.set(version.id, blame);
+    previous = snapshot;
+  }
+
+  return result;
+}
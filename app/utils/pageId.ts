@@ -40,6 +40,7 @@ export function buildNewPageUrl(options?: {
   replyToTitle?: string;
   replyToUsername?: string;
   replyType?: 'agree' | 'disagree' | 'standard';
+  quote?: string; // JSON-encoded passage being replied to {text, blockIndex}
   pageUserId?: string;
   groupId?: string;
   customDate?: string;
@@ -49,6 +50,8 @@ export function buildNewPageUrl(options?: {
   type?: string;
   ideas?: boolean;
   location?: string; // JSON-encoded location object {lat, lng, zoom}
+  rollupDate?: string; // YYYY-MM-DD in the week or month a weekly-note or monthly-note rolls up
+  template?: string; // Id of the page template to start from
 }): string {
   const pageId = generatePageId();
   const params = new URLSearchParams();
@@ -69,6 +72,9 @@ export function buildNewPageUrl(options?: {
     if (options.replyType) {
       params.set('replyType', options.replyType);
     }
+    if (options.quote) {
+      params.set('quote', options.quote);
+    }
     if (options.pageUserId) {
       params.set('pageUserId', options.pageUserId);
     }
@@ -96,6 +102,12 @@ export function buildNewPageUrl(options?: {
     if (options.location) {
       params.set('location', options.location);
     }
+    if (options.rollupDate) {
+      params.set('rollupDate', options.rollupDate);
+    }
+    if (options.template) {
+      params.set('template', options.template);
+    }
   }
 
   return `/${pageId}?${params.toString()}`;
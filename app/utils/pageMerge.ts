@@ -0,0 +1,274 @@
+/**
+ * Page Merge Utilities
+ *
+ * Paragraph-level merging of Slate EditorContent, used when two people save
+ * the same page concurrently. Paragraphs are compared structurally (type,
+ * text, marks and link nodes) so that a link edit counts as a change to the
+ * paragraph that contains it.
+ */
+
+export type EditorBlock = Record<string, any>;
+
+/**
+ * Normalize page content into an array of top-level blocks
+ */
+export function toBlocks(content: any): EditorBlock[] {
+  if (!content) return [];
+
+  if (typeof content === 'string') {
+    try {
+      const parsed = JSON.parse(content);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [{ type: 'paragraph', children: [{ text: content }] }];
+    }
+  }
+
+  return Array.isArray(content) ? content : [];
+}
+
+/**
+ * Stable identity key for a block - two blocks with the same key are the same paragraph
+ */
+export function blockKey(block: EditorBlock): string {
+  return JSON.stringify(block);
+}
+
+/**
+ * Longest common subsequence of two key lists.
+ * Returns matched index pairs in ascending order.
+ */
+export function matchBlocks(a: string[], b: string[]): Array<[number, number]> {
+  const rows = a.length;
+  const cols = b.length;
+  const table: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j]
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Two-way "keep both" merge.
+ * Every paragraph from either side is kept, in document order. Where the two
+ * sides diverge, their paragraphs are placed first and mine follow, so nobody's
+ * text is lost and the user can tidy up the result in the editor.
+ */
+export function mergeKeepingBoth(theirs: any, mine: any): EditorBlock[] {
+  const theirBlocks = toBlocks(theirs);
+  const myBlocks = toBlocks(mine);
+  const pairs = matchBlocks(theirBlocks.map(blockKey), myBlocks.map(blockKey));
+
+  const merged: EditorBlock[] = [];
+  let i = 0;
+  let j = 0;
+
+  for (const [ti, mi] of [...pairs, [theirBlocks.length, myBlocks.length] as [number, number]]) {
+    merged.push(...theirBlocks.slice(i, ti));
+    merged.push(...myBlocks.slice(j, mi));
+    if (ti < theirBlocks.length) {
+      merged.push(theirBlocks[ti]);
+    }
+    i = ti + 1;
+    j = mi + 1;
+  }
+
+  return merged;
+}
+
+/**
+ * A region where both sides changed the same part of the ancestor differently
+ */
+export interface MergeConflict {
+  // Position in the merged content where the conflicting blocks start
+  index: number;
+  base: EditorBlock[];
+  theirs: EditorBlock[];
+  mine: EditorBlock[];
+}
+
+export interface ThreeWayMergeResult {
+  // Merged content. Conflicting regions keep both sides (theirs first, then mine)
+  content: EditorBlock[];
+  conflicts: MergeConflict[];
+  clean: boolean;
+}
+
+type Hunk<T> =
+  | { stable: true; items: T[] }
+  | { stable: false; base: T[]; theirs: T[]; mine: T[] };
+
+/**
+ * diff3 over arbitrary items: splits the three sequences into regions that are
+ * unchanged on both sides and regions where at least one side changed.
+ */
+function diff3<T>(base: T[], theirs: T[], mine: T[], key: (item: T) => string): Hunk<T>[] {
+  const baseKeys = base.map(key);
+  const theirMatch = new Map(matchBlocks(baseKeys, theirs.map(key)));
+  const myMatch = new Map(matchBlocks(baseKeys, mine.map(key)));
+
+  const hunks: Hunk<T>[] = [];
+  let i = 0;
+  let j = 0;
+  let k = 0;
+
+  while (i < base.length || j < theirs.length || k < mine.length) {
+    // Next ancestor item kept by both sides
+    let n = i;
+    while (n < base.length && !(theirMatch.has(n) && myMatch.has(n))) n++;
+
+    const tj = n < base.length ? theirMatch.get(n)! : theirs.length;
+    const mk = n < base.length ? myMatch.get(n)! : mine.length;
+
+    if (n === i && tj === j && mk === k) {
+      const last = hunks[hunks.length - 1];
+      if (last && last.stable) {
+        last.items.push(base[i]);
+      } else {
+        hunks.push({ stable: true, items: [base[i]] });
+      }
+      i++;
+      j++;
+      k++;
+      continue;
+    }
+
+    hunks.push({
+      stable: false,
+      base: base.slice(i, n),
+      theirs: theirs.slice(j, tj),
+      mine: mine.slice(k, mk),
+    });
+    i = n;
+    j = tj;
+    k = mk;
+  }
+
+  return hunks;
+}
+
+const sameKeys = <T>(a: T[], b: T[], key: (item: T) => string) =>
+  a.length === b.length && a.every((item, index) => key(item) === key(b[index]));
+
+/**
+ * Resolve a changed region where only one side (or both identically) changed.
+ * Returns null for a genuine overlap.
+ */
+function resolveHunk<T>(base: T[], theirs: T[], mine: T[], key: (item: T) => string): T[] | null {
+  if (sameKeys(theirs, base, key)) return mine;
+  if (sameKeys(mine, base, key)) return theirs;
+  if (sameKeys(theirs, mine, key)) return theirs;
+  return null;
+}
+
+/**
+ * Resolve a changed region, falling back to position-by-position merging when every
+ * side has the same number of items (i.e. items were edited in place, not added or removed).
+ */
+function mergeHunk<T>(
+  hunk: { base: T[]; theirs: T[]; mine: T[] },
+  key: (item: T) => string,
+  mergeItem?: (base: T, theirs: T, mine: T) => T | null
+): T[] | null {
+  const resolved = resolveHunk(hunk.base, hunk.theirs, hunk.mine, key);
+  if (resolved) return resolved;
+
+  if (hunk.base.length !== hunk.theirs.length || hunk.base.length !== hunk.mine.length) {
+    return null;
+  }
+
+  const merged: T[] = [];
+  for (let index = 0; index < hunk.base.length; index++) {
+    const item =
+      resolveHunk([hunk.base[index]], [hunk.theirs[index]], [hunk.mine[index]], key)?.[0] ??
+      mergeItem?.(hunk.base[index], hunk.theirs[index], hunk.mine[index]) ??
+      null;
+    if (item === null) return null;
+    merged.push(item);
+  }
+
+  return merged;
+}
+
+const blockProps = (block: EditorBlock) => {
+  const { children: _children, ...props } = block;
+  return JSON.stringify(props);
+};
+
+/**
+ * Merge a paragraph that both sides edited, one inline node (text leaf or link) at a time.
+ * Succeeds when the edits touch different leaves or links of the paragraph.
+ */
+function mergeBlock(base: EditorBlock, theirs: EditorBlock, mine: EditorBlock): EditorBlock | null {
+  if (!Array.isArray(base.children) || !Array.isArray(theirs.children) || !Array.isArray(mine.children)) {
+    return null;
+  }
+
+  const props = resolveHunk([base], [theirs], [mine], blockProps);
+  if (!props) return null;
+
+  const children: EditorBlock[] = [];
+  for (const hunk of diff3(base.children, theirs.children, mine.children, blockKey)) {
+    if (hunk.stable) {
+      children.push(...hunk.items);
+      continue;
+    }
+    const resolved = mergeHunk(hunk, blockKey);
+    if (!resolved) return null;
+    children.push(...resolved);
+  }
+
+  return {
+    ...props[0],
+    children: children.length > 0 ? children : [{ text: '' }],
+  };
+}
+
+/**
+ * Three-way merge of page content against a common ancestor.
+ * Edits to different paragraphs - or to different leaves and links within the same
+ * paragraph - merge cleanly. Only overlapping edits are reported as conflicts.
+ */
+export function threeWayMerge(base: any, theirs: any, mine: any): ThreeWayMergeResult {
+  const content: EditorBlock[] = [];
+  const conflicts: MergeConflict[] = [];
+
+  for (const hunk of diff3(toBlocks(base), toBlocks(theirs), toBlocks(mine), blockKey)) {
+    if (hunk.stable) {
+      content.push(...hunk.items);
+      continue;
+    }
+
+    const resolved = mergeHunk(hunk, blockKey, mergeBlock);
+    if (resolved) {
+      content.push(...resolved);
+      continue;
+    }
+
+    conflicts.push({ index: content.length, base: hunk.base, theirs: hunk.theirs, mine: hunk.mine });
+    content.push(...hunk.theirs, ...hunk.mine);
+  }
+
+  return { content, conflicts, clean: conflicts.length === 0 };
+}
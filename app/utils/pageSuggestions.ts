@@ -0,0 +1,49 @@
+/**
+ * Page Suggestions
+ *
+ * Suggested edits from readers who can't edit a page. A suggestion is a
+ * candidate version of the page made against the version the reader started
+ * from; the page owner, or for group pages any member, accepts or rejects it.
+ * Pure functions - PageSuggestionService stores suggestions and turns accepted
+ * ones into versions credited to the suggester.
+ */
+
+import { threeWayMerge } from './pageMerge';
+
+export const MAX_SUGGESTION_NOTE_LENGTH = 500;
+
+/** Pending suggestions one reader can have on one page */
+export const MAX_PENDING_SUGGESTIONS_PER_USER = 5;
+
+export interface PageSuggestionInput {
+  content: any[];
+  note: string | null;
+  baseVersionId: string | null;
+}
+
+export function getSuggestionInputError(input: { content?: unknown; note?: unknown; baseVersionId?: unknown }): string | null {
+  if (!Array.isArray(input.content) || input.content.length === 0) {
+    return 'content must be the suggested page content';
+  }
+  if (input.note !== undefined && input.note !== null && typeof input.note !== 'string') {
+    return 'note must be text';
+  }
+  if (typeof input.note === 'string' && input.note.trim().length > MAX_SUGGESTION_NOTE_LENGTH) {
+    return `Notes can be at most ${MAX_SUGGESTION_NOTE_LENGTH} characters`;
+  }
+  if (input.baseVersionId !== undefined && input.baseVersionId !== null && typeof input.baseVersionId !== 'string') {
+    return 'baseVersionId must be a version id';
+  }
+  return null;
+}
+
+/**
+ * The content accepting a suggestion gives the page. If the page was edited
+ * after the suggestion was made, the suggestion is merged onto the current
+ * content the way concurrent saves are. Null when both changed the same
+ * paragraphs.
+ */
+export function applySuggestion(baseContent: unknown, currentContent: unknown, suggestedContent: unknown): any[] | null {
+  const merge = threeWayMerge(baseContent, currentContent, suggestedContent);
+  return merge.clean ? merge.content : null;
+}
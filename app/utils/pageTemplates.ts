@@ -0,0 +1,151 @@
+/**
+ * Page Templates
+ *
+ * Reusable page skeletons - book reviews, meeting notes, argument maps -
+ * stored as editor content with {{placeholders}} in its text. A template is
+ * private to its author, shared with one group, or public for anyone to
+ * browse. Starting a page from one fills in the placeholders the writer gave
+ * values for and leaves the rest in the text to fill in while writing.
+ * Pure functions - PageTemplateService stores templates and credits their
+ * authors on the pages made from them.
+ */
+
+import { format } from 'date-fns';
+import type { PageTemplate, PageTemplateVisibility } from '../types/database';
+
+export const PAGE_TEMPLATE_VISIBILITIES: PageTemplateVisibility[] = ['private', 'group', 'public'];
+
+export const PAGE_TEMPLATE_VISIBILITY_LABELS: Record<PageTemplateVisibility, string> = {
+  private: 'Only me',
+  group: 'Shared with a group',
+  public: 'Public',
+};
+
+export const MAX_TEMPLATE_TITLE_LENGTH = 100;
+export const MAX_TEMPLATE_DESCRIPTION_LENGTH = 300;
+/** Size of a template's content as JSON */
+export const MAX_TEMPLATE_CONTENT_LENGTH = 100000;
+
+/** Placeholders filled in for every page without asking */
+export const BUILT_IN_TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+  date: 'Today\'s date',
+  author: 'Your username',
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+function hasValue(values: Record<string, string>, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(values, name) && !!values[name]?.trim();
+}
+
+export interface PageTemplateInput {
+  title: string;
+  description: string;
+  content: any[];
+  visibility: PageTemplateVisibility;
+  groupId: string | null;
+}
+
+export function getPageTemplateInputError(input: {
+  title?: unknown;
+  description?: unknown;
+  content?: unknown;
+  visibility?: unknown;
+  groupId?: unknown;
+}): string | null {
+  if (typeof input.title !== 'string' || !input.title.trim()) {
+    return 'Templates need a title';
+  }
+  if (input.title.trim().length > MAX_TEMPLATE_TITLE_LENGTH) {
+    return `Template titles can be at most ${MAX_TEMPLATE_TITLE_LENGTH} characters`;
+  }
+  if (input.description !== undefined && input.description !== null && typeof input.description !== 'string') {
+    return 'description must be text';
+  }
+  if (typeof input.description === 'string' && input.description.trim().length > MAX_TEMPLATE_DESCRIPTION_LENGTH) {
+    return `Descriptions can be at most ${MAX_TEMPLATE_DESCRIPTION_LENGTH} characters`;
+  }
+  if (!Array.isArray(input.content) || input.content.length === 0) {
+    return 'content must be the template\'s page content';
+  }
+  if (JSON.stringify(input.content).length > MAX_TEMPLATE_CONTENT_LENGTH) {
+    return 'This template is too long';
+  }
+  if (!PAGE_TEMPLATE_VISIBILITIES.includes(input.visibility as PageTemplateVisibility)) {
+    return 'visibility must be private, group or public';
+  }
+  if (input.visibility === 'group' && (typeof input.groupId !== 'string' || !input.groupId)) {
+    return 'Choose the group to share the template with';
+  }
+  return null;
+}
+
+/**
+ * Whether a viewer can see and use a template: its author always, group
+ * members for group templates, anyone for public ones
+ */
+export function canViewTemplate(
+  template: Pick<PageTemplate, 'userId' | 'visibility' | 'groupId'>,
+  viewerId: string | null,
+  viewerGroupIds: string[] = []
+): boolean {
+  if (viewerId && template.userId === viewerId) return true;
+  if (template.visibility === 'public') return true;
+  return template.visibility === 'group' && !!template.groupId && viewerGroupIds.includes(template.groupId);
+}
+
+function collectText(node: any, texts: string[]) {
+  if (typeof node?.text === 'string') texts.push(node.text);
+  if (Array.isArray(node?.children)) node.children.forEach((child: any) => collectText(child, texts));
+}
+
+/**
+ * The placeholders a writer fills in, in the order they first appear.
+ * Built-in placeholders are left out since they fill themselves in.
+ */
+export function getTemplatePlaceholders(content: any[]): string[] {
+  const texts: string[] = [];
+  content.forEach(node => collectText(node, texts));
+
+  const names: string[] = [];
+  for (const text of texts) {
+    let match: RegExpExecArray | null;
+    const pattern = new RegExp(PLACEHOLDER_PATTERN.source, 'g');
+    while ((match = pattern.exec(text))) {
+      const name = match[1];
+      if (!Object.prototype.hasOwnProperty.call(BUILT_IN_TEMPLATE_PLACEHOLDERS, name) && !names.includes(name)) names.push(name);
+    }
+  }
+  return names;
+}
+
+/**
+ * The values of the built-in placeholders for a page started now
+ */
+export function getBuiltInTemplateValues(username: string, now: Date = new Date()): Record<string, string> {
+  return {
+    date: format(now, 'yyyy-MM-dd'),
+    author: username,
+  };
+}
+
+/**
+ * A copy of the template content with placeholders replaced by their
+ * values. Placeholders without a value, or with an empty one, are kept.
+ */
+export function fillTemplate(content: any[], values: Record<string, string>): any[] {
+  const fill = (node: any): any => {
+    if (typeof node?.text === 'string') {
+      return {
+        ...node,
+        text: node.text.replace(PLACEHOLDER_PATTERN, (placeholder: string, name: string) =>
+          hasValue(values, name) ? values[name] : placeholder)
+      };
+    }
+    if (Array.isArray(node?.children)) {
+      return { ...node, children: node.children.map(fill) };
+    }
+    return node;
+  };
+  return content.map(fill);
+}
@@ -0,0 +1,273 @@
+/**
+ * Public REST API description
+ *
+ * The OpenAPI 3.1 document for /api/v1, served at /api/v1/openapi.json. v1
+ * is a stable contract: fields and endpoints may be added, but not removed
+ * or changed in a way that breaks existing scripts - that needs a /api/v2.
+ * Keep this in step with the routes under app/api/v1 and the response
+ * shapes in publicApiService.
+ */
+
+import { API_TOKEN_SCOPES } from './apiTokens';
+import type { ApiTokenScope } from '../types/database';
+
+export const PUBLIC_API_VERSION = '1.0.0';
+
+type Schema = Record<string, unknown>;
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+
+const jsonContent = (schema: Schema) => ({ 'application/json': { schema } });
+
+const nullable = (type: string): Schema => ({ type: [type, 'null'] });
+
+const errorResponse = (description: string) => ({ description, content: jsonContent(ref('Error')) });
+
+const limitParameter = {
+  name: 'limit',
+  in: 'query',
+  required: false,
+  schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+};
+
+const pageIdParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: { type: 'string' },
+};
+
+const pageContentSchema: Schema = {
+  description: 'Editor content as an array of nodes, or plain text that becomes one paragraph',
+  oneOf: [{ type: 'array', items: ref('Node') }, { type: 'string' }],
+};
+
+/**
+ * The responses every authenticated operation can give, besides its own
+ */
+function withCommonResponses(responses: Record<string, unknown>) {
+  return {
+    ...responses,
+    401: errorResponse('Missing, unknown, revoked or expired token'),
+    403: errorResponse('The token lacks the scope this operation needs'),
+    429: {
+      ...errorResponse('Over the token\'s rate limit'),
+      headers: { 'Retry-After': { schema: { type: 'integer' }, description: 'Seconds until the limit resets' } },
+    },
+  };
+}
+
+function operation(scope: ApiTokenScope, summary: string, details: Record<string, unknown>) {
+  return {
+    summary,
+    security: [{ apiToken: [scope] }],
+    'x-required-scope': scope,
+    ...details,
+    responses: withCommonResponses(details.responses as Record<string, unknown>),
+  };
+}
+
+export function buildOpenApiSpec(baseUrl: string): Record<string, any> {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'WeWrite API',
+      version: PUBLIC_API_VERSION,
+      description: [
+        'Read, write and search WeWrite pages from your own tools.',
+        '',
+        'Create a personal API token in Settings → Advanced and send it as `Authorization: Bearer wwpat_...`.',
+        'Each token has scopes and its own per-minute rate limit; every response carries',
+        '`X-RateLimit-Limit`, `X-RateLimit-Remaining` and `X-RateLimit-Reset` headers.',
+        'Errors are `{ "error": { "code", "message" } }`.',
+      ].join('\n'),
+    },
+    servers: [{ url: `${baseUrl}/api/v1` }],
+    components: {
+      securitySchemes: {
+        apiToken: {
+          type: 'http',
+          scheme: 'bearer',
+          description: `Personal API token. Scopes: ${API_TOKEN_SCOPES.map(scope => `\`${scope.value}\` (${scope.description.toLowerCase()})`).join(', ')}.`,
+        },
+      },
+      schemas: {
+        Error: {
+          type: 'object',
+          required: ['error'],
+          properties: {
+            error: {
+              type: 'object',
+              required: ['code', 'message'],
+              properties: {
+                code: {
+                  type: 'string',
+                  enum: ['invalid_request', 'unauthorized', 'insufficient_scope', 'forbidden', 'not_found', 'conflict', 'rate_limited', 'internal_error'],
+                },
+                message: { type: 'string' },
+              },
+            },
+          },
+        },
+        Node: {
+          type: 'object',
+          description: 'A paragraph, heading or list node with `children`; text leaves have `text`; page links are `{ type: "link", pageId, children }`',
+          additionalProperties: true,
+        },
+        PageSummary: {
+          type: 'object',
+          required: ['id', 'title', 'isPublic'],
+          properties: {
+            id: { type: 'string' },
+            title: { type: 'string' },
+            userId: nullable('string'),
+            username: nullable('string'),
+            groupId: nullable('string'),
+            isPublic: { type: 'boolean' },
+            createdAt: { ...nullable('string'), format: 'date-time' },
+            lastModified: { ...nullable('string'), format: 'date-time' },
+            currentVersion: { ...nullable('string'), description: 'Send as baseVersion when updating the page' },
+          },
+        },
+        Page: {
+          allOf: [
+            ref('PageSummary'),
+            {
+              type: 'object',
+              required: ['content', 'encrypted'],
+              properties: {
+                content: { type: 'array', items: ref('Node') },
+                encrypted: { type: 'boolean', description: 'End-to-end encrypted group content, which the API cannot read; content is empty' },
+              },
+            },
+          ],
+        },
+        PageLink: {
+          type: 'object',
+          required: ['pageId'],
+          properties: {
+            pageId: { type: 'string' },
+            title: nullable('string'),
+            text: nullable('string'),
+          },
+        },
+        Version: {
+          type: 'object',
+          required: ['id', 'isNewPage', 'added', 'removed'],
+          properties: {
+            id: { type: 'string' },
+            title: nullable('string'),
+            userId: nullable('string'),
+            username: nullable('string'),
+            createdAt: { ...nullable('string'), format: 'date-time' },
+            isNewPage: { type: 'boolean' },
+            added: { type: 'integer', description: 'Characters added' },
+            removed: { type: 'integer', description: 'Characters removed' },
+          },
+        },
+      },
+    },
+    paths: {
+      '/pages': {
+        get: operation('pages:read', 'List your pages', {
+          description: 'Your pages, most recently edited first.',
+          parameters: [limitParameter, { name: 'cursor', in: 'query', required: false, schema: { type: 'string' }, description: 'nextCursor from the previous response' }],
+          responses: {
+            200: {
+              description: 'A page of results',
+              content: jsonContent({
+                type: 'object',
+                required: ['pages', 'nextCursor'],
+                properties: { pages: { type: 'array', items: ref('PageSummary') }, nextCursor: nullable('string') },
+              }),
+            },
+            400: errorResponse('Invalid limit'),
+          },
+        }),
+        post: operation('pages:write', 'Create a page', {
+          requestBody: {
+            required: true,
+            content: jsonContent({
+              type: 'object',
+              required: ['title'],
+              properties: { title: { type: 'string' }, content: pageContentSchema },
+            }),
+          },
+          responses: {
+            201: { description: 'The new page', content: jsonContent({ type: 'object', properties: { page: ref('Page') } }) },
+            400: errorResponse('Missing title or invalid content'),
+          },
+        }),
+      },
+      '/pages/{id}': {
+        get: operation('pages:read', 'Get a page', {
+          parameters: [pageIdParameter],
+          responses: {
+            200: { description: 'The page', content: jsonContent({ type: 'object', properties: { page: ref('Page') } }) },
+            404: errorResponse('No such page, or you can\'t read it'),
+          },
+        }),
+        patch: operation('pages:write', 'Update a page', {
+          description: 'Change the title, the content or both; each content change is saved as a new version. '
+            + 'Send the page\'s currentVersion as baseVersion: if someone else saved since, non-overlapping edits are merged '
+            + '(`merged: true`) and overlapping ones are rejected with a 409. Encrypted pages can only be renamed.',
+          parameters: [pageIdParameter],
+          requestBody: {
+            required: true,
+            content: jsonContent({
+              type: 'object',
+              properties: { title: { type: 'string' }, content: pageContentSchema, baseVersion: { type: 'string' } },
+            }),
+          },
+          responses: {
+            200: {
+              description: 'The updated page',
+              content: jsonContent({ type: 'object', properties: { page: ref('Page'), merged: { type: 'boolean' } } }),
+            },
+            400: errorResponse('Nothing to change, or invalid fields'),
+            404: errorResponse('No such page, or you can\'t read it'),
+            409: errorResponse('The page changed since baseVersion in a way that overlaps this edit (error.currentVersion is the version to rebase on), or content was sent for an encrypted page'),
+          },
+        }),
+      },
+      '/pages/{id}/links': {
+        get: operation('pages:read', 'Get a page\'s links', {
+          parameters: [pageIdParameter],
+          responses: {
+            200: {
+              description: 'Links out of and into the page',
+              content: jsonContent({
+                type: 'object',
+                properties: {
+                  outgoing: { type: 'array', items: ref('PageLink') },
+                  incoming: { type: 'array', items: ref('PageLink'), description: 'Public pages linking here' },
+                  external: { type: 'array', items: { type: 'object', properties: { url: { type: 'string' }, text: nullable('string') } } },
+                },
+              }),
+            },
+            404: errorResponse('No such page, or you can\'t read it'),
+          },
+        }),
+      },
+      '/pages/{id}/versions': {
+        get: operation('pages:read', 'List a page\'s versions', {
+          parameters: [pageIdParameter, limitParameter],
+          responses: {
+            200: { description: 'Versions, newest first', content: jsonContent({ type: 'object', properties: { versions: { type: 'array', items: ref('Version') } } }) },
+            404: errorResponse('No such page, or you can\'t read it'),
+          },
+        }),
+      },
+      '/search': {
+        get: operation('search', 'Search pages', {
+          description: 'Pages you can read that match `q`, which supports the same operators as search in the app (author:, group:, linksto:, "phrases", -exclusions and so on).',
+          parameters: [{ name: 'q', in: 'query', required: true, schema: { type: 'string', maxLength: 500 } }, limitParameter],
+          responses: {
+            200: { description: 'Matching pages', content: jsonContent({ type: 'object', properties: { pages: { type: 'array', items: ref('PageSummary') } } }) },
+            400: errorResponse('Missing or too long q, or invalid limit'),
+          },
+        }),
+      },
+    },
+  };
+}
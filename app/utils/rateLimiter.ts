@@ -41,9 +41,10 @@ export class RateLimiter {
   }
 
   /**
-   * Check if request is allowed and update counter
+   * Check if request is allowed and update counter. maxRequests overrides
+   * the configured limit, for identifiers with their own limits.
    */
-  async checkLimit(identifier: string): Promise<{
+  async checkLimit(identifier: string, maxRequests: number = this.config.maxRequests): Promise<{
     allowed: boolean;
     remaining: number;
     resetTime: number;
@@ -62,7 +63,7 @@ export class RateLimiter {
       this.store.set(key, entry);
     }
 
-    const allowed = entry.count < this.config.maxRequests;
+    const allowed = entry.count < maxRequests;
 
     if (allowed) {
       entry.count++;
@@ -70,7 +71,7 @@ export class RateLimiter {
 
     return {
       allowed,
-      remaining: Math.max(0, this.config.maxRequests - entry.count),
+      remaining: Math.max(0, maxRequests - entry.count),
       resetTime: entry.resetTime,
       totalRequests: entry.count
     };
@@ -196,3 +197,13 @@ export const webhookRateLimiter = new RateLimiter({
   keyGenerator: (source) => `webhook:${source}`,
   skipSuccessfulRequests: true
 });
+
+/**
+ * Personal API token rate limiter - each token's own requests per minute,
+ * passed to checkLimit
+ */
+export const apiTokenRateLimiter = new RateLimiter({
+  windowMs: 60 * 1000,
+  maxRequests: 60,
+  keyGenerator: (tokenId) => `api-token:${tokenId}`
+});
@@ -0,0 +1,105 @@
+/**
+ * Recurring Pledges
+ *
+ * Works out what a supporter's standing pledges are worth in a given month and
+ * which of them the subscription can cover. Pure functions - the monthly cron
+ * and the subscription webhook load the data and store the result.
+ */
+
+import type { RecurringPledge } from '../types/allocation';
+
+/** Most standing pledges one supporter can have at a time */
+export const MAX_RECURRING_PLEDGES = 50;
+
+export interface RecurringPledgeFit {
+  pledgeId: string;
+  usdCents: number;
+  status: 'active' | 'suspended';
+  suspensionReason?: RecurringPledge['suspensionReason'];
+}
+
+/**
+ * Monthly amount of a pledge for the given subscription budget.
+ * Percentage pledges round down so they never exceed their share.
+ */
+export function resolvePledgeCents(pledge: RecurringPledge, budgetCents: number): number {
+  if (pledge.amountType === 'percentage') {
+    const percent = Math.min(100, Math.max(0, pledge.percent || 0));
+    return Math.floor((Math.max(0, budgetCents) * percent) / 100);
+  }
+  return Math.max(0, Math.round(pledge.usdCents || 0));
+}
+
+/**
+ * Decide which pledges stay active for a budget, using the same rule as
+ * pledge budget validation: smallest pledges are kept first and the largest
+ * are suspended when the budget runs out. Ties keep the older pledge.
+ *
+ * Manual allocations the supporter already made this month come out of the
+ * budget first; percentage pledges are still a share of the whole budget.
+ *
+ * Suspended pledges are re-checked too, so they are restored as soon as the
+ * budget covers them again. Cancelled pledges are left out.
+ */
+export function fitRecurringPledges(
+  pledges: RecurringPledge[],
+  budgetCents: number,
+  subscriptionActive: boolean,
+  manualAllocatedCents: number = 0
+): RecurringPledgeFit[] {
+  const candidates = pledges
+    .filter(pledge => pledge.status !== 'cancelled')
+    .map(pledge => ({ pledge, usdCents: resolvePledgeCents(pledge, budgetCents) }))
+    .sort((a, b) => a.usdCents - b.usdCents || a.pledge.createdAt.localeCompare(b.pledge.createdAt));
+
+  if (!subscriptionActive) {
+    return candidates.map(({ pledge, usdCents }) => ({
+      pledgeId: pledge.id,
+      usdCents,
+      status: 'suspended',
+      suspensionReason: 'subscription_inactive'
+    }));
+  }
+
+  let runningTotal = Math.max(0, manualAllocatedCents);
+  return candidates.map(({ pledge, usdCents }) => {
+    if (usdCents > 0 && runningTotal + usdCents <= budgetCents) {
+      runningTotal += usdCents;
+      return { pledgeId: pledge.id, usdCents, status: 'active' };
+    }
+    return {
+      pledgeId: pledge.id,
+      usdCents,
+      status: 'suspended',
+      suspensionReason: 'insufficient_budget'
+    };
+  });
+}
+
+/**
+ * Fund distribution (userId -> percentage) a group pledge is paid out by.
+ *
+ * Uses the group's fundDistribution, limited to its current members. The
+ * supporter never pays themselves: their percentage is shared among the others
+ * in proportion. Members split evenly when the group has no distribution set
+ * (or none of it is left for the remaining members).
+ */
+export function getGroupPledgeDistribution(
+  memberIds: string[],
+  supporterId: string,
+  fundDistribution?: Record<string, number> | null
+): Record<string, number> {
+  const recipients = Array.from(new Set(memberIds))
+    .filter(memberId => memberId !== supporterId)
+    .sort();
+
+  const weights = recipients.map(memberId => Math.max(0, fundDistribution?.[memberId] || 0));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const distribution: Record<string, number> = {};
+  recipients.forEach((memberId, index) => {
+    const percentage = totalWeight > 0 ? (weights[index] * 100) / totalWeight : 100 / recipients.length;
+    if (percentage > 0) distribution[memberId] = percentage;
+  });
+  return distribution;
+}
@@ -0,0 +1,165 @@
+/**
+ * Reply Threads
+ *
+ * A reply can quote an exact passage of the page it answers, anchored to a
+ * top-level content block and a character range within that block's text,
+ * and can itself be replied to. Each reply stores the ids of the pages above
+ * it (replyAncestorIds), so a page's whole discussion is one array-contains
+ * query, and the page its thread started from (replyRootId), which stays put
+ * when a deep thread's ancestors are trimmed. Pure functions - the pages API anchors quotes when a reply is first
+ * saved, /api/replies re-anchors them, and RepliesSection builds the threads.
+ */
+
+import { findTextAnchor, isAnchorIntact } from './textAnchors';
+import type { ReplyQuote } from '../types/database';
+
+export const MAX_REPLY_QUOTE_LENGTH = 1000;
+
+/** Ancestors kept on a reply; deeper threads drop the outermost ones, though not replyRootId */
+export const MAX_REPLY_ANCESTORS = 20;
+
+export type ReplySentiment = 'agree' | 'disagree' | 'neutral';
+
+export type ReplyThreadFilter = 'all' | ReplySentiment | 'unanswered';
+
+export interface ThreadableReply {
+  id: string;
+  replyTo?: string | null;
+  replyAncestorIds?: string[];
+  replyType: ReplySentiment;
+  createdAt: any;
+}
+
+export interface ReplyThreadNode<T extends ThreadableReply> {
+  reply: T;
+  depth: number;
+  children: ReplyThreadNode<T>[];
+  /** False for replies kept by a filter only to show where a match sits */
+  matches: boolean;
+}
+
+export interface ReplyThreadCounts {
+  agree: number;
+  disagree: number;
+  neutral: number;
+  unanswered: number;
+  total: number;
+}
+
+/**
+ * The quoted text and block a reader selected, from a URL or request body
+ */
+export function getReplyQuoteInput(value: unknown): { text: string; blockIndex: number | null } | null {
+  if (!value || typeof value !== 'object') return null;
+  const { text, blockIndex } = value as Record<string, unknown>;
+  if (typeof text !== 'string') return null;
+
+  const trimmed = text.trim();
+  if (!trimmed || trimmed.length > MAX_REPLY_QUOTE_LENGTH) return null;
+  return {
+    text: trimmed,
+    blockIndex: Number.isInteger(blockIndex) && (blockIndex as number) >= 0 ? blockIndex as number : null,
+  };
+}
+
+/**
+ * Anchor a passage to the parent page it was selected from, preferring the
+ * occurrence in the block the reader selected it in
+ */
+export function createReplyQuote(content: unknown, text: string, blockIndexHint: number | null = null): ReplyQuote | null {
+  if (text.trim().length > MAX_REPLY_QUOTE_LENGTH) return null;
+  return findTextAnchor(content, text, blockIndexHint);
+}
+
+/**
+ * Where a stored quote sits in the page's current content. The page may have
+ * been edited since the reply was written: a passage that moved is anchored
+ * again, one that was changed or removed gives null.
+ */
+export function resolveReplyQuote(content: unknown, quote: ReplyQuote): ReplyQuote | null {
+  return isAnchorIntact(content, quote) ? quote : findTextAnchor(content, quote.text, quote.blockIndex);
+}
+
+/**
+ * replyAncestorIds for a new reply to the given page
+ */
+export function getReplyAncestorIds(parent: { id: string; replyAncestorIds?: string[] }): string[] {
+  return [...(parent.replyAncestorIds || []), parent.id].slice(-MAX_REPLY_ANCESTORS);
+}
+
+/**
+ * replyRootId for a new reply to the given page: the parent's root, or the
+ * parent itself when it doesn't reply to anything
+ */
+export function getReplyRootId(parent: { id: string; replyRootId?: string; replyAncestorIds?: string[] }): string {
+  return parent.replyRootId || parent.replyAncestorIds?.[0] || parent.id;
+}
+
+export function toReplySentiment(replyType: unknown): ReplySentiment {
+  return replyType === 'agree' || replyType === 'disagree' ? replyType : 'neutral';
+}
+
+function toMillis(value: any): number {
+  if (!value) return 0;
+  if (typeof value.toDate === 'function') return value.toDate().getTime();
+  if (typeof value === 'object') {
+    const seconds = value.seconds ?? value._seconds;
+    return typeof seconds === 'number' ? seconds * 1000 : 0;
+  }
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? 0 : time;
+}
+
+/**
+ * Nest a page's replies into threads. A reply whose parent isn't in the list
+ * (deleted, or by someone the viewer has hidden) hangs off its nearest listed
+ * ancestor instead. Threads are newest first; replies within a thread read
+ * oldest first, like a conversation.
+ */
+export function buildReplyThreads<T extends ThreadableReply>(replies: T[], rootId: string): ReplyThreadNode<T>[] {
+  const byId = new Map(replies.map(reply => [reply.id, reply]));
+  const childrenOf = new Map<string, T[]>();
+
+  for (const reply of replies) {
+    const ancestors = [...(reply.replyAncestorIds || []), reply.replyTo].filter(Boolean) as string[];
+    const parentId = ancestors.reverse().find(id => id === rootId || (byId.has(id) && id !== reply.id)) || rootId;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), reply]);
+  }
+
+  const build = (parentId: string, depth: number, newestFirst: boolean): ReplyThreadNode<T>[] =>
+    [...(childrenOf.get(parentId) || [])]
+      .sort((a, b) => (toMillis(a.createdAt) - toMillis(b.createdAt)) * (newestFirst ? -1 : 1))
+      .map(reply => ({ reply, depth, children: build(reply.id, depth + 1, false), matches: true }));
+
+  return build(rootId, 0, true);
+}
+
+function matchesFilter(node: ReplyThreadNode<ThreadableReply>, filter: ReplyThreadFilter): boolean {
+  if (filter === 'all') return true;
+  if (filter === 'unanswered') return node.children.length === 0;
+  return node.reply.replyType === filter;
+}
+
+/**
+ * The threads narrowed to replies matching the filter, keeping the replies
+ * above each match (with matches: false) so it can be read in context
+ */
+export function filterReplyThreads<T extends ThreadableReply>(threads: ReplyThreadNode<T>[], filter: ReplyThreadFilter): ReplyThreadNode<T>[] {
+  return threads.flatMap(node => {
+    const matches = matchesFilter(node, filter);
+    const children = filterReplyThreads(node.children, filter);
+    return matches || children.length > 0 ? [{ ...node, children, matches }] : [];
+  });
+}
+
+export function countReplyThreads(threads: ReplyThreadNode<ThreadableReply>[]): ReplyThreadCounts {
+  const counts: ReplyThreadCounts = { agree: 0, disagree: 0, neutral: 0, unanswered: 0, total: 0 };
+  const visit = (node: ReplyThreadNode<ThreadableReply>) => {
+    counts.total++;
+    counts[node.reply.replyType]++;
+    if (node.children.length === 0) counts.unanswered++;
+    node.children.forEach(visit);
+  };
+  threads.forEach(visit);
+  return counts;
+}
@@ -0,0 +1,128 @@
+/**
+ * Saved Search Matches
+ *
+ * Bookkeeping for saved searches: which pages count as new matches, what is
+ * remembered between runs, and how matches are described in a notification.
+ * Pure functions - SavedSearchService loads the searches and stores the result.
+ */
+
+import type { SavedSearchMatch } from '../types/database';
+import {
+  parseSearchQuery,
+  getSearchText,
+  pageMatchesSearchQuery,
+  type ParsedSearchQuery,
+  type SearchablePage,
+} from './searchQueryParser';
+
+/** Most saved searches one user can have */
+export const MAX_SAVED_SEARCHES = 20;
+
+/** Longest query that can be saved */
+export const MAX_SAVED_SEARCH_LENGTH = 200;
+
+/** Page ids remembered per search so edits to a reported page aren't reported again */
+export const MAX_SEEN_PAGE_IDS = 200;
+
+/** Matches held for the weekly digest, per search */
+export const MAX_DIGEST_MATCHES = 20;
+
+/** Collapse whitespace so the same query isn't saved twice */
+export function normalizeSavedSearchQuery(query: string): string {
+  return (query || '').trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Why a query can't be saved, or null when it can. A saved search needs
+ * something to match on and operators that all parse.
+ */
+export function getSavedSearchQueryError(query: string): string | null {
+  const normalized = normalizeSavedSearchQuery(query);
+  if (!normalized) {
+    return 'Search query is required';
+  }
+  if (normalized.length > MAX_SAVED_SEARCH_LENGTH) {
+    return `Search query must be at most ${MAX_SAVED_SEARCH_LENGTH} characters`;
+  }
+
+  const parsed = parseSearchQuery(normalized);
+  if (parsed.errors.length > 0) {
+    return parsed.errors[0];
+  }
+  if (!getSearchText(parsed) && parsed.filters.length === 0) {
+    return 'Search query needs words or filters to match on';
+  }
+  return null;
+}
+
+/**
+ * Full match of a page against a query: every plain word, every phrase,
+ * no excluded text, and every filter. Used where there is no search index
+ * to rank by.
+ */
+export function pageMatchesSavedSearch(page: SearchablePage, parsed: ParsedSearchQuery): boolean {
+  const haystack = `${page.title} ${page.text}`.toLowerCase();
+  if (!parsed.terms.every(term => haystack.includes(term.toLowerCase()))) return false;
+  return pageMatchesSearchQuery(page, parsed);
+}
+
+/**
+ * Matches that haven't been reported before, without duplicates.
+ * The searcher's own pages are left out.
+ */
+export function selectNewMatches(
+  candidates: Array<SavedSearchMatch & { authorId?: string }>,
+  seenPageIds: string[],
+  userId: string
+): SavedSearchMatch[] {
+  const seen = new Set(seenPageIds);
+  const matches: SavedSearchMatch[] = [];
+
+  for (const { authorId, ...match } of candidates) {
+    if (authorId === userId || seen.has(match.pageId)) continue;
+    seen.add(match.pageId);
+    matches.push(match);
+  }
+  return matches;
+}
+
+/** Add newly reported pages, keeping the most recent ones */
+export function rememberSeenPageIds(seenPageIds: string[], matches: SavedSearchMatch[]): string[] {
+  const ids = [...seenPageIds, ...matches.map(match => match.pageId)];
+  return [...new Set(ids)].slice(-MAX_SEEN_PAGE_IDS);
+}
+
+/** Queue matches for the digest, keeping the most recent ones */
+export function appendDigestMatches(pending: SavedSearchMatch[], matches: SavedSearchMatch[]): SavedSearchMatch[] {
+  const byPage = new Map<string, SavedSearchMatch>();
+  for (const match of [...pending, ...matches]) {
+    byPage.delete(match.pageId);
+    byPage.set(match.pageId, match);
+  }
+  return [...byPage.values()].slice(-MAX_DIGEST_MATCHES);
+}
+
+/** Where a saved search notification or digest entry links to */
+export function getSavedSearchUrl(query: string): string {
+  return `/search?q=${encodeURIComponent(query)}`;
+}
+
+/**
+ * Notification text for new matches, e.g.
+ * 3 new pages match "housing policy" / "Zoning reform", "Rent caps" and 1 more
+ */
+export function describeSavedSearchMatches(
+  query: string,
+  matches: SavedSearchMatch[]
+): { title: string; message: string } {
+  const count = matches.length;
+  const title = `${count} new ${count === 1 ? 'page matches' : 'pages match'} "${query}"`;
+
+  const named = matches.slice(0, 2).map(match => `"${match.title || 'Untitled'}"`);
+  const rest = count - named.length;
+  const message = rest > 0
+    ? `${named.join(', ')} and ${rest} more`
+    : named.join(' and ');
+
+  return { title, message };
+}
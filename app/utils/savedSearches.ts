@@ -1,92 +1,107 @@
+"use client";
+
 /**
  * Utility functions for managing saved searches
+ *
+ * Saved searches live on the server (/api/saved-searches) so the
+ * saved-searches cron can notify about new matches. Searches saved in
+ * localStorage by older versions are uploaded the first time the list loads.
  */
 
-// Maximum number of saved searches to store
-const MAX_SAVED_SEARCHES = 20;
+import type { SavedSearch } from '../types/database';
+
+export type { SavedSearch };
 
-interface SavedSearch {
+interface LegacySavedSearch {
   term: string;
   timestamp: number;
 }
 
+const getLegacyStorageKey = (userId: string | null): string =>
+  userId ? `savedSearches_${userId}` : 'savedSearches';
+
 /**
  * Save a search query
  */
-export const saveSearchQuery = (searchTerm: string, userId: string | null = null): boolean => {
-  if (!searchTerm || typeof searchTerm !== 'string') {
-    return false;
-  }
-
-  // Trim the search term
-  const trimmedTerm = searchTerm.trim();
-
-  // Don't save empty searches
+export const saveSearchQuery = async (
+  searchTerm: string,
+  options: { notify?: boolean; includeInDigest?: boolean } = {}
+): Promise<{ search?: SavedSearch; error?: string }> => {
+  const trimmedTerm = typeof searchTerm === 'string' ? searchTerm.trim() : '';
   if (!trimmedTerm) {
-    return false;
+    return { error: 'Search query is required' };
   }
 
   try {
-    // Create a storage key that's specific to the user if provided
-    const storageKey = userId ? `savedSearches_${userId}` : 'savedSearches';
-
-    // Get existing saved searches
-    const existingSearchesStr = localStorage.getItem(storageKey);
-    let savedSearches: SavedSearch[] = existingSearchesStr ? JSON.parse(existingSearchesStr) : [];
-
-    // Ensure it's an array
-    if (!Array.isArray(savedSearches)) {
-      savedSearches = [];
+    const response = await fetch('/api/saved-searches', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ query: trimmedTerm, ...options })
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      return { error: data.error || 'Failed to save search' };
     }
+    return { search: data.search };
+  } catch (error) {
+    console.error("Error saving search query:", error);
+    return { error: 'Failed to save search' };
+  }
+};
 
-    // Check if this search term already exists
-    const existingIndex = savedSearches.findIndex(item =>
-      item.term.toLowerCase() === trimmedTerm.toLowerCase()
-    );
+/**
+ * Upload searches saved in localStorage by older versions, then forget them.
+ * Searches that fail to upload stay behind for the next attempt.
+ */
+const migrateLegacySavedSearches = async (userId: string | null): Promise<void> => {
+  if (typeof window === 'undefined') return;
 
-    // If it already exists, don't add it again
-    if (existingIndex !== -1) {
-      return false;
+  const storageKey = getLegacyStorageKey(userId);
+  try {
+    const legacyStr = localStorage.getItem(storageKey);
+    if (!legacyStr) return;
+
+    const legacy: LegacySavedSearch[] = JSON.parse(legacyStr);
+    const remaining: LegacySavedSearch[] = [];
+    if (Array.isArray(legacy)) {
+      for (const item of legacy) {
+        if (item && typeof item.term === 'string') {
+          const { error } = await saveSearchQuery(item.term, { notify: false });
+          if (error && error !== 'This search is already saved') {
+            remaining.push(item);
+          }
+        }
+      }
     }
 
-    // Add the new search term with timestamp
-    savedSearches.push({
-      term: trimmedTerm,
-      timestamp: Date.now()
-    });
-
-    // Keep only the maximum number of saved searches
-    if (savedSearches.length > MAX_SAVED_SEARCHES) {
-      savedSearches = savedSearches.slice(-MAX_SAVED_SEARCHES);
+    if (remaining.length > 0) {
+      localStorage.setItem(storageKey, JSON.stringify(remaining));
+    } else {
+      localStorage.removeItem(storageKey);
     }
-
-    // Save back to localStorage
-    localStorage.setItem(storageKey, JSON.stringify(savedSearches));
-    return true;
   } catch (error) {
-    console.error("Error saving search query:", error);
-    return false;
+    console.error("Error migrating saved searches:", error);
   }
 };
 
 /**
  * Get the list of saved searches
  */
-export const getSavedSearches = (userId: string | null = null): SavedSearch[] => {
-  try {
-    // Create a storage key that's specific to the user if provided
-    const storageKey = userId ? `savedSearches_${userId}` : 'savedSearches';
+export const getSavedSearches = async (userId: string | null = null): Promise<SavedSearch[]> => {
+  if (!userId) {
+    return [];
+  }
 
-    // Get saved searches from localStorage
-    const savedSearchesStr = localStorage.getItem(storageKey);
-    let savedSearches: SavedSearch[] = savedSearchesStr ? JSON.parse(savedSearchesStr) : [];
+  await migrateLegacySavedSearches(userId);
 
-    // Ensure it's an array
-    if (!Array.isArray(savedSearches)) {
+  try {
+    const response = await fetch('/api/saved-searches', { credentials: 'include' });
+    if (!response.ok) {
       return [];
     }
-
-    return savedSearches;
+    const data = await response.json();
+    return Array.isArray(data.searches) ? data.searches : [];
   } catch (error) {
     console.error("Error getting saved searches:", error);
     return [];
@@ -94,47 +109,50 @@ export const getSavedSearches = (userId: string | null = null): SavedSearch[] =>
 };
 
 /**
- * Delete a saved search by index
+ * Turn new-match notifications or weekly digest inclusion on or off
  */
-export const deleteSavedSearch = (index: number, userId: string | null = null): boolean => {
+export const updateSavedSearch = async (
+  id: string,
+  updates: { notify?: boolean; includeInDigest?: boolean }
+): Promise<SavedSearch | null> => {
   try {
-    // Create a storage key that's specific to the user if provided
-    const storageKey = userId ? `savedSearches_${userId}` : 'savedSearches';
-
-    // Get existing saved searches
-    const existingSearchesStr = localStorage.getItem(storageKey);
-    let savedSearches: SavedSearch[] = existingSearchesStr ? JSON.parse(existingSearchesStr) : [];
-
-    // Ensure it's an array
-    if (!Array.isArray(savedSearches) || index < 0 || index >= savedSearches.length) {
-      return false;
+    const response = await fetch(`/api/saved-searches/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(updates)
+    });
+    if (!response.ok) {
+      return null;
     }
-
-    // Remove the search at the specified index
-    savedSearches.splice(index, 1);
-
-    // Save back to localStorage
-    localStorage.setItem(storageKey, JSON.stringify(savedSearches));
-    return true;
+    const data = await response.json();
+    return data.search || null;
   } catch (error) {
-    console.error("Error deleting saved search:", error);
-    return false;
+    console.error("Error updating saved search:", error);
+    return null;
   }
 };
 
 /**
- * Clear all saved searches
+ * Delete a saved search by id
  */
-export const clearSavedSearches = (userId: string | null = null): boolean => {
+export const deleteSavedSearch = async (id: string): Promise<boolean> => {
   try {
-    // Create a storage key that's specific to the user if provided
-    const storageKey = userId ? `savedSearches_${userId}` : 'savedSearches';
-
-    // Clear saved searches
-    localStorage.removeItem(storageKey);
-    return true;
+    const response = await fetch(`/api/saved-searches/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      credentials: 'include'
+    });
+    return response.ok;
   } catch (error) {
-    console.error("Error clearing saved searches:", error);
+    console.error("Error deleting saved search:", error);
     return false;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Clear all saved searches
+ */
+export const clearSavedSearches = async (searches: SavedSearch[]): Promise<boolean> => {
+  const results = await Promise.all(searches.map(search => deleteSavedSearch(search.id)));
+  return results.every(Boolean);
+};
@@ -0,0 +1,371 @@
+/**
+ * Search Query Language
+ *
+ * Parses search box input like
+ *
+ *   "daily practice" meditation -sleep author:jamie after:2024-01-01 is:reply
+ *
+ * into free text, quoted phrases, exclusions and filters, and compiles the
+ * result for Typesense (`q` + `filter_by`) or matches it against a page
+ * directly for the Firestore fallback.
+ *
+ * Filter values that name something (a user, group or page) are resolved to
+ * ids server-side before compiling; see `ids` on SearchQueryFilter.
+ */
+
+export type SearchFilterField =
+  | 'author'
+  | 'group'
+  | 'linksto'
+  | 'linkedfrom'
+  | 'before'
+  | 'after'
+  | 'has'
+  | 'is';
+
+export interface SearchQueryFilter {
+  field: SearchFilterField;
+  /** Value as typed, e.g. a username, group name, page title or date */
+  value: string;
+  /** Written with a leading '-' */
+  negated: boolean;
+  /** For before/after: the date as a Unix timestamp in milliseconds */
+  timestamp?: number;
+  /**
+   * For author/group/linksto/linkedfrom: the ids the value resolved to.
+   * When unset, the raw value is used as the id.
+   */
+  ids?: string[];
+}
+
+export interface ParsedSearchQuery {
+  /** Plain words, in the order typed */
+  terms: string[];
+  /** Quoted phrases that must appear */
+  phrases: string[];
+  /** Words or phrases written with a leading '-' */
+  excluded: string[];
+  filters: SearchQueryFilter[];
+  /** Human-readable problems, e.g. an unparseable date */
+  errors: string[];
+}
+
+export interface SearchOperator {
+  /** Text inserted by autocomplete */
+  syntax: string;
+  description: string;
+  example: string;
+  /** Operators like has:location take no value */
+  takesValue: boolean;
+}
+
+export const SEARCH_OPERATORS: SearchOperator[] = [
+  { syntax: 'author:', description: 'Pages by a user, me, or people I follow', example: 'author:following', takesValue: true },
+  { syntax: 'group:', description: 'Pages in a group', example: 'group:"Book Club"', takesValue: true },
+  { syntax: 'linksto:', description: 'Pages that link to a page', example: 'linksto:"Reading list"', takesValue: true },
+  { syntax: 'linkedfrom:', description: 'Pages linked from a page', example: 'linkedfrom:"Reading list"', takesValue: true },
+  { syntax: 'before:', description: 'Created before a date', example: 'before:2024-06-01', takesValue: true },
+  { syntax: 'after:', description: 'Created on or after a date', example: 'after:2024-01', takesValue: true },
+  { syntax: 'has:location', description: 'Pages pinned to the map', example: 'has:location', takesValue: false },
+  { syntax: 'is:reply', description: 'Replies to another page', example: 'is:reply', takesValue: false },
+];
+
+const VALUE_FIELDS = new Set<SearchFilterField>(['author', 'group', 'linksto', 'linkedfrom', 'before', 'after']);
+const FLAG_VALUES: Partial<Record<SearchFilterField, string[]>> = {
+  has: ['location'],
+  is: ['reply'],
+};
+
+interface RawToken {
+  text: string;
+  quoted: boolean;
+  negated: boolean;
+  /** Set when the token was key:value */
+  key?: string;
+}
+
+/**
+ * Split input into tokens, keeping quoted runs together.
+ * An unterminated quote runs to the end of the input.
+ */
+function tokenizeQuery(input: string): RawToken[] {
+  const tokens: RawToken[] = [];
+  let i = 0;
+
+  const readQuoted = (): string => {
+    // Assumes input[i] is the opening quote
+    const end = input.indexOf('"', i + 1);
+    const text = end === -1 ? input.slice(i + 1) : input.slice(i + 1, end);
+    i = end === -1 ? input.length : end + 1;
+    return text;
+  };
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    let negated = false;
+    if (input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    if (input[i] === '"') {
+      tokens.push({ text: readQuoted(), quoted: true, negated });
+      continue;
+    }
+
+    const start = i;
+    while (i < input.length && !/\s/.test(input[i]) && input[i] !== '"') i++;
+    const word = input.slice(start, i);
+
+    const colon = word.indexOf(':');
+    const key = colon > 0 ? word.slice(0, colon).toLowerCase() : '';
+    if (key && (VALUE_FIELDS.has(key as SearchFilterField) || key in FLAG_VALUES)) {
+      const rest = word.slice(colon + 1);
+      if (!rest && input[i] === '"') {
+        tokens.push({ text: readQuoted(), quoted: true, negated, key });
+      } else {
+        tokens.push({ text: rest, quoted: false, negated, key });
+      }
+      continue;
+    }
+
+    tokens.push({ text: word, quoted: false, negated });
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a date value. Accepts YYYY, YYYY-MM and YYYY-MM-DD (UTC).
+ * `before:` compares against the start of the period and `after:` too,
+ * so after:2024 means "from 1 January 2024".
+ */
+export function parseSearchDate(value: string): number | null {
+  const match = value.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) : 1;
+  const day = match[3] ? Number(match[3]) : 1;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  const timestamp = Date.UTC(year, month - 1, day);
+  // Reject dates that rolled over, e.g. 2024-02-31
+  if (new Date(timestamp).getUTCDate() !== day) return null;
+  return timestamp;
+}
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { terms: [], phrases: [], excluded: [], filters: [], errors: [] };
+
+  for (const token of tokenizeQuery(input || '')) {
+    const text = token.text.trim();
+
+    if (token.key) {
+      const field = token.key as SearchFilterField;
+
+      if (!text) {
+        // A bare "author:" while the user is still typing
+        continue;
+      }
+
+      const flags = FLAG_VALUES[field];
+      if (flags) {
+        if (flags.includes(text.toLowerCase())) {
+          parsed.filters.push({ field, value: text.toLowerCase(), negated: token.negated });
+        } else {
+          parsed.errors.push(`Unknown filter ${field}:${text}`);
+        }
+        continue;
+      }
+
+      if (field === 'before' || field === 'after') {
+        const timestamp = parseSearchDate(text);
+        if (timestamp === null) {
+          parsed.errors.push(`Invalid date "${text}" - use YYYY-MM-DD`);
+        } else {
+          parsed.filters.push({ field, value: text, negated: token.negated, timestamp });
+        }
+        continue;
+      }
+
+      parsed.filters.push({ field, value: text, negated: token.negated });
+      continue;
+    }
+
+    if (!text) continue;
+
+    if (token.negated) {
+      parsed.excluded.push(text);
+    } else if (token.quoted) {
+      parsed.phrases.push(text);
+    } else {
+      parsed.terms.push(text);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * True when the input uses anything beyond plain words
+ */
+export function isAdvancedSearchQuery(parsed: ParsedSearchQuery): boolean {
+  return parsed.filters.length > 0 || parsed.phrases.length > 0 || parsed.excluded.length > 0;
+}
+
+/**
+ * Free text without operators, for ranking and embeddings
+ */
+export function getSearchText(parsed: ParsedSearchQuery): string {
+  return [...parsed.phrases, ...parsed.terms].join(' ').trim();
+}
+
+const quoteIfNeeded = (text: string): string => (/\s/.test(text) ? `"${text}"` : text);
+
+/**
+ * Typesense `q`: phrases stay quoted and exclusions keep their '-',
+ * both of which Typesense understands natively. Empty when the query is
+ * filters only, so callers can fall back to '*'.
+ */
+export function compileTypesenseQuery(parsed: ParsedSearchQuery): string {
+  return [
+    ...parsed.phrases.map(phrase => `"${phrase.replace(/"/g, '')}"`),
+    ...parsed.terms,
+    ...parsed.excluded.map(text => `-${quoteIfNeeded(text.replace(/"/g, ''))}`),
+  ].join(' ').trim();
+}
+
+/** Backtick-quote a filter value so commas, spaces and colons survive */
+const filterValue = (value: string): string => `\`${value.replace(/`/g, '')}\``;
+
+const filterList = (values: string[]): string => `[${values.map(filterValue).join(',')}]`;
+
+const ID_FIELDS: Partial<Record<SearchFilterField, string>> = {
+  author: 'authorId',
+  group: 'groupId',
+  linksto: 'linksTo',
+  linkedfrom: 'id',
+};
+
+export interface CompiledTypesenseFilter {
+  /** `filter_by` clauses joined with && (empty when there are none) */
+  filterBy: string;
+  /** A filter resolved to nothing, e.g. linkedfrom: a page with no links */
+  matchesNothing: boolean;
+}
+
+export function compileTypesenseFilter(parsed: ParsedSearchQuery): CompiledTypesenseFilter {
+  const clauses: string[] = [];
+  let matchesNothing = false;
+
+  for (const filter of parsed.filters) {
+    const idField = ID_FIELDS[filter.field];
+    if (idField) {
+      const ids = filter.ids ?? [filter.value];
+      if (ids.length === 0) {
+        // Excluding nothing is a no-op; requiring one of nothing can't match
+        if (!filter.negated) matchesNothing = true;
+        continue;
+      }
+      clauses.push(`${idField}:${filter.negated ? '!=' : '='}${filterList(ids)}`);
+      continue;
+    }
+
+    if (filter.field === 'before' || filter.field === 'after') {
+      const seconds = Math.floor((filter.timestamp ?? 0) / 1000);
+      const isBefore = (filter.field === 'before') !== filter.negated;
+      clauses.push(`createdAt:${isBefore ? '<' : '>='}${seconds}`);
+      continue;
+    }
+
+    const boolField = filter.field === 'has' ? 'hasLocation' : 'isReply';
+    clauses.push(`${boolField}:${filter.negated ? '!=' : '='}true`);
+  }
+
+  return { filterBy: clauses.join(' && '), matchesNothing };
+}
+
+/**
+ * What the Firestore fallback knows about a page, normalised
+ */
+export interface SearchablePage {
+  id: string;
+  title: string;
+  /** Plain text of the body, or the raw stored content */
+  text: string;
+  authorId: string;
+  groupId?: string | null;
+  /** Ids of pages this page links to */
+  linksTo: string[];
+  /** Milliseconds, or null when unknown */
+  createdAt: number | null;
+  isReply: boolean;
+  hasLocation: boolean;
+}
+
+function matchesFilter(page: SearchablePage, filter: SearchQueryFilter): boolean {
+  const ids = filter.ids ?? [filter.value];
+
+  switch (filter.field) {
+    case 'author':
+      return ids.includes(page.authorId);
+    case 'group':
+      return !!page.groupId && ids.includes(page.groupId);
+    case 'linksto':
+      return page.linksTo.some(id => ids.includes(id));
+    case 'linkedfrom':
+      return ids.includes(page.id);
+    case 'before':
+      return page.createdAt !== null && page.createdAt < (filter.timestamp ?? 0);
+    case 'after':
+      return page.createdAt !== null && page.createdAt >= (filter.timestamp ?? 0);
+    case 'has':
+      return page.hasLocation;
+    case 'is':
+      return page.isReply;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Whether a page satisfies the phrases, exclusions and filters of a query.
+ * Plain terms are left to the caller's own ranking.
+ */
+export function pageMatchesSearchQuery(page: SearchablePage, parsed: ParsedSearchQuery): boolean {
+  const haystack = `${page.title} ${page.text}`.toLowerCase();
+
+  if (!parsed.phrases.every(phrase => haystack.includes(phrase.toLowerCase()))) return false;
+  if (parsed.excluded.some(text => haystack.includes(text.toLowerCase()))) return false;
+
+  return parsed.filters.every(filter => matchesFilter(page, filter) !== filter.negated);
+}
+
+/**
+ * Operators that complete the word being typed at the end of `input`.
+ * Needs two characters so ordinary typing isn't interrupted, and returns
+ * nothing once the word is a complete operator.
+ */
+export function getSearchOperatorSuggestions(input: string): SearchOperator[] {
+  const lastWord = (input.match(/(?:^|\s)-?([^\s"]*)$/)?.[1] || '').toLowerCase();
+  if (lastWord.length < 2) return [];
+
+  return SEARCH_OPERATORS.filter(operator =>
+    operator.syntax.startsWith(lastWord) && operator.syntax !== lastWord
+  );
+}
+
+/**
+ * Replace the word being typed with the chosen operator. Operators that
+ * take no value get a trailing space so the user can keep typing.
+ */
+export function applySearchOperatorSuggestion(input: string, operator: SearchOperator): string {
+  return input.replace(/(^|\s)(-?)[^\s"]*$/, (_match, space: string, minus: string) =>
+    `${space}${minus}${operator.syntax}${operator.takesValue ? '' : ' '}`
+  );
+}
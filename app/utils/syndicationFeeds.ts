@@ -0,0 +1,236 @@
+/**
+ * Pure functions - FeedService renders RSS, Atom and JSON Feed documents
+ *
+ * A feed is built once as a list of items and rendered in whichever format
+ * the reader asked for. Item bodies are the first few blocks of the page
+ * rendered as HTML, with links made absolute so they work in feed readers.
+ * The ETag and Last-Modified values come from the items, so a reader polling
+ * an unchanged feed gets a 304.
+ */
+
+import { createHash } from 'crypto';
+import { contentToHtml, escapeHtml, parseExportContent, EXPORT_BASE_URL } from './markdownExport';
+import { extractTextContent } from './text-extraction';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export const FEED_FORMATS: FeedFormat[] = ['rss', 'atom', 'json'];
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+/** Blocks of a page shown in its feed item */
+const EXCERPT_BLOCKS = 5;
+
+/** Longest plain-text summary, in characters */
+const SUMMARY_LENGTH = 280;
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  url: string;
+  authorName?: string;
+  authorUrl?: string;
+  /** ISO date the page (or version) was created */
+  published: string | null;
+  /** ISO date of the change this item stands for */
+  updated: string;
+  contentHtml: string;
+  summary: string;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  /** The page on the site this feed follows */
+  homePageUrl: string;
+  feedUrl: string;
+  items: FeedItem[];
+}
+
+export interface FeedConditionalHeaders {
+  ifNoneMatch?: string | null;
+  ifModifiedSince?: string | null;
+}
+
+/**
+ * The format asked for in ?format=, RSS when none is given
+ */
+export function parseFeedFormat(value: string | null | undefined): FeedFormat | null {
+  if (!value) return 'rss';
+  const format = value.toLowerCase();
+  return (FEED_FORMATS as string[]).includes(format) ? format as FeedFormat : null;
+}
+
+/**
+ * The opening blocks of a page as HTML plus a short plain-text summary
+ */
+export function renderFeedExcerpt(content: unknown, baseUrl: string = EXPORT_BASE_URL): { html: string; summary: string } {
+  const blocks = parseExportContent(content);
+  const html = contentToHtml(blocks.slice(0, EXCERPT_BLOCKS), { baseUrl });
+
+  const text = blocks
+    .map(block => extractTextContent([block]))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const summary = text.length > SUMMARY_LENGTH
+    ? `${text.slice(0, SUMMARY_LENGTH - 1).trimEnd()}…`
+    : text;
+
+  return { html, summary };
+}
+
+function toDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * When the newest item in the feed changed
+ */
+export function getFeedLastModified(feed: Feed): Date | null {
+  let latest: Date | null = null;
+  for (const item of feed.items) {
+    const updated = toDate(item.updated);
+    if (updated && (!latest || updated > latest)) latest = updated;
+  }
+  return latest;
+}
+
+/**
+ * A weak ETag that changes whenever an item is added, removed or updated
+ */
+export function getFeedETag(feed: Feed, format: FeedFormat): string {
+  const hash = createHash('sha1');
+  hash.update(`${format}\n${feed.title}\n${feed.description}\n`);
+  for (const item of feed.items) {
+    hash.update(`${item.id}\n${item.updated}\n${item.title}\n`);
+  }
+  return `W/"${hash.digest('hex').slice(0, 27)}"`;
+}
+
+function stripWeak(etag: string): string {
+  return etag.trim().replace(/^W\//, '');
+}
+
+/**
+ * Whether the reader's cached copy is current. If-None-Match wins over
+ * If-Modified-Since when both are sent, as in RFC 9110.
+ */
+export function isFeedNotModified(headers: FeedConditionalHeaders, etag: string, lastModified: Date | null): boolean {
+  if (headers.ifNoneMatch) {
+    const tags = headers.ifNoneMatch.split(',').map(stripWeak);
+    return tags.includes('*') || tags.includes(stripWeak(etag));
+  }
+
+  const since = toDate(headers.ifModifiedSince);
+  if (!since || !lastModified) return false;
+  // HTTP dates have whole-second precision
+  return Math.floor(lastModified.getTime() / 1000) <= Math.floor(since.getTime() / 1000);
+}
+
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+export function renderRss(feed: Feed): string {
+  const lastModified = getFeedLastModified(feed);
+  const items = feed.items.map(item => {
+    const published = toDate(item.published) || toDate(item.updated);
+    return [
+      '    <item>',
+      `      <title>${escapeHtml(item.title)}</title>`,
+      `      <link>${escapeHtml(item.url)}</link>`,
+      `      <guid isPermaLink="false">${escapeHtml(item.id)}</guid>`,
+      published ? `      <pubDate>${published.toUTCString()}</pubDate>` : '',
+      item.authorName ? `      <dc:creator>${escapeHtml(item.authorName)}</dc:creator>` : '',
+      `      <description>${escapeHtml(item.summary)}</description>`,
+      `      <content:encoded>${cdata(item.contentHtml)}</content:encoded>`,
+      '    </item>',
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeHtml(feed.title)}</title>`,
+    `    <link>${escapeHtml(feed.homePageUrl)}</link>`,
+    `    <description>${escapeHtml(feed.description)}</description>`,
+    `    <atom:link href="${escapeHtml(feed.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    lastModified ? `    <lastBuildDate>${lastModified.toUTCString()}</lastBuildDate>` : '',
+    ...items,
+    '  </channel>',
+    '</rss>',
+  ].filter(Boolean).join('\n') + '\n';
+}
+
+export function renderAtom(feed: Feed): string {
+  const updated = (getFeedLastModified(feed) || new Date(0)).toISOString();
+  const entries = feed.items.map(item => {
+    const published = toDate(item.published);
+    return [
+      '  <entry>',
+      `    <title>${escapeHtml(item.title)}</title>`,
+      `    <link href="${escapeHtml(item.url)}"/>`,
+      `    <id>${escapeHtml(item.url)}#${escapeHtml(item.id)}</id>`,
+      `    <updated>${(toDate(item.updated) || new Date(0)).toISOString()}</updated>`,
+      published ? `    <published>${published.toISOString()}</published>` : '',
+      item.authorName
+        ? `    <author><name>${escapeHtml(item.authorName)}</name>${item.authorUrl ? `<uri>${escapeHtml(item.authorUrl)}</uri>` : ''}</author>`
+        : '',
+      `    <summary>${escapeHtml(item.summary)}</summary>`,
+      `    <content type="html">${escapeHtml(item.contentHtml)}</content>`,
+      '  </entry>',
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeHtml(feed.title)}</title>`,
+    `  <subtitle>${escapeHtml(feed.description)}</subtitle>`,
+    `  <link href="${escapeHtml(feed.homePageUrl)}"/>`,
+    `  <link href="${escapeHtml(feed.feedUrl)}" rel="self"/>`,
+    `  <id>${escapeHtml(feed.feedUrl)}</id>`,
+    `  <updated>${updated}</updated>`,
+    ...entries,
+    '</feed>',
+  ].join('\n') + '\n';
+}
+
+export function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homePageUrl,
+    feed_url: feed.feedUrl,
+    items: feed.items.map(item => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      content_html: item.contentHtml,
+      summary: item.summary || undefined,
+      date_published: toDate(item.published)?.toISOString(),
+      date_modified: toDate(item.updated)?.toISOString(),
+      authors: item.authorName ? [{ name: item.authorName, url: item.authorUrl }] : undefined,
+    })),
+  }, null, 2);
+}
+
+export function renderFeed(feed: Feed, format: FeedFormat): string {
+  switch (format) {
+    case 'atom':
+      return renderAtom(feed);
+    case 'json':
+      return renderJsonFeed(feed);
+    default:
+      return renderRss(feed);
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Text Anchors
+ *
+ * Pin a passage of page text to a top-level content block and a character
+ * range within that block's text, and carry the pin across later edits.
+ * Quoted replies and margin comments are both anchored this way.
+ */
+
+import { matchBlocks } from './pageMerge';
+import type { TextAnchor } from '../types/database';
+
+/**
+ * Page content as an array of blocks, whether stored as nodes or as JSON
+ */
+export function getContentBlocks(content: unknown): any[] {
+  if (Array.isArray(content)) return content;
+  if (typeof content === 'string') {
+    try {
+      const parsed = JSON.parse(content);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
+/**
+ * The text of a block as it reads on the page, link text included
+ */
+export function getBlockText(node: any): string {
+  if (!node) return '';
+  if (typeof node.text === 'string') return node.text;
+  if (!Array.isArray(node.children)) return '';
+  return node.children.map(getBlockText).join('');
+}
+
+/**
+ * Anchor a passage to the content it was selected from. The hinted block is
+ * tried first, then the others nearest to it, so a passage that occurs more
+ * than once anchors to the occurrence the reader selected. Null when the
+ * passage isn't in the content.
+ */
+export function findTextAnchor(content: unknown, text: string, blockIndexHint: number | null = null): TextAnchor | null {
+  const blocks = getContentBlocks(content);
+  const passage = text.trim();
+  if (!passage || blocks.length === 0) return null;
+
+  const hint = blockIndexHint !== null && blockIndexHint >= 0 && blockIndexHint < blocks.length ? blockIndexHint : 0;
+  const order = blocks
+    .map((_, index) => index)
+    .sort((a, b) => Math.abs(a - hint) - Math.abs(b - hint) || a - b);
+
+  for (const blockIndex of order) {
+    const startOffset = getBlockText(blocks[blockIndex]).indexOf(passage);
+    if (startOffset !== -1) {
+      return { text: passage, blockIndex, startOffset, endOffset: startOffset + passage.length };
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether the anchor still points at its passage in this content
+ */
+export function isAnchorIntact(content: unknown, anchor: TextAnchor): boolean {
+  const block = getContentBlocks(content)[anchor.blockIndex];
+  return !!block && getBlockText(block).slice(anchor.startOffset, anchor.endOffset) === anchor.text;
+}
+
+/**
+ * Map a range through an edit of its block. The edit is the span between the
+ * texts' common prefix and suffix: a range on either side of it moves with
+ * it, a range containing it takes in the new text, and a range the edit cuts
+ * into can't be mapped.
+ */
+function mapRangeThroughEdit(oldText: string, newText: string, anchor: TextAnchor): Omit<TextAnchor, 'blockIndex'> | null {
+  const shortest = Math.min(oldText.length, newText.length);
+  let prefix = 0;
+  while (prefix < shortest && oldText[prefix] === newText[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < shortest - prefix && oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]) suffix++;
+
+  // Nothing in common: the block was rewritten, not edited
+  if (prefix + suffix === 0) return null;
+
+  const editEnd = oldText.length - suffix;
+  const shift = newText.length - oldText.length;
+  let { startOffset, endOffset } = anchor;
+
+  if (endOffset <= prefix) {
+    // Edit is after the range
+  } else if (startOffset >= editEnd) {
+    startOffset += shift;
+    endOffset += shift;
+  } else if (startOffset <= prefix && endOffset >= editEnd) {
+    endOffset += shift;
+  } else {
+    return null;
+  }
+
+  const text = newText.slice(startOffset, endOffset);
+  return text.trim() ? { text, startOffset, endOffset } : null;
+}
+
+/**
+ * Carry an anchor from one version of a page's content to the next. Blocks
+ * are matched across the versions first; if the anchored block was edited,
+ * the range is mapped through the edit within it. Failing that - the passage
+ * itself was rewritten, or its block split or moved - the passage is looked
+ * for again near where it was. Null when it's gone.
+ */
+export function reanchorText(oldContent: unknown, newContent: unknown, anchor: TextAnchor): TextAnchor | null {
+  const oldTexts = getContentBlocks(oldContent).map(getBlockText);
+  const newTexts = getContentBlocks(newContent).map(getBlockText);
+
+  if (oldTexts[anchor.blockIndex]?.slice(anchor.startOffset, anchor.endOffset) !== anchor.text) {
+    // The old content doesn't hold the anchor, so there's no edit to follow
+    return findTextAnchor(newContent, anchor.text, anchor.blockIndex);
+  }
+
+  const pairs = matchBlocks(oldTexts, newTexts);
+  const unchanged = pairs.find(([oldIndex]) => oldIndex === anchor.blockIndex);
+  if (unchanged) {
+    return { ...anchor, blockIndex: unchanged[1] };
+  }
+
+  // The edited block is somewhere between the nearest unchanged blocks around it
+  const before = pairs.filter(([oldIndex]) => oldIndex < anchor.blockIndex).pop();
+  const after = pairs.find(([oldIndex]) => oldIndex > anchor.blockIndex);
+  const gapStart = before ? before[1] + 1 : 0;
+  const gapEnd = after ? after[1] : newTexts.length;
+
+  for (let blockIndex = gapStart; blockIndex < gapEnd; blockIndex++) {
+    const mapped = mapRangeThroughEdit(oldTexts[anchor.blockIndex], newTexts[blockIndex], anchor);
+    if (mapped) {
+      return { ...mapped, blockIndex };
+    }
+  }
+
+  return findTextAnchor(newContent, anchor.text, gapStart);
+}
@@ -0,0 +1,71 @@
+/**
+ * User Blocks
+ *
+ * Blocking and muting are both one-way lists kept by the user doing it.
+ * Muting hides someone's pages and notifications from you. Blocking does the
+ * same and also stops them reaching you: following, replying to your pages,
+ * or notifying you by linking or mentioning. Pure functions - UserBlockService
+ * loads and stores the lists.
+ */
+
+import type { UserBlockList, UserBlockAction } from '../types/database';
+
+/** Most users one person can block or mute, per list */
+export const MAX_BLOCKED_USERS = 1000;
+
+export const EMPTY_BLOCK_LIST: UserBlockList = { blocked: [], muted: [] };
+
+export const USER_BLOCK_ACTIONS: UserBlockAction[] = ['block', 'unblock', 'mute', 'unmute'];
+
+/**
+ * Read a stored block list, tolerating missing or malformed fields
+ */
+export function normalizeBlockList(data: Partial<UserBlockList> | null | undefined): UserBlockList {
+  return {
+    blocked: Array.isArray(data?.blocked) ? data!.blocked.filter(id => typeof id === 'string') : [],
+    muted: Array.isArray(data?.muted) ? data!.muted.filter(id => typeof id === 'string') : [],
+  };
+}
+
+/**
+ * Apply an action to a list. Blocking takes someone off the muted list,
+ * since a block already hides them, and unblocking doesn't quietly leave
+ * them muted.
+ */
+export function applyBlockAction(list: UserBlockList, action: UserBlockAction, targetUserId: string): UserBlockList {
+  const without = (ids: string[]) => ids.filter(id => id !== targetUserId);
+
+  switch (action) {
+    case 'block':
+      return { blocked: [...without(list.blocked), targetUserId], muted: without(list.muted) };
+    case 'unblock':
+      return { ...list, blocked: without(list.blocked) };
+    case 'mute':
+      if (list.blocked.includes(targetUserId)) return list;
+      return { ...list, muted: [...without(list.muted), targetUserId] };
+    case 'unmute':
+      return { ...list, muted: without(list.muted) };
+  }
+}
+
+/**
+ * Authors whose pages and notifications a user doesn't want to see
+ */
+export function getHiddenAuthorIds(list: UserBlockList): Set<string> {
+  return new Set([...list.blocked, ...list.muted]);
+}
+
+/**
+ * Drop items by hidden authors. Items without an author are kept.
+ */
+export function filterHiddenAuthors<T>(
+  items: T[],
+  hiddenAuthorIds: Set<string>,
+  getAuthorId: (item: T) => string | null | undefined
+): T[] {
+  if (hiddenAuthorIds.size === 0) return items;
+  return items.filter(item => {
+    const authorId = getAuthorId(item);
+    return !authorId || !hiddenAuthorIds.has(authorId);
+  });
+}
@@ -92,6 +92,8 @@ export const RESERVED_USERNAMES = [
   'anonymous', 'user', 'guest', 'undefined', 'null', 'missing username',
   // Common spam/abuse patterns
   'test', 'demo', 'example', 'sample',
+  // Search operator values (author:me, author:following)
+  'me', 'following',
 ] as const;
 
 /**
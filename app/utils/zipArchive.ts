@@ -0,0 +1,222 @@
+/**
+ * Zip Archive
+ *
+ * Builds a .zip file in memory for exports, and reads uploaded ones for
+ * imports. Exported entries are stored without compression, which every
+ * unzip tool reads and keeps this dependency-free; exported Markdown is
+ * small. Uploaded archives may also be deflated, as Notion and most zip
+ * tools write them. Archives over 65,535 entries or 4 GB (which would need
+ * Zip64) are rejected. Server-side only (uses Buffer and zlib).
+ */
+
+import { inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  /** Path inside the archive, using forward slashes */
+  path: string;
+  data: string | Uint8Array;
+  modifiedAt?: Date;
+}
+
+export interface ZipFile {
+  path: string;
+  data: Uint8Array;
+}
+
+export class ZipArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipArchiveError';
+  }
+}
+
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+
+/** General purpose flag: file names are UTF-8 */
+const UTF8_FLAG = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** MS-DOS date and time, which can't go before 1980 */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getUTCFullYear(), 1980);
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}
+
+/**
+ * Build a zip archive. Later entries with a path already used are skipped.
+ */
+export function createZipArchive(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const seen = new Set<string>();
+  const files = entries
+    .map(entry => ({ ...entry, path: entry.path.replace(/\\/g, '/').replace(/^\/+/, '') }))
+    .filter(entry => entry.path && !seen.has(entry.path) && seen.add(entry.path))
+    .map(entry => {
+      const data = typeof entry.data === 'string' ? Buffer.from(entry.data, 'utf8') : entry.data;
+      return {
+        name: Buffer.from(entry.path, 'utf8'),
+        data,
+        crc: crc32(data),
+        ...toDosDateTime(entry.modifiedAt || new Date()),
+      };
+    });
+
+  if (files.length > MAX_ENTRIES) {
+    throw new ZipArchiveError(`A zip archive can hold at most ${MAX_ENTRIES} files`);
+  }
+
+  const localSize = files.reduce((sum, file) => sum + 30 + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.name.length, 0);
+  if (localSize + centralSize > MAX_SIZE) {
+    throw new ZipArchiveError('The archive is too large');
+  }
+
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+  const offsets: number[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    offsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 10, true);
+    view.setUint16(offset + 6, UTF8_FLAG, true);
+    view.setUint16(offset + 8, 0, true);
+    view.setUint16(offset + 10, file.time, true);
+    view.setUint16(offset + 12, file.date, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    output.set(file.name, offset + 30);
+    output.set(file.data, offset + 30 + file.name.length);
+    offset += 30 + file.name.length + file.data.length;
+  }
+
+  const centralStart = offset;
+  files.forEach((file, index) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, 10, true);
+    view.setUint16(offset + 8, UTF8_FLAG, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, file.time, true);
+    view.setUint16(offset + 14, file.date, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.name.length, true);
+    // Extra field, comment, disk number, internal and external attributes are all zero
+    view.setUint32(offset + 42, offsets[index], true);
+    output.set(file.name, offset + 46);
+    offset += 46 + file.name.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+
+  return output;
+}
+
+/**
+ * Read the files in a zip archive, skipping folders and encrypted entries.
+ * Stops with an error once the files would unpack to more than maxSize bytes,
+ * so a small upload can't expand into gigabytes.
+ */
+export function readZipArchive(archive: Uint8Array, maxSize: number): ZipFile[] {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+
+  // The end of central directory record is followed by a comment of up to 64 KB
+  let end = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new ZipArchiveError('Not a zip file');
+  }
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new ZipArchiveError('Zip64 archives are not supported');
+  }
+
+  const files: ZipFile[] = [];
+  let totalSize = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > archive.length || view.getUint32(offset, true) !== 0x02014b50) {
+      throw new ZipArchiveError('The zip file is damaged');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = Buffer.from(archive.subarray(offset + 46, offset + 46 + nameLength)).toString('utf8');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const isEncrypted = (flags & 1) !== 0;
+    if (path.endsWith('/') || isEncrypted || (method !== 0 && method !== 8)) {
+      continue;
+    }
+
+    totalSize += size;
+    if (totalSize > maxSize) {
+      throw new ZipArchiveError('The zip file is too large to import');
+    }
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const compressed = archive.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      files.push({ path, data: compressed });
+      continue;
+    }
+
+    // Inflating past the size the header declares means the entry lies about it
+    try {
+      files.push({ path, data: new Uint8Array(inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) })) });
+    } catch {
+      throw new ZipArchiveError(`Couldn't unpack ${path}`);
+    }
+  }
+
+  return files;
+}